@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+
+/**
+ * Benchmark extraction accuracy against a labeled product corpus
+ *
+ * The corpus directory holds product images with ground truth next to them:
+ *   corpus/granola.jpg
+ *   corpus/granola.json   { "barcode", "name", "brand", "ingredients", "allergens", "nutrition_facts" }
+ *
+ * Writes extraction-benchmark.json and extraction-benchmark.md to the output
+ * directory (default: benchmarks/). Pass the JSON of an earlier run with
+ * --baseline to show the change of every metric.
+ *
+ * Usage:
+ *   npx tsx scripts/benchmark-extraction.ts <corpus-dir>
+ *   npx tsx scripts/benchmark-extraction.ts <corpus-dir> --prompt combined --out benchmarks/combined
+ *   npx tsx scripts/benchmark-extraction.ts <corpus-dir> --baseline benchmarks/extraction-benchmark.json
+ *   LLM_PROVIDER=fixture npx tsx scripts/benchmark-extraction.ts <corpus-dir>     # replay recorded responses
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { GeminiWrapper } from '../src/lib/gemini-wrapper';
+import { buildBenchmarkReport } from '../src/lib/benchmark/metrics';
+import { renderBenchmarkMarkdown } from '../src/lib/benchmark/report';
+import {
+  loadBenchmarkCorpus,
+  runBenchmarkCase,
+  type BenchmarkPromptVariant,
+} from '../src/lib/benchmark/runner';
+import type { BenchmarkPrediction, BenchmarkReport } from '../src/lib/benchmark/types';
+import { IngredientParser } from '../src/lib/services/ingredient-parser';
+import { NutritionParser } from '../src/lib/services/nutrition-parser';
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const corpusDir = args[0];
+const outDir = path.resolve(option('--out') || 'benchmarks');
+const prompt = (option('--prompt') || 'sections') as BenchmarkPromptVariant;
+const baselinePath = option('--baseline');
+
+if (!corpusDir || corpusDir.startsWith('--')) {
+  console.error('Usage: npx tsx scripts/benchmark-extraction.ts <corpus-dir> [--out dir] [--prompt sections|combined] [--baseline report.json]');
+  process.exit(1);
+}
+
+if (prompt !== 'sections' && prompt !== 'combined') {
+  console.error('❌ --prompt must be "sections" or "combined"');
+  process.exit(1);
+}
+
+async function benchmarkExtraction() {
+  const cases = loadBenchmarkCorpus(path.resolve(corpusDir));
+  console.log(`📂 ${cases.length} labeled images in ${corpusDir}\n`);
+
+  const gemini = new GeminiWrapper();
+  const pipeline = {
+    gemini,
+    nutritionParser: new NutritionParser(),
+    ingredientParser: new IngredientParser(),
+    prompt,
+  };
+
+  const predictions: BenchmarkPrediction[] = [];
+  for (const [index, benchmarkCase] of cases.entries()) {
+    console.log(`🔍 [${index + 1}/${cases.length}] ${benchmarkCase.id}`);
+    const prediction = await runBenchmarkCase(benchmarkCase, pipeline);
+    if (prediction.errors.length > 0) {
+      console.log(`   ⚠️  ${prediction.errors.join('; ')}`);
+    }
+    predictions.push(prediction);
+  }
+
+  const stats = gemini.getStats();
+  const report = buildBenchmarkReport(cases, predictions, {
+    corpus: corpusDir,
+    pipeline: { prompt, provider: stats.provider, model: stats.model },
+  });
+
+  const baseline = baselinePath
+    ? JSON.parse(readFileSync(baselinePath, 'utf8')) as BenchmarkReport
+    : undefined;
+  const markdown = renderBenchmarkMarkdown(report, baseline);
+
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(path.join(outDir, 'extraction-benchmark.json'), JSON.stringify(report, null, 2) + '\n');
+  writeFileSync(path.join(outDir, 'extraction-benchmark.md'), markdown);
+
+  console.log('\n' + markdown);
+  console.log(`📝 Report written to ${outDir}`);
+}
+
+benchmarkExtraction().catch(error => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
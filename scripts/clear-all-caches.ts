@@ -1,80 +1,66 @@
 /**
  * Clear All MongoDB Caches Script
- * 
- * This script clears all cache collections in MongoDB for testing purposes:
- * - cache_entries (product identification cache)
- * - nutrition_cache (nutrition analysis cache)
+ *
+ * This script clears cached results in MongoDB for testing purposes:
+ * - every namespace of the unified cache (product, nutrition, dimensions,
+ *   classification, insights), through the cache layer
  * - scan_history (scan history)
- * 
+ *
  * Usage:
  *   npx tsx scripts/clear-all-caches.ts
- * 
+ *
  * Options:
- *   --cache-entries    Clear only cache_entries collection
- *   --nutrition-cache  Clear only nutrition_cache collection
+ *   --product          Clear only the product identification namespace
+ *   --nutrition        Clear only the nutrition analysis namespace
+ *   --dimensions       Clear only the dimension analysis namespace
+ *   --classification   Clear only the image classification namespace
+ *   --insights         Clear only the insights namespace
  *   --scan-history     Clear only scan_history collection
- *   --all              Clear all collections (default)
+ *   --all              Clear all namespaces and scan_history (default)
  */
 
-import { getMongoClient } from '../src/lib/mongodb/client';
+import { cacheLayer, CACHE_NAMESPACES } from '../src/lib/cache';
+import { closeMongoClient, getMongoClient } from '../src/lib/mongodb/client';
 
 async function clearAllCaches() {
   console.log('🗑️  MongoDB Cache Clearing Script');
   console.log('═══════════════════════════════════════════════════');
-  
+
   try {
     // Parse command line arguments
     const args = process.argv.slice(2);
-    const clearCacheEntries = args.includes('--cache-entries') || args.includes('--all') || args.length === 0;
-    const clearNutritionCache = args.includes('--nutrition-cache') || args.includes('--all') || args.length === 0;
-    const clearScanHistory = args.includes('--scan-history') || args.includes('--all') || args.length === 0;
-    
+    const clearAll = args.includes('--all') || args.length === 0;
+    const namespaces = CACHE_NAMESPACES.filter(namespace => clearAll || args.includes(`--${namespace}`));
+    const clearScanHistory = clearAll || args.includes('--scan-history');
+
     // Connect to MongoDB
     console.log('📡 Connecting to MongoDB...');
     const db = await getMongoClient();
     console.log('✅ Connected to MongoDB');
     console.log('');
-    
+
     let totalDeleted = 0;
-    
-    // Clear cache_entries collection
-    if (clearCacheEntries) {
-      console.log('🗑️  Clearing cache_entries collection...');
-      const cacheEntriesCollection = db.collection('cache_entries');
-      const cacheEntriesCount = await cacheEntriesCollection.countDocuments();
-      
-      if (cacheEntriesCount > 0) {
-        const result = await cacheEntriesCollection.deleteMany({});
-        console.log(`   ✅ Deleted ${result.deletedCount} cache entries`);
-        totalDeleted += result.deletedCount;
-      } else {
-        console.log('   ℹ️  Collection is already empty');
-      }
-      console.log('');
-    }
-    
-    // Clear nutrition_cache collection
-    if (clearNutritionCache) {
-      console.log('🗑️  Clearing nutrition_cache collection...');
-      const nutritionCacheCollection = db.collection('nutrition_cache');
-      const nutritionCacheCount = await nutritionCacheCollection.countDocuments();
-      
-      if (nutritionCacheCount > 0) {
-        const result = await nutritionCacheCollection.deleteMany({});
-        console.log(`   ✅ Deleted ${result.deletedCount} nutrition cache entries`);
-        totalDeleted += result.deletedCount;
+
+    // Clear cache namespaces
+    for (const namespace of namespaces) {
+      console.log(`🗑️  Clearing ${namespace} cache...`);
+      const deleted = await cacheLayer.namespace(namespace).clear();
+
+      if (deleted > 0) {
+        console.log(`   ✅ Deleted ${deleted} ${namespace} cache entries`);
+        totalDeleted += deleted;
       } else {
-        console.log('   ℹ️  Collection is already empty');
+        console.log('   ℹ️  Namespace is already empty');
       }
       console.log('');
     }
-    
+
     // Clear scan_history collection
     if (clearScanHistory) {
       console.log('🗑️  Clearing scan_history collection...');
       const scanHistoryCollection = db.collection('scan_history');
       const scanHistoryCount = await scanHistoryCollection.countDocuments();
-      
+
       if (scanHistoryCount > 0) {
         const result = await scanHistoryCollection.deleteMany({});
         console.log(`   ✅ Deleted ${result.deletedCount} scan history entries`);
@@ -84,11 +70,12 @@ async function clearAllCaches() {
       }
       console.log('');
     }
-    
+
     console.log('═══════════════════════════════════════════════════');
     console.log(`✅ Cache clearing complete! Total deleted: ${totalDeleted}`);
     console.log('');
-    
+
+    await closeMongoClient();
     process.exit(0);
   } catch (error) {
     console.error('❌ Error clearing caches:', error);
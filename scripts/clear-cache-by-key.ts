@@ -1,17 +1,19 @@
 #!/usr/bin/env tsx
 
 /**
- * Clear specific cache entry by barcode or image hash
- * Usage: 
+ * Clear specific cache entries by barcode or image hash
+ * A barcode clears everything cached for it (product, nutrition, insights...);
+ * an image hash clears its product identification entry.
+ * Usage:
  *   npx tsx scripts/clear-cache-by-key.ts barcode 0044000034207
  *   npx tsx scripts/clear-cache-by-key.ts imageHash abc123...
  */
 
-import { MongoClient } from 'mongodb';
+import { barcodeTag, cacheLayer } from '../src/lib/cache';
+import { cacheService } from '../src/lib/mongodb/cache-service';
+import { closeMongoClient } from '../src/lib/mongodb/client';
 
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
+if (!process.env.MONGODB_URI) {
   console.error('❌ MONGODB_URI environment variable is not set');
   process.exit(1);
 }
@@ -31,31 +33,27 @@ if (keyType !== 'barcode' && keyType !== 'imageHash') {
 }
 
 async function clearCacheByKey() {
-  const client = new MongoClient(MONGODB_URI!);
-  
   try {
-    await client.connect();
-    console.log('✅ Connected to MongoDB');
-    
-    const db = client.db();
-    const result = await db.collection('cache_entries').deleteMany({
-      key: keyValue,
-      keyType: keyType
-    });
-    
-    console.log(`🗑️  Cleared ${result.deletedCount} cache entries for ${keyType}: ${keyValue}`);
-    
-    if (result.deletedCount === 0) {
+    if (keyType === 'imageHash') {
+      await cacheService.invalidate(keyValue, 'imageHash');
+      return;
+    }
+
+    const deleted = await cacheLayer.invalidateTags([barcodeTag(keyValue)]);
+
+    console.log(`🗑️  Cleared ${deleted} cache entries for ${keyType}: ${keyValue}`);
+
+    if (deleted === 0) {
       console.log('ℹ️  No cache entries found for this key');
     } else {
       console.log('✅ Cache cleared successfully');
     }
-    
+
   } catch (error) {
     console.error('❌ Error clearing cache:', error);
     process.exit(1);
   } finally {
-    await client.close();
+    await closeMongoClient();
   }
 }
 
@@ -1,37 +1,30 @@
 #!/usr/bin/env tsx
 
 /**
- * Clear MongoDB cache to test all tiers
+ * Clear the product identification cache to test all tiers
  * Usage: npx tsx scripts/clear-cache.ts
  */
 
-import { MongoClient } from 'mongodb';
+import { cacheLayer } from '../src/lib/cache';
+import { closeMongoClient } from '../src/lib/mongodb/client';
 
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
+if (!process.env.MONGODB_URI) {
   console.error('❌ MONGODB_URI environment variable is not set');
   process.exit(1);
 }
 
 async function clearCache() {
-  const client = new MongoClient(MONGODB_URI!);
-  
   try {
-    await client.connect();
-    console.log('✅ Connected to MongoDB');
-    
-    const db = client.db();
-    const result = await db.collection('cache_entries').deleteMany({});
-    
-    console.log(`🗑️  Cleared ${result.deletedCount} cache entries`);
+    const deleted = await cacheLayer.namespace('product').clear();
+
+    console.log(`🗑️  Cleared ${deleted} cache entries`);
     console.log('✅ Cache cleared successfully');
-    
+
   } catch (error) {
     console.error('❌ Error clearing cache:', error);
     process.exit(1);
   } finally {
-    await client.close();
+    await closeMongoClient();
   }
 }
 
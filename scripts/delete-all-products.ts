@@ -8,7 +8,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { MongoClient } from 'mongodb';
+import { cacheLayer, CACHE_NAMESPACES } from '../src/lib/cache';
+import { closeMongoClient } from '../src/lib/mongodb/client';
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -26,7 +27,6 @@ if (!MONGODB_URI) {
 
 async function deleteAllProducts() {
   const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_KEY!);
-  const mongoClient = new MongoClient(MONGODB_URI!);
 
   try {
     // Get count of products
@@ -89,11 +89,12 @@ async function deleteAllProducts() {
       console.log(`✅ Deleted ${productCount || 0} product(s)`);
     }
 
-    // Clear MongoDB cache
-    await mongoClient.connect();
-    const db = mongoClient.db();
-    const cacheResult = await db.collection('cache_entries').deleteMany({});
-    console.log(`✅ Cleared ${cacheResult.deletedCount} cache entries from MongoDB`);
+    // Clear MongoDB cache (every namespace)
+    let cacheDeleted = 0;
+    for (const namespace of CACHE_NAMESPACES) {
+      cacheDeleted += await cacheLayer.namespace(namespace).clear();
+    }
+    console.log(`✅ Cleared ${cacheDeleted} cache entries from MongoDB`);
 
     console.log('');
     console.log('🎉 All data deleted successfully');
@@ -102,7 +103,7 @@ async function deleteAllProducts() {
     console.error('❌ Unexpected error:', error);
     process.exit(1);
   } finally {
-    await mongoClient.close();
+    await closeMongoClient();
   }
 }
 
@@ -0,0 +1,72 @@
+/**
+ * Drop Legacy Cache Collections Script
+ *
+ * The unified cache layer keeps every namespace in the single 'cache'
+ * collection. The collections of the four cache repositories it replaced
+ * are no longer read or written; this script drops them.
+ * - cache_entries (product identification cache)
+ * - nutrition_cache (nutrition analysis cache)
+ * - dimension_analysis (dimension analysis cache)
+ * - insights (AI insights cache)
+ *
+ * Cached results are recomputed on the next scan, so nothing is migrated.
+ *
+ * Usage:
+ *   npx tsx scripts/drop-legacy-cache-collections.ts
+ *
+ * Options:
+ *   --dry-run   Only report the collections and their document counts
+ */
+
+import { closeMongoClient, getMongoClient } from '../src/lib/mongodb/client';
+
+const LEGACY_CACHE_COLLECTIONS = ['cache_entries', 'nutrition_cache', 'dimension_analysis', 'insights'];
+
+async function dropLegacyCacheCollections() {
+  console.log('🗑️  Legacy Cache Collections Cleanup Script');
+  console.log('═══════════════════════════════════════════════════');
+
+  try {
+    const dryRun = process.argv.slice(2).includes('--dry-run');
+
+    // Connect to MongoDB
+    console.log('📡 Connecting to MongoDB...');
+    const db = await getMongoClient();
+    console.log('✅ Connected to MongoDB');
+    console.log('');
+
+    let dropped = 0;
+
+    for (const name of LEGACY_CACHE_COLLECTIONS) {
+      const exists = await db.listCollections({ name }).hasNext();
+      if (!exists) {
+        console.log(`ℹ️  ${name}: not found`);
+        continue;
+      }
+
+      const count = await db.collection(name).countDocuments();
+      if (dryRun) {
+        console.log(`🔍 ${name}: ${count} documents (would drop)`);
+        continue;
+      }
+
+      await db.collection(name).drop();
+      console.log(`✅ ${name}: dropped (${count} documents)`);
+      dropped++;
+    }
+
+    console.log('');
+    console.log('═══════════════════════════════════════════════════');
+    console.log(dryRun ? '✅ Dry run complete, nothing dropped' : `✅ Cleanup complete! Collections dropped: ${dropped}`);
+    console.log('');
+
+    await closeMongoClient();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error dropping legacy cache collections:', error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+dropLegacyCacheCollections();
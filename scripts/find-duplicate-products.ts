@@ -0,0 +1,88 @@
+#!/usr/bin/env tsx
+
+/**
+ * Find likely duplicate products and propose merges
+ *
+ * Products created from OCR text can duplicate an existing product when the
+ * metadata search missed it. This script compares products by name and
+ * brand similarity, size and barcode (see src/lib/duplicates/duplicate-detector.ts)
+ * and saves pairs scoring at least --min-score as merge proposals, which
+ * reviewers accept or dismiss at /review/duplicates. Pairs already proposed
+ * in either order are skipped, including dismissed ones.
+ *
+ * Usage:
+ *   npx tsx scripts/find-duplicate-products.ts --dry-run        # print the pairs only
+ *   npx tsx scripts/find-duplicate-products.ts
+ *   npx tsx scripts/find-duplicate-products.ts --min-score 0.9
+ */
+
+import { getSupabaseServerClient } from '../src/lib/supabase/server-client';
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicateCandidates } from '../src/lib/duplicates/duplicate-detector';
+import { mergeProposalService } from '../src/lib/duplicates/merge-proposal-service';
+import type { Product } from '../src/lib/supabase/types';
+
+const PAGE_SIZE = 1000;
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const dryRun = args.includes('--dry-run');
+const minScore = option('--min-score') ? parseFloat(option('--min-score')!) : DEFAULT_DUPLICATE_THRESHOLD;
+
+if (!Number.isFinite(minScore) || minScore <= 0 || minScore > 1) {
+  console.error('❌ --min-score must be between 0 and 1');
+  process.exit(1);
+}
+
+async function fetchProducts(): Promise<Product[]> {
+  const supabase = getSupabaseServerClient();
+  const products: Product[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch products: ${error.message}`);
+    }
+
+    products.push(...((data || []) as Product[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return products;
+    }
+  }
+}
+
+async function findDuplicates() {
+  console.log('📡 Loading products...');
+  const products = await fetchProducts();
+  const candidates = findDuplicateCandidates(products, { threshold: minScore });
+
+  console.log(`📦 ${products.length} products, ${candidates.length} likely duplicate pairs (score ≥ ${minScore})\n`);
+
+  for (const candidate of candidates) {
+    console.log(`🔀 ${candidate.score.toFixed(3)}: keep ${candidate.survivor.id} (${candidate.survivor.brand} ${candidate.survivor.name})`);
+    console.log(`   ← ${candidate.duplicate.id} (${candidate.duplicate.brand} ${candidate.duplicate.name}): ${candidate.reasons.join(', ')}`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run, no proposals saved');
+    return;
+  }
+
+  const saved = await mergeProposalService.saveProposals(candidates);
+  console.log(`\n✅ ${saved} new proposals saved; review them at /review/duplicates`);
+}
+
+findDuplicates()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Duplicate detection failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,191 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import an Open Food Facts dump into the products table
+ *
+ * Reads the JSONL or CSV export (https://world.openfoodfacts.org/data),
+ * optionally gzip compressed, and upserts products by GTIN-14 barcode with
+ * name, brand, quantity, category, ingredients and nutrition facts.
+ * Records without a valid barcode or a name are skipped.
+ *
+ * Imported values are recorded in field provenance as Tier 1 (barcode
+ * database) observations. Existing products are left untouched unless
+ * --update-existing is passed; even then they only take the fields that win
+ * on provenance, so reviewer corrections and packaging scans are kept.
+ *
+ * Imported products are found by Tier 1 barcode lookups, and by Tier 3 with
+ * DISCOVERY_PROVIDER=open-food-facts.
+ *
+ * Usage:
+ *   npx tsx scripts/import-open-food-facts.ts <dump> --dry-run            # map and count only
+ *   npx tsx scripts/import-open-food-facts.ts openfoodfacts-products.jsonl.gz
+ *   npx tsx scripts/import-open-food-facts.ts en.openfoodfacts.org.products.csv.gz --limit 50000
+ *   npx tsx scripts/import-open-food-facts.ts <dump> --update-existing --batch-size 200
+ */
+
+import { getSupabaseServerClient } from '../src/lib/supabase/server-client';
+import type { Product, ProductUpdate } from '../src/lib/supabase/types';
+import { cacheService } from '../src/lib/mongodb/cache-service';
+import { readOpenFoodFactsDump, type DumpReadStats } from '../src/lib/open-food-facts/dump-reader';
+import {
+  mapOpenFoodFactsProduct,
+  type OpenFoodFactsProductRow,
+  type OpenFoodFactsSkipReason,
+} from '../src/lib/open-food-facts/product-mapper';
+import {
+  DEFAULT_EXTRACTION_CONFIDENCE,
+  mergeFieldValues,
+  type ObservationContext,
+} from '../src/lib/multi-image/FieldProvenance';
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const dumpPath = args[0];
+const dryRun = args.includes('--dry-run');
+const updateExisting = args.includes('--update-existing');
+const limit = option('--limit') ? parseInt(option('--limit')!, 10) : Infinity;
+const batchSize = parseInt(option('--batch-size') || '500', 10);
+
+if (!dumpPath || dumpPath.startsWith('--')) {
+  console.error('Usage: npx tsx scripts/import-open-food-facts.ts <dump.jsonl|dump.csv>[.gz] [--dry-run] [--limit n] [--batch-size n] [--update-existing]');
+  process.exit(1);
+}
+
+if (!Number.isFinite(batchSize) || batchSize <= 0 || Number.isNaN(limit) || limit <= 0) {
+  console.error('❌ --limit and --batch-size must be positive numbers');
+  process.exit(1);
+}
+
+/**
+ * Catalog data ranks with Tier 1 barcode lookups in field provenance
+ */
+function importContext(): ObservationContext {
+  return {
+    source: 'tier_1',
+    tier: 1,
+    confidence: DEFAULT_EXTRACTION_CONFIDENCE,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+async function writeBatch(rows: OpenFoodFactsProductRow[]) {
+  const supabase = getSupabaseServerClient();
+  const context = importContext();
+
+  const existing = new Map<string, Product>();
+  if (updateExisting) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*')
+      .in('barcode', rows.map(row => row.barcode));
+
+    if (error) {
+      throw new Error(`Failed to read existing products: ${error.message}`);
+    }
+    for (const product of data || []) {
+      existing.set(product.barcode!, product);
+    }
+  }
+
+  const inserts = rows
+    .filter(row => !existing.has(row.barcode))
+    .map(row => ({ ...row, field_provenance: mergeFieldValues(null, row, context).field_provenance }));
+
+  const { error } = await supabase
+    .from('products')
+    .upsert(inserts, { onConflict: 'barcode', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to write batch: ${error.message}`);
+  }
+
+  // Existing products only take the fields that win on provenance, so
+  // reviewer corrections and packaging scans are kept
+  for (const row of rows) {
+    const product = existing.get(row.barcode);
+    if (!product) continue;
+
+    const update: ProductUpdate & Pick<OpenFoodFactsProductRow, 'ingredients' | 'nutrition_facts'> = {
+      ...mergeFieldValues(product, row, context),
+      ingredients: row.ingredients,
+      nutrition_facts: row.nutrition_facts,
+      metadata: { ...(product.metadata || {}), ...row.metadata },
+    };
+
+    const { error: updateError } = await supabase
+      .from('products')
+      .update(update)
+      .eq('id', product.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update ${row.barcode}: ${updateError.message}`);
+    }
+
+    // Cached product data for this barcode is now stale
+    try {
+      await cacheService.invalidate(row.barcode, 'barcode');
+    } catch (cacheError) {
+      console.warn(`   ⚠️  Cache invalidation failed for ${row.barcode}:`, cacheError);
+    }
+  }
+}
+
+async function importOpenFoodFacts() {
+  console.log(`📡 Reading ${dumpPath}${dryRun ? ' (dry run)' : ''}...`);
+
+  const stats: DumpReadStats = { lines: 0, malformed: 0 };
+  const skipped: Record<OpenFoodFactsSkipReason, number> = { invalid_barcode: 0, missing_name: 0 };
+  let mapped = 0;
+  let written = 0;
+
+  // Keyed by barcode: a batch may not upsert the same row twice
+  let batch = new Map<string, OpenFoodFactsProductRow>();
+
+  const flush = async () => {
+    if (batch.size === 0) return;
+    if (!dryRun) {
+      await writeBatch([...batch.values()]);
+    }
+    written += batch.size;
+    batch = new Map();
+    console.log(`   ${written} products ${dryRun ? 'mapped' : 'processed'} (${stats.lines} records read)`);
+  };
+
+  for await (const record of readOpenFoodFactsDump(dumpPath, stats)) {
+    const result = mapOpenFoodFactsProduct(record);
+    if (!result.ok) {
+      skipped[result.reason]++;
+      continue;
+    }
+
+    mapped++;
+    batch.set(result.row.barcode, result.row);
+    if (batch.size >= batchSize) {
+      await flush();
+    }
+    if (mapped >= limit) {
+      break;
+    }
+  }
+  await flush();
+
+  console.log(`\n✅ ${written} products ${dryRun ? 'mapped' : 'processed'} from ${stats.lines} records`);
+  console.log(`   ${skipped.invalid_barcode} without a valid barcode`);
+  console.log(`   ${skipped.missing_name} without a name`);
+  console.log(`   ${stats.malformed} malformed lines`);
+  if (!updateExisting && !dryRun) {
+    console.log('   Existing products were kept (use --update-existing to merge catalog data into them)');
+  }
+}
+
+importOpenFoodFacts()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Open Food Facts import failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+
+/**
+ * Normalize product barcodes to GTIN-14 and merge duplicate products
+ *
+ * Products saved before GTIN normalization may hold the same trade item under
+ * different barcode forms (UPC-A 012345678905, EAN-13 0012345678905, UPC-E).
+ * This script rewrites every barcode to GTIN-14 and merges rows that collide:
+ * each duplicate is folded into the surviving product by the transactional
+ * merge_duplicate_product function (scan logs, error reports and store
+ * inventory move to the survivor, the duplicate is deleted and the merged
+ * fields applied together), then cache entries are invalidated. A failure
+ * leaves every product either merged or untouched; run the script again
+ * to finish.
+ *
+ * Barcodes with an invalid check digit are listed and left unchanged.
+ *
+ * Usage:
+ *   npx tsx scripts/normalize-barcodes.ts --dry-run   # print the plan only
+ *   npx tsx scripts/normalize-barcodes.ts
+ */
+
+import { getSupabaseServerClient } from '../src/lib/supabase/server-client';
+import { cacheLayer } from '../src/lib/cache';
+import { planBarcodeMigration, type BarcodeMerge } from '../src/lib/barcode/barcode-migration';
+import type { Product, ProductUpdate } from '../src/lib/supabase/types';
+
+const PAGE_SIZE = 1000;
+const dryRun = process.argv.includes('--dry-run');
+
+async function fetchProductsWithBarcode(): Promise<Product[]> {
+  const supabase = getSupabaseServerClient();
+  const products: Product[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('*')
+      .not('barcode', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch products: ${error.message}`);
+    }
+
+    products.push(...((data || []) as Product[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return products;
+    }
+  }
+}
+
+async function invalidateCache(productId: string, barcode?: string | null) {
+  try {
+    await cacheLayer.invalidateProduct(productId, barcode);
+  } catch (error) {
+    console.warn(`   ⚠️  Cache invalidation failed for ${productId}:`, error);
+  }
+}
+
+/**
+ * Fold a group's duplicates into its survivor, one transaction per duplicate
+ *
+ * The merged fields go with the first duplicate, so no step deletes a row
+ * whose data the survivor has not taken over yet. The barcode goes with the
+ * last, once no other row holds the normalized form.
+ */
+async function mergeGroup(merge: BarcodeMerge) {
+  const supabase = getSupabaseServerClient();
+  const { barcode, ...fields } = merge.update;
+
+  for (const [index, duplicate] of merge.duplicates.entries()) {
+    const update: ProductUpdate = {
+      ...(index === 0 && fields),
+      ...(index === merge.duplicates.length - 1 && barcode && { barcode }),
+    };
+
+    const { error } = await supabase.rpc('merge_duplicate_product', {
+      p_survivor_id: merge.survivor.id,
+      p_duplicate_id: duplicate.id,
+      p_update: update,
+    });
+    if (error) {
+      throw new Error(`Failed to merge ${duplicate.id} into ${merge.survivor.id}: ${error.message}`);
+    }
+
+    await invalidateCache(duplicate.id, duplicate.barcode);
+  }
+
+  await invalidateCache(merge.survivor.id, merge.survivor.barcode);
+}
+
+async function normalizeBarcodes() {
+  const supabase = getSupabaseServerClient();
+
+  console.log('📡 Loading products with barcodes...');
+  const products = await fetchProductsWithBarcode();
+  const plan = planBarcodeMigration(products);
+
+  console.log(`📦 ${products.length} products with barcodes`);
+  console.log(`   ${plan.unchanged} already normalized`);
+  console.log(`   ${plan.renames.length} to rewrite`);
+  console.log(`   ${plan.merges.length} duplicate groups (${plan.merges.reduce((sum, merge) => sum + merge.duplicates.length, 0)} rows to merge)`);
+  console.log(`   ${plan.invalid.length} invalid barcodes\n`);
+
+  for (const merge of plan.merges) {
+    console.log(`🔀 ${merge.barcode}: keep ${merge.survivor.id} (${merge.survivor.name}, barcode ${merge.survivor.barcode})`);
+    for (const duplicate of merge.duplicates) {
+      console.log(`   ← ${duplicate.id} (${duplicate.name}, barcode ${duplicate.barcode})`);
+    }
+  }
+
+  for (const invalid of plan.invalid) {
+    console.log(`⚠️  ${invalid.productId}: ${invalid.barcode} (${invalid.error})`);
+  }
+
+  if (dryRun) {
+    console.log('\n🔍 Dry run, no changes written');
+    return;
+  }
+
+  for (const merge of plan.merges) {
+    await mergeGroup(merge);
+    console.log(`✅ Merged ${merge.duplicates.length + 1} products into ${merge.survivor.id}`);
+  }
+
+  for (const rename of plan.renames) {
+    const { error } = await supabase
+      .from('products')
+      .update({ barcode: rename.to })
+      .eq('id', rename.productId);
+    if (error) {
+      throw new Error(`Failed to rewrite barcode of ${rename.productId}: ${error.message}`);
+    }
+
+    await invalidateCache(rename.productId, rename.from);
+  }
+
+  console.log(`✅ Rewrote ${plan.renames.length} barcodes`);
+}
+
+normalizeBarcodes()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Barcode normalization failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,186 @@
+#!/usr/bin/env tsx
+
+/**
+ * Replay recorded combined-extraction responses against the current prompts
+ *
+ * Reads fixtures recorded with LLM_FIXTURE_MODE=record, rebuilds the prompt with
+ * combineExtractionPrompts() for the same sections and, when the prompt changed,
+ * re-runs the model on the stored image. Prints a diff of parsed fields for
+ * every recorded product. New responses are recorded into the corpus, so a
+ * second run replays them without calling the model.
+ *
+ * Usage:
+ *   npx tsx scripts/replay-extraction-corpus.ts
+ *   npx tsx scripts/replay-extraction-corpus.ts --fixtures fixtures/llm
+ *   npx tsx scripts/replay-extraction-corpus.ts --dry-run   # never call the model
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { GeminiWrapper } from '../src/lib/gemini-wrapper';
+import { DEFAULT_FIXTURE_DIR } from '../src/lib/llm/fixture-replay-provider';
+import { getLLMProvider } from '../src/lib/llm/provider-factory';
+import { RecordingProvider } from '../src/lib/llm/recording-provider';
+import type { LLMFixture } from '../src/lib/llm/types';
+import { combineExtractionPrompts, type ExtractionPrompts } from '../src/lib/prompts/extraction-prompts';
+import {
+  detectCombinedPromptTypes,
+  diffCombinedExtractions,
+  parseCombinedExtractionResponse,
+  type CombinedExtractionResult,
+} from '../src/lib/prompts/extraction-response';
+
+const args = process.argv.slice(2);
+const fixturesIndex = args.indexOf('--fixtures');
+const fixtureDir = path.resolve(
+  fixturesIndex >= 0 && args[fixturesIndex + 1]
+    ? args[fixturesIndex + 1]
+    : process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR
+);
+const dryRun = args.includes('--dry-run');
+
+interface CorpusEntry {
+  types: Array<keyof typeof ExtractionPrompts>;
+  imageHash: string;
+  imageFile: string;
+  fixtures: LLMFixture[];
+}
+
+/**
+ * Load combined-extraction fixtures grouped by image and section list
+ */
+function loadCorpus(): CorpusEntry[] {
+  const entries = new Map<string, CorpusEntry>();
+
+  for (const file of readdirSync(fixtureDir).filter(name => name.endsWith('.json'))) {
+    const fixture = JSON.parse(readFileSync(path.join(fixtureDir, file), 'utf8')) as LLMFixture;
+    const types = detectCombinedPromptTypes(fixture.prompt);
+
+    if (!types || !fixture.imageHash || !fixture.imageFile) {
+      continue;
+    }
+
+    const id = `${fixture.imageHash}:${types.join(',')}`;
+    const entry = entries.get(id) || { types, imageHash: fixture.imageHash, imageFile: fixture.imageFile, fixtures: [] };
+    entry.fixtures.push(fixture);
+    entries.set(id, entry);
+  }
+
+  // Newest recording first
+  for (const entry of entries.values()) {
+    entry.fixtures.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Parse a recorded response, reporting unparseable text instead of throwing
+ */
+function parseResponse(text: string): CombinedExtractionResult | string {
+  try {
+    return parseCombinedExtractionResponse(text);
+  } catch (error) {
+    return `unparseable response: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function describeProduct(result: CombinedExtractionResult | string): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  return `${result.fields.brand} - ${result.fields.name} (${result.fields.barcode || 'no barcode'})`;
+}
+
+async function replayCorpus() {
+  if (!existsSync(fixtureDir)) {
+    console.error(`❌ Fixture directory not found: ${fixtureDir}`);
+    console.error('Record a corpus first with LLM_FIXTURE_MODE=record');
+    process.exit(1);
+  }
+
+  const corpus = loadCorpus();
+  console.log(`📂 ${corpus.length} recorded products in ${fixtureDir}\n`);
+
+  let wrapper: GeminiWrapper | null = null;
+  const summary = { unchanged: 0, changed: 0, skipped: 0, failed: 0 };
+
+  for (const entry of corpus) {
+    const currentPrompt = combineExtractionPrompts(entry.types);
+    const current = entry.fixtures.find(fixture => fixture.prompt === currentPrompt);
+    const baseline = entry.fixtures.find(fixture => fixture.prompt !== currentPrompt);
+    const label = `${entry.imageHash.substring(0, 12)} [${entry.types.join(', ')}]`;
+
+    if (!baseline) {
+      console.log(`✅ ${label}: prompt unchanged since recording`);
+      summary.unchanged++;
+      continue;
+    }
+
+    let afterText = current?.text;
+
+    if (afterText === undefined) {
+      if (dryRun) {
+        console.log(`⏭️  ${label}: prompt changed, skipped (--dry-run)`);
+        summary.skipped++;
+        continue;
+      }
+
+      if (!wrapper) {
+        const provider = new RecordingProvider(getLLMProvider('vertex'), fixtureDir);
+        wrapper = new GeminiWrapper(undefined, undefined, undefined, provider);
+      }
+
+      const image = readFileSync(path.join(fixtureDir, entry.imageFile)).toString('base64');
+      const result = await wrapper.generateContent({
+        prompt: currentPrompt,
+        imageData: image,
+        temperature: baseline.temperature,
+      });
+
+      if (!result.success) {
+        console.log(`❌ ${label}: ${result.error}`);
+        summary.failed++;
+        continue;
+      }
+
+      afterText = result.text!;
+    }
+
+    const before = parseResponse(baseline.text);
+    const after = parseResponse(afterText);
+
+    if (typeof before === 'string' || typeof after === 'string') {
+      console.log(`⚠️  ${label}: ${describeProduct(before)} → ${describeProduct(after)}`);
+      summary.changed++;
+      continue;
+    }
+
+    const diffs = diffCombinedExtractions(before, after);
+
+    if (diffs.length === 0) {
+      console.log(`✅ ${label}: ${describeProduct(after)} - no field changes`);
+      summary.unchanged++;
+      continue;
+    }
+
+    console.log(`🔄 ${label}: ${describeProduct(before)}`);
+    for (const diff of diffs) {
+      console.log(`   ${diff.field}:`);
+      console.log(`     - ${JSON.stringify(diff.before)}`);
+      console.log(`     + ${JSON.stringify(diff.after)}`);
+    }
+    summary.changed++;
+  }
+
+  console.log('\n📊 Summary:');
+  console.log(`  Unchanged: ${summary.unchanged}`);
+  console.log(`  Changed:   ${summary.changed}`);
+  console.log(`  Skipped:   ${summary.skipped}`);
+  console.log(`  Failed:    ${summary.failed}`);
+}
+
+replayCorpus().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
@@ -10,59 +10,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { NutritionOrchestrator } from '@/lib/orchestrator/NutritionOrchestrator';
 import { NutritionParser } from '@/lib/services/nutrition-parser';
-import { IngredientParser } from '@/lib/services/ingredient-parser';
+import { IngredientParser, flattenIngredients } from '@/lib/services/ingredient-parser';
 import { HealthScorer } from '@/lib/services/health-scorer';
 import { nutritionCacheRepository } from '@/lib/mongodb/nutrition-cache';
 import { scanHistoryRepository } from '@/lib/mongodb/scan-history';
 import { hashImage } from '@/lib/imageHash';
-
-/**
- * Rate limiting configuration
- * Requirements: 9.6, 9.7
- */
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const FREE_TIER_MAX_REQUESTS = 5; // 5 requests per minute for free tier
-const PREMIUM_TIER_MAX_REQUESTS = 20; // 20 requests per minute for premium tier
-const rateLimitStore = new Map<string, number[]>();
-
-/**
- * Check if request should be rate limited
- */
-function isRateLimited(ip: string, tier: 'free' | 'premium' = 'free'): boolean {
-  const now = Date.now();
-  const timestamps = rateLimitStore.get(ip) || [];
-  
-  const validTimestamps = timestamps.filter(
-    timestamp => now - timestamp < RATE_LIMIT_WINDOW_MS
-  );
-  
-  const maxRequests = tier === 'premium' ? PREMIUM_TIER_MAX_REQUESTS : FREE_TIER_MAX_REQUESTS;
-  if (validTimestamps.length >= maxRequests) {
-    return true;
-  }
-  
-  validTimestamps.push(now);
-  rateLimitStore.set(ip, validTimestamps);
-  
-  return false;
-}
-
-/**
- * Get client IP address from request
- */
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  const realIP = request.headers.get('x-real-ip');
-  if (realIP) {
-    return realIP;
-  }
-  
-  return '127.0.0.1';
-}
+import { dietaryProfileService, hasDietaryRestrictions } from '@/lib/dietary/dietary-profile-service';
+import { computeDietaryAlerts, nutritionFromFacts } from '@/lib/dietary/dietary-alerts';
+import { rateLimited } from '@/lib/rate-limit';
+import { imagePreprocessor, ImageQualityError, type PreprocessedImage } from '@/lib/image-preprocessing';
 
 /**
  * Validate request body
@@ -113,6 +69,9 @@ function validateRequest(body: any): { valid: boolean; error?: string } {
  * POST /api/analyze-nutrition
  * 
  * Analyzes a nutrition label image and returns health assessment.
+ * The image is preprocessed (oriented, cropped, deskewed, contrast-boosted)
+ * before extraction; dark or blurry photos are rejected with
+ * IMAGE_TOO_DARK / IMAGE_TOO_BLURRY before any model call.
  * 
  * Request body:
  * {
@@ -121,10 +80,14 @@ function validateRequest(body: any): { valid: boolean; error?: string } {
  *   tier: 'free' | 'premium'; // user subscription tier
  * }
  * 
+ * With an Authorization: Bearer <token> header, the signed-in user's
+ * dietary profile is checked against the parsed ingredients and nutrition.
+ * 
  * Response:
  * {
  *   success: boolean;
- *   data?: NutritionScanResult;
+ *   data?: NutritionScanResult; // includes nutriScore (A-E, per 100g/100ml) and nova; healthScore uses the user's scoring profile
+ *   dietaryAlerts?: DietaryAlert[]; // personalized alerts (signed-in users with a profile)
  *   error?: {
  *     code: string;
  *     category: string;
@@ -138,10 +101,11 @@ function validateRequest(body: any): { valid: boolean; error?: string } {
  * - 200: Success
  * - 400: Invalid request
  * - 413: Image too large
+ * - 422: Image too dark or blurry
  * - 429: Rate limit exceeded
  * - 500: Server error
  */
-export async function POST(request: NextRequest) {
+async function handleAnalyzeNutrition(request: NextRequest): Promise<Response> {
   const startTime = Date.now();
   
   console.log('[Analyze Nutrition API] 🥗 Received nutrition analysis request');
@@ -167,35 +131,9 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { imageData, userId, tier } = body;
-    
-    // Step 2: Rate limiting
-    const clientIP = getClientIP(request);
-    
-    if (isRateLimited(clientIP, tier)) {
-      console.warn('[Analyze Nutrition API] ⚠️  Rate limit exceeded:', {
-        ip: clientIP,
-        userId,
-        tier,
-        timestamp: new Date().toISOString(),
-      });
-      
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'RATE_LIMIT_EXCEEDED',
-            category: 'system',
-            message: 'Rate limit exceeded. Please try again later.',
-            recoverable: true,
-            suggestedAction: 'Wait a moment and try again'
-          }
-        },
-        { status: 429 }
-      );
-    }
+    const { userId, tier } = body;
     
-    // Step 3: Validate request
+    // Step 2: Validate request
     const validation = validateRequest(body);
     if (!validation.valid) {
       console.error('[Analyze Nutrition API] ❌ Validation failed:', validation.error);
@@ -216,6 +154,29 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Step 3: Preprocess image for the nutrition table
+    let image: PreprocessedImage;
+    try {
+      image = await imagePreprocessor.preprocess(body.imageData, 'nutrition');
+    } catch (error) {
+      if (!(error instanceof ImageQualityError)) throw error;
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            category: 'image_quality',
+            message: error.message,
+            recoverable: true,
+            suggestedAction: 'Retake the photo in good light, holding the camera steady'
+          }
+        },
+        { status: 422 }
+      );
+    }
+    const imageData = image.dataUri;
+    
     // Step 4: Process nutrition scan
     console.log('[Analyze Nutrition API] 🔍 Processing nutrition scan:', {
       userId,
@@ -223,10 +184,13 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
     
+    // Signed-in users with a dietary profile get their scoring profile and alerts
+    const dietaryProfile = await dietaryProfileService.getProfileForRequest(request);
+    
     // Initialize services
     const nutritionParser = new NutritionParser();
     const ingredientParser = new IngredientParser();
-    const healthScorer = new HealthScorer();
+    const healthScorer = new HealthScorer(dietaryProfile?.health_profile);
     
     // Initialize orchestrator with cache repository
     const orchestrator = new NutritionOrchestrator(
@@ -306,6 +270,7 @@ export async function POST(request: NextRequest) {
             health_score: result.healthScore.overall,
             has_allergens: allergenTypes.length > 0,
             allergen_types: allergenTypes,
+            ...(result.nova && { nova_group: result.nova.group, nova_markers: result.nova.markers }),
             updated_at: new Date().toISOString(),
           })
           .eq('id', productId);
@@ -322,6 +287,8 @@ export async function POST(request: NextRequest) {
             health_score: result.healthScore.overall,
             has_allergens: allergenTypes.length > 0,
             allergen_types: allergenTypes,
+            nova_group: result.nova?.group ?? null,
+            nova_markers: result.nova?.markers ?? null,
           })
           .select('id')
           .single();
@@ -361,11 +328,21 @@ export async function POST(request: NextRequest) {
       console.error('[Analyze Nutrition API] ⚠️  Failed to store scan history:', historyError);
     }
     
-    // Step 7: Return result
+    // Step 7: Personalized dietary alerts
+    const dietaryAlerts = dietaryProfile && hasDietaryRestrictions(dietaryProfile)
+      ? computeDietaryAlerts(
+          dietaryProfile,
+          flattenIngredients(result.ingredients.ingredients).map(ingredient => ingredient.name),
+          nutritionFromFacts(result.nutritionalFacts)
+        )
+      : undefined;
+    
+    // Step 8: Return result
     return NextResponse.json(
       {
         success: true,
-        data: result
+        data: result,
+        dietaryAlerts
       },
       { status: 200 }
     );
@@ -415,3 +392,20 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * POST /api/analyze-nutrition, rate limited per user (or IP) and tier
+ * Requirements: 9.6, 9.7
+ */
+export const POST = rateLimited('analyze-nutrition', handleAnalyzeNutrition, {
+  limitedBody: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      category: 'system',
+      message: 'Rate limit exceeded. Please try again later.',
+      recoverable: true,
+      suggestedAction: 'Wait a moment and try again'
+    }
+  },
+});
@@ -15,6 +15,7 @@ import { generateText } from 'ai';
 import { google } from '@ai-sdk/google';
 import { constructPrompt, parseGeminiResponse } from '@/lib/gemini';
 import { getToolsForTier } from '@/lib/tools';
+import { recordLLMCall } from '@/lib/llm/metered-provider';
 import type { EnhancedAnalyzeResponse, TierType, InsightCategory, ProgressStep } from '@/lib/types';
 
 /**
@@ -22,6 +23,11 @@ import type { EnhancedAnalyzeResponse, TierType, InsightCategory, ProgressStep }
  */
 const BASE64_IMAGE_REGEX = /^data:image\/(jpeg|jpg|png|webp);base64,[A-Za-z0-9+/=]+$/;
 
+/**
+ * Model of the Research Agent
+ */
+const RESEARCH_AGENT_MODEL = 'gemini-2.0-flash';
+
 /**
  * Rate limiting configuration
  */
@@ -191,7 +197,7 @@ export async function POST(request: NextRequest) {
 
     // Step 6: Call Gemini with Research Agent capabilities
     const result = await generateText({
-      model: google('gemini-2.0-flash'),
+      model: google(RESEARCH_AGENT_MODEL),
       temperature: 0.2, // Lower temperature for more consistent responses
       messages: [
         {
@@ -251,6 +257,19 @@ export async function POST(request: NextRequest) {
 
     const responseText = result.text;
 
+    // Record the tokens of every agent step, tool calls included, in the cost ledger
+    recordLLMCall({
+      provider: 'google-ai-studio',
+      model: RESEARCH_AGENT_MODEL,
+      consumer: 'ResearchAgent',
+      usage: result.totalUsage.inputTokens !== undefined
+        ? { inputTokens: result.totalUsage.inputTokens, outputTokens: result.totalUsage.outputTokens ?? 0 }
+        : undefined,
+      prompt,
+      output: responseText,
+      imageCount: 1,
+    });
+
     console.log('[Gemini Response]', {
       timestamp: new Date().toISOString(),
       responseLength: responseText.length,
@@ -0,0 +1,98 @@
+/**
+ * Dietary Profile Endpoint
+ * 
+ * GET /api/dietary-profile
+ * Returns the signed-in user's dietary profile (defaults if none is saved).
+ * 
+ * PUT /api/dietary-profile
+ * Saves profile fields; omitted fields are left unchanged:
+ * {
+ *   "allergens": ["peanuts", "milk"],
+ *   "avoided_ingredients": ["palm oil"],
+ *   "diet": "omnivore" | "vegetarian" | "vegan",
+ *   "religious_diet": "halal" | "kosher" | null,
+ *   "low_sodium": true, "max_sodium_mg": 140,
+ *   "diabetic": true, "max_sugar_g": 5, "max_carbs_g": 30
+ * }
+ * 
+ * Both require a session (Authorization: Bearer <token>).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  dietaryProfileService,
+  DietaryProfileError,
+  emptyDietaryProfile,
+  parseDietaryProfileInput,
+} from '@/lib/dietary/dietary-profile-service';
+
+export async function GET(request: NextRequest) {
+  const userId = await dietaryProfileService.getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const profile = await dietaryProfileService.getProfile(userId);
+
+    return NextResponse.json({
+      success: true,
+      profile: profile || emptyDietaryProfile(userId),
+    });
+
+  } catch (error) {
+    console.error('[Dietary Profile API] ❌ Failed to load profile:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load dietary profile',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const userId = await dietaryProfileService.getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const input = parseDietaryProfileInput(body);
+    const profile = await dietaryProfileService.saveProfile(userId, input);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+
+  } catch (error) {
+    if (error instanceof DietaryProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[Dietary Profile API] ❌ Failed to save profile:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save dietary profile',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,10 @@
  * 
  * This endpoint provides aggregated metrics for monitoring system performance.
  * Returns tier usage statistics, success rates, processing times, cache hit rates,
- * API usage tracking, and dimension analysis metrics.
+ * API usage tracking, dimension analysis metrics, exact versus
+ * near-duplicate (perceptual hash) image cache hits, per-namespace
+ * statistics of the unified cache layer, and model costs from the LLM cost
+ * ledger with the daily budget status.
  * 
  * Requirements: 14.7
  */
@@ -13,6 +16,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '@/lib/supabase/server-client';
 import { getAggregatedDimensionMetrics } from '@/lib/services/dimension-metrics';
+import { perceptualCacheMetrics, type PerceptualCacheMetrics } from '@/lib/mongodb/perceptual-index';
+import { cacheLayer, type CacheNamespace, type NamespaceCacheStats } from '@/lib/cache';
+import { llmCostLedger, type LLMCostReport } from '@/lib/llm/cost-ledger';
 
 interface TierMetrics {
   totalScans: number;
@@ -54,6 +60,9 @@ interface MetricsResponse {
     errorRate: number;
     dimensionPopularity: { [dimension: string]: number };
   };
+  perceptualCache: ReturnType<PerceptualCacheMetrics['getStats']>;
+  cache?: Record<CacheNamespace, NamespaceCacheStats>;
+  llmCosts?: LLMCostReport;
 }
 
 /**
@@ -84,8 +93,31 @@ interface MetricsResponse {
  *     successRate: number,
  *     avgProcessingTime: number,
  *     cacheHitRate: number
+ *   },
+ *   perceptualCache: {
+ *     nutrition: { lookups, exactHits, nearHits, misses, hitRate, nearHitRate, averageNearDistance },
+ *     product: { ...same fields },
+ *     maxDistance: number
+ *   },
+ *   cache: {
+ *     [namespace: string]: {
+ *       entries, avgAccessCount, oldestEntry, newestEntry,
+ *       l1Entries, l1Hits, l2Hits, nearHits, misses, hitRate
+ *     }
+ *   },
+ *   llmCosts: {
+ *     totals: { calls, inputTokens, outputTokens, imageCount, costUsd, estimatedCalls },
+ *     perScan: { [route: string]: { scans, avgCostUsd, maxCostUsd } },
+ *     perTier: { [tier: string]: { calls, inputTokens, outputTokens, imageCount, costUsd } },
+ *     perUser: Array<{ userId, ...same totals }>, // top 20 by cost
+ *     perDay: Array<{ day, ...same totals, overBudget }>,
+ *     perModel: { [model: string]: { ...same totals } },
+ *     budget: { dailyCapUsd, spentTodayUsd, exceeded }
  *   }
  * }
+ * 
+ * perceptualCache and the cache hit counts cover lookups made by this
+ * server instance since it started.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -213,6 +245,24 @@ export async function GET(request: NextRequest) {
       // Continue without dimension metrics
     }
 
+    // Fetch unified cache statistics
+    let cache;
+    try {
+      cache = await cacheLayer.getStats();
+    } catch (error) {
+      console.error('[Metrics API] ⚠️  Failed to fetch cache stats:', error);
+      // Continue without cache stats
+    }
+
+    // Fetch model costs from the LLM cost ledger
+    let llmCosts;
+    try {
+      llmCosts = await llmCostLedger.getReport(startDate, endDate);
+    } catch (error) {
+      console.error('[Metrics API] ⚠️  Failed to fetch LLM costs:', error);
+      // Continue without LLM costs
+    }
+
     // Build response
     const response: MetricsResponse = {
       timeRange: {
@@ -223,6 +273,9 @@ export async function GET(request: NextRequest) {
       apiUsage,
       overallMetrics,
       dimensionMetrics,
+      perceptualCache: perceptualCacheMetrics.getStats(),
+      cache,
+      llmCosts,
     };
 
     console.log('[Metrics API] ✅ Metrics calculated successfully');
@@ -0,0 +1,54 @@
+/**
+ * Product Field Provenance Endpoint
+ * 
+ * GET /api/products/:productId/provenance
+ * Returns, for each product field, the current value, the source it came from
+ * (capture type or scan tier, image hash, confidence, timestamp) and the
+ * history of values observed for it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { productRepositoryMultiTier } from '@/lib/supabase/repositories/ProductRepositoryMultiTier';
+import { getFieldHistory } from '@/lib/multi-image/FieldProvenance';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  try {
+    const { productId } = await params;
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const product = await productRepositoryMultiTier.findById(productId);
+    if (!product) {
+      return NextResponse.json(
+        { error: `Product not found: ${productId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      productId,
+      fields: getFieldHistory(product),
+    });
+
+  } catch (error) {
+    console.error('[Provenance API] ❌ Failed to load field provenance:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load field provenance',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
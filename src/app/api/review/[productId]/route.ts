@@ -0,0 +1,95 @@
+/**
+ * Review Item Endpoint
+ * 
+ * GET /api/review/:productId
+ * Returns a flagged product with its error reports, scan images, stored
+ * conflicts, extraction steps, field history and review audit trail.
+ * 
+ * POST /api/review/:productId
+ * Applies a review action and records it in the audit trail:
+ * - { "action": "edit", "fields": { "name": "...", ... }, "note"?: "..." }
+ * - { "action": "merge", "duplicateId": "<product-id>", "note"?: "..." }
+ * - { "action": "approve" | "reject", "note"?: "..." }
+ * - { "action": "note", "note": "..." }
+ * 
+ * Both require a reviewer session (Authorization: Bearer <token>).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateReviewer } from '@/lib/review/reviewer-auth';
+import { parseReviewAction, reviewService, ReviewError } from '@/lib/review/review-service';
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof ReviewError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  const auth = await authenticateReviewer(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { productId } = await params;
+    const detail = await reviewService.getDetail(productId);
+
+    return NextResponse.json({
+      success: true,
+      ...detail,
+    });
+
+  } catch (error) {
+    console.error('[Review API] ❌ Failed to load review item:', error);
+    return errorResponse(error, 'Failed to load review item');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ productId: string }> }
+) {
+  const auth = await authenticateReviewer(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { productId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const action = parseReviewAction(body, productId);
+    const result = await reviewService.applyAction(productId, auth.reviewer, action);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+
+  } catch (error) {
+    console.error('[Review API] ❌ Review action failed:', error);
+    return errorResponse(error, 'Review action failed');
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Dismiss Merge Proposal Endpoint
+ * 
+ * POST /api/review/duplicates/:proposalId
+ * Dismisses a pending merge proposal: the products are not duplicates and
+ * the pair will not be proposed again.
+ * Requires a reviewer session (Authorization: Bearer <token>).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateReviewer } from '@/lib/review/reviewer-auth';
+import { ReviewError } from '@/lib/review/review-service';
+import { mergeProposalService } from '@/lib/duplicates/merge-proposal-service';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  const auth = await authenticateReviewer(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { proposalId } = await params;
+    const proposal = await mergeProposalService.dismiss(proposalId, auth.reviewer);
+
+    return NextResponse.json({
+      success: true,
+      proposal,
+    });
+
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[Review API] ❌ Failed to dismiss merge proposal:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to dismiss merge proposal',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Duplicate Merge Proposals Endpoint
+ * 
+ * GET /api/review/duplicates?limit=50
+ * Lists pending merge proposals from the duplicate detector with both
+ * products, highest score first. Accept a proposal by merging through
+ * POST /api/review/:productId { "action": "merge", "duplicateId": ... }.
+ * Requires a reviewer session (Authorization: Bearer <token>).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateReviewer } from '@/lib/review/reviewer-auth';
+import { mergeProposalService } from '@/lib/duplicates/merge-proposal-service';
+
+const MAX_PROPOSAL_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateReviewer(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return NextResponse.json(
+        { error: 'limit must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const items = await mergeProposalService.listPending(Math.min(limit, MAX_PROPOSAL_LIMIT));
+
+    return NextResponse.json({
+      success: true,
+      items,
+    });
+
+  } catch (error) {
+    console.error('[Review API] ❌ Failed to load merge proposals:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load merge proposals',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
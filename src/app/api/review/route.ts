@@ -0,0 +1,51 @@
+/**
+ * Review Queue Endpoint
+ * 
+ * GET /api/review?limit=50
+ * Lists products flagged for review with their pending error report and
+ * conflict counts. Requires a reviewer session (Authorization: Bearer <token>).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateReviewer } from '@/lib/review/reviewer-auth';
+import { reviewService } from '@/lib/review/review-service';
+
+const MAX_QUEUE_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateReviewer(request);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+    if (!Number.isFinite(limit) || limit <= 0) {
+      return NextResponse.json(
+        { error: 'limit must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const items = await reviewService.getQueue(Math.min(limit, MAX_QUEUE_LIMIT));
+
+    return NextResponse.json({
+      success: true,
+      items,
+    });
+
+  } catch (error) {
+    console.error('[Review API] ❌ Failed to load review queue:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load review queue',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
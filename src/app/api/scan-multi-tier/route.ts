@@ -5,6 +5,9 @@
  * 
  * This endpoint handles product scanning using the multi-tier identification system
  * and extends it with AI-powered dimension analysis across 5 dimensions.
+ * Requests are rate limited per user (or IP) and tier; see src/lib/rate-limit.
+ * Images are preprocessed before identification; dark or blurry photos are
+ * rejected with IMAGE_TOO_DARK / IMAGE_TOO_BLURRY (422) before any model call.
  * 
  * Requirements: 1.2, 2.1, 4.1, 8.1, 8.2, 8.3, 8.5, 8.7
  */
@@ -18,6 +21,8 @@ import { ScanRequest, ImageData } from '@/lib/types/multi-tier';
 import { progressManager } from '@/lib/progress/ProgressManager';
 import { ProgressEmitter } from '@/lib/progress/ProgressEmitter';
 import { scanHistoryRepository } from '@/lib/mongodb/scan-history';
+import { rateLimited } from '@/lib/rate-limit';
+import { imagePreprocessor, ImageQualityError, type PreprocessedImage } from '@/lib/image-preprocessing';
 
 /**
  * POST /api/scan-multi-tier
@@ -54,7 +59,7 @@ import { scanHistoryRepository } from '@/lib/mongodb/scan-history';
  *   error?: ErrorDetails;
  * }
  */
-export async function POST(request: NextRequest) {
+async function handleMultiTierScan(request: NextRequest): Promise<Response> {
   const startTime = Date.now();
   
   try {
@@ -126,16 +131,35 @@ export async function POST(request: NextRequest) {
     let imageHash: string | undefined;
 
     if (image) {
-      // Remove data URL prefix if present
-      const base64Data = image.replace(/^data:image\/\w+;base64,/, '');
-      
+      // Orient, crop, deskew and downscale for product identification
+      let preprocessed: PreprocessedImage;
+      try {
+        preprocessed = await imagePreprocessor.preprocess(image, 'barcode');
+      } catch (error) {
+        if (!(error instanceof ImageQualityError)) throw error;
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: error.code,
+              message: error.message,
+              tier: 0,
+              retryable: false,
+            },
+          },
+          { status: 422 }
+        );
+      }
+
       imageData = {
-        base64: base64Data,
-        mimeType: imageMimeType || 'image/jpeg',
+        base64: preprocessed.base64,
+        // Images that could not be decoded are sent as the client described them
+        mimeType: preprocessed.quality ? preprocessed.mimeType : imageMimeType || 'image/jpeg',
       };
 
       // Generate image hash for caching
-      imageHash = await hashImage(base64Data);
+      imageHash = await hashImage(preprocessed.base64);
       console.log('[Scan API Multi-Tier] 🔐 Generated image hash');
     }
 
@@ -358,6 +382,21 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/scan-multi-tier, rate limited per user (or IP) and tier
+ */
+export const POST = rateLimited('scan-multi-tier', handleMultiTierScan, {
+  limitedBody: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Too many requests. Please try again later.',
+      tier: 0,
+      retryable: true,
+    },
+  },
+});
+
 /**
  * GET /api/scan-multi-tier
  * 
@@ -25,7 +25,7 @@ const mockScanOrchestrator = scanOrchestrator as jest.Mocked<typeof scanOrchestr
 
 describe('POST /api/scan', () => {
   // Test data
-  const validBarcode = '012345678901';
+  const validBarcode = '012345678905';
   const validImageData = 'data:image/jpeg;base64,/9j/4AAQSkZJRg==';
   const validUserId = 'user-123';
   const validToken = 'valid-token-123';
@@ -215,6 +215,25 @@ describe('POST /api/scan', () => {
       expect(data.error).toContain('Invalid barcode format');
     });
 
+    it('should reject a barcode with an invalid check digit', async () => {
+      const request = createMockRequest(
+        {
+          barcode: '012345678901',
+          imageData: validImageData,
+          tier: 'free',
+          dimension: 'health',
+        },
+        validToken
+      );
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('Invalid check digit');
+      expect(mockScanOrchestrator.processScan).not.toHaveBeenCalled();
+    });
+
     it('should reject missing imageData', async () => {
       const request = createMockRequest(
         {
@@ -688,7 +707,7 @@ describe('POST /api/scan', () => {
       expect(data.data.storeId).toBe('store-456');
       
       expect(mockScanOrchestrator.processScan).toHaveBeenCalledWith({
-        barcode: validBarcode,
+        barcode: '00012345678905', // GTIN-14 key
         imageData: validImageData,
         userId: validUserId,
         location: { latitude: 37.7749, longitude: -122.4194 },
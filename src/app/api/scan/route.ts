@@ -6,6 +6,8 @@
  * This API route handles product scan requests using a cache-first architecture.
  * It checks MongoDB for cached insights before triggering the Research Agent,
  * manages product registry in Supabase, and tracks inventory at store locations.
+ * Images are preprocessed before the scan; dark or blurry photos are rejected
+ * with IMAGE_TOO_DARK / IMAGE_TOO_BLURRY (422) before any model call.
  * 
  * Requirements: 1.2, 1.5, 5.1, 5.2, 5.3, 5.4, 5.5, 5.6, 10.1, 10.2, 10.3, 10.6
  */
@@ -18,24 +20,15 @@ import type { ScanRequest, ScanResult, OrchestratorError } from '@/lib/orchestra
 import type { TierType, InsightCategory } from '@/lib/types';
 import { progressManager } from '@/lib/progress/ProgressManager';
 import { ProgressEmitter } from '@/lib/progress/ProgressEmitter';
+import { getClientIP, rateLimited } from '@/lib/rate-limit';
+import { parseGtin } from '@/lib/barcode/gtin';
+import { imagePreprocessor, ImageQualityError, type PreprocessedImage } from '@/lib/image-preprocessing';
 
 /**
  * Base64 image data validation regex
  */
 const BASE64_IMAGE_REGEX = /^data:image\/(jpeg|jpg|png|webp);base64,[A-Za-z0-9+/=]+$/;
 
-/**
- * Barcode validation regex (8-13 digits)
- */
-const BARCODE_REGEX = /^\d{8,13}$/;
-
-/**
- * Rate limiting configuration
- */
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 10; // 10 requests per window
-const rateLimitStore = new Map<string, number[]>();
-
 /**
  * Response interface for scan endpoint
  */
@@ -43,46 +36,7 @@ interface ScanResponse {
   success: boolean;
   data?: ScanResult;
   error?: string;
-}
-
-/**
- * Check if request should be rate limited
- * 
- * Requirement 10.3: Implement rate limiting to prevent abuse
- */
-function isRateLimited(ip: string): boolean {
-  const now = Date.now();
-  const timestamps = rateLimitStore.get(ip) || [];
-  
-  const validTimestamps = timestamps.filter(
-    timestamp => now - timestamp < RATE_LIMIT_WINDOW_MS
-  );
-  
-  if (validTimestamps.length >= RATE_LIMIT_MAX_REQUESTS) {
-    return true;
-  }
-  
-  validTimestamps.push(now);
-  rateLimitStore.set(ip, validTimestamps);
-  
-  return false;
-}
-
-/**
- * Extract client IP address from request
- */
-function getClientIP(request: NextRequest): string {
-  const forwardedFor = request.headers.get('x-forwarded-for');
-  if (forwardedFor) {
-    return forwardedFor.split(',')[0].trim();
-  }
-  
-  const realIP = request.headers.get('x-real-ip');
-  if (realIP) {
-    return realIP;
-  }
-  
-  return 'unknown';
+  code?: string; // Set when the image is rejected (IMAGE_TOO_DARK, IMAGE_TOO_BLURRY)
 }
 
 /**
@@ -137,42 +91,19 @@ async function verifyAuthentication(request: NextRequest): Promise<string | null
  * - 5.6: Save or update product metadata in Supabase
  * - 10.1: Handle database unavailability gracefully
  * - 10.2: Provide user-friendly error messages
- * - 10.3: Implement rate limiting
+ * - 10.3: Implement rate limiting (per user or IP, see POST)
  * - 10.6: Provide clear error messages for authentication failures
  */
-export async function POST(request: NextRequest) {
+async function handleScan(request: NextRequest): Promise<Response> {
   const startTime = Date.now();
   
   try {
-    // Step 1: Rate limiting
-    // Requirement 10.3: Implement rate limiting
-    const clientIP = getClientIP(request);
-    
-    if (isRateLimited(clientIP)) {
-      console.warn('[Scan API] Rate limit exceeded:', {
-        timestamp: new Date().toISOString(),
-        endpoint: '/api/scan',
-        ip: clientIP,
-        statusCode: 429
-      });
-      
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Too many requests. Please try again later.'
-        } as ScanResponse,
-        { 
-          status: 429,
-          headers: { 'Retry-After': '60' }
-        }
-      );
-    }
-
-    // Step 2: Verify user authentication
+    // Step 1: Verify user authentication
     // Requirement 1.2, 1.5: Verify authentication and get user_id
     const userId = await verifyAuthentication(request);
     
     if (!userId) {
+      const clientIP = getClientIP(request);
       console.warn('[Scan API] Unauthenticated request:', {
         timestamp: new Date().toISOString(),
         endpoint: '/api/scan',
@@ -190,13 +121,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Step 3: Parse and validate request body
+    // Step 2: Parse and validate request body
     const body = await request.json();
 
     // Check if client supports streaming
     const streaming = body.streaming === true;
 
-    // Validate barcode (optional)
+    // Validate barcode (optional): must be a GTIN with a valid check digit,
+    // and is passed on as its GTIN-14 key
+    let barcode: string | undefined;
     if (body.barcode) {
       if (typeof body.barcode !== 'string') {
         return NextResponse.json(
@@ -208,15 +141,17 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (!BARCODE_REGEX.test(body.barcode)) {
+      const gtin = parseGtin(body.barcode);
+      if (!gtin.valid) {
         return NextResponse.json(
           {
             success: false,
-            error: 'Invalid barcode format. Expected 8-13 digits.'
+            error: `Invalid barcode format: ${gtin.error}`
           } as ScanResponse,
           { status: 400 }
         );
       }
+      barcode = gtin.gtin;
     }
 
     // Validate imageData
@@ -306,10 +241,27 @@ export async function POST(request: NextRequest) {
       location = { latitude, longitude };
     }
 
+    // Step 3: Preprocess image for product identification
+    let image: PreprocessedImage;
+    try {
+      image = await imagePreprocessor.preprocess(body.imageData, 'barcode');
+    } catch (error) {
+      if (!(error instanceof ImageQualityError)) throw error;
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code
+        } as ScanResponse,
+        { status: 422 }
+      );
+    }
+
     // Step 4: Construct scan request
     const scanRequest: ScanRequest = {
-      barcode: body.barcode || undefined,
-      imageData: body.imageData,
+      barcode,
+      imageData: image.dataUri,
       userId,
       location,
       tier,
@@ -487,3 +439,9 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * POST /api/scan, rate limited per user (or IP) and tier
+ * Requirement 10.3: Implement rate limiting to prevent abuse
+ */
+export const POST = rateLimited('scan', handleScan);
@@ -9,18 +9,40 @@
  * 3. Ingredients list
  * 4. Nutrition facts
  * 
- * Uses Vertex AI with automatic retry logic.
+ * Uses Vertex AI with automatic retry logic. Responses are validated against the
+ * zod schemas in response-schemas.ts, with one repair re-prompt on failure.
  * Saves complete product to production products table.
  * Caches to MongoDB only if extraction is complete (all 4 steps successful).
+ * With an Authorization: Bearer <token> header, returns dietary alerts for
+ * the signed-in user's dietary profile.
+ * Requests are rate limited per user (or IP) and tier; see src/lib/rate-limit.
+ * The image is preprocessed for the nutrition table, its smallest print;
+ * dark or blurry photos are rejected (422) before the extraction call.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getGeminiWrapper } from '@/lib/gemini-wrapper';
 import { combineExtractionPrompts } from '@/lib/prompts/extraction-prompts';
-import { getDimensionPrompt } from '@/lib/prompts/dimension-prompts';
+import { interpretCombinedExtraction } from '@/lib/prompts/extraction-response';
+import { getDimensionPrompt, withClassifiedAdditives } from '@/lib/prompts/dimension-prompts';
+import { classifyAdditives } from '@/lib/additives/additive-database';
+import {
+  AllergensDimensionSchema,
+  CombinedExtractionResponseSchema,
+  HealthDimensionSchema,
+  ProcessingDimensionSchema,
+  type AllergensDimensionResult,
+  type HealthDimensionResult,
+  type NutritionSection,
+  type ProcessingDimensionResult,
+} from '@/lib/prompts/response-schemas';
 import { cacheService } from '@/lib/mongodb/cache-service';
 import type { ProductData } from '@/lib/types/multi-tier';
+import { dietaryProfileService, hasDietaryRestrictions } from '@/lib/dietary/dietary-profile-service';
+import { computeDietaryAlerts, nutritionFromSection, type DietaryAlert } from '@/lib/dietary/dietary-alerts';
+import { rateLimited } from '@/lib/rate-limit';
+import { imagePreprocessor, ImageQualityError } from '@/lib/image-preprocessing';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -77,37 +99,24 @@ interface ExtractionStep {
   processingTime?: number;
 }
 
-interface HealthDimensionResult {
-  score: number;
-  explanation: string;
-  key_factors: string[];
-  confidence: number;
-}
-
-interface ProcessingDimensionResult {
-  score: number;
-  explanation: string;
-  key_factors: string[];
-  additives_detected: {
-    preservatives: string[];
-    artificial_sweeteners: string[];
-    artificial_colors: string[];
-    other_additives: string[];
-  };
-  confidence: number;
-}
-
-interface AllergensDimensionResult {
-  score: number;
-  explanation: string;
-  key_factors: string[];
-  allergens_detected: {
-    major_allergens: string[];
-    other_allergens: string[];
-    cross_contamination_warnings: string[];
-    allergen_free_claims: string[];
+interface ExtractedProductData {
+  barcode: string | null;
+  name: string | null;
+  brand: string | null;
+  size: string | null;
+  category: string | null;
+  ingredients: string[] | null;
+  nutrition_facts: NutritionSection | null;
+  image_url?: string | null;
+  metadata: {
+    extraction_type: 'combined_single_call';
+    extraction_steps: Partial<Record<'barcode' | 'packaging' | 'ingredients' | 'nutrition', ExtractionStep>>;
+    packaging_type?: string | null;
+    overall_confidence?: number;
+    health_dimension?: HealthDimensionResult;
+    processing_dimension?: ProcessingDimensionResult;
+    allergens_dimension?: AllergensDimensionResult;
   };
-  confidence: number;
 }
 
 interface AllExtractionResponse {
@@ -125,13 +134,15 @@ interface AllExtractionResponse {
   healthDimension?: HealthDimensionResult;
   processingDimension?: ProcessingDimensionResult;
   allergensDimension?: AllergensDimensionResult;
+  dietaryAlerts?: DietaryAlert[];
   productId?: string;
   savedToDb: boolean;
   totalProcessingTime: number;
   error?: string;
+  code?: string; // Set when the image is rejected (IMAGE_TOO_DARK, IMAGE_TOO_BLURRY)
 }
 
-export async function POST(request: NextRequest) {
+async function handleAllExtraction(request: NextRequest): Promise<Response> {
   const startTime = Date.now();
   
   const steps: AllExtractionResponse['steps'] = {
@@ -163,16 +174,39 @@ export async function POST(request: NextRequest) {
       console.log('[Test All API] 🔄 Completing scan for existing product:', productId);
     }
 
-    // Strip data URL prefix if present
-    let base64Data = image;
-    if (image.includes('base64,')) {
-      base64Data = image.split('base64,')[1];
+    // Orient, crop, deskew and downscale before the model sees the image
+    let base64Data: string;
+    try {
+      base64Data = (await imagePreprocessor.preprocess(image, 'nutrition')).base64;
+    } catch (error) {
+      if (!(error instanceof ImageQualityError)) throw error;
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+          steps,
+          savedToDb: false,
+          totalProcessingTime: Date.now() - startTime,
+        },
+        { status: 422 }
+      );
     }
 
+    // Personalized alerts for the signed-in user's dietary profile
+    const dietaryProfile = await dietaryProfileService.getProfileForRequest(request);
+    const dietaryAlertsFor = (
+      ingredients: string[] | null | undefined,
+      nutrition: NutritionSection | null | undefined
+    ): DietaryAlert[] | undefined => dietaryProfile && hasDietaryRestrictions(dietaryProfile)
+      ? computeDietaryAlerts(dietaryProfile, ingredients || [], nutritionFromSection(nutrition))
+      : undefined;
+
     const gemini = getGeminiWrapper();
 
     // Accumulated product data
-    let productData: any = {
+    const productData: ExtractedProductData = {
       barcode: null,
       name: null,
       brand: null,
@@ -199,13 +233,13 @@ export async function POST(request: NextRequest) {
         'nutrition',
       ]);
 
-      const result = await gemini.generateContent({
+      const result = await gemini.generateStructured({
         prompt: combinedPrompt,
         imageData: base64Data,
         imageMimeType: 'image/jpeg',
         maxRetries: 2,
         retryDelayMs: 5000,
-      });
+      }, CombinedExtractionResponseSchema, 'Combined extraction');
 
       if (!result.success) {
         console.error('[Test All API] ❌ Combined extraction failed:', result.error);
@@ -236,151 +270,108 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Parse combined response
-      let responseText = result.text!.trim();
-      if (responseText.includes('```json')) {
-        responseText = responseText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      }
-
-      const extractedData = JSON.parse(responseText);
+      // Interpret validated combined response
+      const extraction = interpretCombinedExtraction(result.data!);
       const extractionTime = Date.now() - extractionStart;
 
       console.log('[Test All API] ✅ Combined extraction completed in', extractionTime, 'ms');
 
       // Process barcode
-      let extractedBarcode: string | null = null;
-      if (extractedData.barcode) {
-        const barcodeMatch = extractedData.barcode.match(/\b\d{8,14}\b/);
-        if (barcodeMatch) {
-          extractedBarcode = barcodeMatch[0];
-          productData.barcode = extractedBarcode;
-          steps.barcode.status = 'success';
-          steps.barcode.data = { barcode: extractedBarcode };
-          steps.barcode.confidence = 0.9;
-          console.log('[Test All API] ✅ Barcode found:', extractedBarcode);
-
-          // CHECK CACHE: Look for existing product with this barcode
-          try {
-            const { data: cachedProduct, error: cacheError } = await supabase
-              .from('products')
-              .select('*')
-              .eq('barcode', extractedBarcode)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .single();
+      Object.assign(steps.barcode, extraction.sections.barcode);
+      if (extraction.fields.barcode) {
+        const extractedBarcode = extraction.fields.barcode;
+        productData.barcode = extractedBarcode;
+        console.log('[Test All API] ✅ Barcode found:', extractedBarcode);
+
+        // CHECK CACHE: Look for existing product with this barcode
+        try {
+          const { data: cachedProduct, error: cacheError } = await supabase
+            .from('products')
+            .select('*')
+            .eq('barcode', extractedBarcode)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .single();
 
-            if (!cacheError && cachedProduct) {
-              const cacheAge = Date.now() - new Date(cachedProduct.created_at).getTime();
-              const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
-              
-              // Check if cached data is complete (score 4)
-              const cachedScore = calculateCompletenessScore(cachedProduct);
-              const isComplete = cachedScore === 4;
-
-              if (cacheAge < thirtyDaysMs && isComplete) {
-                console.log('[Test All API] 💾 Cache hit! Using cached product:', cachedProduct.id);
-                console.log('[Test All API] 📅 Cache age:', Math.floor(cacheAge / (24 * 60 * 60 * 1000)), 'days');
-                console.log('[Test All API] 📊 Cached completeness score:', cachedScore);
-
-                // Return cached data
-                const totalProcessingTime = Date.now() - startTime;
-                return NextResponse.json({
-                  success: true,
-                  cached: true,
-                  cacheAge: Math.floor(cacheAge / (24 * 60 * 60 * 1000)),
-                  steps: cachedProduct.metadata?.extraction_steps || steps,
-                  healthDimension: cachedProduct.metadata?.health_dimension,
-                  processingDimension: cachedProduct.metadata?.processing_dimension,
-                  allergensDimension: cachedProduct.metadata?.allergens_dimension,
-                  productId: cachedProduct.id,
-                  savedToDb: true,
-                  totalProcessingTime,
-                });
-              } else if (cacheAge >= thirtyDaysMs) {
-                console.log('[Test All API] ⏰ Cache expired (age:', Math.floor(cacheAge / (24 * 60 * 60 * 1000)), 'days), running fresh analysis');
-              } else {
-                console.log('[Test All API] ⚠️ Cached data incomplete (score:', cachedScore, '), running fresh analysis');
-              }
+          if (!cacheError && cachedProduct) {
+            const cacheAge = Date.now() - new Date(cachedProduct.created_at).getTime();
+            const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
+            
+            // Check if cached data is complete (score 4)
+            const cachedScore = calculateCompletenessScore(cachedProduct);
+            const isComplete = cachedScore === 4;
+
+            if (cacheAge < thirtyDaysMs && isComplete) {
+              console.log('[Test All API] 💾 Cache hit! Using cached product:', cachedProduct.id);
+              console.log('[Test All API] 📅 Cache age:', Math.floor(cacheAge / (24 * 60 * 60 * 1000)), 'days');
+              console.log('[Test All API] 📊 Cached completeness score:', cachedScore);
+
+              // Return cached data
+              const totalProcessingTime = Date.now() - startTime;
+              return NextResponse.json({
+                success: true,
+                cached: true,
+                cacheAge: Math.floor(cacheAge / (24 * 60 * 60 * 1000)),
+                steps: cachedProduct.metadata?.extraction_steps || steps,
+                healthDimension: cachedProduct.metadata?.health_dimension,
+                processingDimension: cachedProduct.metadata?.processing_dimension,
+                allergensDimension: cachedProduct.metadata?.allergens_dimension,
+                dietaryAlerts: dietaryAlertsFor(cachedProduct.ingredients, cachedProduct.nutrition_facts),
+                productId: cachedProduct.id,
+                savedToDb: true,
+                totalProcessingTime,
+              });
+            } else if (cacheAge >= thirtyDaysMs) {
+              console.log('[Test All API] ⏰ Cache expired (age:', Math.floor(cacheAge / (24 * 60 * 60 * 1000)), 'days), running fresh analysis');
+            } else {
+              console.log('[Test All API] ⚠️ Cached data incomplete (score:', cachedScore, '), running fresh analysis');
             }
-          } catch (cacheError) {
-            console.log('[Test All API] ⚠️ Cache lookup failed, continuing with fresh extraction:', cacheError);
           }
-        } else {
-          steps.barcode.status = 'failed';
-          steps.barcode.error = 'No valid barcode detected';
+        } catch (cacheError) {
+          console.log('[Test All API] ⚠️ Cache lookup failed, continuing with fresh extraction:', cacheError);
         }
-      } else {
-        steps.barcode.status = 'failed';
-        steps.barcode.error = 'No barcode in response';
       }
       steps.barcode.processingTime = extractionTime;
       productData.metadata.extraction_steps.barcode = steps.barcode;
 
-      // Process packaging
-      if (extractedData.packaging) {
-        productData.name = extractedData.packaging.productName || 'Unknown Product';
-        productData.brand = extractedData.packaging.brand || 'Unknown Brand';
-        productData.size = extractedData.packaging.size || null;
-        productData.category = extractedData.packaging.category || 'Uncategorized';
-        productData.metadata.packaging_type = extractedData.packaging.packagingType || null;
-
-        steps.packaging.status = 'success';
-        steps.packaging.data = extractedData.packaging;
-        steps.packaging.confidence = extractedData.packaging.confidence || 0.5;
+      // Process packaging (defaults are filled in for required fields on failure)
+      Object.assign(steps.packaging, extraction.sections.packaging);
+      productData.name = extraction.fields.name;
+      productData.brand = extraction.fields.brand;
+      productData.size = extraction.fields.size;
+      productData.category = extraction.fields.category;
+      if (steps.packaging.status === 'success') {
+        productData.metadata.packaging_type = extraction.fields.packagingType;
         console.log('[Test All API] ✅ Packaging extracted');
-      } else {
-        steps.packaging.status = 'failed';
-        steps.packaging.error = 'No packaging data in response';
-        // Set defaults for required fields
-        productData.name = 'Unknown Product';
-        productData.brand = 'Unknown Brand';
-        productData.category = 'Uncategorized';
       }
       steps.packaging.processingTime = extractionTime;
       productData.metadata.extraction_steps.packaging = steps.packaging;
 
       // Process ingredients
-      if (extractedData.ingredients?.ingredients && extractedData.ingredients.ingredients.length > 0) {
-        // Post-processing: Remove "INGREDIENTS:" prefix from first ingredient if present
-        const ingredients = [...extractedData.ingredients.ingredients];
-        if (ingredients[0]) {
-          ingredients[0] = ingredients[0]
-            .replace(/^INGREDIENTS:\s*/i, '')
-            .replace(/^Ingredients:\s*/i, '')
-            .trim();
-        }
-
-        productData.ingredients = ingredients;
-        steps.ingredients.status = 'success';
-        steps.ingredients.data = extractedData.ingredients;
-        steps.ingredients.confidence = extractedData.ingredients.confidence || 0.5;
-        console.log('[Test All API] ✅ Ingredients extracted:', ingredients.length);
+      Object.assign(steps.ingredients, extraction.sections.ingredients);
+      if (extraction.fields.ingredients) {
+        productData.ingredients = extraction.fields.ingredients;
+        console.log('[Test All API] ✅ Ingredients extracted:', extraction.fields.ingredients.length);
       } else {
-        steps.ingredients.status = 'failed';
-        steps.ingredients.error = 'No ingredients found';
         console.log('[Test All API] ⚠️ No ingredients found');
       }
       steps.ingredients.processingTime = extractionTime;
       productData.metadata.extraction_steps.ingredients = steps.ingredients;
 
       // Process nutrition facts
-      if (extractedData.nutrition_facts?.serving_size && extractedData.nutrition_facts.macros) {
-        productData.nutrition_facts = extractedData.nutrition_facts;
-        steps.nutrition.status = 'success';
-        steps.nutrition.data = extractedData.nutrition_facts;
-        steps.nutrition.confidence = extractedData.nutrition_facts.confidence || 0.5;
+      Object.assign(steps.nutrition, extraction.sections.nutrition);
+      if (extraction.fields.nutrition_facts) {
+        productData.nutrition_facts = extraction.fields.nutrition_facts;
         console.log('[Test All API] ✅ Nutrition facts extracted');
       } else {
-        steps.nutrition.status = 'failed';
-        steps.nutrition.error = 'Incomplete nutrition facts';
         console.log('[Test All API] ⚠️ Incomplete nutrition facts');
       }
       steps.nutrition.processingTime = extractionTime;
       productData.metadata.extraction_steps.nutrition = steps.nutrition;
 
       // Store overall confidence
-      if (extractedData.overall_confidence) {
-        productData.metadata.overall_confidence = extractedData.overall_confidence;
+      if (extraction.overallConfidence) {
+        productData.metadata.overall_confidence = extraction.overallConfidence;
       }
 
     } catch (error) {
@@ -415,36 +406,16 @@ export async function POST(request: NextRequest) {
 
         const healthPrompt = getDimensionPrompt('health');
         
-        const healthResult = await gemini.generateContent({
+        const healthResult = await gemini.generateStructured({
           prompt: healthPrompt,
           imageData: base64Data,
           imageMimeType: 'image/jpeg',
           maxRetries: 2,
           retryDelayMs: 5000,
-        });
+        }, HealthDimensionSchema, 'Health dimension');
 
-        if (healthResult.success && healthResult.text) {
-          let healthResponseText = healthResult.text.trim();
-          
-          // Remove markdown code blocks
-          if (healthResponseText.includes('```json')) {
-            healthResponseText = healthResponseText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-          }
-          
-          // Extract JSON from text that might have conversational prefix/suffix
-          // Look for JSON object pattern: starts with { and ends with }
-          const jsonMatch = healthResponseText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            healthResponseText = jsonMatch[0];
-          }
-
-          const healthData = JSON.parse(healthResponseText);
-          healthDimension = {
-            score: healthData.score,
-            explanation: healthData.explanation,
-            key_factors: healthData.key_factors,
-            confidence: healthData.confidence,
-          };
+        if (healthResult.success && healthResult.data) {
+          healthDimension = healthResult.data;
 
           const healthTime = Date.now() - healthStart;
           console.log('[Test All API] ✅ Health dimension analysis completed in', healthTime, 'ms');
@@ -471,43 +442,21 @@ export async function POST(request: NextRequest) {
         console.log('[Test All API] 🔬 Running processing dimension analysis');
         const processingStart = Date.now();
 
-        const processingPrompt = getDimensionPrompt('processing');
+        // Ground the analysis in the additives the database recognises
+        const additives = classifyAdditives(productData.ingredients || []);
+        const processingPrompt = withClassifiedAdditives(getDimensionPrompt('processing'), additives);
+        console.log('[Test All API] 🧪 Classified additives:', additives.length);
         
-        const processingResult = await gemini.generateContent({
+        const processingResult = await gemini.generateStructured({
           prompt: processingPrompt,
           imageData: base64Data,
           imageMimeType: 'image/jpeg',
           maxRetries: 2,
           retryDelayMs: 5000,
-        });
+        }, ProcessingDimensionSchema, 'Processing dimension');
 
-        if (processingResult.success && processingResult.text) {
-          let processingResponseText = processingResult.text.trim();
-          
-          // Remove markdown code blocks
-          if (processingResponseText.includes('```json')) {
-            processingResponseText = processingResponseText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-          }
-          
-          // Extract JSON from text that might have conversational prefix/suffix
-          const jsonMatch = processingResponseText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            processingResponseText = jsonMatch[0];
-          }
-
-          const processingData = JSON.parse(processingResponseText);
-          processingDimension = {
-            score: processingData.score,
-            explanation: processingData.explanation,
-            key_factors: processingData.key_factors,
-            additives_detected: processingData.additives_detected || {
-              preservatives: [],
-              artificial_sweeteners: [],
-              artificial_colors: [],
-              other_additives: [],
-            },
-            confidence: processingData.confidence,
-          };
+        if (processingResult.success && processingResult.data) {
+          processingDimension = processingResult.data;
 
           const processingTime = Date.now() - processingStart;
           console.log('[Test All API] ✅ Processing dimension analysis completed in', processingTime, 'ms');
@@ -536,41 +485,16 @@ export async function POST(request: NextRequest) {
 
         const allergensPrompt = getDimensionPrompt('allergens');
         
-        const allergensResult = await gemini.generateContent({
+        const allergensResult = await gemini.generateStructured({
           prompt: allergensPrompt,
           imageData: base64Data,
           imageMimeType: 'image/jpeg',
           maxRetries: 2,
           retryDelayMs: 5000,
-        });
-
-        if (allergensResult.success && allergensResult.text) {
-          let allergensResponseText = allergensResult.text.trim();
-          
-          // Remove markdown code blocks
-          if (allergensResponseText.includes('```json')) {
-            allergensResponseText = allergensResponseText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-          }
-          
-          // Extract JSON from text that might have conversational prefix/suffix
-          const jsonMatch = allergensResponseText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            allergensResponseText = jsonMatch[0];
-          }
+        }, AllergensDimensionSchema, 'Allergens dimension');
 
-          const allergensData = JSON.parse(allergensResponseText);
-          allergensDimension = {
-            score: allergensData.score,
-            explanation: allergensData.explanation,
-            key_factors: allergensData.key_factors,
-            allergens_detected: allergensData.allergens_detected || {
-              major_allergens: [],
-              other_allergens: [],
-              cross_contamination_warnings: [],
-              allergen_free_claims: [],
-            },
-            confidence: allergensData.confidence,
-          };
+        if (allergensResult.success && allergensResult.data) {
+          allergensDimension = allergensResult.data;
 
           const allergensTime = Date.now() - allergensStart;
           console.log('[Test All API] ✅ Allergens dimension analysis completed in', allergensTime, 'ms');
@@ -740,6 +664,7 @@ export async function POST(request: NextRequest) {
               healthDimension: data.metadata?.health_dimension,
               processingDimension: data.metadata?.processing_dimension,
               allergensDimension: data.metadata?.allergens_dimension,
+              dietaryAlerts: dietaryAlertsFor(data.ingredients, data.nutrition_facts),
               productId: data.id,
               savedToDb: true,
               totalProcessingTime,
@@ -809,6 +734,7 @@ export async function POST(request: NextRequest) {
               healthDimension: existingProduct.metadata?.health_dimension,
               processingDimension: existingProduct.metadata?.processing_dimension,
               allergensDimension: existingProduct.metadata?.allergens_dimension,
+              dietaryAlerts: dietaryAlertsFor(existingProduct.ingredients, existingProduct.nutrition_facts),
               productId: existingProduct.id,
               savedToDb: true,
               totalProcessingTime,
@@ -930,6 +856,7 @@ export async function POST(request: NextRequest) {
       healthDimension,
       processingDimension,
       allergensDimension,
+      dietaryAlerts: dietaryAlertsFor(productData.ingredients, productData.nutrition_facts),
       productId: finalProductId,
       savedToDb,
       totalProcessingTime,
@@ -951,3 +878,15 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * POST /api/test-all-extraction, rate limited per user (or IP) and tier
+ */
+export const POST = rateLimited('test-all-extraction', handleAllExtraction, {
+  limitedBody: {
+    success: false,
+    error: 'Too many requests. Please try again later.',
+    savedToDb: false,
+    totalProcessingTime: 0,
+  },
+});
@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getGeminiWrapper } from '@/lib/gemini-wrapper';
+import { isValidGtin } from '@/lib/barcode/gtin';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -80,13 +81,16 @@ Return format: Just the barcode number (e.g., "012345678901")`;
 
         // Extract barcode pattern from response
         if (rawText && rawText !== 'NONE') {
-          const barcodeMatch = rawText.match(/\b\d{8,14}\b/);
+          const candidates = rawText.match(/\b\d{8,14}\b/g) || [];
+          const barcodeMatch = candidates.find(candidate => isValidGtin(candidate));
           
           if (barcodeMatch) {
             method = 'OCR';
-            barcode = barcodeMatch[0];
+            barcode = barcodeMatch;
             confidence = 0.8;
             console.log('[Test Barcode V2 API] ✅ Extracted barcode via OCR:', barcode);
+          } else if (candidates.length > 0) {
+            console.warn('[Test Barcode V2 API] ⚠️ OCR barcode rejected (invalid check digit):', candidates.join(', '));
           }
         }
       } else {
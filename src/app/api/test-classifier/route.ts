@@ -46,7 +46,7 @@ export async function GET() {
     console.log('[Test Classifier] ✅ ImageClassifier instantiated successfully');
     
     // Get cache stats
-    const stats = classifier.getCacheStats();
+    const stats = await classifier.getCacheStats().catch(() => null);
     
     return NextResponse.json({
       success: true,
@@ -12,6 +12,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getGeminiWrapper } from '@/lib/gemini-wrapper';
 import { ExtractionPrompts } from '@/lib/prompts/extraction-prompts';
+import { parseLLMResponse } from '@/lib/llm/structured-output';
+import { IngredientNamesSchema, IngredientsSectionSchema } from '@/lib/prompts/response-schemas';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -54,15 +56,15 @@ export async function POST(request: NextRequest) {
       base64Data = image.split('base64,')[1];
     }
 
-    const result = await gemini.generateContent({
+    const result = await gemini.generateStructured({
       prompt: ExtractionPrompts.ingredients,
       imageData: base64Data,
       imageMimeType: 'image/jpeg',
       maxRetries: 2,
       retryDelayMs: 5000,
-    });
+    }, IngredientsSectionSchema, 'Ingredients');
 
-    if (!result.success) {
+    if (!result.success && !result.validationErrors) {
       return NextResponse.json(
         { 
           success: false, 
@@ -78,23 +80,15 @@ export async function POST(request: NextRequest) {
     
     console.log('[Test Ingredients API] Raw response:', rawText);
 
-    // Parse JSON response
-    let extractedData: any = {};
+    // Use validated response
+    let notes: string | null = null;
     let confidence = 0.5;
     let ingredients: string[] = [];
     
-    try {
-      // Remove markdown code blocks if present
-      let jsonText = rawText;
-      if (jsonText.includes('```json')) {
-        jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      } else if (jsonText.includes('```')) {
-        jsonText = jsonText.replace(/```\s*/g, '');
-      }
-      
-      extractedData = JSON.parse(jsonText);
-      ingredients = extractedData.ingredients || [];
-      confidence = extractedData.confidence || 0.5;
+    if (result.data) {
+      ingredients = result.data.ingredients || [];
+      confidence = result.data.confidence || 0.5;
+      notes = result.data.notes || null;
       
       // Post-processing: Remove "INGREDIENTS:" prefix from first ingredient if present
       if (ingredients.length > 0) {
@@ -105,8 +99,8 @@ export async function POST(request: NextRequest) {
       }
       
       console.log('[Test Ingredients API] ✅ Parsed ingredients:', ingredients.length, 'items');
-    } catch (parseError) {
-      console.error('[Test Ingredients API] ❌ JSON parse failed:', parseError);
+    } else {
+      console.error('[Test Ingredients API] ❌ Response failed validation:', result.validationErrors);
       
       // Fallback: Try to extract ingredients from text
       if (rawText.toLowerCase().includes('none') || rawText.toLowerCase().includes('not found')) {
@@ -114,10 +108,10 @@ export async function POST(request: NextRequest) {
         confidence = 0.0;
       } else {
         // Try to find array-like structure in text
-        const arrayMatch = rawText.match(/\[([\s\S]*?)\]/);
+        const arrayMatch = rawText.match(/\[[\s\S]*?\]/);
         if (arrayMatch) {
           try {
-            ingredients = JSON.parse('[' + arrayMatch[1] + ']');
+            ingredients = parseLLMResponse(arrayMatch[0], IngredientNamesSchema);
             confidence = 0.4; // Lower confidence for fallback
           } catch {
             ingredients = [];
@@ -143,7 +137,7 @@ export async function POST(request: NextRequest) {
               raw_ocr_text: rawText,
               image_preview: image.substring(0, 100) + '...',
               extraction_type: 'ingredients',
-              notes: extractedData.notes || null,
+              notes,
             },
           });
 
@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getGeminiWrapper } from '@/lib/gemini-wrapper';
 import { ExtractionPrompts } from '@/lib/prompts/extraction-prompts';
+import { NutritionSectionSchema, type NutritionSection } from '@/lib/prompts/response-schemas';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -24,7 +25,7 @@ interface NutritionExtractionRequest {
 
 interface NutritionExtractionResponse {
   success: boolean;
-  nutritionFacts?: any;
+  nutritionFacts?: NutritionSection;
   rawText?: string;
   confidence: number;
   savedToDb: boolean;
@@ -53,15 +54,15 @@ export async function POST(request: NextRequest) {
       base64Data = image.split('base64,')[1];
     }
 
-    const result = await gemini.generateContent({
+    const result = await gemini.generateStructured({
       prompt: ExtractionPrompts.nutrition,
       imageData: base64Data,
       imageMimeType: 'image/jpeg',
       maxRetries: 2,
       retryDelayMs: 5000,
-    });
+    }, NutritionSectionSchema, 'Nutrition');
 
-    if (!result.success) {
+    if (!result.success && !result.validationErrors) {
       return NextResponse.json(
         { 
           success: false, 
@@ -77,31 +78,16 @@ export async function POST(request: NextRequest) {
     
     console.log('[Test Nutrition API] Raw response:', rawText);
 
-    // Parse JSON response
-    let nutritionFacts: any = null;
-    let confidence = 0.0;
-    
-    try {
-      // Remove markdown code blocks if present
-      let jsonText = rawText;
-      if (jsonText.includes('```json')) {
-        jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      } else if (jsonText.includes('```')) {
-        jsonText = jsonText.replace(/```\s*/g, '');
-      }
-      
-      nutritionFacts = JSON.parse(jsonText);
-      confidence = nutritionFacts.confidence || 0.5;
-      
-      console.log('[Test Nutrition API] ✅ Parsed nutrition facts');
-    } catch (parseError) {
-      console.error('[Test Nutrition API] ❌ JSON parse failed:', parseError);
+    // Use validated response
+    if (!result.data) {
+      console.error('[Test Nutrition API] ❌ Response failed validation:', result.validationErrors);
       
       return NextResponse.json(
         {
           success: false,
           confidence: 0.0,
           error: 'Failed to parse nutrition facts from image',
+          validationErrors: result.validationErrors,
           rawText,
           savedToDb: false,
         },
@@ -109,6 +95,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const nutritionFacts = result.data;
+    const confidence = nutritionFacts.confidence || 0.5;
+    
+    console.log('[Test Nutrition API] ✅ Parsed nutrition facts');
+
     // Validate required fields
     const hasRequiredFields = 
       nutritionFacts.serving_size &&
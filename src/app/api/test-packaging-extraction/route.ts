@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getGeminiWrapper } from '@/lib/gemini-wrapper';
 import { ExtractionPrompts } from '@/lib/prompts/extraction-prompts';
+import { PackagingSectionSchema, type PackagingSection } from '@/lib/prompts/response-schemas';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -57,15 +58,15 @@ export async function POST(request: NextRequest) {
       base64Data = image.split('base64,')[1];
     }
 
-    const result = await gemini.generateContent({
+    const result = await gemini.generateStructured({
       prompt: ExtractionPrompts.packaging,
       imageData: base64Data,
       imageMimeType: 'image/jpeg',
       maxRetries: 2,
       retryDelayMs: 5000,
-    });
+    }, PackagingSectionSchema, 'Packaging');
 
-    if (!result.success) {
+    if (!result.success && !result.validationErrors) {
       return NextResponse.json(
         { 
           success: false, 
@@ -81,25 +82,17 @@ export async function POST(request: NextRequest) {
     
     console.log('[Test Packaging API] Raw response:', rawText);
 
-    // Parse JSON response
-    let extractedData: any = {};
+    // Use validated response
+    let extractedData: PackagingSection;
     let confidence = 0.5;
     
-    try {
-      // Remove markdown code blocks if present
-      let jsonText = rawText;
-      if (jsonText.includes('```json')) {
-        jsonText = jsonText.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      } else if (jsonText.includes('```')) {
-        jsonText = jsonText.replace(/```\s*/g, '');
-      }
-      
-      extractedData = JSON.parse(jsonText);
+    if (result.data) {
+      extractedData = result.data;
       confidence = extractedData.confidence || 0.5;
       
       console.log('[Test Packaging API] ✅ Parsed data:', extractedData);
-    } catch (parseError) {
-      console.error('[Test Packaging API] ❌ JSON parse failed:', parseError);
+    } else {
+      console.error('[Test Packaging API] ❌ Response failed validation:', result.validationErrors);
       
       // Fallback: Try to extract fields manually from text
       extractedData = {
@@ -146,11 +139,11 @@ export async function POST(request: NextRequest) {
 
     const apiResponse: PackagingExtractionResponse = {
       success: true,
-      productName: extractedData.productName,
-      brand: extractedData.brand,
-      size: extractedData.size,
-      category: extractedData.category,
-      packagingType: extractedData.packagingType,
+      productName: extractedData.productName ?? undefined,
+      brand: extractedData.brand ?? undefined,
+      size: extractedData.size ?? undefined,
+      category: extractedData.category ?? undefined,
+      packagingType: extractedData.packagingType ?? undefined,
       rawText,
       confidence,
       savedToDb,
@@ -173,7 +166,7 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Helper function to extract field from text when JSON parsing fails
+ * Helper function to extract field from text when the response fails validation
  */
 function extractFieldFromText(text: string, fieldName: string): string | null {
   const patterns: Record<string, RegExp> = {
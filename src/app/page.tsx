@@ -14,6 +14,10 @@
 
 import { useState, useEffect } from 'react';
 import ImageScanner from '@/components/ImageScanner';
+import DietaryAlerts from '@/components/DietaryAlerts';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DietaryAlert } from '@/lib/dietary/dietary-alerts';
+import FieldProvenancePanel from '@/components/FieldProvenancePanel';
 
 interface ExtractionStep {
   name: string;
@@ -51,6 +55,7 @@ interface AllergensDimensionResult {
   allergens_detected: {
     major_allergens: string[];
     other_allergens: string[];
+    may_contain_allergens?: string[];
     cross_contamination_warnings: string[];
     allergen_free_claims: string[];
   };
@@ -71,6 +76,7 @@ interface AllExtractionResult {
   healthDimension?: HealthDimensionResult;
   processingDimension?: ProcessingDimensionResult;
   allergensDimension?: AllergensDimensionResult;
+  dietaryAlerts?: DietaryAlert[];
   productId?: string;
   savedToDb: boolean;
   totalProcessingTime: number;
@@ -79,6 +85,7 @@ interface AllExtractionResult {
 }
 
 export default function TestAllPage() {
+  const { session } = useAuth();
   const [showScanner, setShowScanner] = useState(false);
   const [loading, setLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState<string>('');
@@ -268,10 +275,12 @@ export default function TestAllPage() {
       }
       
       // Call test API endpoint
+      // Signed-in users get alerts for their dietary profile
       const response = await fetch('/api/test-all-extraction', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(session ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
         },
         body: JSON.stringify(requestBody),
       });
@@ -294,6 +303,7 @@ export default function TestAllPage() {
         healthDimension: data.healthDimension,
         processingDimension: data.processingDimension,
         allergensDimension: data.allergensDimension,
+        dietaryAlerts: data.dietaryAlerts,
         productId: data.productId,
         savedToDb: data.savedToDb,
         totalProcessingTime: processingTime,
@@ -403,12 +413,20 @@ export default function TestAllPage() {
             <h1 className="text-2xl font-bold text-gray-900">
               🔬 AI Product Analysis
             </h1>
-            <button
-              onClick={() => window.location.href = '/history'}
-              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
-            >
-              📜 History
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => window.location.href = '/history'}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
+              >
+                📜 History
+              </button>
+              <button
+                onClick={() => window.location.href = '/settings'}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
+              >
+                🥗 Diet
+              </button>
+            </div>
           </div>
         </div>
 
@@ -504,6 +522,9 @@ export default function TestAllPage() {
         {/* Results Display */}
         {result && (
           <div className="space-y-4">
+            {/* Personalized Dietary Alerts */}
+            {result.dietaryAlerts && <DietaryAlerts alerts={result.dietaryAlerts} />}
+
             {/* Summary Banner */}
             <div className="bg-white rounded-lg shadow-lg p-6">
               <div className="flex items-center justify-between mb-4">
@@ -913,6 +934,20 @@ export default function TestAllPage() {
                     </div>
                   )}
 
+                  {/* May Contain (precautionary labelling, not an ingredient) */}
+                  {(result.allergensDimension.allergens_detected.may_contain_allergens || []).length > 0 && (
+                    <div className="bg-yellow-50 rounded-lg p-4 mb-3">
+                      <p className="text-sm font-medium text-yellow-900 mb-3">May Contain</p>
+                      <div className="flex flex-wrap gap-2">
+                        {(result.allergensDimension.allergens_detected.may_contain_allergens || []).map((allergen, index) => (
+                          <span key={index} className="px-3 py-1 bg-yellow-200 text-yellow-900 rounded-full text-sm">
+                            {allergen}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Cross-Contamination Warnings */}
                   {result.allergensDimension.allergens_detected.cross_contamination_warnings.length > 0 && (
                     <div className="bg-yellow-50 rounded-lg p-4 mb-3">
@@ -1092,6 +1127,17 @@ export default function TestAllPage() {
                 </div>
               )}
 
+              {/* Field Sources */}
+              {result.productId && (
+                <div className="mb-6 pb-6 border-b">
+                  <h4 className="font-bold text-gray-900 mb-3 flex items-center gap-2">
+                    <span>🧾</span>
+                    Field Sources
+                  </h4>
+                  <FieldProvenancePanel productId={result.productId} />
+                </div>
+              )}
+
               {/* Failed Steps */}
               {Object.entries(result.steps).some(([_, step]) => step.status === 'failed') && (
                 <div className="mt-6 pt-6 border-t">
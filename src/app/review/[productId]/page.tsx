@@ -0,0 +1,411 @@
+'use client';
+
+/**
+ * Review Item Page
+ *
+ * Shows a flagged product with its error reports, scan images, conflicting
+ * values, extraction steps and field history, and lets a reviewer edit
+ * fields, merge a duplicate, approve or reject the product and leave notes.
+ * Every action is recorded in the audit trail shown at the bottom.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import AuthGuard from '@/components/AuthGuard';
+import FieldProvenancePanel from '@/components/FieldProvenancePanel';
+import { useAuth } from '@/contexts/AuthContext';
+import { reviewRequest } from '@/lib/review/review-client';
+import type { ReviewActionRequest, ReviewDetail } from '@/lib/review/review-service';
+
+const TEXT_FIELDS = [
+  { field: 'name', label: 'Product Name' },
+  { field: 'brand', label: 'Brand' },
+  { field: 'size', label: 'Size' },
+  { field: 'category', label: 'Category' },
+  { field: 'barcode', label: 'Barcode' },
+  { field: 'image_url', label: 'Image URL' },
+] as const;
+
+type TextField = typeof TEXT_FIELDS[number]['field'];
+
+interface EditForm {
+  text: Record<TextField, string>;
+  hasAllergens: boolean;
+  allergenTypes: string;
+}
+
+function formFromDetail(detail: ReviewDetail): EditForm {
+  const { product } = detail;
+  return {
+    text: {
+      name: product.name,
+      brand: product.brand,
+      size: product.size || '',
+      category: product.category || '',
+      barcode: product.barcode || '',
+      image_url: product.image_url || '',
+    },
+    hasAllergens: product.has_allergens,
+    allergenTypes: (product.allergen_types || []).join(', '),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function ReviewItem({ productId }: { productId: string }) {
+  const { session } = useAuth();
+  const [detail, setDetail] = useState<ReviewDetail | null>(null);
+  const [form, setForm] = useState<EditForm | null>(null);
+  const [duplicateId, setDuplicateId] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const token = session?.access_token;
+
+  const loadDetail = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await reviewRequest<ReviewDetail>(`/api/review/${encodeURIComponent(productId)}`, token);
+      setDetail(data);
+      setForm(formFromDetail(data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load product');
+    }
+  }, [productId, token]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const submit = async (action: ReviewActionRequest, successMessage: string) => {
+    if (!token) return;
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await reviewRequest(`/api/review/${encodeURIComponent(productId)}`, token, { method: 'POST', body: action });
+      setMessage(successMessage);
+      setNote('');
+      setDuplicateId('');
+      await loadDetail();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review action failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveEdits = () => {
+    if (!detail || !form) return;
+    const { product } = detail;
+    const fields: Record<string, unknown> = {};
+
+    for (const { field } of TEXT_FIELDS) {
+      const value = form.text[field].trim();
+      const current = product[field] || '';
+      if (value !== current) {
+        fields[field] = value === '' && field !== 'name' && field !== 'brand' ? null : value;
+      }
+    }
+    if (form.hasAllergens !== product.has_allergens) {
+      fields.has_allergens = form.hasAllergens;
+    }
+    const allergenTypes = form.allergenTypes.split(',').map(type => type.trim()).filter(Boolean);
+    if (allergenTypes.join(',') !== (product.allergen_types || []).join(',')) {
+      fields.allergen_types = allergenTypes;
+    }
+
+    if (Object.keys(fields).length === 0) {
+      setError('No field values changed');
+      return;
+    }
+    submit({ action: 'edit', fields, note: note || undefined }, 'Changes saved');
+  };
+
+  if (error && !detail) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-3xl mx-auto bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!detail || !form) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading product...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { product, errorReports, images, conflicts, extractionSteps, auditTrail } = detail;
+  const steps = Object.entries(extractionSteps) as Array<[string, { status?: string; error?: string; processingTime?: number }]>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-24">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+          <Link href="/review" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Review Queue
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mt-2">{product.name}</h1>
+          <p className="text-gray-600 text-sm">
+            {product.brand} · <span className="font-mono">{product.id}</span>
+          </p>
+          <p className="text-sm mt-2">
+            {product.flagged_for_review
+              ? <span className="text-red-700 font-medium">🚩 Flagged for review</span>
+              : <span className="text-green-700 font-medium">✓ Reviewed ({formatValue(product.metadata?.review_status)})</span>}
+          </p>
+        </div>
+
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+            <p className="text-green-700 text-sm">{message}</p>
+          </div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Error Reports */}
+        <Section title={`Error Reports (${errorReports.length})`}>
+          {errorReports.length === 0 && <p className="text-sm text-gray-500">No error reports.</p>}
+          <div className="space-y-2">
+            {errorReports.map(report => (
+              <div key={report.id} className="bg-gray-50 rounded-lg p-3 text-sm">
+                <p className="text-gray-900">{report.user_feedback || 'No feedback given'}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Tier {report.tier} · {report.status} · {new Date(report.created_at).toLocaleString()}
+                </p>
+                {(report.actual_product_name || report.actual_product_barcode) && (
+                  <p className="text-xs text-gray-700 mt-1">
+                    Reported as: {formatValue(report.actual_product_name)} {report.actual_product_brand && `(${report.actual_product_brand})`}
+                    {report.actual_product_barcode && ` · ${report.actual_product_barcode}`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        {/* Images */}
+        <Section title="Scan Images">
+          {images.length === 0 && <p className="text-sm text-gray-500">No images recorded.</p>}
+          <div className="grid grid-cols-2 gap-3">
+            {images.map((image, index) => (
+              <div key={index} className="bg-gray-50 rounded-lg p-2 text-xs text-gray-600">
+                {image.url && (
+                  <img src={image.url} alt={`${image.source} image`} className="w-full h-32 object-contain mb-1" />
+                )}
+                <p>{image.imageType || image.source}</p>
+                {image.imageHash && <p className="font-mono truncate">{image.imageHash}</p>}
+                {image.timestamp && <p>{new Date(image.timestamp).toLocaleString()}</p>}
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        {/* Conflicts */}
+        <Section title={`Conflicting Values (${conflicts.length})`}>
+          {conflicts.length === 0 && <p className="text-sm text-gray-500">No conflicts recorded.</p>}
+          <div className="space-y-2">
+            {conflicts.map((conflict, index) => (
+              <div key={index} className="bg-yellow-50 rounded-lg p-3 text-sm">
+                <p className="font-medium text-gray-900">{conflict.field}</p>
+                {conflict.values.map((entry, valueIndex) => (
+                  <p key={valueIndex} className="text-xs text-gray-700">
+                    {formatValue(entry.value)} — {entry.source} · {new Date(entry.timestamp).toLocaleString()}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </Section>
+
+        {/* Extraction Steps */}
+        <Section title="Extraction Steps">
+          {steps.length === 0 && <p className="text-sm text-gray-500">No extraction steps recorded.</p>}
+          <div className="space-y-1">
+            {steps.map(([name, step]) => (
+              <p key={name} className="text-sm">
+                <span className={step.status === 'success' ? 'text-green-700' : 'text-red-700'}>
+                  {step.status === 'success' ? '✓' : '✗'}
+                </span>{' '}
+                <span className="font-medium capitalize">{name}</span>
+                <span className="text-gray-500">
+                  {' '}· {step.status || 'unknown'}
+                  {step.processingTime !== undefined && ` · ${step.processingTime}ms`}
+                  {step.error && ` · ${step.error}`}
+                </span>
+              </p>
+            ))}
+          </div>
+        </Section>
+
+        {/* Field Sources */}
+        <Section title="Field Sources">
+          <FieldProvenancePanel key={product.updated_at} productId={product.id} />
+        </Section>
+
+        {/* Edit Fields */}
+        <Section title="Edit Fields">
+          <div className="space-y-3">
+            {TEXT_FIELDS.map(({ field, label }) => (
+              <label key={field} className="block">
+                <span className="text-xs text-gray-600">{label}</span>
+                <input
+                  type="text"
+                  value={form.text[field]}
+                  onChange={event => setForm({ ...form, text: { ...form.text, [field]: event.target.value } })}
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                />
+              </label>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={form.hasAllergens}
+                onChange={event => setForm({ ...form, hasAllergens: event.target.checked })}
+              />
+              Contains allergens
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Allergens (comma separated)</span>
+              <input
+                type="text"
+                value={form.allergenTypes}
+                onChange={event => setForm({ ...form, allergenTypes: event.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+              />
+            </label>
+            <button
+              onClick={handleSaveEdits}
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors"
+            >
+              Save Changes
+            </button>
+          </div>
+        </Section>
+
+        {/* Merge Duplicate */}
+        <Section title="Merge Duplicate">
+          <p className="text-sm text-gray-600 mb-2">
+            Merge another product into this one. Its scans and error reports move here and it is deleted.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={duplicateId}
+              onChange={event => setDuplicateId(event.target.value)}
+              placeholder="Duplicate product ID"
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm font-mono text-gray-900"
+            />
+            <button
+              onClick={() => submit({ action: 'merge', duplicateId: duplicateId.trim(), note: note || undefined }, 'Duplicate merged')}
+              disabled={submitting || !duplicateId.trim()}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-900 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors"
+            >
+              Merge
+            </button>
+          </div>
+        </Section>
+
+        {/* Decision */}
+        <Section title="Decision">
+          <textarea
+            value={note}
+            onChange={event => setNote(event.target.value)}
+            placeholder="Note (saved with the next action)"
+            rows={3}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 mb-3"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => submit({ action: 'approve', note: note || undefined }, 'Product approved')}
+              disabled={submitting}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors"
+            >
+              ✓ Approve
+            </button>
+            <button
+              onClick={() => submit({ action: 'reject', note: note || undefined }, 'Product rejected')}
+              disabled={submitting}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white font-semibold rounded-lg transition-colors"
+            >
+              ✗ Reject
+            </button>
+            <button
+              onClick={() => submit({ action: 'note', note }, 'Note added')}
+              disabled={submitting || !note.trim()}
+              className="px-4 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 font-semibold rounded-lg transition-colors"
+            >
+              Add Note
+            </button>
+          </div>
+        </Section>
+
+        {/* Audit Trail */}
+        <Section title="Review History">
+          {auditTrail.length === 0 && <p className="text-sm text-gray-500">No review actions yet.</p>}
+          <ol className="space-y-2">
+            {auditTrail.map(entry => (
+              <li key={entry.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                <p className="text-gray-900">
+                  <span className="font-medium capitalize">{entry.action}</span>
+                  <span className="text-gray-500"> by {entry.reviewer_email || entry.reviewer_id} · {new Date(entry.created_at).toLocaleString()}</span>
+                </p>
+                {Object.entries(entry.changes || {}).map(([field, change]) => (
+                  <p key={field} className="text-xs text-gray-700">
+                    {field}: {formatValue(change.from)} → {formatValue(change.to)}
+                  </p>
+                ))}
+                {entry.merged_product_id && (
+                  <p className="text-xs text-gray-700">Merged <span className="font-mono">{entry.merged_product_id}</span></p>
+                )}
+                {entry.note && <p className="text-xs text-gray-600 italic">“{entry.note}”</p>}
+              </li>
+            ))}
+          </ol>
+        </Section>
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewItemPage() {
+  const { productId } = useParams<{ productId: string }>();
+
+  return (
+    <AuthGuard>
+      <ReviewItem productId={productId} />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * Duplicate Products Page
+ *
+ * Lists merge proposals from the duplicate detector. Reviewers merge the
+ * duplicate into the product to keep (moving its scans, error reports and
+ * store inventory) or dismiss the proposal.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import AuthGuard from '@/components/AuthGuard';
+import { useAuth } from '@/contexts/AuthContext';
+import { reviewRequest } from '@/lib/review/review-client';
+import type { MergeProposalItem } from '@/lib/duplicates/merge-proposal-service';
+import type { Product } from '@/lib/supabase/types';
+
+function ProductSummary({ label, product }: { label: string; product: Product }) {
+  return (
+    <div className="flex-1 bg-gray-50 rounded-lg p-3">
+      <p className="text-xs font-medium text-gray-500 uppercase mb-1">{label}</p>
+      <Link href={`/review/${product.id}`} className="font-bold text-gray-900 hover:text-blue-600">
+        {product.name}
+      </Link>
+      <p className="text-gray-600 text-sm">{product.brand}</p>
+      <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+        {product.size && <p>Size: {product.size}</p>}
+        <p className="font-mono">{product.barcode || 'No barcode'}</p>
+        <p>Created {new Date(product.created_at).toLocaleDateString()}</p>
+      </div>
+    </div>
+  );
+}
+
+function DuplicateProposals() {
+  const { session } = useAuth();
+  const [items, setItems] = useState<MergeProposalItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const token = session?.access_token;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    reviewRequest<{ items: MergeProposalItem[] }>('/api/review/duplicates', token)
+      .then(data => {
+        if (cancelled) return;
+        setItems(data.items);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, reloadCount]);
+
+  const resolve = async (item: MergeProposalItem, decision: 'merge' | 'dismiss') => {
+    if (!token) return;
+    setBusyId(item.proposal.id);
+    setError(null);
+
+    try {
+      if (decision === 'merge') {
+        await reviewRequest(`/api/review/${item.survivor.id}`, token, {
+          method: 'POST',
+          body: { action: 'merge', duplicateId: item.duplicate.id, note: `Merge proposal (score ${item.proposal.score})` },
+        });
+      } else {
+        await reviewRequest(`/api/review/duplicates/${item.proposal.id}`, token, { method: 'POST' });
+      }
+      setItems(current => (current || []).filter(other =>
+        other.proposal.id !== item.proposal.id &&
+        // A merged duplicate no longer exists, so its other proposals are gone too
+        (decision === 'dismiss' || ![other.survivor.id, other.duplicate.id].includes(item.duplicate.id))
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-24">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <h1 className="text-2xl font-bold text-gray-900">
+              🔀 Duplicate Products
+            </h1>
+            <button
+              onClick={() => setReloadCount(count => count + 1)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Refresh
+            </button>
+          </div>
+          <p className="text-gray-600 text-sm">
+            Likely duplicates found by name, brand, size and barcode
+          </p>
+          <Link href="/review" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Review Queue
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!items && !error && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading duplicates...</p>
+          </div>
+        )}
+
+        {/* Empty State */}
+        {items && items.length === 0 && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <span className="text-6xl mb-4 block">✅</span>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              No Duplicates
+            </h2>
+            <p className="text-gray-600">
+              No merge proposals are pending
+            </p>
+          </div>
+        )}
+
+        {/* Proposals */}
+        {items && items.length > 0 && (
+          <div className="space-y-3">
+            {items.map(item => (
+              <div key={item.proposal.id} className="bg-white rounded-lg shadow-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                    {Math.round(item.proposal.score * 100)}% match
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {item.proposal.reasons.join(' · ')}
+                  </span>
+                </div>
+
+                <div className="flex gap-3 mb-3">
+                  <ProductSummary label="Keep" product={item.survivor} />
+                  <ProductSummary label="Merge" product={item.duplicate} />
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => resolve(item, 'merge')}
+                    disabled={busyId !== null}
+                    className="flex-1 bg-blue-600 text-white py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {busyId === item.proposal.id ? 'Working...' : 'Merge'}
+                  </button>
+                  <button
+                    onClick={() => resolve(item, 'dismiss')}
+                    disabled={busyId !== null}
+                    className="flex-1 bg-gray-200 text-gray-800 py-2 rounded-lg font-medium hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Not Duplicates
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  return (
+    <AuthGuard>
+      <DuplicateProposals />
+    </AuthGuard>
+  );
+}
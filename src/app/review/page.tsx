@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * Review Queue Page
+ *
+ * Lists products flagged for review (by error reports or low-confidence
+ * merges) for reviewers. Selecting a product opens its review page.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import AuthGuard from '@/components/AuthGuard';
+import { useAuth } from '@/contexts/AuthContext';
+import { reviewRequest } from '@/lib/review/review-client';
+import type { ReviewQueueItem } from '@/lib/review/review-service';
+
+function ReviewQueue() {
+  const { session } = useAuth();
+  const [items, setItems] = useState<ReviewQueueItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const token = session?.access_token;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    reviewRequest<{ items: ReviewQueueItem[] }>('/api/review', token)
+      .then(data => {
+        if (cancelled) return;
+        setItems(data.items);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load review queue');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, reloadCount]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-24">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <h1 className="text-2xl font-bold text-gray-900">
+              🚩 Review Queue
+            </h1>
+            <button
+              onClick={() => setReloadCount(count => count + 1)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Refresh
+            </button>
+          </div>
+          <p className="text-gray-600 text-sm">
+            Products flagged by error reports or conflicting scans
+          </p>
+          <Link href="/review/duplicates" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            Duplicate products →
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!items && !error && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading review queue...</p>
+          </div>
+        )}
+
+        {/* Empty State */}
+        {items && items.length === 0 && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <span className="text-6xl mb-4 block">✅</span>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              Nothing to Review
+            </h2>
+            <p className="text-gray-600">
+              No products are flagged for review
+            </p>
+          </div>
+        )}
+
+        {/* Queue */}
+        {items && items.length > 0 && (
+          <div className="space-y-3">
+            {items.map(({ product, pendingReports, conflictCount }) => (
+              <Link
+                key={product.id}
+                href={`/review/${product.id}`}
+                className="block bg-white rounded-lg shadow-lg p-4 hover:shadow-xl transition-shadow"
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <div className="flex-1">
+                    <h3 className="font-bold text-gray-900 text-lg mb-1">
+                      {product.name}
+                    </h3>
+                    <p className="text-gray-600 text-sm">
+                      {product.brand}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {pendingReports > 0 && (
+                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        {pendingReports} report{pendingReports === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {conflictCount > 0 && (
+                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        {conflictCount} conflict{conflictCount === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-4">
+                    {product.barcode && (
+                      <span className="text-gray-500 font-mono">
+                        {product.barcode}
+                      </span>
+                    )}
+                    <span className="text-gray-400">
+                      Updated {new Date(product.updated_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <span className="text-blue-600 font-medium">
+                    Review →
+                  </span>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewPage() {
+  return (
+    <AuthGuard>
+      <ReviewQueue />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+/**
+ * Dietary Settings Page
+ *
+ * Edits the signed-in user's dietary profile: allergens, avoided
+ * ingredients, vegetarian/vegan, halal/kosher, sodium limit, diabetic
+ * targets and health score profile. Scan results show personalized alerts
+ * computed from it.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import AuthGuard from '@/components/AuthGuard';
+import { useAuth } from '@/contexts/AuthContext';
+import { ALLERGEN_KNOWLEDGE_BASE } from '@/lib/allergens/allergen-knowledge-base';
+import { DEFAULT_MAX_SODIUM_MG, DEFAULT_MAX_SUGAR_G } from '@/lib/dietary/dietary-limits';
+import { HEALTH_PROFILES, HEALTH_PROFILE_IDS, type HealthProfileId } from '@/lib/services/health-profiles';
+import type { DietType, ReligiousDiet, UserDietaryProfile } from '@/lib/supabase/types';
+
+const ALLERGEN_OPTIONS: Array<{ value: string; label: string; euOnly: boolean }> = ALLERGEN_KNOWLEDGE_BASE.map(entry => ({
+  value: entry.type,
+  label: entry.label,
+  euOnly: !entry.jurisdictions.includes('US'),
+}));
+
+const DIET_OPTIONS: Array<{ value: DietType; label: string }> = [
+  { value: 'omnivore', label: 'No restriction' },
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+];
+
+const RELIGIOUS_OPTIONS: Array<{ value: ReligiousDiet | ''; label: string }> = [
+  { value: '', label: 'None' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'kosher', label: 'Kosher' },
+];
+
+/**
+ * Parse an optional numeric limit input ("" = default)
+ */
+function limitValue(text: string): number | null {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+function DietarySettings() {
+  const { session } = useAuth();
+  const [profile, setProfile] = useState<UserDietaryProfile | null>(null);
+  const [avoidedText, setAvoidedText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const token = session?.access_token;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    fetch('/api/dietary-profile', { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load dietary profile');
+        return data.profile as UserDietaryProfile;
+      })
+      .then(loaded => {
+        if (cancelled) return;
+        setProfile(loaded);
+        setAvoidedText(loaded.avoided_ingredients.join(', '));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load dietary profile');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const update = (changes: Partial<UserDietaryProfile>) => {
+    setProfile(current => (current ? { ...current, ...changes } : current));
+    setSaved(false);
+  };
+
+  const toggleAllergen = (allergen: string) => {
+    if (!profile) return;
+    update({
+      allergens: profile.allergens.includes(allergen)
+        ? profile.allergens.filter(other => other !== allergen)
+        : [...profile.allergens, allergen],
+    });
+  };
+
+  const save = async () => {
+    if (!token || !profile) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/dietary-profile', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          allergens: profile.allergens,
+          avoided_ingredients: avoidedText.split(',').map(term => term.trim()).filter(Boolean),
+          diet: profile.diet,
+          religious_diet: profile.religious_diet,
+          low_sodium: profile.low_sodium,
+          max_sodium_mg: profile.max_sodium_mg,
+          diabetic: profile.diabetic,
+          max_sugar_g: profile.max_sugar_g,
+          max_carbs_g: profile.max_carbs_g,
+          health_profile: profile.health_profile,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save dietary profile');
+      }
+
+      setProfile(data.profile);
+      setAvoidedText(data.profile.avoided_ingredients.join(', '));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save dietary profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-24">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-4">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            🥗 Dietary Profile
+          </h1>
+          <p className="text-gray-600 text-sm mb-2">
+            Scan results warn you when a product contains something you avoid
+          </p>
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            ← Back to scanning
+          </Link>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!profile && !error && (
+          <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading dietary profile...</p>
+          </div>
+        )}
+
+        {profile && (
+          <div className="space-y-4">
+            {/* Allergens */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="font-bold text-gray-900 mb-3">Allergies</h2>
+              <div className="grid grid-cols-2 gap-2">
+                {ALLERGEN_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={profile.allergens.includes(option.value)}
+                      onChange={() => toggleAllergen(option.value)}
+                      className="h-4 w-4"
+                    />
+                    {option.label}
+                    {option.euOnly && <span className="text-xs text-gray-400">EU</span>}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Includes the US major allergens and the 14 allergens EU labels must declare (marked EU)
+              </p>
+            </div>
+
+            {/* Avoided Ingredients */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="font-bold text-gray-900 mb-1">Ingredients to Avoid</h2>
+              <p className="text-xs text-gray-500 mb-3">Separate with commas, e.g. palm oil, msg, sesame</p>
+              <input
+                type="text"
+                value={avoidedText}
+                onChange={event => {
+                  setAvoidedText(event.target.value);
+                  setSaved(false);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+            </div>
+
+            {/* Diet */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="font-bold text-gray-900 mb-3">Diet</h2>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-sm text-gray-700">
+                  Animal products
+                  <select
+                    value={profile.diet}
+                    onChange={event => update({ diet: event.target.value as DietType })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  >
+                    {DIET_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Religious
+                  <select
+                    value={profile.religious_diet || ''}
+                    onChange={event => update({ religious_diet: (event.target.value || null) as ReligiousDiet | null })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  >
+                    {RELIGIOUS_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {/* Health Targets */}
+            <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+              <h2 className="font-bold text-gray-900">Health Targets</h2>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-800 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={profile.low_sodium}
+                    onChange={event => update({ low_sodium: event.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  Low sodium
+                </label>
+                {profile.low_sodium && (
+                  <label className="block text-xs text-gray-600 ml-6">
+                    Max sodium per serving (mg)
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={String(DEFAULT_MAX_SODIUM_MG)}
+                      value={profile.max_sodium_mg ?? ''}
+                      onChange={event => update({ max_sodium_mg: limitValue(event.target.value) })}
+                      className="mt-1 block w-32 px-3 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                    />
+                  </label>
+                )}
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-gray-800 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={profile.diabetic}
+                    onChange={event => update({ diabetic: event.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  Diabetic
+                </label>
+                {profile.diabetic && (
+                  <div className="flex gap-4 ml-6">
+                    <label className="block text-xs text-gray-600">
+                      Max sugar per serving (g)
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder={String(DEFAULT_MAX_SUGAR_G)}
+                        value={profile.max_sugar_g ?? ''}
+                        onChange={event => update({ max_sugar_g: limitValue(event.target.value) })}
+                        className="mt-1 block w-32 px-3 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                      />
+                    </label>
+                    <label className="block text-xs text-gray-600">
+                      Max carbohydrates per serving (g)
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="No limit"
+                        value={profile.max_carbs_g ?? ''}
+                        onChange={event => update({ max_carbs_g: limitValue(event.target.value) })}
+                        className="mt-1 block w-32 px-3 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Health Score Profile */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="font-bold text-gray-900 mb-1">Health Score Profile</h2>
+              <p className="text-xs text-gray-500 mb-3">Thresholds and bonuses used for your health scores</p>
+              <select
+                value={profile.health_profile}
+                onChange={event => update({ health_profile: event.target.value as HealthProfileId })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+              >
+                {HEALTH_PROFILE_IDS.map(id => (
+                  <option key={id} value={id}>{HEALTH_PROFILES[id].name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-600 mt-2">{HEALTH_PROFILES[profile.health_profile]?.description}</p>
+            </div>
+
+            <button
+              onClick={save}
+              disabled={saving}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : saved ? '✅ Saved' : 'Save Profile'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  return (
+    <AuthGuard>
+      <DietarySettings />
+    </AuthGuard>
+  );
+}
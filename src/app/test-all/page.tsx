@@ -14,6 +14,9 @@
 
 import { useState, useEffect } from 'react';
 import ImageScanner from '@/components/ImageScanner';
+import DietaryAlerts from '@/components/DietaryAlerts';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DietaryAlert } from '@/lib/dietary/dietary-alerts';
 
 interface ExtractionStep {
   name: string;
@@ -51,6 +54,7 @@ interface AllergensDimensionResult {
   allergens_detected: {
     major_allergens: string[];
     other_allergens: string[];
+    may_contain_allergens?: string[];
     cross_contamination_warnings: string[];
     allergen_free_claims: string[];
   };
@@ -71,6 +75,7 @@ interface AllExtractionResult {
   healthDimension?: HealthDimensionResult;
   processingDimension?: ProcessingDimensionResult;
   allergensDimension?: AllergensDimensionResult;
+  dietaryAlerts?: DietaryAlert[];
   productId?: string;
   savedToDb: boolean;
   totalProcessingTime: number;
@@ -79,6 +84,7 @@ interface AllExtractionResult {
 }
 
 export default function TestAllPage() {
+  const { session } = useAuth();
   const [showScanner, setShowScanner] = useState(false);
   const [loading, setLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState<string>('');
@@ -247,10 +253,12 @@ export default function TestAllPage() {
       }
       
       // Call test API endpoint
+      // Signed-in users get alerts for their dietary profile
       const response = await fetch('/api/test-all-extraction', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(session ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
         },
         body: JSON.stringify(requestBody),
       });
@@ -273,6 +281,7 @@ export default function TestAllPage() {
         healthDimension: data.healthDimension,
         processingDimension: data.processingDimension,
         allergensDimension: data.allergensDimension,
+        dietaryAlerts: data.dietaryAlerts,
         productId: data.productId,
         savedToDb: data.savedToDb,
         totalProcessingTime: processingTime,
@@ -382,12 +391,20 @@ export default function TestAllPage() {
             <h1 className="text-2xl font-bold text-gray-900">
               🔬 AI Product Analysis
             </h1>
-            <button
-              onClick={() => window.location.href = '/history'}
-              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
-            >
-              📜 History
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => window.location.href = '/history'}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
+              >
+                📜 History
+              </button>
+              <button
+                onClick={() => window.location.href = '/settings'}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-lg transition-colors text-sm"
+              >
+                🥗 Diet
+              </button>
+            </div>
           </div>
         </div>
 
@@ -483,6 +500,9 @@ export default function TestAllPage() {
         {/* Results Display */}
         {result && (
           <div className="space-y-4">
+            {/* Personalized Dietary Alerts */}
+            {result.dietaryAlerts && <DietaryAlerts alerts={result.dietaryAlerts} />}
+
             {/* Summary Banner */}
             <div className="bg-white rounded-lg shadow-lg p-6">
               <div className="flex items-center justify-between mb-4">
@@ -892,6 +912,20 @@ export default function TestAllPage() {
                     </div>
                   )}
 
+                  {/* May Contain (precautionary labelling, not an ingredient) */}
+                  {(result.allergensDimension.allergens_detected.may_contain_allergens || []).length > 0 && (
+                    <div className="bg-yellow-50 rounded-lg p-4 mb-3">
+                      <p className="text-sm font-medium text-yellow-900 mb-3">May Contain</p>
+                      <div className="flex flex-wrap gap-2">
+                        {(result.allergensDimension.allergens_detected.may_contain_allergens || []).map((allergen, index) => (
+                          <span key={index} className="px-3 py-1 bg-yellow-200 text-yellow-900 rounded-full text-sm">
+                            {allergen}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Cross-Contamination Warnings */}
                   {result.allergensDimension.allergens_detected.cross_contamination_warnings.length > 0 && (
                     <div className="bg-yellow-50 rounded-lg p-4 mb-3">
@@ -4,12 +4,16 @@
  * Barcode Scanner Component
  * 
  * Captures images and detects barcodes using browser-based barcode detection.
+ * Browsers without the Barcode Detection API (Firefox, iOS Safari) decode
+ * locally in a Web Worker (lib/barcode) instead.
  * Falls back to image-based identification if no barcode is detected.
  * 
  * Requirements: 11.1, 11.2, 11.3, 11.4, 11.5, 11.6, 11.7, 1.2, 2.1
  */
 
 import { useState, useRef, useEffect } from 'react';
+import { DETECTOR_FORMAT_NAMES } from '@/lib/barcode/formats';
+import { LocalBarcodeDecoder } from '@/lib/barcode/local-barcode-decoder';
 
 // Browser Barcode Detection API types
 interface DetectedBarcode {
@@ -52,6 +56,7 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const barcodeDetectorRef = useRef<BarcodeDetector | null>(null);
+  const localDecoderRef = useRef<LocalBarcodeDecoder | null>(null);
 
   // Check if Barcode Detection API is supported
   useEffect(() => {
@@ -63,17 +68,7 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
           console.log('[Barcode Scanner] Supported formats:', formats);
           
           barcodeDetectorRef.current = new window.BarcodeDetector!({
-            formats: [
-              'upc_a',
-              'upc_e', 
-              'ean_8',
-              'ean_13',
-              'code_39',
-              'code_93',
-              'code_128',
-              'itf',
-              'qr_code',
-            ].filter(format => formats.includes(format)),
+            formats: Object.values(DETECTOR_FORMAT_NAMES).filter(format => formats.includes(format)),
           });
           
           setBarcodeDetectorSupported(true);
@@ -81,10 +76,12 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
         } catch (error) {
           console.warn('[Barcode Scanner] ⚠️ Barcode Detection API not fully supported:', error);
           setBarcodeDetectorSupported(false);
+          localDecoderRef.current = new LocalBarcodeDecoder();
         }
       } else {
-        console.warn('[Barcode Scanner] ⚠️ Barcode Detection API not available');
+        console.warn('[Barcode Scanner] ⚠️ Barcode Detection API not available, using local decoder');
         setBarcodeDetectorSupported(false);
+        localDecoderRef.current = new LocalBarcodeDecoder();
       }
     };
 
@@ -166,6 +163,26 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
     }
   };
 
+  // Report a detected barcode and close the scanner
+  const completeWithBarcode = (rawValue: string, imageBase64: string) => {
+    setDetectedBarcode(rawValue);
+
+    // Requirement 11.4: Provide haptic feedback
+    if ('vibrate' in navigator) {
+      navigator.vibrate(200);
+    }
+
+    // Stop camera and send barcode
+    stopCamera();
+
+    // Requirement 1.2: Send detected barcode to backend
+    onScanComplete({
+      barcode: rawValue,
+      image: imageBase64,
+      imageMimeType: 'image/jpeg',
+    });
+  };
+
   // Capture image and detect barcode
   const captureAndDetect = async () => {
     if (!videoRef.current || !canvasRef.current) return;
@@ -223,12 +240,6 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
             // Requirement 11.3: Highlight detected barcodes
             const barcode = barcodes[0];
             console.log('[Barcode Scanner] ✅ Barcode detected:', barcode.rawValue);
-            setDetectedBarcode(barcode.rawValue);
-
-            // Requirement 11.4: Provide haptic feedback
-            if ('vibrate' in navigator) {
-              navigator.vibrate(200);
-            }
 
             // Draw bounding box on canvas
             if (barcode.cornerPoints && barcode.cornerPoints.length === 4) {
@@ -243,22 +254,24 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
               context.stroke();
             }
 
-            // Stop camera and send barcode
-            stopCamera();
-            
-            // Requirement 1.2: Send detected barcode to backend
-            onScanComplete({
-              barcode: barcode.rawValue,
-              image: imageBase64,
-              imageMimeType: 'image/jpeg',
-            });
-            
+            completeWithBarcode(barcode.rawValue, imageBase64);
             return;
           }
         } catch (error) {
           console.warn('[Barcode Scanner] ⚠️ Barcode detection failed:', error);
           // Continue to image-based fallback
         }
+      } else if (localDecoderRef.current) {
+        console.log('[Barcode Scanner] 🔍 Decoding barcode locally...');
+
+        const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+        const barcode = await localDecoderRef.current.decode(frame);
+
+        if (barcode) {
+          console.log('[Barcode Scanner] ✅ Barcode decoded locally:', barcode.rawValue, `(${barcode.format})`);
+          completeWithBarcode(barcode.rawValue, imageBase64);
+          return;
+        }
       }
 
       // No barcode detected - fall back to image-based identification
@@ -285,6 +298,8 @@ export default function BarcodeScanner({ onScanComplete, onError, onClose, scanT
   useEffect(() => {
     return () => {
       cleanupCamera();
+      localDecoderRef.current?.terminate();
+      localDecoderRef.current = null;
     };
   }, []);
 
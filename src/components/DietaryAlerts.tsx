@@ -0,0 +1,59 @@
+/**
+ * DietaryAlerts Component
+ *
+ * Shows the personalized alerts computed from the user's dietary profile
+ * for a scanned product ("Contains peanuts, which you avoid"), with the
+ * ingredients that triggered each alert. Restriction violations are shown
+ * in red, uncertain ingredients and nutrient limits in yellow.
+ */
+
+import Link from 'next/link';
+import type { DietaryAlert } from '@/lib/dietary/dietary-alerts';
+
+interface DietaryAlertsProps {
+  alerts: DietaryAlert[];
+}
+
+export default function DietaryAlerts({ alerts }: DietaryAlertsProps) {
+  if (alerts.length === 0) {
+    return (
+      <div className="bg-green-50 border-2 border-green-300 rounded-lg p-4 mb-4">
+        <p className="font-bold text-green-900">✅ Matches your dietary profile</p>
+        <p className="text-sm text-green-800">
+          Nothing you avoid was found in the ingredients or nutrition facts
+        </p>
+      </div>
+    );
+  }
+
+  const hasDanger = alerts.some(alert => alert.severity === 'danger');
+
+  return (
+    <div className={`border-2 rounded-lg p-4 mb-4 ${hasDanger ? 'bg-red-50 border-red-400' : 'bg-yellow-50 border-yellow-400'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`font-bold text-lg ${hasDanger ? 'text-red-900' : 'text-yellow-900'}`}>
+          {hasDanger ? '⛔ Not suitable for you' : '⚠️ Check before eating'}
+        </h3>
+        <Link href="/settings" className="text-xs text-gray-600 hover:text-gray-900 underline">
+          Edit profile
+        </Link>
+      </div>
+
+      <ul className="space-y-2">
+        {alerts.map((alert, index) => (
+          <li
+            key={`${alert.kind}-${alert.label}-${index}`}
+            className={`rounded p-3 ${alert.severity === 'danger' ? 'bg-red-100 text-red-900' : 'bg-yellow-100 text-yellow-900'}`}
+          >
+            <p className="font-medium">{alert.message}</p>
+            {alert.ingredients.length > 0 && (
+              <p className="text-xs mt-1">
+                Found in: {alert.ingredients.join(', ')}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * FieldProvenancePanel Component
+ *
+ * Shows where each product field came from (capture type or scan tier,
+ * confidence, time) and, on request, every value observed for the field.
+ * Loads data from GET /api/products/:productId/provenance.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { FieldObservation, ProvenanceField, ProvenanceSource } from '@/lib/supabase/types';
+
+interface FieldHistoryEntry {
+  field: ProvenanceField;
+  value: unknown;
+  current: FieldObservation;
+  history: FieldObservation[];
+}
+
+interface FieldProvenancePanelProps {
+  productId: string;
+}
+
+const FIELD_LABELS: Record<ProvenanceField, string> = {
+  barcode: 'Barcode',
+  name: 'Product Name',
+  brand: 'Brand',
+  size: 'Size',
+  category: 'Category',
+  image_url: 'Image',
+  nutrition_data: 'Nutrition Facts',
+  health_score: 'Health Score',
+  has_allergens: 'Contains Allergens',
+  allergen_types: 'Allergens',
+  nova_group: 'NOVA Group',
+};
+
+const SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  barcode: '📊 Barcode image',
+  packaging: '📦 Packaging image',
+  nutrition_label: '🥗 Nutrition label',
+  tier_1: 'Tier 1 (database)',
+  tier_2: 'Tier 2 (packaging text)',
+  tier_3: 'Tier 3 (discovery)',
+  tier_4: 'Tier 4 (image analysis)',
+  user_correction: '✏️ User correction',
+  legacy: 'Earlier scan',
+};
+
+/**
+ * Short display form of a field value
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return 'Extracted table';
+  return String(value);
+}
+
+function formatObservation(observation: FieldObservation): string {
+  const source = SOURCE_LABELS[observation.source] || observation.source;
+  const tier = observation.tier ? ` · Tier ${observation.tier}` : '';
+  const confidence = `${Math.round(observation.confidence * 100)}%`;
+  return `${source}${tier} · ${confidence} · ${new Date(observation.timestamp).toLocaleString()}`;
+}
+
+export default function FieldProvenancePanel({ productId }: FieldProvenancePanelProps) {
+  const [fields, setFields] = useState<FieldHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<ProvenanceField | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/products/${encodeURIComponent(productId)}/provenance`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load field sources');
+        }
+        if (!cancelled) setFields(data.fields);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load field sources');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!fields) {
+    return <p className="text-sm text-gray-500">Loading field sources...</p>;
+  }
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-gray-500">No field sources recorded for this product yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {fields.map(entry => (
+        <div key={entry.field} className="bg-gray-50 rounded-lg p-3">
+          <button
+            type="button"
+            className="w-full text-left"
+            onClick={() => setExpanded(expanded === entry.field ? null : entry.field)}
+            aria-expanded={expanded === entry.field}
+          >
+            <p className="text-xs text-gray-600 mb-1">{FIELD_LABELS[entry.field]}:</p>
+            <p className="text-sm font-medium text-gray-900 break-words">{formatValue(entry.value)}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {formatObservation(entry.current)}
+              {entry.history.length > 1 && ` · ${entry.history.length} values seen`}
+            </p>
+          </button>
+
+          {expanded === entry.field && (
+            <ol className="mt-2 space-y-1 border-t pt-2">
+              {[...entry.history].reverse().map((observation, index) => (
+                <li key={index} className="text-xs text-gray-700">
+                  <span className={observation.accepted ? 'text-green-700' : 'text-gray-400'}>
+                    {observation.accepted ? '✓' : '✗'}
+                  </span>{' '}
+                  <span className="font-medium">{formatValue(observation.value)}</span>
+                  <span className="text-gray-500"> — {formatObservation(observation)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,14 +1,23 @@
+'use client';
+
 /**
  * IngredientListDisplay Component
  * 
  * Displays ingredient list with order preserved and highlights for allergens and additives.
  * Shows allergens in red, additives (preservatives, sweeteners, colors) in orange.
+ * Allergens are shown in three tiers: contains (red), may contain (yellow,
+ * from precautionary statements) and free from (green, from label claims).
+ * Compound ingredients are shown as a collapsible tree of sub-ingredients,
+ * expanded when a sub-ingredient is flagged.
  * 
  * Requirements: 7.3, 7.4, 7.5
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { IngredientList, ParsedIngredient } from '@/lib/services/ingredient-parser';
+import { getAllergenClass, type AllergenType } from '@/lib/allergens/allergen-knowledge-base';
+import { mayContainAllergens } from '@/lib/allergens/precautionary-labelling';
+import { ADDITIVE_CLASS_LABELS, type AdditiveMatch } from '@/lib/additives/additive-database';
 
 export interface IngredientListDisplayProps {
   /** Parsed ingredient list */
@@ -21,6 +30,31 @@ export interface IngredientListDisplayProps {
   className?: string;
 }
 
+/**
+ * Matched term when it differs from the allergen name, e.g. " (sodium caseinate)"
+ */
+function allergenEvidenceNote(ingredient: ParsedIngredient): string {
+  const evidence = ingredient.allergenEvidence;
+  if (!evidence || evidence.toLowerCase().startsWith(ingredient.allergenType?.replace('_', ' ') || '')) {
+    return '';
+  }
+  return ` (${evidence})`;
+}
+
+/**
+ * Additive name with its E-number, e.g. "Carrageenan (E407)"
+ */
+function additiveLabel(additive: AdditiveMatch): string {
+  return additive.eNumber ? `${additive.name} (${additive.eNumber})` : additive.name;
+}
+
+/**
+ * Whether an additive is shown as "of concern"
+ */
+function isAdditiveOfConcern(ingredient: ParsedIngredient): boolean {
+  return ingredient.additive?.concern === 'high' || ingredient.additive?.concern === 'moderate';
+}
+
 /**
  * Get ingredient badge based on flags
  */
@@ -32,7 +66,7 @@ function getIngredientBadge(ingredient: ParsedIngredient): {
   if (ingredient.isAllergen) {
     return {
       icon: '⚠️',
-      label: `Allergen: ${ingredient.allergenType?.replace('_', ' ')}`,
+      label: `Allergen: ${ingredient.allergenType?.replace('_', ' ')}${allergenEvidenceNote(ingredient)}`,
       color: 'bg-red-100 text-red-800 border-red-300',
     };
   }
@@ -40,7 +74,7 @@ function getIngredientBadge(ingredient: ParsedIngredient): {
   if (ingredient.isPreservative) {
     return {
       icon: '🧪',
-      label: `Preservative: ${ingredient.preservativeType?.replace('_', ' ')}`,
+      label: `Preservative: ${ingredient.preservativeType?.replace('_', ' ') ?? ingredient.additive?.name}`,
       color: 'bg-orange-100 text-orange-800 border-orange-300',
     };
   }
@@ -48,7 +82,7 @@ function getIngredientBadge(ingredient: ParsedIngredient): {
   if (ingredient.isSweetener) {
     return {
       icon: '🍬',
-      label: `Sweetener: ${ingredient.sweetenerType?.replace('_', ' ')}`,
+      label: `Sweetener: ${ingredient.sweetenerType?.replace('_', ' ') ?? ingredient.additive?.name}`,
       color: 'bg-orange-100 text-orange-800 border-orange-300',
     };
   }
@@ -61,6 +95,17 @@ function getIngredientBadge(ingredient: ParsedIngredient): {
     };
   }
   
+  if (ingredient.additive && isAdditiveOfConcern(ingredient)) {
+    const additive = ingredient.additive;
+    return {
+      icon: '⚗️',
+      label: `${ADDITIVE_CLASS_LABELS[additive.classes[0]]}: ${additiveLabel(additive)}, ${additive.concern} concern`,
+      color: additive.concern === 'high'
+        ? 'bg-orange-100 text-orange-800 border-orange-300'
+        : 'bg-yellow-100 text-yellow-800 border-yellow-300',
+    };
+  }
+  
   return null;
 }
 
@@ -79,6 +124,121 @@ function getIngredientTextColor(ingredient: ParsedIngredient): string {
   return 'text-gray-700';
 }
 
+/**
+ * Whether any sub-ingredient is flagged
+ */
+function hasFlaggedChild(ingredient: ParsedIngredient): boolean {
+  return (ingredient.children || []).some(child => getIngredientBadge(child) !== null || hasFlaggedChild(child));
+}
+
+/**
+ * Ingredient name with its declared percentage and flag badge
+ */
+function IngredientLabel({ ingredient }: { ingredient: ParsedIngredient }) {
+  const badge = getIngredientBadge(ingredient);
+  return (
+    <>
+      <span className={`text-sm ${getIngredientTextColor(ingredient)}`}>
+        {ingredient.name}
+      </span>
+      {ingredient.percentage !== undefined && (
+        <span className="text-xs text-gray-500">{ingredient.percentage}%</span>
+      )}
+      {badge && (
+        <span
+          className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs border ${badge.color}`}
+          title={badge.label}
+        >
+          {badge.icon}
+        </span>
+      )}
+    </>
+  );
+}
+
+/**
+ * Inline ingredient with its sub-ingredients in brackets, collapsible
+ */
+function IngredientTreeItem({ ingredient, isLast }: { ingredient: ParsedIngredient; isLast: boolean }) {
+  const children = ingredient.children || [];
+  const [expanded, setExpanded] = useState(() => hasFlaggedChild(ingredient));
+
+  return (
+    <div className="inline-flex flex-wrap items-center gap-1">
+      <IngredientLabel ingredient={ingredient} />
+      {children.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-blue-600 hover:text-blue-800"
+          aria-expanded={expanded}
+        >
+          {expanded ? '▾' : `▸ ${children.length}`}
+        </button>
+      )}
+      {children.length > 0 && expanded && (
+        <>
+          <span className="text-gray-400">(</span>
+          {children.map((child, index) => (
+            <IngredientTreeItem
+              key={`child-${index}-${child.name}`}
+              ingredient={child}
+              isLast={index === children.length - 1}
+            />
+          ))}
+          <span className="text-gray-400">)</span>
+        </>
+      )}
+      {!isLast && (
+        <span className="text-gray-400">,</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Detailed breakdown row, with sub-ingredients indented below
+ */
+function IngredientDetailRow({ ingredient, prefix }: { ingredient: ParsedIngredient; prefix: string }) {
+  const badge = getIngredientBadge(ingredient);
+  const number = `${prefix}${ingredient.position}`;
+
+  return (
+    <div className="text-sm p-2 rounded bg-gray-50">
+      <div className="flex items-start gap-2">
+        <span className="font-mono text-xs text-gray-500 mt-0.5">
+          {number}.
+        </span>
+        <div className="flex-1">
+          <p className={getIngredientTextColor(ingredient)}>
+            {ingredient.name}
+            {ingredient.percentage !== undefined && (
+              <span className="text-xs text-gray-500"> ({ingredient.percentage}%)</span>
+            )}
+          </p>
+          {badge && (
+            <p className="text-xs text-gray-600 mt-1">
+              {badge.icon} {badge.label}
+            </p>
+          )}
+        </div>
+      </div>
+      {ingredient.children && ingredient.children.length > 0 && (
+        <details className="ml-6 mt-1" open={hasFlaggedChild(ingredient)}>
+          <summary className="cursor-pointer text-xs text-gray-600 hover:text-gray-900">
+            {ingredient.children.length} sub-ingredients
+          </summary>
+          <div className="mt-1 space-y-1">
+            {ingredient.children.map((child, index) => (
+              <IngredientDetailRow key={`detail-${number}-${index}-${child.name}`} ingredient={child} prefix={`${number}.`} />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
+
 /**
  * IngredientListDisplay Component
  * 
@@ -90,10 +250,20 @@ export default function IngredientListDisplay({
   className = '',
 }: IngredientListDisplayProps) {
   const hasAllergens = ingredients.allergens.length > 0;
+  const containedTypes = ingredients.allergens.flatMap(allergen =>
+    allergen.allergenMatches?.map(match => match.type) ?? (allergen.allergenType ? [allergen.allergenType] : [])
+  );
+  const precautionary = ingredients.precautionary || [];
+  const mayContain: AllergenType[] = mayContainAllergens(precautionary, containedTypes);
+  const freeFrom = ingredients.freeFrom || [];
+  const otherAdditives = (ingredients.additives || []).filter(ingredient =>
+    !ingredient.isPreservative && !ingredient.isSweetener && !ingredient.isArtificialColor
+  );
   const hasAdditives = 
     ingredients.preservatives.length > 0 ||
     ingredients.sweeteners.length > 0 ||
-    ingredients.artificialColors.length > 0;
+    ingredients.artificialColors.length > 0 ||
+    otherAdditives.length > 0;
 
   return (
     <div className={`bg-white rounded-lg border-2 border-gray-200 ${className}`}>
@@ -111,29 +281,13 @@ export default function IngredientListDisplay({
       {/* Ingredient List */}
       <div className="px-4 py-3">
         <div className="flex flex-wrap gap-2">
-          {ingredients.ingredients.map((ingredient, index) => {
-            const badge = getIngredientBadge(ingredient);
-            const textColor = getIngredientTextColor(ingredient);
-            
-            return (
-              <div key={`ingredient-${index}-${ingredient.name}`} className="inline-flex items-center gap-1">
-                <span className={`text-sm ${textColor}`}>
-                  {ingredient.name}
-                </span>
-                {badge && (
-                  <span
-                    className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs border ${badge.color}`}
-                    title={badge.label}
-                  >
-                    {badge.icon}
-                  </span>
-                )}
-                {index < ingredients.ingredients.length - 1 && (
-                  <span className="text-gray-400">,</span>
-                )}
-              </div>
-            );
-          })}
+          {ingredients.ingredients.map((ingredient, index) => (
+            <IngredientTreeItem
+              key={`ingredient-${index}-${ingredient.name}`}
+              ingredient={ingredient}
+              isLast={index === ingredients.ingredients.length - 1}
+            />
+          ))}
         </div>
       </div>
 
@@ -150,6 +304,7 @@ export default function IngredientListDisplay({
                 {ingredients.allergens.map((allergen, index) => (
                   <span
                     key={`allergen-${index}-${allergen.name}`}
+                    title={allergen.allergenEvidence ? `Matched "${allergen.allergenEvidence}"` : undefined}
                     className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-300"
                   >
                     {allergen.allergenType?.replace('_', ' ')}
@@ -161,6 +316,65 @@ export default function IngredientListDisplay({
         </div>
       )}
 
+      {/* May Contain (precautionary labelling) */}
+      {precautionary.length > 0 && (
+        <div className="px-4 py-3 bg-yellow-50 border-t-2 border-yellow-200">
+          <div className="flex items-start gap-2">
+            <span className="text-lg">🔶</span>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-yellow-900">
+                May Contain
+              </p>
+              {mayContain.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {mayContain.map(type => (
+                    <span
+                      key={`may-contain-${type}`}
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 border border-yellow-300"
+                    >
+                      {getAllergenClass(type).label}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {(showDetails || mayContain.length === 0) && (
+                <ul className="mt-2 space-y-1">
+                  {precautionary.map((statement, index) => (
+                    <li key={`precautionary-${index}`} className="text-xs text-yellow-800">
+                      • {statement.text}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Free From Claims */}
+      {freeFrom.length > 0 && (
+        <div className="px-4 py-3 bg-green-50 border-t-2 border-green-200">
+          <div className="flex items-start gap-2">
+            <span className="text-lg">✅</span>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-green-900">
+                Free From
+              </p>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {freeFrom.map((claim, index) => (
+                  <span
+                    key={`free-from-${index}`}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-300"
+                  >
+                    {claim.text}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Additives Info */}
       {hasAdditives && (
         <div className="px-4 py-3 bg-orange-50 border-t-2 border-orange-200">
@@ -181,7 +395,7 @@ export default function IngredientListDisplay({
                           key={`preservative-${index}-${preservative.name}`}
                           className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800 border border-orange-300"
                         >
-                          {preservative.preservativeType?.replace('_', ' ')}
+                          {preservative.preservativeType?.replace('_', ' ') ?? preservative.additive?.name}
                         </span>
                       ))}
                     </div>
@@ -198,7 +412,7 @@ export default function IngredientListDisplay({
                           key={`sweetener-${index}-${sweetener.name}`}
                           className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800 border border-orange-300"
                         >
-                          {sweetener.sweetenerType?.replace('_', ' ')}
+                          {sweetener.sweetenerType?.replace('_', ' ') ?? sweetener.additive?.name}
                         </span>
                       ))}
                     </div>
@@ -221,6 +435,28 @@ export default function IngredientListDisplay({
                     </div>
                   </div>
                 )}
+
+                {/* Other Additives (emulsifiers, thickeners, flavor enhancers, ...) */}
+                {otherAdditives.length > 0 && (
+                  <div>
+                    <p className="text-xs font-medium text-orange-800">Other Additives:</p>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {otherAdditives.map((ingredient, index) => (
+                        <span
+                          key={`additive-${index}-${ingredient.name}`}
+                          title={`${ingredient.additive!.classes.map(additiveClass => ADDITIVE_CLASS_LABELS[additiveClass]).join(', ')}; ${ingredient.additive!.concern} concern`}
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs border ${
+                            isAdditiveOfConcern(ingredient)
+                              ? 'bg-orange-100 text-orange-800 border-orange-300'
+                              : 'bg-gray-100 text-gray-700 border-gray-300'
+                          }`}
+                        >
+                          {additiveLabel(ingredient.additive!)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -235,29 +471,9 @@ export default function IngredientListDisplay({
               View Detailed Breakdown
             </summary>
             <div className="mt-3 space-y-2">
-              {ingredients.ingredients.map((ingredient, index) => {
-                const badge = getIngredientBadge(ingredient);
-                return (
-                  <div
-                    key={`detail-${index}-${ingredient.name}-${ingredient.position}`}
-                    className="flex items-start gap-2 text-sm p-2 rounded bg-gray-50"
-                  >
-                    <span className="font-mono text-xs text-gray-500 mt-0.5">
-                      {ingredient.position}.
-                    </span>
-                    <div className="flex-1">
-                      <p className={getIngredientTextColor(ingredient)}>
-                        {ingredient.name}
-                      </p>
-                      {badge && (
-                        <p className="text-xs text-gray-600 mt-1">
-                          {badge.icon} {badge.label}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
+              {ingredients.ingredients.map((ingredient, index) => (
+                <IngredientDetailRow key={`detail-${index}-${ingredient.name}-${ingredient.position}`} ingredient={ingredient} prefix="" />
+              ))}
             </div>
           </details>
         </div>
@@ -0,0 +1,127 @@
+/**
+ * NutriScoreBadge Component
+ *
+ * Displays the Nutri-Score as the A-E strip with the product's grade
+ * highlighted, and optionally the points behind it.
+ */
+
+import React from 'react';
+import type { NutriScore, NutriScoreComponent, NutriScoreGrade } from '@/lib/services/nutri-score';
+
+export interface NutriScoreBadgeProps {
+  /** Nutri-Score result */
+  nutriScore: NutriScore;
+
+  /** Whether to show the points per nutrient */
+  showBreakdown?: boolean;
+
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const GRADES: NutriScoreGrade[] = ['A', 'B', 'C', 'D', 'E'];
+
+/**
+ * Get color classes for a grade
+ */
+function getGradeColor(grade: NutriScoreGrade): string {
+  switch (grade) {
+    case 'A':
+      return 'bg-green-700 text-white';
+    case 'B':
+      return 'bg-lime-500 text-white';
+    case 'C':
+      return 'bg-yellow-400 text-gray-900';
+    case 'D':
+      return 'bg-orange-500 text-white';
+    case 'E':
+      return 'bg-red-600 text-white';
+  }
+}
+
+/**
+ * Get category label
+ */
+function getCategoryLabel(nutriScore: NutriScore): string {
+  switch (nutriScore.category) {
+    case 'cheese':
+      return 'Cheese';
+    case 'fats':
+      return 'Fats, oils, nuts and seeds';
+    case 'beverage':
+      return 'Beverage';
+    case 'water':
+      return 'Water';
+    default:
+      return 'General food';
+  }
+}
+
+function ComponentRow({ item, sign }: { item: NutriScoreComponent; sign: '+' | '-' }) {
+  return (
+    <div className="flex justify-between text-xs text-gray-700">
+      <span>
+        {item.nutrient}
+        {item.unit && ` (${item.value}${item.unit === '%' ? '' : ' '}${item.unit})`}
+      </span>
+      <span className={sign === '+' ? 'text-green-700' : 'text-red-700'}>
+        {sign}{item.points}/{item.maxPoints}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * NutriScoreBadge Component
+ */
+export default function NutriScoreBadge({
+  nutriScore,
+  showBreakdown = false,
+  className = '',
+}: NutriScoreBadgeProps) {
+  return (
+    <div className={className}>
+      {/* A-E strip */}
+      <div
+        className="inline-flex items-center rounded-lg bg-gray-100 p-1 gap-0.5"
+        role="status"
+        aria-label={`Nutri-Score ${nutriScore.grade}`}
+      >
+        <span className="px-2 text-xs font-bold text-gray-700">NUTRI-SCORE</span>
+        {GRADES.map(grade => (
+          <span
+            key={grade}
+            className={`flex items-center justify-center font-bold rounded ${getGradeColor(grade)} ${
+              grade === nutriScore.grade ? 'w-9 h-9 text-xl shadow' : 'w-6 h-6 text-sm opacity-40'
+            }`}
+          >
+            {grade}
+          </span>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        {getCategoryLabel(nutriScore)} · per {nutriScore.basis} · score {nutriScore.score}
+      </p>
+
+      {/* Points per nutrient */}
+      {showBreakdown && (
+        <div className="mt-2 space-y-1">
+          {nutriScore.negative.map(item => (
+            <ComponentRow key={item.nutrient} item={item} sign="-" />
+          ))}
+          {nutriScore.positive
+            .filter(item => nutriScore.proteinCounted || item.nutrient !== 'Protein')
+            .map(item => (
+              <ComponentRow key={item.nutrient} item={item} sign="+" />
+            ))}
+          {!nutriScore.proteinCounted && (
+            <p className="text-xs text-gray-500">Protein not counted (high negative points)</p>
+          )}
+          {nutriScore.fruitVegLegumeEstimated && (
+            <p className="text-xs text-gray-500">Fruit, vegetable and legume share estimated from ingredient order</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
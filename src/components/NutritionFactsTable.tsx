@@ -2,13 +2,15 @@
  * NutritionFactsTable Component
  * 
  * Displays nutritional facts in a table format with confidence indicators.
- * Shows all nutritional values extracted from the label.
+ * Shows all nutritional values extracted from the label, per serving, per
+ * 100g/100ml or per container.
  * 
  * Requirements: 7.2, 8.4
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+import { normalizeNutritionalFacts, type NutritionBasis } from '@/lib/nutrition/nutrition-units';
 
 export interface NutritionFactsTableProps {
   /** Nutritional facts data */
@@ -20,6 +22,12 @@ export interface NutritionFactsTableProps {
   /** Confidence threshold for "uncertain" indicator (default: 0.8) */
   confidenceThreshold?: number;
   
+  /** Basis shown first (default: per serving) */
+  defaultBasis?: NutritionBasis;
+  
+  /** Product name or category, to convert household measures of solid foods to grams */
+  densityHint?: string;
+  
   /** Additional CSS classes */
   className?: string;
 }
@@ -31,6 +39,12 @@ function formatValue(value: number, unit: string): string {
   return `${value}${unit}`;
 }
 
+const BASIS_OPTIONS: Array<{ basis: NutritionBasis; label: string }> = [
+  { basis: 'serving', label: 'Per serving' },
+  { basis: 'per100', label: 'Per 100' },
+  { basis: 'container', label: 'Per container' },
+];
+
 /**
  * Get confidence indicator
  */
@@ -64,27 +78,67 @@ function getConfidenceIndicator(confidence: number, threshold: number): {
  * Displays nutritional facts in a structured table format.
  */
 export default function NutritionFactsTable({
-  facts,
+  facts: servingFacts,
   showConfidence = true,
   confidenceThreshold = 0.8,
+  defaultBasis = 'serving',
+  densityHint,
   className = '',
 }: NutritionFactsTableProps) {
+  const [basis, setBasis] = useState<NutritionBasis>(defaultBasis);
+  
+  const normalized =
+    normalizeNutritionalFacts(servingFacts, basis, densityHint) ||
+    normalizeNutritionalFacts(servingFacts, 'serving')!;
+  const facts = normalized.facts;
+  const per100Unit = normalizeNutritionalFacts(servingFacts, 'per100', densityHint)?.facts.servingSize.unit;
+
   return (
     <div className={`bg-white rounded-lg border-2 border-gray-200 ${className}`}>
       {/* Header */}
       <div className="bg-gray-50 px-4 py-3 border-b-2 border-gray-200">
         <h3 className="text-lg font-bold text-gray-900">Nutrition Facts</h3>
         <p className="text-sm text-gray-600 mt-1">
-          {facts.servingsPerContainer && `${facts.servingsPerContainer} servings per container`}
+          {servingFacts.servingsPerContainer && `${servingFacts.servingsPerContainer} servings per container`}
         </p>
         <p className="text-sm font-semibold text-gray-900">
-          Serving size: {formatValue(facts.servingSize.amount, facts.servingSize.unit)}
-          {showConfidence && getConfidenceIndicator(facts.servingSize.confidence, confidenceThreshold) && (
-            <span className={`ml-2 ${getConfidenceIndicator(facts.servingSize.confidence, confidenceThreshold)!.color}`}>
-              {getConfidenceIndicator(facts.servingSize.confidence, confidenceThreshold)!.icon}
+          Serving size: {formatValue(servingFacts.servingSize.amount, servingFacts.servingSize.unit)}
+          {showConfidence && getConfidenceIndicator(servingFacts.servingSize.confidence, confidenceThreshold) && (
+            <span className={`ml-2 ${getConfidenceIndicator(servingFacts.servingSize.confidence, confidenceThreshold)!.color}`}>
+              {getConfidenceIndicator(servingFacts.servingSize.confidence, confidenceThreshold)!.icon}
             </span>
           )}
         </p>
+        
+        {/* Basis toggle */}
+        <div className="mt-2 inline-flex rounded-lg border border-gray-300 overflow-hidden" role="group" aria-label="Nutrition basis">
+          {BASIS_OPTIONS.map(option => {
+            const available = normalizeNutritionalFacts(servingFacts, option.basis, densityHint) !== null;
+            const selected = normalized.basis === option.basis;
+            return (
+              <button
+                key={option.basis}
+                type="button"
+                onClick={() => setBasis(option.basis)}
+                disabled={!available}
+                aria-pressed={selected}
+                className={`px-3 py-1 text-xs font-medium ${
+                  selected
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white'
+                }`}
+              >
+                {option.basis === 'per100' ? `${option.label}${per100Unit || 'g'}` : option.label}
+              </button>
+            );
+          })}
+        </div>
+        {normalized.basis !== 'serving' && (
+          <p className="text-xs text-gray-600 mt-1">
+            Values {normalized.label}
+            {normalized.estimated && ' (estimated from a household measure)'}
+          </p>
+        )}
       </div>
 
       {/* Calories */}
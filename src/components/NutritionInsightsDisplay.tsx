@@ -2,16 +2,18 @@
  * NutritionInsightsDisplay Component
  * 
  * Main display component that integrates all nutrition analysis results.
- * Shows health score, nutritional facts, ingredients, allergen warnings, and explanations.
+ * Shows health score, Nutri-Score, nutritional facts, ingredients, allergen warnings, and explanations.
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5, 7.7
  */
 
 import React, { useState } from 'react';
 import HealthScoreBadge from './HealthScoreBadge';
+import NutriScoreBadge from './NutriScoreBadge';
 import NutritionFactsTable from './NutritionFactsTable';
 import IngredientListDisplay from './IngredientListDisplay';
 import type { NutritionScanResult } from '@/lib/orchestrator/NutritionOrchestrator';
+import { getHealthProfile } from '@/lib/services/health-profiles';
 
 export interface NutritionInsightsDisplayProps {
   /** Nutrition scan result */
@@ -84,6 +86,19 @@ export default function NutritionInsightsDisplay({
           size="large"
           showExplanation={true}
         />
+        {result.healthScore.profile && result.healthScore.profile !== 'default' && (
+          <p className="mt-2 text-xs text-gray-600">
+            Scored with the {getHealthProfile(result.healthScore.profile).name} profile
+          </p>
+        )}
+
+        {result.nutriScore && (
+          <NutriScoreBadge
+            nutriScore={result.nutriScore}
+            showBreakdown={expandedSections.scoreBreakdown}
+            className="mt-4"
+          />
+        )}
 
         {/* Score Breakdown */}
         <div className="mt-4">
@@ -119,6 +134,9 @@ export default function NutritionInsightsDisplay({
                     </span>
                   </div>
                   <p className="text-xs text-gray-600 mt-1">{factor.description}</p>
+                  {factor.rule && (
+                    <p className="text-xs text-gray-400 mt-1 font-mono">{factor.rule}</p>
+                  )}
                 </div>
               ))}
             </div>
@@ -186,6 +204,7 @@ export default function NutritionInsightsDisplay({
           <NutritionFactsTable
             facts={result.nutritionalFacts}
             showConfidence={true}
+            densityHint={result.productName}
           />
         )}
       </div>
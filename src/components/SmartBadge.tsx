@@ -4,12 +4,14 @@
  * Displays dimension analysis with color-coded visual indicator based on score.
  * Shows dimension icon, name, score, and explanation.
  * Supports loading state and locked indicator for unavailable dimensions.
+ * The processing badge also shows the locally computed NOVA group.
  * 
  * Requirements: 9.1, 9.2, 9.3, 9.4, 9.5, 9.6, 9.7
  */
 
 import { useState } from 'react';
 import { DimensionScore } from '@/lib/types/dimension-analysis';
+import type { NovaClassification, NovaGroup } from '@/lib/services/nova-classifier';
 
 export type DimensionName = 
   | 'health' 
@@ -23,6 +25,7 @@ interface SmartBadgeProps {
   score?: DimensionScore;
   loading?: boolean;
   locked?: boolean;
+  nova?: NovaClassification; // Shown on the processing badge
   onTap?: () => void;
 }
 
@@ -85,6 +88,21 @@ function getDimensionName(dimension: DimensionName): string {
   }
 }
 
+/**
+ * Color scheme for a NOVA group (1 = unprocessed, 4 = ultra-processed)
+ */
+function getNovaColor(group: NovaGroup): string {
+  switch (group) {
+    case 1:
+    case 2:
+      return 'bg-green-600 text-white';
+    case 3:
+      return 'bg-yellow-500 text-white';
+    case 4:
+      return 'bg-red-600 text-white';
+  }
+}
+
 /**
  * Convert score (0-100) to rating label
  */
@@ -101,12 +119,14 @@ export default function SmartBadge({
   score, 
   loading = false, 
   locked = false,
+  nova,
   onTap,
 }: SmartBadgeProps) {
   const [expanded, setExpanded] = useState(false);
   
   const icon = getDimensionIcon(dimension);
   const dimensionName = getDimensionName(dimension);
+  const novaMarkers = dimension === 'processing' ? nova?.markers || [] : [];
 
   // Requirement 9.5: Show loading state during analysis
   if (loading) {
@@ -214,10 +234,18 @@ export default function SmartBadge({
       </div>
 
       {/* Score and label - Requirement 9.1, 9.2 */}
-      <div className="mb-2">
+      <div className="mb-2 flex items-center gap-2">
         <span className="font-bold text-base">
           {scoreLabel} ({score.score}/100)
         </span>
+        {dimension === 'processing' && nova && (
+          <span
+            className={`${getNovaColor(nova.group)} px-2 py-0.5 rounded text-xs font-semibold`}
+            title={nova.explanation}
+          >
+            NOVA {nova.group} · {nova.label}
+          </span>
+        )}
       </div>
 
       {/* Explanation - Requirement 9.3 */}
@@ -239,8 +267,22 @@ export default function SmartBadge({
         </div>
       )}
 
+      {/* NOVA markers behind the processing group */}
+      {expanded && novaMarkers.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-current border-opacity-20">
+          <h4 className="font-semibold text-sm mb-2">NOVA {nova!.group} Markers:</h4>
+          <ul className="list-disc list-inside text-sm space-y-1">
+            {novaMarkers.map((marker, index) => (
+              <li key={index}>
+                {marker.ingredient} ({marker.reason})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Expand indicator */}
-      {score.keyFactors && score.keyFactors.length > 0 && (
+      {((score.keyFactors && score.keyFactors.length > 0) || novaMarkers.length > 0) && (
         <div className="text-center mt-2 text-xs opacity-60">
           {expanded ? '▲ Tap to collapse' : '▼ Tap for details'}
         </div>
@@ -7,7 +7,7 @@
  * Requirements: 5.5, 5.6, 5.7
  */
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import SmartBadge from '../SmartBadge';
 import { InsightCategory } from '@/lib/types';
 
@@ -332,4 +332,37 @@ describe('SmartBadge', () => {
       expect(heading).toHaveTextContent('Health');
     });
   });
+
+  describe('NOVA group on the processing badge', () => {
+    const score = {
+      score: 30,
+      explanation: 'Contains several additives',
+      keyFactors: [],
+      available: true,
+      locked: false,
+    };
+    const nova = {
+      group: 4 as const,
+      label: 'Ultra-processed food',
+      markers: [{ group: 4 as const, ingredient: 'soy lecithin', marker: 'Lecithins (E322)', reason: 'emulsifier' }],
+      explanation: 'NOVA 4 (ultra-processed food): emulsifier (Lecithins (E322))',
+    };
+
+    it('should show the NOVA group next to the score and its markers on tap', () => {
+      render(<SmartBadge dimension="processing" score={score} nova={nova} />);
+
+      expect(screen.getByText('NOVA 4 · Ultra-processed food')).toBeInTheDocument();
+      expect(screen.queryByText('soy lecithin (emulsifier)')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('article'));
+
+      expect(screen.getByText('soy lecithin (emulsifier)')).toBeInTheDocument();
+    });
+
+    it('should not show the NOVA group on other dimensions', () => {
+      render(<SmartBadge dimension="health" score={score} nova={nova} />);
+
+      expect(screen.queryByText(/NOVA 4/)).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,144 @@
+/**
+ * Tests for Perceptual Image Hashing Utility
+ * Validates the dHash bits, Hamming distance, band splitting, the distance
+ * threshold setting, and that re-exposed, recompressed photos hash alike
+ *
+ * @jest-environment node
+ */
+
+import sharp from 'sharp';
+import {
+  computePerceptualHash,
+  dHashFromPixels,
+  getPerceptualMaxDistance,
+  hammingDistance,
+  hashImageFingerprint,
+  MAX_INDEXED_DISTANCE,
+  perceptualHashBands,
+} from '../perceptualHash';
+
+/**
+ * Grayscale test image with a smooth pattern that varies by seed
+ */
+function patternPixels(width: number, height: number, seed: number): Buffer {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = Math.round(
+        127 + 60 * Math.sin((x * (seed + 2) + y * 3) / 37) + 60 * Math.cos((y * (seed + 1) - x) / 23)
+      );
+    }
+  }
+  return pixels;
+}
+
+async function jpegDataUrl(seed: number, options: { gain?: number; offset?: number; quality?: number } = {}): Promise<string> {
+  const buffer = await sharp(patternPixels(240, 160, seed), { raw: { width: 240, height: 160, channels: 1 } })
+    .linear(options.gain ?? 1, options.offset ?? 0)
+    .jpeg({ quality: options.quality ?? 90 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+}
+
+describe('Perceptual Image Hashing', () => {
+  describe('dHashFromPixels', () => {
+    it('sets a bit when a pixel is brighter than its right neighbour', () => {
+      // Row 0 decreasing (all bits set), every other row increasing (no bits)
+      const pixels = Array.from({ length: 72 }, (_, i) => (i < 9 ? 200 - i * 10 : i % 9));
+
+      expect(dHashFromPixels(pixels)).toBe('ff00000000000000');
+    });
+
+    it('ignores uniform brightness changes', () => {
+      const pixels = Array.from({ length: 72 }, (_, i) => (i * 37) % 101);
+      const brighter = pixels.map(value => value + 50);
+
+      expect(dHashFromPixels(brighter)).toBe(dHashFromPixels(pixels));
+    });
+
+    it('rejects too few pixels', () => {
+      expect(() => dHashFromPixels([1, 2, 3])).toThrow('Expected 72 pixels, got 3');
+    });
+  });
+
+  describe('hammingDistance', () => {
+    it('counts differing bits', () => {
+      expect(hammingDistance('ff00000000000000', 'ff00000000000000')).toBe(0);
+      expect(hammingDistance('ff00000000000000', '0f00000000000001')).toBe(5);
+      expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    });
+
+    it('rejects hashes of different lengths', () => {
+      expect(() => hammingDistance('ff', 'fff')).toThrow('different lengths');
+    });
+  });
+
+  describe('perceptualHashBands', () => {
+    it('splits a hash into position-tagged bytes', () => {
+      expect(perceptualHashBands('8f3c000000000001')).toEqual([
+        '0:8f', '1:3c', '2:00', '3:00', '4:00', '5:00', '6:00', '7:01',
+      ]);
+    });
+
+    it('shares a band between hashes within the indexed distance', () => {
+      // Worst case: one differing bit in each of 7 bands
+      const a = '0000000000000000';
+      const b = '0101010101010100';
+      const shared = perceptualHashBands(a).filter(band => perceptualHashBands(b).includes(band));
+
+      expect(hammingDistance(a, b)).toBe(MAX_INDEXED_DISTANCE);
+      expect(shared).toEqual(['7:00']);
+    });
+  });
+
+  describe('getPerceptualMaxDistance', () => {
+    const original = process.env.PERCEPTUAL_HASH_MAX_DISTANCE;
+
+    afterEach(() => {
+      if (original === undefined) delete process.env.PERCEPTUAL_HASH_MAX_DISTANCE;
+      else process.env.PERCEPTUAL_HASH_MAX_DISTANCE = original;
+    });
+
+    it('defaults, reads and clamps PERCEPTUAL_HASH_MAX_DISTANCE', () => {
+      delete process.env.PERCEPTUAL_HASH_MAX_DISTANCE;
+      expect(getPerceptualMaxDistance()).toBe(4);
+
+      process.env.PERCEPTUAL_HASH_MAX_DISTANCE = '2';
+      expect(getPerceptualMaxDistance()).toBe(2);
+
+      process.env.PERCEPTUAL_HASH_MAX_DISTANCE = '20';
+      expect(getPerceptualMaxDistance()).toBe(MAX_INDEXED_DISTANCE);
+
+      process.env.PERCEPTUAL_HASH_MAX_DISTANCE = 'off';
+      expect(getPerceptualMaxDistance()).toBe(4);
+    });
+  });
+
+  describe('computePerceptualHash', () => {
+    it('hashes a re-exposed, recompressed photo close to the original', async () => {
+      const original = await computePerceptualHash(await jpegDataUrl(1));
+      const retaken = await computePerceptualHash(await jpegDataUrl(1, { gain: 0.9, offset: 20, quality: 70 }));
+      const otherLabel = await computePerceptualHash(await jpegDataUrl(4));
+
+      expect(original).toMatch(/^[0-9a-f]{16}$/);
+      expect(hammingDistance(original!, retaken!)).toBeLessThanOrEqual(2);
+      expect(hammingDistance(original!, otherLabel!)).toBeGreaterThan(MAX_INDEXED_DISTANCE);
+    });
+
+    it('returns null for data that is not an image', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await computePerceptualHash('data:image/jpeg;base64,bm90IGFuIGltYWdl')).toBeNull();
+      warn.mockRestore();
+    });
+  });
+
+  describe('hashImageFingerprint', () => {
+    it('returns the SHA-256 and perceptual hash', async () => {
+      const fingerprint = await hashImageFingerprint(await jpegDataUrl(2));
+
+      expect(fingerprint.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(fingerprint.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+    });
+  });
+});
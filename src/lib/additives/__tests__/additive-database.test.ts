@@ -0,0 +1,46 @@
+/**
+ * Food Additive Database Tests
+ *
+ * Tests E-number and synonym resolution, specificity between E-number
+ * groups and their members, and the regulatory status and concern reported
+ * for each additive.
+ */
+
+import { ADDITIVE_DATABASE, classifyAdditives, findAdditive } from '../additive-database';
+
+describe('additive database', () => {
+  it('has one entry per E-number', () => {
+    const eNumbers = ADDITIVE_DATABASE.flatMap(entry => (entry.eNumber ? [entry.eNumber] : []));
+    expect(new Set(eNumbers).size).toBe(eNumbers.length);
+  });
+
+  it('resolves US names and synonyms to the E-number', () => {
+    expect(findAdditive('Red 40')).toMatchObject({ eNumber: 'E129', name: 'Allura red AC', classes: ['color'], concern: 'high' });
+    expect(findAdditive('MSG')).toMatchObject({ eNumber: 'E621', classes: ['flavor_enhancer'] });
+  });
+
+  it('resolves E-numbers in their written variants', () => {
+    expect(findAdditive('colour (E150d)')).toMatchObject({ eNumber: 'E150d', evidence: 'E150d' });
+    expect(findAdditive('caramel colour (e 150)')).toMatchObject({ eNumber: 'E150' });
+    expect(findAdditive('thickener (E-407)')).toMatchObject({ name: 'Carrageenan', evidence: 'E-407' });
+  });
+
+  it('reports regulatory status by region', () => {
+    expect(findAdditive('potassium bromate')?.status).toEqual({ EU: 'banned', US: 'approved' });
+  });
+
+  it('marks naturally derived additives', () => {
+    expect(findAdditive('curcumin')).toMatchObject({ natural: true, concern: 'none' });
+    expect(findAdditive('sodium nitrite')).toMatchObject({ natural: false, classes: ['preservative'] });
+  });
+
+  it('ignores ordinary ingredients', () => {
+    expect(findAdditive('wheat flour')).toBeUndefined();
+    expect(findAdditive('E. coli tested water')).toBeUndefined();
+  });
+
+  it('classifies a list once per additive', () => {
+    const additives = classifyAdditives(['water', 'carrageenan', 'sugar', 'thickener (E407)', 'citric acid']);
+    expect(additives.map(additive => additive.name)).toEqual(['Carrageenan', 'Citric acid']);
+  });
+});
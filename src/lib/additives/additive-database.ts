@@ -0,0 +1,315 @@
+/**
+ * Food Additive Database
+ *
+ * Bundled reference of food additives: E-number, name and synonyms (US
+ * color names, trade names), functional classes, regulatory status in the
+ * EU and US, and a concern level used by health scoring.
+ *
+ * Regulatory status:
+ * - approved: permitted in foods
+ * - restricted: permitted with conditions (EU "may have an adverse effect on
+ *   activity and attention in children" warning for the Southampton colors,
+ *   limited food categories, phase-out announced)
+ * - banned: not permitted in foods
+ *
+ * Concern level summarises evidence of health effects at permitted levels:
+ * none, low, moderate (limited evidence or intake concerns) and high
+ * (restricted or banned in a major market, or classified carcinogen risk).
+ *
+ * `natural` marks additives from natural sources (annatto, stevia, pectin);
+ * they are not counted as artificial preservatives, sweeteners or colors.
+ */
+
+import { eNumberPattern, termPattern } from '@/lib/utils/term-patterns';
+
+export type AdditiveClass =
+  | 'color' | 'preservative' | 'antioxidant' | 'sweetener' | 'emulsifier'
+  | 'thickener' | 'stabilizer' | 'gelling_agent' | 'flavor_enhancer' | 'flavoring'
+  | 'acidity_regulator' | 'raising_agent' | 'anti_caking_agent' | 'humectant'
+  | 'glazing_agent' | 'flour_treatment';
+
+export type AdditiveConcern = 'none' | 'low' | 'moderate' | 'high';
+
+export type AdditiveRegion = 'EU' | 'US';
+
+export type AdditiveStatus = 'approved' | 'restricted' | 'banned';
+
+/**
+ * Database entry for one additive
+ */
+export interface AdditiveEntry {
+  eNumber?: string; // Absent for US-only additives (Orange B, BVO)
+  name: string;
+  synonyms: string[];
+  classes: AdditiveClass[]; // Primary function first
+  status: Record<AdditiveRegion, AdditiveStatus>;
+  concern: AdditiveConcern;
+  natural?: boolean;
+}
+
+/**
+ * Additive resolved from an ingredient
+ */
+export interface AdditiveMatch {
+  eNumber?: string;
+  name: string;
+  classes: AdditiveClass[];
+  status: Record<AdditiveRegion, AdditiveStatus>;
+  concern: AdditiveConcern;
+  natural: boolean;
+  evidence: string; // Matched text as it appears in the ingredient
+}
+
+export const ADDITIVE_CLASS_LABELS: Record<AdditiveClass, string> = {
+  color: 'Color',
+  preservative: 'Preservative',
+  antioxidant: 'Antioxidant',
+  sweetener: 'Sweetener',
+  emulsifier: 'Emulsifier',
+  thickener: 'Thickener',
+  stabilizer: 'Stabilizer',
+  gelling_agent: 'Gelling agent',
+  flavor_enhancer: 'Flavor enhancer',
+  flavoring: 'Flavoring',
+  acidity_regulator: 'Acidity regulator',
+  raising_agent: 'Raising agent',
+  anti_caking_agent: 'Anti-caking agent',
+  humectant: 'Humectant',
+  glazing_agent: 'Glazing agent',
+  flour_treatment: 'Flour treatment agent',
+};
+
+const APPROVED: Record<AdditiveRegion, AdditiveStatus> = { EU: 'approved', US: 'approved' };
+const EU_WARNING: Record<AdditiveRegion, AdditiveStatus> = { EU: 'restricted', US: 'approved' };
+const EU_ONLY: Record<AdditiveRegion, AdditiveStatus> = { EU: 'approved', US: 'banned' };
+const US_ONLY: Record<AdditiveRegion, AdditiveStatus> = { EU: 'banned', US: 'approved' };
+
+export const ADDITIVE_DATABASE: AdditiveEntry[] = [
+  // Colors
+  { eNumber: 'E100', name: 'Curcumin', synonyms: ['curcumin'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E101', name: 'Riboflavin', synonyms: ['riboflavin'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E102', name: 'Tartrazine', synonyms: ['tartrazine', 'yellow 5', 'yellow no. 5', 'yellow #5', 'fd&c yellow 5'], classes: ['color'], status: EU_WARNING, concern: 'high' },
+  { eNumber: 'E104', name: 'Quinoline yellow', synonyms: ['quinoline yellow'], classes: ['color'], status: { EU: 'restricted', US: 'banned' }, concern: 'high' },
+  { eNumber: 'E110', name: 'Sunset yellow FCF', synonyms: ['sunset yellow', 'yellow 6', 'yellow no. 6', 'yellow #6', 'fd&c yellow 6'], classes: ['color'], status: EU_WARNING, concern: 'high' },
+  { eNumber: 'E120', name: 'Carmine', synonyms: ['carmine', 'cochineal', 'carminic acid'], classes: ['color'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E122', name: 'Azorubine', synonyms: ['azorubine', 'carmoisine'], classes: ['color'], status: { EU: 'restricted', US: 'banned' }, concern: 'high' },
+  { eNumber: 'E123', name: 'Amaranth', synonyms: ['amaranth dye'], classes: ['color'], status: { EU: 'restricted', US: 'banned' }, concern: 'high' },
+  { eNumber: 'E124', name: 'Ponceau 4R', synonyms: ['ponceau 4r', 'cochineal red a'], classes: ['color'], status: { EU: 'restricted', US: 'banned' }, concern: 'high' },
+  { eNumber: 'E127', name: 'Erythrosine', synonyms: ['erythrosine', 'red 3', 'red no. 3', 'red #3', 'fd&c red 3'], classes: ['color'], status: { EU: 'restricted', US: 'restricted' }, concern: 'high' },
+  { eNumber: 'E129', name: 'Allura red AC', synonyms: ['allura red', 'red 40', 'red no. 40', 'red #40', 'fd&c red 40'], classes: ['color'], status: EU_WARNING, concern: 'high' },
+  { eNumber: 'E131', name: 'Patent blue V', synonyms: ['patent blue'], classes: ['color'], status: EU_ONLY, concern: 'moderate' },
+  { eNumber: 'E132', name: 'Indigotine', synonyms: ['indigotine', 'indigo carmine', 'blue 2', 'blue no. 2', 'fd&c blue 2'], classes: ['color'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E133', name: 'Brilliant blue FCF', synonyms: ['brilliant blue', 'blue 1', 'blue no. 1', 'blue #1', 'fd&c blue 1'], classes: ['color'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E140', name: 'Chlorophylls', synonyms: ['chlorophyll'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E141', name: 'Copper chlorophyllin', synonyms: ['copper chlorophyllin', 'copper chlorophyll'], classes: ['color'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E143', name: 'Fast green FCF', synonyms: ['fast green', 'green 3', 'green no. 3', 'fd&c green 3'], classes: ['color'], status: US_ONLY, concern: 'moderate' },
+  { eNumber: 'E150', name: 'Caramel color', synonyms: ['caramel color', 'caramel colour', 'caramel coloring', 'caramel colouring'], classes: ['color'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E150a', name: 'Plain caramel', synonyms: ['plain caramel'], classes: ['color'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E150c', name: 'Ammonia caramel', synonyms: ['ammonia caramel'], classes: ['color'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E150d', name: 'Sulphite ammonia caramel', synonyms: ['sulphite ammonia caramel', 'sulfite ammonia caramel'], classes: ['color'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E151', name: 'Brilliant black BN', synonyms: ['brilliant black'], classes: ['color'], status: EU_ONLY, concern: 'moderate' },
+  { eNumber: 'E155', name: 'Brown HT', synonyms: ['brown ht'], classes: ['color'], status: EU_ONLY, concern: 'moderate' },
+  { eNumber: 'E160a', name: 'Carotenes', synonyms: ['beta-carotene', 'carotene'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E160b', name: 'Annatto', synonyms: ['annatto', 'bixin', 'norbixin'], classes: ['color'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E160c', name: 'Paprika extract', synonyms: ['paprika extract', 'paprika oleoresin', 'capsanthin'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E162', name: 'Beetroot red', synonyms: ['beetroot red', 'betanin'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E163', name: 'Anthocyanins', synonyms: ['anthocyanin'], classes: ['color'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E171', name: 'Titanium dioxide', synonyms: ['titanium dioxide'], classes: ['color'], status: US_ONLY, concern: 'high' },
+  { eNumber: 'E172', name: 'Iron oxides', synonyms: ['iron oxide'], classes: ['color'], status: APPROVED, concern: 'low' },
+  { name: 'Citrus Red 2', synonyms: ['citrus red 2', 'citrus red no. 2'], classes: ['color'], status: { EU: 'banned', US: 'restricted' }, concern: 'high' },
+  { name: 'Orange B', synonyms: ['orange b'], classes: ['color'], status: { EU: 'banned', US: 'restricted' }, concern: 'high' },
+
+  // Preservatives
+  { eNumber: 'E200', name: 'Sorbic acid', synonyms: ['sorbic acid'], classes: ['preservative'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E202', name: 'Potassium sorbate', synonyms: ['potassium sorbate'], classes: ['preservative'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E210', name: 'Benzoic acid', synonyms: ['benzoic acid'], classes: ['preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E211', name: 'Sodium benzoate', synonyms: ['sodium benzoate'], classes: ['preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E212', name: 'Potassium benzoate', synonyms: ['potassium benzoate'], classes: ['preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E220', name: 'Sulphur dioxide', synonyms: ['sulphur dioxide', 'sulfur dioxide'], classes: ['preservative', 'antioxidant'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E223', name: 'Sodium metabisulphite', synonyms: ['sodium metabisulphite', 'sodium metabisulfite'], classes: ['preservative', 'antioxidant'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E224', name: 'Potassium metabisulphite', synonyms: ['potassium metabisulphite', 'potassium metabisulfite'], classes: ['preservative', 'antioxidant'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E234', name: 'Nisin', synonyms: ['nisin'], classes: ['preservative'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E235', name: 'Natamycin', synonyms: ['natamycin'], classes: ['preservative'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E249', name: 'Potassium nitrite', synonyms: ['potassium nitrite'], classes: ['preservative'], status: APPROVED, concern: 'high' },
+  { eNumber: 'E250', name: 'Sodium nitrite', synonyms: ['sodium nitrite'], classes: ['preservative'], status: APPROVED, concern: 'high' },
+  { eNumber: 'E251', name: 'Sodium nitrate', synonyms: ['sodium nitrate'], classes: ['preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E252', name: 'Potassium nitrate', synonyms: ['potassium nitrate', 'saltpetre', 'saltpeter'], classes: ['preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E262', name: 'Sodium acetates', synonyms: ['sodium acetate', 'sodium diacetate'], classes: ['preservative', 'acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E280', name: 'Propionic acid', synonyms: ['propionic acid'], classes: ['preservative'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E281', name: 'Sodium propionate', synonyms: ['sodium propionate'], classes: ['preservative'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E282', name: 'Calcium propionate', synonyms: ['calcium propionate'], classes: ['preservative'], status: APPROVED, concern: 'low' },
+
+  // Antioxidants and acidity regulators
+  { eNumber: 'E270', name: 'Lactic acid', synonyms: ['lactic acid'], classes: ['acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E296', name: 'Malic acid', synonyms: ['malic acid'], classes: ['acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E300', name: 'Ascorbic acid', synonyms: ['ascorbic acid', 'vitamin c'], classes: ['antioxidant'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E301', name: 'Sodium ascorbate', synonyms: ['sodium ascorbate'], classes: ['antioxidant'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E306', name: 'Tocopherols', synonyms: ['tocopherol', 'mixed tocopherols', 'vitamin e'], classes: ['antioxidant'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E310', name: 'Propyl gallate', synonyms: ['propyl gallate'], classes: ['antioxidant'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E319', name: 'TBHQ', synonyms: ['tbhq', 'tertiary butylhydroquinone', 'tert-butylhydroquinone'], classes: ['antioxidant', 'preservative'], status: APPROVED, concern: 'high' },
+  { eNumber: 'E320', name: 'BHA', synonyms: ['bha', 'butylated hydroxyanisole'], classes: ['antioxidant', 'preservative'], status: APPROVED, concern: 'high' },
+  { eNumber: 'E321', name: 'BHT', synonyms: ['bht', 'butylated hydroxytoluene'], classes: ['antioxidant', 'preservative'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E325', name: 'Sodium lactate', synonyms: ['sodium lactate'], classes: ['acidity_regulator', 'humectant'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E330', name: 'Citric acid', synonyms: ['citric acid'], classes: ['acidity_regulator', 'antioxidant'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E331', name: 'Sodium citrates', synonyms: ['sodium citrate', 'trisodium citrate'], classes: ['acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E332', name: 'Potassium citrates', synonyms: ['potassium citrate'], classes: ['acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E334', name: 'Tartaric acid', synonyms: ['tartaric acid'], classes: ['acidity_regulator'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E338', name: 'Phosphoric acid', synonyms: ['phosphoric acid', 'orthophosphoric acid'], classes: ['acidity_regulator'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E339', name: 'Sodium phosphates', synonyms: ['sodium phosphate', 'disodium phosphate', 'trisodium phosphate'], classes: ['acidity_regulator', 'emulsifier'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E340', name: 'Potassium phosphates', synonyms: ['potassium phosphate', 'dipotassium phosphate'], classes: ['acidity_regulator', 'emulsifier'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E341', name: 'Calcium phosphates', synonyms: ['calcium phosphate', 'tricalcium phosphate', 'monocalcium phosphate'], classes: ['acidity_regulator', 'anti_caking_agent'], status: APPROVED, concern: 'low' },
+
+  // Emulsifiers
+  { eNumber: 'E322', name: 'Lecithins', synonyms: ['lecithin', 'soy lecithin', 'soya lecithin', 'sunflower lecithin'], classes: ['emulsifier'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E433', name: 'Polysorbate 80', synonyms: ['polysorbate 80'], classes: ['emulsifier'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E435', name: 'Polysorbate 60', synonyms: ['polysorbate 60'], classes: ['emulsifier'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E471', name: 'Mono- and diglycerides of fatty acids', synonyms: ['mono and diglycerides', 'mono- and diglycerides', 'monoglycerides', 'diglycerides'], classes: ['emulsifier'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E472e', name: 'DATEM', synonyms: ['datem', 'diacetyl tartaric acid esters of mono- and diglycerides'], classes: ['emulsifier'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E476', name: 'Polyglycerol polyricinoleate', synonyms: ['pgpr', 'polyglycerol polyricinoleate'], classes: ['emulsifier'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E481', name: 'Sodium stearoyl lactylate', synonyms: ['sodium stearoyl lactylate', 'sodium stearoyl-2-lactylate'], classes: ['emulsifier'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E482', name: 'Calcium stearoyl lactylate', synonyms: ['calcium stearoyl lactylate', 'calcium stearoyl-2-lactylate'], classes: ['emulsifier'], status: APPROVED, concern: 'low' },
+  { name: 'Brominated vegetable oil', synonyms: ['brominated vegetable oil', 'bvo'], classes: ['emulsifier', 'stabilizer'], status: { EU: 'banned', US: 'banned' }, concern: 'high' },
+
+  // Thickeners, stabilizers and gelling agents
+  { eNumber: 'E401', name: 'Sodium alginate', synonyms: ['sodium alginate', 'alginate'], classes: ['thickener', 'gelling_agent'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E406', name: 'Agar', synonyms: ['agar', 'agar-agar'], classes: ['gelling_agent', 'thickener'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E407', name: 'Carrageenan', synonyms: ['carrageenan'], classes: ['thickener', 'stabilizer', 'gelling_agent'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E410', name: 'Locust bean gum', synonyms: ['locust bean gum', 'carob bean gum'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E412', name: 'Guar gum', synonyms: ['guar gum'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E414', name: 'Gum arabic', synonyms: ['gum arabic', 'acacia gum', 'gum acacia'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E415', name: 'Xanthan gum', synonyms: ['xanthan gum', 'xanthan'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E417', name: 'Tara gum', synonyms: ['tara gum'], classes: ['thickener'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E418', name: 'Gellan gum', synonyms: ['gellan gum'], classes: ['gelling_agent', 'stabilizer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E440', name: 'Pectins', synonyms: ['pectin'], classes: ['gelling_agent', 'thickener'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E460', name: 'Cellulose', synonyms: ['microcrystalline cellulose', 'powdered cellulose', 'cellulose'], classes: ['anti_caking_agent', 'thickener'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E464', name: 'Hydroxypropyl methyl cellulose', synonyms: ['hydroxypropyl methylcellulose', 'hypromellose', 'hpmc'], classes: ['thickener', 'emulsifier'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E466', name: 'Carboxymethyl cellulose', synonyms: ['cellulose gum', 'carboxymethyl cellulose', 'carboxymethylcellulose', 'sodium carboxymethyl cellulose'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E1422', name: 'Acetylated distarch adipate', synonyms: ['acetylated distarch adipate'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E1442', name: 'Hydroxypropyl distarch phosphate', synonyms: ['hydroxypropyl distarch phosphate'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'low' },
+  { name: 'Modified starch', synonyms: ['modified starch', 'modified food starch', 'modified corn starch', 'modified maize starch', 'modified tapioca starch', 'modified potato starch'], classes: ['thickener', 'stabilizer'], status: APPROVED, concern: 'low' },
+
+  // Flavor enhancers and flavorings
+  { eNumber: 'E620', name: 'Glutamic acid', synonyms: ['glutamic acid'], classes: ['flavor_enhancer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E621', name: 'Monosodium glutamate', synonyms: ['monosodium glutamate', 'msg'], classes: ['flavor_enhancer'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E627', name: 'Disodium guanylate', synonyms: ['disodium guanylate'], classes: ['flavor_enhancer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E631', name: 'Disodium inosinate', synonyms: ['disodium inosinate'], classes: ['flavor_enhancer'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E635', name: "Disodium 5'-ribonucleotides", synonyms: ['disodium ribonucleotides', "disodium 5'-ribonucleotides"], classes: ['flavor_enhancer'], status: APPROVED, concern: 'low' },
+  { name: 'Artificial flavor', synonyms: ['artificial flavor', 'artificial flavour', 'artificial flavoring', 'artificial flavouring'], classes: ['flavoring'], status: APPROVED, concern: 'low' },
+
+  // Sweeteners
+  { eNumber: 'E420', name: 'Sorbitol', synonyms: ['sorbitol'], classes: ['sweetener', 'humectant'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E421', name: 'Mannitol', synonyms: ['mannitol'], classes: ['sweetener'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E950', name: 'Acesulfame K', synonyms: ['acesulfame potassium', 'acesulfame k', 'acesulfame-k', 'ace-k'], classes: ['sweetener'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E951', name: 'Aspartame', synonyms: ['aspartame'], classes: ['sweetener'], status: APPROVED, concern: 'high' },
+  { eNumber: 'E952', name: 'Cyclamate', synonyms: ['cyclamate', 'sodium cyclamate', 'cyclamic acid'], classes: ['sweetener'], status: EU_ONLY, concern: 'high' },
+  { eNumber: 'E954', name: 'Saccharin', synonyms: ['saccharin', 'sodium saccharin'], classes: ['sweetener'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E955', name: 'Sucralose', synonyms: ['sucralose', 'splenda'], classes: ['sweetener'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E960', name: 'Steviol glycosides', synonyms: ['steviol glycosides', 'stevia', 'stevia extract', 'rebaudioside a'], classes: ['sweetener'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E961', name: 'Neotame', synonyms: ['neotame'], classes: ['sweetener'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E965', name: 'Maltitol', synonyms: ['maltitol'], classes: ['sweetener', 'humectant'], status: APPROVED, concern: 'low', natural: true },
+  { eNumber: 'E967', name: 'Xylitol', synonyms: ['xylitol'], classes: ['sweetener'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E968', name: 'Erythritol', synonyms: ['erythritol'], classes: ['sweetener'], status: APPROVED, concern: 'low', natural: true },
+
+  // Raising agents, anti-caking agents, humectants
+  { eNumber: 'E450', name: 'Diphosphates', synonyms: ['sodium acid pyrophosphate', 'disodium diphosphate', 'sodium pyrophosphate', 'tetrasodium pyrophosphate'], classes: ['raising_agent', 'acidity_regulator'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E500', name: 'Sodium carbonates', synonyms: ['sodium bicarbonate', 'sodium hydrogen carbonate', 'baking soda', 'bicarbonate of soda'], classes: ['raising_agent'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E503', name: 'Ammonium carbonates', synonyms: ['ammonium bicarbonate', 'ammonium carbonate'], classes: ['raising_agent'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E541', name: 'Sodium aluminium phosphate', synonyms: ['sodium aluminium phosphate', 'sodium aluminum phosphate'], classes: ['raising_agent'], status: { EU: 'restricted', US: 'approved' }, concern: 'moderate' },
+  { eNumber: 'E551', name: 'Silicon dioxide', synonyms: ['silicon dioxide', 'silica'], classes: ['anti_caking_agent'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E552', name: 'Calcium silicate', synonyms: ['calcium silicate'], classes: ['anti_caking_agent'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E554', name: 'Sodium aluminium silicate', synonyms: ['sodium aluminium silicate', 'sodium aluminosilicate'], classes: ['anti_caking_agent'], status: APPROVED, concern: 'moderate' },
+  { eNumber: 'E536', name: 'Potassium ferrocyanide', synonyms: ['potassium ferrocyanide'], classes: ['anti_caking_agent'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E422', name: 'Glycerol', synonyms: ['glycerol', 'glycerin', 'glycerine'], classes: ['humectant'], status: APPROVED, concern: 'none' },
+  { eNumber: 'E1520', name: 'Propylene glycol', synonyms: ['propylene glycol'], classes: ['humectant'], status: APPROVED, concern: 'low' },
+
+  // Glazing agents and flour treatment agents
+  { eNumber: 'E901', name: 'Beeswax', synonyms: ['beeswax'], classes: ['glazing_agent'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E903', name: 'Carnauba wax', synonyms: ['carnauba wax'], classes: ['glazing_agent'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E904', name: 'Shellac', synonyms: ['shellac', "confectioner's glaze"], classes: ['glazing_agent'], status: APPROVED, concern: 'none', natural: true },
+  { eNumber: 'E920', name: 'L-cysteine', synonyms: ['l-cysteine', 'cysteine'], classes: ['flour_treatment'], status: APPROVED, concern: 'low' },
+  { eNumber: 'E924', name: 'Potassium bromate', synonyms: ['potassium bromate', 'bromated flour'], classes: ['flour_treatment'], status: US_ONLY, concern: 'high' },
+  { eNumber: 'E927a', name: 'Azodicarbonamide', synonyms: ['azodicarbonamide'], classes: ['flour_treatment'], status: US_ONLY, concern: 'high' },
+];
+
+interface CompiledAdditive {
+  entry: AdditiveEntry;
+  pattern: RegExp;
+}
+
+/**
+ * One pattern per additive; longer alternatives first so the evidence is the
+ * most specific name
+ */
+const COMPILED_ADDITIVES: CompiledAdditive[] = ADDITIVE_DATABASE.map(entry => {
+  const alternatives = [
+    ...entry.synonyms.map(termPattern),
+    ...(entry.eNumber ? [eNumberPattern(entry.eNumber)] : []),
+  ].sort((a, b) => b.length - a.length);
+
+  // Synonyms may start or end with punctuation ("fd&c", "5'"), so bound on
+  // non-word neighbours rather than \b
+  return { entry, pattern: new RegExp(`(?<![\\w])(?:${alternatives.join('|')})(?![\\w])`, 'i') };
+});
+
+/**
+ * Whether the matched text is exactly the entry's E-number ("E150d" is
+ * E150d, not the E150 caramel group)
+ */
+function isExactENumber(entry: AdditiveEntry, evidence: string): boolean {
+  return !!entry.eNumber && evidence.replace(/[\s-]/g, '').toUpperCase() === entry.eNumber.toUpperCase();
+}
+
+function toMatch(entry: AdditiveEntry, evidence: string): AdditiveMatch {
+  return {
+    eNumber: entry.eNumber,
+    name: entry.name,
+    classes: entry.classes,
+    status: entry.status,
+    concern: entry.concern,
+    natural: !!entry.natural,
+    evidence,
+  };
+}
+
+/**
+ * Resolve an ingredient against the additive database
+ *
+ * @param ingredient - Ingredient name, e.g. "Sodium nitrite" or "colour (E150d)"
+ * @returns The most specific additive named, or undefined
+ */
+export function findAdditive(ingredient: string): AdditiveMatch | undefined {
+  let best: { entry: AdditiveEntry; evidence: string } | undefined;
+
+  for (const { entry, pattern } of COMPILED_ADDITIVES) {
+    const match = ingredient.match(pattern);
+    if (!match) continue;
+
+    const evidence = match[0];
+    if (
+      !best ||
+      evidence.length > best.evidence.length ||
+      (evidence.length === best.evidence.length && isExactENumber(entry, evidence))
+    ) {
+      best = { entry, evidence };
+    }
+  }
+
+  return best ? toMatch(best.entry, best.evidence) : undefined;
+}
+
+/**
+ * Resolve a list of ingredients, one match per additive
+ *
+ * @param ingredients - Ingredient names
+ * @returns Additives found, in ingredient order
+ */
+export function classifyAdditives(ingredients: string[]): AdditiveMatch[] {
+  const additives = new Map<string, AdditiveMatch>();
+  for (const ingredient of ingredients) {
+    const additive = findAdditive(ingredient);
+    if (additive && !additives.has(additive.name)) {
+      additives.set(additive.name, additive);
+    }
+  }
+  return [...additives.values()];
+}
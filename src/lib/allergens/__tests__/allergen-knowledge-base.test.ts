@@ -0,0 +1,54 @@
+/**
+ * Allergen Knowledge Base Tests
+ *
+ * Tests synonym, derived-ingredient and E-number matching, exclusions,
+ * jurisdiction filtering and the evidence reported for each allergen.
+ */
+
+import { ALLERGEN_TYPES, findAllergens } from '../allergen-knowledge-base';
+
+const typesOf = (ingredient: string) => findAllergens(ingredient).map(match => match.type);
+
+describe('allergen knowledge base', () => {
+  it('covers the US major allergens and the EU 14', () => {
+    expect(ALLERGEN_TYPES).toEqual(expect.arrayContaining([
+      'milk', 'eggs', 'fish', 'shellfish', 'tree_nuts', 'peanuts', 'wheat', 'soybeans',
+      'sesame', 'gluten_cereals', 'molluscs', 'mustard', 'celery', 'lupin', 'sulphites',
+    ]));
+  });
+
+  it('detects derived ingredients and reports the matched evidence', () => {
+    expect(findAllergens('Sodium Caseinate')).toEqual([
+      { type: 'milk', evidence: 'Sodium Caseinate', jurisdictions: ['US', 'EU'] },
+    ]);
+    expect(findAllergens('tahini')[0]).toMatchObject({ type: 'sesame', evidence: 'tahini' });
+    expect(findAllergens('oyster sauce')[0]).toMatchObject({ type: 'molluscs', evidence: 'oyster sauce' });
+  });
+
+  it('maps one ingredient to every allergen it comes from', () => {
+    expect(typesOf('hydrolyzed vegetable protein')).toEqual(['wheat', 'soybeans']);
+    expect(typesOf('barley malt extract')).toEqual(['gluten_cereals']);
+  });
+
+  it('detects E-numbers in their written variants', () => {
+    expect(findAllergens('preservative (E220)')[0]).toMatchObject({ type: 'sulphites', evidence: 'E220' });
+    expect(findAllergens('sodium metabisulphite (e 223)')[0]).toMatchObject({ type: 'sulphites', evidence: 'metabisulphite' });
+    expect(typesOf('lysozyme (E-1105)')).toEqual(['eggs']);
+  });
+
+  it('ignores names that only look like an allergen', () => {
+    expect(typesOf('coconut milk')).toEqual([]);
+    expect(typesOf('cocoa butter')).toEqual([]);
+    expect(typesOf('nutmeg')).toEqual([]);
+    expect(typesOf('eggplant')).toEqual([]);
+    expect(typesOf('rice flour')).toEqual([]);
+    expect(typesOf('oyster mushrooms')).toEqual([]);
+    expect(typesOf('peanut butter')).toEqual(['peanuts']);
+  });
+
+  it('filters allergen classes by jurisdiction', () => {
+    expect(typesOf('mustard seeds, celery, mussels')).toEqual(['molluscs', 'mustard', 'celery']);
+    expect(findAllergens('mustard seeds, celery, mussels', 'US')).toEqual([]);
+    expect(findAllergens('sesame seeds', 'US')[0]).toMatchObject({ type: 'sesame', jurisdictions: ['US', 'EU'] });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Precautionary Allergen Labelling Tests
+ *
+ * Tests that "may contain" statements and free-from claims are split out of
+ * ingredient text, with the allergens each one names.
+ */
+
+import { extractAllergenStatements, mayContainAllergens } from '../precautionary-labelling';
+
+describe('extractAllergenStatements', () => {
+  it('splits "may contain" statements out of the ingredient list', () => {
+    const result = extractAllergenStatements('Sugar, cocoa butter, milk powder. May contain traces of peanuts, tree nuts and soy.');
+
+    expect(result.ingredientText).toBe('Sugar, cocoa butter, milk powder.');
+    expect(result.precautionary).toEqual([
+      { kind: 'may_contain', text: 'May contain traces of peanuts, tree nuts and soy', allergens: ['tree_nuts', 'peanuts', 'soybeans'] },
+    ]);
+  });
+
+  it('recognises facility and shared equipment statements', () => {
+    const result = extractAllergenStatements(
+      'Oats, honey\nMade in a facility that also processes wheat and sesame. Produced on shared equipment with milk.'
+    );
+
+    expect(result.ingredientText).toBe('Oats, honey');
+    expect(result.precautionary.map(statement => [statement.kind, statement.allergens])).toEqual([
+      ['facility', ['wheat', 'sesame']],
+      ['shared_equipment', ['milk']],
+    ]);
+  });
+
+  it('ends a statement written at the end of the list without a full stop', () => {
+    const result = extractAllergenStatements('rice, salt, may contain milk');
+
+    expect(result.ingredientText).toBe('rice, salt');
+    expect(result.precautionary[0].allergens).toEqual(['milk']);
+  });
+
+  it('extracts free-from claims with the allergens they rule out', () => {
+    const result = extractAllergenStatements('Rice flour, sugar, Gluten-free & dairy-free. Free from nuts.');
+
+    expect(result.ingredientText).toBe('Rice flour, sugar');
+    expect(result.freeFrom).toEqual([
+      { text: 'Gluten-free & dairy-free', allergens: ['milk', 'wheat', 'gluten_cereals'] },
+      { text: 'Free from nuts', allergens: ['tree_nuts', 'peanuts'] },
+    ]);
+  });
+
+  it('does not treat a lactose-free claim as milk-free', () => {
+    expect(extractAllergenStatements('Milk, lactase enzyme. Lactose-free').freeFrom).toEqual([
+      { text: 'Lactose-free', allergens: [] },
+    ]);
+  });
+
+  it('leaves plain ingredient lists unchanged', () => {
+    const text = 'Water, tomatoes, salt, gluten-free oats';
+    expect(extractAllergenStatements(text)).toEqual({ ingredientText: text, precautionary: [], freeFrom: [] });
+  });
+});
+
+describe('mayContainAllergens', () => {
+  it('omits allergens the product already contains', () => {
+    const { precautionary } = extractAllergenStatements('May contain milk, eggs and sesame.');
+    expect(mayContainAllergens(precautionary, ['milk'])).toEqual(['eggs', 'sesame']);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Allergen Knowledge Base
+ *
+ * Maps ingredient names, synonyms, derived ingredients and E-numbers to
+ * allergen classes, tagged with the jurisdictions that require declaring
+ * them:
+ * - US: FALCPA major food allergens plus sesame (FASTER Act, 2023)
+ * - EU: the 14 allergens of Regulation (EU) No 1169/2011, Annex II
+ *
+ * Derived ingredients name the allergen only indirectly ("sodium caseinate"
+ * is milk, "tahini" is sesame). Exclusions are names that contain a term but
+ * are not the allergen ("coconut milk", "cocoa butter", "rice flour").
+ *
+ * This module is data only (plus the matcher) so client components can use
+ * the class labels.
+ */
+
+import { eNumberPattern, termPattern } from '@/lib/utils/term-patterns';
+
+/**
+ * Allergen classes
+ * "shellfish" is crustaceans; "gluten_cereals" is barley, rye and oats
+ * (wheat has its own class, as it is a US major allergen).
+ */
+export type AllergenType =
+  | 'milk' | 'eggs' | 'fish' | 'shellfish'
+  | 'tree_nuts' | 'peanuts' | 'wheat' | 'soybeans'
+  | 'sesame' | 'gluten_cereals' | 'molluscs' | 'mustard'
+  | 'celery' | 'lupin' | 'sulphites';
+
+/**
+ * Labeling law an allergen class is declared under
+ */
+export type AllergenJurisdiction = 'US' | 'EU';
+
+/**
+ * Knowledge base entry for one allergen class
+ */
+export interface AllergenClass {
+  type: AllergenType;
+  label: string;
+  jurisdictions: AllergenJurisdiction[];
+  terms: string[]; // Names and synonyms of the allergen itself
+  derivatives: string[]; // Ingredients made from the allergen
+  eNumbers: string[]; // Additives made from the allergen
+  exclusions: string[]; // Names containing a term that are not the allergen
+}
+
+/**
+ * Allergen found in an ingredient
+ */
+export interface AllergenMatch {
+  type: AllergenType;
+  evidence: string; // Matched text as it appears in the ingredient
+  jurisdictions: AllergenJurisdiction[];
+}
+
+/**
+ * Plant ingredients named after dairy products
+ */
+const PLANT_DAIRY = [
+  'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk', 'cashew milk',
+  'cocoa butter', 'cacao butter', 'shea butter', 'peanut butter', 'nut butter', 'almond butter', 'apple butter',
+  'cream of tartar', 'milk thistle',
+];
+
+/**
+ * Flours not made from wheat
+ */
+const NON_WHEAT_FLOURS = [
+  'rice flour', 'corn flour', 'cornflour', 'maize flour', 'potato flour', 'tapioca flour', 'cassava flour',
+  'chickpea flour', 'gram flour', 'coconut flour', 'buckwheat flour', 'almond flour', 'oat flour', 'soy flour',
+  'soya flour', 'rye flour', 'barley flour', 'banana flour', 'quinoa flour', 'millet flour', 'sorghum flour',
+  'teff flour', 'pea flour', 'lentil flour', 'bean flour', 'lupin flour', 'mustard flour', 'carob flour',
+];
+
+export const ALLERGEN_KNOWLEDGE_BASE: AllergenClass[] = [
+  {
+    type: 'milk',
+    label: 'Milk',
+    jurisdictions: ['US', 'EU'],
+    terms: ['milk', 'dairy', 'cream', 'butter', 'cheese', 'yogurt', 'yoghurt', 'ghee', 'kefir', 'curd', 'buttermilk'],
+    derivatives: [
+      'casein', 'caseinate', 'sodium caseinate', 'calcium caseinate', 'whey', 'whey protein', 'lactose', 'lactalbumin',
+      'lactoglobulin', 'milk solids', 'milk powder', 'skimmed milk powder', 'milk fat', 'butterfat', 'butter oil',
+      'quark', 'paneer', 'custard', 'recaldent',
+    ],
+    eNumbers: ['E966'],
+    exclusions: [...PLANT_DAIRY, 'bean curd'],
+  },
+  {
+    type: 'eggs',
+    label: 'Eggs',
+    jurisdictions: ['US', 'EU'],
+    terms: ['egg', 'egg white', 'egg yolk'],
+    derivatives: ['albumin', 'albumen', 'ovalbumin', 'ovomucoid', 'ovovitellin', 'lysozyme', 'mayonnaise', 'meringue', 'egg lecithin'],
+    eNumbers: ['E1105'],
+    exclusions: ['eggplant', 'egg plant'],
+  },
+  {
+    type: 'fish',
+    label: 'Fish',
+    jurisdictions: ['US', 'EU'],
+    terms: [
+      'fish', 'anchovy', 'anchovies', 'bass', 'cod', 'salmon', 'tuna', 'tilapia', 'halibut', 'trout', 'sardine',
+      'mackerel', 'haddock', 'pollock', 'herring', 'catfish', 'hake', 'pilchard', 'swordfish', 'sole', 'plaice',
+    ],
+    derivatives: ['fish sauce', 'fish oil', 'fish gelatin', 'fish stock', 'surimi', 'worcestershire sauce', 'bonito'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'shellfish',
+    label: 'Crustacean shellfish',
+    jurisdictions: ['US', 'EU'],
+    terms: ['shellfish', 'crustacean', 'crab', 'lobster', 'shrimp', 'prawn', 'crayfish', 'crawfish', 'krill', 'langoustine', 'scampi'],
+    derivatives: ['shrimp paste', 'chitosan'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'tree_nuts',
+    label: 'Tree nuts',
+    jurisdictions: ['US', 'EU'],
+    terms: [
+      'tree nut', 'nut', 'mixed nuts', 'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'filbert',
+      'macadamia', 'brazil nut', 'pine nut', 'queensland nut',
+    ],
+    derivatives: ['praline', 'marzipan', 'gianduja', 'nougat', 'frangipane', 'amaretto', 'nut oil'],
+    eNumbers: [],
+    exclusions: ['nutmeg', 'coconut', 'water chestnut', 'butternut', 'nutritional yeast', 'doughnut', 'donut', 'peanut', 'groundnut'],
+  },
+  {
+    type: 'peanuts',
+    label: 'Peanuts',
+    jurisdictions: ['US', 'EU'],
+    terms: ['peanut', 'groundnut', 'monkey nut'],
+    derivatives: ['arachis oil', 'peanut butter', 'peanut flour'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'wheat',
+    label: 'Wheat',
+    jurisdictions: ['US', 'EU'],
+    terms: ['wheat', 'flour', 'gluten', 'semolina', 'durum', 'spelt', 'farina', 'graham', 'kamut', 'einkorn', 'emmer', 'farro'],
+    derivatives: [
+      'bulgur', 'couscous', 'seitan', 'wheat starch', 'wheat protein', 'hydrolyzed wheat protein', 'hydrolysed wheat protein',
+      'hydrolyzed vegetable protein', 'hydrolysed vegetable protein', 'breadcrumbs', 'wheat bran', 'wheat germ',
+    ],
+    eNumbers: [],
+    exclusions: [...NON_WHEAT_FLOURS, 'buckwheat', 'gluten free', 'gluten-free'],
+  },
+  {
+    type: 'soybeans',
+    label: 'Soy',
+    jurisdictions: ['US', 'EU'],
+    terms: ['soy', 'soya', 'soybean', 'soyabean', 'tofu', 'bean curd', 'edamame', 'tempeh', 'miso', 'natto'],
+    derivatives: [
+      'soy lecithin', 'soya lecithin', 'soy protein', 'shoyu', 'tamari', 'textured vegetable protein',
+      'hydrolyzed vegetable protein', 'hydrolysed vegetable protein', 'hydrolyzed soy protein', 'hydrolysed soy protein',
+    ],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'sesame',
+    label: 'Sesame',
+    jurisdictions: ['US', 'EU'],
+    terms: ['sesame', 'sesame seed', 'benne', 'gingelly'],
+    derivatives: ['tahini', 'tahina', 'halva', 'halvah', 'gomasio', 'sesame oil'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'gluten_cereals',
+    label: 'Cereals containing gluten (barley, rye, oats)',
+    jurisdictions: ['EU'],
+    terms: ['barley', 'rye', 'oat', 'oats', 'triticale'],
+    derivatives: ['malt', 'malt extract', 'malt vinegar', 'barley malt', 'oatmeal', 'porridge oats'],
+    eNumbers: [],
+    exclusions: ['gluten free oats', 'gluten-free oats'],
+  },
+  {
+    type: 'molluscs',
+    label: 'Molluscs',
+    jurisdictions: ['EU'],
+    terms: [
+      'mollusc', 'mollusk', 'clam', 'oyster', 'mussel', 'scallop', 'squid', 'calamari', 'octopus', 'cuttlefish',
+      'snail', 'escargot', 'whelk', 'abalone', 'cockle', 'winkle',
+    ],
+    derivatives: ['oyster sauce', 'clam juice', 'squid ink'],
+    eNumbers: [],
+    exclusions: ['oyster mushroom'],
+  },
+  {
+    type: 'mustard',
+    label: 'Mustard',
+    jurisdictions: ['EU'],
+    terms: ['mustard', 'mustard seed'],
+    derivatives: ['mustard flour', 'mustard oil', 'mustard powder'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'celery',
+    label: 'Celery',
+    jurisdictions: ['EU'],
+    terms: ['celery', 'celeriac'],
+    derivatives: ['celery salt', 'celery seed', 'celery powder'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'lupin',
+    label: 'Lupin',
+    jurisdictions: ['EU'],
+    terms: ['lupin', 'lupine', 'lupini'],
+    derivatives: ['lupin flour', 'lupin protein'],
+    eNumbers: [],
+    exclusions: [],
+  },
+  {
+    type: 'sulphites',
+    label: 'Sulphites',
+    jurisdictions: ['EU'],
+    terms: ['sulphite', 'sulfite', 'sulphur dioxide', 'sulfur dioxide'],
+    derivatives: ['metabisulphite', 'metabisulfite', 'bisulphite', 'bisulfite', 'sodium sulphite', 'sodium sulfite'],
+    eNumbers: ['E220', 'E221', 'E222', 'E223', 'E224', 'E225', 'E226', 'E227', 'E228'],
+    exclusions: [],
+  },
+];
+
+/**
+ * All allergen types, in knowledge base order
+ */
+export const ALLERGEN_TYPES: AllergenType[] = ALLERGEN_KNOWLEDGE_BASE.map(entry => entry.type);
+
+/**
+ * Knowledge base entry of an allergen type
+ */
+export function getAllergenClass(type: AllergenType): AllergenClass {
+  return ALLERGEN_KNOWLEDGE_BASE.find(entry => entry.type === type)!;
+}
+
+interface CompiledAllergenClass {
+  entry: AllergenClass;
+  pattern: RegExp;
+  exclusions: RegExp | null;
+}
+
+/**
+ * One pattern per class; longer alternatives first so the evidence is the
+ * most specific name ("sodium caseinate" rather than "caseinate")
+ */
+const COMPILED_CLASSES: CompiledAllergenClass[] = ALLERGEN_KNOWLEDGE_BASE.map(entry => {
+  const alternatives = [
+    ...[...entry.derivatives, ...entry.terms].map(termPattern),
+    ...entry.eNumbers.map(eNumberPattern),
+  ].sort((a, b) => b.length - a.length);
+
+  return {
+    entry,
+    pattern: new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'i'),
+    exclusions: entry.exclusions.length > 0
+      ? new RegExp(`\\b(?:${entry.exclusions.map(termPattern).join('|')})\\b`, 'gi')
+      : null,
+  };
+});
+
+/**
+ * Find the allergens in an ingredient
+ *
+ * @param ingredient - Ingredient name (may include sub-ingredients)
+ * @param jurisdiction - Only classes declared under this law (default: all)
+ * @returns One match per allergen class, in knowledge base order
+ */
+export function findAllergens(ingredient: string, jurisdiction?: AllergenJurisdiction): AllergenMatch[] {
+  const matches: AllergenMatch[] = [];
+
+  for (const { entry, pattern, exclusions } of COMPILED_CLASSES) {
+    if (jurisdiction && !entry.jurisdictions.includes(jurisdiction)) continue;
+
+    // Blank out excluded names so their words cannot match
+    const text = exclusions ? ingredient.replace(exclusions, match => ' '.repeat(match.length)) : ingredient;
+    const match = text.match(pattern);
+    if (match) {
+      matches.push({ type: entry.type, evidence: match[0], jurisdictions: entry.jurisdictions });
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,178 @@
+/**
+ * Precautionary Allergen Labelling
+ *
+ * Separates allergen statements printed with an ingredient list from the
+ * ingredients themselves:
+ * - precautionary statements: "may contain traces of nuts", "made in a
+ *   facility that also processes peanuts", "made on shared equipment with
+ *   milk", "not suitable for people with a sesame allergy"
+ * - free-from claims: "gluten-free", "free from dairy", "contains no egg"
+ *
+ * Without this, the statements are tokenized as ingredients and their
+ * allergens flagged as contained ("may contain milk" -> milk).
+ */
+
+import { ALLERGEN_TYPES, findAllergens, type AllergenType } from './allergen-knowledge-base';
+
+export type PrecautionaryKind = 'may_contain' | 'facility' | 'shared_equipment' | 'not_suitable';
+
+/**
+ * Cross-contamination warning
+ */
+export interface PrecautionaryStatement {
+  kind: PrecautionaryKind;
+  text: string; // Statement as printed
+  allergens: AllergenType[]; // Allergens the product may contain
+}
+
+/**
+ * Claim that the product is free from allergens
+ */
+export interface FreeFromClaim {
+  text: string; // Claim as printed
+  allergens: AllergenType[]; // Allergens claimed absent (empty when none recognised)
+}
+
+/**
+ * Ingredient text with the allergen statements taken out
+ */
+export interface AllergenStatements {
+  ingredientText: string;
+  precautionary: PrecautionaryStatement[];
+  freeFrom: FreeFromClaim[];
+}
+
+/**
+ * Phrases that start a statement; the statement runs to the end of its
+ * sentence or the start of the next statement
+ */
+const STATEMENT_STARTS: Array<{ kind: PrecautionaryKind | 'free_from'; pattern: RegExp }> = [
+  { kind: 'may_contain', pattern: /\b(?:may (?:also )?contain(?: traces? of)?|may be present|(?:contains? )?traces? of)\b/gi },
+  {
+    kind: 'facility',
+    pattern: /\b(?:produced|processed|manufactured|made|packed|packaged|prepared)\s+(?:in|at)\s+(?:a\s+|the\s+)?(?:facility|factory|plant|site|kitchen|environment)\b/gi,
+  },
+  {
+    kind: 'shared_equipment',
+    pattern: /\b(?:(?:produced|processed|manufactured|made)\s+on\s+(?:shared\s+)?(?:equipment|lines?)|shared\s+(?:equipment|lines?))\b/gi,
+  },
+  { kind: 'not_suitable', pattern: /\bnot suitable for\b(?=[^.]*\ballerg)/gi },
+  { kind: 'free_from', pattern: /\b(?:free (?:from|of)|does not contain|contains no|made without)\b/gi },
+];
+
+/**
+ * Standalone "X-free" segment, e.g. "Gluten-free & dairy-free"
+ */
+const FREE_FROM_SEGMENT = /^(?:(?:certified\s+)?[a-z]+[\s-]free(?:\s*(?:&|and|\/)\s*)?)+$/i;
+
+/**
+ * Sentence boundary: a full stop followed by whitespace, or a line break
+ */
+const SENTENCE_BOUNDARY = /(?<=\.)\s+|\s*\n+\s*/;
+
+function trimStatement(text: string): string {
+  return text.trim().replace(/^[,;:\s]+|[,;:.\s]+$/g, '');
+}
+
+/**
+ * Allergens a free-from claim rules out
+ */
+function freeFromAllergens(subject: string): AllergenType[] {
+  if (/\ballergens?\b/i.test(subject)) {
+    return [...ALLERGEN_TYPES];
+  }
+
+  // Lactose-free products can still contain milk protein
+  const types = findAllergens(subject)
+    .filter(match => match.evidence.toLowerCase() !== 'lactose')
+    .map(match => match.type);
+
+  if (/\bgluten\b/i.test(subject) && !types.includes('gluten_cereals')) {
+    types.push('gluten_cereals');
+  }
+  if (types.includes('tree_nuts') && !types.includes('peanuts')) {
+    types.push('peanuts');
+  }
+  return types;
+}
+
+function freeFromClaim(text: string, subject: string): FreeFromClaim {
+  return { text, allergens: freeFromAllergens(subject) };
+}
+
+/**
+ * Take standalone "X-free" segments out of ingredient text, leaving the
+ * rest (including separators inside brackets) as printed
+ */
+function extractFreeFromSegments(text: string, freeFrom: FreeFromClaim[]): string {
+  return text
+    .replace(/(^|[,;])([^,;]*)(?=[,;]|$)/g, (segment, separator: string, content: string) => {
+      const claim = trimStatement(content);
+      if (!claim || !FREE_FROM_SEGMENT.test(claim)) {
+        return segment;
+      }
+      freeFrom.push(freeFromClaim(claim, claim.replace(/[\s-]free\b/gi, ' ')));
+      return '';
+    })
+    .replace(/^[\s,;]+|[\s,;]+$/g, '');
+}
+
+/**
+ * Split allergen statements out of an ingredient list
+ *
+ * @param text - Ingredient list text as printed (may include statements)
+ * @returns Ingredient text without the statements, and the statements found
+ */
+export function extractAllergenStatements(text: string): AllergenStatements {
+  const precautionary: PrecautionaryStatement[] = [];
+  const freeFrom: FreeFromClaim[] = [];
+  const ingredientParts: string[] = [];
+
+  for (const sentence of text.split(SENTENCE_BOUNDARY)) {
+    const starts: Array<{ index: number; kind: PrecautionaryKind | 'free_from' }> = [];
+    for (const { kind, pattern } of STATEMENT_STARTS) {
+      for (const match of sentence.matchAll(pattern)) {
+        starts.push({ index: match.index!, kind });
+      }
+    }
+    starts.sort((a, b) => a.index - b.index);
+
+    const before = starts.length > 0 ? sentence.slice(0, starts[0].index) : sentence;
+    if (trimStatement(before)) {
+      ingredientParts.push(extractFreeFromSegments(before, freeFrom));
+    }
+
+    starts.forEach((start, i) => {
+      const statement = trimStatement(sentence.slice(start.index, starts[i + 1]?.index));
+      if (!statement) return;
+
+      if (start.kind === 'free_from') {
+        freeFrom.push(freeFromClaim(statement, statement));
+      } else {
+        precautionary.push({
+          kind: start.kind,
+          text: statement,
+          allergens: findAllergens(statement).map(match => match.type),
+        });
+      }
+    });
+  }
+
+  return {
+    ingredientText: ingredientParts.filter(Boolean).join(' '),
+    precautionary,
+    freeFrom,
+  };
+}
+
+/**
+ * Allergens named in precautionary statements, without those the product
+ * already contains
+ */
+export function mayContainAllergens(
+  precautionary: PrecautionaryStatement[],
+  contains: AllergenType[] = []
+): AllergenType[] {
+  const types = new Set(precautionary.flatMap(statement => statement.allergens));
+  return ALLERGEN_TYPES.filter(type => types.has(type) && !contains.includes(type));
+}
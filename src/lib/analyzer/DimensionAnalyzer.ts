@@ -14,7 +14,6 @@ import {
   AnalyzeDimensionsResponse,
   DimensionAnalysisResult,
   DimensionScore,
-  RawAIResponse,
 } from '@/lib/types/dimension-analysis';
 import { ImageData, ProductData } from '@/lib/types/multi-tier';
 
@@ -120,11 +119,8 @@ export class DimensionAnalyzer {
       setTimeout(() => reject(new Error('Dimension analysis timeout')), DIMENSION_ANALYSIS_TIMEOUT);
     });
 
-    const aiResponse = await Promise.race([aiResponsePromise, timeoutPromise]);
-
-    // Parse and validate response (Requirements 3.3, 3.4)
-    const parsedResult = this.parseAIResponse(aiResponse);
-    this.validateDimensionScores(parsedResult);
+    // Response is validated by GeminiClient (Requirements 3.3, 3.4)
+    const parsedResult = await Promise.race([aiResponsePromise, timeoutPromise]);
 
     // Build result
     const result: DimensionAnalysisResult = {
@@ -163,87 +159,6 @@ export class DimensionAnalyzer {
 
     return result;
   }
-
-  /**
-   * Parse AI response from JSON string
-   * Requirements: 3.3, 11.5, 12.7
-   * 
-   * @param response - Raw AI response string
-   * @returns Parsed AI response object
-   */
-  parseAIResponse(response: string): RawAIResponse {
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch =
-        response.match(/```json\s*([\s\S]*?)\s*```/) || response.match(/\{[\s\S]*\}/);
-
-      if (!jsonMatch) {
-        throw new Error('Failed to find JSON in AI response');
-      }
-
-      const jsonText = jsonMatch[1] || jsonMatch[0];
-      const parsed = JSON.parse(jsonText);
-
-      // Validate structure (Requirement 11.5)
-      if (!parsed.dimensions || !parsed.overallConfidence) {
-        throw new Error('Invalid response structure: missing dimensions or overallConfidence');
-      }
-
-      return parsed as RawAIResponse;
-    } catch (error) {
-      console.error('[Dimension Analyzer] ❌ Failed to parse AI response:', error);
-      throw new Error(`Failed to parse AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Validate dimension scores are within valid range
-   * Requirement 3.4: Validate scores are 0-100
-   * 
-   * @param result - Parsed AI response
-   * @throws Error if validation fails
-   */
-  validateDimensionScores(result: RawAIResponse): void {
-    const requiredDimensions = [
-      'health',
-      'processing',
-      'allergens',
-      'responsiblyProduced',
-      'environmentalImpact',
-    ];
-
-    for (const dim of requiredDimensions) {
-      const dimension = result.dimensions[dim as keyof typeof result.dimensions];
-
-      if (!dimension) {
-        throw new Error(`Missing dimension: ${dim}`);
-      }
-
-      const score = dimension.score;
-      if (typeof score !== 'number' || score < 0 || score > 100) {
-        throw new Error(`Invalid score for ${dim}: ${score} (must be 0-100)`);
-      }
-
-      if (!dimension.explanation || typeof dimension.explanation !== 'string') {
-        throw new Error(`Missing or invalid explanation for ${dim}`);
-      }
-
-      if (!Array.isArray(dimension.keyFactors) || dimension.keyFactors.length === 0) {
-        throw new Error(`Missing or invalid keyFactors for ${dim}`);
-      }
-    }
-
-    // Validate overall confidence (Requirement 3.4)
-    if (
-      typeof result.overallConfidence !== 'number' ||
-      result.overallConfidence < 0 ||
-      result.overallConfidence > 1
-    ) {
-      throw new Error(
-        `Invalid overallConfidence: ${result.overallConfidence} (must be 0.0-1.0)`
-      );
-    }
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,201 @@
+/**
+ * Tests for the local barcode decoder
+ * Renders synthetic EAN/UPC and Code 128 symbols to RGBA pixels and decodes them
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+import { CODE128_PATTERNS } from '../code128';
+import { decodeBarcodeImage, type BarcodeImage } from '../decoder';
+import { fromDetectorFormat, LOCAL_DECODER_FORMATS } from '../formats';
+
+// Standard module encodings (1 = bar)
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const R_CODES = L_CODES.map(code => code.replace(/./g, bit => (bit === '1' ? '0' : '1')));
+const G_CODES = R_CODES.map(code => code.split('').reverse().join(''));
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+const UPCE_PARITY_NS0 = ['GGGLLL', 'GGLGLL', 'GGLLGL', 'GGLLLG', 'GLGGLL', 'GLLGGL', 'GLLLGG', 'GLGLGL', 'GLGLLG', 'GLLGLG'];
+
+function encodeDigit(digit: string, parity: string): string {
+  const index = Number(digit);
+  return parity === 'L' ? L_CODES[index] : parity === 'G' ? G_CODES[index] : R_CODES[index];
+}
+
+function encodeEan13(digits: string): string {
+  const parity = EAN13_PARITY[Number(digits[0])];
+  const left = digits.slice(1, 7).split('').map((digit, i) => encodeDigit(digit, parity[i])).join('');
+  const right = digits.slice(7).split('').map(digit => encodeDigit(digit, 'R')).join('');
+  return '101' + left + '01010' + right + '101';
+}
+
+function encodeEan8(digits: string): string {
+  const left = digits.slice(0, 4).split('').map(digit => encodeDigit(digit, 'L')).join('');
+  const right = digits.slice(4).split('').map(digit => encodeDigit(digit, 'R')).join('');
+  return '101' + left + '01010' + right + '101';
+}
+
+function encodeUpcE(code: string): string {
+  const parity = UPCE_PARITY_NS0[Number(code[7])];
+  const middle = code.slice(1, 7).split('').map((digit, i) => encodeDigit(digit, parity[i])).join('');
+  return '101' + middle + '010101';
+}
+
+function encodeCode128(values: number[]): string {
+  const checksum = values.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+  return [...values, checksum, 106]
+    .map(value => CODE128_PATTERNS[value].map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(width)).join(''))
+    .join('');
+}
+
+/**
+ * Render modules as a barcode image (10-module quiet zones, dark = black)
+ */
+function renderModules(
+  modules: string,
+  options: { moduleWidth?: number; height?: number; vertical?: boolean; flipped?: boolean } = {}
+): BarcodeImage {
+  const { moduleWidth = 3, height = 20, vertical = false, flipped = false } = options;
+  const padded = '0'.repeat(10) + modules + '0'.repeat(10);
+  const length = Math.round(padded.length * moduleWidth);
+  const width = vertical ? height : length;
+  const imageHeight = vertical ? length : height;
+  const data = new Uint8ClampedArray(width * imageHeight * 4);
+
+  for (let y = 0; y < imageHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = vertical ? y : x;
+      const moduleIndex = Math.floor((flipped ? length - 1 - position : position) / moduleWidth);
+      const value = padded[moduleIndex] === '1' ? 20 : 235;
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = value;
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { data, width, height: imageHeight };
+}
+
+describe('Local Barcode Decoder', () => {
+  describe('EAN / UPC', () => {
+    it('should decode EAN-13', () => {
+      const image = renderModules(encodeEan13('4006381333931'));
+
+      expect(decodeBarcodeImage(image)).toEqual({ rawValue: '4006381333931', format: BarcodeFormat.EAN_13 });
+    });
+
+    it('should report an EAN-13 with a leading 0 as UPC-A', () => {
+      const image = renderModules(encodeEan13('0036000291452'));
+
+      expect(decodeBarcodeImage(image)).toEqual({ rawValue: '036000291452', format: BarcodeFormat.UPC_A });
+    });
+
+    it('should report the 13-digit code when UPC-A is not requested', () => {
+      const image = renderModules(encodeEan13('0036000291452'));
+
+      expect(decodeBarcodeImage(image, { formats: [BarcodeFormat.EAN_13] })).toEqual({
+        rawValue: '0036000291452',
+        format: BarcodeFormat.EAN_13,
+      });
+    });
+
+    it('should decode EAN-8', () => {
+      const image = renderModules(encodeEan8('96385074'));
+
+      expect(decodeBarcodeImage(image)).toEqual({ rawValue: '96385074', format: BarcodeFormat.EAN_8 });
+    });
+
+    it('should decode UPC-E', () => {
+      const image = renderModules(encodeUpcE('04252614'));
+
+      expect(decodeBarcodeImage(image)).toEqual({ rawValue: '04252614', format: BarcodeFormat.UPC_E });
+    });
+
+    it('should decode an upside-down barcode', () => {
+      const image = renderModules(encodeEan13('4006381333931'), { flipped: true });
+
+      expect(decodeBarcodeImage(image)?.rawValue).toBe('4006381333931');
+    });
+
+    it('should decode a vertical barcode', () => {
+      const image = renderModules(encodeEan13('4006381333931'), { vertical: true });
+
+      expect(decodeBarcodeImage(image)?.rawValue).toBe('4006381333931');
+    });
+
+    it('should decode with non-integer module widths', () => {
+      const image = renderModules(encodeEan13('5000112637922'), { moduleWidth: 2.6 });
+
+      expect(decodeBarcodeImage(image)?.rawValue).toBe('5000112637922');
+    });
+
+    it('should reject a symbol with a wrong check digit', () => {
+      const image = renderModules(encodeEan13('4006381333932'));
+
+      expect(decodeBarcodeImage(image)).toBeNull();
+    });
+
+    it('should ignore formats that were not requested', () => {
+      const image = renderModules(encodeEan8('96385074'));
+
+      expect(decodeBarcodeImage(image, { formats: [BarcodeFormat.EAN_13] })).toBeNull();
+    });
+  });
+
+  describe('Code 128', () => {
+    it('should decode code set B text', () => {
+      // Start B, "Hi-5"
+      const values = [104, ...'Hi-5'.split('').map(char => char.charCodeAt(0) - 32)];
+      const image = renderModules(encodeCode128(values), { moduleWidth: 2 });
+
+      expect(decodeBarcodeImage(image)).toEqual({ rawValue: 'Hi-5', format: BarcodeFormat.CODE_128 });
+    });
+
+    it('should decode code set C digit pairs and drop a leading FNC1', () => {
+      // Start C, FNC1, 01 23 45 67
+      const image = renderModules(encodeCode128([105, 102, 1, 23, 45, 67]), { moduleWidth: 2 });
+
+      expect(decodeBarcodeImage(image)?.rawValue).toBe('01234567');
+    });
+
+    it('should reject a symbol with a wrong checksum', () => {
+      const modules = encodeCode128([104, 33, 34]);
+      // Replace the check symbol with a different valid symbol
+      const tampered = modules.slice(0, -24) + CODE128_PATTERNS[0].map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(width)).join('') + modules.slice(-13);
+
+      expect(decodeBarcodeImage(renderModules(tampered, { moduleWidth: 2 }))).toBeNull();
+    });
+
+    it('should have 11-module patterns with an even bar width', () => {
+      for (const pattern of CODE128_PATTERNS.slice(0, 106)) {
+        expect(pattern.reduce((sum, width) => sum + width, 0)).toBe(11);
+        expect((pattern[0] + pattern[2] + pattern[4]) % 2).toBe(0);
+      }
+      expect(new Set(CODE128_PATTERNS.map(pattern => pattern.join(''))).size).toBe(107);
+    });
+  });
+
+  it('should return null for an image without a barcode', () => {
+    const blank = renderModules('');
+
+    expect(decodeBarcodeImage(blank)).toBeNull();
+  });
+
+  describe('formats', () => {
+    it('should map Barcode Detection API names', () => {
+      expect(fromDetectorFormat('ean_13')).toBe(BarcodeFormat.EAN_13);
+      expect(fromDetectorFormat('upc_e')).toBe(BarcodeFormat.UPC_E);
+      expect(fromDetectorFormat('aztec')).toBeUndefined();
+    });
+
+    it('should decode EAN-13, EAN-8, UPC-A, UPC-E and Code 128 locally', () => {
+      expect(LOCAL_DECODER_FORMATS).toEqual(
+        expect.arrayContaining([
+          BarcodeFormat.EAN_13,
+          BarcodeFormat.EAN_8,
+          BarcodeFormat.UPC_A,
+          BarcodeFormat.UPC_E,
+          BarcodeFormat.CODE_128,
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for GTIN normalization and barcode migration planning
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+import type { Product } from '@/lib/supabase/types';
+import { planBarcodeMigration } from '../barcode-migration';
+import {
+  compactGtin,
+  computeGtinCheckDigit,
+  expandUpcE,
+  hasValidGtinCheckDigit,
+  isValidGtin,
+  normalizeGtin,
+  parseGtin,
+  toBarcodeKey,
+} from '../gtin';
+
+function product(overrides: Partial<Product>): Product {
+  return {
+    id: 'id',
+    barcode: null,
+    name: 'Granola',
+    brand: 'Acme',
+    size: null,
+    category: null,
+    image_url: null,
+    metadata: null,
+    flagged_for_review: false,
+    nutrition_data: null,
+    health_score: null,
+    has_allergens: false,
+    allergen_types: [],
+    last_scanned_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('GTIN', () => {
+  describe('check digits', () => {
+    it('should compute check digits', () => {
+      expect(computeGtinCheckDigit('400638133393')).toBe(1);
+      expect(computeGtinCheckDigit('9638507')).toBe(4);
+      expect(hasValidGtinCheckDigit('036000291452')).toBe(true);
+      expect(hasValidGtinCheckDigit('036000291453')).toBe(false);
+    });
+
+    it('should expand UPC-E to UPC-A', () => {
+      expect(expandUpcE('04252614')).toBe('042100005264');
+      expect(expandUpcE('01234505')).toBe('012000003455');
+    });
+  });
+
+  describe('normalizeGtin', () => {
+    it('should normalize UPC-A and EAN-13 forms to the same GTIN-14', () => {
+      expect(normalizeGtin('012345678905')).toBe('00012345678905');
+      expect(normalizeGtin('0012345678905')).toBe('00012345678905');
+      expect(normalizeGtin('00012345678905')).toBe('00012345678905');
+    });
+
+    it('should normalize EAN-8', () => {
+      expect(normalizeGtin('96385074')).toBe('00000096385074');
+    });
+
+    it('should expand UPC-E', () => {
+      expect(normalizeGtin('04252614', BarcodeFormat.UPC_E)).toBe('00042100005264');
+      // Not a valid EAN-8, so read as UPC-E without a format
+      expect(normalizeGtin('04252614')).toBe('00042100005264');
+    });
+
+    it('should strip spaces and dashes', () => {
+      expect(normalizeGtin(' 0 12345-67890 5 ')).toBe('00012345678905');
+    });
+
+    it('should reject bad check digits', () => {
+      expect(parseGtin('012345678906')).toEqual({
+        valid: false,
+        digits: '012345678906',
+        error: 'Invalid check digit',
+      });
+      expect(isValidGtin('4006381333932')).toBe(false);
+    });
+
+    it('should reject non-GTIN lengths and characters', () => {
+      expect(parseGtin('1234567').error).toBe('Invalid GTIN length 7');
+      expect(parseGtin('ABC-123').error).toBe('Barcode contains non-digit characters');
+    });
+  });
+
+  describe('toBarcodeKey', () => {
+    it('should use GTIN-14 for GTINs and the cleaned value otherwise', () => {
+      expect(toBarcodeKey('012345678905')).toBe('00012345678905');
+      expect(toBarcodeKey('LOT 42')).toBe('LOT42');
+    });
+  });
+
+  describe('compactGtin', () => {
+    it('should return the printed form', () => {
+      expect(compactGtin('00012345678905')).toBe('012345678905');
+      expect(compactGtin('04006381333931')).toBe('4006381333931');
+      expect(compactGtin('00000096385074')).toBe('96385074');
+      expect(compactGtin('10012345678902')).toBe('10012345678902');
+    });
+  });
+});
+
+describe('planBarcodeMigration', () => {
+  it('should rewrite barcodes that are not GTIN-14', () => {
+    const plan = planBarcodeMigration([
+      product({ id: 'a', barcode: '012345678905' }),
+      product({ id: 'b', barcode: '00000096385074' }),
+    ]);
+
+    expect(plan.renames).toEqual([{ productId: 'a', from: '012345678905', to: '00012345678905' }]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.merges).toHaveLength(0);
+  });
+
+  it('should merge duplicates into the most complete product', () => {
+    const plan = planBarcodeMigration([
+      product({ id: 'old', barcode: '012345678905', created_at: '2026-01-01T00:00:00Z', metadata: { source: 'scan', keywords: ['a'] } }),
+      product({
+        id: 'rich',
+        barcode: '0012345678905',
+        created_at: '2026-02-01T00:00:00Z',
+        size: '500g',
+        category: 'Cereal',
+        metadata: { keywords: ['b'] },
+        allergen_types: ['gluten'],
+        has_allergens: true,
+      }),
+      product({ id: 'flagged', barcode: '00012345678905', created_at: '2026-03-01T00:00:00Z', image_url: 'https://example.com/a.jpg', flagged_for_review: true, allergen_types: ['nuts'] }),
+    ]);
+
+    expect(plan.merges).toHaveLength(1);
+    const [merge] = plan.merges;
+    expect(merge.survivor.id).toBe('rich');
+    expect(merge.duplicates.map(duplicate => duplicate.id)).toEqual(['flagged', 'old']);
+    expect(merge.update).toEqual({
+      barcode: '00012345678905',
+      image_url: 'https://example.com/a.jpg',
+      metadata: { source: 'scan', keywords: ['b'] },
+      allergen_types: ['gluten', 'nuts'],
+      flagged_for_review: true,
+    });
+  });
+
+  it('should keep the oldest product when completeness ties', () => {
+    const plan = planBarcodeMigration([
+      product({ id: 'new', barcode: '012345678905', created_at: '2026-02-01T00:00:00Z' }),
+      product({ id: 'old', barcode: '0012345678905', created_at: '2026-01-01T00:00:00Z' }),
+    ]);
+
+    expect(plan.merges[0].survivor.id).toBe('old');
+  });
+
+  it('should report invalid barcodes without changing them', () => {
+    const plan = planBarcodeMigration([
+      product({ id: 'bad', barcode: '012345678906' }),
+      product({ id: 'none', barcode: null }),
+    ]);
+
+    expect(plan.invalid).toEqual([{ productId: 'bad', barcode: '012345678906', error: 'Invalid check digit' }]);
+    expect(plan.renames).toHaveLength(0);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Barcode Decoder Web Worker
+ *
+ * Runs decodeBarcodeImage() off the main thread so decoding a full camera
+ * frame does not block the scanner UI. Created by LocalBarcodeDecoder.
+ */
+
+import { decodeBarcodeImage } from './decoder';
+import type { BarcodeDecodeRequest, BarcodeDecodeResponse } from './local-barcode-decoder';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<BarcodeDecodeRequest>) => void) | null;
+  postMessage(message: BarcodeDecodeResponse): void;
+};
+
+workerScope.onmessage = (event) => {
+  const { id, image, formats } = event.data;
+
+  try {
+    workerScope.postMessage({ id, result: decodeBarcodeImage(image, { formats }) });
+  } catch (error) {
+    workerScope.postMessage({ id, result: null, error: error instanceof Error ? error.message : String(error) });
+  }
+};
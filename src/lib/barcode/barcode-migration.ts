@@ -0,0 +1,99 @@
+/**
+ * Barcode Migration Planning
+ *
+ * Plans the move of existing products.barcode values to GTIN-14
+ * (scripts/normalize-barcodes.ts). Rows whose barcodes normalize to the same
+ * GTIN are the same trade item and are merged into one surviving row
+ * (see lib/duplicates/product-merge).
+ *
+ * Numeric barcodes that are not valid GTINs are reported and left unchanged.
+ */
+
+import type { Product, ProductUpdate } from '@/lib/supabase/types';
+import { compareForSurvival, mergeDuplicateProducts } from '@/lib/duplicates/product-merge';
+import { cleanBarcode, parseGtin, toBarcodeKey } from './gtin';
+
+/**
+ * Barcode rewritten in place (no duplicate)
+ */
+export interface BarcodeRename {
+  productId: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Duplicate rows merged into one product
+ */
+export interface BarcodeMerge {
+  barcode: string; // Normalized barcode of the group
+  survivor: Product;
+  duplicates: Product[];
+  update: ProductUpdate; // Applied to the survivor once duplicates are removed
+}
+
+/**
+ * Barcode that is not a valid GTIN
+ */
+export interface InvalidBarcode {
+  productId: string;
+  barcode: string;
+  error: string;
+}
+
+/**
+ * Migration plan
+ */
+export interface BarcodeMigrationPlan {
+  renames: BarcodeRename[];
+  merges: BarcodeMerge[];
+  invalid: InvalidBarcode[];
+  unchanged: number;
+}
+
+/**
+ * Plan the migration of product barcodes to GTIN-14
+ *
+ * @param products - Products with a barcode
+ * @returns Renames, merges and invalid barcodes
+ */
+export function planBarcodeMigration(products: Product[]): BarcodeMigrationPlan {
+  const plan: BarcodeMigrationPlan = { renames: [], merges: [], invalid: [], unchanged: 0 };
+  const groups = new Map<string, Product[]>();
+
+  for (const product of products) {
+    if (!product.barcode) continue;
+
+    const digits = cleanBarcode(product.barcode);
+    const parsed = parseGtin(digits);
+    if (!parsed.valid && /^\d+$/.test(digits)) {
+      plan.invalid.push({ productId: product.id, barcode: product.barcode, error: parsed.error! });
+      continue;
+    }
+
+    const key = toBarcodeKey(product.barcode);
+    groups.set(key, [...(groups.get(key) || []), product]);
+  }
+
+  for (const [barcode, rows] of groups) {
+    if (rows.length === 1) {
+      const [product] = rows;
+      if (product.barcode === barcode) {
+        plan.unchanged++;
+      } else {
+        plan.renames.push({ productId: product.id, from: product.barcode!, to: barcode });
+      }
+      continue;
+    }
+
+    const [survivor, ...duplicates] = [...rows].sort(compareForSurvival);
+    plan.merges.push({
+      barcode,
+      survivor,
+      duplicates,
+      update: mergeDuplicateProducts(survivor, duplicates, barcode),
+    });
+  }
+
+  return plan;
+}
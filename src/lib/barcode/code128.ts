@@ -0,0 +1,173 @@
+/**
+ * Code 128 Decoding
+ *
+ * Decodes Code 128 symbols (code sets A, B and C) from scan line runs.
+ * A leading FNC1 (GS1-128) is dropped; later FNC1s become ASCII GS (0x1D).
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+import type { DecodedBarcode } from './formats';
+import { bestPatternMatch, hasQuietZone, patternVariance, sumRuns } from './runs';
+
+const MAX_AVERAGE_VARIANCE = 0.25;
+const MAX_INDIVIDUAL_VARIANCE = 0.7;
+
+const START_A = 103;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+const CODE_SHIFT = 98;
+const CODE_C = 99;
+const CODE_B = 100; // FNC4 in code set B
+const CODE_A = 101; // FNC4 in code set A
+const FNC1 = 102;
+
+/**
+ * Symbol widths (bar, space, bar, space, bar, space) indexed by symbol value;
+ * the stop pattern (106) has a final 2-module bar
+ */
+export const CODE128_PATTERNS: number[][] = [
+  [2, 1, 2, 2, 2, 2], [2, 2, 2, 1, 2, 2], [2, 2, 2, 2, 2, 1], [1, 2, 1, 2, 2, 3], [1, 2, 1, 3, 2, 2],
+  [1, 3, 1, 2, 2, 2], [1, 2, 2, 2, 1, 3], [1, 2, 2, 3, 1, 2], [1, 3, 2, 2, 1, 2], [2, 2, 1, 2, 1, 3],
+  [2, 2, 1, 3, 1, 2], [2, 3, 1, 2, 1, 2], [1, 1, 2, 2, 3, 2], [1, 2, 2, 1, 3, 2], [1, 2, 2, 2, 3, 1],
+  [1, 1, 3, 2, 2, 2], [1, 2, 3, 1, 2, 2], [1, 2, 3, 2, 2, 1], [2, 2, 3, 2, 1, 1], [2, 2, 1, 1, 3, 2],
+  [2, 2, 1, 2, 3, 1], [2, 1, 3, 2, 1, 2], [2, 2, 3, 1, 1, 2], [3, 1, 2, 1, 3, 1], [3, 1, 1, 2, 2, 2],
+  [3, 2, 1, 1, 2, 2], [3, 2, 1, 2, 2, 1], [3, 1, 2, 2, 1, 2], [3, 2, 2, 1, 1, 2], [3, 2, 2, 2, 1, 1],
+  [2, 1, 2, 1, 2, 3], [2, 1, 2, 3, 2, 1], [2, 3, 2, 1, 2, 1], [1, 1, 1, 3, 2, 3], [1, 3, 1, 1, 2, 3],
+  [1, 3, 1, 3, 2, 1], [1, 1, 2, 3, 1, 3], [1, 3, 2, 1, 1, 3], [1, 3, 2, 3, 1, 1], [2, 1, 1, 3, 1, 3],
+  [2, 3, 1, 1, 1, 3], [2, 3, 1, 3, 1, 1], [1, 1, 2, 1, 3, 3], [1, 1, 2, 3, 3, 1], [1, 3, 2, 1, 3, 1],
+  [1, 1, 3, 1, 2, 3], [1, 1, 3, 3, 2, 1], [1, 3, 3, 1, 2, 1], [3, 1, 3, 1, 2, 1], [2, 1, 1, 3, 3, 1],
+  [2, 3, 1, 1, 3, 1], [2, 1, 3, 1, 1, 3], [2, 1, 3, 3, 1, 1], [2, 1, 3, 1, 3, 1], [3, 1, 1, 1, 2, 3],
+  [3, 1, 1, 3, 2, 1], [3, 3, 1, 1, 2, 1], [3, 1, 2, 1, 1, 3], [3, 1, 2, 3, 1, 1], [3, 3, 2, 1, 1, 1],
+  [3, 1, 4, 1, 1, 1], [2, 2, 1, 4, 1, 1], [4, 3, 1, 1, 1, 1], [1, 1, 1, 2, 2, 4], [1, 1, 1, 4, 2, 2],
+  [1, 2, 1, 1, 2, 4], [1, 2, 1, 4, 2, 1], [1, 4, 1, 1, 2, 2], [1, 4, 1, 2, 2, 1], [1, 1, 2, 2, 1, 4],
+  [1, 1, 2, 4, 1, 2], [1, 2, 2, 1, 1, 4], [1, 2, 2, 4, 1, 1], [1, 4, 2, 1, 1, 2], [1, 4, 2, 2, 1, 1],
+  [2, 4, 1, 2, 1, 1], [2, 2, 1, 1, 1, 4], [4, 1, 3, 1, 1, 1], [2, 4, 1, 1, 1, 2], [1, 3, 4, 1, 1, 1],
+  [1, 1, 1, 2, 4, 2], [1, 2, 1, 1, 4, 2], [1, 2, 1, 2, 4, 1], [1, 1, 4, 2, 1, 2], [1, 2, 4, 1, 1, 2],
+  [1, 2, 4, 2, 1, 1], [4, 1, 1, 2, 1, 2], [4, 2, 1, 1, 1, 2], [4, 2, 1, 2, 1, 1], [2, 1, 2, 1, 4, 1],
+  [2, 1, 4, 1, 2, 1], [4, 1, 2, 1, 2, 1], [1, 1, 1, 1, 4, 3], [1, 1, 1, 3, 4, 1], [1, 3, 1, 1, 4, 1],
+  [1, 1, 4, 1, 1, 3], [1, 1, 4, 3, 1, 1], [4, 1, 1, 1, 1, 3], [4, 1, 1, 3, 1, 1], [1, 1, 3, 1, 4, 1],
+  [1, 1, 4, 1, 3, 1], [3, 1, 1, 1, 4, 1], [4, 1, 1, 1, 3, 1], [2, 1, 1, 4, 1, 2], [2, 1, 1, 2, 1, 4],
+  [2, 1, 1, 2, 3, 2], [2, 3, 3, 1, 1, 1, 2],
+];
+
+/**
+ * First six widths of every pattern (the stop pattern is matched on these too)
+ */
+const SYMBOL_PATTERNS = CODE128_PATTERNS.map(pattern => pattern.slice(0, 6));
+
+type CodeSet = 'A' | 'B' | 'C';
+
+/**
+ * Convert symbol values (after the start symbol, without check symbol) to text
+ */
+function symbolsToText(startCode: number, values: number[]): string | null {
+  let codeSet: CodeSet = startCode === START_A ? 'A' : startCode === START_B ? 'B' : 'C';
+  let shifted = false;
+  let text = '';
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    const currentSet: CodeSet = shifted ? (codeSet === 'A' ? 'B' : 'A') : codeSet;
+    shifted = false;
+
+    if (value === FNC1) {
+      if (i > 0) text += '\u001d';
+      continue;
+    }
+
+    if (currentSet === 'C') {
+      if (value < 100) {
+        text += String(value).padStart(2, '0');
+      } else if (value === CODE_B) {
+        codeSet = 'B';
+      } else if (value === CODE_A) {
+        codeSet = 'A';
+      } else {
+        return null;
+      }
+      continue;
+    }
+
+    if (value < 96) {
+      const charCode = currentSet === 'A' && value >= 64 ? value - 64 : value + 32;
+      text += String.fromCharCode(charCode);
+    } else if (value === CODE_SHIFT) {
+      shifted = true;
+    } else if (value === CODE_C) {
+      codeSet = 'C';
+    } else if (value === CODE_B && currentSet === 'A') {
+      codeSet = 'B';
+    } else if (value === CODE_A && currentSet === 'B') {
+      codeSet = 'A';
+    } else if (value > FNC1) {
+      return null;
+    }
+    // FNC2, FNC3 and FNC4 carry no text
+  }
+
+  return text;
+}
+
+function decodeFrom(runs: number[], start: number): DecodedBarcode | null {
+  const startCode = bestPatternMatch(runs, start, SYMBOL_PATTERNS, MAX_AVERAGE_VARIANCE, MAX_INDIVIDUAL_VARIANCE);
+  if (startCode !== START_A && startCode !== START_B && startCode !== START_C) {
+    return null;
+  }
+  if (!hasQuietZone(runs, start - 1, sumRuns(runs, start, 6) / 11)) {
+    return null;
+  }
+
+  const values: number[] = [];
+  let stopped = false;
+  for (let offset = start + 6; offset + 6 <= runs.length; offset += 6) {
+    const value = bestPatternMatch(runs, offset, SYMBOL_PATTERNS, MAX_AVERAGE_VARIANCE, MAX_INDIVIDUAL_VARIANCE);
+    if (value < 0 || value === START_A || value === START_B || value === START_C) {
+      return null;
+    }
+
+    if (value === STOP) {
+      if (patternVariance(runs, offset, CODE128_PATTERNS[STOP], MAX_INDIVIDUAL_VARIANCE) >= MAX_AVERAGE_VARIANCE) {
+        return null;
+      }
+      if (!hasQuietZone(runs, offset + 7, sumRuns(runs, offset, 7) / 13)) {
+        return null;
+      }
+      stopped = true;
+      break;
+    }
+
+    values.push(value);
+  }
+
+  // At least one data symbol plus the check symbol
+  if (!stopped || values.length < 2) {
+    return null;
+  }
+
+  const check = values.pop()!;
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), startCode) % 103;
+  if (checksum !== check) {
+    return null;
+  }
+
+  const text = symbolsToText(startCode, values);
+  return text ? { rawValue: text, format: BarcodeFormat.CODE_128 } : null;
+}
+
+/**
+ * Decode a Code 128 symbol from scan line runs
+ *
+ * @param runs - Run widths (even indexes light)
+ * @returns First valid symbol on the line, or null
+ */
+export function decodeCode128(runs: number[]): DecodedBarcode | null {
+  for (let start = 1; start + 6 <= runs.length; start += 2) {
+    const decoded = decodeFrom(runs, start);
+    if (decoded) {
+      return decoded;
+    }
+  }
+  return null;
+}
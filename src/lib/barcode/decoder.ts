@@ -0,0 +1,157 @@
+/**
+ * Local Barcode Decoder
+ *
+ * Pure TypeScript 1D barcode decoding for browsers without the Barcode
+ * Detection API (Firefox, iOS Safari). Reads EAN-13, EAN-8, UPC-A, UPC-E and
+ * Code 128 from RGBA pixels (canvas ImageData), so scans on those browsers
+ * do not need an image extraction call to Gemini.
+ *
+ * Horizontal scan lines are read first, starting at the middle of the frame
+ * and moving outwards, then vertical lines for barcodes held sideways. Each
+ * line is read in both directions.
+ *
+ * Runs in the main thread or in barcode-decoder.worker.ts.
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+import { decodeCode128 } from './code128';
+import { decodeEanUpc } from './ean-upc';
+import { LOCAL_DECODER_FORMATS, type DecodedBarcode } from './formats';
+import { reverseRuns, toRuns } from './runs';
+
+/**
+ * Minimum luminance range for a scan line to be worth reading
+ */
+const MIN_LINE_CONTRAST = 32;
+
+/**
+ * RGBA pixels (compatible with ImageData)
+ */
+export interface BarcodeImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decoder options
+ */
+export interface BarcodeDecodeOptions {
+  formats?: BarcodeFormat[]; // Defaults to LOCAL_DECODER_FORMATS
+  scanLines?: number; // Lines per direction (default: 15)
+  tryVertical?: boolean; // Also scan columns (default: true)
+}
+
+/**
+ * Binarize a scan line at the midpoint of its luminance range
+ *
+ * @returns Per-pixel darkness, or null if the line has too little contrast
+ */
+function binarizeLine(luminance: Float32Array): boolean[] | null {
+  let min = 255;
+  let max = 0;
+  for (const value of luminance) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+
+  if (max - min < MIN_LINE_CONTRAST) {
+    return null;
+  }
+
+  const threshold = (min + max) / 2;
+  return Array.from(luminance, value => value < threshold);
+}
+
+function readLine(image: BarcodeImage, index: number, vertical: boolean): Float32Array {
+  const length = vertical ? image.height : image.width;
+  const luminance = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const x = vertical ? index : i;
+    const y = vertical ? i : index;
+    const offset = (y * image.width + x) * 4;
+    luminance[i] = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+  }
+
+  return luminance;
+}
+
+/**
+ * Scan line positions from the middle outwards
+ */
+function scanLinePositions(size: number, count: number): number[] {
+  const middle = Math.floor(size / 2);
+  const step = Math.max(1, Math.floor(size / (count + 1)));
+  const positions = [middle];
+
+  for (let i = 1; positions.length < count; i++) {
+    const above = middle - i * step;
+    const below = middle + i * step;
+    if (above < 0 && below >= size) break;
+    if (above >= 0) positions.push(above);
+    if (below < size && positions.length < count) positions.push(below);
+  }
+
+  return positions;
+}
+
+/**
+ * Decode a barcode from scan line runs, reading in both directions
+ *
+ * @param runs - Run widths (even indexes light)
+ * @param formats - Formats to accept
+ * @returns Decoded barcode, or null
+ */
+export function decodeRuns(runs: number[], formats: Set<BarcodeFormat>): DecodedBarcode | null {
+  const wantsEanUpc = [BarcodeFormat.EAN_13, BarcodeFormat.EAN_8, BarcodeFormat.UPC_A, BarcodeFormat.UPC_E]
+    .some(format => formats.has(format));
+  const wantsCode128 = formats.has(BarcodeFormat.CODE_128);
+
+  for (const direction of [runs, reverseRuns(runs)]) {
+    const decoded =
+      (wantsEanUpc ? decodeEanUpc(direction, formats) : null) ??
+      (wantsCode128 ? decodeCode128(direction) : null);
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode the first barcode found in an image
+ *
+ * @param image - RGBA pixels, e.g. from CanvasRenderingContext2D.getImageData()
+ * @param options - Formats and scan density
+ * @returns Decoded barcode, or null if none was found
+ *
+ * @example
+ * ```typescript
+ * const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+ * const barcode = decodeBarcodeImage(frame);
+ * if (barcode) console.log(barcode.format, barcode.rawValue);
+ * ```
+ */
+export function decodeBarcodeImage(image: BarcodeImage, options: BarcodeDecodeOptions = {}): DecodedBarcode | null {
+  const formats = new Set(options.formats ?? LOCAL_DECODER_FORMATS);
+  const scanLines = options.scanLines ?? 15;
+  const directions = options.tryVertical === false ? [false] : [false, true];
+
+  for (const vertical of directions) {
+    const size = vertical ? image.width : image.height;
+
+    for (const position of scanLinePositions(size, scanLines)) {
+      const dark = binarizeLine(readLine(image, position, vertical));
+      if (!dark) continue;
+
+      const decoded = decodeRuns(toRuns(dark), formats);
+      if (decoded) {
+        return decoded;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,181 @@
+/**
+ * EAN / UPC Decoding
+ *
+ * Decodes EAN-13, UPC-A, EAN-8 and UPC-E symbols from scan line runs.
+ * UPC-A is an EAN-13 with a leading 0 and is reported as 12 digits;
+ * UPC-E is reported as its 8-digit form (number system, 6 digits, check digit).
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+import type { DecodedBarcode } from './formats';
+import { expandUpcE, hasValidGtinCheckDigit } from './gtin';
+import { bestPatternMatch, hasQuietZone, patternVariance, sumRuns } from './runs';
+
+const MAX_AVERAGE_VARIANCE = 0.48;
+const MAX_INDIVIDUAL_VARIANCE = 0.7;
+
+const START_END_GUARD = [1, 1, 1];
+const MIDDLE_GUARD = [1, 1, 1, 1, 1];
+const UPC_E_END_GUARD = [1, 1, 1, 1, 1, 1];
+
+/**
+ * Odd parity ("L") digit widths: space, bar, space, bar.
+ * Right-hand ("R") digits have the same widths starting with a bar.
+ */
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+/**
+ * L patterns followed by even parity ("G") patterns (indexes 10-19)
+ */
+const L_AND_G_PATTERNS = [...L_PATTERNS, ...L_PATTERNS.map(pattern => [...pattern].reverse())];
+
+/**
+ * EAN-13 first digit, encoded by the parity of the six left digits
+ * (bit 5 - i set when digit i is G)
+ */
+const FIRST_DIGIT_PARITIES = [0x00, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a];
+
+/**
+ * UPC-E check digit for number system 0, encoded by digit parities;
+ * number system 1 uses the inverse
+ */
+const UPC_E_PARITIES = [0x38, 0x34, 0x32, 0x31, 0x2c, 0x26, 0x23, 0x2a, 0x29, 0x25];
+
+function isGuard(runs: number[], offset: number, pattern: number[]): boolean {
+  return patternVariance(runs, offset, pattern, MAX_INDIVIDUAL_VARIANCE) < MAX_AVERAGE_VARIANCE;
+}
+
+/**
+ * Read consecutive digits
+ *
+ * @returns Digits and parity bits (bit count - 1 - i set when digit i is G), or null
+ */
+function readDigits(
+  runs: number[],
+  offset: number,
+  count: number,
+  patterns: number[][]
+): { digits: string; parity: number } | null {
+  let digits = '';
+  let parity = 0;
+
+  for (let i = 0; i < count; i++) {
+    const match = bestPatternMatch(runs, offset + i * 4, patterns, MAX_AVERAGE_VARIANCE, MAX_INDIVIDUAL_VARIANCE);
+    if (match < 0) {
+      return null;
+    }
+    digits += String(match % 10);
+    if (match >= 10) {
+      parity |= 1 << (count - 1 - i);
+    }
+  }
+
+  return { digits, parity };
+}
+
+function decodeEan13(runs: number[], start: number, formats: Set<BarcodeFormat>): DecodedBarcode | null {
+  const left = readDigits(runs, start + 3, 6, L_AND_G_PATTERNS);
+  if (!left) return null;
+
+  const middle = start + 3 + 24;
+  if (!isGuard(runs, middle, MIDDLE_GUARD)) return null;
+
+  const right = readDigits(runs, middle + 5, 6, L_PATTERNS);
+  if (!right) return null;
+
+  const end = middle + 5 + 24;
+  if (!isGuard(runs, end, START_END_GUARD) || !hasQuietZone(runs, end + 3, sumRuns(runs, end, 3) / 3)) {
+    return null;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(left.parity);
+  if (firstDigit < 0) return null;
+
+  const digits = String(firstDigit) + left.digits + right.digits;
+  if (!hasValidGtinCheckDigit(digits)) return null;
+
+  if (firstDigit === 0 && formats.has(BarcodeFormat.UPC_A)) {
+    return { rawValue: digits.slice(1), format: BarcodeFormat.UPC_A };
+  }
+  return formats.has(BarcodeFormat.EAN_13) ? { rawValue: digits, format: BarcodeFormat.EAN_13 } : null;
+}
+
+function decodeEan8(runs: number[], start: number): DecodedBarcode | null {
+  const left = readDigits(runs, start + 3, 4, L_PATTERNS);
+  if (!left) return null;
+
+  const middle = start + 3 + 16;
+  if (!isGuard(runs, middle, MIDDLE_GUARD)) return null;
+
+  const right = readDigits(runs, middle + 5, 4, L_PATTERNS);
+  if (!right) return null;
+
+  const end = middle + 5 + 16;
+  if (!isGuard(runs, end, START_END_GUARD) || !hasQuietZone(runs, end + 3, sumRuns(runs, end, 3) / 3)) {
+    return null;
+  }
+
+  const digits = left.digits + right.digits;
+  return hasValidGtinCheckDigit(digits) ? { rawValue: digits, format: BarcodeFormat.EAN_8 } : null;
+}
+
+function decodeUpcE(runs: number[], start: number): DecodedBarcode | null {
+  const middle = readDigits(runs, start + 3, 6, L_AND_G_PATTERNS);
+  if (!middle) return null;
+
+  const end = start + 3 + 24;
+  if (!isGuard(runs, end, UPC_E_END_GUARD) || !hasQuietZone(runs, end + 6, sumRuns(runs, end, 6) / 6)) {
+    return null;
+  }
+
+  for (const numberSystem of [0, 1]) {
+    const parities = numberSystem === 0 ? UPC_E_PARITIES : UPC_E_PARITIES.map(parity => parity ^ 0x3f);
+    const check = parities.indexOf(middle.parity);
+    if (check >= 0) {
+      const upcE = `${numberSystem}${middle.digits}${check}`;
+      return hasValidGtinCheckDigit(expandUpcE(upcE)) ? { rawValue: upcE, format: BarcodeFormat.UPC_E } : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode an EAN or UPC symbol from scan line runs
+ *
+ * @param runs - Run widths (even indexes light)
+ * @param formats - Formats to accept
+ * @returns First valid symbol on the line, or null
+ */
+export function decodeEanUpc(runs: number[], formats: Set<BarcodeFormat>): DecodedBarcode | null {
+  const wantsEan13 = formats.has(BarcodeFormat.EAN_13) || formats.has(BarcodeFormat.UPC_A);
+  const wantsEan8 = formats.has(BarcodeFormat.EAN_8);
+  const wantsUpcE = formats.has(BarcodeFormat.UPC_E);
+
+  for (let start = 1; start + 3 <= runs.length; start += 2) {
+    if (!isGuard(runs, start, START_END_GUARD)) continue;
+    if (!hasQuietZone(runs, start - 1, sumRuns(runs, start, 3) / 3)) continue;
+
+    const decoded =
+      (wantsEan13 ? decodeEan13(runs, start, formats) : null) ??
+      (wantsEan8 ? decodeEan8(runs, start) : null) ??
+      (wantsUpcE ? decodeUpcE(runs, start) : null);
+
+    if (decoded) {
+      return decoded;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Barcode Formats
+ *
+ * Maps BarcodeFormat (types/multi-tier.ts) to the format names of the browser
+ * Barcode Detection API, and lists the formats the local decoder can read.
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+
+/**
+ * Barcode Detection API format name for each BarcodeFormat
+ */
+export const DETECTOR_FORMAT_NAMES: Record<BarcodeFormat, string> = {
+  [BarcodeFormat.UPC_A]: 'upc_a',
+  [BarcodeFormat.UPC_E]: 'upc_e',
+  [BarcodeFormat.EAN_8]: 'ean_8',
+  [BarcodeFormat.EAN_13]: 'ean_13',
+  [BarcodeFormat.CODE_39]: 'code_39',
+  [BarcodeFormat.CODE_93]: 'code_93',
+  [BarcodeFormat.CODE_128]: 'code_128',
+  [BarcodeFormat.ITF]: 'itf',
+  [BarcodeFormat.QR_CODE]: 'qr_code',
+};
+
+/**
+ * Formats decoded by the local (pure TypeScript) decoder
+ */
+export const LOCAL_DECODER_FORMATS: BarcodeFormat[] = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+  BarcodeFormat.CODE_128,
+];
+
+/**
+ * Convert a Barcode Detection API format name to BarcodeFormat
+ *
+ * @param name - Detector format name (e.g. "ean_13")
+ * @returns Matching format, or undefined for formats we do not track
+ */
+export function fromDetectorFormat(name: string): BarcodeFormat | undefined {
+  const entry = Object.entries(DETECTOR_FORMAT_NAMES).find(([, detectorName]) => detectorName === name);
+  return entry ? (entry[0] as BarcodeFormat) : undefined;
+}
+
+/**
+ * Barcode read from an image
+ */
+export interface DecodedBarcode {
+  rawValue: string;
+  format: BarcodeFormat;
+}
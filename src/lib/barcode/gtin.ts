@@ -0,0 +1,180 @@
+/**
+ * GTIN Normalization
+ *
+ * Retail barcodes reach the system in several equivalent forms: a UPC-A
+ * `012345678905` is the same trade item as the EAN-13 `0012345678905`, and a
+ * UPC-E is a zero-suppressed UPC-A. Products and cache entries are keyed by
+ * the GTIN-14 form (left-padded with zeros) so every form finds the same row.
+ *
+ * Barcodes with a bad check digit (typically misread by OCR) are rejected.
+ */
+
+import { BarcodeFormat } from '@/lib/types/multi-tier';
+
+/**
+ * Lengths of valid GTINs (GTIN-8, GTIN-12, GTIN-13, GTIN-14)
+ */
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * Result of parsing a barcode as a GTIN
+ */
+export interface GtinParseResult {
+  valid: boolean;
+  digits: string; // Input without spaces and dashes
+  gtin?: string; // GTIN-14 (valid only)
+  error?: string; // Why the barcode was rejected
+}
+
+/**
+ * Compute the GS1 check digit for the digits preceding it
+ *
+ * @param body - Digits without the check digit
+ * @returns Check digit (0-9)
+ */
+export function computeGtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Weights alternate 3, 1, 3, ... starting from the rightmost digit
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Check the last digit of a GTIN is its check digit
+ */
+export function hasValidGtinCheckDigit(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) {
+    return false;
+  }
+  return computeGtinCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Expand an 8-digit UPC-E code to its 12-digit UPC-A equivalent
+ *
+ * @param upcE - Number system, six digits and check digit
+ * @returns UPC-A digits
+ */
+export function expandUpcE(upcE: string): string {
+  const numberSystem = upcE[0];
+  const digits = upcE.slice(1, 7);
+  const check = upcE[7] ?? '';
+  const last = digits[5];
+
+  let body: string;
+  switch (last) {
+    case '0':
+    case '1':
+    case '2':
+      body = digits.slice(0, 2) + last + '0000' + digits.slice(2, 5);
+      break;
+    case '3':
+      body = digits.slice(0, 3) + '00000' + digits.slice(3, 5);
+      break;
+    case '4':
+      body = digits.slice(0, 4) + '00000' + digits[4];
+      break;
+    default:
+      body = digits.slice(0, 5) + '0000' + last;
+  }
+
+  return numberSystem + body + check;
+}
+
+/**
+ * Check an 8-digit code is a valid UPC-E (number system 0 or 1)
+ */
+function isValidUpcE(digits: string): boolean {
+  return /^[01]\d{7}$/.test(digits) && hasValidGtinCheckDigit(expandUpcE(digits));
+}
+
+/**
+ * Remove spaces and dashes printed or typed between barcode digits
+ */
+export function cleanBarcode(raw: string): string {
+  return raw.trim().replace(/[\s-]/g, '');
+}
+
+/**
+ * Parse a barcode as a GTIN
+ *
+ * 8-digit codes are read as EAN-8 unless the format says UPC-E; without a
+ * format, an 8-digit code that is only valid as UPC-E is expanded.
+ *
+ * @param raw - Barcode as scanned, typed or extracted
+ * @param format - Symbology reported by the decoder, if known
+ * @returns GTIN-14 when valid, otherwise the reason it was rejected
+ */
+export function parseGtin(raw: string, format?: BarcodeFormat): GtinParseResult {
+  const digits = cleanBarcode(raw);
+
+  if (!/^\d+$/.test(digits)) {
+    return { valid: false, digits, error: 'Barcode contains non-digit characters' };
+  }
+
+  let gtin = digits;
+  if (digits.length === 8 && (format === BarcodeFormat.UPC_E || (!format && !hasValidGtinCheckDigit(digits) && isValidUpcE(digits)))) {
+    gtin = expandUpcE(digits);
+  }
+
+  if (!GTIN_LENGTHS.includes(gtin.length)) {
+    return { valid: false, digits, error: `Invalid GTIN length ${digits.length}` };
+  }
+
+  if (!hasValidGtinCheckDigit(gtin)) {
+    return { valid: false, digits, error: 'Invalid check digit' };
+  }
+
+  return { valid: true, digits, gtin: gtin.padStart(14, '0') };
+}
+
+/**
+ * Normalize a barcode to GTIN-14
+ *
+ * @returns GTIN-14, or null if the barcode is not a valid GTIN
+ */
+export function normalizeGtin(raw: string, format?: BarcodeFormat): string | null {
+  return parseGtin(raw, format).gtin ?? null;
+}
+
+/**
+ * Check a barcode is a valid GTIN
+ */
+export function isValidGtin(raw: string, format?: BarcodeFormat): boolean {
+  return parseGtin(raw, format).valid;
+}
+
+/**
+ * Key used to store and look up a barcode
+ *
+ * Valid GTINs become GTIN-14; other barcodes (e.g. Code 128 text) are kept
+ * as scanned, without separators.
+ */
+export function toBarcodeKey(raw: string): string {
+  return normalizeGtin(raw) ?? cleanBarcode(raw);
+}
+
+/**
+ * Shortest standard form of a GTIN-14 (GTIN-8, UPC-A, EAN-13 or GTIN-14),
+ * for display and for external APIs that expect the printed number
+ *
+ * @param gtin - GTIN-14
+ */
+export function compactGtin(gtin: string): string {
+  if (gtin.length !== 14) {
+    return gtin;
+  }
+  if (gtin.startsWith('000000')) {
+    return gtin.slice(6);
+  }
+  if (gtin.startsWith('00')) {
+    return gtin.slice(2);
+  }
+  if (gtin.startsWith('0')) {
+    return gtin.slice(1);
+  }
+  return gtin;
+}
@@ -0,0 +1,97 @@
+/**
+ * Local Barcode Decoder Client
+ *
+ * Sends camera frames to barcode-decoder.worker.ts and resolves with the
+ * decoded barcode. Decodes on the main thread when Web Workers are not
+ * available.
+ */
+
+import type { BarcodeFormat } from '@/lib/types/multi-tier';
+import { decodeBarcodeImage, type BarcodeImage } from './decoder';
+import { LOCAL_DECODER_FORMATS, type DecodedBarcode } from './formats';
+
+/**
+ * Message sent to the worker
+ */
+export interface BarcodeDecodeRequest {
+  id: number;
+  image: BarcodeImage;
+  formats: BarcodeFormat[];
+}
+
+/**
+ * Message returned by the worker
+ */
+export interface BarcodeDecodeResponse {
+  id: number;
+  result: DecodedBarcode | null;
+  error?: string;
+}
+
+export class LocalBarcodeDecoder {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, (result: DecodedBarcode | null) => void>();
+
+  constructor(private formats: BarcodeFormat[] = LOCAL_DECODER_FORMATS) {
+    if (typeof Worker === 'undefined') {
+      return;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./barcode-decoder.worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<BarcodeDecodeResponse>) => {
+        const { id, result, error } = event.data;
+        if (error) {
+          console.warn('[Barcode Decoder] ⚠️ Worker decode failed:', error);
+        }
+        this.pending.get(id)?.(result);
+        this.pending.delete(id);
+      };
+      this.worker.onerror = (event) => {
+        console.warn('[Barcode Decoder] ⚠️ Worker error, decoding on main thread:', event.message);
+        this.terminate();
+      };
+    } catch (error) {
+      console.warn('[Barcode Decoder] ⚠️ Web Worker unavailable, decoding on main thread:', error);
+      this.worker = null;
+    }
+  }
+
+  /**
+   * Decode a frame
+   *
+   * The frame's pixel buffer is transferred to the worker and can no longer
+   * be used by the caller.
+   *
+   * @param image - Frame pixels (e.g. from getImageData())
+   * @returns Decoded barcode, or null if none was found
+   */
+  decode(image: BarcodeImage): Promise<DecodedBarcode | null> {
+    if (!this.worker) {
+      return Promise.resolve(decodeBarcodeImage(image, { formats: this.formats }));
+    }
+
+    const id = this.nextId++;
+    const request: BarcodeDecodeRequest = {
+      id,
+      image: { data: image.data, width: image.width, height: image.height },
+      formats: this.formats,
+    };
+
+    return new Promise(resolve => {
+      this.pending.set(id, resolve);
+      this.worker!.postMessage(request, [image.data.buffer]);
+    });
+  }
+
+  /**
+   * Stop the worker; pending decodes resolve with null
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(resolve => resolve(null));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Barcode Scan Line Runs
+ *
+ * A scan line through a barcode is reduced to the pixel widths of its
+ * alternating light and dark runs. Even indexes are light (spaces) and odd
+ * indexes are dark (bars); a line that starts dark gets a zero-width leading
+ * space so the parity always holds.
+ */
+
+/**
+ * Minimum light run before a start pattern / after an end pattern, in modules
+ * (runs touching the edge of the image are always accepted)
+ */
+const QUIET_ZONE_MODULES = 5;
+
+/**
+ * Convert a binarized scan line to run widths
+ *
+ * @param dark - Per-pixel darkness
+ * @returns Run widths, starting with a (possibly empty) light run
+ */
+export function toRuns(dark: ArrayLike<boolean>): number[] {
+  const runs: number[] = [0];
+  let isDark = false;
+
+  for (let i = 0; i < dark.length; i++) {
+    if (dark[i] !== isDark) {
+      runs.push(0);
+      isDark = dark[i];
+    }
+    runs[runs.length - 1]++;
+  }
+
+  return runs;
+}
+
+/**
+ * Reverse runs to read a line right-to-left (upside-down barcodes)
+ */
+export function reverseRuns(runs: number[]): number[] {
+  const reversed = [...runs].reverse();
+  // Keep even indexes light
+  return reversed.length % 2 === 0 ? [0, ...reversed] : reversed;
+}
+
+/**
+ * How far runs deviate from a module pattern (0 = exact)
+ *
+ * Runs are scaled to the pattern's total width, so the result does not depend
+ * on the module size in pixels.
+ *
+ * @param runs - Run widths of the scan line
+ * @param offset - Index of the first run to compare
+ * @param pattern - Expected widths in modules
+ * @param maxIndividualVariance - Maximum deviation of a single run, in modules
+ * @returns Average deviation per pixel, or Infinity if any run is too far off
+ */
+export function patternVariance(
+  runs: number[],
+  offset: number,
+  pattern: number[],
+  maxIndividualVariance: number
+): number {
+  if (offset < 0 || offset + pattern.length > runs.length) {
+    return Infinity;
+  }
+
+  let total = 0;
+  let patternLength = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    total += runs[offset + i];
+    patternLength += pattern[i];
+  }
+
+  // Less than one pixel per module cannot be read reliably
+  if (total < patternLength) {
+    return Infinity;
+  }
+
+  const unit = total / patternLength;
+  const maxVariance = maxIndividualVariance * unit;
+  let totalVariance = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const variance = Math.abs(runs[offset + i] - pattern[i] * unit);
+    if (variance > maxVariance) {
+      return Infinity;
+    }
+    totalVariance += variance;
+  }
+
+  return totalVariance / total;
+}
+
+/**
+ * Find the pattern that best matches the runs at an offset
+ *
+ * @returns Index of the best pattern, or -1 if none is within maxAverageVariance
+ */
+export function bestPatternMatch(
+  runs: number[],
+  offset: number,
+  patterns: number[][],
+  maxAverageVariance: number,
+  maxIndividualVariance: number
+): number {
+  let bestVariance = maxAverageVariance;
+  let bestMatch = -1;
+
+  for (let i = 0; i < patterns.length; i++) {
+    const variance = patternVariance(runs, offset, patterns[i], maxIndividualVariance);
+    if (variance < bestVariance) {
+      bestVariance = variance;
+      bestMatch = i;
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Check the light run at an index is wide enough to be a quiet zone
+ *
+ * @param runs - Run widths of the scan line
+ * @param index - Index of the light run
+ * @param moduleWidth - Estimated module width in pixels
+ */
+export function hasQuietZone(runs: number[], index: number, moduleWidth: number): boolean {
+  if (index < 0) {
+    return false;
+  }
+  if (index === 0 || index >= runs.length - 1) {
+    return true;
+  }
+  return runs[index] >= QUIET_ZONE_MODULES * moduleWidth;
+}
+
+/**
+ * Sum of run widths in [offset, offset + count)
+ */
+export function sumRuns(runs: number[], offset: number, count: number): number {
+  let total = 0;
+  for (let i = offset; i < offset + count && i < runs.length; i++) {
+    total += runs[i];
+  }
+  return total;
+}
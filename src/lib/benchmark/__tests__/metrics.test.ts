@@ -0,0 +1,159 @@
+/**
+ * Unit tests for extraction benchmark scoring and report rendering
+ */
+
+import {
+  buildBenchmarkReport,
+  normalizeIngredient,
+  scoreField,
+  scoreSet,
+  toPrecisionRecall,
+} from '../metrics';
+import { renderBenchmarkMarkdown } from '../report';
+import type { BenchmarkCase, BenchmarkPrediction } from '../types';
+
+function prediction(overrides: Partial<BenchmarkPrediction> = {}): BenchmarkPrediction {
+  return {
+    barcode: null,
+    name: null,
+    brand: null,
+    ingredients: null,
+    allergens: [],
+    nutrition_facts: null,
+    errors: [],
+    ...overrides,
+  };
+}
+
+const CASES: BenchmarkCase[] = [
+  {
+    id: 'granola',
+    imagePath: 'granola.jpg',
+    truth: {
+      barcode: '012345678905',
+      name: 'Honey Oat Granola',
+      brand: 'Acme',
+      ingredients: ['Whole Grain Oats', 'Honey', 'Almonds'],
+      allergens: ['tree_nuts'],
+      nutrition_facts: { calories: 190, sodium: 50, protein: 4 },
+    },
+  },
+  {
+    id: 'crackers',
+    imagePath: 'crackers.jpg',
+    truth: {
+      barcode: null,
+      name: 'Cheese Crackers',
+      allergens: ['milk', 'wheat'],
+      nutrition_facts: { calories: 150, sodium: 0 },
+    },
+  },
+];
+
+const PREDICTIONS: BenchmarkPrediction[] = [
+  prediction({
+    barcode: 'UPC 0123-4567-8905',
+    name: 'honey oat granola',
+    brand: 'ACME Foods',
+    ingredients: ['INGREDIENTS: Whole Grain Oats', 'Honey', 'Canola Oil'],
+    allergens: ['tree_nuts'],
+    nutrition_facts: { calories: 200, sodium: 50, protein: 4 },
+    nutritionValidationStatus: 'valid',
+  }),
+  prediction({
+    barcode: '99999999',
+    allergens: ['wheat'],
+    nutrition_facts: { calories: 150, sodium: 10 },
+    nutritionValidationStatus: 'invalid',
+    errors: ['extraction: empty response'],
+  }),
+];
+
+describe('benchmark metrics', () => {
+  describe('scoreField', () => {
+    it('should compare barcodes by digits only', () => {
+      expect(scoreField('barcode', '012345678905', '0123-4567-8905')).toBe('tp');
+    });
+
+    it('should ignore case and punctuation in text fields', () => {
+      expect(scoreField('name', "Kellogg's Corn Flakes", 'KELLOGG S CORN FLAKES')).toBe('tp');
+    });
+
+    it('should classify missing, spurious and wrong values', () => {
+      expect(scoreField('brand', 'Acme', null)).toBe('fn');
+      expect(scoreField('barcode', null, '99999999')).toBe('fp');
+      expect(scoreField('brand', 'Acme', 'Other')).toBe('fp+fn');
+      expect(scoreField('brand', null, null)).toBe('tn');
+    });
+  });
+
+  describe('scoreSet', () => {
+    it('should match ingredients without sub-ingredients', () => {
+      expect(normalizeIngredient('Enriched Flour (Wheat Flour, Niacin)')).toBe('enriched flour');
+
+      const score = scoreSet(['Oats', 'Sugar', 'Salt'], ['oats', 'sugar', 'honey'], normalizeIngredient);
+
+      expect(score).toMatchObject({ tp: 2, fp: 1, fn: 1 });
+      expect(score.precision).toBeCloseTo(2 / 3);
+      expect(score.f1).toBeCloseTo(2 / 3);
+    });
+  });
+
+  describe('toPrecisionRecall', () => {
+    it('should leave undefined ratios as null', () => {
+      expect(toPrecisionRecall(0, 0, 0)).toEqual({
+        tp: 0, fp: 0, fn: 0, precision: null, recall: null, f1: null,
+      });
+      expect(toPrecisionRecall(0, 1, 1).f1).toBe(0);
+    });
+  });
+
+  describe('buildBenchmarkReport', () => {
+    const report = buildBenchmarkReport(CASES, PREDICTIONS, {
+      corpus: 'corpus',
+      pipeline: { prompt: 'sections', provider: 'fixture', model: 'gemini-2.0-flash' },
+    });
+
+    it('should micro-average field scores across cases', () => {
+      // barcode: granola tp, crackers fp
+      expect(report.fields.barcode).toMatchObject({ tp: 1, fp: 1, fn: 0, precision: 0.5, recall: 1 });
+      // name: granola tp, crackers fn
+      expect(report.fields.name).toMatchObject({ tp: 1, fp: 0, fn: 1 });
+      // brand: only labeled on granola, wrong
+      expect(report.fields.brand).toMatchObject({ tp: 0, fp: 1, fn: 1 });
+      expect(report.fields.ingredients).toMatchObject({ tp: 2, fp: 1, fn: 1 });
+    });
+
+    it('should compute allergen F1', () => {
+      expect(report.allergens).toMatchObject({ tp: 2, fp: 0, fn: 1, precision: 1 });
+      expect(report.allergens.f1).toBeCloseTo(0.8);
+    });
+
+    it('should report numeric error per nutrient', () => {
+      expect(report.nutrients.calories).toMatchObject({
+        count: 2,
+        missing: 0,
+        exactMatches: 1,
+        meanAbsoluteError: 5,
+      });
+      expect(report.nutrients.calories.meanRelativeError).toBeCloseTo(10 / 190 / 2);
+      // Truth of 0 is scored for absolute error only
+      expect(report.nutrients.sodium).toMatchObject({ count: 2, meanAbsoluteError: 5, meanRelativeError: 0 });
+      expect(report.nutrients.protein).toMatchObject({ count: 1, missing: 0 });
+    });
+
+    it('should count validation statuses and failed cases', () => {
+      expect(report.nutritionValidation).toEqual({ valid: 1, uncertain: 0, invalid: 1, missing: 0 });
+      expect(report.failedCases).toBe(1);
+    });
+
+    it('should render Markdown with deltas against a baseline', () => {
+      const baseline = { ...report, allergens: { ...report.allergens, f1: 0.5 } };
+      const markdown = renderBenchmarkMarkdown(report, baseline);
+
+      expect(markdown).toContain('| barcode | 0.500 (±0) | 1.000 (±0) | 0.667 (±0) | 1/1/0 |');
+      expect(markdown).toContain('0.800 (+0.300)');
+      expect(markdown).toContain('- `crackers`: extraction: empty response');
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Extraction Benchmark Metrics
+ *
+ * Pure scoring functions: field-level precision/recall, ingredient and allergen
+ * set matching, and per-nutrient numeric error. Kept free of API calls so the
+ * scoring rules can be unit tested and reused on recorded predictions.
+ */
+
+import {
+  BENCHMARK_NUTRIENTS,
+  type BenchmarkCase,
+  type BenchmarkCaseResult,
+  type BenchmarkField,
+  type BenchmarkNutrient,
+  type BenchmarkPrediction,
+  type BenchmarkReport,
+  type FieldOutcome,
+  type NutrientError,
+  type PrecisionRecall,
+} from './types';
+
+const SCORED_FIELDS: BenchmarkField[] = ['barcode', 'name', 'brand'];
+
+/**
+ * Normalize text for comparison (case, punctuation and whitespace insensitive)
+ */
+export function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize an ingredient name, dropping parenthesized sub-ingredients and
+ * a leading "Ingredients:" label
+ */
+export function normalizeIngredient(value: string): string {
+  return normalizeText(
+    value
+      .replace(/^ingredients:\s*/i, '')
+      .replace(/\([^)]*\)|\[[^\]]*\]/g, '')
+  );
+}
+
+function normalizeField(field: BenchmarkField, value: string): string {
+  return field === 'barcode' ? value.replace(/\D/g, '') : normalizeText(value);
+}
+
+/**
+ * Score a single text field
+ *
+ * @param field - Field being scored (barcodes compare digits only)
+ * @param truth - Ground truth value, null when the product has none
+ * @param predicted - Extracted value
+ * @returns Outcome for precision/recall counting
+ */
+export function scoreField(
+  field: BenchmarkField,
+  truth: string | null,
+  predicted: string | null
+): FieldOutcome {
+  const expected = truth ? normalizeField(field, truth) : '';
+  const actual = predicted ? normalizeField(field, predicted) : '';
+
+  if (!expected && !actual) return 'tn';
+  if (!expected) return 'fp';
+  if (!actual) return 'fn';
+  return expected === actual ? 'tp' : 'fp+fn';
+}
+
+/**
+ * Build precision/recall/F1 from counts (null when undefined, e.g. 0/0)
+ */
+export function toPrecisionRecall(tp: number, fp: number, fn: number): PrecisionRecall {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : null;
+  let f1: number | null = null;
+  if (precision !== null && recall !== null) {
+    f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  }
+
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+/**
+ * Score two sets of values (ingredients, allergens)
+ *
+ * @param truth - Expected values
+ * @param predicted - Extracted values
+ * @param normalize - Normalization applied before matching
+ * @returns Precision/recall over unique normalized values
+ */
+export function scoreSet(
+  truth: string[],
+  predicted: string[],
+  normalize: (value: string) => string = normalizeText
+): PrecisionRecall {
+  const expected = new Set(truth.map(normalize).filter(Boolean));
+  const actual = new Set(predicted.map(normalize).filter(Boolean));
+
+  let tp = 0;
+  for (const value of actual) {
+    if (expected.has(value)) tp++;
+  }
+
+  return toPrecisionRecall(tp, actual.size - tp, expected.size - tp);
+}
+
+/**
+ * Score one benchmark case
+ *
+ * @param benchmarkCase - Labeled image with ground truth
+ * @param prediction - Pipeline output for the image
+ * @returns Per-case outcomes
+ */
+export function scoreCase(
+  benchmarkCase: BenchmarkCase,
+  prediction: BenchmarkPrediction
+): BenchmarkCaseResult {
+  const { truth } = benchmarkCase;
+  const result: BenchmarkCaseResult = {
+    id: benchmarkCase.id,
+    fields: {},
+    nutrientErrors: {},
+    errors: prediction.errors,
+  };
+
+  for (const field of SCORED_FIELDS) {
+    if (truth[field] !== undefined) {
+      result.fields[field] = scoreField(field, truth[field] ?? null, prediction[field]);
+    }
+  }
+
+  if (truth.ingredients !== undefined) {
+    result.ingredients = scoreSet(truth.ingredients ?? [], prediction.ingredients ?? [], normalizeIngredient);
+  }
+
+  if (truth.allergens !== undefined) {
+    result.allergens = scoreSet(truth.allergens, prediction.allergens);
+  }
+
+  if (truth.nutrition_facts) {
+    for (const nutrient of BENCHMARK_NUTRIENTS) {
+      const expected = truth.nutrition_facts[nutrient];
+      const actual = prediction.nutrition_facts?.[nutrient];
+      if (typeof expected === 'number' && typeof actual === 'number') {
+        result.nutrientErrors[nutrient] = actual - expected;
+      }
+    }
+  }
+
+  return result;
+}
+
+function countOutcomes(outcomes: FieldOutcome[]): PrecisionRecall {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const outcome of outcomes) {
+    if (outcome === 'tp') tp++;
+    if (outcome === 'fp' || outcome === 'fp+fn') fp++;
+    if (outcome === 'fn' || outcome === 'fp+fn') fn++;
+  }
+  return toPrecisionRecall(tp, fp, fn);
+}
+
+function sumCounts(results: PrecisionRecall[]): PrecisionRecall {
+  return toPrecisionRecall(
+    results.reduce((sum, r) => sum + r.tp, 0),
+    results.reduce((sum, r) => sum + r.fp, 0),
+    results.reduce((sum, r) => sum + r.fn, 0)
+  );
+}
+
+function nutrientError(
+  nutrient: BenchmarkNutrient,
+  cases: BenchmarkCase[],
+  predictions: BenchmarkPrediction[]
+): NutrientError {
+  const absoluteErrors: number[] = [];
+  const relativeErrors: number[] = [];
+  let missing = 0;
+  let exactMatches = 0;
+
+  cases.forEach((benchmarkCase, index) => {
+    const expected = benchmarkCase.truth.nutrition_facts?.[nutrient];
+    if (typeof expected !== 'number') return;
+
+    const actual = predictions[index].nutrition_facts?.[nutrient];
+    if (typeof actual !== 'number') {
+      missing++;
+      return;
+    }
+
+    const error = Math.abs(actual - expected);
+    absoluteErrors.push(error);
+    if (error === 0) exactMatches++;
+    if (expected !== 0) relativeErrors.push(error / Math.abs(expected));
+  });
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+  return {
+    count: absoluteErrors.length,
+    missing,
+    meanAbsoluteError: mean(absoluteErrors),
+    meanRelativeError: mean(relativeErrors),
+    exactMatches,
+  };
+}
+
+/**
+ * Aggregate case scores into a benchmark report
+ *
+ * Field and set scores are micro-averaged: counts are summed over all cases
+ * before precision and recall are computed.
+ *
+ * @param cases - Labeled corpus
+ * @param predictions - Pipeline output, in corpus order
+ * @param meta - Corpus and pipeline description
+ * @returns Report ready to serialize
+ */
+export function buildBenchmarkReport(
+  cases: BenchmarkCase[],
+  predictions: BenchmarkPrediction[],
+  meta: Pick<BenchmarkReport, 'corpus' | 'pipeline'>
+): BenchmarkReport {
+  const results = cases.map((benchmarkCase, index) => scoreCase(benchmarkCase, predictions[index]));
+
+  const fields = {} as BenchmarkReport['fields'];
+  for (const field of SCORED_FIELDS) {
+    fields[field] = countOutcomes(
+      results.map(r => r.fields[field]).filter((o): o is FieldOutcome => o !== undefined)
+    );
+  }
+  fields.ingredients = sumCounts(
+    results.map(r => r.ingredients).filter((r): r is PrecisionRecall => r !== undefined)
+  );
+
+  const nutrients = {} as BenchmarkReport['nutrients'];
+  for (const nutrient of BENCHMARK_NUTRIENTS) {
+    nutrients[nutrient] = nutrientError(nutrient, cases, predictions);
+  }
+
+  const nutritionValidation = { valid: 0, uncertain: 0, invalid: 0, missing: 0 };
+  for (const prediction of predictions) {
+    nutritionValidation[prediction.nutritionValidationStatus || 'missing']++;
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    ...meta,
+    caseCount: cases.length,
+    failedCases: predictions.filter(p => p.errors.length > 0).length,
+    fields,
+    nutrients,
+    allergens: sumCounts(
+      results.map(r => r.allergens).filter((r): r is PrecisionRecall => r !== undefined)
+    ),
+    nutritionValidation,
+    cases: results,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Extraction Benchmark Report Rendering
+ *
+ * Renders a BenchmarkReport as Markdown. When a baseline report from an earlier
+ * run is given, each metric shows its change so prompt or validation tweaks can
+ * be compared in review.
+ */
+
+import { BENCHMARK_NUTRIENTS, type BenchmarkReport, type PrecisionRecall } from './types';
+
+function formatRatio(value: number | null): string {
+  return value === null ? '–' : value.toFixed(3);
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? '–' : value.toFixed(2);
+}
+
+function formatDelta(current: number | null, baseline: number | null | undefined): string {
+  if (current === null || baseline === null || baseline === undefined) {
+    return '';
+  }
+  const delta = current - baseline;
+  if (Math.abs(delta) < 0.0005) {
+    return ' (±0)';
+  }
+  return ` (${delta > 0 ? '+' : ''}${delta.toFixed(3)})`;
+}
+
+function precisionRecallRow(
+  label: string,
+  score: PrecisionRecall,
+  baseline?: PrecisionRecall
+): string {
+  return [
+    label,
+    formatRatio(score.precision) + formatDelta(score.precision, baseline?.precision),
+    formatRatio(score.recall) + formatDelta(score.recall, baseline?.recall),
+    formatRatio(score.f1) + formatDelta(score.f1, baseline?.f1),
+    `${score.tp}/${score.fp}/${score.fn}`,
+  ].join(' | ');
+}
+
+/**
+ * Render a benchmark report as Markdown
+ *
+ * @param report - Report to render
+ * @param baseline - Optional earlier report to compare against
+ * @returns Markdown document
+ */
+export function renderBenchmarkMarkdown(report: BenchmarkReport, baseline?: BenchmarkReport): string {
+  const lines: string[] = [];
+
+  lines.push('# Extraction Benchmark');
+  lines.push('');
+  lines.push(`- Generated: ${report.generatedAt}`);
+  lines.push(`- Corpus: \`${report.corpus}\` (${report.caseCount} images, ${report.failedCases} with errors)`);
+  lines.push(`- Pipeline: ${report.pipeline.prompt} prompt, ${report.pipeline.provider} / ${report.pipeline.model}`);
+  if (baseline) {
+    lines.push(`- Compared with: run from ${baseline.generatedAt}`);
+  }
+  lines.push('');
+
+  lines.push('## Fields');
+  lines.push('');
+  lines.push('| Field | Precision | Recall | F1 | TP/FP/FN |');
+  lines.push('|-------|-----------|--------|----|----------|');
+  for (const field of Object.keys(report.fields) as Array<keyof BenchmarkReport['fields']>) {
+    lines.push(`| ${precisionRecallRow(field, report.fields[field], baseline?.fields[field])} |`);
+  }
+  lines.push('');
+
+  lines.push('## Allergen Detection');
+  lines.push('');
+  lines.push('| | Precision | Recall | F1 | TP/FP/FN |');
+  lines.push('|-|-----------|--------|----|----------|');
+  lines.push(`| ${precisionRecallRow('allergens', report.allergens, baseline?.allergens)} |`);
+  lines.push('');
+
+  lines.push('## Nutrients');
+  lines.push('');
+  lines.push('| Nutrient | Scored | Missing | Exact | Mean abs. error | Mean rel. error |');
+  lines.push('|----------|--------|---------|-------|-----------------|-----------------|');
+  for (const nutrient of BENCHMARK_NUTRIENTS) {
+    const error = report.nutrients[nutrient];
+    const previous = baseline?.nutrients[nutrient];
+    lines.push(
+      `| ${nutrient} | ${error.count} | ${error.missing} | ${error.exactMatches} | ` +
+      `${formatNumber(error.meanAbsoluteError)}${formatDelta(error.meanAbsoluteError, previous?.meanAbsoluteError)} | ` +
+      `${formatRatio(error.meanRelativeError)}${formatDelta(error.meanRelativeError, previous?.meanRelativeError)} |`
+    );
+  }
+  lines.push('');
+
+  const validation = report.nutritionValidation;
+  lines.push('## Nutrition Validation');
+  lines.push('');
+  lines.push(`valid: ${validation.valid}, uncertain: ${validation.uncertain}, invalid: ${validation.invalid}, missing: ${validation.missing}`);
+  lines.push('');
+
+  const failed = report.cases.filter(c => c.errors.length > 0);
+  if (failed.length > 0) {
+    lines.push('## Errors');
+    lines.push('');
+    for (const result of failed) {
+      lines.push(`- \`${result.id}\`: ${result.errors.join('; ')}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,165 @@
+/**
+ * Extraction Benchmark Runner
+ *
+ * Loads a labeled corpus (`<id>.jpg|jpeg|png|webp` + `<id>.json` ground truth)
+ * and runs each image through the extraction pipeline:
+ * - combined prompt via GeminiWrapper.generateStructured() → barcode, name, brand, ingredients
+ * - IngredientParser.identifyAllergens() on the extracted ingredients
+ * - NutritionParser.parse() → nutrient values and validation status
+ *
+ * All services honor LLM_PROVIDER, so LLM_PROVIDER=fixture benchmarks recorded
+ * responses offline.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { GeminiWrapper } from '@/lib/gemini-wrapper';
+import { COMBINED_EXTRACTION_PROMPT, combineExtractionPrompts } from '@/lib/prompts/extraction-prompts';
+import { interpretCombinedExtraction } from '@/lib/prompts/extraction-response';
+import { CombinedExtractionResponseSchema } from '@/lib/prompts/response-schemas';
+import type { AllergenType, IngredientParser } from '@/lib/services/ingredient-parser';
+import type { NutritionParser } from '@/lib/services/nutrition-parser';
+import { BENCHMARK_NUTRIENTS, type BenchmarkCase, type BenchmarkNutrient, type BenchmarkPrediction, type GroundTruth } from './types';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Prompt used for the combined extraction step
+ * - sections: combineExtractionPrompts() over all sections (as /api/test-all-extraction)
+ * - combined: COMBINED_EXTRACTION_PROMPT
+ */
+export type BenchmarkPromptVariant = 'sections' | 'combined';
+
+/**
+ * Services used to run the pipeline
+ */
+export interface BenchmarkPipeline {
+  gemini: GeminiWrapper;
+  nutritionParser: NutritionParser;
+  ingredientParser: IngredientParser;
+  prompt: BenchmarkPromptVariant;
+}
+
+/**
+ * Load labeled images from a corpus directory
+ *
+ * @param corpusDir - Directory containing images and ground truth JSON
+ * @returns Cases sorted by id; images without ground truth are skipped
+ */
+export function loadBenchmarkCorpus(corpusDir: string): BenchmarkCase[] {
+  if (!existsSync(corpusDir)) {
+    throw new Error(`Benchmark corpus not found: ${corpusDir}`);
+  }
+
+  const cases: BenchmarkCase[] = [];
+
+  for (const file of readdirSync(corpusDir).sort()) {
+    const extension = path.extname(file).toLowerCase();
+    if (!IMAGE_MIME_TYPES[extension]) {
+      continue;
+    }
+
+    const id = path.basename(file, path.extname(file));
+    const truthPath = path.join(corpusDir, `${id}.json`);
+    if (!existsSync(truthPath)) {
+      console.warn(`[Benchmark] ⚠️  No ground truth for ${file}, skipping`);
+      continue;
+    }
+
+    cases.push({
+      id,
+      imagePath: path.join(corpusDir, file),
+      truth: JSON.parse(readFileSync(truthPath, 'utf8')) as GroundTruth,
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Get the extraction prompt for a variant
+ */
+export function getBenchmarkPrompt(variant: BenchmarkPromptVariant): string {
+  return variant === 'combined'
+    ? COMBINED_EXTRACTION_PROMPT
+    : combineExtractionPrompts(['barcode', 'packaging', 'ingredients', 'nutrition']);
+}
+
+/**
+ * Run the extraction pipeline on one labeled image
+ *
+ * Failures are recorded on the prediction instead of thrown, so one bad image
+ * does not abort the benchmark.
+ *
+ * @param benchmarkCase - Labeled image
+ * @param pipeline - Services to run
+ * @returns Prediction for scoring
+ */
+export async function runBenchmarkCase(
+  benchmarkCase: BenchmarkCase,
+  pipeline: BenchmarkPipeline
+): Promise<BenchmarkPrediction> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(benchmarkCase.imagePath).toLowerCase()];
+  const imageDataUrl = `data:${mimeType};base64,${readFileSync(benchmarkCase.imagePath).toString('base64')}`;
+
+  const prediction: BenchmarkPrediction = {
+    barcode: null,
+    name: null,
+    brand: null,
+    ingredients: null,
+    allergens: [],
+    nutrition_facts: null,
+    errors: [],
+  };
+
+  // Combined extraction (schema-validated, one repair re-prompt)
+  const result = await pipeline.gemini.generateStructured({
+    prompt: getBenchmarkPrompt(pipeline.prompt),
+    imageData: imageDataUrl,
+    imageMimeType: mimeType,
+    maxRetries: 2,
+  }, CombinedExtractionResponseSchema, 'Benchmark extraction');
+
+  if (result.success && result.data) {
+    const extraction = interpretCombinedExtraction(result.data);
+    prediction.barcode = extraction.fields.barcode;
+    // Defaults ("Unknown Product") are not predictions
+    prediction.name = extraction.sections.packaging.status === 'success' ? extraction.fields.name : null;
+    prediction.brand = extraction.sections.packaging.status === 'success' ? extraction.fields.brand : null;
+    prediction.ingredients = extraction.fields.ingredients;
+  } else {
+    prediction.errors.push(`extraction: ${result.error || 'empty response'}`);
+  }
+
+  // Allergen detection on the extracted ingredients
+  if (prediction.ingredients) {
+    const allergens = pipeline.ingredientParser
+      .identifyAllergens(prediction.ingredients)
+      .map(ingredient => ingredient.allergenType)
+      .filter((type): type is AllergenType => type !== undefined);
+    prediction.allergens = [...new Set(allergens)];
+  }
+
+  // Structured nutrition facts
+  try {
+    const facts = await pipeline.nutritionParser.parse(imageDataUrl);
+    const values: Partial<Record<BenchmarkNutrient, number>> = {};
+    for (const nutrient of BENCHMARK_NUTRIENTS) {
+      const value = facts[nutrient]?.value;
+      if (typeof value === 'number') {
+        values[nutrient] = value;
+      }
+    }
+    prediction.nutrition_facts = values;
+    prediction.nutritionValidationStatus = facts.validationStatus;
+  } catch (error) {
+    prediction.errors.push(`nutrition: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return prediction;
+}
@@ -0,0 +1,132 @@
+/**
+ * Extraction Benchmark Types
+ *
+ * Ground truth, predictions and report structures for measuring extraction
+ * accuracy against a labeled product corpus (scripts/benchmark-extraction.ts).
+ */
+
+import type { AllergenType } from '@/lib/services/ingredient-parser';
+
+/**
+ * Nutrients scored by the benchmark (NutritionalFacts field names)
+ */
+export const BENCHMARK_NUTRIENTS = [
+  'calories',
+  'totalFat',
+  'saturatedFat',
+  'transFat',
+  'cholesterol',
+  'sodium',
+  'totalCarbohydrates',
+  'dietaryFiber',
+  'totalSugars',
+  'addedSugars',
+  'protein',
+] as const;
+
+export type BenchmarkNutrient = typeof BENCHMARK_NUTRIENTS[number];
+
+/**
+ * Text fields scored for precision and recall
+ */
+export type BenchmarkField = 'barcode' | 'name' | 'brand';
+
+/**
+ * Ground truth for one labeled image (`<id>.json` next to `<id>.jpg`)
+ * Omitted fields are not scored for that case.
+ */
+export interface GroundTruth {
+  barcode?: string | null;
+  name?: string | null;
+  brand?: string | null;
+  ingredients?: string[] | null;
+  allergens?: AllergenType[];
+  nutrition_facts?: Partial<Record<BenchmarkNutrient, number | null>>;
+}
+
+/**
+ * Labeled image in the benchmark corpus
+ */
+export interface BenchmarkCase {
+  id: string;
+  imagePath: string;
+  truth: GroundTruth;
+}
+
+/**
+ * Pipeline output for one image
+ */
+export interface BenchmarkPrediction {
+  barcode: string | null;
+  name: string | null;
+  brand: string | null;
+  ingredients: string[] | null;
+  allergens: AllergenType[];
+  nutrition_facts: Partial<Record<BenchmarkNutrient, number>> | null;
+  nutritionValidationStatus?: 'valid' | 'uncertain' | 'invalid';
+  errors: string[];
+}
+
+/**
+ * Outcome of scoring a single field
+ * - tp: predicted and correct
+ * - fp: predicted but wrong, or predicted when truth is empty
+ * - fn: truth present but missed or wrong
+ * - tn: both empty
+ */
+export type FieldOutcome = 'tp' | 'fp' | 'fn' | 'fp+fn' | 'tn';
+
+/**
+ * Precision/recall counts
+ */
+export interface PrecisionRecall {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * Numeric error for one nutrient across the corpus
+ */
+export interface NutrientError {
+  count: number; // Cases with both a truth and a predicted value
+  missing: number; // Cases with a truth value but no prediction
+  meanAbsoluteError: number | null;
+  meanRelativeError: number | null; // Relative to truth, cases with truth 0 excluded
+  exactMatches: number;
+}
+
+/**
+ * Per-case scoring details
+ */
+export interface BenchmarkCaseResult {
+  id: string;
+  fields: Partial<Record<BenchmarkField, FieldOutcome>>;
+  ingredients?: PrecisionRecall;
+  allergens?: PrecisionRecall;
+  nutrientErrors: Partial<Record<BenchmarkNutrient, number>>;
+  errors: string[];
+}
+
+/**
+ * Benchmark report written as JSON and rendered to Markdown
+ */
+export interface BenchmarkReport {
+  generatedAt: string;
+  corpus: string;
+  pipeline: {
+    prompt: string;
+    provider: string;
+    model: string;
+  };
+  caseCount: number;
+  failedCases: number;
+  fields: Record<BenchmarkField | 'ingredients', PrecisionRecall>;
+  nutrients: Record<BenchmarkNutrient, NutrientError>;
+  allergens: PrecisionRecall;
+  nutritionValidation: Record<'valid' | 'uncertain' | 'invalid' | 'missing', number>;
+  cases: BenchmarkCaseResult[];
+}
@@ -0,0 +1,287 @@
+/**
+ * Cache Layer
+ *
+ * Two-tier cache shared by every cached result in the app. Each namespace
+ * (product, nutrition, dimensions, ...) gets a typed NamespaceCache with
+ * its own TTL and an in-memory LRU (L1) in front of the persistent store
+ * (L2). Entries carry product and barcode tags, so a product correction
+ * invalidates everything derived from it in one call, across namespaces.
+ *
+ * Writes go to L2 first and only reach L1 once stored, so L1 never holds
+ * a value the store does not. Store errors propagate; callers decide
+ * whether a cache failure is fatal.
+ */
+
+import { getPerceptualMaxDistance } from '@/lib/perceptualHash';
+import { LruCache } from './LruCache';
+import { CACHE_POLICIES, ttlMs, type CachePolicy } from './policies';
+import {
+  barcodeTag,
+  CACHE_NAMESPACES,
+  productTag,
+  type CacheEntry,
+  type CacheGetOptions,
+  type CacheHit,
+  type CacheNamespace,
+  type CacheSetOptions,
+  type CacheStore,
+  type CacheTag,
+  type NamespaceCacheStats,
+} from './types';
+
+/**
+ * Typed cache of one namespace
+ */
+export class NamespaceCache<T> {
+  private l1: LruCache<CacheEntry<T>>;
+  private counts = { l1Hits: 0, l2Hits: 0, nearHits: 0, misses: 0 };
+
+  constructor(
+    readonly namespace: CacheNamespace,
+    private readonly store: CacheStore,
+    readonly policy: CachePolicy
+  ) {
+    this.l1 = new LruCache(policy.l1MaxEntries);
+  }
+
+  private remember(entry: CacheEntry<T>, now: Date): void {
+    const expiresAt = Math.min(entry.expiresAt.getTime(), now.getTime() + this.policy.l1TtlMs);
+    if (expiresAt > now.getTime()) {
+      this.l1.set(entry.key, entry, expiresAt);
+    }
+  }
+
+  /**
+   * Look up an entry: L1, then the store, then (with a perceptual hash)
+   * the closest near-duplicate image in the store
+   *
+   * Does not count as an access; call touch() when the value is used.
+   *
+   * @param key - Entry key
+   * @param options - Near-duplicate fallback and expired-entry handling
+   * @returns Hit with the entry and where it came from, or null
+   */
+  async get(key: string, options: CacheGetOptions = {}): Promise<CacheHit<T> | null> {
+    const now = new Date();
+
+    const cached = this.l1.get(key, now.getTime());
+    if (cached) {
+      this.counts.l1Hits++;
+      return { entry: { ...cached }, source: 'l1' };
+    }
+
+    const entry = await this.store.get<T>(this.namespace, key);
+    if (entry && entry.expiresAt > now) {
+      this.counts.l2Hits++;
+      this.remember(entry, now);
+      return { entry: { ...entry }, source: 'l2' };
+    }
+
+    if (options.perceptualHash) {
+      const near = await this.store.findNearest<T>(
+        this.namespace,
+        options.perceptualHash,
+        options.maxDistance ?? getPerceptualMaxDistance(),
+        now
+      );
+      if (near) {
+        this.counts.nearHits++;
+        this.remember(near.entry, now);
+        return { entry: { ...near.entry }, source: 'near', distance: near.distance };
+      }
+    }
+
+    this.counts.misses++;
+    return entry && options.includeExpired ? { entry, source: 'l2' } : null;
+  }
+
+  /**
+   * Store a value, replacing any entry with the same key
+   *
+   * @param key - Entry key
+   * @param value - Value to cache
+   * @param options - Tags, TTL, perceptual hash and bookkeeping overrides
+   * @returns Stored entry
+   */
+  async set(key: string, value: T, options: CacheSetOptions = {}): Promise<CacheEntry<T>> {
+    const now = new Date();
+    const entry: CacheEntry<T> = {
+      namespace: this.namespace,
+      key,
+      value,
+      tags: options.tags ?? [],
+      createdAt: options.createdAt ?? now,
+      lastAccessedAt: options.lastAccessedAt ?? now,
+      accessCount: options.accessCount ?? 0,
+      expiresAt: options.expiresAt ?? new Date(now.getTime() + ttlMs(options.ttlDays ?? this.policy.ttlDays)),
+      ...(options.perceptualHash && { perceptualHash: options.perceptualHash }),
+    };
+
+    this.l1.delete(key);
+    await this.store.set(entry);
+    this.remember(entry, now);
+    return entry;
+  }
+
+  /**
+   * Record an access: bump accessCount and lastAccessedAt
+   */
+  async touch(key: string): Promise<void> {
+    const now = new Date();
+    await this.store.touch(this.namespace, key, now);
+    this.l1.update(key, entry => ({ ...entry, accessCount: entry.accessCount + 1, lastAccessedAt: now }));
+  }
+
+  /**
+   * Delete entries by key
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async delete(keys: string | string[]): Promise<number> {
+    const list = Array.isArray(keys) ? keys : [keys];
+    list.forEach(key => this.l1.delete(key));
+    return this.store.delete(this.namespace, list);
+  }
+
+  /**
+   * Delete entries of this namespace carrying any of the tags
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async invalidateTags(tags: CacheTag[]): Promise<number> {
+    this.forgetTags(tags);
+    return this.store.deleteByTags(tags, this.namespace);
+  }
+
+  /**
+   * Drop L1 entries carrying any of the tags
+   */
+  forgetTags(tags: CacheTag[]): void {
+    this.l1.deleteWhere(entry => entry.tags.some(tag => tags.includes(tag)));
+  }
+
+  /**
+   * Delete expired entries of this namespace
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async clearExpired(): Promise<number> {
+    const now = new Date();
+    this.l1.deleteWhere(entry => entry.expiresAt <= now);
+    return this.store.deleteExpired(now, this.namespace);
+  }
+
+  /**
+   * Delete every entry of this namespace and reset its counters
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async clear(): Promise<number> {
+    this.l1.clear();
+    this.counts = { l1Hits: 0, l2Hits: 0, nearHits: 0, misses: 0 };
+    return this.store.clear(this.namespace);
+  }
+
+  /**
+   * Most accessed live entries
+   */
+  async top(limit: number): Promise<CacheEntry<T>[]> {
+    return this.store.mostAccessed<T>(this.namespace, limit, new Date());
+  }
+
+  /**
+   * Entry counts in the store and lookup counts since start
+   *
+   * @param keyPrefix - Only count store entries whose key starts with this
+   */
+  async stats(keyPrefix?: string): Promise<NamespaceCacheStats> {
+    const stored = await this.store.stats(this.namespace, new Date(), keyPrefix);
+    const { l1Hits, l2Hits, nearHits, misses } = this.counts;
+    const lookups = l1Hits + l2Hits + nearHits + misses;
+
+    return {
+      ...stored,
+      l1Entries: this.l1.size,
+      l1Hits,
+      l2Hits,
+      nearHits,
+      misses,
+      hitRate: lookups > 0 ? (l1Hits + l2Hits + nearHits) / lookups : 0,
+    };
+  }
+}
+
+/**
+ * Cache layer holding the namespaces of one store
+ */
+export class CacheLayer {
+  private namespaces = new Map<CacheNamespace, NamespaceCache<unknown>>();
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly policies: Record<CacheNamespace, CachePolicy> = CACHE_POLICIES
+  ) {}
+
+  /**
+   * Typed cache of a namespace (one instance per namespace)
+   */
+  namespace<T>(namespace: CacheNamespace): NamespaceCache<T> {
+    let cache = this.namespaces.get(namespace);
+    if (!cache) {
+      cache = new NamespaceCache<unknown>(namespace, this.store, this.policies[namespace]);
+      this.namespaces.set(namespace, cache);
+    }
+    return cache as NamespaceCache<T>;
+  }
+
+  /**
+   * Delete entries carrying any of the tags, in every namespace
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async invalidateTags(tags: CacheTag[]): Promise<number> {
+    if (tags.length === 0) {
+      return 0;
+    }
+
+    this.namespaces.forEach(cache => cache.forgetTags(tags));
+    const deleted = await this.store.deleteByTags(tags);
+    console.log(`[Cache] 🗑️  Invalidated ${deleted} entries for ${tags.join(', ')}`);
+    return deleted;
+  }
+
+  /**
+   * Delete everything cached for a product, by product ID and barcode
+   *
+   * @param productId - Product ID
+   * @param barcode - Product barcode, if known
+   * @returns Number of entries deleted from the store
+   */
+  async invalidateProduct(productId: string, barcode?: string | null): Promise<number> {
+    const tags = [productTag(productId)];
+    if (barcode) {
+      tags.push(barcodeTag(barcode));
+    }
+    return this.invalidateTags(tags);
+  }
+
+  /**
+   * Delete expired entries of every namespace
+   *
+   * @returns Number of entries deleted from the store
+   */
+  async clearExpired(): Promise<number> {
+    return Promise.all(CACHE_NAMESPACES.map(namespace => this.namespace(namespace).clearExpired()))
+      .then(counts => counts.reduce((sum, count) => sum + count, 0));
+  }
+
+  /**
+   * Statistics of every namespace
+   */
+  async getStats(): Promise<Record<CacheNamespace, NamespaceCacheStats>> {
+    const stats = await Promise.all(CACHE_NAMESPACES.map(namespace => this.namespace(namespace).stats()));
+    return Object.fromEntries(
+      CACHE_NAMESPACES.map((namespace, i) => [namespace, stats[i]])
+    ) as Record<CacheNamespace, NamespaceCacheStats>;
+  }
+}
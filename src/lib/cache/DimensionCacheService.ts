@@ -1,59 +1,52 @@
 /**
  * Dimension Cache Service
  * 
- * Manages caching of dimension analysis results in MongoDB.
+ * Manages caching of dimension analysis results in the 'dimensions'
+ * namespace of the unified cache layer, keyed and tagged by product ID.
  * Implements 30-day TTL expiration and atomic access tracking.
  * 
  * Requirements: 2.1, 2.3, 2.4, 2.5, 10.1, 10.2, 10.3, 10.7, 13.3, 13.4
  */
 
-import { getMongoClient } from '@/lib/mongodb/client';
 import {
   DimensionCacheEntry,
   DimensionCacheLookupResult,
   DimensionAnalysisResult,
 } from '@/lib/types/dimension-analysis';
+import { cacheLayer, productTag, type CacheEntry, type CacheLayer, type NamespaceCache } from './index';
+import { CACHE_POLICIES, ttlMs } from './policies';
 
-const CACHE_TTL_DAYS = 30; // Requirement 2.7: 30-day expiration
+/**
+ * Value stored per dimension cache entry
+ */
+type DimensionCacheValue = Pick<DimensionCacheEntry, 'dimensions' | 'overallConfidence'>;
 
 /**
  * Dimension Cache Service class
- * Manages dimension analysis cache in MongoDB
+ * Manages dimension analysis cache
  */
 export class DimensionCacheService {
-  private collectionName = 'dimension_analysis';
+  private cache: NamespaceCache<DimensionCacheValue>;
 
   /**
-   * Ensure indexes are created on the collection
-   * Requirements: 10.1, 10.2, 10.3
+   * @param layer - Cache layer to use (default: the shared Mongo-backed layer)
    */
-  private async ensureIndexes(): Promise<void> {
-    try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      // Unique index on productId (Requirement 10.2)
-      await collection.createIndex(
-        { productId: 1 },
-        { unique: true }
-      );
-
-      // TTL index on expiresAt (Requirement 10.3)
-      await collection.createIndex(
-        { expiresAt: 1 },
-        { expireAfterSeconds: 0 }
-      );
-
-      // Index on lastAccessedAt for access tracking
-      await collection.createIndex(
-        { lastAccessedAt: 1 }
-      );
+  constructor(layer: CacheLayer = cacheLayer) {
+    this.cache = layer.namespace<DimensionCacheValue>('dimensions');
+  }
 
-      console.log('[Dimension Cache] ✅ Indexes ensured');
-    } catch (error) {
-      // Indexes may already exist, log but don't throw
-      console.log('[Dimension Cache] Indexes already exist or error:', error);
-    }
+  /**
+   * Convert a cache entry to the entry shape callers expect
+   */
+  private toEntry(entry: CacheEntry<DimensionCacheValue>): DimensionCacheEntry {
+    return {
+      productId: entry.key,
+      ...entry.value,
+      createdAt: entry.createdAt,
+      lastAccessedAt: entry.lastAccessedAt,
+      expiresAt: entry.expiresAt,
+      accessCount: entry.accessCount,
+    };
   }
 
   /**
@@ -67,22 +60,17 @@ export class DimensionCacheService {
     const startTime = Date.now();
 
     try {
-      await this.ensureIndexes();
+      const hit = await this.cache.get(productId, { includeExpired: true });
 
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      const entry = await collection.findOne({ productId });
-
-      if (!entry) {
+      if (!hit) {
         const duration = Date.now() - startTime;
         console.log(`[Dimension Cache] ❌ Cache MISS (${duration}ms)`);
         return { found: false, expired: false };
       }
 
       // Check if entry is expired (> 30 days old)
-      const now = new Date();
-      const expired = entry.expiresAt < now;
+      const entry = this.toEntry(hit.entry);
+      const expired = entry.expiresAt < new Date();
 
       if (expired) {
         const duration = Date.now() - startTime;
@@ -108,16 +96,17 @@ export class DimensionCacheService {
    */
   async store(entry: Omit<DimensionCacheEntry, '_id'>): Promise<void> {
     try {
-      await this.ensureIndexes();
-
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      // Upsert: update if exists, insert if not
-      await collection.updateOne(
-        { productId: entry.productId },
-        { $set: entry },
-        { upsert: true }
+      // Upsert: replace if exists, insert if not
+      await this.cache.set(
+        entry.productId,
+        { dimensions: entry.dimensions, overallConfidence: entry.overallConfidence },
+        {
+          tags: [productTag(entry.productId)],
+          createdAt: entry.createdAt,
+          lastAccessedAt: entry.lastAccessedAt,
+          accessCount: entry.accessCount,
+          expiresAt: entry.expiresAt,
+        }
       );
 
       console.log(`[Dimension Cache] 💾 Stored: confidence=${entry.overallConfidence.toFixed(2)}`);
@@ -135,17 +124,8 @@ export class DimensionCacheService {
    */
   async updateAccess(productId: string): Promise<void> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
       // Atomic update (Requirement 10.7)
-      await collection.updateOne(
-        { productId },
-        {
-          $set: { lastAccessedAt: new Date() },
-          $inc: { accessCount: 1 },
-        }
-      );
+      await this.cache.touch(productId);
 
       console.log(`[Dimension Cache] 🔄 Updated access`);
     } catch (error) {
@@ -162,12 +142,9 @@ export class DimensionCacheService {
    */
   async invalidate(productId: string): Promise<void> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
+      const deleted = await this.cache.delete(productId);
 
-      const result = await collection.deleteOne({ productId });
-
-      if (result.deletedCount > 0) {
+      if (deleted > 0) {
         console.log(`[Dimension Cache] 🗑️  Invalidated`);
       } else {
         console.log(`[Dimension Cache] ⚠️  No entry to invalidate`);
@@ -190,13 +167,10 @@ export class DimensionCacheService {
     productIds?: string[];
   }): Promise<number> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      let query: any = {};
+      let deleted = 0;
 
       if (filter.productIds && filter.productIds.length > 0) {
-        query.productId = { $in: filter.productIds };
+        deleted = await this.cache.delete(filter.productIds);
       }
 
       // For category-based invalidation, we would need to join with products
@@ -207,10 +181,8 @@ export class DimensionCacheService {
         // TODO: Query product repo for product IDs in category, then delete
       }
 
-      const result = await collection.deleteMany(query);
-
-      console.log(`[Dimension Cache] 🗑️  Bulk invalidated ${result.deletedCount} entries`);
-      return result.deletedCount;
+      console.log(`[Dimension Cache] 🗑️  Bulk invalidated ${deleted} entries`);
+      return deleted;
     } catch (error) {
       console.error('[Dimension Cache] Bulk invalidate error:', error);
       return 0;
@@ -228,24 +200,13 @@ export class DimensionCacheService {
     newestEntry: Date | null;
   }> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      const [totalEntries, avgAccessCount, oldestEntry, newestEntry] = await Promise.all([
-        collection.countDocuments(),
-        collection
-          .aggregate([{ $group: { _id: null, avg: { $avg: '$accessCount' } } }])
-          .toArray()
-          .then((result) => result[0]?.avg || 0),
-        collection.findOne({}, { sort: { createdAt: 1 } }),
-        collection.findOne({}, { sort: { createdAt: -1 } }),
-      ]);
+      const stats = await this.cache.stats();
 
       return {
-        totalEntries,
-        avgAccessCount,
-        oldestEntry: oldestEntry?.createdAt || null,
-        newestEntry: newestEntry?.createdAt || null,
+        totalEntries: stats.entries,
+        avgAccessCount: stats.avgAccessCount,
+        oldestEntry: stats.oldestEntry,
+        newestEntry: stats.newestEntry,
       };
     } catch (error) {
       console.error('[Dimension Cache] Get stats error:', error);
@@ -259,15 +220,10 @@ export class DimensionCacheService {
    */
   async clearExpired(): Promise<number> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<DimensionCacheEntry>(this.collectionName);
-
-      const result = await collection.deleteMany({
-        expiresAt: { $lte: new Date() },
-      });
+      const deleted = await this.cache.clearExpired();
 
-      console.log(`[Dimension Cache] 🗑️  Cleared ${result.deletedCount} expired entries`);
-      return result.deletedCount;
+      console.log(`[Dimension Cache] 🗑️  Cleared ${deleted} expired entries`);
+      return deleted;
     } catch (error) {
       console.error('[Dimension Cache] Clear expired error:', error);
       throw error;
@@ -283,7 +239,8 @@ export class DimensionCacheService {
    */
   toCacheEntry(analysis: DimensionAnalysisResult): Omit<DimensionCacheEntry, '_id'> {
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    // Requirement 2.7: 30-day expiration (dimensions namespace policy)
+    const expiresAt = new Date(now.getTime() + ttlMs(CACHE_POLICIES.dimensions.ttlDays));
 
     return {
       productId: analysis.productId,
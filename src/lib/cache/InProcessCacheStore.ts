@@ -0,0 +1,126 @@
+/**
+ * In-Process Cache Store
+ *
+ * Map-backed CacheStore for tests and scripts that run without MongoDB.
+ * Behaves like MongoCacheStore, except that expired entries are only
+ * removed by deleteExpired() rather than by a TTL index.
+ */
+
+import { hammingDistance } from '@/lib/perceptualHash';
+import type {
+  CacheEntry,
+  CacheNamespace,
+  CacheStore,
+  CacheStoreStats,
+  CacheTag,
+} from './types';
+
+export class InProcessCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  private id(namespace: CacheNamespace, key: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+
+  private live(namespace: CacheNamespace, now: Date): CacheEntry<unknown>[] {
+    return [...this.entries.values()].filter(
+      entry => entry.namespace === namespace && entry.expiresAt > now
+    );
+  }
+
+  private deleteWhere(predicate: (entry: CacheEntry<unknown>) => boolean): number {
+    let deleted = 0;
+    for (const [id, entry] of this.entries) {
+      if (predicate(entry)) {
+        this.entries.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async get<T>(namespace: CacheNamespace, key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(this.id(namespace, key));
+    return entry ? { ...(entry as CacheEntry<T>) } : null;
+  }
+
+  async set<T>(entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(this.id(entry.namespace, entry.key), { ...entry });
+  }
+
+  async touch(namespace: CacheNamespace, key: string, accessedAt: Date): Promise<void> {
+    const entry = this.entries.get(this.id(namespace, key));
+    if (entry) {
+      entry.accessCount++;
+      entry.lastAccessedAt = accessedAt;
+    }
+  }
+
+  async delete(namespace: CacheNamespace, keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.entries.delete(this.id(namespace, key))) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async deleteByTags(tags: CacheTag[], namespace?: CacheNamespace): Promise<number> {
+    return this.deleteWhere(entry =>
+      (!namespace || entry.namespace === namespace) && entry.tags.some(tag => tags.includes(tag))
+    );
+  }
+
+  async deleteExpired(now: Date, namespace?: CacheNamespace): Promise<number> {
+    return this.deleteWhere(entry =>
+      (!namespace || entry.namespace === namespace) && entry.expiresAt <= now
+    );
+  }
+
+  async clear(namespace: CacheNamespace): Promise<number> {
+    return this.deleteWhere(entry => entry.namespace === namespace);
+  }
+
+  async findNearest<T>(
+    namespace: CacheNamespace,
+    perceptualHash: string,
+    maxDistance: number,
+    now: Date
+  ): Promise<{ entry: CacheEntry<T>; distance: number } | null> {
+    let best: { entry: CacheEntry<T>; distance: number } | null = null;
+    for (const entry of this.live(namespace, now)) {
+      if (!entry.perceptualHash || entry.perceptualHash.length !== perceptualHash.length) continue;
+
+      const distance = hammingDistance(perceptualHash, entry.perceptualHash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { entry: { ...(entry as CacheEntry<T>) }, distance };
+      }
+    }
+    return best;
+  }
+
+  async mostAccessed<T>(namespace: CacheNamespace, limit: number, now: Date): Promise<CacheEntry<T>[]> {
+    return this.live(namespace, now)
+      .sort((a, b) => b.accessCount - a.accessCount)
+      .slice(0, limit)
+      .map(entry => ({ ...(entry as CacheEntry<T>) }));
+  }
+
+  async stats(namespace: CacheNamespace, now: Date, keyPrefix?: string): Promise<CacheStoreStats> {
+    const entries = this.live(namespace, now).filter(
+      entry => !keyPrefix || entry.key.startsWith(keyPrefix)
+    );
+    if (entries.length === 0) {
+      return { entries: 0, avgAccessCount: 0, oldestEntry: null, newestEntry: null };
+    }
+
+    const created = entries.map(entry => entry.createdAt.getTime());
+    return {
+      entries: entries.length,
+      avgAccessCount: entries.reduce((sum, entry) => sum + entry.accessCount, 0) / entries.length,
+      oldestEntry: new Date(Math.min(...created)),
+      newestEntry: new Date(Math.max(...created)),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * LRU Cache
+ *
+ * Bounded in-memory map used as the L1 tier of the cache layer. Reads move
+ * an entry to the most recently used end; inserting past the limit evicts
+ * the least recently used entry. Each entry also has its own expiry.
+ */
+
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Number of entries held (including any not yet found expired)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a live entry and mark it most recently used
+   */
+  get(key: string, now: number = Date.now()): V | undefined {
+    const item = this.entries.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (item.expiresAt <= now) {
+      return undefined;
+    }
+
+    this.entries.set(key, item);
+    return item.value;
+  }
+
+  /**
+   * Insert or replace an entry, evicting the least recently used past the limit
+   */
+  set(key: string, value: V, expiresAt: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Replace the value of an entry without changing its recency or expiry
+   */
+  update(key: string, updater: (value: V) => V): void {
+    const item = this.entries.get(key);
+    if (item) {
+      item.value = updater(item.value);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Delete every entry matching a predicate
+   *
+   * @returns Number of entries deleted
+   */
+  deleteWhere(predicate: (value: V, key: string) => boolean): number {
+    let deleted = 0;
+    for (const [key, item] of this.entries) {
+      if (predicate(item.value, key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * MongoDB Cache Store
+ *
+ * Persistent (L2) store of the cache layer. Every namespace lives in the
+ * single 'cache' collection, keyed by (namespace, key), with a TTL index on
+ * expiresAt, a multikey index on tags for invalidation and the perceptual
+ * band index for near-duplicate image lookups.
+ */
+
+import type { Collection, Filter } from 'mongodb';
+import { getMongoClient } from '@/lib/mongodb/client';
+import type { CacheDocument } from '@/lib/mongodb/types';
+import {
+  ensurePerceptualIndex,
+  findNearestByPerceptualHash,
+  perceptualFields,
+} from '@/lib/mongodb/perceptual-index';
+import type {
+  CacheEntry,
+  CacheNamespace,
+  CacheStore,
+  CacheStoreStats,
+  CacheTag,
+} from './types';
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toEntry<T>(document: CacheDocument): CacheEntry<T> {
+  return {
+    namespace: document.namespace,
+    key: document.key,
+    value: document.value as T,
+    tags: document.tags,
+    createdAt: document.createdAt,
+    lastAccessedAt: document.lastAccessedAt,
+    accessCount: document.accessCount,
+    expiresAt: document.expiresAt,
+    ...(document.perceptualHash && { perceptualHash: document.perceptualHash }),
+  };
+}
+
+export class MongoCacheStore implements CacheStore {
+  private collectionName = 'cache';
+  private indexesEnsured: Promise<void> | null = null;
+
+  /**
+   * Get the cache collection
+   * Ensures indexes are created once per process
+   */
+  private async getCollection(): Promise<Collection<CacheDocument>> {
+    const db = await getMongoClient();
+    const collection = db.collection<CacheDocument>(this.collectionName);
+
+    if (!this.indexesEnsured) {
+      this.indexesEnsured = this.ensureIndexes(collection);
+    }
+    await this.indexesEnsured;
+
+    return collection;
+  }
+
+  /**
+   * Ensure required indexes exist on the cache collection
+   *
+   * Creates the following indexes:
+   * - (namespace, key): unique index for lookups
+   * - (namespace, tags): multikey index for tag invalidation
+   * - expiresAt: TTL index for automatic document expiration
+   * - perceptualBands: sparse multikey index for near-duplicate lookups
+   *
+   * This method is idempotent and safe to call multiple times.
+   */
+  async ensureIndexes(collection?: Collection<CacheDocument>): Promise<void> {
+    try {
+      collection ??= (await getMongoClient()).collection<CacheDocument>(this.collectionName);
+
+      await collection.createIndex(
+        { namespace: 1, key: 1 },
+        { unique: true, name: 'namespace_key_unique' }
+      );
+
+      await collection.createIndex(
+        { namespace: 1, tags: 1 },
+        { name: 'namespace_tags' }
+      );
+
+      await collection.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0, name: 'expiresAt_ttl' }
+      );
+
+      await ensurePerceptualIndex(collection);
+    } catch (error) {
+      // Ignore errors if indexes already exist
+      if (error instanceof Error && !error.message.includes('already exists')) {
+        console.error('[Cache Store] Error creating indexes:', error);
+      }
+    }
+  }
+
+  async get<T>(namespace: CacheNamespace, key: string): Promise<CacheEntry<T> | null> {
+    const collection = await this.getCollection();
+    const document = await collection.findOne({ namespace, key });
+    return document ? toEntry<T>(document) : null;
+  }
+
+  async set<T>(entry: CacheEntry<T>): Promise<void> {
+    const collection = await this.getCollection();
+    const { perceptualHash, ...fields } = entry;
+
+    await collection.replaceOne(
+      { namespace: entry.namespace, key: entry.key },
+      { ...fields, ...perceptualFields(perceptualHash) },
+      { upsert: true }
+    );
+  }
+
+  async touch(namespace: CacheNamespace, key: string, accessedAt: Date): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.updateOne(
+      { namespace, key },
+      {
+        $set: { lastAccessedAt: accessedAt },
+        $inc: { accessCount: 1 },
+      }
+    );
+  }
+
+  async delete(namespace: CacheNamespace, keys: string[]): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({ namespace, key: { $in: keys } });
+    return result.deletedCount;
+  }
+
+  async deleteByTags(tags: CacheTag[], namespace?: CacheNamespace): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({
+      ...(namespace && { namespace }),
+      tags: { $in: tags },
+    });
+    return result.deletedCount;
+  }
+
+  async deleteExpired(now: Date, namespace?: CacheNamespace): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({
+      ...(namespace && { namespace }),
+      expiresAt: { $lte: now },
+    });
+    return result.deletedCount;
+  }
+
+  async clear(namespace: CacheNamespace): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany({ namespace });
+    return result.deletedCount;
+  }
+
+  async findNearest<T>(
+    namespace: CacheNamespace,
+    perceptualHash: string,
+    maxDistance: number,
+    now: Date
+  ): Promise<{ entry: CacheEntry<T>; distance: number } | null> {
+    const collection = await this.getCollection();
+    const near = await findNearestByPerceptualHash(
+      collection,
+      perceptualHash,
+      { namespace, expiresAt: { $gt: now } },
+      maxDistance
+    );
+    return near ? { entry: toEntry<T>(near.document), distance: near.distance } : null;
+  }
+
+  async mostAccessed<T>(namespace: CacheNamespace, limit: number, now: Date): Promise<CacheEntry<T>[]> {
+    const collection = await this.getCollection();
+    const documents = await collection
+      .find({ namespace, expiresAt: { $gt: now } })
+      .sort({ accessCount: -1 })
+      .limit(limit)
+      .toArray();
+    return documents.map(document => toEntry<T>(document));
+  }
+
+  async stats(namespace: CacheNamespace, now: Date, keyPrefix?: string): Promise<CacheStoreStats> {
+    const collection = await this.getCollection();
+    const match: Filter<CacheDocument> = {
+      namespace,
+      expiresAt: { $gt: now },
+      ...(keyPrefix && { key: { $regex: `^${escapeRegex(keyPrefix)}` } }),
+    };
+
+    const [result] = await collection
+      .aggregate<{ entries: number; avgAccessCount: number; oldestEntry: Date; newestEntry: Date }>([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            entries: { $sum: 1 },
+            avgAccessCount: { $avg: '$accessCount' },
+            oldestEntry: { $min: '$createdAt' },
+            newestEntry: { $max: '$createdAt' },
+          },
+        },
+      ])
+      .toArray();
+
+    return result
+      ? {
+          entries: result.entries,
+          avgAccessCount: result.avgAccessCount,
+          oldestEntry: result.oldestEntry,
+          newestEntry: result.newestEntry,
+        }
+      : { entries: 0, avgAccessCount: 0, oldestEntry: null, newestEntry: null };
+  }
+}
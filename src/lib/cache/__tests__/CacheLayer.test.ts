@@ -0,0 +1,210 @@
+/**
+ * Tests for the Unified Cache Layer
+ * Validates L1/L2 lookups, LRU eviction, expiry, tag invalidation across
+ * namespaces, near-duplicate lookups and statistics, on the in-process store
+ *
+ * @jest-environment node
+ */
+
+import { barcodeTag, CacheLayer, createInProcessCacheLayer, InProcessCacheStore, productTag } from '../index';
+import { LruCache } from '../LruCache';
+import { CacheService } from '@/lib/mongodb/cache-service';
+import { DimensionCacheService } from '../DimensionCacheService';
+import type { ProductData } from '@/lib/types/multi-tier';
+
+describe('Unified Cache Layer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LruCache', () => {
+    it('evicts the least recently used entry past the limit', () => {
+      const lru = new LruCache<number>(2);
+      const later = Date.now() + 60_000;
+
+      lru.set('a', 1, later);
+      lru.set('b', 2, later);
+      lru.get('a');
+      lru.set('c', 3, later);
+
+      expect(lru.get('a')).toBe(1);
+      expect(lru.get('b')).toBeUndefined();
+      expect(lru.get('c')).toBe(3);
+    });
+
+    it('drops entries past their expiry', () => {
+      const lru = new LruCache<number>(2);
+      lru.set('a', 1, 1000);
+
+      expect(lru.get('a', 999)).toBe(1);
+      expect(lru.get('a', 1000)).toBeUndefined();
+      expect(lru.size).toBe(0);
+    });
+  });
+
+  describe('NamespaceCache', () => {
+    let store: InProcessCacheStore;
+    let layer: CacheLayer;
+
+    beforeEach(() => {
+      store = new InProcessCacheStore();
+      layer = new CacheLayer(store);
+    });
+
+    it('serves repeated lookups from L1 and falls back to the store', async () => {
+      const cache = layer.namespace<string>('product');
+      await cache.set('barcode:1', 'granola');
+
+      expect((await cache.get('barcode:1'))?.source).toBe('l1');
+
+      const fresh = new CacheLayer(store).namespace<string>('product');
+      const hit = await fresh.get('barcode:1');
+      expect(hit?.source).toBe('l2');
+      expect(hit?.entry.value).toBe('granola');
+      expect((await fresh.get('barcode:1'))?.source).toBe('l1');
+    });
+
+    it('applies the namespace TTL and allows overrides', async () => {
+      const nutrition = layer.namespace<string>('nutrition');
+
+      const entry = await nutrition.set('hash', 'facts');
+      const custom = await nutrition.set('other', 'facts', { ttlDays: 7 });
+
+      const day = 24 * 60 * 60 * 1000;
+      expect(Math.round((entry.expiresAt.getTime() - entry.createdAt.getTime()) / day)).toBe(30);
+      expect(Math.round((custom.expiresAt.getTime() - custom.createdAt.getTime()) / day)).toBe(7);
+    });
+
+    it('misses expired entries unless asked for them', async () => {
+      const cache = layer.namespace<string>('dimensions');
+      await cache.set('product-1', 'scores', { expiresAt: new Date(Date.now() - 1000) });
+
+      expect(await cache.get('product-1')).toBeNull();
+      expect((await cache.get('product-1', { includeExpired: true }))?.entry.value).toBe('scores');
+
+      expect(await cache.clearExpired()).toBe(1);
+      expect(await cache.get('product-1', { includeExpired: true })).toBeNull();
+    });
+
+    it('keeps L1 in step with touches and deletes', async () => {
+      const cache = layer.namespace<string>('product');
+      await cache.set('barcode:1', 'granola');
+      await cache.get('barcode:1');
+
+      await cache.touch('barcode:1');
+      expect((await cache.get('barcode:1'))?.entry.accessCount).toBe(1);
+      expect((await store.get('product', 'barcode:1'))?.accessCount).toBe(1);
+
+      expect(await cache.delete('barcode:1')).toBe(1);
+      expect(await cache.get('barcode:1')).toBeNull();
+    });
+
+    it('bounds L1 by the namespace policy', async () => {
+      const cache = createInProcessCacheLayer({ classification: { l1MaxEntries: 2 } }).namespace<string>('classification');
+
+      await cache.set('a', 'barcode');
+      await cache.set('b', 'barcode');
+      await cache.set('c', 'barcode');
+
+      expect((await cache.stats()).l1Entries).toBe(2);
+      expect((await cache.get('a'))?.source).toBe('l2');
+    });
+
+    it('falls back to the closest perceptual hash', async () => {
+      const cache = layer.namespace<string>('nutrition');
+      await cache.set('far', 'other label', { perceptualHash: '00000000000000ff' });
+      await cache.set('close', 'same label', { perceptualHash: '0000000000000001' });
+
+      const hit = await cache.get('new-photo', { perceptualHash: '0000000000000000', maxDistance: 4 });
+
+      expect(hit).toMatchObject({ source: 'near', distance: 1 });
+      expect(hit?.entry.key).toBe('close');
+      expect(await cache.get('new-photo', { perceptualHash: 'ffffffffffffffff', maxDistance: 4 })).toBeNull();
+    });
+  });
+
+  describe('invalidation', () => {
+    it('invalidates tagged entries in every namespace, including L1', async () => {
+      const layer = createInProcessCacheLayer();
+      const product = layer.namespace<string>('product');
+      const dimensions = layer.namespace<string>('dimensions');
+      await product.set('barcode:00012345678905', 'granola', { tags: [barcodeTag('012345678905')] });
+      await product.set('imageHash:abc', 'granola', { tags: [productTag('product-1')] });
+      await dimensions.set('product-1', 'scores', { tags: [productTag('product-1')] });
+      await dimensions.set('product-2', 'scores', { tags: [productTag('product-2')] });
+
+      const deleted = await layer.invalidateProduct('product-1', '0012345678905');
+
+      expect(deleted).toBe(3);
+      expect(await product.get('barcode:00012345678905')).toBeNull();
+      expect(await product.get('imageHash:abc')).toBeNull();
+      expect(await dimensions.get('product-1')).toBeNull();
+      expect(await dimensions.get('product-2')).not.toBeNull();
+    });
+
+    it('invalidates product identifications and dimension analyses through the adapters', async () => {
+      const layer = createInProcessCacheLayer();
+      const cacheService = new CacheService(layer);
+      const dimensionCache = new DimensionCacheService(layer);
+      const productData: ProductData = {
+        id: 'product-1',
+        barcode: '012345678905',
+        name: 'Granola',
+        brand: 'Acme',
+        category: 'Cereal',
+        metadata: {},
+      };
+
+      await cacheService.store('012345678905', 'barcode', productData, 1, 0.95);
+      await cacheService.store('abc', 'imageHash', productData, 2, 0.8);
+      await dimensionCache.store({
+        productId: 'product-1',
+        dimensions: {} as never,
+        overallConfidence: 0.9,
+        createdAt: new Date(),
+        lastAccessedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60_000),
+        accessCount: 0,
+      });
+
+      expect((await cacheService.lookup('0012345678905', 'barcode')).hit).toBe(true);
+
+      await layer.invalidateProduct('product-1');
+
+      expect((await cacheService.lookup('012345678905', 'barcode')).hit).toBe(false);
+      expect((await cacheService.lookup('abc', 'imageHash')).hit).toBe(false);
+      expect((await dimensionCache.lookup('product-1')).found).toBe(false);
+    });
+  });
+
+  describe('getStats', () => {
+    it('reports entries and lookup outcomes per namespace', async () => {
+      const layer = createInProcessCacheLayer();
+      const product = layer.namespace<string>('product');
+      await product.set('barcode:1', 'granola');
+      await product.set('imageHash:a', 'granola', { perceptualHash: '0000000000000000' });
+
+      await product.get('barcode:1'); // l1
+      await product.get('missing'); // miss
+      await product.get('imageHash:b', { perceptualHash: '0000000000000001' }); // near
+
+      const stats = await layer.getStats();
+
+      expect(stats.product).toMatchObject({
+        entries: 2,
+        l1Hits: 1,
+        l2Hits: 0,
+        nearHits: 1,
+        misses: 1,
+      });
+      expect(stats.product.hitRate).toBeCloseTo(2 / 3);
+      expect(stats.nutrition.entries).toBe(0);
+      expect(Object.keys(stats)).toEqual(['product', 'nutrition', 'dimensions', 'classification', 'insights']);
+      expect((await product.stats('imageHash:')).entries).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unified Cache
+ *
+ * Entry point of the cache subsystem. The app uses the Mongo-backed
+ * `cacheLayer` singleton; tests and scripts without MongoDB use
+ * createInProcessCacheLayer().
+ */
+
+import { CacheLayer } from './CacheLayer';
+import { InProcessCacheStore } from './InProcessCacheStore';
+import { MongoCacheStore } from './MongoCacheStore';
+import { CACHE_POLICIES, type CachePolicy } from './policies';
+import type { CacheNamespace } from './types';
+
+export * from './types';
+export { CacheLayer, NamespaceCache } from './CacheLayer';
+export { CACHE_POLICIES, type CachePolicy } from './policies';
+export { InProcessCacheStore } from './InProcessCacheStore';
+export { MongoCacheStore } from './MongoCacheStore';
+
+/**
+ * Cache layer backed by an in-process store
+ *
+ * @param policies - Policy overrides (e.g. a small L1 for eviction tests)
+ */
+export function createInProcessCacheLayer(
+  policies: Partial<Record<CacheNamespace, Partial<CachePolicy>>> = {}
+): CacheLayer {
+  const merged = Object.fromEntries(
+    Object.entries(CACHE_POLICIES).map(([namespace, policy]) => [
+      namespace,
+      { ...policy, ...policies[namespace as CacheNamespace] },
+    ])
+  ) as Record<CacheNamespace, CachePolicy>;
+
+  return new CacheLayer(new InProcessCacheStore(), merged);
+}
+
+// Export singleton instance
+export const mongoCacheStore = new MongoCacheStore();
+export const cacheLayer = new CacheLayer(mongoCacheStore);
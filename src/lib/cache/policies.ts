@@ -0,0 +1,44 @@
+/**
+ * Cache Policies
+ *
+ * TTL and in-memory (L1) limits per namespace. Entries live in the
+ * persistent store (L2) for ttlDays; the L1 tier keeps the most recently
+ * used l1MaxEntries for at most l1TtlMs, which bounds how long another
+ * server instance's invalidation can go unseen.
+ */
+
+import type { CacheNamespace } from './types';
+
+/**
+ * Policy of one namespace
+ */
+export interface CachePolicy {
+  ttlDays: number;
+  l1MaxEntries: number;
+  l1TtlMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Policies by namespace
+ */
+export const CACHE_POLICIES: Record<CacheNamespace, CachePolicy> = {
+  // Requirement 7.5: product identifications expire after 90 days
+  product: { ttlDays: 90, l1MaxEntries: 500, l1TtlMs: 5 * MINUTE_MS },
+  // Requirement 6.4: nutrition analyses expire after 30 days
+  nutrition: { ttlDays: 30, l1MaxEntries: 200, l1TtlMs: 5 * MINUTE_MS },
+  // Requirement 2.7: dimension analyses expire after 30 days
+  dimensions: { ttlDays: 30, l1MaxEntries: 500, l1TtlMs: 5 * MINUTE_MS },
+  // Image type of an exact image; only useful while a scan is retried
+  classification: { ttlDays: 1, l1MaxEntries: 1000, l1TtlMs: 30 * MINUTE_MS },
+  // Legacy AI insights (ScanOrchestrator)
+  insights: { ttlDays: 30, l1MaxEntries: 200, l1TtlMs: 5 * MINUTE_MS },
+};
+
+/**
+ * Milliseconds in a TTL of the given days
+ */
+export function ttlMs(days: number): number {
+  return days * 24 * 60 * 60 * 1000;
+}
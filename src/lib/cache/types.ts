@@ -0,0 +1,134 @@
+/**
+ * Unified Cache Types
+ *
+ * Types shared by the cache layer, its stores and the namespaced caches
+ * built on it.
+ */
+
+import { toBarcodeKey } from '@/lib/barcode/gtin';
+
+/**
+ * Cache namespace; each has its own TTL and L1 policy (see CACHE_POLICIES)
+ */
+export type CacheNamespace = 'product' | 'nutrition' | 'dimensions' | 'classification' | 'insights';
+
+/**
+ * All namespaces, in stats order
+ */
+export const CACHE_NAMESPACES: CacheNamespace[] = ['product', 'nutrition', 'dimensions', 'classification', 'insights'];
+
+/**
+ * Invalidation tag attached to entries derived from a product or barcode
+ */
+export type CacheTag = `product:${string}` | `barcode:${string}`;
+
+/**
+ * Tag for entries derived from a product
+ */
+export function productTag(productId: string): CacheTag {
+  return `product:${productId}`;
+}
+
+/**
+ * Tag for entries derived from a barcode (normalized to GTIN-14, so every
+ * printed form of the barcode maps to the same tag)
+ */
+export function barcodeTag(barcode: string): CacheTag {
+  return `barcode:${toBarcodeKey(barcode)}`;
+}
+
+/**
+ * Cached value with its bookkeeping
+ */
+export interface CacheEntry<T> {
+  namespace: CacheNamespace;
+  key: string;
+  value: T;
+  tags: CacheTag[];
+  createdAt: Date;
+  lastAccessedAt: Date;
+  accessCount: number;
+  expiresAt: Date;
+  perceptualHash?: string; // For near-duplicate image lookups
+}
+
+/**
+ * Options for storing an entry
+ */
+export interface CacheSetOptions {
+  tags?: CacheTag[];
+  ttlDays?: number; // Defaults to the namespace policy
+  perceptualHash?: string | null;
+  createdAt?: Date; // Defaults to now (e.g. when the value was computed earlier)
+  expiresAt?: Date; // Overrides ttlDays (e.g. when restoring a snapshot)
+  lastAccessedAt?: Date; // Defaults to now
+  accessCount?: number; // Defaults to 0
+}
+
+/**
+ * Options for looking up an entry
+ */
+export interface CacheGetOptions {
+  perceptualHash?: string; // Fall back to the closest entry by perceptual hash
+  maxDistance?: number; // Hamming distance threshold for the fallback
+  includeExpired?: boolean; // Return expired entries (flagged by expiresAt) instead of missing
+}
+
+/**
+ * Where a lookup was answered from
+ */
+export type CacheHitSource = 'l1' | 'l2' | 'near';
+
+/**
+ * Successful lookup
+ */
+export interface CacheHit<T> {
+  entry: CacheEntry<T>;
+  source: CacheHitSource;
+  distance?: number; // Hamming distance of a near hit
+}
+
+/**
+ * Entry counts of a namespace in a store
+ */
+export interface CacheStoreStats {
+  entries: number;
+  avgAccessCount: number;
+  oldestEntry: Date | null;
+  newestEntry: Date | null;
+}
+
+/**
+ * Statistics of one namespace
+ */
+export interface NamespaceCacheStats extends CacheStoreStats {
+  l1Entries: number;
+  l1Hits: number;
+  l2Hits: number;
+  nearHits: number;
+  misses: number;
+  hitRate: number; // (l1 + l2 + near) / lookups, 0-1
+}
+
+/**
+ * Persistent (L2) backend of the cache layer
+ *
+ * Stores return expired entries from get(); expiry is applied by the layer.
+ */
+export interface CacheStore {
+  get<T>(namespace: CacheNamespace, key: string): Promise<CacheEntry<T> | null>;
+  set<T>(entry: CacheEntry<T>): Promise<void>;
+  touch(namespace: CacheNamespace, key: string, accessedAt: Date): Promise<void>;
+  delete(namespace: CacheNamespace, keys: string[]): Promise<number>;
+  deleteByTags(tags: CacheTag[], namespace?: CacheNamespace): Promise<number>;
+  deleteExpired(now: Date, namespace?: CacheNamespace): Promise<number>;
+  clear(namespace: CacheNamespace): Promise<number>;
+  findNearest<T>(
+    namespace: CacheNamespace,
+    perceptualHash: string,
+    maxDistance: number,
+    now: Date
+  ): Promise<{ entry: CacheEntry<T>; distance: number } | null>;
+  mostAccessed<T>(namespace: CacheNamespace, limit: number, now: Date): Promise<CacheEntry<T>[]>;
+  stats(namespace: CacheNamespace, now: Date, keyPrefix?: string): Promise<CacheStoreStats>;
+}
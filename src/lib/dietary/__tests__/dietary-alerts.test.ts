@@ -0,0 +1,139 @@
+/**
+ * Dietary Alerts Tests
+ * 
+ * Tests personalized alerts computed from a dietary profile and the
+ * validation of profile updates.
+ */
+
+import { computeDietaryAlerts, nutritionFromSection, type DietaryRestrictions } from '../dietary-alerts';
+import { DietaryProfileError, parseDietaryProfileInput } from '../dietary-profile-service';
+
+// IngredientParser pulls in the LLM providers
+jest.mock('@/lib/llm/provider-factory', () => ({
+  getLLMProvider: jest.fn(),
+}));
+
+function restrictions(overrides: Partial<DietaryRestrictions>): DietaryRestrictions {
+  return {
+    allergens: [],
+    avoided_ingredients: [],
+    diet: 'omnivore',
+    religious_diet: null,
+    low_sodium: false,
+    max_sodium_mg: null,
+    diabetic: false,
+    max_sugar_g: null,
+    max_carbs_g: null,
+    ...overrides,
+  };
+}
+
+describe('Dietary Alerts', () => {
+  const chocolateBar = ['sugar', 'cocoa butter', 'whole milk powder', 'roasted peanuts', 'soy lecithin', 'palm oil'];
+
+  it('alerts on avoided allergens with the ingredients that contain them', () => {
+    const alerts = computeDietaryAlerts(restrictions({ allergens: ['peanuts', 'milk', 'eggs'] }), chocolateBar);
+
+    expect(alerts.map(alert => alert.label)).toEqual(['peanuts', 'milk']);
+    expect(alerts[1]).toMatchObject({
+      kind: 'allergen',
+      severity: 'danger',
+      message: 'Contains milk, which you avoid',
+      ingredients: ['whole milk powder'],
+    });
+  });
+
+  it('does not treat plant-based dairy names as milk', () => {
+    const alerts = computeDietaryAlerts(restrictions({ allergens: ['milk'] }), ['coconut milk', 'cocoa butter']);
+
+    expect(alerts).toEqual([]);
+  });
+
+  it('matches avoided ingredients as whole words, including plurals', () => {
+    const alerts = computeDietaryAlerts(
+      restrictions({ avoided_ingredients: ['palm oil', 'date'] }),
+      [...chocolateBar, 'dates', 'hydrated salt']
+    );
+
+    expect(alerts.map(alert => [alert.label, alert.ingredients])).toEqual([
+      ['palm oil', ['palm oil']],
+      ['date', ['dates']],
+    ]);
+  });
+
+  it('flags animal products for vegetarian and vegan profiles', () => {
+    const ingredients = ['wheat flour', 'gelatin', 'honey', 'milk'];
+
+    const vegetarian = computeDietaryAlerts(restrictions({ diet: 'vegetarian' }), ingredients);
+    const vegan = computeDietaryAlerts(restrictions({ diet: 'vegan' }), ingredients);
+
+    expect(vegetarian[0].ingredients).toEqual(['gelatin']);
+    expect(vegan[0]).toMatchObject({ label: 'not vegan', ingredients: ['gelatin', 'honey', 'milk'] });
+  });
+
+  it('applies halal and kosher rules', () => {
+    const halal = computeDietaryAlerts(
+      restrictions({ religious_diet: 'halal' }),
+      ['pork', 'white wine vinegar', 'gelatin', 'beef gelatin (halal)']
+    );
+    expect(halal).toEqual([
+      expect.objectContaining({ severity: 'danger', ingredients: ['pork', 'white wine vinegar'] }),
+      expect.objectContaining({ severity: 'warning', label: 'check source', ingredients: ['gelatin'] }),
+    ]);
+
+    const kosher = computeDietaryAlerts(restrictions({ religious_diet: 'kosher' }), ['beef', 'cheddar cheese', 'shrimp']);
+    expect(kosher.map(alert => alert.label)).toEqual(['not kosher', 'meat with dairy']);
+  });
+
+  it('warns when nutrients exceed the profile limits', () => {
+    const profile = restrictions({ low_sodium: true, diabetic: true, max_carbs_g: 20 });
+
+    const alerts = computeDietaryAlerts(profile, [], { sodiumMg: 400, sugarsG: 12, carbsG: 18 });
+
+    expect(alerts.map(alert => alert.kind)).toEqual(['sodium', 'sugar']);
+    expect(alerts[0].message).toBe('400mg sodium per serving, above your 140mg limit');
+    expect(alerts.every(alert => alert.severity === 'warning')).toBe(true);
+  });
+
+  it('lists restriction violations before warnings', () => {
+    const alerts = computeDietaryAlerts(
+      restrictions({ low_sodium: true, allergens: ['peanuts'] }),
+      ['peanuts'],
+      { sodiumMg: 500 }
+    );
+
+    expect(alerts.map(alert => alert.severity)).toEqual(['danger', 'warning']);
+  });
+
+  it('reads nutrients from an extracted Nutrition Facts section', () => {
+    expect(nutritionFromSection({
+      serving_size: '1 bar',
+      macros: {
+        sodium: { value: 0.2, unit: 'g' },
+        total_sugars: { value: 21, unit: 'g' },
+        total_carbohydrate: { value: 30, unit: 'g' },
+      },
+    })).toEqual({ sodiumMg: 200, sugarsG: 21, carbsG: 30 });
+  });
+});
+
+describe('Dietary Profile Input', () => {
+  it('keeps only sent fields and normalizes avoided ingredients', () => {
+    expect(parseDietaryProfileInput({
+      allergens: ['peanuts', 'peanuts'],
+      avoided_ingredients: [' Palm Oil ', 'palm oil', ''],
+      religious_diet: null,
+    })).toEqual({
+      allergens: ['peanuts'],
+      avoided_ingredients: ['palm oil'],
+      religious_diet: null,
+    });
+  });
+
+  it('rejects unknown allergens, diets and invalid limits', () => {
+    expect(() => parseDietaryProfileInput({ allergens: ['gluten'] })).toThrow(DietaryProfileError);
+    expect(() => parseDietaryProfileInput({ diet: 'keto' })).toThrow('diet must be one of');
+    expect(() => parseDietaryProfileInput({ max_sodium_mg: -5 })).toThrow('max_sodium_mg');
+    expect(() => parseDietaryProfileInput([])).toThrow('Request body must be an object');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Dietary Alerts
+ *
+ * Computes personalized "contains X you avoid" alerts for a scanned product
+ * from the user's dietary profile, the parsed ingredient list and the
+ * per-serving nutrition facts:
+ * - allergens (allergen knowledge base) and avoided ingredients
+ * - animal products for vegetarian and vegan profiles
+ * - pork, alcohol and uncertain animal-derived ingredients for halal and
+ *   kosher profiles (plus shellfish, molluscs and meat with dairy for kosher)
+ * - sodium above the low-sodium limit, sugar and carbohydrates above the
+ *   diabetic targets
+ *
+ * Ingredients that break a restriction are "danger" alerts; ingredients of
+ * uncertain origin and nutrient limits are "warning" alerts.
+ */
+
+import { findAllergens, getAllergenClass, ALLERGEN_TYPES, type AllergenType } from '@/lib/allergens/allergen-knowledge-base';
+import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+import type { NutritionSection } from '@/lib/prompts/response-schemas';
+import type { UserDietaryProfile } from '@/lib/supabase/types';
+import { DEFAULT_MAX_SODIUM_MG, DEFAULT_MAX_SUGAR_G } from './dietary-limits';
+
+export type DietaryAlertKind = 'allergen' | 'ingredient' | 'diet' | 'religious' | 'sodium' | 'sugar' | 'carbs';
+
+export type DietaryAlertSeverity = 'danger' | 'warning';
+
+/**
+ * Personalized alert shown with a scan result
+ */
+export interface DietaryAlert {
+  kind: DietaryAlertKind;
+  severity: DietaryAlertSeverity;
+  label: string; // What is avoided, e.g. "peanuts", "not vegan"
+  message: string;
+  ingredients: string[]; // Ingredients that triggered the alert
+}
+
+/**
+ * Per-serving nutrients checked against the profile
+ */
+export interface DietaryNutrition {
+  sodiumMg?: number | null;
+  sugarsG?: number | null;
+  carbsG?: number | null;
+}
+
+/**
+ * Restrictions checked by computeDietaryAlerts
+ */
+export type DietaryRestrictions = Pick<
+  UserDietaryProfile,
+  'allergens' | 'avoided_ingredients' | 'diet' | 'religious_diet' | 'low_sodium' | 'max_sodium_mg' | 'diabetic' | 'max_sugar_g' | 'max_carbs_g'
+>;
+
+const MEAT_PATTERN = /\b(meat|beef|pork|chicken|turkey|lamb|mutton|veal|duck|goose|venison|bacon|ham|sausages?|salami|pepperoni|prosciutto|chorizo|lard|tallow|suet|bone broth|(?:beef|chicken|pork|meat|fish) (?:stock|broth|extract|fat))\b/i;
+
+/**
+ * Animal-derived ingredients that are neither meat nor a major allergen
+ */
+const NON_VEGETARIAN_PATTERN = /\b(gelatine?|rennet|carmine|cochineal|isinglass|fish oil|anchov(?:y|ies)|animal fat)\b/i;
+
+const NON_VEGAN_PATTERN = /\b(honey|beeswax|shellac|lanolin|royal jelly|propolis)\b/i;
+
+const PORK_PATTERN = /\b(pork|bacon|ham|lard|prosciutto|pancetta|pepperoni|chorizo|salami)\b/i;
+
+const ALCOHOL_PATTERN = /\b(alcohol|ethanol|wine|beer|rum|brandy|whisk(?:e)?y|vodka|liqueur|sherry|cognac|sake|mirin)\b/i;
+
+/**
+ * Ingredients whose source (and so status) is usually not stated
+ */
+const UNCERTAIN_ORIGIN_PATTERN = /\b(gelatine?|rennet|mono-? and diglycerides|animal fat|carmine|l-cysteine)\b/i;
+
+const SOURCE_STATED_PATTERN = /\b(halal|kosher|vegetable|plant|microbial|fish)\b/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern for a free-text avoided ingredient, matching whole words and plurals
+ */
+function avoidedIngredientPattern(term: string): RegExp {
+  const words = term.trim().toLowerCase().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`\\b${words}(?:s|es)?\\b`, 'i');
+}
+
+function matching(ingredients: string[], test: (ingredient: string) => boolean): string[] {
+  return ingredients.filter(test);
+}
+
+function hasAllergen(ingredient: string, types: AllergenType[]): boolean {
+  return findAllergens(ingredient).some(match => types.includes(match.type));
+}
+
+function allergenLabel(type: AllergenType): string {
+  return getAllergenClass(type).label.toLowerCase();
+}
+
+function pushAlert(
+  alerts: DietaryAlert[],
+  alert: Omit<DietaryAlert, 'ingredients'>,
+  ingredients: string[]
+): void {
+  if (ingredients.length > 0) {
+    alerts.push({ ...alert, ingredients });
+  }
+}
+
+function dietAlerts(profile: DietaryRestrictions, ingredients: string[], alerts: DietaryAlert[]): void {
+  if (profile.diet === 'omnivore') {
+    return;
+  }
+
+  const animalAllergens: AllergenType[] = profile.diet === 'vegan'
+    ? ['fish', 'shellfish', 'molluscs', 'milk', 'eggs']
+    : ['fish', 'shellfish', 'molluscs'];
+
+  const offending = matching(ingredients, ingredient =>
+    MEAT_PATTERN.test(ingredient) ||
+    NON_VEGETARIAN_PATTERN.test(ingredient) ||
+    hasAllergen(ingredient, animalAllergens) ||
+    (profile.diet === 'vegan' && NON_VEGAN_PATTERN.test(ingredient))
+  );
+
+  pushAlert(alerts, {
+    kind: 'diet',
+    severity: 'danger',
+    label: `not ${profile.diet}`,
+    message: `Contains animal products, not ${profile.diet}`,
+  }, offending);
+}
+
+function religiousAlerts(profile: DietaryRestrictions, ingredients: string[], alerts: DietaryAlert[]): void {
+  const law = profile.religious_diet;
+  if (!law) {
+    return;
+  }
+
+  const forbidden = matching(ingredients, ingredient =>
+    PORK_PATTERN.test(ingredient) ||
+    (law === 'halal' && ALCOHOL_PATTERN.test(ingredient)) ||
+    (law === 'kosher' && hasAllergen(ingredient, ['shellfish', 'molluscs']))
+  );
+  pushAlert(alerts, {
+    kind: 'religious',
+    severity: 'danger',
+    label: `not ${law}`,
+    message: law === 'halal' ? 'Contains pork or alcohol, not halal' : 'Contains pork or shellfish, not kosher',
+  }, forbidden);
+
+  if (law === 'kosher') {
+    const meat = matching(ingredients, ingredient => MEAT_PATTERN.test(ingredient) && !PORK_PATTERN.test(ingredient));
+    const dairy = matching(ingredients, ingredient => hasAllergen(ingredient, ['milk']));
+    if (meat.length > 0 && dairy.length > 0) {
+      pushAlert(alerts, {
+        kind: 'religious',
+        severity: 'danger',
+        label: 'meat with dairy',
+        message: 'Combines meat and dairy, not kosher',
+      }, [...meat, ...dairy]);
+    }
+  }
+
+  const uncertain = matching(ingredients, ingredient =>
+    UNCERTAIN_ORIGIN_PATTERN.test(ingredient) &&
+    !SOURCE_STATED_PATTERN.test(ingredient) &&
+    !forbidden.includes(ingredient)
+  );
+  pushAlert(alerts, {
+    kind: 'religious',
+    severity: 'warning',
+    label: 'check source',
+    message: `May not be ${law}: the source of some ingredients is not stated`,
+  }, uncertain);
+}
+
+function nutrientAlerts(profile: DietaryRestrictions, nutrition: DietaryNutrition, alerts: DietaryAlert[]): void {
+  if (profile.low_sodium && nutrition.sodiumMg != null) {
+    const limit = profile.max_sodium_mg ?? DEFAULT_MAX_SODIUM_MG;
+    if (nutrition.sodiumMg > limit) {
+      alerts.push({
+        kind: 'sodium',
+        severity: 'warning',
+        label: 'high sodium',
+        message: `${nutrition.sodiumMg}mg sodium per serving, above your ${limit}mg limit`,
+        ingredients: [],
+      });
+    }
+  }
+
+  if (profile.diabetic) {
+    const sugarLimit = profile.max_sugar_g ?? DEFAULT_MAX_SUGAR_G;
+    if (nutrition.sugarsG != null && nutrition.sugarsG > sugarLimit) {
+      alerts.push({
+        kind: 'sugar',
+        severity: 'warning',
+        label: 'high sugar',
+        message: `${nutrition.sugarsG}g sugar per serving, above your ${sugarLimit}g target`,
+        ingredients: [],
+      });
+    }
+
+    if (profile.max_carbs_g != null && nutrition.carbsG != null && nutrition.carbsG > profile.max_carbs_g) {
+      alerts.push({
+        kind: 'carbs',
+        severity: 'warning',
+        label: 'high carbohydrates',
+        message: `${nutrition.carbsG}g carbohydrates per serving, above your ${profile.max_carbs_g}g target`,
+        ingredients: [],
+      });
+    }
+  }
+}
+
+/**
+ * Compute the alerts for a product
+ *
+ * @param profile - User's dietary restrictions
+ * @param ingredients - Ingredient names in label order
+ * @param nutrition - Per-serving nutrients, when known
+ * @returns Alerts, restriction violations ("danger") first
+ */
+export function computeDietaryAlerts(
+  profile: DietaryRestrictions,
+  ingredients: string[],
+  nutrition: DietaryNutrition = {}
+): DietaryAlert[] {
+  const alerts: DietaryAlert[] = [];
+
+  for (const allergen of profile.allergens as AllergenType[]) {
+    if (!ALLERGEN_TYPES.includes(allergen)) continue;
+    const label = allergenLabel(allergen);
+    pushAlert(alerts, {
+      kind: 'allergen',
+      severity: 'danger',
+      label,
+      message: `Contains ${label}, which you avoid`,
+    }, matching(ingredients, ingredient => hasAllergen(ingredient, [allergen])));
+  }
+
+  for (const term of profile.avoided_ingredients) {
+    if (!term.trim()) continue;
+    const pattern = avoidedIngredientPattern(term);
+    pushAlert(alerts, {
+      kind: 'ingredient',
+      severity: 'danger',
+      label: term.trim(),
+      message: `Contains ${term.trim()}, which you avoid`,
+    }, matching(ingredients, ingredient => pattern.test(ingredient)));
+  }
+
+  dietAlerts(profile, ingredients, alerts);
+  religiousAlerts(profile, ingredients, alerts);
+  nutrientAlerts(profile, nutrition, alerts);
+
+  return alerts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'danger' ? -1 : 1));
+}
+
+/**
+ * Nutrients from NutritionParser facts (/api/analyze-nutrition)
+ */
+export function nutritionFromFacts(facts: NutritionalFacts): DietaryNutrition {
+  return {
+    sodiumMg: facts.sodium?.value,
+    sugarsG: facts.totalSugars?.value,
+    carbsG: facts.totalCarbohydrates?.value,
+  };
+}
+
+/**
+ * Nutrients from an extracted Nutrition Facts section (/api/test-all-extraction)
+ */
+export function nutritionFromSection(section: NutritionSection | null | undefined): DietaryNutrition {
+  const macros = section?.macros || {};
+
+  const sodium = macros.sodium;
+  const sodiumMg = sodium?.value != null
+    ? (sodium.unit?.toLowerCase() === 'g' ? sodium.value * 1000 : sodium.value)
+    : null;
+
+  return {
+    sodiumMg,
+    sugarsG: macros.total_sugars?.value ?? null,
+    carbsG: macros.total_carbohydrate?.value ?? null,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Default nutrient limits of dietary profiles
+ * (kept separate from the alert rules so client pages can import them)
+ */
+
+/**
+ * Default sodium limit per serving (FDA "low sodium" claim)
+ */
+export const DEFAULT_MAX_SODIUM_MG = 140;
+
+/**
+ * Default sugar limit per serving for diabetic profiles
+ */
+export const DEFAULT_MAX_SUGAR_G = 5;
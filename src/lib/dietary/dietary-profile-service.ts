@@ -0,0 +1,248 @@
+/**
+ * Dietary Profile Service
+ *
+ * Loads and saves users' dietary profiles (user_dietary_profiles) for the
+ * settings page and resolves the profile of the user making a scan request,
+ * so scan APIs can attach personalized dietary alerts. Requests identify
+ * the user with their Supabase access token (`Authorization: Bearer <token>`).
+ */
+
+import type { NextRequest } from 'next/server';
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import { ALLERGEN_TYPES, type AllergenType } from '@/lib/services/ingredient-parser';
+import { HEALTH_PROFILE_IDS, isHealthProfileId } from '@/lib/services/health-profiles';
+import type { DietType, ReligiousDiet, UserDietaryProfile, UserDietaryProfileInsert } from '@/lib/supabase/types';
+
+const DIET_TYPES: DietType[] = ['omnivore', 'vegetarian', 'vegan'];
+const RELIGIOUS_DIETS: ReligiousDiet[] = ['halal', 'kosher'];
+
+/**
+ * Maximum number of avoided ingredients per profile
+ */
+export const MAX_AVOIDED_INGREDIENTS = 50;
+
+/**
+ * Profile fields the user can edit
+ */
+export type DietaryProfileInput = Omit<UserDietaryProfileInsert, 'user_id'>;
+
+/**
+ * Invalid profile input (HTTP 400)
+ */
+export class DietaryProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DietaryProfileError';
+  }
+}
+
+/**
+ * Profile of a user who has not saved one yet
+ */
+export function emptyDietaryProfile(userId: string): UserDietaryProfile {
+  const now = new Date().toISOString();
+  return {
+    user_id: userId,
+    allergens: [],
+    avoided_ingredients: [],
+    diet: 'omnivore',
+    religious_diet: null,
+    low_sodium: false,
+    max_sodium_mg: null,
+    diabetic: false,
+    max_sugar_g: null,
+    max_carbs_g: null,
+    health_profile: 'default',
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+function optionalLimit(body: Record<string, unknown>, field: string): number | null | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new DietaryProfileError(`${field} must be a non-negative number or null`);
+  }
+  return value;
+}
+
+function optionalBoolean(body: Record<string, unknown>, field: string): boolean | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new DietaryProfileError(`${field} must be a boolean`);
+  }
+  return value;
+}
+
+/**
+ * Validate a profile update from the settings page
+ *
+ * @param body - Parsed JSON request body
+ * @returns Fields to save (omitted fields are left unchanged)
+ * @throws DietaryProfileError if a field is invalid
+ */
+export function parseDietaryProfileInput(body: unknown): DietaryProfileInput {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new DietaryProfileError('Request body must be an object');
+  }
+
+  const data = body as Record<string, unknown>;
+  const input: DietaryProfileInput = {};
+
+  if (data.allergens !== undefined) {
+    if (!Array.isArray(data.allergens) || data.allergens.some(allergen => !ALLERGEN_TYPES.includes(allergen as AllergenType))) {
+      throw new DietaryProfileError(`allergens must be a list of: ${ALLERGEN_TYPES.join(', ')}`);
+    }
+    input.allergens = [...new Set(data.allergens as string[])];
+  }
+
+  if (data.avoided_ingredients !== undefined) {
+    if (!Array.isArray(data.avoided_ingredients) || data.avoided_ingredients.some(term => typeof term !== 'string')) {
+      throw new DietaryProfileError('avoided_ingredients must be a list of strings');
+    }
+    const terms = [...new Set((data.avoided_ingredients as string[]).map(term => term.trim().toLowerCase()).filter(Boolean))];
+    if (terms.length > MAX_AVOIDED_INGREDIENTS) {
+      throw new DietaryProfileError(`At most ${MAX_AVOIDED_INGREDIENTS} avoided ingredients are allowed`);
+    }
+    input.avoided_ingredients = terms;
+  }
+
+  if (data.diet !== undefined) {
+    if (!DIET_TYPES.includes(data.diet as DietType)) {
+      throw new DietaryProfileError(`diet must be one of: ${DIET_TYPES.join(', ')}`);
+    }
+    input.diet = data.diet as DietType;
+  }
+
+  if (data.religious_diet !== undefined) {
+    if (data.religious_diet !== null && !RELIGIOUS_DIETS.includes(data.religious_diet as ReligiousDiet)) {
+      throw new DietaryProfileError(`religious_diet must be null or one of: ${RELIGIOUS_DIETS.join(', ')}`);
+    }
+    input.religious_diet = data.religious_diet as ReligiousDiet | null;
+  }
+
+  if (data.health_profile !== undefined) {
+    if (!isHealthProfileId(data.health_profile)) {
+      throw new DietaryProfileError(`health_profile must be one of: ${HEALTH_PROFILE_IDS.join(', ')}`);
+    }
+    input.health_profile = data.health_profile;
+  }
+
+  input.low_sodium = optionalBoolean(data, 'low_sodium');
+  input.diabetic = optionalBoolean(data, 'diabetic');
+  input.max_sodium_mg = optionalLimit(data, 'max_sodium_mg');
+  input.max_sugar_g = optionalLimit(data, 'max_sugar_g');
+  input.max_carbs_g = optionalLimit(data, 'max_carbs_g');
+
+  // Drop fields that were not sent
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)) as DietaryProfileInput;
+}
+
+/**
+ * Whether a profile has any restriction that produces alerts
+ */
+export function hasDietaryRestrictions(profile: UserDietaryProfile): boolean {
+  return profile.allergens.length > 0 ||
+    profile.avoided_ingredients.length > 0 ||
+    profile.diet !== 'omnivore' ||
+    profile.religious_diet !== null ||
+    profile.low_sodium ||
+    profile.diabetic;
+}
+
+export class DietaryProfileService {
+  /**
+   * Load a user's profile
+   *
+   * @returns Saved profile, or null if the user has none
+   */
+  async getProfile(userId: string): Promise<UserDietaryProfile | null> {
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('user_dietary_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load dietary profile: ${error.message}`);
+    }
+
+    return data as UserDietaryProfile | null;
+  }
+
+  /**
+   * Create or update a user's profile
+   *
+   * @param userId - Supabase auth user ID
+   * @param input - Validated fields to save
+   * @returns Saved profile
+   */
+  async saveProfile(userId: string, input: DietaryProfileInput): Promise<UserDietaryProfile> {
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('user_dietary_profiles')
+      .upsert({ ...input, user_id: userId }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to save dietary profile: ${error?.message || 'no data returned'}`);
+    }
+
+    console.log(`[Dietary Profile] ✅ Saved profile for user ${userId}`);
+    return data as UserDietaryProfile;
+  }
+
+  /**
+   * Resolve the user making a request from their access token
+   *
+   * @returns User ID, or null if the request is not authenticated
+   */
+  async getRequestUserId(request: NextRequest): Promise<string | null> {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+
+    try {
+      const supabase = getSupabaseServerClient();
+      const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7));
+      if (error || !user) {
+        console.error('[Dietary Profile] Authentication verification failed:', error?.message);
+        return null;
+      }
+      return user.id;
+    } catch (error) {
+      console.error('[Dietary Profile] Authentication error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Profile of the user making a scan request, if it has restrictions or a
+   * non-default scoring profile
+   * Failures are logged and treated as "no profile" so scans never fail
+   * because of personalization.
+   */
+  async getProfileForRequest(request: NextRequest): Promise<UserDietaryProfile | null> {
+    try {
+      const userId = await this.getRequestUserId(request);
+      if (!userId) {
+        return null;
+      }
+
+      const profile = await this.getProfile(userId);
+      return profile && (hasDietaryRestrictions(profile) || profile.health_profile !== 'default') ? profile : null;
+    } catch (error) {
+      console.error('[Dietary Profile] ⚠️  Failed to load profile for scan:', error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const dietaryProfileService = new DietaryProfileService();
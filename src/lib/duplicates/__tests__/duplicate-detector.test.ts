@@ -0,0 +1,144 @@
+/**
+ * Duplicate Detection Tests
+ * 
+ * Tests duplicate pair scoring, candidate search and the field/provenance
+ * merge applied when a duplicate is folded into the kept product.
+ */
+
+import type { FieldObservation, Product } from '@/lib/supabase/types';
+import {
+  findDuplicateCandidates,
+  parsePackageSize,
+  scoreDuplicatePair,
+} from '../duplicate-detector';
+import { mergeDuplicateProducts } from '../product-merge';
+
+jest.mock('@/lib/mongodb/cache-service', () => ({
+  cacheService: { store: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('@/lib/supabase/repositories/ProductRepositoryMultiTier', () => ({
+  ProductRepositoryMultiTier: jest.fn(),
+}));
+
+function product(overrides: Partial<Product>): Product {
+  return {
+    id: 'product-1',
+    barcode: null,
+    name: 'Unknown Product',
+    brand: 'Unknown Brand',
+    size: null,
+    category: null,
+    image_url: null,
+    metadata: {},
+    flagged_for_review: false,
+    nutrition_data: null,
+    health_score: null,
+    has_allergens: false,
+    allergen_types: [],
+    last_scanned_at: null,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Duplicate Detector', () => {
+  it('parses package sizes into grams and millilitres', () => {
+    expect(parsePackageSize('500 g')).toEqual({ amount: 500, unit: 'g' });
+    expect(parsePackageSize('1.5L')).toEqual({ amount: 1500, unit: 'ml' });
+    expect(parsePackageSize('0,5 kg')).toEqual({ amount: 500, unit: 'g' });
+    expect(parsePackageSize('12 fl oz')?.amount).toBeCloseTo(354.88, 1);
+    expect(parsePackageSize('family pack')).toBeNull();
+  });
+
+  it('scores OCR variants of the same product as duplicates', () => {
+    const result = scoreDuplicatePair(
+      product({ id: 'a', name: 'Honey Nut Cheerios', brand: 'General Mills', size: '500g' }),
+      product({ id: 'b', name: 'Honey Nut Cheerio\'s', brand: 'GENERAL MILLS', size: '0.5 kg' })
+    );
+
+    expect(result!.score).toBeGreaterThan(0.95);
+    expect(result!.reasons).toContain('same size');
+  });
+
+  it('never pairs products with different sizes or different barcodes', () => {
+    expect(scoreDuplicatePair(
+      product({ name: 'Cola', brand: 'Fizz', size: '330 ml' }),
+      product({ name: 'Cola', brand: 'Fizz', size: '1.5 l' })
+    )).toBeNull();
+
+    expect(scoreDuplicatePair(
+      product({ name: 'Cola', brand: 'Fizz', barcode: '00012345678905' }),
+      product({ name: 'Cola', brand: 'Fizz', barcode: '00000000000000' })
+    )).toBeNull();
+  });
+
+  it('ignores unknown brands when scoring', () => {
+    const result = scoreDuplicatePair(
+      product({ name: 'Greek Yogurt', brand: 'Unknown Brand' }),
+      product({ name: 'Greek Yogurt', brand: 'Fage' })
+    );
+
+    expect(result!.score).toBe(1);
+    expect(result!.reasons).toEqual(['name 100% similar']);
+  });
+
+  it('proposes the product with a barcode as the one to keep', () => {
+    const products = [
+      product({ id: 'ocr', name: 'Oat Milk Barista Editon', brand: 'Oatly', size: '1 l', created_at: '2026-01-01T00:00:00Z' }),
+      product({ id: 'scanned', name: 'Oat Milk Barista Edition', brand: 'Oatly', size: '1000ml', barcode: '07394376616037' }),
+      product({ id: 'other', name: 'Chocolate Oat Drink', brand: 'Oatly', size: '1 l' }),
+    ];
+
+    const candidates = findDuplicateCandidates(products);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].survivor.id).toBe('scanned');
+    expect(candidates[0].duplicate.id).toBe('ocr');
+    expect(candidates[0].reasons).toContain('only one has a barcode');
+  });
+});
+
+function observation(value: unknown, source: FieldObservation['source'], confidence: number, timestamp: string): FieldObservation {
+  return { value, source, confidence, timestamp, accepted: true };
+}
+
+describe('Product Merge', () => {
+  it('takes duplicate values that win on provenance and combines histories', () => {
+    const ocrName = observation('Oat Mlk', 'packaging', 0.6, '2026-03-01T00:00:00Z');
+    const correctedName = observation('Oat Milk', 'user_correction', 1, '2026-03-02T00:00:00Z');
+    const survivor = product({
+      id: 'keep',
+      name: 'Oat Mlk',
+      field_provenance: { name: { current: ocrName, history: [ocrName] } },
+    });
+    const duplicate = product({
+      id: 'dup',
+      name: 'Oat Milk',
+      size: '1 l',
+      last_scanned_at: '2026-03-05T00:00:00Z',
+      field_provenance: { name: { current: correctedName, history: [correctedName] } },
+    });
+
+    const update = mergeDuplicateProducts(survivor, [duplicate]);
+
+    expect(update.name).toBe('Oat Milk');
+    expect(update.size).toBe('1 l');
+    expect(update.last_scanned_at).toBe('2026-03-05T00:00:00Z');
+    expect(update.field_provenance!.name!.current.source).toBe('user_correction');
+    expect(update.field_provenance!.name!.history).toEqual([ocrName, correctedName]);
+  });
+
+  it('keeps the survivor value when provenance ties', () => {
+    const kept = observation('Oatly', 'packaging', 0.8, '2026-03-01T00:00:00Z');
+    const other = observation('Oatley', 'packaging', 0.8, '2026-03-02T00:00:00Z');
+    const update = mergeDuplicateProducts(
+      product({ id: 'keep', brand: 'Oatly', field_provenance: { brand: { current: kept, history: [kept] } } }),
+      [product({ id: 'dup', brand: 'Oatley', field_provenance: { brand: { current: other, history: [other] } } })]
+    );
+
+    expect(update.brand).toBeUndefined();
+    expect(update.field_provenance!.brand!.current).toEqual(kept);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Duplicate Product Detector
+ *
+ * Finds product rows that are likely the same item, typically created by
+ * Tier 2/4 from OCR text when searchByMetadata missed the existing row.
+ * Pairs are scored on name and brand similarity (DataMerger's
+ * Levenshtein-based calculateStringSimilarity) and size:
+ * - Name, brand and size are weighted 0.6 / 0.3 / 0.1; a missing or unknown
+ *   brand or size drops out of the weighting
+ * - Sizes that parse to different quantities rule a pair out (different
+ *   pack sizes are different products), as do two different barcodes
+ * - Identical barcodes are always duplicates
+ *
+ * Only products sharing a brand or a first name word are compared.
+ */
+
+import type { Product } from '@/lib/supabase/types';
+import { dataMerger } from '@/lib/multi-image/DataMerger';
+import { toBarcodeKey } from '@/lib/barcode/gtin';
+import { compareForSurvival } from './product-merge';
+
+/**
+ * Default minimum score for a merge proposal
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85;
+
+const NAME_WEIGHT = 0.6;
+const BRAND_WEIGHT = 0.3;
+const SIZE_WEIGHT = 0.1;
+
+/**
+ * Relative difference under which two parsed sizes are the same
+ */
+const SIZE_TOLERANCE = 0.02;
+
+/**
+ * Conversion of size units to grams or millilitres
+ */
+const UNIT_FACTORS: Record<string, { base: 'g' | 'ml'; factor: number }> = {
+  mg: { base: 'g', factor: 0.001 },
+  g: { base: 'g', factor: 1 },
+  kg: { base: 'g', factor: 1000 },
+  oz: { base: 'g', factor: 28.3495 },
+  lb: { base: 'g', factor: 453.592 },
+  ml: { base: 'ml', factor: 1 },
+  cl: { base: 'ml', factor: 10 },
+  dl: { base: 'ml', factor: 100 },
+  l: { base: 'ml', factor: 1000 },
+  floz: { base: 'ml', factor: 29.5735 },
+};
+
+/**
+ * Placeholder brands written when the brand was not read
+ */
+const UNKNOWN_BRANDS = new Set(['', 'unknown', 'unknown brand']);
+
+/**
+ * Scored pair of likely duplicates
+ */
+export interface DuplicateCandidate {
+  survivor: Product; // Row to keep (has a barcode, else most complete, else oldest)
+  duplicate: Product;
+  score: number; // 0.0 to 1.0
+  reasons: string[];
+}
+
+export interface DuplicateDetectionOptions {
+  threshold?: number;
+}
+
+/**
+ * Normalize a name or brand for comparison
+ */
+export function normalizeProductText(text: string | null | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Parse a package size into grams or millilitres
+ *
+ * @param size - Size text (e.g. "500 g", "1.5L", "12 fl oz")
+ * @returns Quantity in the base unit, or null if the size is not understood
+ */
+export function parsePackageSize(size: string | null | undefined): { amount: number; unit: 'g' | 'ml' } | null {
+  const match = (size || '').toLowerCase().match(/(\d+(?:[.,]\d+)?)\s*(mg|kg|g|fl\.?\s*oz|oz|lbs?|ml|cl|dl|l)\b/);
+  if (!match) {
+    return null;
+  }
+
+  const unitKey = match[2].replace(/[.\s]/g, '').replace(/^lbs$/, 'lb');
+  const unit = UNIT_FACTORS[unitKey];
+  if (!unit) {
+    return null;
+  }
+
+  return { amount: parseFloat(match[1].replace(',', '.')) * unit.factor, unit: unit.base };
+}
+
+/**
+ * Compare two sizes
+ *
+ * @returns 1 if equal, 0 if different, null if either is missing
+ */
+function compareSizes(a: string | null, b: string | null): number | null {
+  if (!a || !b) {
+    return null;
+  }
+
+  const parsedA = parsePackageSize(a);
+  const parsedB = parsePackageSize(b);
+  if (parsedA && parsedB) {
+    if (parsedA.unit !== parsedB.unit) return 0;
+    const larger = Math.max(parsedA.amount, parsedB.amount);
+    return Math.abs(parsedA.amount - parsedB.amount) <= larger * SIZE_TOLERANCE ? 1 : 0;
+  }
+
+  return normalizeProductText(a).replace(/\s/g, '') === normalizeProductText(b).replace(/\s/g, '') ? 1 : 0;
+}
+
+function isKnownBrand(brand: string): boolean {
+  return !UNKNOWN_BRANDS.has(normalizeProductText(brand));
+}
+
+/**
+ * Score how likely two products are the same item
+ *
+ * @returns Score and reasons, or null if the products cannot be duplicates
+ */
+export function scoreDuplicatePair(a: Product, b: Product): { score: number; reasons: string[] } | null {
+  if (a.barcode && b.barcode) {
+    if (toBarcodeKey(a.barcode) !== toBarcodeKey(b.barcode)) {
+      return null;
+    }
+    return { score: 1, reasons: ['same barcode'] };
+  }
+
+  const sizeMatch = compareSizes(a.size, b.size);
+  if (sizeMatch === 0) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  const nameSimilarity = dataMerger.calculateStringSimilarity(normalizeProductText(a.name), normalizeProductText(b.name));
+  let score = nameSimilarity * NAME_WEIGHT;
+  let weight = NAME_WEIGHT;
+  reasons.push(`name ${Math.round(nameSimilarity * 100)}% similar`);
+
+  if (isKnownBrand(a.brand) && isKnownBrand(b.brand)) {
+    const brandSimilarity = dataMerger.calculateStringSimilarity(normalizeProductText(a.brand), normalizeProductText(b.brand));
+    score += brandSimilarity * BRAND_WEIGHT;
+    weight += BRAND_WEIGHT;
+    reasons.push(`brand ${Math.round(brandSimilarity * 100)}% similar`);
+  }
+
+  if (sizeMatch === 1) {
+    score += SIZE_WEIGHT;
+    weight += SIZE_WEIGHT;
+    reasons.push('same size');
+  }
+
+  if (!a.barcode !== !b.barcode) {
+    reasons.push('only one has a barcode');
+  }
+
+  return { score: score / weight, reasons };
+}
+
+/**
+ * Sort comparator putting the row to keep first: a row with a barcode,
+ * then the most complete, then the oldest
+ */
+function compareForKeeping(a: Product, b: Product): number {
+  if (!a.barcode !== !b.barcode) {
+    return a.barcode ? -1 : 1;
+  }
+  return compareForSurvival(a, b);
+}
+
+/**
+ * Comparison groups: products sharing a key are compared pairwise
+ */
+function blockingKeys(product: Product): string[] {
+  const keys: string[] = [];
+  const brandWord = normalizeProductText(product.brand).split(' ')[0];
+  if (brandWord && isKnownBrand(product.brand)) {
+    keys.push(`brand:${brandWord}`);
+  }
+  const nameWord = normalizeProductText(product.name).split(' ')[0];
+  if (nameWord) {
+    keys.push(`name:${nameWord}`);
+  }
+  return keys;
+}
+
+/**
+ * Find likely duplicate pairs among products
+ *
+ * @param products - Products to check
+ * @param options - Minimum score (default DEFAULT_DUPLICATE_THRESHOLD)
+ * @returns Candidates, highest score first
+ */
+export function findDuplicateCandidates(
+  products: Product[],
+  options: DuplicateDetectionOptions = {}
+): DuplicateCandidate[] {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const blocks = new Map<string, Product[]>();
+
+  for (const product of products) {
+    for (const key of blockingKeys(product)) {
+      blocks.set(key, [...(blocks.get(key) || []), product]);
+    }
+  }
+
+  const compared = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [survivor, duplicate] = [block[i], block[j]].sort(compareForKeeping);
+        const pairKey = `${survivor.id}:${duplicate.id}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const result = scoreDuplicatePair(survivor, duplicate);
+        if (result && result.score >= threshold) {
+          candidates.push({ survivor, duplicate, ...result });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
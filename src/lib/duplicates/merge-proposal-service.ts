@@ -0,0 +1,128 @@
+/**
+ * Merge Proposal Service
+ *
+ * Stores duplicate candidates from the duplicate detector as merge proposals
+ * for reviewers (product_merge_proposals). A reviewer either merges the pair
+ * through the review API, which deletes the duplicate and with it the
+ * proposal, or dismisses the proposal so the pair is not proposed again.
+ */
+
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import type { Product, ProductMergeProposal, ProductMergeProposalInsert } from '@/lib/supabase/types';
+import type { Reviewer } from '@/lib/review/reviewer-auth';
+import { ReviewError } from '@/lib/review/review-service';
+import type { DuplicateCandidate } from './duplicate-detector';
+
+/**
+ * Pending proposal with both products
+ */
+export interface MergeProposalItem {
+  proposal: ProductMergeProposal;
+  survivor: Product;
+  duplicate: Product;
+}
+
+export class MergeProposalService {
+  /**
+   * Save candidates as pending proposals
+   * Pairs already proposed (pending or dismissed) are left unchanged, in
+   * either order: the detector may pick the other product as survivor once
+   * one of them gains fields.
+   *
+   * @returns Number of proposals inserted
+   */
+  async saveProposals(candidates: DuplicateCandidate[]): Promise<number> {
+    if (candidates.length === 0) {
+      return 0;
+    }
+
+    const rows: ProductMergeProposalInsert[] = candidates.map(candidate => ({
+      product_id: candidate.survivor.id,
+      duplicate_id: candidate.duplicate.id,
+      score: Math.round(candidate.score * 1000) / 1000,
+      reasons: candidate.reasons,
+    }));
+
+    const supabase = getSupabaseServerClient();
+    const { data: inserted, error } = await supabase.rpc('save_merge_proposals', { p_proposals: rows });
+
+    if (error) {
+      throw new Error(`Failed to save merge proposals: ${error.message}`);
+    }
+
+    console.log(`[Merge Proposals] ✅ Saved ${inserted ?? 0} new proposals (${rows.length} submitted)`);
+    return inserted ?? 0;
+  }
+
+  /**
+   * List pending proposals, highest score first
+   *
+   * @param limit - Maximum number of proposals
+   */
+  async listPending(limit: number = 50): Promise<MergeProposalItem[]> {
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('product_merge_proposals')
+      .select('*')
+      .eq('status', 'pending')
+      .order('score', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load merge proposals: ${error.message}`);
+    }
+
+    const proposals = (data || []) as ProductMergeProposal[];
+    if (proposals.length === 0) {
+      return [];
+    }
+
+    const productIds = [...new Set(proposals.flatMap(proposal => [proposal.product_id, proposal.duplicate_id]))];
+    const { data: productRows, error: productError } = await supabase
+      .from('products')
+      .select('*')
+      .in('id', productIds);
+
+    if (productError) {
+      throw new Error(`Failed to load proposed products: ${productError.message}`);
+    }
+
+    const products = new Map(((productRows || []) as Product[]).map(product => [product.id, product]));
+
+    return proposals.flatMap(proposal => {
+      const survivor = products.get(proposal.product_id);
+      const duplicate = products.get(proposal.duplicate_id);
+      return survivor && duplicate ? [{ proposal, survivor, duplicate }] : [];
+    });
+  }
+
+  /**
+   * Dismiss a proposal (the products are not duplicates)
+   *
+   * @throws ReviewError (404) if the proposal does not exist or is not pending
+   */
+  async dismiss(proposalId: string, reviewer: Reviewer): Promise<ProductMergeProposal> {
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('product_merge_proposals')
+      .update({ status: 'dismissed', resolved_by: reviewer.id, resolved_at: new Date().toISOString() })
+      .eq('id', proposalId)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to dismiss merge proposal: ${error.message}`);
+    }
+
+    const proposal = (data as ProductMergeProposal[] | null)?.[0];
+    if (!proposal) {
+      throw new ReviewError(`Pending merge proposal not found: ${proposalId}`, 404);
+    }
+
+    console.log(`[Merge Proposals] 🚫 Proposal ${proposalId} dismissed by ${reviewer.email || reviewer.id}`);
+    return proposal;
+  }
+}
+
+// Singleton instance
+export const mergeProposalService = new MergeProposalService();
@@ -0,0 +1,171 @@
+/**
+ * Product Merge
+ *
+ * Builds the update that folds duplicate product rows into one surviving
+ * row (used by barcode normalization, the duplicate detector and the review
+ * queue):
+ * - the most complete row survives (ties: the oldest); see compareForSurvival
+ * - each field keeps the survivor's value unless a duplicate's value wins on
+ *   field provenance (source priority, then confidence); untracked values
+ *   only fill empty fields
+ * - field provenance histories are combined
+ * - metadata is merged, with the survivor's keys taking precedence
+ * - allergen types are combined; review and allergen flags are kept if any row set them
+ */
+
+import type {
+  FieldObservation,
+  Product,
+  ProductFieldProvenance,
+  ProductUpdate,
+} from '@/lib/supabase/types';
+import {
+  currentObservation,
+  fieldValuesEqual,
+  MAX_FIELD_HISTORY,
+  prefersObservation,
+} from '@/lib/multi-image/FieldProvenance';
+
+/**
+ * Product fields taken from a duplicate when its value wins
+ */
+const MERGED_FIELDS = ['name', 'brand', 'size', 'category', 'image_url', 'nutrition_data', 'health_score'] as const;
+
+/**
+ * Optional fields counted when picking the surviving row
+ */
+const COMPLETENESS_FIELDS = ['size', 'category', 'image_url', 'nutrition_data', 'health_score', 'last_scanned_at', 'metadata', 'allergen_types'] as const;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Number of populated optional fields
+ */
+export function productCompleteness(product: Product): number {
+  return COMPLETENESS_FIELDS.filter(field => !isEmpty(product[field])).length;
+}
+
+/**
+ * Sort comparator putting the row that should survive a merge first:
+ * most complete, then oldest
+ */
+export function compareForSurvival(a: Product, b: Product): number {
+  const difference = productCompleteness(b) - productCompleteness(a);
+  if (difference !== 0) {
+    return difference;
+  }
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Whether a duplicate's observation should replace the survivor's
+ * (strictly better: ties keep the survivor)
+ */
+function duplicateWins(field: typeof MERGED_FIELDS[number], candidate: FieldObservation, current: FieldObservation | undefined): boolean {
+  return prefersObservation(field, candidate, current) &&
+    (!current || !prefersObservation(field, current, candidate));
+}
+
+/**
+ * Combine the provenance of the merged rows
+ *
+ * @param rows - Survivor first, then duplicates
+ * @param merged - Survivor with the merged values applied
+ * @returns Combined provenance, or undefined if no row tracks provenance
+ */
+function mergeProvenance(rows: Product[], merged: Product): ProductFieldProvenance | undefined {
+  if (!rows.some(row => row.field_provenance && Object.keys(row.field_provenance).length > 0)) {
+    return undefined;
+  }
+
+  const provenance: ProductFieldProvenance = {};
+  const fields = new Set(rows.flatMap(row => Object.keys(row.field_provenance || {}))) as Set<keyof ProductFieldProvenance>;
+
+  for (const field of fields) {
+    const current = currentObservation(merged, field);
+    if (!current) continue;
+
+    const history = rows
+      .flatMap(row => row.field_provenance?.[field]?.history || [])
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    if (!history.some(entry => entry.timestamp === current.timestamp && fieldValuesEqual(entry.value, current.value))) {
+      history.push(current);
+    }
+
+    provenance[field] = { current, history: history.slice(-MAX_FIELD_HISTORY) };
+  }
+
+  return provenance;
+}
+
+/**
+ * Build the survivor update for a group of duplicates
+ *
+ * @param survivor - Row that is kept
+ * @param duplicates - Rows merged into it, most complete first
+ * @param barcode - Normalized barcode for the survivor (omit to keep the survivor's)
+ * @returns Fields to update on the survivor
+ */
+export function mergeDuplicateProducts(survivor: Product, duplicates: Product[], barcode?: string): ProductUpdate {
+  const update: ProductUpdate = barcode ? { barcode } : {};
+  const rows = [survivor, ...duplicates];
+  const merged: Product = { ...survivor };
+
+  for (const field of MERGED_FIELDS) {
+    let current = currentObservation(survivor, field);
+
+    for (const duplicate of duplicates) {
+      const candidate = currentObservation(duplicate, field);
+      if (candidate && duplicateWins(field, candidate, current)) {
+        current = candidate;
+        (update as Record<string, unknown>)[field] = duplicate[field];
+        (merged as unknown as Record<string, unknown>)[field] = duplicate[field];
+        merged.field_provenance = {
+          ...(merged.field_provenance || {}),
+          [field]: { current: candidate, history: [] },
+        };
+      }
+    }
+  }
+
+  const lastScannedAt = rows
+    .map(row => row.last_scanned_at)
+    .filter((value): value is string => !!value)
+    .sort()
+    .pop();
+  if (lastScannedAt && lastScannedAt !== survivor.last_scanned_at) {
+    update.last_scanned_at = lastScannedAt;
+  }
+
+  if (duplicates.some(duplicate => duplicate.metadata)) {
+    // Later spreads win, so apply the duplicates in reverse and the survivor last
+    update.metadata = [...rows].reverse().reduce<Record<string, unknown>>(
+      (mergedMetadata, row) => ({ ...mergedMetadata, ...(row.metadata || {}) }),
+      {}
+    );
+  }
+
+  const allergenTypes = [...new Set(rows.flatMap(row => row.allergen_types || []))];
+  if (allergenTypes.length > (survivor.allergen_types || []).length) {
+    update.allergen_types = allergenTypes;
+    merged.allergen_types = allergenTypes;
+  }
+  if (!survivor.has_allergens && rows.some(row => row.has_allergens)) {
+    update.has_allergens = true;
+    merged.has_allergens = true;
+  }
+  if (!survivor.flagged_for_review && rows.some(row => row.flagged_for_review)) {
+    update.flagged_for_review = true;
+  }
+
+  const provenance = mergeProvenance(rows, merged);
+  if (provenance) {
+    update.field_provenance = provenance;
+  }
+
+  return update;
+}
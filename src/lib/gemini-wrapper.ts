@@ -2,6 +2,10 @@
  * Gemini API Wrapper with Enhanced Error Tracking - Vertex AI Edition
  * 
  * Uses Vertex AI SDK instead of Generative Language API to access proper tier quotas.
+ * Model calls go through an LLMProvider (see lib/llm), so LLM_PROVIDER=fixture
+ * replays recorded responses without credentials. LLM_FIXTURE_MODE=record saves
+ * every response as a fixture; LLM_FIXTURE_MODE=replay serves them back.
+ * Live calls are costed in the LLM cost ledger (see lib/llm/cost-ledger).
  * 
  * Provides detailed logging for 429 errors including:
  * - Quota metrics (RPM vs TPM)
@@ -10,8 +14,12 @@
  * - Retry-after information
  */
 
-import { VertexAI } from '@google-cloud/vertexai';
 import { GEMINI_MODEL, VERTEX_AI_CONFIG } from '@/lib/config/gemini';
+import { createLLMProvider, getLLMProvider } from '@/lib/llm/provider-factory';
+import { RecordingProvider } from '@/lib/llm/recording-provider';
+import { generateStructured, LLMResponseValidationError } from '@/lib/llm/structured-output';
+import type { LLMProvider } from '@/lib/llm/types';
+import type { z } from 'zod';
 
 interface QuotaFailureDetail {
   '@type': string;
@@ -50,6 +58,12 @@ interface GeminiCallResult {
   tierMismatch?: boolean;
 }
 
+interface GeminiStructuredResult<T> extends GeminiCallResult {
+  data?: T;
+  repaired?: boolean; // True if the repair re-prompt was needed
+  validationErrors?: string[]; // Set when the repaired response still failed validation
+}
+
 interface TierValidationResult {
   remainingQuota?: string;
   quotaLimit?: string;
@@ -57,49 +71,46 @@ interface TierValidationResult {
 }
 
 export class GeminiWrapper {
-  private vertexAI: VertexAI;
-  private model: any;
+  private provider: LLMProvider;
   private apiCallCount: number = 0;
   private lastCallTimestamp: number = 0;
+  private inputTokens: number = 0;
+  private outputTokens: number = 0;
+  private costUsd: number = 0;
 
   constructor(
     projectId: string = VERTEX_AI_CONFIG.projectId,
     location: string = VERTEX_AI_CONFIG.location,
-    modelName: string = GEMINI_MODEL
+    modelName: string = GEMINI_MODEL,
+    provider?: LLMProvider
   ) {
-    // Handle credentials from environment variable (for Vercel deployment)
-    let googleAuthOptions: any = {
-      project: projectId,
-      location: location,
-    };
+    const fixtureMode = process.env.LLM_FIXTURE_MODE;
 
-    // Check if credentials are provided as JSON string (Vercel deployment)
-    if (process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON) {
-      try {
-        const credentials = JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON);
-        googleAuthOptions.googleAuthOptions = {
-          credentials: credentials,
-        };
-        console.log('[Gemini Wrapper] 🔑 Using credentials from GOOGLE_APPLICATION_CREDENTIALS_JSON');
-      } catch (error) {
-        console.error('[Gemini Wrapper] ❌ Failed to parse GOOGLE_APPLICATION_CREDENTIALS_JSON:', error);
-      }
-    } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-      console.log('[Gemini Wrapper] 🔑 Using credentials from GOOGLE_APPLICATION_CREDENTIALS file path');
+    if (provider) {
+      this.provider = provider;
+    } else if (fixtureMode === 'replay') {
+      // Serve recorded responses (see scripts/replay-extraction-corpus.ts)
+      this.provider = createLLMProvider('fixture', { model: modelName });
     } else {
-      console.log('[Gemini Wrapper] 🔑 Using Application Default Credentials (gcloud auth)');
+      // Vertex AI by default; LLM_PROVIDER can swap in another backend (e.g. fixture replay)
+      this.provider = getLLMProvider('vertex', {
+        projectId,
+        location,
+        model: modelName,
+        consumer: 'GeminiWrapper',
+      });
     }
 
-    this.vertexAI = new VertexAI(googleAuthOptions);
-    
-    this.model = this.vertexAI.getGenerativeModel({
-      model: modelName,
-    });
+    if (fixtureMode === 'record' && !(this.provider instanceof RecordingProvider)) {
+      const recorder = new RecordingProvider(this.provider);
+      this.provider = recorder;
+      console.log('[Gemini Wrapper] 💾 Recording responses to', recorder.fixtureDir);
+    }
 
-    console.log('[Gemini Wrapper] 🚀 Initialized with Vertex AI');
+    console.log(`[Gemini Wrapper] 🚀 Initialized with ${this.provider.name} provider`);
     console.log(`[Gemini Wrapper] 📍 Project: ${projectId}`);
     console.log(`[Gemini Wrapper] 🌍 Location: ${location}`);
-    console.log(`[Gemini Wrapper] 🤖 Model: ${modelName}`);
+    console.log(`[Gemini Wrapper] 🤖 Model: ${this.provider.defaultModel}`);
   }
 
   /**
@@ -126,37 +137,33 @@ export class GeminiWrapper {
       : 0;
     this.lastCallTimestamp = Date.now();
 
-    console.log(`[Gemini Wrapper] 📞 API Call #${this.apiCallCount} (Vertex AI)`);
+    console.log(`[Gemini Wrapper] 📞 API Call #${this.apiCallCount} (${this.provider.name})`);
     console.log(`[Gemini Wrapper] ⏱️  Time since last call: ${timeSinceLastCall}ms`);
 
     while (retryCount <= maxRetries) {
       try {
-        // Prepare content parts for Vertex AI
-        const parts: any[] = [{ text: prompt }];
-        
-        if (imageData) {
-          parts.push({
-            inlineData: {
-              data: imageData,
-              mimeType: imageMimeType,
-            },
-          });
+        const result = await this.provider.generate({
+          prompt,
+          imageData,
+          imageMimeType,
+          temperature,
+        });
+        const text = result.text;
+
+        // Token usage and cost (metered providers set costUsd)
+        if (result.usage) {
+          this.inputTokens += result.usage.inputTokens;
+          this.outputTokens += result.usage.outputTokens;
+          this.costUsd += result.usage.costUsd ?? 0;
         }
 
-        // Make API call using Vertex AI
-        const request = {
-          contents: [{ role: 'user', parts }],
-        };
-
-        const result = await this.model.generateContent(request);
-        const response = result.response;
-        const text = response.candidates[0].content.parts[0].text;
-
         const duration = Date.now() - startTime;
-        console.log(`[Gemini Wrapper] ✅ Success in ${duration}ms (Vertex AI)`);
+        console.log(`[Gemini Wrapper] ✅ Success in ${duration}ms (${this.provider.name})`);
 
-        // Validate tier from successful response
-        this.validateTier(result);
+        // Validate tier from successful response (only live providers expose headers)
+        if (result.raw) {
+          this.validateTier(result.raw);
+        }
 
         return {
           success: true,
@@ -243,6 +250,61 @@ export class GeminiWrapper {
     };
   }
 
+  /**
+   * Make a Gemini API call and validate the JSON response against a schema
+   *
+   * A response that fails validation is re-prompted once with the validation
+   * errors before the call is reported as failed.
+   *
+   * @param options - Call options (prompt, image, retries)
+   * @param schema - Expected response schema
+   * @param label - Name used in logs
+   * @returns Call result with validated data on success
+   */
+  async generateStructured<S extends z.ZodType>(
+    options: GeminiCallOptions,
+    schema: S,
+    label?: string
+  ): Promise<GeminiStructuredResult<z.infer<S>>> {
+    const state: { failedCall?: GeminiCallResult } = {};
+
+    try {
+      const structured = await generateStructured(
+        async (prompt) => {
+          const result = await this.generateContent({ ...options, prompt });
+          if (!result.success) {
+            state.failedCall = result;
+            throw new Error(result.error);
+          }
+          return result.text ?? '';
+        },
+        options.prompt,
+        schema,
+        label
+      );
+
+      return {
+        success: true,
+        text: structured.text,
+        data: structured.data,
+        repaired: structured.repaired,
+      };
+    } catch (error) {
+      if (state.failedCall) {
+        return state.failedCall;
+      }
+      if (error instanceof LLMResponseValidationError) {
+        return {
+          success: false,
+          text: error.responseText,
+          error: error.message,
+          validationErrors: error.issues,
+        };
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validate tier from successful API response
    */
@@ -677,10 +739,16 @@ export class GeminiWrapper {
 
   /**
    * Get API call statistics
+   * Token and cost totals cover successful calls since the last reset.
    */
   getStats() {
     return {
       totalCalls: this.apiCallCount,
+      totalInputTokens: this.inputTokens,
+      totalOutputTokens: this.outputTokens,
+      totalCostUsd: this.costUsd,
+      provider: this.provider.name,
+      model: this.provider.defaultModel,
       lastCallTimestamp: this.lastCallTimestamp,
       timeSinceLastCall: this.lastCallTimestamp 
         ? Date.now() - this.lastCallTimestamp 
@@ -694,6 +762,9 @@ export class GeminiWrapper {
   resetStats() {
     this.apiCallCount = 0;
     this.lastCallTimestamp = 0;
+    this.inputTokens = 0;
+    this.outputTokens = 0;
+    this.costUsd = 0;
   }
 }
 
@@ -0,0 +1,190 @@
+/**
+ * Image Preprocessor
+ *
+ * Prepares an uploaded photo for a model call: honors the EXIF
+ * orientation, rejects dark or blurry photos, crops to the label, levels
+ * skewed text, evens out the contrast of glossy or curved packaging and
+ * downscales to the resolution the task needs.
+ *
+ * Server-only: sharp is loaded on first use.
+ */
+
+import type { OutputInfo, Sharp } from 'sharp';
+import { estimateSkewAngle, findLabelRegion, laplacianVariance, meanBrightness } from './analysis';
+import { IMAGE_TASK_PROFILES } from './profiles';
+import type {
+  ImageQualityErrorCode,
+  ImageQualityMetrics,
+  ImageRegion,
+  ImageTask,
+  ImageTaskProfile,
+  PreprocessedImage,
+} from './types';
+
+/**
+ * Longest side of the grayscale copy the photo is analyzed on
+ */
+const ANALYSIS_SIZE = 512;
+
+/**
+ * Smaller skews are left alone: re-sampling would cost more legibility
+ * than the rotation gains
+ */
+const MIN_DESKEW_ANGLE = 1;
+
+/**
+ * CLAHE tile size and contrast limit: evens out glare and the shading of
+ * curved packaging without amplifying noise in flat areas
+ */
+const CLAHE_TILE = 128;
+const CLAHE_MAX_SLOPE = 3;
+
+const QUALITY_MESSAGES: Record<ImageQualityErrorCode, string> = {
+  IMAGE_TOO_BLURRY: 'Image is too blurry to read. Hold the camera steady and make sure the label is in focus.',
+  IMAGE_TOO_DARK: 'Image is too dark to read. Move to better light or turn on the flash.',
+};
+
+/**
+ * Photo rejected by a quality gate (HTTP 422)
+ */
+export class ImageQualityError extends Error {
+  constructor(
+    public readonly code: ImageQualityErrorCode,
+    public readonly metrics: ImageQualityMetrics
+  ) {
+    super(QUALITY_MESSAGES[code]);
+    this.name = 'ImageQualityError';
+  }
+}
+
+export class ImagePreprocessor {
+  /**
+   * @param profiles - Per-task resolution and quality gates
+   */
+  constructor(private profiles: Record<ImageTask, ImageTaskProfile> = IMAGE_TASK_PROFILES) {}
+
+  /**
+   * Preprocess a photo for a task
+   *
+   * @param imageData - Base64 image data with or without data URI prefix
+   * @param task - What the model will read from the photo
+   * @returns JPEG ready to send, or the original image if it can't be decoded
+   * @throws ImageQualityError when the photo is too dark or too blurry
+   */
+  async preprocess(imageData: string, task: ImageTask): Promise<PreprocessedImage> {
+    const profile = this.profiles[task];
+    const mimeType = /^data:(image\/[\w+.-]+);base64,/.exec(imageData)?.[1] ?? 'image/jpeg';
+    const base64Data = imageData.replace(/^data:image\/[\w+.-]+;base64,/, '');
+    const { default: sharp } = await import('sharp');
+
+    // Decode once, upright and without transparency; everything below
+    // works on these pixels
+    let oriented: { data: Buffer; info: OutputInfo };
+    let orientation: number | undefined;
+    try {
+      const input = Buffer.from(base64Data, 'base64');
+      ({ orientation } = await sharp(input).metadata());
+      oriented = await sharp(input)
+        .autoOrient()
+        .flatten({ background: '#ffffff' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      console.warn('[Image Preprocessor] ⚠️  Could not decode image, sending it unchanged:', error instanceof Error ? error.message : error);
+      return { base64: base64Data, mimeType, dataUri: `data:${mimeType};base64,${base64Data}`, operations: [] };
+    }
+
+    const raw = () => sharp(oriented.data, { raw: oriented.info });
+    const operations: string[] = orientation && orientation > 1 ? ['orient'] : [];
+
+    // Step 1: Quality gates, on a small grayscale copy
+    const analysis = await raw()
+      .grayscale()
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height } = analysis.info;
+
+    const region = findLabelRegion(analysis.data, width, height);
+    const quality: ImageQualityMetrics = {
+      brightness: Math.round(meanBrightness(analysis.data)),
+      sharpness: Math.round(laplacianVariance(analysis.data, width, height, region ?? undefined)),
+    };
+
+    if (quality.brightness < profile.minBrightness) {
+      throw this.reject('IMAGE_TOO_DARK', task, quality);
+    }
+    if (quality.sharpness < profile.minSharpness) {
+      throw this.reject('IMAGE_TOO_BLURRY', task, quality);
+    }
+
+    // Step 2: Crop to the label
+    let image: Sharp = raw();
+    if (region) {
+      const cropped = await raw()
+        .extract(this.scaleRegion(region, width, oriented.info))
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      image = sharp(cropped.data, { raw: cropped.info });
+      operations.push('crop');
+    }
+
+    // Step 3: Level the text lines
+    const skew = estimateSkewAngle(analysis.data, width, height);
+    if (Math.abs(skew) >= MIN_DESKEW_ANGLE) {
+      const { data, info } = await image.rotate(-skew, { background: '#ffffff' }).raw().toBuffer({ resolveWithObject: true });
+      image = sharp(data, { raw: info });
+      operations.push(`deskew:${skew}`);
+    }
+
+    // Step 4: Contrast and resolution
+    const output = await image
+      .resize(profile.maxDimension, profile.maxDimension, { fit: 'inside', withoutEnlargement: true })
+      .normalise()
+      .clahe({ width: CLAHE_TILE, height: CLAHE_TILE, maxSlope: CLAHE_MAX_SLOPE })
+      .jpeg({ quality: profile.jpegQuality })
+      .toBuffer({ resolveWithObject: true });
+    operations.push('contrast');
+
+    const base64 = output.data.toString('base64');
+
+    console.log('[Image Preprocessor] ✅ Preprocessed image:', {
+      task,
+      operations,
+      width: output.info.width,
+      height: output.info.height,
+      ...quality,
+    });
+
+    return {
+      base64,
+      mimeType: 'image/jpeg',
+      dataUri: `data:image/jpeg;base64,${base64}`,
+      width: output.info.width,
+      height: output.info.height,
+      quality,
+      operations,
+    };
+  }
+
+  /**
+   * Map a region of the analysis copy onto the full-size image
+   */
+  private scaleRegion(region: ImageRegion, analysisWidth: number, size: { width: number; height: number }): ImageRegion {
+    const scale = size.width / analysisWidth;
+    const left = Math.min(size.width - 1, Math.floor(region.left * scale));
+    const top = Math.min(size.height - 1, Math.floor(region.top * scale));
+
+    return {
+      left,
+      top,
+      width: Math.min(size.width - left, Math.ceil(region.width * scale)),
+      height: Math.min(size.height - top, Math.ceil(region.height * scale)),
+    };
+  }
+
+  private reject(code: ImageQualityErrorCode, task: ImageTask, quality: ImageQualityMetrics): ImageQualityError {
+    console.warn(`[Image Preprocessor] ⚠️  Rejected ${task} image (${code}):`, quality);
+    return new ImageQualityError(code, quality);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Tests for the image preprocessing stage
+ * Validates the brightness, sharpness, label region and skew measurements,
+ * and that the preprocessor orients, crops, deskews and downscales photos,
+ * rejects dark and blurry ones and passes undecodable data through
+ *
+ * @jest-environment node
+ */
+
+import sharp from 'sharp';
+import {
+  estimateSkewAngle,
+  findLabelRegion,
+  IMAGE_TASK_PROFILES,
+  ImagePreprocessor,
+  ImageQualityError,
+  laplacianVariance,
+  meanBrightness,
+} from '..';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+/**
+ * Grayscale photo of a label: a white card with rows of dark print on a
+ * plain gray table
+ */
+function labelPixels(): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT, 120);
+
+  for (let y = 150; y < 450; y++) {
+    for (let x = 200; x < 600; x++) {
+      pixels[y * WIDTH + x] = 245;
+    }
+  }
+
+  for (let line = 0; line < 10; line++) {
+    for (let y = 170 + line * 27; y < 180 + line * 27; y++) {
+      for (let x = 220; x < 580; x++) {
+        if (Math.floor(x / 6) % 3 !== 0) pixels[y * WIDTH + x] = 20;
+      }
+    }
+  }
+
+  return pixels;
+}
+
+function label() {
+  return sharp(labelPixels(), { raw: { width: WIDTH, height: HEIGHT, channels: 1 } });
+}
+
+async function dataUri(image: sharp.Sharp): Promise<string> {
+  return `data:image/jpeg;base64,${(await image.jpeg({ quality: 95 }).toBuffer()).toString('base64')}`;
+}
+
+/**
+ * Grayscale pixels of an image, for the analysis functions
+ */
+async function grayPixels(image: sharp.Sharp): Promise<{ data: Buffer; width: number; height: number }> {
+  const { data, info } = await image.grayscale().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+describe('Image preprocessing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('analysis', () => {
+    it('measures mean brightness', () => {
+      expect(meanBrightness([0, 100, 200])).toBe(100);
+      expect(meanBrightness([])).toBe(0);
+    });
+
+    it('measures sharp print as sharper than blurred print', async () => {
+      const crisp = await grayPixels(label());
+      const blurred = await grayPixels(label().blur(8));
+
+      expect(laplacianVariance(crisp.data, crisp.width, crisp.height)).toBeGreaterThan(
+        10 * laplacianVariance(blurred.data, blurred.width, blurred.height)
+      );
+    });
+
+    it('locates the label on a plain background', () => {
+      const region = findLabelRegion(labelPixels(), WIDTH, HEIGHT);
+
+      expect(region).not.toBeNull();
+      expect(region!.left).toBeGreaterThanOrEqual(150);
+      expect(region!.left).toBeLessThanOrEqual(200);
+      expect(region!.top).toBeGreaterThanOrEqual(100);
+      expect(region!.top).toBeLessThanOrEqual(150);
+      expect(region!.left + region!.width).toBeLessThanOrEqual(650);
+      expect(region!.top + region!.height).toBeLessThanOrEqual(500);
+    });
+
+    it('does not crop a featureless image', () => {
+      expect(findLabelRegion(Buffer.alloc(WIDTH * HEIGHT, 128), WIDTH, HEIGHT)).toBeNull();
+    });
+
+    it('estimates the skew of the print', async () => {
+      const level = await grayPixels(label());
+      const skewed = await grayPixels(label().rotate(5, { background: '#787878' }));
+
+      expect(estimateSkewAngle(level.data, level.width, level.height)).toBe(0);
+      expect(estimateSkewAngle(skewed.data, skewed.width, skewed.height)).toBeCloseTo(5, 0);
+    });
+  });
+
+  describe('ImagePreprocessor', () => {
+    const preprocessor = new ImagePreprocessor();
+
+    it('crops to the label and sends a JPEG', async () => {
+      const result = await preprocessor.preprocess(await dataUri(label()), 'nutrition');
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect(result.dataUri).toBe(`data:image/jpeg;base64,${result.base64}`);
+      expect(result.operations).toEqual(['crop', 'contrast']);
+      expect(result.width).toBeLessThan(WIDTH);
+      expect(result.height).toBeLessThan(HEIGHT);
+
+      const metadata = await sharp(Buffer.from(result.base64, 'base64')).metadata();
+      expect(metadata.format).toBe('jpeg');
+      expect(metadata.width).toBe(result.width);
+    });
+
+    it('honors the EXIF orientation', async () => {
+      const result = await preprocessor.preprocess(await dataUri(label().withMetadata({ orientation: 6 })), 'nutrition');
+
+      expect(result.operations[0]).toBe('orient');
+      expect(result.height).toBeGreaterThan(result.width!);
+    });
+
+    it('levels skewed print', async () => {
+      const result = await preprocessor.preprocess(
+        await dataUri(label().rotate(6, { background: '#787878' })),
+        'nutrition'
+      );
+
+      expect(result.operations).toContainEqual(expect.stringMatching(/^deskew:(5\.\d|6(\.\d)?)$/));
+    });
+
+    it('downscales to the resolution of the task', async () => {
+      const small = new ImagePreprocessor({
+        barcode: { ...IMAGE_TASK_PROFILES.barcode, maxDimension: 240 },
+        nutrition: { ...IMAGE_TASK_PROFILES.nutrition, maxDimension: 360 },
+      });
+      const image = await dataUri(label());
+
+      const barcode = await small.preprocess(image, 'barcode');
+      const nutrition = await small.preprocess(image, 'nutrition');
+
+      expect(Math.max(barcode.width!, barcode.height!)).toBe(240);
+      expect(Math.max(nutrition.width!, nutrition.height!)).toBe(360);
+    });
+
+    it('rejects a dark photo', async () => {
+      const error = await preprocessor.preprocess(await dataUri(label().linear(0.12, 0)), 'nutrition').catch(e => e);
+
+      expect(error).toBeInstanceOf(ImageQualityError);
+      expect(error.code).toBe('IMAGE_TOO_DARK');
+      expect(error.metrics.brightness).toBeLessThan(IMAGE_TASK_PROFILES.nutrition.minBrightness);
+    });
+
+    it('rejects a blurry photo', async () => {
+      const error = await preprocessor.preprocess(await dataUri(label().blur(10)), 'nutrition').catch(e => e);
+
+      expect(error).toBeInstanceOf(ImageQualityError);
+      expect(error.code).toBe('IMAGE_TOO_BLURRY');
+    });
+
+    it('applies the gates of the task', async () => {
+      const lenient = new ImagePreprocessor({
+        ...IMAGE_TASK_PROFILES,
+        barcode: { ...IMAGE_TASK_PROFILES.barcode, minSharpness: 1 },
+      });
+      const image = await dataUri(label().blur(10));
+
+      await expect(lenient.preprocess(image, 'barcode')).resolves.toMatchObject({ mimeType: 'image/jpeg' });
+      await expect(lenient.preprocess(image, 'nutrition')).rejects.toThrow(ImageQualityError);
+    });
+
+    it('passes data it cannot decode through unchanged', async () => {
+      const result = await preprocessor.preprocess('data:image/png;base64,aGVsbG8=', 'barcode');
+
+      expect(result).toEqual({
+        base64: 'aGVsbG8=',
+        mimeType: 'image/png',
+        dataUri: 'data:image/png;base64,aGVsbG8=',
+        operations: [],
+      });
+    });
+  });
+});
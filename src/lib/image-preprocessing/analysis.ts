@@ -0,0 +1,258 @@
+/**
+ * Image Analysis
+ *
+ * Pure functions over 8-bit grayscale pixels (row-major, one byte per
+ * pixel) that the preprocessor runs on a downscaled copy of the photo:
+ * brightness and sharpness for the quality gates, the region holding the
+ * label, and the skew of its text lines.
+ */
+
+import type { ImageRegion } from './types';
+
+/**
+ * Gradient above which a pixel counts as part of an edge
+ */
+const EDGE_THRESHOLD = 48;
+
+/**
+ * Share of the edge mass trimmed from each side when locating the label,
+ * so stray texture in the background does not widen the region
+ */
+const REGION_TRIM = 0.02;
+
+/**
+ * Margin kept around the label, as a share of the image size
+ */
+const REGION_MARGIN = 0.03;
+
+/**
+ * A region covering more of the image than this is not worth cropping
+ */
+const MAX_CROP_AREA = 0.9;
+
+/**
+ * Fewest edge pixels needed to locate the label or measure its skew
+ */
+const MIN_EDGE_PIXELS = 200;
+
+/**
+ * A skew must improve the line alignment by this factor over 0° to be trusted
+ */
+const MIN_SKEW_GAIN = 1.15;
+
+function fullRegion(width: number, height: number): ImageRegion {
+  return { left: 0, top: 0, width, height };
+}
+
+/**
+ * Mean luminance (0-255)
+ */
+export function meanBrightness(pixels: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    sum += pixels[i];
+  }
+  return pixels.length > 0 ? sum / pixels.length : 0;
+}
+
+/**
+ * Variance of the Laplacian: high for crisp edges, low for a blurry or
+ * featureless image
+ *
+ * @param pixels - Grayscale pixels
+ * @param width - Image width
+ * @param height - Image height
+ * @param region - Part of the image to measure (default: all of it)
+ */
+export function laplacianVariance(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  region: ImageRegion = fullRegion(width, height)
+): number {
+  const top = Math.max(1, region.top);
+  const left = Math.max(1, region.left);
+  const bottom = Math.min(height - 1, region.top + region.height);
+  const right = Math.min(width - 1, region.left + region.width);
+
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = y * width + x;
+      const value = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      count++;
+      sum += value;
+      sumOfSquares += value * value;
+    }
+  }
+
+  if (count === 0) {
+    return 0;
+  }
+
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+/**
+ * Mark the pixels on an edge
+ *
+ * @param vertical - Only count changes from one row to the next, which is
+ *   what the lines of text produce
+ */
+function edgeMap(pixels: ArrayLike<number>, width: number, height: number, vertical: boolean = false): Uint8Array {
+  const edges = new Uint8Array(width * height);
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const dy = Math.abs(pixels[i + width] - pixels[i]);
+      const gradient = vertical ? dy : dy + Math.abs(pixels[i + 1] - pixels[i]);
+      if (gradient > EDGE_THRESHOLD) {
+        edges[i] = 1;
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Indexes between which the middle of the mass lies, trimming `trim` of
+ * the total from each end
+ */
+function massRange(mass: number[], total: number, trim: number): [number, number] {
+  const cutoff = total * trim;
+
+  let start = 0;
+  for (let seen = 0; start < mass.length - 1 && seen + mass[start] <= cutoff; start++) {
+    seen += mass[start];
+  }
+
+  let end = mass.length - 1;
+  for (let seen = 0; end > start && seen + mass[end] <= cutoff; end--) {
+    seen += mass[end];
+  }
+
+  return [start, end];
+}
+
+/**
+ * Locate the label: the region holding the bulk of the image's edges
+ * (print, text, bars), as opposed to a plain table or background
+ *
+ * @returns Region with a margin, or null when the detail fills the frame
+ *   or there is too little of it to tell
+ */
+export function findLabelRegion(pixels: ArrayLike<number>, width: number, height: number): ImageRegion | null {
+  const edges = edgeMap(pixels, width, height);
+  const rows = new Array<number>(height).fill(0);
+  const columns = new Array<number>(width).fill(0);
+  let total = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (edges[y * width + x]) {
+        rows[y]++;
+        columns[x]++;
+        total++;
+      }
+    }
+  }
+
+  if (total < MIN_EDGE_PIXELS) {
+    return null;
+  }
+
+  const [top, bottom] = massRange(rows, total, REGION_TRIM);
+  const [left, right] = massRange(columns, total, REGION_TRIM);
+  const marginX = Math.round(width * REGION_MARGIN);
+  const marginY = Math.round(height * REGION_MARGIN);
+
+  const region = {
+    left: Math.max(0, left - marginX),
+    top: Math.max(0, top - marginY),
+    width: 0,
+    height: 0,
+  };
+  region.width = Math.min(width, right + 1 + marginX) - region.left;
+  region.height = Math.min(height, bottom + 1 + marginY) - region.top;
+
+  return region.width * region.height > width * height * MAX_CROP_AREA ? null : region;
+}
+
+/**
+ * Estimate the skew of the text lines by projection profiles: projected
+ * at the right angle, the edges of each line fall into a few bins, which
+ * maximizes the sum of squared bin counts
+ *
+ * @param pixels - Grayscale pixels
+ * @param width - Image width
+ * @param height - Image height
+ * @param maxAngle - Largest skew considered, in degrees
+ * @param step - Angle resolution, in degrees
+ * @returns Skew in degrees, positive when lines run downhill to the right;
+ *   0 when no angle aligns the lines clearly better than 0°
+ */
+export function estimateSkewAngle(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  maxAngle: number = 15,
+  step: number = 0.5
+): number {
+  const edges = edgeMap(pixels, width, height, true);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (edges[y * width + x]) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  if (xs.length < MIN_EDGE_PIXELS) {
+    return 0;
+  }
+
+  // Projections range over [-width, width + height] for |angle| <= 45°
+  const offset = width;
+  const bins = new Float64Array(2 * width + height + 1);
+
+  const alignment = (degrees: number): number => {
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    bins.fill(0);
+
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] * cos - xs[i] * sin) + offset]++;
+    }
+
+    let score = 0;
+    for (let i = 0; i < bins.length; i++) {
+      score += bins[i] * bins[i];
+    }
+    return score;
+  };
+
+  const level = alignment(0);
+  let bestAngle = 0;
+  let bestScore = level;
+
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+    const score = alignment(angle);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestScore >= level * MIN_SKEW_GAIN ? Math.round(bestAngle * 10) / 10 : 0;
+}
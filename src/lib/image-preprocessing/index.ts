@@ -0,0 +1,16 @@
+/**
+ * Image Preprocessing
+ *
+ * Entry point of the server-side preprocessing stage that every uploaded
+ * photo goes through before extraction.
+ */
+
+import { ImagePreprocessor } from './ImagePreprocessor';
+
+export * from './types';
+export { ImagePreprocessor, ImageQualityError } from './ImagePreprocessor';
+export { IMAGE_TASK_PROFILES } from './profiles';
+export { estimateSkewAngle, findLabelRegion, laplacianVariance, meanBrightness } from './analysis';
+
+// Export singleton instance
+export const imagePreprocessor = new ImagePreprocessor();
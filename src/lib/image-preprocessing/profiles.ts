@@ -0,0 +1,15 @@
+/**
+ * Image Task Profiles
+ *
+ * Output resolution and quality gates per task. Barcodes and packaging
+ * text are legible well below the size a dense nutrition table needs,
+ * so barcode photos are sent smaller (and cheaper); table print is small,
+ * so label photos must also be sharper to be worth a model call.
+ */
+
+import type { ImageTask, ImageTaskProfile } from './types';
+
+export const IMAGE_TASK_PROFILES: Record<ImageTask, ImageTaskProfile> = {
+  barcode: { maxDimension: 1024, jpegQuality: 85, minSharpness: 60, minBrightness: 35 },
+  nutrition: { maxDimension: 1600, jpegQuality: 90, minSharpness: 100, minBrightness: 45 },
+};
@@ -0,0 +1,58 @@
+/**
+ * Image Preprocessing Types
+ */
+
+/**
+ * What a model is asked to read from the image
+ * - barcode: product photos read for a barcode, brand and name
+ * - nutrition: label photos read for the nutrition table and ingredients
+ */
+export type ImageTask = 'barcode' | 'nutrition';
+
+/**
+ * Target resolution, encoding and quality gates of a task
+ */
+export interface ImageTaskProfile {
+  maxDimension: number; // Longest side of the output in pixels
+  jpegQuality: number; // 1-100
+  minSharpness: number; // Variance of the Laplacian of the analysis image
+  minBrightness: number; // Mean luminance, 0-255
+}
+
+/**
+ * Pixel rectangle in the oriented image
+ */
+export interface ImageRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Measurements the quality gates are checked against
+ */
+export interface ImageQualityMetrics {
+  sharpness: number;
+  brightness: number;
+}
+
+/**
+ * Error codes of images rejected before any model call
+ */
+export type ImageQualityErrorCode = 'IMAGE_TOO_BLURRY' | 'IMAGE_TOO_DARK';
+
+/**
+ * Image ready to send to a model
+ * Images that can't be decoded are passed through unchanged, without
+ * dimensions or quality metrics.
+ */
+export interface PreprocessedImage {
+  base64: string; // Without data URI prefix
+  mimeType: string;
+  dataUri: string;
+  width?: number;
+  height?: number;
+  quality?: ImageQualityMetrics;
+  operations: string[]; // Steps applied, in order (e.g. 'orient', 'crop', 'deskew:-3.5')
+}
@@ -21,10 +21,8 @@ import {
   UserTier,
   DimensionStatus,
 } from '@/lib/types/dimension-analysis';
-import {
-  logDimensionMetrics,
-  calculateDimensionAnalysisCost,
-} from '@/lib/services/dimension-metrics';
+import { logDimensionMetrics } from '@/lib/services/dimension-metrics';
+import { measureLLMCost } from '@/lib/request-context';
 import type { IProgressEmitter } from '../progress/ProgressEmitter';
 
 /**
@@ -123,12 +121,17 @@ export class IntegrationLayer {
         { userTier, availableDimensions: this.getAvailableDimensions(userTier) }
       );
       
-      const dimensionResult = await this.dimensionAnalyzer.analyze({
+      const analysisRequest = {
         productId: identificationResult.product.id,
         productData: identificationResult.product,
         image: request.image!,
         userTier,
-      });
+      };
+
+      // Measure the model cost of the analysis (zero on a cache hit)
+      const { result: dimensionResult, costUsd: dimensionCost } = await measureLLMCost(() =>
+        this.dimensionAnalyzer.analyze(analysisRequest)
+      );
 
       if (!dimensionResult.success || !dimensionResult.analysis) {
         // Graceful degradation (Requirement 11.1)
@@ -142,7 +145,7 @@ export class IntegrationLayer {
           processingTimeMs: dimensionResult.processingTimeMs,
           success: false,
           errorCode: dimensionResult.error?.code,
-          apiCost: 0,
+          apiCost: dimensionCost,
         });
 
         const failedResult = {
@@ -191,7 +194,7 @@ export class IntegrationLayer {
         cached: dimensionResult.cached,
         processingTimeMs: dimensionResult.processingTimeMs,
         success: true,
-        apiCost: calculateDimensionAnalysisCost(dimensionResult.cached),
+        apiCost: dimensionCost,
         dimensionsViewed: this.getAvailableDimensions(userTier),
       });
 
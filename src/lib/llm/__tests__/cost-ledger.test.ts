@@ -0,0 +1,222 @@
+/**
+ * Tests for the LLM cost ledger
+ * Validates pricing, metering of provider calls with request attribution,
+ * cost scopes, the per-scan/tier/user/day summary and the daily budget
+ * alert, on an in-process ledger store
+ *
+ * @jest-environment node
+ */
+
+import { InProcessLLMUsageStore, LLMCostLedger, type LLMUsageEntry } from '../cost-ledger';
+import { MeteredProvider, recordLLMCall } from '../metered-provider';
+import { calculateLLMCost, getLLMPrice, getLLMPrices } from '../pricing';
+import type { LLMGenerateResponse, LLMProvider } from '../types';
+import { measureLLMCost, runWithRequestContext } from '@/lib/request-context';
+
+function fakeProvider(usage?: LLMGenerateResponse['usage']): LLMProvider {
+  return {
+    name: 'vertex',
+    defaultModel: 'gemini-2.0-flash',
+    generate: jest.fn(async () => ({ text: '{"ok":true}', model: 'gemini-2.0-flash', provider: 'vertex' as const, usage })),
+  };
+}
+
+function entry(overrides: Partial<LLMUsageEntry>): LLMUsageEntry {
+  return {
+    timestamp: new Date('2026-03-02T12:00:00Z'),
+    day: '2026-03-02',
+    requestId: 'request-1',
+    route: 'scan-multi-tier',
+    userId: 'user-1',
+    tier: 'free',
+    consumer: 'GeminiWrapper',
+    provider: 'vertex',
+    model: 'gemini-2.0-flash',
+    inputTokens: 1000,
+    outputTokens: 100,
+    estimated: false,
+    imageCount: 1,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+describe('LLM cost ledger', () => {
+  const originalPriceTable = process.env.LLM_PRICE_TABLE;
+
+  afterEach(() => {
+    process.env.LLM_PRICE_TABLE = originalPriceTable;
+    if (originalPriceTable === undefined) delete process.env.LLM_PRICE_TABLE;
+    jest.restoreAllMocks();
+  });
+
+  describe('pricing', () => {
+    it('prices input and output tokens per million', () => {
+      expect(calculateLLMCost('gemini-2.0-flash', { inputTokens: 1_000_000, outputTokens: 500_000 })).toBeCloseTo(0.3);
+    });
+
+    it('prices versioned and unlisted models', () => {
+      expect(getLLMPrice('gemini-2.0-flash-lite-001')).toEqual(getLLMPrices()['gemini-2.0-flash-lite']);
+      expect(getLLMPrice('some-new-model')).toEqual(getLLMPrices()['gemini-2.0-flash']);
+    });
+
+    it('applies LLM_PRICE_TABLE overrides and ignores invalid entries', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      process.env.LLM_PRICE_TABLE = JSON.stringify({
+        'gemini-2.0-flash': { inputPerMillion: 1, outputPerMillion: 2, perImage: 0.01 },
+        broken: { inputPerMillion: 'free' },
+      });
+
+      expect(calculateLLMCost('gemini-2.0-flash', { inputTokens: 1_000_000, outputTokens: 0 }, 2)).toBeCloseTo(1.02);
+      expect(getLLMPrices().broken).toBeUndefined();
+    });
+  });
+
+  describe('MeteredProvider', () => {
+    let store: InProcessLLMUsageStore;
+    let ledger: LLMCostLedger;
+
+    beforeEach(() => {
+      store = new InProcessLLMUsageStore();
+      ledger = new LLMCostLedger(store, () => null);
+    });
+
+    async function recorded(): Promise<LLMUsageEntry[]> {
+      await new Promise(resolve => setImmediate(resolve));
+      return store.find(new Date(0), new Date(Date.now() + 1000));
+    }
+
+    it('records reported usage with the route, user and tier of the request', async () => {
+      const provider = new MeteredProvider(fakeProvider({ inputTokens: 2000, outputTokens: 300 }), 'NutritionParser', ledger);
+
+      const response = await runWithRequestContext({ route: 'analyze-nutrition', userId: 'user-1', tier: 'premium' }, () =>
+        provider.generate({ prompt: 'Read the label', imageData: 'aGVsbG8=' })
+      );
+
+      const [call] = await recorded();
+      expect(call).toMatchObject({
+        route: 'analyze-nutrition',
+        userId: 'user-1',
+        tier: 'premium',
+        consumer: 'NutritionParser',
+        model: 'gemini-2.0-flash',
+        inputTokens: 2000,
+        outputTokens: 300,
+        estimated: false,
+        imageCount: 1,
+      });
+      expect(call.requestId).toEqual(expect.any(String));
+      expect(call.costUsd).toBeCloseTo((2000 * 0.1 + 300 * 0.4) / 1_000_000);
+      expect(response.usage?.costUsd).toBe(call.costUsd);
+    });
+
+    it('estimates usage when the provider reports none', async () => {
+      const provider = new MeteredProvider(fakeProvider(), null, ledger);
+
+      await provider.generate({ prompt: 'x'.repeat(400), imageData: 'aGVsbG8=' });
+
+      const [call] = await recorded();
+      expect(call).toMatchObject({ inputTokens: 100 + 258, outputTokens: 3, estimated: true, route: null });
+    });
+
+    it('records calls made outside a provider', async () => {
+      const usage = recordLLMCall({
+        provider: 'google-ai-studio',
+        model: 'gemini-2.0-flash',
+        consumer: 'ResearchAgent',
+        usage: { inputTokens: 5000, outputTokens: 800 },
+        prompt: 'Research this product',
+        output: '{"insights":[]}',
+        imageCount: 1,
+      }, ledger);
+
+      const [call] = await recorded();
+      expect(call).toMatchObject({ consumer: 'ResearchAgent', provider: 'google-ai-studio', inputTokens: 5000, outputTokens: 800 });
+      expect(usage.costUsd).toBe(call.costUsd);
+    });
+
+    it('totals the cost of the calls made inside measureLLMCost', async () => {
+      const provider = new MeteredProvider(fakeProvider({ inputTokens: 1_000_000, outputTokens: 0 }), null, ledger);
+
+      await provider.generate({ prompt: 'outside' });
+      const { result, costUsd, calls } = await measureLLMCost(async () => {
+        await provider.generate({ prompt: 'one' });
+        await provider.generate({ prompt: 'two' });
+        return 'analysis';
+      });
+
+      expect(result).toBe('analysis');
+      expect(calls).toBe(2);
+      expect(costUsd).toBeCloseTo(0.2);
+    });
+  });
+
+  describe('getReport', () => {
+    it('summarizes cost per scan, tier, user and day', async () => {
+      const store = new InProcessLLMUsageStore();
+      const ledger = new LLMCostLedger(store, () => 0.015);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await ledger.record(entry({ requestId: 'request-1', costUsd: 0.01 }));
+      await ledger.record(entry({ requestId: 'request-1', costUsd: 0.02, estimated: true }));
+      await ledger.record(entry({ requestId: 'request-2', costUsd: 0.03, userId: 'user-2', tier: 'premium' }));
+      await ledger.record(entry({
+        requestId: null,
+        route: null,
+        userId: null,
+        tier: null,
+        costUsd: 0.005,
+        timestamp: new Date('2026-03-01T12:00:00Z'),
+        day: '2026-03-01',
+      }));
+
+      const report = await ledger.getReport(
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-03T00:00:00Z'),
+        new Date('2026-03-02T18:00:00Z')
+      );
+
+      expect(report.totals).toMatchObject({ calls: 4, costUsd: 0.065, estimatedCalls: 1 });
+      expect(report.perScan).toEqual({ 'scan-multi-tier': { scans: 2, avgCostUsd: 0.03, maxCostUsd: 0.03 } });
+      expect(report.perTier.free.costUsd).toBe(0.03);
+      expect(report.perTier.premium.costUsd).toBe(0.03);
+      expect(report.perTier.unattributed.costUsd).toBe(0.005);
+      expect(report.perUser.map(user => [user.userId, user.costUsd])).toEqual([
+        ['user-1', 0.03],
+        ['user-2', 0.03],
+        [null, 0.005],
+      ]);
+      expect(report.perDay).toEqual([
+        expect.objectContaining({ day: '2026-03-01', costUsd: 0.005, overBudget: false }),
+        expect.objectContaining({ day: '2026-03-02', costUsd: 0.06, overBudget: true }),
+      ]);
+      expect(report.budget).toEqual({ dailyCapUsd: 0.015, spentTodayUsd: 0.06, exceeded: true });
+    });
+  });
+
+  describe('budget alerts', () => {
+    it('alerts once, when the daily spend crosses the cap', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const ledger = new LLMCostLedger(new InProcessLLMUsageStore(), () => 0.025);
+
+      await ledger.record(entry({ costUsd: 0.01 }));
+      await ledger.record(entry({ costUsd: 0.01 }));
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      await ledger.record(entry({ costUsd: 0.01 }));
+      await ledger.record(entry({ costUsd: 0.01 }));
+
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy.mock.calls[0][0]).toContain('BUDGET ALERT');
+    });
+
+    it('never fails a call when the ledger store fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const store = new InProcessLLMUsageStore();
+      jest.spyOn(store, 'insert').mockRejectedValue(new Error('Connection failed'));
+
+      await expect(new LLMCostLedger(store, () => null).record(entry({}))).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('[LLM Cost Ledger] ❌ Failed to record model call:', expect.any(Error));
+    });
+  });
+});
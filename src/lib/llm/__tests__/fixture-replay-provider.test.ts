@@ -0,0 +1,186 @@
+/**
+ * Unit tests for the fixture replay LLM provider
+ *
+ * Verifies deterministic replay keyed by prompt and image hash, and that the
+ * extraction services run end to end against fixtures without credentials.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  FixtureNotFoundError,
+  FixtureReplayProvider,
+  fixtureKey,
+} from '../fixture-replay-provider';
+import { createLLMProvider, getLLMProvider, resolveLLMProviderName } from '../provider-factory';
+import { NutritionParser } from '@/lib/services/nutrition-parser';
+import { GeminiWrapper } from '@/lib/gemini-wrapper';
+
+// The AI SDK is never called by the fixture provider
+jest.mock('ai', () => ({
+  generateText: jest.fn(),
+}));
+
+jest.mock('@ai-sdk/google', () => ({
+  google: jest.fn((model: string) => ({ model })),
+}));
+
+const IMAGE = 'data:image/jpeg;base64,aW1hZ2UtYnl0ZXM=';
+const OTHER_IMAGE = 'data:image/jpeg;base64,b3RoZXItYnl0ZXM=';
+
+describe('FixtureReplayProvider', () => {
+  let provider: FixtureReplayProvider;
+
+  beforeEach(() => {
+    provider = new FixtureReplayProvider(path.join(tmpdir(), 'llm-fixtures-missing'));
+  });
+
+  describe('fixtureKey', () => {
+    it('should be stable for the same prompt and image', () => {
+      expect(fixtureKey('prompt', IMAGE)).toBe(fixtureKey('prompt', IMAGE));
+    });
+
+    it('should ignore the data URI prefix', () => {
+      expect(fixtureKey('prompt', IMAGE)).toBe(fixtureKey('prompt', 'aW1hZ2UtYnl0ZXM='));
+    });
+
+    it('should differ by prompt and by image', () => {
+      const key = fixtureKey('prompt', IMAGE);
+      expect(fixtureKey('other prompt', IMAGE)).not.toBe(key);
+      expect(fixtureKey('prompt', OTHER_IMAGE)).not.toBe(key);
+      expect(fixtureKey('prompt')).not.toBe(key);
+    });
+  });
+
+  describe('generate', () => {
+    it('should replay a registered fixture', async () => {
+      provider.register('prompt', '{"ok":true}', IMAGE);
+
+      const result = await provider.generate({ prompt: 'prompt', imageData: IMAGE });
+
+      expect(result.text).toBe('{"ok":true}');
+      expect(result.provider).toBe('fixture');
+    });
+
+    it('should throw FixtureNotFoundError for an unrecorded image', async () => {
+      provider.register('prompt', '{"ok":true}', IMAGE);
+
+      await expect(
+        provider.generate({ prompt: 'prompt', imageData: OTHER_IMAGE })
+      ).rejects.toBeInstanceOf(FixtureNotFoundError);
+    });
+
+    it('should load fixtures from the fixture directory', async () => {
+      const dir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+      try {
+        const key = fixtureKey('prompt', IMAGE);
+        writeFileSync(
+          path.join(dir, `${key}.json`),
+          JSON.stringify({
+            key,
+            prompt: 'prompt',
+            imageHash: null,
+            model: 'gemini-2.0-flash',
+            text: 'from disk',
+            recordedAt: '2026-01-01T00:00:00.000Z',
+          })
+        );
+
+        const diskProvider = new FixtureReplayProvider(dir);
+        const result = await diskProvider.generate({ prompt: 'prompt', imageData: IMAGE });
+
+        expect(result.text).toBe('from disk');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('provider factory', () => {
+    afterEach(() => {
+      delete process.env.LLM_PROVIDER;
+    });
+
+    it('should use the caller default when LLM_PROVIDER is not set', () => {
+      expect(resolveLLMProviderName('vertex')).toBe('vertex');
+    });
+
+    it('should honor LLM_PROVIDER', () => {
+      process.env.LLM_PROVIDER = 'fixture';
+      expect(resolveLLMProviderName('vertex')).toBe('fixture');
+      expect(getLLMProvider('google-ai-studio')).toBeInstanceOf(FixtureReplayProvider);
+    });
+
+    it('should ignore unknown LLM_PROVIDER values', () => {
+      process.env.LLM_PROVIDER = 'openai';
+      expect(resolveLLMProviderName('vertex')).toBe('vertex');
+    });
+
+    it('should not require an API key for the fixture provider', () => {
+      delete process.env.GEMINI_API_KEY;
+      delete process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+      process.env.LLM_PROVIDER = 'fixture';
+
+      expect(() => new NutritionParser()).not.toThrow();
+      expect(() => createLLMProvider('google-ai-studio', { consumer: 'Test' }))
+        .toThrow('Gemini API key is required for Test');
+    });
+  });
+
+  describe('end to end', () => {
+    it('should run NutritionParser against a recorded response', async () => {
+      const parser = new NutritionParser(undefined, provider);
+      // Record whatever prompt the parser sends for this image
+      const spy = jest.spyOn(provider, 'generate');
+      await expect(parser.parse(IMAGE)).rejects.toThrow();
+      const prompt = spy.mock.calls[0][0].prompt;
+
+      provider.register(
+        prompt,
+        JSON.stringify({
+          servingSize: { amount: 28, unit: 'g', confidence: 0.95 },
+          calories: { value: 150, confidence: 0.98 },
+          totalFat: { value: 8, confidence: 0.96 },
+          saturatedFat: { value: 1, confidence: 0.94 },
+          transFat: { value: 0, confidence: 0.92 },
+          cholesterol: { value: 0, confidence: 0.9 },
+          sodium: { value: 170, confidence: 0.97 },
+          totalCarbohydrates: { value: 15, confidence: 0.96 },
+          dietaryFiber: { value: 3, confidence: 0.93 },
+          totalSugars: { value: 1, confidence: 0.95 },
+          protein: { value: 6, confidence: 0.97 },
+        }),
+        IMAGE
+      );
+
+      const facts = await parser.parse(IMAGE);
+
+      expect(facts.calories.value).toBe(150);
+      expect(facts.validationStatus).toBe('valid');
+    });
+
+    it('should return replayed text through GeminiWrapper', async () => {
+      provider.register('combined prompt', '{"barcode":"012345678905"}', 'aW1hZ2UtYnl0ZXM=');
+      const wrapper = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', provider);
+
+      const result = await wrapper.generateContent({
+        prompt: 'combined prompt',
+        imageData: 'aW1hZ2UtYnl0ZXM=',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.text).toBe('{"barcode":"012345678905"}');
+      expect(wrapper.getStats().totalCalls).toBe(1);
+    });
+
+    it('should surface a missing fixture as a failed GeminiWrapper call', async () => {
+      const wrapper = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', provider);
+
+      const result = await wrapper.generateContent({ prompt: 'unrecorded' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No LLM fixture recorded');
+    });
+  });
+});
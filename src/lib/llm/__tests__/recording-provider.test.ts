@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the recording LLM provider
+ *
+ * Verifies that recorded responses replay through FixtureReplayProvider and
+ * that GeminiWrapper honors LLM_FIXTURE_MODE.
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FixtureReplayProvider, fixtureKey } from '../fixture-replay-provider';
+import { RecordingProvider } from '../recording-provider';
+import type { LLMFixture, LLMProvider } from '../types';
+import { GeminiWrapper } from '@/lib/gemini-wrapper';
+
+jest.mock('ai', () => ({
+  generateText: jest.fn(),
+}));
+
+jest.mock('@ai-sdk/google', () => ({
+  google: jest.fn((model: string) => ({ model })),
+}));
+
+const IMAGE = 'data:image/png;base64,aW1hZ2UtYnl0ZXM=';
+
+describe('RecordingProvider', () => {
+  let dir: string;
+  let inner: LLMProvider;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'llm-recordings-'));
+    inner = {
+      name: 'vertex',
+      defaultModel: 'gemini-2.0-flash',
+      generate: jest.fn(async () => ({
+        text: '{"barcode":"012345678905"}',
+        model: 'gemini-2.0-flash',
+        provider: 'vertex' as const,
+      })),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.LLM_FIXTURE_MODE;
+    delete process.env.LLM_FIXTURE_DIR;
+  });
+
+  it('should record the response, request settings and image', async () => {
+    const recorder = new RecordingProvider(inner, dir);
+
+    const result = await recorder.generate({ prompt: 'prompt', imageData: IMAGE, temperature: 0.2 });
+
+    expect(result.text).toBe('{"barcode":"012345678905"}');
+    expect(recorder.name).toBe('vertex');
+
+    const key = fixtureKey('prompt', IMAGE);
+    const fixture = JSON.parse(readFileSync(path.join(dir, `${key}.json`), 'utf8')) as LLMFixture;
+
+    expect(fixture.prompt).toBe('prompt');
+    expect(fixture.model).toBe('gemini-2.0-flash');
+    expect(fixture.temperature).toBe(0.2);
+    expect(fixture.imageFile).toBe(path.join('images', `${fixture.imageHash}.png`));
+    expect(readFileSync(path.join(dir, fixture.imageFile!)).toString()).toBe('image-bytes');
+  });
+
+  it('should replay recordings through FixtureReplayProvider', async () => {
+    await new RecordingProvider(inner, dir).generate({ prompt: 'prompt', imageData: IMAGE });
+
+    const replay = new FixtureReplayProvider(dir);
+    const result = await replay.generate({ prompt: 'prompt', imageData: IMAGE });
+
+    expect(result.text).toBe('{"barcode":"012345678905"}');
+  });
+
+  it('should not record failed calls', async () => {
+    (inner.generate as jest.Mock).mockRejectedValueOnce(new Error('quota exceeded'));
+
+    await expect(
+      new RecordingProvider(inner, dir).generate({ prompt: 'prompt' })
+    ).rejects.toThrow('quota exceeded');
+    expect(existsSync(path.join(dir, `${fixtureKey('prompt')}.json`))).toBe(false);
+  });
+
+  it('should record and replay through GeminiWrapper with LLM_FIXTURE_MODE', async () => {
+    process.env.LLM_FIXTURE_DIR = dir;
+    process.env.LLM_FIXTURE_MODE = 'record';
+    const recording = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', inner);
+    await recording.generateContent({ prompt: 'prompt', imageData: IMAGE });
+
+    process.env.LLM_FIXTURE_MODE = 'replay';
+    const replaying = new GeminiWrapper('project', 'location', 'gemini-2.0-flash');
+    const result = await replaying.generateContent({ prompt: 'prompt', imageData: IMAGE });
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('{"barcode":"012345678905"}');
+    expect(inner.generate).toHaveBeenCalledTimes(1);
+  });
+});
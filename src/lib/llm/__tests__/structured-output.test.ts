@@ -0,0 +1,157 @@
+/**
+ * Unit tests for schema-validated LLM output and the repair re-prompt
+ */
+
+import {
+  extractJsonText,
+  generateStructured,
+  LLMResponseValidationError,
+  parseLLMResponse,
+} from '../structured-output';
+import { FixtureReplayProvider } from '../fixture-replay-provider';
+import {
+  AllergensDimensionSchema,
+  HealthDimensionSchema,
+  ProcessingDimensionSchema,
+} from '@/lib/prompts/response-schemas';
+import { GeminiWrapper } from '@/lib/gemini-wrapper';
+
+jest.mock('ai', () => ({
+  generateText: jest.fn(),
+}));
+
+jest.mock('@ai-sdk/google', () => ({
+  google: jest.fn((model: string) => ({ model })),
+}));
+
+const HEALTH = {
+  score: 72,
+  explanation: 'Whole grains with moderate added sugar.',
+  key_factors: ['Whole grain oats', 'Added sugar'],
+  confidence: 0.85,
+};
+
+describe('structured output', () => {
+  describe('extractJsonText', () => {
+    it('should strip fences and conversational text', () => {
+      expect(extractJsonText('```json\n{"a":1}\n```')).toBe('{"a":1}');
+      expect(extractJsonText('Here is the analysis: {"a":1} Hope this helps!')).toBe('{"a":1}');
+    });
+  });
+
+  describe('parseLLMResponse', () => {
+    it('should return validated data', () => {
+      expect(parseLLMResponse(JSON.stringify(HEALTH), HealthDimensionSchema)).toEqual(HEALTH);
+    });
+
+    it('should report every schema violation with its path', () => {
+      try {
+        parseLLMResponse(JSON.stringify({ ...HEALTH, score: 140, key_factors: 'none' }), HealthDimensionSchema);
+        fail('expected validation error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(LLMResponseValidationError);
+        const issues = (error as LLMResponseValidationError).issues;
+        expect(issues).toHaveLength(2);
+        expect(issues[0]).toMatch(/^score: /);
+        expect(issues[1]).toMatch(/^key_factors: /);
+      }
+    });
+
+    it('should default missing detection lists on dimension responses', () => {
+      expect(parseLLMResponse(JSON.stringify(HEALTH), ProcessingDimensionSchema).additives_detected)
+        .toEqual({ preservatives: [], artificial_sweeteners: [], artificial_colors: [], other_additives: [] });
+      expect(
+        parseLLMResponse(
+          JSON.stringify({ ...HEALTH, allergens_detected: { major_allergens: ['milk'] } }),
+          AllergensDimensionSchema
+        ).allergens_detected
+      ).toEqual({
+        major_allergens: ['milk'],
+        other_allergens: [],
+        may_contain_allergens: [],
+        cross_contamination_warnings: [],
+        allergen_free_claims: [],
+      });
+    });
+  });
+
+  describe('generateStructured', () => {
+    it('should not re-prompt a valid response', async () => {
+      const generate = jest.fn(async () => JSON.stringify(HEALTH));
+
+      const result = await generateStructured(generate, 'prompt', HealthDimensionSchema);
+
+      expect(result).toMatchObject({ data: HEALTH, repaired: false });
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-prompt once with the rejected response and validation errors', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce('{"score": "high"}')
+        .mockResolvedValueOnce(JSON.stringify(HEALTH));
+
+      const result = await generateStructured(generate, 'prompt', HealthDimensionSchema);
+
+      expect(result).toMatchObject({ data: HEALTH, repaired: true });
+      const repairPrompt = generate.mock.calls[1][0] as string;
+      expect(repairPrompt.startsWith('prompt')).toBe(true);
+      expect(repairPrompt).toContain('{"score": "high"}');
+      expect(repairPrompt).toContain('- score: ');
+      expect(repairPrompt).toContain('- explanation: ');
+    });
+
+    it('should throw when the repaired response is still invalid', async () => {
+      const generate = jest.fn(async () => 'not json');
+
+      await expect(generateStructured(generate, 'prompt', HealthDimensionSchema))
+        .rejects.toBeInstanceOf(LLMResponseValidationError);
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('GeminiWrapper.generateStructured', () => {
+    const IMAGE = 'aW1hZ2UtYnl0ZXM=';
+
+    it('should return repaired, typed data', async () => {
+      const provider = new FixtureReplayProvider('/nonexistent');
+      const generate = jest.spyOn(provider, 'generate')
+        .mockResolvedValueOnce({ text: 'Score: 72', model: 'gemini-2.0-flash', provider: 'fixture' })
+        .mockResolvedValueOnce({ text: JSON.stringify(HEALTH), model: 'gemini-2.0-flash', provider: 'fixture' });
+      const wrapper = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', provider);
+
+      const result = await wrapper.generateStructured({ prompt: 'health', imageData: IMAGE }, HealthDimensionSchema);
+
+      expect(result.success).toBe(true);
+      expect(result.repaired).toBe(true);
+      expect(result.data?.score).toBe(72);
+      // The repair re-prompt resends the image
+      expect(generate.mock.calls[1][0].imageData).toBe(IMAGE);
+    });
+
+    it('should surface validation errors after a failed repair', async () => {
+      const provider = new FixtureReplayProvider('/nonexistent');
+      jest.spyOn(provider, 'generate')
+        .mockResolvedValue({ text: '{"score": 72}', model: 'gemini-2.0-flash', provider: 'fixture' });
+      const wrapper = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', provider);
+
+      const result = await wrapper.generateStructured({ prompt: 'health' }, HealthDimensionSchema);
+
+      expect(result.success).toBe(false);
+      expect(result.text).toBe('{"score": 72}');
+      expect(result.validationErrors).toEqual(expect.arrayContaining([expect.stringMatching(/^explanation: /)]));
+    });
+
+    it('should not re-prompt when the model call fails', async () => {
+      const provider = new FixtureReplayProvider('/nonexistent');
+      const generate = jest.spyOn(provider, 'generate');
+      const wrapper = new GeminiWrapper('project', 'location', 'gemini-2.0-flash', provider);
+
+      const result = await wrapper.generateStructured({ prompt: 'health' }, HealthDimensionSchema);
+
+      expect(result.success).toBe(false);
+      expect(result.validationErrors).toBeUndefined();
+      expect(result.error).toContain('No LLM fixture recorded');
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * LLM Cost Ledger
+ *
+ * Records one entry per model call (tokens, images, model, route, user,
+ * tier and cost) and summarizes them for /api/metrics: cost per scan, per
+ * tier, per user and per day. Spend is also totalled per UTC day; when it
+ * crosses LLM_DAILY_BUDGET_USD a budget alert is logged, once per day.
+ *
+ * Entries are written by MeteredProvider, which wraps every live provider
+ * created by getLLMProvider.
+ */
+
+import type { TierType } from '@/lib/types';
+import { llmUsageRepository } from '@/lib/mongodb/llm-usage';
+import type { LLMProviderName } from './types';
+
+/**
+ * One model call
+ */
+export interface LLMUsageEntry {
+  timestamp: Date;
+  day: string; // UTC date (YYYY-MM-DD)
+  requestId: string | null;
+  route: string | null; // Rate-limited route the call was made for, null outside requests
+  userId: string | null;
+  tier: TierType | null;
+  consumer: string | null; // Calling service (e.g. NutritionParser)
+  provider: LLMProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Tokens estimated from text length
+  imageCount: number;
+  costUsd: number;
+}
+
+/**
+ * Persistence of ledger entries and daily totals
+ */
+export interface LLMUsageStore {
+  insert(entry: LLMUsageEntry): Promise<void>;
+  /** Add to a day's spend and return the new total */
+  addDailyCost(day: string, costUsd: number): Promise<number>;
+  /** Entries with start <= timestamp <= end */
+  find(start: Date, end: Date): Promise<LLMUsageEntry[]>;
+  dailyCost(day: string): Promise<number>;
+}
+
+/**
+ * Totals of a group of calls
+ */
+export interface LLMCostTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  costUsd: number;
+}
+
+/**
+ * Cost of the requests to one route that called a model
+ */
+export interface LLMScanCost {
+  scans: number;
+  avgCostUsd: number;
+  maxCostUsd: number;
+}
+
+/**
+ * Ledger summary for a time range
+ */
+export interface LLMCostReport {
+  totals: LLMCostTotals & { estimatedCalls: number };
+  perScan: Record<string, LLMScanCost>;
+  perTier: Record<string, LLMCostTotals>;
+  perUser: Array<LLMCostTotals & { userId: string | null }>;
+  perDay: Array<LLMCostTotals & { day: string; overBudget: boolean }>;
+  perModel: Record<string, LLMCostTotals>;
+  budget: {
+    dailyCapUsd: number | null;
+    spentTodayUsd: number;
+    exceeded: boolean;
+  };
+}
+
+/**
+ * Users listed in perUser, by cost
+ */
+const TOP_USERS = 20;
+
+/**
+ * Key of calls made outside a rate-limited request, or without a tier
+ */
+const UNATTRIBUTED = 'unattributed';
+
+/**
+ * Daily budget from LLM_DAILY_BUDGET_USD (null when unset or invalid)
+ */
+export function getDailyBudgetUsd(): number | null {
+  const configured = Number(process.env.LLM_DAILY_BUDGET_USD);
+  return process.env.LLM_DAILY_BUDGET_USD && configured > 0 ? configured : null;
+}
+
+/**
+ * UTC date of a time (YYYY-MM-DD)
+ */
+export function ledgerDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function emptyTotals(): LLMCostTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, imageCount: 0, costUsd: 0 };
+}
+
+function addEntry(totals: LLMCostTotals, entry: LLMUsageEntry): LLMCostTotals {
+  totals.calls++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.imageCount += entry.imageCount;
+  totals.costUsd += entry.costUsd;
+  return totals;
+}
+
+function rounded<T extends LLMCostTotals>(totals: T): T {
+  return { ...totals, costUsd: roundUsd(totals.costUsd) };
+}
+
+function groupBy(entries: LLMUsageEntry[], key: (entry: LLMUsageEntry) => string): Map<string, LLMCostTotals> {
+  const groups = new Map<string, LLMCostTotals>();
+  for (const entry of entries) {
+    const name = key(entry);
+    groups.set(name, addEntry(groups.get(name) ?? emptyTotals(), entry));
+  }
+  return groups;
+}
+
+/**
+ * Summarize ledger entries
+ *
+ * @param entries - Entries of the time range
+ * @param dailyCapUsd - Daily budget, if any
+ * @param spentTodayUsd - Spend so far today
+ */
+export function summarizeLLMUsage(
+  entries: LLMUsageEntry[],
+  dailyCapUsd: number | null,
+  spentTodayUsd: number
+): LLMCostReport {
+  const totals = entries.reduce(addEntry, emptyTotals());
+
+  // A scan is one request to a rate-limited route; requests served from
+  // cache make no model calls and are not counted
+  const scans = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    if (!entry.route || !entry.requestId) continue;
+    const requests = scans.get(entry.route) ?? new Map<string, number>();
+    requests.set(entry.requestId, (requests.get(entry.requestId) ?? 0) + entry.costUsd);
+    scans.set(entry.route, requests);
+  }
+
+  const perScan = Object.fromEntries(
+    [...scans].map(([route, requests]) => {
+      const costs = [...requests.values()];
+      return [route, {
+        scans: costs.length,
+        avgCostUsd: roundUsd(costs.reduce((sum, cost) => sum + cost, 0) / costs.length),
+        maxCostUsd: roundUsd(Math.max(...costs)),
+      }];
+    })
+  );
+
+  const perUser = [...groupBy(entries, entry => entry.userId ?? '')]
+    .map(([userId, userTotals]) => ({ userId: userId || null, ...rounded(userTotals) }))
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .slice(0, TOP_USERS);
+
+  const perDay = [...groupBy(entries, entry => entry.day)]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, dayTotals]) => ({
+      day,
+      ...rounded(dayTotals),
+      overBudget: dailyCapUsd !== null && dayTotals.costUsd >= dailyCapUsd,
+    }));
+
+  const byName = (groups: Map<string, LLMCostTotals>) =>
+    Object.fromEntries([...groups].map(([name, groupTotals]) => [name, rounded(groupTotals)]));
+
+  return {
+    totals: { ...rounded(totals), estimatedCalls: entries.filter(entry => entry.estimated).length },
+    perScan,
+    perTier: byName(groupBy(entries, entry => entry.tier ?? UNATTRIBUTED)),
+    perUser,
+    perDay,
+    perModel: byName(groupBy(entries, entry => entry.model)),
+    budget: {
+      dailyCapUsd,
+      spentTodayUsd: roundUsd(spentTodayUsd),
+      exceeded: dailyCapUsd !== null && spentTodayUsd >= dailyCapUsd,
+    },
+  };
+}
+
+/**
+ * Map-backed LLMUsageStore for tests and scripts that run without MongoDB
+ */
+export class InProcessLLMUsageStore implements LLMUsageStore {
+  private entries: LLMUsageEntry[] = [];
+  private daily = new Map<string, number>();
+
+  async insert(entry: LLMUsageEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async addDailyCost(day: string, costUsd: number): Promise<number> {
+    const total = (this.daily.get(day) ?? 0) + costUsd;
+    this.daily.set(day, total);
+    return total;
+  }
+
+  async find(start: Date, end: Date): Promise<LLMUsageEntry[]> {
+    return this.entries.filter(entry => entry.timestamp >= start && entry.timestamp <= end);
+  }
+
+  async dailyCost(day: string): Promise<number> {
+    return this.daily.get(day) ?? 0;
+  }
+}
+
+export class LLMCostLedger {
+  /**
+   * @param store - Ledger persistence
+   * @param dailyBudgetUsd - Daily budget (default: LLM_DAILY_BUDGET_USD)
+   */
+  constructor(
+    private store: LLMUsageStore,
+    private dailyBudgetUsd: () => number | null = getDailyBudgetUsd
+  ) {}
+
+  /**
+   * Record a model call and check the daily budget
+   * Failures are logged and swallowed: accounting must never break a scan.
+   */
+  async record(entry: LLMUsageEntry): Promise<void> {
+    try {
+      await this.store.insert(entry);
+      const spent = await this.store.addDailyCost(entry.day, entry.costUsd);
+
+      // Only the call that crosses the cap sees it on both sides, so the
+      // alert is raised once per day even with concurrent instances
+      const cap = this.dailyBudgetUsd();
+      if (cap !== null && spent >= cap && spent - entry.costUsd < cap) {
+        console.error(
+          `[LLM Cost Ledger] 🚨 BUDGET ALERT: LLM spend for ${entry.day} reached $${spent.toFixed(4)} (daily cap $${cap.toFixed(2)})`
+        );
+      }
+    } catch (error) {
+      console.error('[LLM Cost Ledger] ❌ Failed to record model call:', error);
+    }
+  }
+
+  /**
+   * Summarize the ledger over a time range
+   *
+   * @param start - Range start
+   * @param end - Range end
+   * @param now - Current time, for today's budget status
+   */
+  async getReport(start: Date, end: Date, now: Date = new Date()): Promise<LLMCostReport> {
+    const [entries, spentToday] = await Promise.all([
+      this.store.find(start, end),
+      this.store.dailyCost(ledgerDay(now)),
+    ]);
+
+    return summarizeLLMUsage(entries, this.dailyBudgetUsd(), spentToday);
+  }
+}
+
+// Export singleton instance
+export const llmCostLedger = new LLMCostLedger(llmUsageRepository);
@@ -0,0 +1,120 @@
+/**
+ * Fixture Replay LLM Provider
+ *
+ * Deterministic local fake that serves recorded model responses instead of
+ * calling a live API. Fixtures are keyed by the prompt text and the image hash,
+ * so the same extraction request always replays the same response.
+ *
+ * Fixtures are read from `<fixtureDir>/<key>.json` (default: fixtures/llm,
+ * override with LLM_FIXTURE_DIR) or registered in memory for tests.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { GEMINI_MODEL } from '@/lib/config/gemini';
+import { splitImageData } from './image-data';
+import type { LLMFixture, LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from './types';
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/llm';
+
+/**
+ * Hash image data the same way hashImage() does on the server
+ * (SHA-256 over the base64 string without data URI prefix)
+ *
+ * @param imageData - Base64 image, with or without data URI prefix
+ * @returns Hex digest
+ */
+export function hashFixtureImage(imageData: string): string {
+  const { base64 } = splitImageData(imageData);
+  return createHash('sha256').update(base64).digest('hex');
+}
+
+/**
+ * Compute the fixture key for a prompt and optional image
+ *
+ * @param prompt - Prompt text sent to the model
+ * @param imageData - Optional base64 image
+ * @returns Hex key used as fixture file name
+ */
+export function fixtureKey(prompt: string, imageData?: string): string {
+  const imageHash = imageData ? hashFixtureImage(imageData) : '';
+  return createHash('sha256').update(`${prompt}\n${imageHash}`).digest('hex');
+}
+
+/**
+ * Error thrown when no fixture exists for a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly key: string, public readonly fixtureDir: string) {
+    super(`No LLM fixture recorded for key ${key} (looked in ${fixtureDir})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly defaultModel: string;
+  readonly fixtureDir: string;
+  private fixtures: Map<string, LLMFixture> = new Map();
+
+  constructor(fixtureDir?: string, modelName: string = GEMINI_MODEL) {
+    this.fixtureDir = path.resolve(fixtureDir || process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+    this.defaultModel = modelName;
+  }
+
+  /**
+   * Register a fixture in memory (takes precedence over files on disk)
+   *
+   * @param prompt - Prompt the fixture answers
+   * @param text - Raw response text to replay
+   * @param imageData - Optional image the fixture answers
+   * @returns The registered fixture
+   */
+  register(prompt: string, text: string, imageData?: string): LLMFixture {
+    const fixture: LLMFixture = {
+      key: fixtureKey(prompt, imageData),
+      prompt,
+      imageHash: imageData ? hashFixtureImage(imageData) : null,
+      model: this.defaultModel,
+      text,
+      recordedAt: new Date().toISOString(),
+    };
+    this.fixtures.set(fixture.key, fixture);
+    return fixture;
+  }
+
+  /**
+   * Replay the recorded response for a request
+   *
+   * @throws FixtureNotFoundError if nothing was recorded for the request
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const fixture = this.load(fixtureKey(request.prompt, request.imageData));
+
+    return {
+      text: fixture.text,
+      model: fixture.model || request.model || this.defaultModel,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Look up a fixture in memory, then on disk
+   */
+  private load(key: string): LLMFixture {
+    const cached = this.fixtures.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = path.join(this.fixtureDir, `${key}.json`);
+    if (!existsSync(filePath)) {
+      throw new FixtureNotFoundError(key, this.fixtureDir);
+    }
+
+    const fixture = JSON.parse(readFileSync(filePath, 'utf8')) as LLMFixture;
+    this.fixtures.set(key, fixture);
+    return fixture;
+  }
+}
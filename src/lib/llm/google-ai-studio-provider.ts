@@ -0,0 +1,73 @@
+/**
+ * Google AI Studio LLM Provider
+ *
+ * Calls Gemini through the Vercel AI SDK (@ai-sdk/google) with an API key.
+ * This is the backend previously used directly by GeminiClient and the
+ * nutrition, ingredient and classifier services.
+ */
+
+import { generateText } from 'ai';
+import { google } from '@ai-sdk/google';
+import { GEMINI_MODEL } from '@/lib/config/gemini';
+import { toImageDataUrl } from './image-data';
+import type { LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from './types';
+
+export class GoogleAIStudioProvider implements LLMProvider {
+  readonly name = 'google-ai-studio' as const;
+  readonly defaultModel: string;
+
+  constructor(apiKey?: string, modelName: string = GEMINI_MODEL, consumer?: string) {
+    const key = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
+
+    if (!key) {
+      throw new Error(consumer ? `Gemini API key is required for ${consumer}` : 'Gemini API key is required');
+    }
+
+    // Set API key for @ai-sdk/google
+    process.env.GOOGLE_GENERATIVE_AI_API_KEY = key;
+
+    this.defaultModel = modelName;
+  }
+
+  /**
+   * Generate content with Google AI Studio
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const modelName = request.model || this.defaultModel;
+
+    const content: Array<{ type: 'text'; text: string } | { type: 'image'; image: string }> = [
+      { type: 'text', text: request.prompt },
+    ];
+
+    if (request.imageData) {
+      content.push({
+        type: 'image',
+        image: toImageDataUrl(request.imageData, request.imageMimeType),
+      });
+    }
+
+    const result = await generateText({
+      model: google(modelName),
+      temperature: request.temperature,
+      messages: [
+        {
+          role: 'user',
+          content,
+        },
+      ],
+    });
+
+    return {
+      text: result.text,
+      model: modelName,
+      provider: this.name,
+      ...(result.usage?.inputTokens !== undefined && {
+        usage: {
+          inputTokens: result.usage.inputTokens,
+          outputTokens: result.usage.outputTokens ?? 0,
+        },
+      }),
+      raw: result,
+    };
+  }
+}
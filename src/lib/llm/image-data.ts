@@ -0,0 +1,43 @@
+/**
+ * Image payload helpers shared by LLM providers
+ */
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,/;
+
+/**
+ * Split an image string into raw base64 data and MIME type
+ *
+ * @param imageData - Base64 image, with or without data URI prefix
+ * @param fallbackMimeType - MIME type to use when no prefix is present
+ * @returns Raw base64 data and MIME type
+ */
+export function splitImageData(
+  imageData: string,
+  fallbackMimeType: string = 'image/jpeg'
+): { base64: string; mimeType: string } {
+  const match = imageData.match(DATA_URL_PATTERN);
+  if (match) {
+    return {
+      base64: imageData.slice(match[0].length),
+      mimeType: match[1],
+    };
+  }
+  return { base64: imageData, mimeType: fallbackMimeType };
+}
+
+/**
+ * Ensure an image string is a data URL
+ *
+ * @param imageData - Base64 image, with or without data URI prefix
+ * @param fallbackMimeType - MIME type to use when no prefix is present
+ * @returns Data URL (data:<mime>;base64,<data>)
+ */
+export function toImageDataUrl(
+  imageData: string,
+  fallbackMimeType: string = 'image/jpeg'
+): string {
+  if (imageData.startsWith('data:')) {
+    return imageData;
+  }
+  return `data:${fallbackMimeType};base64,${imageData}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Metered LLM Provider
+ *
+ * Wraps a live provider and costs every successful call: tokens come from
+ * the provider's usage metadata (estimated from text length when it reports
+ * none), the cost from the price table. Each call is written to the LLM cost
+ * ledger with the route, user and tier of the current request, added to the
+ * open cost scopes (see measureLLMCost), and returned on response.usage.
+ *
+ * Routes that call a model SDK directly (e.g. tool-calling agents the
+ * provider interface does not cover) record their calls with recordLLMCall.
+ */
+
+import { addLLMCost, getRequestContext } from '@/lib/request-context';
+import { llmCostLedger, ledgerDay, type LLMCostLedger } from './cost-ledger';
+import { calculateLLMCost, estimateLLMUsage } from './pricing';
+import type { LLMGenerateRequest, LLMGenerateResponse, LLMProvider, LLMProviderName, LLMUsage } from './types';
+
+/**
+ * One model call to cost and record
+ */
+export interface LLMCall {
+  provider: LLMProviderName;
+  model: string;
+  consumer: string | null; // Calling service or route
+  usage?: LLMUsage; // Reported usage, estimated from prompt and output when absent
+  prompt: string;
+  output: string;
+  imageCount: number;
+}
+
+/**
+ * Cost a model call, add it to the open cost scopes and write it to the
+ * ledger in the background (the ledger logs its own failures)
+ *
+ * @param call - The call
+ * @param ledger - Ledger to record to (default: the MongoDB ledger)
+ * @returns Usage with its cost
+ */
+export function recordLLMCall(call: LLMCall, ledger: LLMCostLedger = llmCostLedger): LLMUsage {
+  const usage = call.usage ?? estimateLLMUsage(call.prompt, call.output, call.imageCount);
+  const costUsd = calculateLLMCost(call.model, usage, call.imageCount);
+  const context = getRequestContext();
+  const timestamp = new Date();
+
+  addLLMCost(costUsd);
+
+  void ledger.record({
+    timestamp,
+    day: ledgerDay(timestamp),
+    requestId: context?.requestId ?? null,
+    route: context?.route ?? null,
+    userId: context?.userId ?? null,
+    tier: context?.tier ?? null,
+    consumer: call.consumer,
+    provider: call.provider,
+    model: call.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    estimated: usage.estimated ?? false,
+    imageCount: call.imageCount,
+    costUsd,
+  });
+
+  return { ...usage, costUsd };
+}
+
+export class MeteredProvider implements LLMProvider {
+  /**
+   * @param inner - Provider to meter
+   * @param consumer - Calling service, recorded with each call
+   * @param ledger - Ledger to record to (default: the MongoDB ledger)
+   */
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly consumer: string | null = null,
+    private readonly ledger: LLMCostLedger = llmCostLedger
+  ) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get defaultModel() {
+    return this.inner.defaultModel;
+  }
+
+  /**
+   * Generate with the wrapped provider and record the call's cost
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const response = await this.inner.generate(request);
+
+    const usage = recordLLMCall({
+      provider: response.provider,
+      model: response.model,
+      consumer: this.consumer,
+      usage: response.usage,
+      prompt: request.prompt,
+      output: response.text,
+      imageCount: request.imageData ? 1 : 0,
+    }, this.ledger);
+
+    return { ...response, usage };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * LLM Price Table
+ *
+ * USD prices per million tokens for the Gemini models the app calls, used
+ * to cost every model call in the LLM cost ledger. Override or extend the
+ * table with LLM_PRICE_TABLE, a JSON object keyed by model name, e.g.
+ * {"gemini-2.0-flash":{"inputPerMillion":0.1,"outputPerMillion":0.4}}.
+ * Image inputs are billed as input tokens; perImage covers any flat
+ * per-image charge on top.
+ */
+
+import { GEMINI_MODEL } from '@/lib/config/gemini';
+import type { LLMUsage } from './types';
+
+/**
+ * Price of one model
+ */
+export interface LLMPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage?: number;
+}
+
+/**
+ * List prices (paid tier, prompts up to 128k/200k tokens)
+ */
+export const DEFAULT_LLM_PRICES: Record<string, LLMPrice> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.0-flash-lite': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+};
+
+/**
+ * Tokens Gemini bills for an image of up to 384x384 pixels, used when a
+ * provider reports no usage
+ */
+const ESTIMATED_IMAGE_TOKENS = 258;
+
+/**
+ * Characters per token, used when a provider reports no usage
+ */
+const ESTIMATED_CHARS_PER_TOKEN = 4;
+
+function isPrice(value: unknown): value is LLMPrice {
+  const price = value as LLMPrice;
+  return (
+    typeof price === 'object' && price !== null &&
+    typeof price.inputPerMillion === 'number' &&
+    typeof price.outputPerMillion === 'number' &&
+    (price.perImage === undefined || typeof price.perImage === 'number')
+  );
+}
+
+/**
+ * Price table with the LLM_PRICE_TABLE overrides applied
+ */
+export function getLLMPrices(): Record<string, LLMPrice> {
+  const configured = process.env.LLM_PRICE_TABLE;
+  if (!configured) {
+    return DEFAULT_LLM_PRICES;
+  }
+
+  try {
+    const overrides = JSON.parse(configured) as Record<string, unknown>;
+    const prices = { ...DEFAULT_LLM_PRICES };
+
+    for (const [model, price] of Object.entries(overrides)) {
+      if (isPrice(price)) {
+        prices[model] = price;
+      } else {
+        console.warn(`[LLM Pricing] ⚠️  Ignoring invalid LLM_PRICE_TABLE entry for ${model}`);
+      }
+    }
+    return prices;
+  } catch (error) {
+    console.warn('[LLM Pricing] ⚠️  LLM_PRICE_TABLE is not valid JSON, using list prices:', error);
+    return DEFAULT_LLM_PRICES;
+  }
+}
+
+/**
+ * Price of a model
+ * Versioned names (e.g. gemini-2.0-flash-001) use the longest listed
+ * prefix; unlisted models are priced as the default model.
+ */
+export function getLLMPrice(model: string, prices: Record<string, LLMPrice> = getLLMPrices()): LLMPrice {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prices[prefix ?? GEMINI_MODEL] ?? DEFAULT_LLM_PRICES[GEMINI_MODEL];
+}
+
+/**
+ * Cost in USD of a model call
+ *
+ * @param model - Model name
+ * @param usage - Tokens used
+ * @param imageCount - Images sent with the prompt
+ * @param prices - Price table (default: getLLMPrices())
+ */
+export function calculateLLMCost(
+  model: string,
+  usage: Pick<LLMUsage, 'inputTokens' | 'outputTokens'>,
+  imageCount: number = 0,
+  prices?: Record<string, LLMPrice>
+): number {
+  const price = getLLMPrice(model, prices);
+
+  return (
+    (usage.inputTokens * price.inputPerMillion) / 1_000_000 +
+    (usage.outputTokens * price.outputPerMillion) / 1_000_000 +
+    imageCount * (price.perImage ?? 0)
+  );
+}
+
+/**
+ * Estimate token usage from text length when a provider reports none
+ */
+export function estimateLLMUsage(prompt: string, output: string, imageCount: number): LLMUsage {
+  return {
+    inputTokens: Math.ceil(prompt.length / ESTIMATED_CHARS_PER_TOKEN) + imageCount * ESTIMATED_IMAGE_TOKENS,
+    outputTokens: Math.ceil(output.length / ESTIMATED_CHARS_PER_TOKEN),
+    estimated: true,
+  };
+}
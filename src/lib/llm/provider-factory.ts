@@ -0,0 +1,85 @@
+/**
+ * LLM Provider Factory
+ *
+ * Selects the model backend for extraction calls. Each caller passes the
+ * backend it used historically (Vertex AI for GeminiWrapper, Google AI Studio
+ * for the services); the LLM_PROVIDER environment variable overrides it
+ * globally, e.g. LLM_PROVIDER=fixture to run the pipeline without credentials.
+ * Live providers are metered into the LLM cost ledger.
+ */
+
+import { FixtureReplayProvider } from './fixture-replay-provider';
+import { GoogleAIStudioProvider } from './google-ai-studio-provider';
+import { MeteredProvider } from './metered-provider';
+import { VertexAIProvider } from './vertex-ai-provider';
+import type { LLMProvider, LLMProviderName, LLMProviderOptions } from './types';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['vertex', 'google-ai-studio', 'fixture'];
+
+/**
+ * Type guard for provider names
+ */
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && PROVIDER_NAMES.includes(value as LLMProviderName);
+}
+
+/**
+ * Resolve which provider to use
+ *
+ * @param defaultName - Provider used when LLM_PROVIDER is not set
+ * @returns LLM_PROVIDER if set and valid, otherwise defaultName
+ */
+export function resolveLLMProviderName(defaultName: LLMProviderName): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER;
+
+  if (!configured) {
+    return defaultName;
+  }
+
+  if (!isLLMProviderName(configured)) {
+    console.warn(`[LLM Provider] ⚠️  Unknown LLM_PROVIDER "${configured}", using ${defaultName}`);
+    return defaultName;
+  }
+
+  return configured;
+}
+
+/**
+ * Create a provider by name
+ *
+ * @param name - Provider backend
+ * @param options - Backend specific options
+ * @returns Provider instance
+ */
+export function createLLMProvider(
+  name: LLMProviderName,
+  options: LLMProviderOptions = {}
+): LLMProvider {
+  switch (name) {
+    case 'vertex':
+      return new VertexAIProvider(options.projectId, options.location, options.model);
+    case 'google-ai-studio':
+      return new GoogleAIStudioProvider(options.apiKey, options.model, options.consumer);
+    case 'fixture':
+      return new FixtureReplayProvider(options.fixtureDir, options.model);
+  }
+}
+
+/**
+ * Create the provider for a caller, honoring the LLM_PROVIDER override
+ * Live providers record every call in the LLM cost ledger; fixture
+ * replays cost nothing and are returned as they are.
+ *
+ * @param defaultName - Provider the caller uses when LLM_PROVIDER is not set
+ * @param options - Backend specific options
+ * @returns Provider instance
+ */
+export function getLLMProvider(
+  defaultName: LLMProviderName,
+  options: LLMProviderOptions = {}
+): LLMProvider {
+  const name = resolveLLMProviderName(defaultName);
+  console.log(`[LLM Provider] 🔌 Using ${name} provider`);
+  const provider = createLLMProvider(name, options);
+  return name === 'fixture' ? provider : new MeteredProvider(provider, options.consumer);
+}
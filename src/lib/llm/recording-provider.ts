@@ -0,0 +1,89 @@
+/**
+ * Recording LLM Provider
+ *
+ * Wraps a live provider and writes every successful response to the fixture
+ * directory in the format FixtureReplayProvider reads back. The request image
+ * is stored once per hash under `<fixtureDir>/images/` so a recorded corpus
+ * can be re-run against changed prompts (see scripts/replay-extraction-corpus.ts).
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { DEFAULT_FIXTURE_DIR, fixtureKey, hashFixtureImage } from './fixture-replay-provider';
+import { splitImageData } from './image-data';
+import type { LLMFixture, LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from './types';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export class RecordingProvider implements LLMProvider {
+  readonly fixtureDir: string;
+
+  constructor(private readonly inner: LLMProvider, fixtureDir?: string) {
+    this.fixtureDir = path.resolve(fixtureDir || process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get defaultModel() {
+    return this.inner.defaultModel;
+  }
+
+  /**
+   * Generate with the wrapped provider and record the response
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const response = await this.inner.generate(request);
+
+    try {
+      const fixture = this.record(request, response);
+      console.log(`[LLM Recorder] 💾 Recorded fixture ${fixture.key}`);
+    } catch (error) {
+      // Recording must never break the live call
+      console.error('[LLM Recorder] ❌ Failed to record fixture:', error);
+    }
+
+    return response;
+  }
+
+  /**
+   * Write the fixture (and image, if new) to the fixture directory
+   */
+  private record(request: LLMGenerateRequest, response: LLMGenerateResponse): LLMFixture {
+    mkdirSync(this.fixtureDir, { recursive: true });
+
+    const fixture: LLMFixture = {
+      key: fixtureKey(request.prompt, request.imageData),
+      prompt: request.prompt,
+      imageHash: request.imageData ? hashFixtureImage(request.imageData) : null,
+      model: response.model,
+      temperature: request.temperature,
+      text: response.text,
+      recordedAt: new Date().toISOString(),
+    };
+
+    if (request.imageData && fixture.imageHash) {
+      const { base64, mimeType } = splitImageData(request.imageData, request.imageMimeType);
+      const extension = IMAGE_EXTENSIONS[mimeType] || 'bin';
+      fixture.imageFile = path.join('images', `${fixture.imageHash}.${extension}`);
+
+      const imagePath = path.join(this.fixtureDir, fixture.imageFile);
+      if (!existsSync(imagePath)) {
+        mkdirSync(path.dirname(imagePath), { recursive: true });
+        writeFileSync(imagePath, Buffer.from(base64, 'base64'));
+      }
+    }
+
+    writeFileSync(
+      path.join(this.fixtureDir, `${fixture.key}.json`),
+      JSON.stringify(fixture, null, 2)
+    );
+
+    return fixture;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Structured LLM Output
+ *
+ * Parses model text as JSON and validates it against a zod schema. When the
+ * response fails validation, callers get one repair attempt: the original
+ * prompt is re-sent together with the rejected response and the validation
+ * errors, asking the model for corrected JSON only.
+ */
+
+import type { z } from 'zod';
+
+/**
+ * Error thrown when a model response is not valid JSON or fails its schema
+ */
+export class LLMResponseValidationError extends Error {
+  constructor(
+    public readonly issues: string[],
+    public readonly responseText: string
+  ) {
+    super(`Invalid model response: ${issues.join('; ')}`);
+    this.name = 'LLMResponseValidationError';
+  }
+}
+
+/**
+ * Extract the JSON payload from a model response
+ * (strips markdown fences and conversational text around the object)
+ *
+ * @param responseText - Raw model response
+ * @returns Text expected to parse as JSON
+ */
+export function extractJsonText(responseText: string): string {
+  let text = responseText.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  if (!text.startsWith('{') && !text.startsWith('[')) {
+    const objectMatch = text.match(/\{[\s\S]*\}/);
+    if (objectMatch) {
+      text = objectMatch[0];
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Format zod issues as "path: message" lines
+ */
+export function formatValidationIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.map(String).join('.');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
+
+/**
+ * Parse and validate a model response
+ *
+ * @param responseText - Raw model response
+ * @param schema - Expected response schema
+ * @returns Validated (and transformed) data
+ * @throws LLMResponseValidationError if the response is not valid JSON or fails the schema
+ */
+export function parseLLMResponse<S extends z.ZodType>(responseText: string, schema: S): z.infer<S> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(responseText));
+  } catch (error) {
+    throw new LLMResponseValidationError(
+      [`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+      responseText
+    );
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new LLMResponseValidationError(formatValidationIssues(result.error), responseText);
+  }
+
+  return result.data;
+}
+
+/**
+ * Build the repair prompt for a rejected response
+ *
+ * @param prompt - Original prompt
+ * @param responseText - Rejected model response
+ * @param issues - Validation errors for the response
+ * @returns Prompt asking for corrected JSON
+ */
+export function buildRepairPrompt(prompt: string, responseText: string, issues: string[]): string {
+  return [
+    prompt,
+    '',
+    '='.repeat(80),
+    'CORRECTION REQUIRED',
+    '='.repeat(80),
+    'Your previous response to these instructions did not match the required JSON format.',
+    '',
+    'Previous response:',
+    responseText.trim(),
+    '',
+    'Validation errors:',
+    ...issues.map(issue => `- ${issue}`),
+    '',
+    'Return ONLY the corrected JSON object, following the structure above exactly.',
+    'Use null for values that cannot be determined instead of omitting or inventing them.',
+  ].join('\n');
+}
+
+/**
+ * Result of a validated generation
+ */
+export interface StructuredGeneration<T> {
+  data: T;
+  text: string; // Response text that passed validation
+  repaired: boolean; // True if the repair re-prompt was needed
+}
+
+/**
+ * Generate, validate and repair once
+ *
+ * @param generate - Sends a prompt to the model and returns its text
+ * @param prompt - Original prompt
+ * @param schema - Expected response schema
+ * @param label - Name used in logs
+ * @returns Validated data
+ * @throws LLMResponseValidationError if the repaired response is still invalid
+ */
+export async function generateStructured<S extends z.ZodType>(
+  generate: (prompt: string) => Promise<string>,
+  prompt: string,
+  schema: S,
+  label: string = 'LLM'
+): Promise<StructuredGeneration<z.infer<S>>> {
+  const text = await generate(prompt);
+
+  try {
+    return { data: parseLLMResponse(text, schema), text, repaired: false };
+  } catch (error) {
+    if (!(error instanceof LLMResponseValidationError)) {
+      throw error;
+    }
+
+    console.warn(`[Structured Output] ⚠️  ${label} response failed validation, requesting repair:`, error.issues);
+
+    const repairedText = await generate(buildRepairPrompt(prompt, text, error.issues));
+    const data = parseLLMResponse(repairedText, schema);
+
+    console.log(`[Structured Output] 🔧 ${label} response repaired`);
+    return { data, text: repairedText, repaired: true };
+  }
+}
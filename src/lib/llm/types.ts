@@ -0,0 +1,84 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contract for every model backend used by the extraction pipeline.
+ * GeminiWrapper, GeminiClient and the nutrition/ingredient/classifier services
+ * talk to a provider instead of a specific SDK, so a deterministic fixture
+ * provider can stand in for Vertex AI or Google AI Studio in tests and offline.
+ */
+
+/**
+ * Supported provider backends
+ * - vertex: Vertex AI (@google-cloud/vertexai), project/location based auth
+ * - google-ai-studio: Google AI Studio via @ai-sdk/google, API key based auth
+ * - fixture: Replays recorded responses from disk or memory, no network
+ */
+export type LLMProviderName = 'vertex' | 'google-ai-studio' | 'fixture';
+
+/**
+ * Single-turn generation request (text prompt with optional image)
+ */
+export interface LLMGenerateRequest {
+  prompt: string;
+  imageData?: string; // Base64 image, with or without data URI prefix
+  imageMimeType?: string; // Defaults to image/jpeg when imageData has no prefix
+  temperature?: number;
+  model?: string; // Overrides the provider's default model
+}
+
+/**
+ * Token usage of a generation
+ */
+export interface LLMUsage {
+  inputTokens: number; // Prompt tokens, including image tokens
+  outputTokens: number;
+  estimated?: boolean; // True when the provider reported no usage and tokens were estimated from text length
+  costUsd?: number; // Set by MeteredProvider from the price table
+}
+
+/**
+ * Generation response
+ */
+export interface LLMGenerateResponse {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+  usage?: LLMUsage; // From the provider's usage metadata, when reported
+  raw?: unknown; // Provider SDK result, used for header/tier inspection
+}
+
+/**
+ * Provider interface implemented by every backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse>;
+}
+
+/**
+ * Options accepted by the provider factory
+ */
+export interface LLMProviderOptions {
+  model?: string;
+  consumer?: string; // Calling service, used in configuration error messages and the cost ledger
+  apiKey?: string; // google-ai-studio
+  projectId?: string; // vertex
+  location?: string; // vertex
+  fixtureDir?: string; // fixture
+}
+
+/**
+ * Recorded model response used by the fixture provider
+ * Keyed by prompt and image hash (see fixtureKey)
+ */
+export interface LLMFixture {
+  key: string;
+  prompt: string;
+  imageHash: string | null;
+  model: string;
+  temperature?: number;
+  text: string;
+  recordedAt: string;
+  imageFile?: string; // Image saved next to the fixture (relative to fixture dir), used to re-run prompts
+}
@@ -0,0 +1,111 @@
+/**
+ * Vertex AI LLM Provider
+ *
+ * Calls Gemini through the Vertex AI SDK to access proper tier quotas.
+ * SDK errors are rethrown untouched so GeminiWrapper can inspect 429 details.
+ */
+
+import { VertexAI, type GenerativeModel, type Part, type VertexInit } from '@google-cloud/vertexai';
+import { GEMINI_MODEL, VERTEX_AI_CONFIG } from '@/lib/config/gemini';
+import { splitImageData } from './image-data';
+import type { LLMGenerateRequest, LLMGenerateResponse, LLMProvider } from './types';
+
+export class VertexAIProvider implements LLMProvider {
+  readonly name = 'vertex' as const;
+  readonly defaultModel: string;
+  private vertexAI: VertexAI;
+  private models: Map<string, GenerativeModel> = new Map();
+
+  constructor(
+    projectId: string = VERTEX_AI_CONFIG.projectId,
+    location: string = VERTEX_AI_CONFIG.location,
+    modelName: string = GEMINI_MODEL
+  ) {
+    this.defaultModel = modelName;
+
+    // Handle credentials from environment variable (for Vercel deployment)
+    const vertexOptions: VertexInit = {
+      project: projectId,
+      location: location,
+    };
+
+    // Check if credentials are provided as JSON string (Vercel deployment)
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON) {
+      try {
+        const credentials = JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON);
+        vertexOptions.googleAuthOptions = {
+          credentials: credentials,
+        };
+        console.log('[Vertex AI Provider] 🔑 Using credentials from GOOGLE_APPLICATION_CREDENTIALS_JSON');
+      } catch (error) {
+        console.error('[Vertex AI Provider] ❌ Failed to parse GOOGLE_APPLICATION_CREDENTIALS_JSON:', error);
+      }
+    } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      console.log('[Vertex AI Provider] 🔑 Using credentials from GOOGLE_APPLICATION_CREDENTIALS file path');
+    } else {
+      console.log('[Vertex AI Provider] 🔑 Using Application Default Credentials (gcloud auth)');
+    }
+
+    this.vertexAI = new VertexAI(vertexOptions);
+  }
+
+  /**
+   * Generate content with Vertex AI
+   */
+  async generate(request: LLMGenerateRequest): Promise<LLMGenerateResponse> {
+    const modelName = request.model || this.defaultModel;
+
+    // Prepare content parts for Vertex AI
+    const parts: Part[] = [{ text: request.prompt }];
+
+    if (request.imageData) {
+      const { base64, mimeType } = splitImageData(request.imageData, request.imageMimeType);
+      parts.push({
+        inlineData: {
+          data: base64,
+          mimeType,
+        },
+      });
+    }
+
+    const result = await this.getModel(modelName).generateContent({
+      contents: [{ role: 'user', parts }],
+      ...(request.temperature !== undefined && {
+        generationConfig: { temperature: request.temperature },
+      }),
+    });
+
+    const text = result.response.candidates?.[0]?.content.parts[0]?.text;
+
+    if (text === undefined) {
+      throw new Error('Vertex AI returned no text candidates');
+    }
+
+    const usage = result.response.usageMetadata;
+
+    return {
+      text,
+      model: modelName,
+      provider: this.name,
+      ...(usage && {
+        usage: {
+          inputTokens: usage.promptTokenCount ?? 0,
+          outputTokens: usage.candidatesTokenCount ?? 0,
+        },
+      }),
+      raw: result,
+    };
+  }
+
+  /**
+   * Get (and memoize) a generative model handle
+   */
+  private getModel(modelName: string): GenerativeModel {
+    let model = this.models.get(modelName);
+    if (!model) {
+      model = this.vertexAI.getGenerativeModel({ model: modelName });
+      this.models.set(modelName, model);
+    }
+    return model;
+  }
+}
@@ -1,49 +1,25 @@
 /**
  * Unit tests for MongoDBCacheRepository
- * 
+ *
  * Tests cache operations including get, set, incrementScanCount,
  * invalidate, and edge cases like expiration and error handling.
- * 
+ *
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 10.2
- * 
- * NOTE: These tests use mocks to avoid MongoDB ESM module issues with Jest.
- * The implementation follows the same pattern as client.ts which has passing tests.
- * For integration testing with real MongoDB, use a separate test environment.
+ *
+ * The repository runs on an in-process cache layer, so these tests need
+ * no MongoDB instance.
+ *
+ * @jest-environment node
  */
 
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { ProductInsights } from '@/lib/types';
-
-// Mock collection
-let mockCollection: any;
-let mockDb: any;
-
-// Mock MongoDB module
-jest.mock('mongodb', () => ({
-  MongoClient: jest.fn(),
-}));
-
-// Mock getMongoClient with inline function
-jest.mock('../client', () => ({
-  getMongoClient: jest.fn(async () => {
-    // This will be set in beforeEach
-    if (!global.mockDb) {
-      throw new Error('mockDb not set');
-    }
-    return global.mockDb;
-  }),
-  closeMongoClient: jest.fn(),
-}));
-
-// Import after mocks are set up
+import { CacheLayer, InProcessCacheStore } from '@/lib/cache';
 import { MongoDBCacheRepository } from '../cache';
 
-// Extend global to include mockDb
-declare global {
-  var mockDb: any;
-}
-
 describe('MongoDBCacheRepository', () => {
+  let store: InProcessCacheStore;
+  let layer: CacheLayer;
   let repository: MongoDBCacheRepository;
 
   // Sample product insights for testing
@@ -71,509 +47,214 @@ describe('MongoDBCacheRepository', () => {
   };
 
   beforeEach(() => {
-    // Reset mocks before each test
-    jest.clearAllMocks();
-    
-    // Setup mock collection with default implementations
-    mockCollection = {
-      createIndex: jest.fn().mockResolvedValue('index_created'),
-      findOne: jest.fn().mockResolvedValue(null),
-      updateOne: jest.fn().mockResolvedValue({ acknowledged: true }),
-      deleteOne: jest.fn().mockResolvedValue({ acknowledged: true }),
-      countDocuments: jest.fn().mockResolvedValue(0),
-      find: jest.fn(() => ({
-        sort: jest.fn(() => ({
-          limit: jest.fn(() => ({
-            project: jest.fn(() => ({
-              toArray: jest.fn().mockResolvedValue([])
-            }))
-          }))
-        }))
-      })),
-      insertOne: jest.fn().mockResolvedValue({ acknowledged: true }),
-      indexes: jest.fn().mockResolvedValue([
-        { name: '_id_' },
-        { name: 'barcode_unique' },
-        { name: 'expiresAt_ttl' },
-        { name: 'createdAt_desc' }
-      ])
-    };
-    
-    // Setup mock DB
-    mockDb = {
-      collection: jest.fn(() => mockCollection),
-    };
-    
-    // Set global mockDb for the mock function to use
-    global.mockDb = mockDb;
-    
-    repository = new MongoDBCacheRepository();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    store = new InProcessCacheStore();
+    layer = new CacheLayer(store);
+    repository = new MongoDBCacheRepository(layer);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('set and get operations', () => {
     it('should save and retrieve a cached insight', async () => {
-      // Arrange
-      const barcode = '123456789';
-      const productName = 'Organic Milk';
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-
-      const mockInsight = {
-        barcode,
-        productName,
+      await repository.set('123456789', 'Organic Milk', sampleInsights);
+      const result = await repository.get('123456789');
+
+      expect(result).toMatchObject({
+        barcode: '123456789',
+        productName: 'Organic Milk',
         insights: sampleInsights,
-        createdAt: now,
-        expiresAt,
-        scanCount: 0
-      };
-
-      // Mock successful set
-      mockCollection.updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
-      
-      // Mock successful get
-      mockCollection.findOne = jest.fn().mockResolvedValue(mockInsight);
-
-      // Act
-      await repository.set(barcode, productName, sampleInsights);
-      const result = await repository.get(barcode);
-
-      // Assert
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
-        { barcode },
-        expect.objectContaining({
-          $set: expect.objectContaining({
-            barcode,
-            productName,
-            insights: sampleInsights
-          }),
-          $setOnInsert: expect.objectContaining({
-            scanCount: 0
-          })
-        }),
-        { upsert: true }
-      );
-      
-      expect(mockCollection.findOne).toHaveBeenCalledWith({
-        barcode,
-        expiresAt: { $gt: expect.any(Date) }
+        scanCount: 0,
       });
-      
-      expect(result).toEqual(mockInsight);
+      expect(result?.createdAt).toBeInstanceOf(Date);
     });
 
     it('should return null for non-existent barcode', async () => {
-      // Arrange
-      mockCollection.findOne = jest.fn().mockResolvedValue(null);
+      expect(await repository.get('nonexistent')).toBeNull();
+    });
 
-      // Act
-      const result = await repository.get('nonexistent');
+    it('should look up by image hash when there is no barcode', async () => {
+      await repository.set(undefined, 'Organic Milk', sampleInsights, 30, 'abc123');
 
-      // Assert
-      expect(result).toBeNull();
-      expect(mockCollection.findOne).toHaveBeenCalledWith({
-        barcode: 'nonexistent',
-        expiresAt: { $gt: expect.any(Date) }
-      });
+      expect(await repository.get(undefined, 'abc123')).toMatchObject({ productName: 'Organic Milk' });
+      expect(await repository.get()).toBeNull();
     });
 
     it('should set custom TTL', async () => {
-      // Arrange
-      const barcode = '123456789';
-      const productName = 'Organic Milk';
-      const ttlDays = 7;
-
-      // Act
-      await repository.set(barcode, productName, sampleInsights, ttlDays);
-
-      // Assert
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
-        { barcode },
-        expect.objectContaining({
-          $set: expect.objectContaining({
-            barcode,
-            productName,
-            insights: sampleInsights,
-            expiresAt: expect.any(Date)
-          })
-        }),
-        { upsert: true }
-      );
-      
-      // Verify TTL is approximately 7 days
-      const call = (mockCollection.updateOne as jest.Mock).mock.calls[0];
-      const expiresAt = call[1].$set.expiresAt;
-      const now = new Date();
-      const expectedExpiry = new Date(now.getTime() + ttlDays * 24 * 60 * 60 * 1000);
-      const timeDiff = Math.abs(expiresAt.getTime() - expectedExpiry.getTime());
-      expect(timeDiff).toBeLessThan(1000); // Within 1 second
+      await repository.set('123456789', 'Organic Milk', sampleInsights, 7);
+
+      const entry = await store.get('insights', 'barcode:123456789');
+      const expectedExpiry = Date.now() + 7 * 24 * 60 * 60 * 1000;
+      expect(Math.abs(entry!.expiresAt.getTime() - expectedExpiry)).toBeLessThan(1000);
+    });
+
+    it('should keep creation time and scan count when updating an insight', async () => {
+      await repository.set('123456789', 'Organic Milk', sampleInsights);
+      await repository.incrementScanCount('123456789');
+      const first = await repository.get('123456789');
+
+      await repository.set('123456789', 'Organic Whole Milk', sampleInsights);
+      const updated = await repository.get('123456789');
+
+      expect(updated?.productName).toBe('Organic Whole Milk');
+      expect(updated?.scanCount).toBe(1);
+      expect(updated?.createdAt).toEqual(first?.createdAt);
     });
   });
 
   describe('expiration handling', () => {
     it('should not return expired insights', async () => {
-      // Arrange
-      mockCollection.findOne = jest.fn().mockResolvedValue(null);
+      await repository.set('123456789', 'Organic Milk', sampleInsights, -1);
 
-      // Act
-      const result = await repository.get('123456789');
-
-      // Assert
-      expect(result).toBeNull();
-      expect(mockCollection.findOne).toHaveBeenCalledWith({
-        barcode: '123456789',
-        expiresAt: { $gt: expect.any(Date) }
-      });
+      expect(await repository.get('123456789')).toBeNull();
     });
 
     it('should return insights that have not expired', async () => {
-      // Arrange
-      const barcode = '123456789';
-      const productName = 'Organic Milk';
-      const now = new Date();
-      const futureDate = new Date(now.getTime() + 1000 * 60 * 60); // 1 hour from now
-      
-      const mockInsight = {
-        barcode,
-        productName,
-        insights: sampleInsights,
-        createdAt: now,
-        expiresAt: futureDate,
-        scanCount: 0
-      };
-      
-      mockCollection.findOne = jest.fn().mockResolvedValue(mockInsight);
-
-      // Act
-      const result = await repository.get(barcode);
-
-      // Assert
-      expect(result).not.toBeNull();
-      expect(result?.barcode).toBe(barcode);
+      await repository.set('123456789', 'Organic Milk', sampleInsights, 1);
+
+      const result = await repository.get('123456789');
+      expect(result?.barcode).toBe('123456789');
     });
   });
 
   describe('incrementScanCount', () => {
     it('should increment scan count', async () => {
-      // Arrange
-      const barcode = '123456789';
-      mockCollection.updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
+      await repository.set('123456789', 'Organic Milk', sampleInsights);
 
-      // Act
-      await repository.incrementScanCount(barcode);
+      await repository.incrementScanCount('123456789');
+      await repository.incrementScanCount('123456789');
 
-      // Assert
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
-        { barcode },
-        { $inc: { scanCount: 1 } }
-      );
+      expect((await repository.get('123456789'))?.scanCount).toBe(2);
     });
 
     it('should handle incrementing non-existent barcode gracefully', async () => {
-      // Arrange
-      mockCollection.updateOne = jest.fn().mockResolvedValue({ acknowledged: true, matchedCount: 0 });
-
-      // Act & Assert - should not throw
-      await expect(
-        repository.incrementScanCount('nonexistent')
-      ).resolves.not.toThrow();
+      await expect(repository.incrementScanCount('nonexistent')).resolves.toBeUndefined();
     });
 
     it('should handle errors gracefully', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.updateOne = jest.fn().mockRejectedValue(new Error('Database error'));
-
-      // Act & Assert - should not throw
-      await expect(
-        repository.incrementScanCount('123456789')
-      ).resolves.not.toThrow();
-      
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error incrementing scan count:',
-        expect.any(Error)
-      );
-      
-      consoleErrorSpy.mockRestore();
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'touch').mockRejectedValue(new Error('Database error'));
+
+      await expect(repository.incrementScanCount('123456789')).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error incrementing scan count:', expect.any(Error));
     });
   });
 
   describe('invalidate', () => {
     it('should remove cached insight', async () => {
-      // Arrange
-      const barcode = '123456789';
-      mockCollection.deleteOne = jest.fn().mockResolvedValue({ acknowledged: true, deletedCount: 1 });
+      await repository.set('123456789', 'Organic Milk', sampleInsights);
 
-      // Act
-      await repository.invalidate(barcode);
+      await repository.invalidate('123456789');
 
-      // Assert
-      expect(mockCollection.deleteOne).toHaveBeenCalledWith({ barcode });
+      expect(await repository.get('123456789')).toBeNull();
     });
 
     it('should handle invalidating non-existent barcode gracefully', async () => {
-      // Arrange
-      mockCollection.deleteOne = jest.fn().mockResolvedValue({ acknowledged: true, deletedCount: 0 });
+      await expect(repository.invalidate('nonexistent')).resolves.toBeUndefined();
+    });
+
+    it('should be invalidated by the barcode tag', async () => {
+      await repository.set('012345678905', 'Organic Milk', sampleInsights);
 
-      // Act & Assert - should not throw
-      await expect(
-        repository.invalidate('nonexistent')
-      ).resolves.not.toThrow();
+      await layer.invalidateProduct('product-1', '0012345678905');
+
+      expect(await repository.get('012345678905')).toBeNull();
     });
 
     it('should handle errors gracefully', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.deleteOne = jest.fn().mockRejectedValue(new Error('Database error'));
-
-      // Act & Assert - should not throw
-      await expect(
-        repository.invalidate('123456789')
-      ).resolves.not.toThrow();
-      
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error invalidating cached insight:',
-        expect.any(Error)
-      );
-      
-      consoleErrorSpy.mockRestore();
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'delete').mockRejectedValue(new Error('Database error'));
+
+      await expect(repository.invalidate('123456789')).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error invalidating cached insight:', expect.any(Error));
     });
   });
 
   describe('getStats', () => {
     it('should return cache statistics', async () => {
-      // Arrange
-      const mockStats = [
-        { barcode: '111111111', productName: 'Product 1', scanCount: 3 },
-        { barcode: '222222222', productName: 'Product 2', scanCount: 2 },
-        { barcode: '333333333', productName: 'Product 3', scanCount: 1 }
-      ];
-      
-      mockCollection.countDocuments = jest.fn().mockResolvedValue(3);
-      mockCollection.find = jest.fn(() => ({
-        sort: jest.fn(() => ({
-          limit: jest.fn(() => ({
-            project: jest.fn(() => ({
-              toArray: jest.fn().mockResolvedValue(mockStats)
-            }))
-          }))
-        }))
-      }));
-
-      // Act
+      await repository.set('111111111', 'Product A', sampleInsights);
+      await repository.set('222222222', 'Product B', sampleInsights);
+      await repository.set('333333333', 'Product C', sampleInsights);
+      for (let i = 0; i < 3; i++) await repository.incrementScanCount('111111111');
+      for (let i = 0; i < 2; i++) await repository.incrementScanCount('222222222');
+      await repository.incrementScanCount('333333333');
+
       const stats = await repository.getStats();
 
-      // Assert
       expect(stats.totalEntries).toBe(3);
-      expect(stats.mostScanned).toHaveLength(3);
-      expect(stats.mostScanned[0].barcode).toBe('111111111');
-      expect(stats.mostScanned[0].scanCount).toBe(3);
-      expect(stats.mostScanned[1].barcode).toBe('222222222');
-      expect(stats.mostScanned[1].scanCount).toBe(2);
-      expect(stats.mostScanned[2].barcode).toBe('333333333');
-      expect(stats.mostScanned[2].scanCount).toBe(1);
+      expect(stats.mostScanned).toEqual([
+        { barcode: '111111111', productName: 'Product A', scanCount: 3 },
+        { barcode: '222222222', productName: 'Product B', scanCount: 2 },
+        { barcode: '333333333', productName: 'Product C', scanCount: 1 },
+      ]);
     });
 
     it('should return empty stats for empty cache', async () => {
-      // Arrange
-      mockCollection.countDocuments = jest.fn().mockResolvedValue(0);
-      mockCollection.find = jest.fn(() => ({
-        sort: jest.fn(() => ({
-          limit: jest.fn(() => ({
-            project: jest.fn(() => ({
-              toArray: jest.fn().mockResolvedValue([])
-            }))
-          }))
-        }))
-      }));
-
-      // Act
       const stats = await repository.getStats();
 
-      // Assert
       expect(stats.totalEntries).toBe(0);
       expect(stats.mostScanned).toHaveLength(0);
     });
 
     it('should handle errors gracefully', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.countDocuments = jest.fn().mockRejectedValue(new Error('Database error'));
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'stats').mockRejectedValue(new Error('Database error'));
 
-      // Act
       const stats = await repository.getStats();
 
-      // Assert
       expect(stats.totalEntries).toBe(0);
       expect(stats.mostScanned).toHaveLength(0);
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error getting cache stats:',
-        expect.any(Error)
-      );
-      
-      consoleErrorSpy.mockRestore();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error getting cache stats:', expect.any(Error));
     });
   });
 
   describe('error handling', () => {
     it('should handle MongoDB unavailable gracefully on get', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.findOne = jest.fn().mockRejectedValue(new Error('Connection refused'));
-
-      // Act
-      const result = await repository.get('123456789');
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'get').mockRejectedValue(new Error('Connection failed'));
 
-      // Assert
-      expect(result).toBeNull();
+      expect(await repository.get('123456789')).toBeNull();
       expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error getting cached insight:',
+        '[MongoDB Cache] ❌ Error getting cached insight:',
         expect.any(Error)
       );
-      
-      consoleErrorSpy.mockRestore();
     });
 
     it('should handle MongoDB unavailable gracefully on set', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.updateOne = jest.fn().mockRejectedValue(new Error('Connection refused'));
-
-      // Act & Assert - should not throw
-      await expect(
-        repository.set('123456789', 'Organic Milk', sampleInsights)
-      ).resolves.not.toThrow();
-      
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'set').mockRejectedValue(new Error('Connection failed'));
+
+      await expect(repository.set('123456789', 'Test Product', sampleInsights)).resolves.toBeUndefined();
       expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error setting cached insight:',
+        '[MongoDB Cache] ❌ Error setting cached insight:',
         expect.any(Error)
       );
-      
-      consoleErrorSpy.mockRestore();
     });
   });
 
   describe('cache-first behavior', () => {
     it('should support cache hit scenario', async () => {
-      // Arrange - simulate a product being cached
-      const barcode = '123456789';
-      const productName = 'Organic Milk';
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-
-      const mockInsight = {
-        barcode,
-        productName,
-        insights: sampleInsights,
-        createdAt: now,
-        expiresAt,
-        scanCount: 0
-      };
-
-      mockCollection.findOne = jest.fn().mockResolvedValue(mockInsight);
-      mockCollection.updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
+      await repository.set('123456789', 'Organic Milk', sampleInsights);
 
-      // Act - simulate a scan (cache hit)
-      const cachedInsight = await repository.get(barcode);
-      
+      const cachedInsight = await repository.get('123456789');
       if (cachedInsight) {
-        await repository.incrementScanCount(barcode);
+        await repository.incrementScanCount('123456789');
       }
 
-      // Assert
-      expect(cachedInsight).not.toBeNull();
-      expect(cachedInsight?.productName).toBe(productName);
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
-        { barcode },
-        { $inc: { scanCount: 1 } }
-      );
+      expect(cachedInsight?.productName).toBe('Organic Milk');
+      expect((await repository.get('123456789'))?.scanCount).toBe(1);
     });
 
     it('should support cache miss scenario', async () => {
-      // Arrange
-      const barcode = '999999999';
-      mockCollection.findOne = jest.fn().mockResolvedValue(null);
-      mockCollection.updateOne = jest.fn().mockResolvedValue({ acknowledged: true });
-
-      // Act - simulate a scan (cache miss)
-      const cachedInsight = await repository.get(barcode);
+      const cachedInsight = await repository.get('123456789');
+      if (!cachedInsight) {
+        await repository.set('123456789', 'Organic Milk', sampleInsights);
+      }
 
-      // Assert
       expect(cachedInsight).toBeNull();
-      
-      // In real scenario, this would trigger Research Agent
-      // and then save the result:
-      await repository.set(barcode, 'New Product', sampleInsights);
-      
-      // Verify set was called
-      expect(mockCollection.updateOne).toHaveBeenCalledWith(
-        { barcode },
-        expect.objectContaining({
-          $set: expect.objectContaining({
-            barcode,
-            productName: 'New Product',
-            insights: sampleInsights
-          })
-        }),
-        { upsert: true }
-      );
-    });
-  });
-
-  describe('index creation', () => {
-    it('should create required indexes', async () => {
-      // Arrange
-      mockCollection.createIndex = jest.fn().mockResolvedValue('index_created');
-
-      // Act - trigger index creation by calling get
-      await repository.get('test');
-
-      // Assert - verify indexes were created
-      expect(mockCollection.createIndex).toHaveBeenCalledWith(
-        { barcode: 1 },
-        { unique: true, name: 'barcode_unique' }
-      );
-      expect(mockCollection.createIndex).toHaveBeenCalledWith(
-        { expiresAt: 1 },
-        { expireAfterSeconds: 0, name: 'expiresAt_ttl' }
-      );
-      expect(mockCollection.createIndex).toHaveBeenCalledWith(
-        { createdAt: -1 },
-        { name: 'createdAt_desc' }
-      );
-    });
-
-    it('should handle index creation errors gracefully', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      mockCollection.createIndex = jest.fn()
-        .mockRejectedValueOnce(new Error('Index creation failed'))
-        .mockResolvedValue('index_created');
-
-      // Act - should not throw
-      await expect(repository.get('test')).resolves.not.toThrow();
-
-      // Assert
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        'Error creating indexes:',
-        expect.any(Error)
-      );
-      
-      consoleErrorSpy.mockRestore();
-    });
-
-    it('should ignore "already exists" errors', async () => {
-      // Arrange
-      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-      const alreadyExistsError = new Error('Index already exists');
-      mockCollection.createIndex = jest.fn().mockRejectedValue(alreadyExistsError);
-
-      // Act - should not throw
-      await expect(repository.get('test')).resolves.not.toThrow();
-
-      // Assert - should not log error for "already exists"
-      expect(consoleErrorSpy).not.toHaveBeenCalled();
-      
-      consoleErrorSpy.mockRestore();
+      expect(await repository.get('123456789')).toMatchObject({ productName: 'Organic Milk' });
     });
   });
 });
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the MongoDB perceptual hash index
+ *
+ * Tests the band query, closest-match selection within the distance
+ * threshold, and the lookup counters reported by /api/metrics.
+ */
+
+import type { Collection } from 'mongodb';
+import {
+  findNearestByPerceptualHash,
+  perceptualFields,
+  PerceptualCacheMetrics,
+} from '../perceptual-index';
+
+interface TestDocument {
+  imageHash: string;
+  perceptualHash?: string;
+  perceptualBands?: string[];
+}
+
+/**
+ * Collection stub whose find() returns the given documents for every band
+ */
+function mockCollection(documents: TestDocument[]) {
+  const toArray = jest.fn(async () => documents);
+  const limit = jest.fn(() => ({ toArray }));
+  const find = jest.fn(() => ({ limit }));
+  return { collection: { find } as unknown as Collection<TestDocument>, find, limit };
+}
+
+describe('perceptualFields', () => {
+  it('stores the hash with its bands', () => {
+    expect(perceptualFields('0011223344556677')).toEqual({
+      perceptualHash: '0011223344556677',
+      perceptualBands: ['0:00', '1:11', '2:22', '3:33', '4:44', '5:55', '6:66', '7:77'],
+    });
+    expect(perceptualFields(null)).toEqual({});
+  });
+});
+
+describe('findNearestByPerceptualHash', () => {
+  const probe = '00000000000000ff';
+
+  it('queries by band and returns the closest document within the threshold', async () => {
+    const { collection, find, limit } = mockCollection([
+      { imageHash: 'far', ...perceptualFields('000000000000ff00') },
+      { imageHash: 'close', ...perceptualFields('00000000000003ff') },
+      { imageHash: 'closer', ...perceptualFields('00000000000000fe') },
+    ]);
+
+    const match = await findNearestByPerceptualHash(collection, probe, { keyType: 'imageHash' }, 4);
+
+    expect(match).toEqual({ document: expect.objectContaining({ imageHash: 'closer' }), distance: 1 });
+    expect(find.mock.calls).toEqual(
+      ['0:00', '1:00', '2:00', '3:00', '4:00', '5:00', '6:00', '7:ff'].map(band => [
+        { keyType: 'imageHash', perceptualBands: band },
+      ])
+    );
+    expect(limit).toHaveBeenCalledWith(200);
+  });
+
+  it('stops querying bands once it finds an identical hash', async () => {
+    const { collection, find } = mockCollection([
+      { imageHash: 'same', ...perceptualFields(probe) },
+    ]);
+
+    expect(await findNearestByPerceptualHash(collection, probe, {}, 4)).toMatchObject({ distance: 0 });
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  it('finds a match through another band when one band is crowded', async () => {
+    const crowded = Array.from({ length: 200 }, (_, i) => ({
+      imageHash: `crowded-${i}`,
+      ...perceptualFields('ffffffffffffff00'),
+    }));
+    const match = { imageHash: 'match', ...perceptualFields('00000000000001ff') };
+    const toArray = jest.fn()
+      .mockResolvedValueOnce(crowded)
+      .mockResolvedValue([match]);
+    const collection = { find: () => ({ limit: () => ({ toArray }) }) } as unknown as Collection<TestDocument>;
+
+    expect(await findNearestByPerceptualHash(collection, probe, {}, 4)).toEqual({
+      document: match,
+      distance: 1,
+    });
+  });
+
+  it('returns null when no candidate is within the threshold', async () => {
+    const { collection } = mockCollection([
+      { imageHash: 'near-ish', ...perceptualFields('000000000000000f') },
+      { imageHash: 'no-hash' },
+    ]);
+
+    expect(await findNearestByPerceptualHash(collection, probe, {}, 3)).toBeNull();
+    expect(await findNearestByPerceptualHash(collection, probe, {}, 4)).toMatchObject({ distance: 4 });
+  });
+});
+
+describe('PerceptualCacheMetrics', () => {
+  it('reports exact and near hit rates per cache', () => {
+    const metrics = new PerceptualCacheMetrics();
+    metrics.record('nutrition', 'exact');
+    metrics.record('nutrition', 'near', 2);
+    metrics.record('nutrition', 'near', 4);
+    metrics.record('nutrition', 'miss');
+
+    const stats = metrics.getStats();
+
+    expect(stats.nutrition).toEqual({
+      lookups: 4,
+      exactHits: 1,
+      nearHits: 2,
+      misses: 1,
+      hitRate: 0.75,
+      nearHitRate: 0.5,
+      averageNearDistance: 3,
+    });
+    expect(stats.product).toMatchObject({ lookups: 0, hitRate: 0, averageNearDistance: null });
+
+    metrics.reset();
+    expect(metrics.getStats().nutrition.lookups).toBe(0);
+  });
+});
@@ -1,24 +1,102 @@
 /**
  * MongoDB Cache Service for Multi-Tier Product Identification
  * 
- * This service manages caching of product identification results in MongoDB.
+ * This service manages caching of product identification results in the
+ * 'product' namespace of the unified cache layer (src/lib/cache).
  * Supports caching by barcode and image hash with TTL expiration.
+ * Barcode keys are normalized to GTIN-14, so UPC-A, EAN-13 and UPC-E forms
+ * of the same product share one entry. Image hash entries also store a
+ * perceptual hash, so near-identical photos share an entry too. Entries
+ * are tagged with their product ID and barcode for invalidation.
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5, 7.6, 7.7
  */
 
-import { getMongoClient } from './client';
 import { CacheEntryDocument, CacheResult, CacheStats } from './types';
 import { ProductData, Tier, ConfidenceScore, CacheKeyType } from '@/lib/types/multi-tier';
+import { toBarcodeKey } from '@/lib/barcode/gtin';
+import { perceptualCacheMetrics } from './perceptual-index';
+import {
+  barcodeTag,
+  cacheLayer,
+  productTag,
+  type CacheEntry,
+  type CacheLayer,
+  type CacheTag,
+  type NamespaceCache,
+} from '@/lib/cache';
 
-const CACHE_TTL_DAYS = 90; // Requirement 7.5: 90-day expiration
+/**
+ * Value stored per product cache entry
+ */
+interface ProductCacheValue {
+  productData: ProductData;
+  tier: Tier;
+  confidenceScore: ConfidenceScore;
+}
 
 /**
  * Cache Service class
- * Manages product identification cache in MongoDB
+ * Manages product identification cache
  */
 export class CacheService {
-  private collectionName = 'cache_entries';
+  private cache: NamespaceCache<ProductCacheValue>;
+
+  /**
+   * @param layer - Cache layer to use (default: the shared Mongo-backed layer)
+   */
+  constructor(private layer: CacheLayer = cacheLayer) {
+    this.cache = layer.namespace<ProductCacheValue>('product');
+  }
+
+  /**
+   * Normalize a cache key (barcodes become GTIN-14)
+   */
+  private normalizeKey(key: string, keyType: CacheKeyType): string {
+    return keyType === 'barcode' ? toBarcodeKey(key) : key;
+  }
+
+  /**
+   * Key of an entry in the product namespace
+   */
+  private cacheKey(key: string, keyType: CacheKeyType): string {
+    return `${keyType}:${key}`;
+  }
+
+  /**
+   * Invalidation tags of an entry: its product ID (once the product is
+   * saved) and its barcode
+   */
+  private tagsFor(key: string, keyType: CacheKeyType, productData: ProductData): CacheTag[] {
+    const tags = new Set<CacheTag>();
+    if (productData.id && !productData.id.startsWith('pending-')) {
+      tags.add(productTag(productData.id));
+    }
+    if (keyType === 'barcode') {
+      tags.add(barcodeTag(key));
+    }
+    if (productData.barcode) {
+      tags.add(barcodeTag(productData.barcode));
+    }
+    return [...tags];
+  }
+
+  /**
+   * Convert a cache entry to the document shape callers expect
+   */
+  private toDocument(entry: CacheEntry<ProductCacheValue>): CacheEntryDocument {
+    const separator = entry.key.indexOf(':');
+    return {
+      key: entry.key.slice(separator + 1),
+      keyType: entry.key.slice(0, separator) as CacheKeyType,
+      ...entry.value,
+      createdAt: entry.createdAt,
+      lastAccessedAt: entry.lastAccessedAt,
+      accessCount: entry.accessCount,
+      expiresAt: entry.expiresAt,
+      ...(entry.perceptualHash && { perceptualHash: entry.perceptualHash }),
+    };
+  }
 
   /**
    * Look up a cached entry by key
@@ -26,44 +104,42 @@ export class CacheService {
    * Requirement 7.4: Update lastAccessedAt on access
    * Requirement 7.7: Complete within 50ms
    * 
+   * Image hash lookups with no exact match fall back to the closest entry
+   * by perceptual hash.
+   * 
    * @param key - Barcode or image hash
    * @param keyType - Type of key ('barcode' or 'imageHash')
+   * @param perceptualHash - Perceptual hash of the image (imageHash keys only)
    * @returns Cache result with entry if found
    */
-  async lookup(key: string, keyType: CacheKeyType): Promise<CacheResult> {
+  async lookup(key: string, keyType: CacheKeyType, perceptualHash?: string): Promise<CacheResult> {
     const startTime = Date.now();
+    key = this.normalizeKey(key, keyType);
     
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
-
-      // Find entry that hasn't expired
-      const entry = await collection.findOne({
-        key,
-        keyType,
-        expiresAt: { $gt: new Date() },
+      const hit = await this.cache.get(this.cacheKey(key, keyType), {
+        perceptualHash: keyType === 'imageHash' ? perceptualHash : undefined,
       });
+      const distance = hit?.source === 'near' ? hit.distance : undefined;
 
-      if (entry) {
+      if (keyType === 'imageHash') {
+        perceptualCacheMetrics.record('product', !hit ? 'miss' : distance === undefined ? 'exact' : 'near', distance);
+      }
+
+      if (hit) {
         // Update lastAccessedAt and increment accessCount
         // Requirement 7.4: Track access timestamp
-        await collection.updateOne(
-          { _id: entry._id },
-          {
-            $set: { lastAccessedAt: new Date() },
-            $inc: { accessCount: 1 },
-          }
-        );
+        await this.cache.touch(hit.entry.key);
 
         const duration = Date.now() - startTime;
-        console.log(`[Cache Service] ✅ Cache HIT: ${keyType} (${duration}ms)`);
+        console.log(`[Cache Service] ✅ Cache HIT: ${keyType}${distance !== undefined ? ` (near, distance ${distance})` : ''} (${duration}ms)`);
 
         return {
           hit: true,
           entry: {
-            ...entry,
+            ...this.toDocument(hit.entry),
             lastAccessedAt: new Date(),
-            accessCount: entry.accessCount + 1,
+            accessCount: hit.entry.accessCount + 1,
           },
         };
       }
@@ -88,38 +164,27 @@ export class CacheService {
    * @param productData - Product data to cache
    * @param tier - Tier that produced the result
    * @param confidenceScore - Confidence score of the result
+   * @param perceptualHash - Perceptual hash of the image (imageHash keys only)
    */
   async store(
     key: string,
     keyType: CacheKeyType,
     productData: ProductData,
     tier: Tier,
-    confidenceScore: ConfidenceScore
+    confidenceScore: ConfidenceScore,
+    perceptualHash?: string
   ): Promise<void> {
-    try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
-
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
-
-      const entry: CacheEntryDocument = {
-        key,
-        keyType,
-        productData,
-        tier,
-        confidenceScore,
-        createdAt: now,
-        lastAccessedAt: now,
-        accessCount: 0,
-        expiresAt,
-      };
+    key = this.normalizeKey(key, keyType);
 
-      // Upsert: update if exists, insert if not
-      await collection.updateOne(
-        { key, keyType },
-        { $set: entry },
-        { upsert: true }
+    try {
+      // Requirement 7.5: 90-day expiration (product namespace policy)
+      await this.cache.set(
+        this.cacheKey(key, keyType),
+        { productData, tier, confidenceScore },
+        {
+          tags: this.tagsFor(key, keyType, productData),
+          perceptualHash: keyType === 'imageHash' ? perceptualHash : undefined,
+        }
       );
 
       console.log(`[Cache Service] 💾 Stored: ${keyType}, tier=${tier}, confidence=${confidenceScore.toFixed(2)}`);
@@ -137,13 +202,12 @@ export class CacheService {
    * @param keyType - Type of key
    */
   async invalidate(key: string, keyType: CacheKeyType): Promise<void> {
-    try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
+    key = this.normalizeKey(key, keyType);
 
-      const result = await collection.deleteOne({ key, keyType });
+    try {
+      const deleted = await this.cache.delete(this.cacheKey(key, keyType));
 
-      if (result.deletedCount > 0) {
+      if (deleted > 0) {
         console.log(`[Cache Service] 🗑️  Invalidated: ${keyType}`);
       } else {
         console.log(`[Cache Service] ⚠️  No entry to invalidate: ${keyType}`);
@@ -159,18 +223,16 @@ export class CacheService {
    * Used when product data is updated
    * Requirement 7.6: Invalidate related entries on product update
    * 
+   * Only clears the product namespace; use cacheLayer.invalidateProduct()
+   * to clear everything derived from the product.
+   * 
    * @param productId - Product ID to invalidate
    */
   async invalidateByProductId(productId: string): Promise<void> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
+      const deleted = await this.cache.invalidateTags([productTag(productId)]);
 
-      const result = await collection.deleteMany({
-        'productData.id': productId,
-      });
-
-      console.log(`[Cache Service] 🗑️  Invalidated ${result.deletedCount} entries for product ${productId}`);
+      console.log(`[Cache Service] 🗑️  Invalidated ${deleted} entries for product ${productId}`);
     } catch (error) {
       console.error('[Cache Service] Invalidate by product ID error:', error);
       throw error;
@@ -185,27 +247,19 @@ export class CacheService {
    */
   async getStats(): Promise<CacheStats> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
-
-      const [totalEntries, barcodeEntries, imageHashEntries, avgAccessCount, oldestEntry, newestEntry] = await Promise.all([
-        collection.countDocuments(),
-        collection.countDocuments({ keyType: 'barcode' }),
-        collection.countDocuments({ keyType: 'imageHash' }),
-        collection.aggregate([
-          { $group: { _id: null, avg: { $avg: '$accessCount' } } }
-        ]).toArray().then(result => result[0]?.avg || 0),
-        collection.findOne({}, { sort: { createdAt: 1 } }),
-        collection.findOne({}, { sort: { createdAt: -1 } }),
+      const [all, barcode, imageHash] = await Promise.all([
+        this.cache.stats(),
+        this.cache.stats(this.cacheKey('', 'barcode')),
+        this.cache.stats(this.cacheKey('', 'imageHash')),
       ]);
 
       return {
-        totalEntries,
-        barcodeEntries,
-        imageHashEntries,
-        avgAccessCount,
-        oldestEntry: oldestEntry?.createdAt || null,
-        newestEntry: newestEntry?.createdAt || null,
+        totalEntries: all.entries,
+        barcodeEntries: barcode.entries,
+        imageHashEntries: imageHash.entries,
+        avgAccessCount: all.avgAccessCount,
+        oldestEntry: all.oldestEntry,
+        newestEntry: all.newestEntry,
       };
     } catch (error) {
       console.error('[Cache Service] Get stats error:', error);
@@ -219,15 +273,10 @@ export class CacheService {
    */
   async clearExpired(): Promise<number> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
-
-      const result = await collection.deleteMany({
-        expiresAt: { $lte: new Date() },
-      });
+      const deleted = await this.cache.clearExpired();
 
-      console.log(`[Cache Service] 🗑️  Cleared ${result.deletedCount} expired entries`);
-      return result.deletedCount;
+      console.log(`[Cache Service] 🗑️  Cleared ${deleted} expired entries`);
+      return deleted;
     } catch (error) {
       console.error('[Cache Service] Clear expired error:', error);
       throw error;
@@ -243,16 +292,12 @@ export class CacheService {
    * @returns Cache entry snapshot or null if not found
    */
   async getSnapshot(key: string, keyType: CacheKeyType): Promise<CacheEntryDocument | null> {
-    try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
+    key = this.normalizeKey(key, keyType);
 
-      const entry = await collection.findOne({
-        key,
-        keyType,
-      });
+    try {
+      const hit = await this.cache.get(this.cacheKey(key, keyType), { includeExpired: true });
 
-      return entry;
+      return hit ? this.toDocument(hit.entry) : null;
     } catch (error) {
       console.error('[Cache Service] Get snapshot error:', error);
       return null;
@@ -267,13 +312,21 @@ export class CacheService {
    */
   async restoreSnapshot(snapshot: CacheEntryDocument): Promise<void> {
     try {
-      const db = await getMongoClient();
-      const collection = db.collection<CacheEntryDocument>(this.collectionName);
-
-      await collection.updateOne(
-        { key: snapshot.key, keyType: snapshot.keyType },
-        { $set: snapshot },
-        { upsert: true }
+      await this.cache.set(
+        this.cacheKey(snapshot.key, snapshot.keyType),
+        {
+          productData: snapshot.productData,
+          tier: snapshot.tier,
+          confidenceScore: snapshot.confidenceScore,
+        },
+        {
+          tags: this.tagsFor(snapshot.key, snapshot.keyType, snapshot.productData),
+          perceptualHash: snapshot.perceptualHash,
+          createdAt: snapshot.createdAt,
+          lastAccessedAt: snapshot.lastAccessedAt,
+          accessCount: snapshot.accessCount,
+          expiresAt: snapshot.expiresAt,
+        }
       );
 
       console.log(`[Cache Service] 🔄 Restored snapshot: ${snapshot.keyType}`);
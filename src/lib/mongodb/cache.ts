@@ -2,21 +2,54 @@
  * MongoDB Cache Repository
  * 
  * This file implements the cache repository for storing and retrieving
- * AI-generated product insights with TTL-based expiration.
+ * AI-generated product insights with TTL-based expiration, in the
+ * 'insights' namespace of the unified cache layer (src/lib/cache).
  * 
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5
  */
 
-import type { Collection } from 'mongodb';
-import { getMongoClient } from './client';
 import { CachedInsight } from './types';
 import { ProductInsights } from '@/lib/types';
+import { barcodeTag, cacheLayer, type CacheEntry, type CacheLayer, type NamespaceCache } from '@/lib/cache';
+
+/**
+ * Value stored per insights cache entry
+ */
+interface InsightCacheValue {
+  barcode?: string;
+  imageHash?: string;
+  productName: string;
+  insights: ProductInsights;
+}
+
+/**
+ * Key of an entry: by barcode when known, otherwise by image hash
+ */
+function insightKey(barcode?: string, imageHash?: string): string | null {
+  if (barcode) return `barcode:${barcode}`;
+  if (imageHash) return `imageHash:${imageHash}`;
+  return null;
+}
+
+/**
+ * Convert a cache entry to the insight shape callers expect
+ */
+function toInsight(entry: CacheEntry<InsightCacheValue>): CachedInsight {
+  return {
+    barcode: entry.value.barcode as string,
+    productName: entry.value.productName,
+    insights: entry.value.insights,
+    lastScannedAt: entry.lastAccessedAt,
+    scanCount: entry.accessCount,
+    createdAt: entry.createdAt,
+  };
+}
 
 /**
  * MongoDB Cache Repository
  * 
  * Provides methods for caching AI-generated product insights with automatic
- * expiration using MongoDB TTL indexes. Implements cache-first architecture
+ * expiration. Implements cache-first architecture
  * to optimize performance and reduce API costs.
  * 
  * Requirements:
@@ -27,74 +60,19 @@ import { ProductInsights } from '@/lib/types';
  * - 5.5: Save insight to MongoDB AI_Cache after Research_Agent completes
  */
 export class MongoDBCacheRepository {
-  private collectionName = 'insights';
+  private cache: NamespaceCache<InsightCacheValue>;
 
   /**
-   * Get the insights collection
-   * Ensures indexes are created on first access
+   * @param layer - Cache layer to use (default: the shared Mongo-backed layer)
    */
-  private async getCollection(): Promise<Collection<CachedInsight>> {
-    const db = await getMongoClient();
-    const collection = db.collection<CachedInsight>(this.collectionName);
-    
-    // Ensure indexes exist (idempotent operation)
-    await this.ensureIndexes(collection);
-    
-    return collection;
-  }
-
-  /**
-   * Ensure required indexes exist on the insights collection
-   * 
-   * Creates the following indexes:
-   * - barcode: index for fast lookups (not unique anymore since it can be null)
-   * - imageHash: index for image-based lookups
-   * - expiresAt: TTL index for automatic document expiration
-   * - createdAt: index for sorting by creation time
-   * 
-   * This method is idempotent and safe to call multiple times.
-   * 
-   * Requirements: 5.1, 5.5
-   */
-  private async ensureIndexes(collection: Collection<CachedInsight>): Promise<void> {
-    try {
-      // Create index on barcode for fast lookups (sparse since barcode can be null)
-      await collection.createIndex(
-        { barcode: 1 },
-        { sparse: true, name: 'barcode_sparse' }
-      );
-
-      // Create index on imageHash for image-based lookups (sparse since imageHash can be null)
-      await collection.createIndex(
-        { imageHash: 1 },
-        { sparse: true, name: 'imageHash_sparse' }
-      );
-
-      // Create TTL index on expiresAt for automatic expiration
-      // Documents will be automatically deleted when expiresAt is reached
-      await collection.createIndex(
-        { expiresAt: 1 },
-        { expireAfterSeconds: 0, name: 'expiresAt_ttl' }
-      );
-
-      // Create index on createdAt for sorting and queries
-      await collection.createIndex(
-        { createdAt: -1 },
-        { name: 'createdAt_desc' }
-      );
-    } catch (error) {
-      // Ignore errors if indexes already exist
-      // MongoDB will throw an error if we try to create an index with different options
-      if (error instanceof Error && !error.message.includes('already exists')) {
-        console.error('Error creating indexes:', error);
-      }
-    }
+  constructor(layer: CacheLayer = cacheLayer) {
+    this.cache = layer.namespace<InsightCacheValue>('insights');
   }
 
   /**
    * Get cached insight by barcode or image hash
    * 
-   * Queries MongoDB for an existing insight by barcode or image hash. Returns null if:
+   * Queries the cache for an existing insight by barcode or image hash. Returns null if:
    * - No insight exists for the barcode/hash
    * - The insight has expired (expiresAt < now)
    * 
@@ -124,27 +102,16 @@ export class MongoDBCacheRepository {
         imageHash: imageHash ? imageHash.substring(0, 16) + '...' : 'none',
       });
       
-      const collection = await this.getCollection();
-      
-      // Build query based on what's provided
-      const query: any = {
-        expiresAt: { $gt: new Date() } // Only return if not expired
-      };
-      
-      if (barcode) {
-        query.barcode = barcode;
-      } else if (imageHash) {
-        query.imageHash = imageHash;
-      } else {
+      const key = insightKey(barcode, imageHash);
+      if (!key) {
         // Neither barcode nor imageHash provided
         console.log('[MongoDB Cache] ❌ No barcode or imageHash provided');
         return null;
       }
       
-      console.log('[MongoDB Cache] Query:', JSON.stringify(query));
-      
       // Query for insight, ensuring it hasn't expired
-      const insight = await collection.findOne(query);
+      const hit = await this.cache.get(key);
+      const insight = hit ? toInsight(hit.entry) : null;
 
       if (insight) {
         console.log('[MongoDB Cache] ✅ Cache HIT:', {
@@ -171,7 +138,7 @@ export class MongoDBCacheRepository {
   /**
    * Save insight to cache with TTL
    * 
-   * Saves or updates an AI-generated insight in MongoDB with automatic
+   * Saves or updates an AI-generated insight in the cache with automatic
    * expiration. Uses upsert to handle both new and existing insights.
    * 
    * Requirements:
@@ -209,49 +176,36 @@ export class MongoDBCacheRepository {
         ttlDays,
       });
       
-      const collection = await this.getCollection();
-      
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + ttlDays * 24 * 60 * 60 * 1000);
-
-      // Build query based on what's available
-      let query: any;
-      if (barcode) {
-        query = { barcode };
-      } else if (imageHash) {
-        query = { imageHash };
-      } else {
+      const key = insightKey(barcode, imageHash);
+      if (!key) {
         // Can't cache without either barcode or imageHash
         console.warn('[MongoDB Cache] ⚠️  Cannot cache insight without barcode or imageHash');
         return;
       }
 
-      console.log('[MongoDB Cache] Upsert query:', JSON.stringify(query));
-
-      // Upsert the insight (insert if new, update if exists)
-      const result = await collection.updateOne(
-        query,
+      // Upsert the insight, keeping the creation time and scan count of an
+      // existing entry
+      const existing = await this.cache.get(key, { includeExpired: true });
+      const entry = await this.cache.set(
+        key,
         {
-          $set: {
-            barcode: barcode || undefined,
-            imageHash: imageHash || undefined,
-            productName,
-            insights,
-            expiresAt
-          },
-          $setOnInsert: {
-            createdAt: now,
-            scanCount: 0
-          }
+          ...(barcode && { barcode }),
+          ...(imageHash && { imageHash }),
+          productName,
+          insights,
         },
-        { upsert: true }
+        {
+          ttlDays,
+          tags: barcode ? [barcodeTag(barcode)] : [],
+          createdAt: existing?.entry.createdAt,
+          lastAccessedAt: existing?.entry.lastAccessedAt,
+          accessCount: existing?.entry.accessCount,
+        }
       );
       
       console.log('[MongoDB Cache] ✅ Cache save successful:', {
-        matched: result.matchedCount,
-        modified: result.modifiedCount,
-        upserted: result.upsertedCount,
-        upsertedId: result.upsertedId,
+        updated: existing !== null,
+        expiresAt: entry.expiresAt,
       });
     } catch (error) {
       console.error('[MongoDB Cache] ❌ Error setting cached insight:', error);
@@ -284,23 +238,13 @@ export class MongoDBCacheRepository {
    */
   async incrementScanCount(barcode?: string, imageHash?: string): Promise<void> {
     try {
-      const collection = await this.getCollection();
-      
-      // Build query based on what's provided
-      const query: any = {};
-      if (barcode) {
-        query.barcode = barcode;
-      } else if (imageHash) {
-        query.imageHash = imageHash;
-      } else {
+      const key = insightKey(barcode, imageHash);
+      if (!key) {
         return; // Nothing to increment
       }
       
       // Increment scanCount by 1
-      await collection.updateOne(
-        query,
-        { $inc: { scanCount: 1 } }
-      );
+      await this.cache.touch(key);
     } catch (error) {
       console.error('Error incrementing scan count:', error);
       // Don't throw - this is a non-critical operation
@@ -310,7 +254,7 @@ export class MongoDBCacheRepository {
   /**
    * Invalidate cache entry
    * 
-   * Removes a cached insight from MongoDB. This can be used to force
+   * Removes a cached insight from the cache. This can be used to force
    * regeneration of insights for a specific product.
    * 
    * Requirements:
@@ -327,10 +271,8 @@ export class MongoDBCacheRepository {
    */
   async invalidate(barcode: string): Promise<void> {
     try {
-      const collection = await this.getCollection();
-      
       // Delete the cached insight
-      await collection.deleteOne({ barcode });
+      await this.cache.delete(insightKey(barcode) as string);
     } catch (error) {
       console.error('Error invalidating cached insight:', error);
       // Don't throw - cache failures shouldn't break the application
@@ -357,24 +299,19 @@ export class MongoDBCacheRepository {
     mostScanned: Array<{ barcode: string; productName: string; scanCount: number }>;
   }> {
     try {
-      const collection = await this.getCollection();
-      
-      // Count total entries
-      const totalEntries = await collection.countDocuments({
-        expiresAt: { $gt: new Date() } // Only count non-expired entries
-      });
-
-      // Get top 10 most scanned products
-      const mostScanned = await collection
-        .find({ expiresAt: { $gt: new Date() } })
-        .sort({ scanCount: -1 })
-        .limit(10)
-        .project({ barcode: 1, productName: 1, scanCount: 1, _id: 0 })
-        .toArray();
+      // Count non-expired entries and get the top 10 most scanned products
+      const [stats, mostScanned] = await Promise.all([
+        this.cache.stats(),
+        this.cache.top(10),
+      ]);
 
       return {
-        totalEntries,
-        mostScanned: mostScanned as Array<{ barcode: string; productName: string; scanCount: number }>
+        totalEntries: stats.entries,
+        mostScanned: mostScanned.map(entry => ({
+          barcode: entry.value.barcode as string,
+          productName: entry.value.productName,
+          scanCount: entry.accessCount,
+        })),
       };
     } catch (error) {
       console.error('Error getting cache stats:', error);
@@ -2,56 +2,50 @@
  * MongoDB Initialization Script
  * 
  * This script creates collections and indexes for the multi-tier product identification system.
+ * All cached results live in one collection; see src/lib/cache.
  * Run this once to set up the MongoDB schema.
  * 
  * Requirements: 7.1, 7.2, 7.5
  */
 
 import { getMongoClient } from './client';
+import { mongoCacheStore } from '@/lib/cache';
+import { mongoRateLimitStore } from '@/lib/rate-limit';
+import { llmUsageRepository } from './llm-usage';
 
 /**
  * Initialize MongoDB collections and indexes
- * Creates cache_entries collection with required indexes
+ * Creates the unified cache collection with required indexes, the TTL
+ * index of the rate limit counters and the LLM cost ledger indexes
  */
 export async function initializeMongoDB(): Promise<void> {
   const db = await getMongoClient();
 
   console.log('Initializing MongoDB collections and indexes...');
 
-  // Create cache_entries collection if it doesn't exist
-  const collections = await db.listCollections({ name: 'cache_entries' }).toArray();
+  // Create cache collection if it doesn't exist
+  const collections = await db.listCollections({ name: 'cache' }).toArray();
   if (collections.length === 0) {
-    await db.createCollection('cache_entries');
-    console.log('✓ Created cache_entries collection');
+    await db.createCollection('cache');
+    console.log('✓ Created cache collection');
   } else {
-    console.log('✓ cache_entries collection already exists');
+    console.log('✓ cache collection already exists');
   }
 
-  const cacheCollection = db.collection('cache_entries');
+  // Create indexes shared by all cache namespaces
+  // Requirement 7.1, 7.2: Unique index on (namespace, key) for barcode and image hash lookups
+  // Requirement 7.5: TTL index on expiresAt for automatic expiration
+  // Plus a tags index for invalidation and perceptualBands for near-duplicate images
+  await mongoCacheStore.ensureIndexes();
+  console.log('✓ Created indexes on (namespace, key), (namespace, tags), expiresAt and perceptualBands');
 
-  // Create unique compound index on (key, keyType)
-  // Requirement 7.1, 7.2: Index by barcode and image hash
-  await cacheCollection.createIndex(
-    { key: 1, keyType: 1 },
-    { unique: true, name: 'idx_key_keyType' }
-  );
-  console.log('✓ Created unique index on (key, keyType)');
+  // Rate limit counters expire once they would be fully reset
+  await mongoRateLimitStore.ensureIndexes();
+  console.log('✓ Created rate_limits TTL index on expiresAt');
 
-  // Create TTL index on expiresAt for automatic expiration
-  // Requirement 7.5: Expire entries not accessed for 90 days
-  await cacheCollection.createIndex(
-    { expiresAt: 1 },
-    { expireAfterSeconds: 0, name: 'idx_expiresAt_ttl' }
-  );
-  console.log('✓ Created TTL index on expiresAt');
-
-  // Create index on lastAccessedAt for cache management queries
-  // Requirement 7.4: Track last accessed timestamp
-  await cacheCollection.createIndex(
-    { lastAccessedAt: 1 },
-    { name: 'idx_lastAccessedAt' }
-  );
-  console.log('✓ Created index on lastAccessedAt');
+  // LLM cost ledger, queried by time range and user
+  await llmUsageRepository.ensureIndexes();
+  console.log('✓ Created llm_usage indexes on timestamp and (userId, timestamp)');
 
   console.log('MongoDB initialization complete!');
 }
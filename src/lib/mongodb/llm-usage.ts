@@ -0,0 +1,93 @@
+/**
+ * LLM Usage Repository
+ *
+ * MongoDB persistence of the LLM cost ledger: one document per model call
+ * in 'llm_usage', and the spend of each UTC day in 'llm_usage_daily'
+ * (incremented atomically so every instance sees the same total).
+ */
+
+import type { Collection } from 'mongodb';
+import { getMongoClient } from './client';
+import type { LLMUsageDailyDocument, LLMUsageDocument } from './types';
+import type { LLMUsageEntry, LLMUsageStore } from '@/lib/llm/cost-ledger';
+
+export class MongoLLMUsageRepository implements LLMUsageStore {
+  private readonly collectionName = 'llm_usage';
+  private readonly dailyCollectionName = 'llm_usage_daily';
+  private indexesEnsured: Promise<void> | null = null;
+
+  /**
+   * Get the ledger collection
+   * Ensures indexes are created once per process
+   */
+  private async getCollection(): Promise<Collection<LLMUsageDocument>> {
+    const db = await getMongoClient();
+    const collection = db.collection<LLMUsageDocument>(this.collectionName);
+
+    if (!this.indexesEnsured) {
+      this.indexesEnsured = this.ensureIndexes(collection);
+    }
+    await this.indexesEnsured;
+
+    return collection;
+  }
+
+  private async getDailyCollection(): Promise<Collection<LLMUsageDailyDocument>> {
+    const db = await getMongoClient();
+    return db.collection<LLMUsageDailyDocument>(this.dailyCollectionName);
+  }
+
+  /**
+   * Ensure required indexes exist on the ledger collection
+   *
+   * Creates the following indexes:
+   * - timestamp: time range queries for /api/metrics
+   * - (userId, timestamp): per-user spend
+   *
+   * This method is idempotent and safe to call multiple times.
+   */
+  async ensureIndexes(collection?: Collection<LLMUsageDocument>): Promise<void> {
+    try {
+      collection ??= (await getMongoClient()).collection<LLMUsageDocument>(this.collectionName);
+
+      await collection.createIndex({ timestamp: 1 }, { name: 'timestamp' });
+      await collection.createIndex({ userId: 1, timestamp: 1 }, { name: 'userId_timestamp' });
+    } catch (error) {
+      // Ignore errors if indexes already exist
+      if (error instanceof Error && !error.message.includes('already exists')) {
+        console.error('[LLM Usage] Error creating indexes:', error);
+      }
+    }
+  }
+
+  async insert(entry: LLMUsageEntry): Promise<void> {
+    const collection = await this.getCollection();
+    await collection.insertOne({ ...entry });
+  }
+
+  async addDailyCost(day: string, costUsd: number): Promise<number> {
+    const collection = await this.getDailyCollection();
+    const document = await collection.findOneAndUpdate(
+      { _id: day },
+      { $inc: { costUsd, calls: 1 } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return document?.costUsd ?? costUsd;
+  }
+
+  async find(start: Date, end: Date): Promise<LLMUsageEntry[]> {
+    const collection = await this.getCollection();
+    return collection
+      .find({ timestamp: { $gte: start, $lte: end } }, { projection: { _id: 0 } })
+      .toArray();
+  }
+
+  async dailyCost(day: string): Promise<number> {
+    const collection = await this.getDailyCollection();
+    const document = await collection.findOne({ _id: day });
+    return document?.costUsd ?? 0;
+  }
+}
+
+// Export singleton instance
+export const llmUsageRepository = new MongoLLMUsageRepository();
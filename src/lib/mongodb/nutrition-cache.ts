@@ -2,20 +2,44 @@
  * MongoDB Nutrition Cache Repository
  * 
  * This file implements the cache repository for storing and retrieving
- * nutritional analysis results with TTL-based expiration.
+ * nutritional analysis results with TTL-based expiration, in the
+ * 'nutrition' namespace of the unified cache layer (src/lib/cache).
  * 
  * Requirements: 6.1, 6.2, 6.5, 6.6
  */
 
-import type { Collection } from 'mongodb';
-import { getMongoClient } from './client';
 import { NutritionCacheDocument } from './types';
+import { perceptualCacheMetrics } from './perceptual-index';
+import { cacheLayer, type CacheEntry, type CacheLayer, type NamespaceCache } from '@/lib/cache';
+
+/**
+ * Value stored per nutrition cache entry (the document minus bookkeeping)
+ */
+type NutritionCacheValue = Omit<
+  NutritionCacheDocument,
+  '_id' | 'imageHash' | 'createdAt' | 'lastAccessedAt' | 'accessCount' | 'expiresAt' | 'perceptualHash' | 'perceptualBands'
+>;
+
+/**
+ * Convert a cache entry to the document shape callers expect
+ */
+function toDocument(entry: CacheEntry<NutritionCacheValue>): NutritionCacheDocument {
+  return {
+    imageHash: entry.key,
+    ...entry.value,
+    createdAt: entry.createdAt,
+    lastAccessedAt: entry.lastAccessedAt,
+    accessCount: entry.accessCount,
+    expiresAt: entry.expiresAt,
+    ...(entry.perceptualHash && { perceptualHash: entry.perceptualHash }),
+  };
+}
 
 /**
  * MongoDB Nutrition Cache Repository
  * 
  * Provides methods for caching nutritional analysis results with automatic
- * expiration using MongoDB TTL indexes. Implements cache-first architecture
+ * expiration. Implements cache-first architecture
  * to optimize performance and reduce OCR processing costs.
  * 
  * Requirements:
@@ -23,76 +47,28 @@ import { NutritionCacheDocument } from './types';
  * - 6.2: Update last_accessed_at timestamp when cache hit
  * - 6.5: Store complete nutrition analysis with TTL
  * - 6.6: Return cached data without triggering OCR on cache hit
+ *
+ * Entries also carry a perceptual hash, so a photo that differs from a
+ * cached one only by framing, exposure or compression still hits.
  */
 export class NutritionCacheRepository {
-  private collectionName = 'nutrition_cache';
+  private cache: NamespaceCache<NutritionCacheValue>;
 
   /**
-   * Get the nutrition_cache collection
-   * Ensures indexes are created on first access
-   */
-  private async getCollection(): Promise<Collection<NutritionCacheDocument>> {
-    const db = await getMongoClient();
-    const collection = db.collection<NutritionCacheDocument>(this.collectionName);
-    
-    // Ensure indexes exist (idempotent operation)
-    await this.ensureIndexes(collection);
-    
-    return collection;
-  }
-
-  /**
-   * Ensure required indexes exist on the nutrition_cache collection
-   * 
-   * Creates the following indexes:
-   * - imageHash: unique index for fast lookups
-   * - expiresAt: TTL index for automatic document expiration (30 days)
-   * - productName: text index for search functionality
-   * - createdAt: index for sorting by creation time
-   * 
-   * This method is idempotent and safe to call multiple times.
-   * 
-   * Requirements: 6.1, 6.5
+   * @param layer - Cache layer to use (default: the shared Mongo-backed layer)
    */
-  private async ensureIndexes(collection: Collection<NutritionCacheDocument>): Promise<void> {
-    try {
-      // Create unique index on imageHash for fast lookups
-      await collection.createIndex(
-        { imageHash: 1 },
-        { unique: true, name: 'imageHash_unique' }
-      );
-
-      // Create TTL index on expiresAt for automatic expiration
-      // Documents will be automatically deleted when expiresAt is reached
-      await collection.createIndex(
-        { expiresAt: 1 },
-        { expireAfterSeconds: 0, name: 'expiresAt_ttl' }
-      );
-
-      // Create text index on productName for search
-      await collection.createIndex(
-        { productName: 'text' },
-        { name: 'productName_text' }
-      );
-
-      // Create index on createdAt for sorting and queries
-      await collection.createIndex(
-        { createdAt: -1 },
-        { name: 'createdAt_desc' }
-      );
-    } catch (error) {
-      // Ignore errors if indexes already exist
-      if (error instanceof Error && !error.message.includes('already exists')) {
-        console.error('[NutritionCache] Error creating indexes:', error);
-      }
-    }
+  constructor(layer: CacheLayer = cacheLayer) {
+    this.cache = layer.namespace<NutritionCacheValue>('nutrition');
   }
 
   /**
    * Get cached nutrition data by image hash
    * 
-   * Queries MongoDB for existing nutrition analysis by image hash. Returns null if:
-   * - No data exists for the image hash
+   * Queries the cache for existing nutrition analysis by image hash. When no
+   * entry has the exact hash and a perceptual hash is given, returns the
+   * closest entry within PERCEPTUAL_HASH_MAX_DISTANCE bits; that entry keeps
+   * its own imageHash. Returns null if:
+   * - No data exists for the image hash or a near-identical image
    * - The data has expired (expiresAt < now)
    * 
    * Requirements:
@@ -100,6 +76,7 @@ export class NutritionCacheRepository {
    * - 6.6: Return cached data without triggering OCR
    * 
    * @param imageHash - SHA-256 hash of the nutrition label image
+   * @param perceptualHash - Perceptual hash of the image for near-duplicate lookup
    * @returns Cached nutrition data or null if not found/expired
    * 
    * @example
@@ -113,32 +90,41 @@ export class NutritionCacheRepository {
    * }
    * ```
    */
-  async getNutritionData(imageHash: string): Promise<NutritionCacheDocument | null> {
+  async getNutritionData(imageHash: string, perceptualHash?: string): Promise<NutritionCacheDocument | null> {
     try {
       console.log('[NutritionCache] 🔍 Cache lookup attempt:', {
         imageHash: imageHash.substring(0, 16) + '...',
       });
       
-      const collection = await this.getCollection();
-      
-      // Query for nutrition data, ensuring it hasn't expired
-      const data = await collection.findOne({
-        imageHash,
-        expiresAt: { $gt: new Date() } // Only return if not expired
-      });
+      // Query for unexpired nutrition data, falling back to a near-identical
+      // photo of the same label
+      const hit = await this.cache.get(imageHash, { perceptualHash });
 
-      if (data) {
+      if (hit && hit.source !== 'near') {
+        const data = toDocument(hit.entry);
+        perceptualCacheMetrics.record('nutrition', 'exact');
         console.log('[NutritionCache] ✅ Cache HIT:', {
           productName: data.productName,
           accessCount: data.accessCount,
           createdAt: data.createdAt,
           tier: data.tier,
         });
-      } else {
-        console.log('[NutritionCache] ❌ Cache MISS - no matching document found');
+        return data;
       }
 
-      return data;
+      if (hit) {
+        perceptualCacheMetrics.record('nutrition', 'near', hit.distance);
+        console.log('[NutritionCache] ✅ Cache HIT (near-duplicate):', {
+          productName: hit.entry.value.productName,
+          distance: hit.distance,
+          matchedHash: hit.entry.key.substring(0, 16) + '...',
+        });
+        return toDocument(hit.entry);
+      }
+
+      perceptualCacheMetrics.record('nutrition', 'miss');
+      console.log('[NutritionCache] ❌ Cache MISS - no matching document found');
+      return null;
     } catch (error) {
       console.error('[NutritionCache] ❌ Error getting cached nutrition data:', error);
       console.error('[NutritionCache] Error details:', {
@@ -153,7 +139,7 @@ export class NutritionCacheRepository {
   /**
    * Save nutrition data to cache with TTL
    * 
-   * Saves or updates nutritional analysis in MongoDB with automatic
+   * Saves or updates nutritional analysis in the cache with automatic
    * expiration. Uses upsert to handle both new and existing data.
    * 
    * Requirements:
@@ -197,32 +183,27 @@ export class NutritionCacheRepository {
         ttlDays,
       });
       
-      const collection = await this.getCollection();
-      
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + ttlDays * 24 * 60 * 60 * 1000);
-
-      // Upsert the nutrition data (insert if new, update if exists)
-      const result = await collection.updateOne(
-        { imageHash },
+      // Upsert the nutrition data (insert if new, replace if exists)
+      const entry = await this.cache.set(
+        imageHash,
         {
-          $set: {
-            ...data,
-            expiresAt
-          },
-          $setOnInsert: {
-            createdAt: now,
-            accessCount: 0
-          }
+          productName: data.productName,
+          nutritionalFacts: data.nutritionalFacts,
+          ingredients: data.ingredients,
+          healthScore: data.healthScore,
+          tier: data.tier,
         },
-        { upsert: true }
+        {
+          ttlDays,
+          perceptualHash: data.perceptualHash,
+          createdAt: data.createdAt,
+          lastAccessedAt: data.lastAccessedAt,
+          accessCount: data.accessCount,
+        }
       );
       
       console.log('[NutritionCache] ✅ Cache save successful:', {
-        matched: result.matchedCount,
-        modified: result.modifiedCount,
-        upserted: result.upsertedCount,
-        upsertedId: result.upsertedId,
+        expiresAt: entry.expiresAt,
       });
     } catch (error) {
       console.error('[NutritionCache] ❌ Error setting cached nutrition data:', error);
@@ -257,22 +238,10 @@ export class NutritionCacheRepository {
         imageHash: imageHash.substring(0, 16) + '...',
       });
       
-      const collection = await this.getCollection();
-      
       // Update lastAccessedAt and increment accessCount
-      const result = await collection.updateOne(
-        { imageHash },
-        {
-          $set: { lastAccessedAt: new Date() },
-          $inc: { accessCount: 1 }
-        }
-      );
+      await this.cache.touch(imageHash);
       
-      if (result.matchedCount > 0) {
-        console.log('[NutritionCache] ✅ Access timestamp updated');
-      } else {
-        console.warn('[NutritionCache] ⚠️  No document found to update');
-      }
+      console.log('[NutritionCache] ✅ Access timestamp updated');
     } catch (error) {
       console.error('[NutritionCache] ❌ Error updating access timestamp:', error);
       // Don't throw - this is a non-critical operation
@@ -282,7 +251,7 @@ export class NutritionCacheRepository {
   /**
    * Invalidate cache entry
    * 
-   * Removes cached nutrition data from MongoDB. This can be used to force
+   * Removes cached nutrition data from the cache. This can be used to force
    * regeneration of analysis for a specific image.
    * 
    * Requirements:
@@ -303,12 +272,10 @@ export class NutritionCacheRepository {
         imageHash: imageHash.substring(0, 16) + '...',
       });
       
-      const collection = await this.getCollection();
-      
       // Delete the cached nutrition data
-      const result = await collection.deleteOne({ imageHash });
+      const deleted = await this.cache.delete(imageHash);
       
-      if (result.deletedCount > 0) {
+      if (deleted > 0) {
         console.log('[NutritionCache] ✅ Cache entry deleted');
       } else {
         console.warn('[NutritionCache] ⚠️  No cache entry found to delete');
@@ -339,24 +306,19 @@ export class NutritionCacheRepository {
     mostAccessed: Array<{ imageHash: string; productName?: string; accessCount: number }>;
   }> {
     try {
-      const collection = await this.getCollection();
-      
-      // Count total entries
-      const totalEntries = await collection.countDocuments({
-        expiresAt: { $gt: new Date() } // Only count non-expired entries
-      });
-
-      // Get top 10 most accessed nutrition data
-      const mostAccessed = await collection
-        .find({ expiresAt: { $gt: new Date() } })
-        .sort({ accessCount: -1 })
-        .limit(10)
-        .project({ imageHash: 1, productName: 1, accessCount: 1, _id: 0 })
-        .toArray();
+      // Count non-expired entries and get the top 10 most accessed
+      const [stats, mostAccessed] = await Promise.all([
+        this.cache.stats(),
+        this.cache.top(10),
+      ]);
 
       return {
-        totalEntries,
-        mostAccessed: mostAccessed as Array<{ imageHash: string; productName?: string; accessCount: number }>
+        totalEntries: stats.entries,
+        mostAccessed: mostAccessed.map(entry => ({
+          imageHash: entry.key,
+          productName: entry.value.productName,
+          accessCount: entry.accessCount,
+        })),
       };
     } catch (error) {
       console.error('[NutritionCache] ❌ Error getting cache stats:', error);
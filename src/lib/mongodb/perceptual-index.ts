@@ -0,0 +1,184 @@
+/**
+ * MongoDB Perceptual Hash Index
+ *
+ * Near-duplicate lookup for the image-hash caches. Documents store their
+ * 64-bit perceptual hash split into 8 position-tagged bands; a lookup
+ * fetches the documents sharing each band of the probe hash through a
+ * multikey index, then keeps the closest within the Hamming distance
+ * threshold. Any hash within 7 bits shares at least one band with the
+ * probe. Each band query is capped, so a crowded band (e.g. a blank row
+ * of many images) cannot crowd out a match found through another band;
+ * a match is only missed when every band it shares is over the cap.
+ *
+ * Also tracks exact, near and missed lookups per cache for /api/metrics.
+ */
+
+import type { Collection, Filter, Document, WithId } from 'mongodb';
+import { getPerceptualMaxDistance, hammingDistance, perceptualHashBands } from '@/lib/perceptualHash';
+
+/**
+ * Fields added to cache documents that support near-duplicate lookup
+ */
+export interface PerceptualIndexed {
+  perceptualHash?: string; // dHash of the image (16 hex characters)
+  perceptualBands?: string[]; // perceptualHashBands(perceptualHash), multikey indexed
+}
+
+/**
+ * Closest near-duplicate document and its distance
+ */
+export interface PerceptualMatch<T> {
+  document: T;
+  distance: number;
+}
+
+/**
+ * Candidates fetched per band; enough for any realistic band collision
+ * count while bounding the scan on very common bands
+ */
+const MAX_CANDIDATES_PER_BAND = 200;
+
+/**
+ * Fields to store on a document for its perceptual hash
+ */
+export function perceptualFields(perceptualHash?: string | null): PerceptualIndexed {
+  return perceptualHash
+    ? { perceptualHash, perceptualBands: perceptualHashBands(perceptualHash) }
+    : {};
+}
+
+/**
+ * Create the sparse multikey index on perceptualBands (idempotent)
+ */
+export async function ensurePerceptualIndex<T extends Document>(collection: Collection<T>): Promise<void> {
+  await collection.createIndex(
+    { perceptualBands: 1 },
+    { sparse: true, name: 'perceptualBands' }
+  );
+}
+
+/**
+ * Find the document whose perceptual hash is closest to the given hash
+ *
+ * Bands are queried one at a time; the lookup stops at an identical hash.
+ *
+ * @param collection - Collection of documents with PerceptualIndexed fields
+ * @param perceptualHash - Hash of the probe image
+ * @param filter - Additional conditions (e.g. key type, not expired)
+ * @param maxDistance - Largest Hamming distance accepted (default: PERCEPTUAL_HASH_MAX_DISTANCE)
+ * @returns Closest match within the threshold, or null
+ */
+export async function findNearestByPerceptualHash<T extends PerceptualIndexed & Document>(
+  collection: Collection<T>,
+  perceptualHash: string,
+  filter: Filter<T> = {},
+  maxDistance: number = getPerceptualMaxDistance()
+): Promise<PerceptualMatch<WithId<T>> | null> {
+  let best: PerceptualMatch<WithId<T>> | null = null;
+
+  for (const band of perceptualHashBands(perceptualHash)) {
+    const candidates = await collection
+      .find({ ...filter, perceptualBands: band } as Filter<T>)
+      .limit(MAX_CANDIDATES_PER_BAND)
+      .toArray();
+
+    for (const document of candidates) {
+      if (!document.perceptualHash || document.perceptualHash.length !== perceptualHash.length) continue;
+
+      const distance = hammingDistance(perceptualHash, document.perceptualHash);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { document, distance };
+      }
+    }
+
+    if (best?.distance === 0) {
+      break;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Image-hash cache a lookup was made against
+ */
+export type PerceptualCacheName = 'nutrition' | 'product';
+
+/**
+ * Lookup outcome: exact SHA-256 hit, near-duplicate hit, or miss
+ */
+export type PerceptualLookupOutcome = 'exact' | 'near' | 'miss';
+
+/**
+ * Lookup counts for one cache
+ */
+export interface PerceptualCacheStats {
+  lookups: number;
+  exactHits: number;
+  nearHits: number;
+  misses: number;
+  hitRate: number; // (exact + near) / lookups, 0-1
+  nearHitRate: number; // near / lookups, 0-1
+  averageNearDistance: number | null;
+}
+
+/**
+ * In-memory counters of image-hash cache lookups
+ *
+ * Shows how many cache hits the perceptual index adds over exact hashes,
+ * and how close near hits are, to guide tuning of the threshold.
+ */
+export class PerceptualCacheMetrics {
+  private counts = new Map<PerceptualCacheName, { exact: number; near: number; miss: number; nearDistance: number }>();
+
+  /**
+   * Record the outcome of an image-hash lookup
+   *
+   * @param cache - Cache that was queried
+   * @param outcome - Exact hit, near hit or miss
+   * @param distance - Hamming distance of a near hit
+   */
+  record(cache: PerceptualCacheName, outcome: PerceptualLookupOutcome, distance: number = 0): void {
+    const counts = this.counts.get(cache) ?? { exact: 0, near: 0, miss: 0, nearDistance: 0 };
+    counts[outcome]++;
+    if (outcome === 'near') {
+      counts.nearDistance += distance;
+    }
+    this.counts.set(cache, counts);
+  }
+
+  /**
+   * Lookup statistics per cache
+   */
+  getStats(): Record<PerceptualCacheName, PerceptualCacheStats> & { maxDistance: number } {
+    const stats = (cache: PerceptualCacheName): PerceptualCacheStats => {
+      const { exact, near, miss, nearDistance } = this.counts.get(cache) ?? { exact: 0, near: 0, miss: 0, nearDistance: 0 };
+      const lookups = exact + near + miss;
+      return {
+        lookups,
+        exactHits: exact,
+        nearHits: near,
+        misses: miss,
+        hitRate: lookups > 0 ? (exact + near) / lookups : 0,
+        nearHitRate: lookups > 0 ? near / lookups : 0,
+        averageNearDistance: near > 0 ? nearDistance / near : null,
+      };
+    };
+
+    return {
+      nutrition: stats('nutrition'),
+      product: stats('product'),
+      maxDistance: getPerceptualMaxDistance(),
+    };
+  }
+
+  /**
+   * Clear all counters
+   */
+  reset(): void {
+    this.counts.clear();
+  }
+}
+
+// Export singleton instance
+export const perceptualCacheMetrics = new PerceptualCacheMetrics();
@@ -9,6 +9,10 @@
 
 import { ObjectId } from 'mongodb';
 import { ProductData, Tier, ConfidenceScore, CacheKeyType } from '@/lib/types/multi-tier';
+import type { PerceptualIndexed } from './perceptual-index';
+import type { CacheNamespace, CacheTag } from '@/lib/cache/types';
+import type { RateLimitState } from '@/lib/rate-limit/types';
+import type { LLMUsageEntry } from '@/lib/llm/cost-ledger';
 
 /**
  * Cache entry document stored in MongoDB
@@ -16,7 +20,7 @@ import { ProductData, Tier, ConfidenceScore, CacheKeyType } from '@/lib/types/mu
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4
  */
-export interface CacheEntryDocument {
+export interface CacheEntryDocument extends PerceptualIndexed {
   _id?: ObjectId;
   key: string;
   keyType: CacheKeyType;
@@ -29,6 +33,49 @@ export interface CacheEntryDocument {
   expiresAt: Date;
 }
 
+/**
+ * Unified cache document stored in MongoDB
+ * One collection holds every cache namespace; see src/lib/cache
+ */
+export interface CacheDocument extends PerceptualIndexed {
+  _id?: ObjectId;
+  namespace: CacheNamespace;
+  key: string;
+  value: unknown;
+  tags: CacheTag[];
+  createdAt: Date;
+  lastAccessedAt: Date;
+  accessCount: number;
+  expiresAt: Date;
+}
+
+/**
+ * Rate limit counter stored in MongoDB
+ * Written with optimistic concurrency on version; see src/lib/rate-limit
+ */
+export interface RateLimitDocument {
+  _id: string; // `<rule id>:<identity>`
+  state: RateLimitState;
+  version: number;
+  expiresAt: Date; // TTL index, when the counter would be fully reset
+}
+
+/**
+ * LLM cost ledger entry stored in MongoDB, one per model call
+ */
+export interface LLMUsageDocument extends LLMUsageEntry {
+  _id?: ObjectId;
+}
+
+/**
+ * LLM spend of one UTC day
+ */
+export interface LLMUsageDailyDocument {
+  _id: string; // YYYY-MM-DD
+  costUsd: number;
+  calls: number;
+}
+
 /**
  * Result of a cache lookup operation
  * Indicates whether the cache hit or missed
@@ -70,7 +117,7 @@ export interface CachedInsight {
  * 
  * Requirements: 6.1, 6.2, 6.3, 6.4
  */
-export interface NutritionCacheDocument {
+export interface NutritionCacheDocument extends PerceptualIndexed {
   _id?: ObjectId;
   imageHash: string; // SHA-256 hash of nutrition label image
   productName?: string; // Extracted from label if available
@@ -2,15 +2,33 @@
  * DataMerger - Multi-Image Data Merging Service
  * 
  * Combines data from multiple images (barcode, packaging, nutrition) into single Product_Record.
- * Applies field priority rules and conflict resolution.
+ * Applies field priority rules and conflict resolution, and records the
+ * provenance of every field (source, image hash, confidence, timestamp).
  * 
  * Requirements: 6.1, 6.2, 6.3, 6.4, 6.5, 6.6, 9.2, 9.3, 13.1, 13.2, 13.3, 13.4, 15.1, 15.2, 15.3, 15.4, 15.5
  */
 
-import { Product, ProductInsert, ProductUpdate, ProductNutritionData } from '@/lib/supabase/types';
+import {
+  FieldObservation,
+  Product,
+  ProductFieldProvenance,
+  ProductInsert,
+  ProductUpdate,
+  ProductNutritionData,
+  ProvenanceField,
+  ProvenanceSource,
+} from '@/lib/supabase/types';
 import { ProductRepositoryMultiTier } from '@/lib/supabase/repositories/ProductRepositoryMultiTier';
 import { cacheService } from '@/lib/mongodb/cache-service';
+import type { NovaClassification } from '@/lib/services/nova-classifier';
 import { monitoringService } from './MonitoringService';
+import {
+  currentObservation,
+  DEFAULT_EXTRACTION_CONFIDENCE,
+  fieldValuesEqual,
+  isEmptyFieldValue,
+  observeField,
+} from './FieldProvenance';
 
 /**
  * Image type enumeration
@@ -23,6 +41,7 @@ export type ImageType = 'barcode' | 'packaging' | 'nutrition_label';
 export interface ImageAnalysisResult {
   // Common fields
   imageHash: string;
+  perceptualHash?: string; // For near-duplicate cache hits
   timestamp: Date;
   
   // Product identification (from barcode or packaging)
@@ -47,11 +66,24 @@ export interface ImageAnalysisResult {
   hasAllergens?: boolean;
   allergenTypes?: string[];
   ingredients?: string[];
+  nova?: NovaClassification;
+  
+  // Extraction confidence (0.0 to 1.0), overall and per field
+  confidence?: number;
+  fieldConfidence?: Partial<Record<ProvenanceField, number>>;
+  
+  // Scan tier that identified the product (barcode images)
+  tier?: number;
   
   // Additional metadata
   metadata?: Record<string, any>;
 }
 
+/**
+ * Conflicts kept in product metadata for review
+ */
+const MAX_STORED_CONFLICTS = 20;
+
 /**
  * Conflict information
  */
@@ -59,7 +91,7 @@ export interface ConflictInfo {
   field: string;
   values: Array<{
     value: any;
-    source: ImageType;
+    source: ProvenanceSource;
     timestamp: Date;
   }>;
 }
@@ -90,7 +122,8 @@ export interface MergeResult {
  * - Product metadata: Packaging > Barcode
  * - Nutritional data: Nutrition only
  * 
- * Conflict resolution: Most recent data wins
+ * Conflict resolution: source priority, then extraction confidence, then
+ * recency. Every observed value is kept in the product's field provenance.
  */
 export class DataMerger {
   private repository: ProductRepositoryMultiTier;
@@ -174,6 +207,14 @@ export class DataMerger {
       completeness_status: completenessStatus,
     };
 
+    // Keep conflicts for the review queue (timestamps stored as ISO strings)
+    if (conflicts.length > 0) {
+      mergedData.metadata.conflicts = [
+        ...(existingProduct?.metadata?.conflicts || []),
+        ...conflicts,
+      ].slice(-MAX_STORED_CONFLICTS);
+    }
+
     // Validate consistency and calculate confidence score
     // Requirements 15.1, 15.5
     const confidenceScore = this.calculateConfidenceScore(conflicts);
@@ -221,7 +262,8 @@ export class DataMerger {
               'imageHash',
               { ...mergedData, id: existingProduct?.id || 'pending-' + Date.now() } as any,
               1,
-              confidenceScore
+              confidenceScore,
+              newImageData.perceptualHash
             );
             console.log('[DataMerger] ✅ Stored in cache as pending');
           } catch (cacheError) {
@@ -239,7 +281,7 @@ export class DataMerger {
     // Update cache
     // Requirement 12.4: Handle cache update failure (log error, continue with Supabase only)
     try {
-      await this.updateCache(product!, newImageData.imageHash);
+      await this.updateCache(product!, newImageData.imageHash, newImageData.perceptualHash);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       monitoringService.logCacheUpdateFailure(errorMessage, newImageData.imageHash);
@@ -258,6 +300,10 @@ export class DataMerger {
    * Merge new image data with existing product
    * Requirements: 6.2, 6.3, 6.4, 6.5
    * 
+   * Each field value is recorded in the product's field provenance and
+   * applied only if it beats the current value on source priority, then
+   * confidence (see FieldProvenance).
+   * 
    * @param existing - Existing product
    * @param newData - New image data
    * @param imageType - Image type
@@ -271,150 +317,33 @@ export class DataMerger {
     conflicts: ConflictInfo[]
   ): Promise<ProductUpdate> {
     const update: ProductUpdate = {};
+    const provenance: ProductFieldProvenance = { ...(existing.field_provenance || {}) };
 
-    // Field priority rules:
-    // - Product identification: Barcode > Packaging > Nutrition
-    // - Product metadata: Packaging > Barcode
-    // - Nutritional data: Nutrition only
-
-    // Product identification fields
-    // Requirement 6.2: Populate from Barcode_Analyzer results
-    if (imageType === 'barcode') {
-      if (newData.barcode && newData.barcode !== existing.barcode) {
-        this.handleConflict(
-          conflicts,
-          'barcode',
-          existing.barcode,
-          newData.barcode,
-          'existing',
-          imageType,
-          existing.updated_at,
-          newData.timestamp
-        );
-        update.barcode = newData.barcode; // Most recent wins
-      }
-      
-      if (newData.productName) {
-        // Update if different OR if existing is placeholder
-        if (newData.productName !== existing.name || existing.name === 'Unknown Product') {
-          this.handleConflict(
-            conflicts,
-            'name',
-            existing.name,
-            newData.productName,
-            'existing',
-            imageType,
-            existing.updated_at,
-            newData.timestamp
-          );
-        }
-        update.name = newData.productName;
-      }
-      
-      if (newData.brandName) {
-        // Update if different OR if existing is placeholder
-        if (newData.brandName !== existing.brand || existing.brand === 'Unknown Brand') {
-          this.handleConflict(
-            conflicts,
-            'brand',
-            existing.brand,
-            newData.brandName,
-            'existing',
-            imageType,
-            existing.updated_at,
-            newData.timestamp
-          );
-        }
-        update.brand = newData.brandName;
-      }
-    }
+    for (const [field, value] of this.collectFieldValues(newData, imageType)) {
+      const current = currentObservation(existing, field, provenance);
+      const accepted = this.recordField(provenance, field, value, current, newData, imageType, conflicts);
 
-    // Product metadata fields
-    // Requirement 6.3: Populate from Packaging_Analyzer results
-    if (imageType === 'packaging') {
-      console.log('[DataMerger] 📦 Processing packaging data:', {
-        newProductName: newData.productName,
-        existingName: existing.name,
-        newBrandName: newData.brandName,
-        existingBrand: existing.brand,
-      });
-      
-      // Packaging has priority for metadata
-      if (newData.productName) {
-        // Update if different OR if existing is placeholder
-        if (newData.productName !== existing.name || existing.name === 'Unknown Product') {
-          this.handleConflict(
-            conflicts,
-            'name',
-            existing.name,
-            newData.productName,
-            'existing',
-            imageType,
-            existing.updated_at,
-            newData.timestamp
-          );
-        }
-        update.name = newData.productName;
-        console.log('[DataMerger] ✅ Updating name to:', newData.productName);
-      }
-      
-      if (newData.brandName) {
-        // Update if different OR if existing is placeholder
-        if (newData.brandName !== existing.brand || existing.brand === 'Unknown Brand') {
-          this.handleConflict(
-            conflicts,
-            'brand',
-            existing.brand,
-            newData.brandName,
-            'existing',
-            imageType,
-            existing.updated_at,
-            newData.timestamp
-          );
-        }
-        update.brand = newData.brandName;
-        console.log('[DataMerger] ✅ Updating brand to:', newData.brandName);
-      }
-      
-      if (newData.size) {
-        update.size = newData.size;
-      }
-      
-      if (newData.category) {
-        update.category = newData.category;
-      }
-      
-      if (newData.imageUrl) {
-        update.image_url = newData.imageUrl;
+      if (accepted && !fieldValuesEqual(current?.value, value)) {
+        (update as Record<string, unknown>)[field] = value;
+        console.log(`[DataMerger] ✅ Updating ${field} from ${imageType}`);
+      } else if (!accepted) {
+        console.log(`[DataMerger] ℹ️  Keeping ${field} from ${current?.source} over ${imageType}`);
       }
-      
-      // Merge dimensions into metadata
-      if (newData.dimensions) {
-        update.metadata = {
-          ...(existing.metadata || {}),
-          dimensions: newData.dimensions,
-        };
+
+      // Markers always describe the accepted NOVA group
+      if (accepted && field === 'nova_group') {
+        update.nova_markers = newData.nova?.markers;
       }
     }
 
-    // Nutritional data fields
-    // Requirement 6.4: Populate from Nutrition_Analyzer results
-    if (imageType === 'nutrition_label') {
-      if (newData.nutritionData) {
-        update.nutrition_data = newData.nutritionData;
-      }
-      
-      if (newData.healthScore !== undefined) {
-        update.health_score = newData.healthScore;
-      }
-      
-      if (newData.hasAllergens !== undefined) {
-        update.has_allergens = newData.hasAllergens;
-      }
-      
-      if (newData.allergenTypes) {
-        update.allergen_types = newData.allergenTypes;
-      }
+    update.field_provenance = provenance;
+
+    // Merge dimensions into metadata
+    if (imageType === 'packaging' && newData.dimensions) {
+      update.metadata = {
+        ...(existing.metadata || {}),
+        dimensions: newData.dimensions,
+      };
     }
 
     // Merge additional metadata
@@ -456,11 +385,104 @@ export class DataMerger {
       product.health_score = data.healthScore;
       product.has_allergens = data.hasAllergens || false;
       product.allergen_types = data.allergenTypes || [];
+      product.nova_group = data.nova?.group;
+      product.nova_markers = data.nova?.markers;
     }
 
+    const provenance: ProductFieldProvenance = {};
+    for (const [field, value] of this.collectFieldValues(data, imageType)) {
+      this.recordField(provenance, field, value, undefined, data, imageType, []);
+    }
+    product.field_provenance = provenance;
+
     return product;
   }
 
+  /**
+   * Field values an image provides
+   * 
+   * Identification and metadata fields are taken from any image type (source
+   * priority decides which one is kept); nutritional fields only from
+   * nutrition labels.
+   * 
+   * @param data - Image analysis result
+   * @param imageType - Image type
+   * @returns Non-empty field values
+   */
+  private collectFieldValues(
+    data: ImageAnalysisResult,
+    imageType: ImageType
+  ): Array<[ProvenanceField, unknown]> {
+    const values: Array<[ProvenanceField, unknown]> = [
+      ['barcode', data.barcode],
+      ['name', data.productName],
+      ['brand', data.brandName],
+      ['size', data.size],
+      ['category', data.category],
+      ['image_url', data.imageUrl],
+    ];
+
+    if (imageType === 'nutrition_label') {
+      values.push(
+        ['nutrition_data', data.nutritionData],
+        ['health_score', data.healthScore],
+        ['has_allergens', data.hasAllergens],
+        ['allergen_types', data.allergenTypes],
+        ['nova_group', data.nova?.group]
+      );
+    }
+
+    return values.filter(([field, value]) => !isEmptyFieldValue(field, value));
+  }
+
+  /**
+   * Record an observed field value and decide whether it replaces the current one
+   * 
+   * @param provenance - Provenance to update in place
+   * @param field - Field name
+   * @param value - Observed value
+   * @param current - Observation behind the current value, if any
+   * @param data - Image analysis result the value came from
+   * @param imageType - Image type
+   * @param conflicts - Array to collect conflicts
+   * @returns Whether the value should be applied
+   */
+  private recordField(
+    provenance: ProductFieldProvenance,
+    field: ProvenanceField,
+    value: unknown,
+    current: FieldObservation | undefined,
+    data: ImageAnalysisResult,
+    imageType: ImageType,
+    conflicts: ConflictInfo[]
+  ): boolean {
+    const observation: FieldObservation = {
+      value,
+      source: imageType,
+      tier: data.tier,
+      imageHash: data.imageHash,
+      confidence: data.fieldConfidence?.[field] ?? data.confidence ?? DEFAULT_EXTRACTION_CONFIDENCE,
+      timestamp: data.timestamp.toISOString(),
+      accepted: false,
+    };
+    const accepted = observeField(provenance, field, observation, current);
+
+    if (current && !fieldValuesEqual(current.value, value)) {
+      this.handleConflict(
+        conflicts,
+        field,
+        current.value,
+        value,
+        current.source,
+        imageType,
+        current.timestamp,
+        data.timestamp
+      );
+    }
+
+    return accepted;
+  }
+
   /**
    * Handle field conflict
    * Requirements: 6.5, 15.4
@@ -479,7 +501,7 @@ export class DataMerger {
     field: string,
     existingValue: any,
     newValue: any,
-    existingSource: string,
+    existingSource: ProvenanceSource,
     newSource: ImageType,
     existingTimestamp: string | Date,
     newTimestamp: Date
@@ -516,7 +538,7 @@ export class DataMerger {
         values: [
           {
             value: existingValue,
-            source: existingSource as ImageType,
+            source: existingSource,
             timestamp: new Date(existingTimestamp),
           },
           {
@@ -603,12 +625,13 @@ export class DataMerger {
 
   /**
    * Calculate string similarity (simple Levenshtein-based)
+   * Also used by the duplicate product detector.
    * 
    * @param str1 - First string
    * @param str2 - Second string
    * @returns Similarity score (0.0 to 1.0)
    */
-  private calculateStringSimilarity(str1: string, str2: string): number {
+  calculateStringSimilarity(str1: string, str2: string): number {
     const longer = str1.length > str2.length ? str1 : str2;
     const shorter = str1.length > str2.length ? str2 : str1;
     
@@ -678,8 +701,9 @@ export class DataMerger {
    * 
    * @param product - Product to cache
    * @param imageHash - Image hash to associate
+   * @param perceptualHash - Perceptual hash of the image, for near-duplicate lookups
    */
-  private async updateCache(product: Product, imageHash: string): Promise<void> {
+  private async updateCache(product: Product, imageHash: string, perceptualHash?: string): Promise<void> {
     try {
       // Convert Product to ProductData format (null -> undefined for optional fields)
       const productData = {
@@ -698,7 +722,8 @@ export class DataMerger {
         'imageHash',
         productData as any, // Type assertion needed due to Product vs ProductData differences
         1, // tier (not used for multi-image)
-        1.0 // confidence
+        1.0, // confidence
+        perceptualHash
       );
       console.log('[DataMerger] ✅ Updated cache for image hash');
     } catch (error) {
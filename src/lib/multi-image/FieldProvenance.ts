@@ -0,0 +1,317 @@
+/**
+ * FieldProvenance - Per-field source tracking for merged products
+ *
+ * Every value observed for a product field (by DataMerger, a scan tier or
+ * the catalog import) is recorded with its source (capture type or scan
+ * tier), image hash, extraction confidence and timestamp. The value kept on the product is chosen by source priority
+ * for the field, then by confidence, then by recency:
+ * - Product identification (barcode, name, brand): Barcode > Packaging > Nutrition
+ * - Product metadata (size, category, image): Packaging > Barcode > Nutrition
+ * - Nutritional data: Nutrition only
+ * User corrections always win. Values saved before tracking count as "legacy"
+ * and give way to any new observation.
+ */
+
+import type {
+  FieldObservation,
+  FieldProvenance,
+  Product,
+  ProductFieldProvenance,
+  ProductUpdate,
+  ProvenanceField,
+  ProvenanceSource,
+} from '@/lib/supabase/types';
+
+/**
+ * Where a batch of observed values came from (everything but the value)
+ */
+export type ObservationContext = Omit<FieldObservation, 'value' | 'accepted'>;
+
+/**
+ * Observations kept per field
+ */
+export const MAX_FIELD_HISTORY = 20;
+
+/**
+ * Confidence assumed when an analyzer does not report one
+ */
+export const DEFAULT_EXTRACTION_CONFIDENCE = 0.8;
+
+/**
+ * Confidence given to values saved before provenance was tracked
+ */
+const LEGACY_CONFIDENCE = 0.5;
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = [
+  'barcode',
+  'name',
+  'brand',
+  'size',
+  'category',
+  'image_url',
+  'nutrition_data',
+  'health_score',
+  'has_allergens',
+  'allergen_types',
+  'nova_group',
+];
+
+type FieldGroup = 'identification' | 'metadata' | 'nutrition';
+
+const FIELD_GROUPS: Record<ProvenanceField, FieldGroup> = {
+  barcode: 'identification',
+  name: 'identification',
+  brand: 'identification',
+  size: 'metadata',
+  category: 'metadata',
+  image_url: 'metadata',
+  nutrition_data: 'nutrition',
+  health_score: 'nutrition',
+  has_allergens: 'nutrition',
+  allergen_types: 'nutrition',
+  nova_group: 'nutrition',
+};
+
+/**
+ * Source priority per field group (higher wins). Scan tiers rank with the
+ * capture type they read: Tier 1 (barcode database) with barcode images,
+ * Tiers 2-3 (packaging text) with packaging, Tier 4 (image analysis) below.
+ */
+const SOURCE_PRIORITY: Record<FieldGroup, Record<ProvenanceSource, number>> = {
+  identification: {
+    user_correction: 100,
+    barcode: 40,
+    tier_1: 40,
+    packaging: 30,
+    tier_2: 30,
+    tier_3: 30,
+    tier_4: 20,
+    nutrition_label: 10,
+    legacy: 0,
+  },
+  metadata: {
+    user_correction: 100,
+    packaging: 40,
+    tier_2: 40,
+    barcode: 30,
+    tier_1: 30,
+    tier_3: 30,
+    tier_4: 20,
+    nutrition_label: 10,
+    legacy: 0,
+  },
+  nutrition: {
+    user_correction: 100,
+    nutrition_label: 40,
+    barcode: 0,
+    packaging: 0,
+    tier_1: 0,
+    tier_2: 0,
+    tier_3: 0,
+    tier_4: 0,
+    legacy: 0,
+  },
+};
+
+/**
+ * Placeholder values written when a field was unknown
+ */
+const PLACEHOLDERS: Partial<Record<ProvenanceField, string>> = {
+  name: 'Unknown Product',
+  brand: 'Unknown Brand',
+};
+
+/**
+ * Priority of a source for a field
+ */
+export function sourcePriority(field: ProvenanceField, source: ProvenanceSource): number {
+  return SOURCE_PRIORITY[FIELD_GROUPS[field]][source];
+}
+
+/**
+ * Whether a value carries no information (missing, empty or placeholder)
+ */
+export function isEmptyFieldValue(field: ProvenanceField, value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    value === PLACEHOLDERS[field];
+}
+
+/**
+ * Compare field values (objects and arrays by content)
+ */
+export function fieldValuesEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Observation behind a product's current value of a field
+ *
+ * @param product - Stored product
+ * @param field - Field name
+ * @param provenance - Provenance being built (defaults to the stored one)
+ * @returns Recorded observation, a legacy observation for untracked values,
+ *   or undefined if the field is empty
+ */
+export function currentObservation(
+  product: Product,
+  field: ProvenanceField,
+  provenance: ProductFieldProvenance = product.field_provenance || {}
+): FieldObservation | undefined {
+  const value = product[field];
+  if (isEmptyFieldValue(field, value)) {
+    return undefined;
+  }
+
+  const recorded = provenance[field]?.current;
+  if (recorded && fieldValuesEqual(recorded.value, value)) {
+    return recorded;
+  }
+
+  // Value set outside the merger (or before tracking)
+  return {
+    value,
+    source: 'legacy',
+    confidence: LEGACY_CONFIDENCE,
+    timestamp: product.updated_at,
+    accepted: true,
+  };
+}
+
+/**
+ * Whether a new observation should replace the current one
+ *
+ * Higher source priority wins; on equal priority the higher confidence
+ * wins, and on equal confidence the newer observation.
+ */
+export function prefersObservation(
+  field: ProvenanceField,
+  candidate: FieldObservation,
+  current: FieldObservation | undefined
+): boolean {
+  if (!current) {
+    return true;
+  }
+
+  const priorityDifference = sourcePriority(field, candidate.source) - sourcePriority(field, current.source);
+  if (priorityDifference !== 0) {
+    return priorityDifference > 0;
+  }
+
+  return candidate.confidence >= current.confidence;
+}
+
+/**
+ * Record an observation of a field
+ *
+ * @param provenance - Provenance to update in place
+ * @param field - Field name
+ * @param observation - New observation (accepted set by the caller)
+ * @param current - Observation behind the value before this one
+ */
+export function recordObservation(
+  provenance: ProductFieldProvenance,
+  field: ProvenanceField,
+  observation: FieldObservation,
+  current: FieldObservation | undefined
+): void {
+  const existing: FieldProvenance | undefined = provenance[field];
+  const history = [...(existing?.history || [])];
+
+  // Untracked values enter the history the first time they are challenged
+  if (current?.source === 'legacy' &&
+      !history.some(entry => entry.source === 'legacy' && fieldValuesEqual(entry.value, current.value))) {
+    history.push(current);
+  }
+
+  history.push(observation);
+
+  const kept = observation.accepted ? observation : current;
+  if (!kept) {
+    return;
+  }
+
+  provenance[field] = {
+    current: kept,
+    history: history.slice(-MAX_FIELD_HISTORY),
+  };
+}
+
+/**
+ * Decide whether an observation replaces the current value and record it
+ *
+ * @param provenance - Provenance to update in place
+ * @param field - Field name
+ * @param observation - New observation (accepted is set here)
+ * @param current - Observation behind the value before this one
+ * @returns Whether the observed value should be applied
+ */
+export function observeField(
+  provenance: ProductFieldProvenance,
+  field: ProvenanceField,
+  observation: FieldObservation,
+  current: FieldObservation | undefined
+): boolean {
+  observation.accepted = prefersObservation(field, observation, current);
+  recordObservation(provenance, field, observation, current);
+  return observation.accepted;
+}
+
+/**
+ * Merge values observed from one source into a product
+ *
+ * @param product - Stored product, or null for a new one
+ * @param values - Observed field values (empty values are skipped)
+ * @param context - Source, tier, confidence and timestamp of the values
+ * @returns Accepted values that differ from the stored ones, with the
+ *   updated field_provenance
+ */
+export function mergeFieldValues(
+  product: Product | null,
+  values: Partial<Record<ProvenanceField, unknown>>,
+  context: ObservationContext
+): ProductUpdate {
+  const update: ProductUpdate = {};
+  const provenance: ProductFieldProvenance = { ...(product?.field_provenance || {}) };
+
+  for (const field of PROVENANCE_FIELDS) {
+    const value = values[field];
+    if (isEmptyFieldValue(field, value)) {
+      continue;
+    }
+
+    const current = product ? currentObservation(product, field, provenance) : undefined;
+    const accepted = observeField(provenance, field, { ...context, value, accepted: false }, current);
+
+    if (accepted && !fieldValuesEqual(current?.value, value)) {
+      (update as Record<string, unknown>)[field] = value;
+    }
+  }
+
+  update.field_provenance = provenance;
+  return update;
+}
+
+/**
+ * Provenance of every tracked field of a product, for display
+ *
+ * @param product - Stored product
+ * @returns Current value, its observation and the history of each non-empty field
+ */
+export function getFieldHistory(product: Product): Array<{
+  field: ProvenanceField;
+  value: unknown;
+  current: FieldObservation;
+  history: FieldObservation[];
+}> {
+  const provenance = product.field_provenance || {};
+
+  return PROVENANCE_FIELDS.flatMap(field => {
+    const current = currentObservation(product, field, provenance);
+    if (!current) {
+      return [];
+    }
+    const history = provenance[field]?.history.length ? provenance[field]!.history : [current];
+    return [{ field, value: product[field], current, history }];
+  });
+}
@@ -10,7 +10,8 @@
 import { Product } from '@/lib/supabase/types';
 import { ImageData } from '@/lib/types/multi-tier';
 import { ImageClassifier } from '@/lib/services/image-classifier';
-import { hashImage } from '@/lib/imageHash';
+import { hashImageFingerprint } from '@/lib/perceptualHash';
+import { isValidGtin } from '@/lib/barcode/gtin';
 import { cacheService } from '@/lib/mongodb/cache-service';
 import { SessionManager, CaptureSession, sessionManager } from './SessionManager';
 import { ProductMatcher, productMatcher, ImageMetadata } from './ProductMatcher';
@@ -112,12 +113,13 @@ export class MultiImageOrchestrator {
     try {
       // Step 1: Generate SHA-256 hash for deduplication
       // Requirement 9.1: Generate SHA-256 hash of image data
-      const imageHash = await hashImage(imageData.base64);
-      console.log('[MultiImageOrchestrator] 🔑 Generated image hash');
+      // (plus a perceptual hash so near-identical photos also hit the cache)
+      const { hash: imageHash, perceptualHash } = await hashImageFingerprint(imageData.base64);
+      console.log('[MultiImageOrchestrator] 🔑 Generated image hash', { perceptual: perceptualHash !== null });
 
       // Step 2: Check MongoDB cache for existing image hash
       // Requirement 9.5, 10.1: Check cache before processing
-      const cachedProduct = await this.checkCache(imageHash);
+      const cachedProduct = await this.checkCache(imageHash, perceptualHash);
       if (cachedProduct) {
         console.log('[MultiImageOrchestrator] ✅ Cache hit, returning cached product');
         
@@ -324,6 +326,9 @@ export class MultiImageOrchestrator {
           );
         }
       }
+      if (perceptualHash) {
+        analysisResult = { ...analysisResult, perceptualHash };
+      }
 
       // Step 6: Use ProductMatcher to link images to products with error handling
       // Requirements 10.2, 10.3, 10.4, 12.3: Match to existing product with error handling
@@ -623,11 +628,12 @@ export class MultiImageOrchestrator {
    * Requirement 9.5: Use image hashes for cache lookups
    * 
    * @param imageHash - SHA-256 hash of image
+   * @param perceptualHash - Perceptual hash of image, for near-duplicate hits
    * @returns Promise resolving to cached Product or null
    */
-  private async checkCache(imageHash: string): Promise<Product | null> {
+  private async checkCache(imageHash: string, perceptualHash: string | null): Promise<Product | null> {
     try {
-      const cached = await cacheService.lookup(imageHash, 'imageHash');
+      const cached = await cacheService.lookup(imageHash, 'imageHash', perceptualHash ?? undefined);
       
       if (cached.hit && cached.entry) {
         console.log('[MultiImageOrchestrator] ✅ Found cached product:', cached.entry.productData?.name);
@@ -678,11 +684,12 @@ export class MultiImageOrchestrator {
             mimeType: imageData.mimeType || 'image/jpeg',
           });
           
-          // Look for barcode patterns in the extracted text
-          const barcodeMatch = extractedText.match(/\b\d{8,14}\b/); // Match 8-14 digit numbers (common barcode formats)
+          // Look for barcode patterns in the extracted text (8-14 digit numbers),
+          // skipping numbers that fail the GTIN check digit
+          const barcodeMatch = (extractedText.match(/\b\d{8,14}\b/g) || []).find(candidate => isValidGtin(candidate));
           
           if (barcodeMatch) {
-            barcodeValue = barcodeMatch[0];
+            barcodeValue = barcodeMatch;
             console.log('[MultiImageOrchestrator] ✅ Extracted barcode from image:', barcodeValue);
           } else {
             console.log('[MultiImageOrchestrator] ⚠️  No barcode pattern found in image');
@@ -720,6 +727,8 @@ export class MultiImageOrchestrator {
           size: scanResult.product.size || undefined,
           category: scanResult.product.category || undefined,
           imageUrl: scanResult.product.imageUrl || undefined,
+          confidence: scanResult.confidenceScore,
+          tier: scanResult.tier,
           metadata: {
             productId: scanResult.product.id, // CRITICAL: Include product ID so MultiImageOrchestrator can use it
           },
@@ -790,11 +799,26 @@ export class MultiImageOrchestrator {
           tier: 'premium',
         });
         
+        // Nutrition values are as reliable as the least confident core row
+        const facts = nutritionResult.nutritionalFacts;
+        const nutritionConfidence = Math.min(
+          facts.calories.confidence,
+          facts.totalFat.confidence,
+          facts.totalCarbohydrates.confidence,
+          facts.protein.confidence
+        );
+        
         // Convert NutritionScanResult to ImageAnalysisResult
         return {
           imageHash,
           timestamp,
           productName: nutritionResult.productName || undefined,
+          confidence: nutritionConfidence,
+          fieldConfidence: {
+            has_allergens: nutritionResult.ingredients.confidence,
+            allergen_types: nutritionResult.ingredients.confidence,
+            nova_group: nutritionResult.ingredients.confidence,
+          },
           nutritionData: {
             servingSize: nutritionResult.nutritionalFacts.servingSize,
             calories: nutritionResult.nutritionalFacts.calories.value,
@@ -811,9 +835,10 @@ export class MultiImageOrchestrator {
             lastUpdated: nutritionResult.timestamp.toISOString(),
           },
           healthScore: nutritionResult.healthScore.overall,
-          hasAllergens: nutritionResult.ingredients.ingredients.some(i => i.isAllergen),
-          allergenTypes: nutritionResult.ingredients.ingredients.filter(i => i.isAllergen).map(i => i.name),
+          hasAllergens: nutritionResult.ingredients.allergens.length > 0,
+          allergenTypes: nutritionResult.ingredients.allergens.map(i => i.name),
           ingredients: nutritionResult.ingredients.ingredients.map(i => i.name),
+          nova: nutritionResult.nova,
         };
       } catch (error) {
         console.error('[MultiImageOrchestrator] ❌ Nutrition analyzer failed:', error);
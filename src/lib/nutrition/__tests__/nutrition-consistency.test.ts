@@ -0,0 +1,151 @@
+/**
+ * Nutrition Consistency Tests
+ *
+ * Tests the energy, subtotal, %DV and per-container checks and how flags
+ * lower the confidence of suspect fields.
+ */
+
+import {
+  checkNutritionConsistency,
+  lowerSuspectConfidence,
+  suspectFields,
+} from '../nutrition-consistency';
+import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+
+const createFacts = (overrides: Partial<NutritionalFacts> = {}): NutritionalFacts => ({
+  servingSize: { amount: 28, unit: 'g', confidence: 0.95 },
+  servingsPerContainer: 10,
+  calories: { value: 150, confidence: 0.98 },
+  totalFat: { value: 8, confidence: 0.96, dailyValue: 10 },
+  saturatedFat: { value: 1, confidence: 0.94, dailyValue: 5 },
+  transFat: { value: 0, confidence: 0.92 },
+  cholesterol: { value: 0, confidence: 0.9, dailyValue: 0 },
+  sodium: { value: 170, confidence: 0.97, dailyValue: 7 },
+  totalCarbohydrates: { value: 15, confidence: 0.96, dailyValue: 5 },
+  dietaryFiber: { value: 3, confidence: 0.93, dailyValue: 11 },
+  totalSugars: { value: 1, confidence: 0.95 },
+  protein: { value: 6, confidence: 0.97 },
+  validationStatus: 'valid',
+  ...overrides,
+});
+
+describe('checkNutritionConsistency', () => {
+  it('passes a consistent label', () => {
+    expect(checkNutritionConsistency(createFacts())).toEqual([]);
+  });
+
+  it('flags calories that do not match the macros', () => {
+    const flags = checkNutritionConsistency(createFacts({ calories: { value: 450, confidence: 0.98 } }));
+
+    expect(flags).toEqual([
+      expect.objectContaining({
+        check: 'energy',
+        fields: ['calories', 'totalFat', 'totalCarbohydrates', 'protein'],
+      }),
+    ]);
+    expect(flags[0].message).toContain('Calorie calculation mismatch: calculated 156 cal vs stated 450 cal');
+  });
+
+  it('tolerates label rounding on low-calorie products and fiber counted at 2 kcal/g', () => {
+    const lowCalorie = createFacts({
+      calories: { value: 5, confidence: 0.98 },
+      totalFat: { value: 0, confidence: 0.96 },
+      saturatedFat: { value: 0, confidence: 0.94 },
+      totalCarbohydrates: { value: 2, confidence: 0.96 },
+      dietaryFiber: { value: 1, confidence: 0.93 },
+      protein: { value: 1, confidence: 0.97 },
+    });
+    const fiberAdjusted = createFacts({
+      calories: { value: 100, confidence: 0.98 },
+      totalFat: { value: 0, confidence: 0.96 },
+      saturatedFat: { value: 0, confidence: 0.94 },
+      totalCarbohydrates: { value: 40, confidence: 0.96 },
+      dietaryFiber: { value: 20, confidence: 0.93 },
+      protein: { value: 0, confidence: 0.97 },
+    });
+
+    expect(checkNutritionConsistency(lowCalorie).filter(flag => flag.check === 'energy')).toEqual([]);
+    expect(checkNutritionConsistency(fiberAdjusted).filter(flag => flag.check === 'energy')).toEqual([]);
+  });
+
+  it('flags subtotals greater than their totals', () => {
+    const flags = checkNutritionConsistency(createFacts({
+      saturatedFat: { value: 18, confidence: 0.94 },
+      totalSugars: { value: 14, confidence: 0.95 },
+      addedSugars: { value: 12, confidence: 0.9 },
+      totalCarbohydrates: { value: 15, confidence: 0.96 },
+      dietaryFiber: { value: 3, confidence: 0.93 },
+    }));
+
+    expect(flags.filter(flag => flag.check === 'subtotal').map(flag => flag.message)).toEqual([
+      'Saturated fat (18g) exceeds total fat (8g)',
+      'Sugars (14g) and fiber (3g) exceed total carbohydrates (15g)',
+    ]);
+
+    const added = checkNutritionConsistency(createFacts({ addedSugars: { value: 4, confidence: 0.9 } }));
+    expect(added).toEqual([
+      expect.objectContaining({ check: 'subtotal', fields: ['addedSugars', 'totalSugars'] }),
+    ]);
+  });
+
+  it('flags a %DV that does not match the amount', () => {
+    const flags = checkNutritionConsistency(createFacts({ sodium: { value: 770, confidence: 0.97, dailyValue: 7 } }));
+
+    expect(flags).toEqual([
+      {
+        check: 'daily_value',
+        fields: ['sodium'],
+        message: 'Sodium of 770mg is 33% of the daily value, but the label reads 7%',
+      },
+    ]);
+  });
+
+  it('flags vitamins and minerals outside 0-200% DV', () => {
+    const flags = checkNutritionConsistency(createFacts({ vitamins: { 'Vitamin D': { value: 250, confidence: 0.88 } } }));
+
+    expect(flags).toEqual([
+      expect.objectContaining({ fields: ['vitamins.Vitamin D'], message: 'Vitamin D percentage daily value out of range: 250%' }),
+    ]);
+  });
+
+  it('checks per-container calories against servings per container', () => {
+    expect(checkNutritionConsistency(createFacts({ containerCalories: { value: 1500, confidence: 0.9 } }))).toEqual([]);
+
+    const flags = checkNutritionConsistency(createFacts({
+      servingsPerContainer: 100,
+      containerCalories: { value: 1500, confidence: 0.9 },
+    }));
+    expect(flags).toEqual([
+      expect.objectContaining({ check: 'container', fields: ['servingsPerContainer', 'calories', 'containerCalories'] }),
+    ]);
+
+    expect(checkNutritionConsistency(createFacts({ servingsPerContainer: 0 }))[0]).toMatchObject({
+      check: 'container',
+      fields: ['servingsPerContainer'],
+    });
+  });
+});
+
+describe('lowerSuspectConfidence', () => {
+  it('lowers each flagged field once', () => {
+    const facts = createFacts({
+      calories: { value: 450, confidence: 1 },
+      saturatedFat: { value: 18, confidence: 0.9 },
+      vitamins: { 'Vitamin D': { value: 250, confidence: 0.8 }, Calcium: { value: 10, confidence: 0.8 } },
+    });
+    const flags = checkNutritionConsistency(facts);
+
+    const lowered = lowerSuspectConfidence(facts, flags);
+
+    expect(suspectFields(flags)).toEqual([
+      'calories', 'totalFat', 'totalCarbohydrates', 'protein', 'saturatedFat', 'vitamins.Vitamin D',
+    ]);
+    expect(lowered.calories.confidence).toBe(0.6);
+    expect(lowered.totalFat.confidence).toBe(0.58);
+    expect(lowered.saturatedFat.confidence).toBe(0.54);
+    expect(lowered.sodium.confidence).toBe(0.97);
+    expect(lowered.vitamins?.['Vitamin D'].confidence).toBe(0.48);
+    expect(lowered.vitamins?.Calcium.confidence).toBe(0.8);
+    expect(facts.calories.confidence).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Nutrition Units Tests
+ *
+ * Tests serving size conversion (metric, imperial, household measures with
+ * density hints) and per 100g / per container normalization.
+ */
+
+import { normalizeNutritionalFacts, toMetricServing } from '../nutrition-units';
+import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+
+const createFacts = (servingSize: { amount: number; unit: string }, servingsPerContainer?: number): NutritionalFacts => ({
+  servingSize: { ...servingSize, confidence: 0.9 },
+  servingsPerContainer,
+  calories: { value: 120, confidence: 0.9 },
+  totalFat: { value: 4.5, confidence: 0.9 },
+  saturatedFat: { value: 1, confidence: 0.9 },
+  transFat: { value: 0, confidence: 0.9 },
+  cholesterol: { value: 0, confidence: 0.9 },
+  sodium: { value: 190, confidence: 0.9 },
+  totalCarbohydrates: { value: 18, confidence: 0.9 },
+  dietaryFiber: { value: 3, confidence: 0.9 },
+  totalSugars: { value: 6, confidence: 0.9 },
+  protein: { value: 3, confidence: 0.7 },
+  minerals: { Iron: { value: 10, confidence: 0.9 } },
+  validationStatus: 'valid',
+});
+
+describe('toMetricServing', () => {
+  it('converts mass and volume units and their spellings', () => {
+    expect(toMetricServing({ amount: 30, unit: 'grams' })).toEqual({ amount: 30, unit: 'g', estimated: false });
+    expect(toMetricServing({ amount: 1, unit: 'oz' })).toEqual({ amount: 28.3495, unit: 'g', estimated: false });
+    expect(toMetricServing({ amount: 8, unit: 'fl. oz' })?.amount).toBeCloseTo(236.6, 1);
+    expect(toMetricServing({ amount: 0.5, unit: 'L' })).toEqual({ amount: 500, unit: 'ml', estimated: false });
+  });
+
+  it('uses the metric equivalent printed with a household measure', () => {
+    expect(toMetricServing({ amount: 1, unit: 'cup (55g)' })).toEqual({ amount: 55, unit: 'g', estimated: false });
+    expect(toMetricServing({ amount: 2, unit: 'tbsp (30 ml)' })).toEqual({ amount: 30, unit: 'ml', estimated: false });
+  });
+
+  it('converts household measures of solid foods with a density hint', () => {
+    expect(toMetricServing({ amount: 2, unit: 'tbsp' })).toEqual({ amount: 30, unit: 'ml', estimated: false });
+    expect(toMetricServing({ amount: 2, unit: 'tablespoons' }, 'Creamy Peanut Butter')).toEqual({
+      amount: 28.8,
+      unit: 'g',
+      estimated: true,
+    });
+    expect(toMetricServing({ amount: 1, unit: 'cup' }, 'Whole Milk')).toEqual({ amount: 240, unit: 'ml', estimated: false });
+  });
+
+  it('returns null for units without a weight or volume', () => {
+    expect(toMetricServing({ amount: 1, unit: 'bar' })).toBeNull();
+    expect(toMetricServing({ amount: 0, unit: 'g' })).toBeNull();
+  });
+});
+
+describe('normalizeNutritionalFacts', () => {
+  it('scales every nutrient to 100g', () => {
+    const result = normalizeNutritionalFacts(createFacts({ amount: 40, unit: 'g' }), 'per100');
+
+    expect(result?.label).toBe('per 100g');
+    expect(result?.facts.servingSize).toEqual({ amount: 100, unit: 'g', confidence: 0.9 });
+    expect(result?.facts.calories.value).toBe(300);
+    expect(result?.facts.totalFat.value).toBe(11.3);
+    expect(result?.facts.sodium.value).toBe(475);
+    expect(result?.facts.protein).toEqual({ value: 7.5, confidence: 0.7 });
+    expect(result?.facts.minerals?.Iron.value).toBe(25);
+  });
+
+  it('scales to the whole container', () => {
+    const result = normalizeNutritionalFacts(createFacts({ amount: 1, unit: 'cup (240ml)' }, 4), 'container');
+
+    expect(result?.label).toBe('per container (4 servings)');
+    expect(result?.facts.servingSize).toMatchObject({ amount: 960, unit: 'ml' });
+    expect(result?.facts.calories.value).toBe(480);
+  });
+
+  it('reports unavailable bases', () => {
+    expect(normalizeNutritionalFacts(createFacts({ amount: 1, unit: 'bar' }), 'per100')).toBeNull();
+    expect(normalizeNutritionalFacts(createFacts({ amount: 30, unit: 'g' }), 'container')).toBeNull();
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Nutrition Label Consistency Checks
+ *
+ * Cross-checks the values read from a nutrition label for arithmetic that a
+ * correct label always satisfies, to catch OCR misreads that are plausible
+ * on their own ("150" read as "450", a dropped decimal point):
+ * - energy: stated calories versus 4/4/9 Atwater factors from the macros
+ * - subtotal: saturated + trans fat ≤ total fat, sugars + fiber ≤
+ *   carbohydrates, added sugars ≤ total sugars
+ * - daily_value: printed %DV versus the absolute amount and FDA daily values
+ * - container: servings per container versus per-container calories
+ *
+ * Each failed check flags the fields involved; NutritionParser lowers their
+ * confidence and re-extracts just those fields.
+ */
+
+import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+
+/**
+ * Consistency check that raised a flag
+ */
+export type ConsistencyCheck = 'energy' | 'subtotal' | 'daily_value' | 'container';
+
+/**
+ * Nutrition fact a flag can point at ("vitamins.Vitamin D" for a vitamin)
+ */
+export type SuspectField =
+  | Exclude<keyof NutritionalFacts, 'validationStatus' | 'validationErrors' | 'suspicionFlags' | 'vitamins' | 'minerals'>
+  | `vitamins.${string}`
+  | `minerals.${string}`;
+
+/**
+ * Failed consistency check and the fields that may have been misread
+ */
+export interface SuspicionFlag {
+  check: ConsistencyCheck;
+  fields: SuspectField[];
+  message: string;
+}
+
+/**
+ * Nutrients with a %DV on US labels and their daily values
+ * (FDA 2016 reference values for adults and children 4+)
+ */
+export const DAILY_VALUES = {
+  totalFat: { label: 'Total fat', amount: 78, unit: 'g' },
+  saturatedFat: { label: 'Saturated fat', amount: 20, unit: 'g' },
+  cholesterol: { label: 'Cholesterol', amount: 300, unit: 'mg' },
+  sodium: { label: 'Sodium', amount: 2300, unit: 'mg' },
+  totalCarbohydrates: { label: 'Total carbohydrates', amount: 275, unit: 'g' },
+  dietaryFiber: { label: 'Dietary fiber', amount: 28, unit: 'g' },
+  addedSugars: { label: 'Added sugars', amount: 50, unit: 'g' },
+  protein: { label: 'Protein', amount: 50, unit: 'g' },
+} as const;
+
+type DailyValueField = keyof typeof DAILY_VALUES;
+
+/**
+ * Stated calories may differ from the macro math by this fraction
+ */
+export const ENERGY_TOLERANCE = 0.2;
+
+/**
+ * ...or by this many calories (labels round calories to 5 or 10)
+ */
+const ENERGY_TOLERANCE_KCAL = 10;
+
+/**
+ * Grams a subtotal may exceed its total by (labels round to 0.5g or 1g)
+ */
+const SUBTOTAL_TOLERANCE_G = 0.5;
+const CARBOHYDRATE_TOLERANCE_G = 1;
+
+/**
+ * Percentage points a %DV may differ from the computed one by
+ * (the label computes it from the unrounded amount)
+ */
+const DAILY_VALUE_TOLERANCE = 2;
+
+/**
+ * Confidence of a flagged field is multiplied by this factor
+ */
+export const SUSPECT_CONFIDENCE_FACTOR = 0.6;
+
+function checkEnergy(facts: NutritionalFacts): SuspicionFlag | null {
+  const carbs = facts.totalCarbohydrates.value;
+  const fat = facts.totalFat.value;
+  const protein = facts.protein.value;
+  const stated = facts.calories.value;
+
+  // US labels count fiber as carbohydrate; EU-style labels count it at 2 kcal/g
+  const calculated = carbs * 4 + protein * 4 + fat * 9;
+  const fiberAdjusted = calculated - facts.dietaryFiber.value * 2;
+
+  const difference = Math.min(Math.abs(calculated - stated), Math.abs(fiberAdjusted - stated));
+  const percentDiff = stated > 0 ? difference / stated : 0;
+  if (difference <= ENERGY_TOLERANCE_KCAL || percentDiff <= ENERGY_TOLERANCE) {
+    return null;
+  }
+
+  return {
+    check: 'energy',
+    fields: ['calories', 'totalFat', 'totalCarbohydrates', 'protein'],
+    message:
+      `Calorie calculation mismatch: calculated ${Math.round(calculated)} cal ` +
+      `vs stated ${stated} cal (${Math.round(Math.abs(calculated - stated) / Math.max(stated, 1) * 100)}% difference)`,
+  };
+}
+
+function checkSubtotals(facts: NutritionalFacts): SuspicionFlag[] {
+  const flags: SuspicionFlag[] = [];
+
+  const fats = facts.saturatedFat.value + facts.transFat.value;
+  if (fats > facts.totalFat.value + SUBTOTAL_TOLERANCE_G) {
+    flags.push({
+      check: 'subtotal',
+      fields: facts.transFat.value > 0 ? ['saturatedFat', 'transFat', 'totalFat'] : ['saturatedFat', 'totalFat'],
+      message: facts.transFat.value > 0
+        ? `Saturated fat (${facts.saturatedFat.value}g) and trans fat (${facts.transFat.value}g) exceed total fat (${facts.totalFat.value}g)`
+        : `Saturated fat (${facts.saturatedFat.value}g) exceeds total fat (${facts.totalFat.value}g)`,
+    });
+  }
+
+  const carbParts = facts.totalSugars.value + facts.dietaryFiber.value;
+  if (carbParts > facts.totalCarbohydrates.value + CARBOHYDRATE_TOLERANCE_G) {
+    flags.push({
+      check: 'subtotal',
+      fields: ['totalSugars', 'dietaryFiber', 'totalCarbohydrates'],
+      message:
+        `Sugars (${facts.totalSugars.value}g) and fiber (${facts.dietaryFiber.value}g) ` +
+        `exceed total carbohydrates (${facts.totalCarbohydrates.value}g)`,
+    });
+  }
+
+  if (facts.addedSugars && facts.addedSugars.value > facts.totalSugars.value + SUBTOTAL_TOLERANCE_G) {
+    flags.push({
+      check: 'subtotal',
+      fields: ['addedSugars', 'totalSugars'],
+      message: `Added sugars (${facts.addedSugars.value}g) exceed total sugars (${facts.totalSugars.value}g)`,
+    });
+  }
+
+  return flags;
+}
+
+function checkDailyValues(facts: NutritionalFacts): SuspicionFlag[] {
+  const flags: SuspicionFlag[] = [];
+
+  for (const field of Object.keys(DAILY_VALUES) as DailyValueField[]) {
+    const nutrient = facts[field];
+    if (nutrient?.dailyValue === undefined) continue;
+
+    const { label, amount, unit } = DAILY_VALUES[field];
+    const expected = (nutrient.value / amount) * 100;
+    if (Math.abs(expected - nutrient.dailyValue) > Math.max(DAILY_VALUE_TOLERANCE, nutrient.dailyValue * 0.2)) {
+      flags.push({
+        check: 'daily_value',
+        fields: [field],
+        message:
+          `${label} of ${nutrient.value}${unit} is ${Math.round(expected)}% of the daily value, ` +
+          `but the label reads ${nutrient.dailyValue}%`,
+      });
+    }
+  }
+
+  // Vitamins and minerals are only extracted as %DV (Requirement 10.3)
+  for (const kind of ['vitamins', 'minerals'] as const) {
+    for (const [name, data] of Object.entries(facts[kind] || {})) {
+      if (data.value < 0 || data.value > 200) {
+        flags.push({
+          check: 'daily_value',
+          fields: [`${kind}.${name}`],
+          message: `${name} percentage daily value out of range: ${data.value}%`,
+        });
+      }
+    }
+  }
+
+  return flags;
+}
+
+function checkContainer(facts: NutritionalFacts): SuspicionFlag | null {
+  const servings = facts.servingsPerContainer;
+  if (servings === undefined) {
+    return null;
+  }
+
+  if (!(servings > 0) || servings > 1000) {
+    return {
+      check: 'container',
+      fields: ['servingsPerContainer'],
+      message: `Implausible servings per container: ${servings}`,
+    };
+  }
+
+  if (facts.containerCalories) {
+    const expected = facts.calories.value * servings;
+    const stated = facts.containerCalories.value;
+    const difference = Math.abs(expected - stated);
+    if (difference > ENERGY_TOLERANCE_KCAL && difference > Math.max(expected, stated) * 0.1) {
+      return {
+        check: 'container',
+        fields: ['servingsPerContainer', 'calories', 'containerCalories'],
+        message:
+          `${servings} servings of ${facts.calories.value} cal is ${Math.round(expected)} cal, ` +
+          `but the label reads ${stated} cal per container`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run all consistency checks on extracted nutrition facts
+ *
+ * @param facts - Nutrition facts per serving, as extracted
+ * @returns Flags for failed checks (empty when the label is consistent)
+ */
+export function checkNutritionConsistency(facts: NutritionalFacts): SuspicionFlag[] {
+  const flags: SuspicionFlag[] = [];
+
+  const energy = checkEnergy(facts);
+  if (energy) flags.push(energy);
+
+  flags.push(...checkSubtotals(facts));
+  flags.push(...checkDailyValues(facts));
+
+  const container = checkContainer(facts);
+  if (container) flags.push(container);
+
+  return flags;
+}
+
+/**
+ * Distinct fields flagged by a set of checks
+ */
+export function suspectFields(flags: SuspicionFlag[]): SuspectField[] {
+  return [...new Set(flags.flatMap(flag => flag.fields))];
+}
+
+/**
+ * Lower the confidence of flagged fields
+ *
+ * @returns Copy of the facts with each flagged field's confidence multiplied
+ *   by SUSPECT_CONFIDENCE_FACTOR (once, however many checks flag it)
+ */
+export function lowerSuspectConfidence(facts: NutritionalFacts, flags: SuspicionFlag[]): NutritionalFacts {
+  const lowered: NutritionalFacts = {
+    ...facts,
+    vitamins: facts.vitamins && { ...facts.vitamins },
+    minerals: facts.minerals && { ...facts.minerals },
+  };
+  const lower = <T extends { confidence: number }>(value: T): T => ({
+    ...value,
+    confidence: Math.round(value.confidence * SUSPECT_CONFIDENCE_FACTOR * 100) / 100,
+  });
+
+  for (const field of suspectFields(flags)) {
+    const dot = field.indexOf('.');
+    const kind = dot > 0 ? field.slice(0, dot) : field;
+    const name = field.slice(dot + 1);
+    if (kind === 'vitamins' || kind === 'minerals') {
+      const record = lowered[kind];
+      if (record?.[name]) record[name] = lower(record[name]);
+      continue;
+    }
+
+    const key = field as Exclude<SuspectField, `vitamins.${string}` | `minerals.${string}`>;
+    const value = lowered[key];
+    if (value && typeof value === 'object') {
+      (lowered as unknown as Record<string, unknown>)[key] = lower(value);
+    }
+  }
+
+  return lowered;
+}
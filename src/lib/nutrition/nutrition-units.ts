@@ -0,0 +1,257 @@
+/**
+ * Nutrition Units
+ *
+ * Converts the free-form serving sizes read from nutrition labels ("30 g",
+ * "1 cup (240ml)", "2 tbsp", "8 fl oz") to grams or milliliters, and scales
+ * nutrition facts to other bases:
+ * - per 100g / 100ml, for comparing products with different serving sizes
+ * - per container, using servingsPerContainer
+ *
+ * Household measures (cup, tbsp, tsp) are volumes; a density hint (product
+ * name, category or first ingredient) converts them to grams for solid foods.
+ */
+
+import type { NutritionalFacts } from '@/lib/services/nutrition-parser';
+
+export type MetricUnit = 'g' | 'ml';
+
+/**
+ * Basis nutrition facts are expressed on
+ */
+export type NutritionBasis = 'serving' | 'per100' | 'container';
+
+/**
+ * Serving size in grams or milliliters
+ */
+export interface MetricServing {
+  amount: number;
+  unit: MetricUnit;
+  estimated: boolean; // true when converted with an assumed density
+}
+
+/**
+ * Nutrition facts expressed on a basis
+ */
+export interface NormalizedNutrition {
+  basis: NutritionBasis;
+  label: string; // e.g. "per 100g", "per container (8 servings)"
+  facts: NutritionalFacts;
+  estimated: boolean;
+}
+
+/**
+ * Units by grams (mass) or milliliters (volume) per unit
+ */
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  mg: 0.001,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  'fl oz': 29.5735,
+  cup: 240, // US nutrition labelling cup
+  tbsp: 15,
+  tsp: 5,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gr: 'g', grs: 'g',
+  milligram: 'mg', milligrams: 'mg',
+  kilogram: 'kg', kilograms: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  'fl. oz': 'fl oz', floz: 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  cups: 'cup',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  teaspoon: 'tsp', teaspoons: 'tsp',
+};
+
+/**
+ * Densities (g/ml) by food; liquids are reported per 100ml rather than
+ * converted to grams
+ */
+const DENSITY_HINTS: Array<{ pattern: RegExp; density: number; liquid: boolean }> = [
+  { pattern: /\b(?:water|milk|juice|soda|soft drink|drink|beverage|tea|coffee|broth|stock|kombucha)\b/i, density: 1.03, liquid: true },
+  { pattern: /\b(?:oil)s?\b/i, density: 0.92, liquid: true },
+  { pattern: /\bhoney\b/i, density: 1.42, liquid: false },
+  { pattern: /\b(?:syrup|molasses)\b/i, density: 1.33, liquid: false },
+  { pattern: /\b(?:yogh?urt|cream|soup|sauce|dressing)\b/i, density: 1.03, liquid: false },
+  { pattern: /\b(?:peanut butter|nut butter|butter|margarine|spread)\b/i, density: 0.96, liquid: false },
+  { pattern: /\bice cream\b/i, density: 0.55, liquid: false },
+  { pattern: /\b(?:sugar)\b/i, density: 0.85, liquid: false },
+  { pattern: /\b(?:rice|lentils?|beans?)\b/i, density: 0.85, liquid: false },
+  { pattern: /\b(?:flour|cocoa)\b/i, density: 0.53, liquid: false },
+  { pattern: /\b(?:nuts?|almonds?|peanuts?|seeds?|trail mix)\b/i, density: 0.6, liquid: false },
+  { pattern: /\b(?:granola|muesli)\b/i, density: 0.45, liquid: false },
+  { pattern: /\b(?:oats?|oatmeal|porridge)\b/i, density: 0.41, liquid: false },
+  { pattern: /\b(?:cereal|flakes|puffs|crisps|chips|popcorn)\b/i, density: 0.15, liquid: false },
+];
+
+/**
+ * Metric equivalent printed next to a household measure, e.g. "cup (240ml)"
+ */
+const METRIC_EQUIVALENT = /\(\s*(?:about\s+|approx\.?\s+)?(\d+(?:[.,]\d+)?)\s*(mg|g|kg|ml|cl|l)\s*\)/i;
+
+function normalizeUnit(unit: string): string {
+  const cleaned = unit.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+  return UNIT_ALIASES[cleaned] || cleaned;
+}
+
+function toMetric(amount: number, unit: string): { amount: number; unit: MetricUnit } | undefined {
+  if (unit in MASS_UNITS) {
+    return { amount: amount * MASS_UNITS[unit], unit: 'g' };
+  }
+  if (unit in VOLUME_UNITS) {
+    return { amount: amount * VOLUME_UNITS[unit], unit: 'ml' };
+  }
+  return undefined;
+}
+
+/**
+ * Density for a food, if the hint names one
+ *
+ * @param hint - Product name, category or first ingredient
+ */
+export function densityFor(hint?: string): { density: number; liquid: boolean } | undefined {
+  if (!hint) return undefined;
+  const match = DENSITY_HINTS.find(({ pattern }) => pattern.test(hint));
+  return match && { density: match.density, liquid: match.liquid };
+}
+
+/**
+ * Convert a label serving size to grams or milliliters
+ *
+ * @param servingSize - Serving size as extracted (amount and free-form unit)
+ * @param densityHint - Product name, category or first ingredient, to convert household measures of solid foods to grams
+ * @returns Metric serving, or null when the unit has no weight or volume ("1 bar" without a gram equivalent)
+ */
+export function toMetricServing(
+  servingSize: { amount: number; unit: string },
+  densityHint?: string
+): MetricServing | null {
+  // A printed metric equivalent wins over the household measure
+  const equivalent = servingSize.unit.match(METRIC_EQUIVALENT);
+  if (equivalent) {
+    const metric = toMetric(parseFloat(equivalent[1].replace(',', '.')), equivalent[2].toLowerCase());
+    return metric && metric.amount > 0 ? { ...metric, estimated: false } : null;
+  }
+
+  if (!(servingSize.amount > 0)) {
+    return null;
+  }
+
+  const metric = toMetric(servingSize.amount, normalizeUnit(servingSize.unit));
+  if (!metric) {
+    return null;
+  }
+
+  const density = densityFor(densityHint);
+  if (metric.unit === 'ml' && density && !density.liquid) {
+    return { amount: roundNutrient(metric.amount * density.density), unit: 'g', estimated: true };
+  }
+  return { ...metric, estimated: false };
+}
+
+/**
+ * Round a nutrient value for display and comparison
+ */
+export function roundNutrient(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Multiply every nutrient by a factor (confidence is kept)
+ */
+function scaleFacts(
+  facts: NutritionalFacts,
+  factor: number,
+  servingSize: NutritionalFacts['servingSize']
+): NutritionalFacts {
+  const scale = <T extends { value: number; confidence: number }>(nutrient: T): T => ({
+    ...nutrient,
+    value: roundNutrient(nutrient.value * factor),
+  });
+  const scaleAll = (values?: Record<string, { value: number; confidence: number }>) =>
+    values && Object.fromEntries(Object.entries(values).map(([name, nutrient]) => [name, scale(nutrient)]));
+
+  return {
+    ...facts,
+    servingSize,
+    calories: { ...facts.calories, value: Math.round(facts.calories.value * factor) },
+    totalFat: scale(facts.totalFat),
+    saturatedFat: scale(facts.saturatedFat),
+    transFat: scale(facts.transFat),
+    cholesterol: scale(facts.cholesterol),
+    sodium: { ...facts.sodium, value: Math.round(facts.sodium.value * factor) },
+    totalCarbohydrates: scale(facts.totalCarbohydrates),
+    dietaryFiber: scale(facts.dietaryFiber),
+    totalSugars: scale(facts.totalSugars),
+    addedSugars: facts.addedSugars && scale(facts.addedSugars),
+    protein: scale(facts.protein),
+    vitamins: scaleAll(facts.vitamins),
+    minerals: scaleAll(facts.minerals),
+  };
+}
+
+/**
+ * Express nutrition facts per serving, per 100g/100ml or per container
+ *
+ * @param facts - Nutrition facts per serving, as extracted
+ * @param basis - Target basis
+ * @param densityHint - Product name, category or first ingredient (see toMetricServing)
+ * @returns Scaled facts, or null when the basis is unavailable (no metric
+ *   serving size for per 100, no servings per container for per container)
+ */
+export function normalizeNutritionalFacts(
+  facts: NutritionalFacts,
+  basis: NutritionBasis,
+  densityHint?: string
+): NormalizedNutrition | null {
+  const serving = toMetricServing(facts.servingSize, densityHint);
+
+  switch (basis) {
+    case 'serving':
+      return {
+        basis,
+        label: `per serving (${facts.servingSize.amount} ${facts.servingSize.unit})`,
+        facts,
+        estimated: false,
+      };
+
+    case 'per100': {
+      if (!serving) return null;
+      return {
+        basis,
+        label: `per 100${serving.unit}`,
+        facts: scaleFacts(facts, 100 / serving.amount, {
+          amount: 100,
+          unit: serving.unit,
+          confidence: facts.servingSize.confidence,
+        }),
+        estimated: serving.estimated,
+      };
+    }
+
+    case 'container': {
+      const servings = facts.servingsPerContainer;
+      if (!servings || servings <= 0) return null;
+      return {
+        basis,
+        label: `per container (${servings} servings)`,
+        facts: scaleFacts(facts, servings, serving
+          ? { amount: roundNutrient(serving.amount * servings), unit: serving.unit, confidence: facts.servingSize.confidence }
+          : { ...facts.servingSize, amount: roundNutrient(facts.servingSize.amount * servings) }),
+        estimated: false,
+      };
+    }
+  }
+}
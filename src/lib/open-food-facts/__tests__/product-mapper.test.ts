@@ -0,0 +1,129 @@
+/**
+ * Tests for Open Food Facts record mapping and dump parsing
+ */
+
+import { detectDumpFormat, parseDelimitedLine, parseJsonLine } from '../dump-reader';
+import { mapNutritionFacts, mapOpenFoodFactsProduct, splitIngredients } from '../product-mapper';
+
+describe('Open Food Facts', () => {
+  describe('mapOpenFoodFactsProduct', () => {
+    it('should map a JSONL record', () => {
+      const result = mapOpenFoodFactsProduct({
+        code: '3017620422003',
+        product_name: 'Nutella',
+        brands: 'Ferrero, Nutella',
+        quantity: '400 g',
+        categories: 'Spreads, Sweet spreads, Hazelnut spreads',
+        ingredients_text: 'Sugar, palm oil, _hazelnuts_ 13%, skimmed _milk_ powder 8.7%, emulsifier (lecithins (_soya_)), vanillin.',
+        image_front_url: 'https://images.openfoodfacts.org/nutella.jpg',
+        nutriments: {
+          'energy-kcal_100g': 539,
+          'fat_100g': 30.9,
+          'sodium_100g': 0.0428,
+          'proteins_100g': 6.3,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      expect(result.row).toMatchObject({
+        barcode: '03017620422003',
+        name: 'Nutella',
+        brand: 'Ferrero',
+        size: '400 g',
+        category: 'Hazelnut spreads',
+        image_url: 'https://images.openfoodfacts.org/nutella.jpg',
+        ingredients: ['Sugar', 'palm oil', 'hazelnuts 13%', 'skimmed milk powder 8.7%', 'emulsifier (lecithins (soya))', 'vanillin'],
+        nutrition_facts: {
+          serving_size: '100 g',
+          calories_per_serving: 539,
+          macros: {
+            total_fat: { value: 30.9, unit: 'g' },
+            sodium: { value: 42.8, unit: 'mg' },
+            protein: { value: 6.3, unit: 'g' },
+          },
+        },
+        metadata: {
+          source: 'open_food_facts',
+          off_code: '3017620422003',
+          categories: ['Spreads', 'Sweet spreads', 'Hazelnut spreads'],
+        },
+      });
+    });
+
+    it('should read flattened CSV nutriments and prefer per-serving values', () => {
+      const facts = mapNutritionFacts({
+        serving_size: '30 g',
+        'energy_serving': '502',
+        'sugars_serving': '3.3',
+        'calcium_serving': '0.12',
+        'sugars_100g': '11',
+      });
+
+      expect(facts).toEqual({
+        serving_size: '30 g',
+        servings_per_container: null,
+        calories_per_serving: 120,
+        macros: { total_sugars: { value: 3.3, unit: 'g' } },
+        vitamins_minerals: { calcium: { value: 120, unit: 'mg' } },
+        notes: 'Open Food Facts, per serving',
+      });
+    });
+
+    it('should return no nutrition facts without nutriments', () => {
+      expect(mapNutritionFacts({ code: '3017620422003' })).toBeNull();
+    });
+
+    it('should skip records without a valid barcode or name', () => {
+      expect(mapOpenFoodFactsProduct({ code: '3017620422004', product_name: 'Nutella' }))
+        .toEqual({ ok: false, reason: 'invalid_barcode' });
+      expect(mapOpenFoodFactsProduct({ code: '3017620422003', product_name: ' ' }))
+        .toEqual({ ok: false, reason: 'missing_name' });
+    });
+
+    it('should default the brand and drop untranslated categories', () => {
+      const result = mapOpenFoodFactsProduct({
+        code: '96385074',
+        product_name_en: 'Oat bar',
+        categories: 'Snacks, fr:barres-de-cereales',
+      });
+
+      expect(result.ok && result.row).toMatchObject({
+        barcode: '00000096385074',
+        brand: 'Unknown Brand',
+        category: 'Snacks',
+        ingredients: null,
+        nutrition_facts: null,
+      });
+    });
+  });
+
+  describe('splitIngredients', () => {
+    it('should keep sub-ingredients with their parent', () => {
+      expect(splitIngredients('Ingredients: Chocolate [sugar, cocoa; vanilla]; salt, ')).toEqual([
+        'Chocolate [sugar, cocoa; vanilla]',
+        'salt',
+      ]);
+    });
+  });
+
+  describe('dump parsing', () => {
+    it('should split quoted CSV fields', () => {
+      expect(parseDelimitedLine('123,"Oats, rolled","Say ""hi""",', ',')).toEqual(['123', 'Oats, rolled', 'Say "hi"', '']);
+      expect(parseDelimitedLine('123\tOats\t', '\t')).toEqual(['123', 'Oats', '']);
+    });
+
+    it('should parse JSON objects only', () => {
+      expect(parseJsonLine('{"code":"1"}')).toEqual({ code: '1' });
+      expect(parseJsonLine('[1]')).toBeNull();
+      expect(parseJsonLine('{"code":')).toBeNull();
+    });
+
+    it('should detect the dump format', () => {
+      expect(detectDumpFormat('products.jsonl.gz')).toBe('jsonl');
+      expect(detectDumpFormat('en.openfoodfacts.org.products.CSV')).toBe('csv');
+      expect(() => detectDumpFormat('products.xml')).toThrow('Unsupported dump file');
+    });
+  });
+});
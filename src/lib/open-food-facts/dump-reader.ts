@@ -0,0 +1,151 @@
+/**
+ * Open Food Facts Dump Reader
+ *
+ * Streams records from an Open Food Facts export without loading it into
+ * memory. Supported files (optionally gzip compressed, `.gz`):
+ * - JSONL (`.jsonl`, `.json`): one product object per line
+ * - CSV (`.csv`, `.tsv`): header row, tab separated as published by
+ *   Open Food Facts, or comma separated with double-quoted fields
+ *
+ * Malformed lines are skipped and counted.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { createGunzip } from 'zlib';
+import type { OpenFoodFactsRecord } from './product-mapper';
+
+export type DumpFormat = 'jsonl' | 'csv';
+
+/**
+ * Counters updated while reading
+ */
+export interface DumpReadStats {
+  lines: number;
+  malformed: number;
+}
+
+/**
+ * Detect the dump format from the file name
+ */
+export function detectDumpFormat(path: string): DumpFormat {
+  const name = path.toLowerCase().replace(/\.gz$/, '');
+  if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+    return 'csv';
+  }
+  if (name.endsWith('.jsonl') || name.endsWith('.json')) {
+    return 'jsonl';
+  }
+  throw new Error(`Unsupported dump file "${path}" (expected .jsonl, .json, .csv or .tsv, optionally .gz)`);
+}
+
+/**
+ * Split a delimited line into fields
+ *
+ * Double-quoted fields may contain the delimiter; `""` is a literal quote.
+ * Fields spanning several lines are not supported.
+ */
+export function parseDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parse one JSONL line
+ *
+ * @returns Record, or null if the line is not a JSON object
+ */
+export function parseJsonLine(line: string): OpenFoodFactsRecord | null {
+  try {
+    const value = JSON.parse(line);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as OpenFoodFactsRecord : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read records from a dump file
+ *
+ * @param path - Dump file
+ * @param stats - Counters to update (optional)
+ */
+export async function* readOpenFoodFactsDump(
+  path: string,
+  stats: DumpReadStats = { lines: 0, malformed: 0 }
+): AsyncGenerator<OpenFoodFactsRecord> {
+  const format = detectDumpFormat(path);
+  const fileStream = createReadStream(path);
+  const input = path.toLowerCase().endsWith('.gz') ? fileStream.pipe(createGunzip()) : fileStream;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let delimiter = '\t';
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      if (format === 'jsonl') {
+        stats.lines++;
+        const record = parseJsonLine(line);
+        if (record) {
+          yield record;
+        } else {
+          stats.malformed++;
+        }
+        continue;
+      }
+
+      if (!header) {
+        delimiter = line.includes('\t') ? '\t' : ',';
+        header = parseDelimitedLine(line, delimiter);
+        continue;
+      }
+
+      stats.lines++;
+      const fields = parseDelimitedLine(line, delimiter);
+      if (fields.length !== header.length) {
+        stats.malformed++;
+        continue;
+      }
+
+      const record: OpenFoodFactsRecord = {};
+      header.forEach((column, index) => {
+        if (fields[index] !== '') {
+          record[column] = fields[index];
+        }
+      });
+      yield record;
+    }
+  } finally {
+    lines.close();
+    fileStream.destroy();
+  }
+}
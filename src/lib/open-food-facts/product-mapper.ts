@@ -0,0 +1,245 @@
+/**
+ * Open Food Facts Product Mapping
+ *
+ * Maps Open Food Facts records (JSONL export or flattened CSV export) to
+ * rows of the products table:
+ * - product_name, brands, quantity, categories → name, brand, size, category
+ * - ingredients_text → ingredients (top-level list, sub-ingredients kept in parentheses)
+ * - nutriments → nutrition_facts, in the shape produced by NUTRITION_EXTRACTION_PROMPT
+ *
+ * Open Food Facts reports nutriments in grams; cholesterol, sodium and
+ * minerals are converted to mg and vitamin D to mcg to match label values.
+ */
+
+import type { ProductInsert } from '../supabase/types';
+import type { NutrientValue, NutritionSection } from '../prompts/response-schemas';
+import { normalizeGtin } from '../barcode/gtin';
+
+/**
+ * Record from an Open Food Facts dump
+ *
+ * JSONL records carry nutriments in a nested object; the CSV export flattens
+ * them into columns such as `energy-kcal_100g`. Both are read.
+ */
+export interface OpenFoodFactsRecord {
+  code?: string;
+  product_name?: string;
+  product_name_en?: string;
+  brands?: string;
+  quantity?: string;
+  categories?: string;
+  ingredients_text?: string;
+  ingredients_text_en?: string;
+  serving_size?: string;
+  image_url?: string;
+  image_front_url?: string;
+  nutriments?: Record<string, number | string | undefined>;
+  [key: string]: unknown;
+}
+
+/**
+ * Products table row for an imported record
+ */
+export interface OpenFoodFactsProductRow extends ProductInsert {
+  barcode: string;
+  ingredients: string[] | null;
+  nutrition_facts: NutritionSection | null;
+}
+
+/**
+ * Why a record was not mapped
+ */
+export type OpenFoodFactsSkipReason = 'invalid_barcode' | 'missing_name';
+
+export type OpenFoodFactsMapResult =
+  | { ok: true; row: OpenFoodFactsProductRow }
+  | { ok: false; reason: OpenFoodFactsSkipReason };
+
+/**
+ * Column limits of the products table
+ */
+const MAX_NAME_LENGTH = 255;
+const MAX_SIZE_LENGTH = 100;
+const MAX_CATEGORY_LENGTH = 100;
+
+/**
+ * Nutrition facts rows: [nutrition_facts key, Open Food Facts nutriment, unit, factor from grams]
+ */
+const MACROS: Array<[string, string, string, number]> = [
+  ['total_fat', 'fat', 'g', 1],
+  ['saturated_fat', 'saturated-fat', 'g', 1],
+  ['trans_fat', 'trans-fat', 'g', 1],
+  ['cholesterol', 'cholesterol', 'mg', 1000],
+  ['sodium', 'sodium', 'mg', 1000],
+  ['total_carbohydrate', 'carbohydrates', 'g', 1],
+  ['dietary_fiber', 'fiber', 'g', 1],
+  ['total_sugars', 'sugars', 'g', 1],
+  ['added_sugars', 'added-sugars', 'g', 1],
+  ['protein', 'proteins', 'g', 1],
+];
+
+const VITAMINS_MINERALS: Array<[string, string, string, number]> = [
+  ['vitamin_d', 'vitamin-d', 'mcg', 1_000_000],
+  ['calcium', 'calcium', 'mg', 1000],
+  ['iron', 'iron', 'mg', 1000],
+  ['potassium', 'potassium', 'mg', 1000],
+];
+
+const KJ_PER_KCAL = 4.184;
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split a comma separated Open Food Facts list ("Cereals, Breakfast cereals")
+ */
+function splitList(value: unknown): string[] {
+  return (text(value) || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0 && !/^[a-z]{2}:/.test(item)); // Drop untranslated tags ("fr:...")
+}
+
+/**
+ * Split an ingredient list at top-level commas and semicolons
+ *
+ * Sub-ingredients stay with their parent: "Chocolate (sugar, cocoa), salt"
+ * gives ["Chocolate (sugar, cocoa)", "salt"].
+ */
+export function splitIngredients(ingredientsText: string): string[] {
+  const ingredients: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of ingredientsText.replace(/^ingredients\s*:\s*/i, '')) {
+    if (char === '(' || char === '[') depth++;
+    if ((char === ')' || char === ']') && depth > 0) depth--;
+
+    if ((char === ',' || char === ';') && depth === 0) {
+      ingredients.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  ingredients.push(current);
+
+  return ingredients
+    .map(ingredient => ingredient.replace(/[_*]/g, '').replace(/\.$/, '').trim()) // OFF marks allergens as _milk_
+    .filter(ingredient => ingredient.length > 0);
+}
+
+/**
+ * Read a nutriment value in grams
+ */
+function nutriment(record: OpenFoodFactsRecord, key: string): number | null {
+  const raw = record.nutriments?.[key] ?? record[key];
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) ? value : null;
+}
+
+function nutrientRows(
+  record: OpenFoodFactsRecord,
+  rows: Array<[string, string, string, number]>,
+  suffix: string
+): Record<string, NutrientValue> | null {
+  const nutrients: Record<string, NutrientValue> = {};
+
+  for (const [key, offKey, unit, factor] of rows) {
+    const value = nutriment(record, `${offKey}${suffix}`);
+    if (value !== null) {
+      nutrients[key] = { value: round(value * factor), unit };
+    }
+  }
+
+  return Object.keys(nutrients).length > 0 ? nutrients : null;
+}
+
+function calories(record: OpenFoodFactsRecord, suffix: string): number | null {
+  const kcal = nutriment(record, `energy-kcal${suffix}`);
+  if (kcal !== null) return Math.round(kcal);
+
+  const kj = nutriment(record, `energy${suffix}`) ?? nutriment(record, `energy-kj${suffix}`);
+  return kj !== null ? Math.round(kj / KJ_PER_KCAL) : null;
+}
+
+/**
+ * Map nutriments to nutrition_facts
+ *
+ * Per-serving values are used when the record has a serving size and
+ * per-serving nutriments; otherwise values are per 100 g.
+ */
+export function mapNutritionFacts(record: OpenFoodFactsRecord): NutritionSection | null {
+  const servingSize = text(record.serving_size);
+  const hasServingValues = servingSize !== null &&
+    (calories(record, '_serving') !== null || nutrientRows(record, MACROS, '_serving') !== null);
+  const suffix = hasServingValues ? '_serving' : '_100g';
+
+  const macros = nutrientRows(record, MACROS, suffix);
+  const vitaminsMinerals = nutrientRows(record, VITAMINS_MINERALS, suffix);
+  const caloriesValue = calories(record, suffix);
+
+  if (!macros && !vitaminsMinerals && caloriesValue === null) {
+    return null;
+  }
+
+  return {
+    serving_size: hasServingValues ? servingSize : '100 g',
+    servings_per_container: null,
+    calories_per_serving: caloriesValue,
+    macros,
+    vitamins_minerals: vitaminsMinerals,
+    notes: hasServingValues ? 'Open Food Facts, per serving' : 'Open Food Facts, per 100 g',
+  };
+}
+
+/**
+ * Map an Open Food Facts record to a products row
+ *
+ * @param record - Record from a JSONL or CSV dump
+ * @returns Row, or why the record was skipped
+ */
+export function mapOpenFoodFactsProduct(record: OpenFoodFactsRecord): OpenFoodFactsMapResult {
+  const barcode = normalizeGtin(text(record.code) || '');
+  if (!barcode) {
+    return { ok: false, reason: 'invalid_barcode' };
+  }
+
+  const name = text(record.product_name) || text(record.product_name_en);
+  if (!name) {
+    return { ok: false, reason: 'missing_name' };
+  }
+
+  const categories = splitList(record.categories);
+  const ingredientsText = text(record.ingredients_text) || text(record.ingredients_text_en);
+  const ingredients = ingredientsText ? splitIngredients(ingredientsText) : [];
+
+  return {
+    ok: true,
+    row: {
+      barcode,
+      name: name.slice(0, MAX_NAME_LENGTH),
+      brand: (splitList(record.brands)[0] || 'Unknown Brand').slice(0, MAX_NAME_LENGTH),
+      size: text(record.quantity)?.slice(0, MAX_SIZE_LENGTH) ?? null,
+      // Categories run from general to specific
+      category: categories.length > 0 ? categories[categories.length - 1].slice(0, MAX_CATEGORY_LENGTH) : null,
+      image_url: text(record.image_front_url) || text(record.image_url),
+      ingredients: ingredients.length > 0 ? ingredients : null,
+      nutrition_facts: mapNutritionFacts(record),
+      metadata: {
+        source: 'open_food_facts',
+        off_code: text(record.code),
+        categories,
+        ingredients_text: ingredientsText,
+        imported_at: new Date().toISOString(),
+      },
+    },
+  };
+}
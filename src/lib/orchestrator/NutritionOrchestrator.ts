@@ -11,8 +11,11 @@
 import { NutritionParser, NutritionalFacts } from '../services/nutrition-parser';
 import { IngredientParser, IngredientList } from '../services/ingredient-parser';
 import { HealthScorer, HealthScore } from '../services/health-scorer';
+import { NovaClassifier, NovaClassification } from '../services/nova-classifier';
+import { NutriScoreCalculator, NutriScore } from '../services/nutri-score';
 import { withRetry } from './errors';
 import { hashImage } from '../imageHash';
+import { computePerceptualHash } from '../perceptualHash';
 import type { IProgressEmitter } from '../progress/ProgressEmitter';
 
 /**
@@ -32,6 +35,9 @@ export interface NutritionScanRequest {
   
   /** Optional image hash (will be generated if not provided) */
   imageHash?: string;
+  
+  /** Optional perceptual hash for near-duplicate cache hits (will be generated if not provided) */
+  perceptualHash?: string | null;
 }
 
 /**
@@ -52,6 +58,12 @@ export interface NutritionScanResult {
   /** Calculated health score with breakdown and explanation */
   healthScore: HealthScore;
   
+  /** NOVA processing group computed from the ingredients (absent without ingredients) */
+  nova?: NovaClassification;
+  
+  /** Nutri-Score (per 100g/100ml; absent when the serving size has no weight or volume) */
+  nutriScore?: NutriScore;
+  
   /** Optional product name extracted from label */
   productName?: string;
   
@@ -66,6 +78,7 @@ export interface NutritionScanResult {
  */
 interface CachedNutritionData {
   imageHash: string;
+  perceptualHash?: string;
   productName?: string;
   nutritionalFacts: NutritionalFacts;
   ingredients: IngredientList;
@@ -124,6 +137,8 @@ export class NutritionOrchestrator {
   private readonly CACHE_TTL_DAYS = 30; // Requirement 6.6
   private readonly MAX_RETRIES = 3; // Requirement 8.1
   private readonly RETRY_DELAY_MS = 1000; // Requirement 8.1
+  private readonly novaClassifier = new NovaClassifier();
+  private readonly nutriScoreCalculator = new NutriScoreCalculator();
 
   constructor(
     private nutritionParser: NutritionParser,
@@ -174,9 +189,14 @@ export class NutritionOrchestrator {
       );
       
       let imageHash: string;
+      let perceptualHash: string | null;
       try {
-        imageHash = request.imageHash || await hashImage(request.imageData);
-        console.log('[NutritionOrchestrator] ✅ Generated image hash');
+        // The perceptual hash lets a near-identical photo reuse a prior extraction
+        [imageHash, perceptualHash] = await Promise.all([
+          request.imageHash || hashImage(request.imageData),
+          request.perceptualHash !== undefined ? request.perceptualHash : computePerceptualHash(request.imageData),
+        ]);
+        console.log('[NutritionOrchestrator] ✅ Generated image hash', { perceptual: perceptualHash !== null });
       } catch (error) {
         // Requirement 8.1: Handle image hash generation errors
         console.error('[NutritionOrchestrator] ❌ Failed to generate image hash:', error);
@@ -194,7 +214,7 @@ export class NutritionOrchestrator {
       if (this.cacheRepo) {
         try {
           cachedData = await withRetry(
-            async () => await this.cacheRepo!.getNutritionData(imageHash),
+            async () => await this.cacheRepo!.getNutritionData(imageHash, perceptualHash ?? undefined),
             this.MAX_RETRIES,
             this.RETRY_DELAY_MS
           );
@@ -228,7 +248,7 @@ export class NutritionOrchestrator {
         result = await this.handleCacheHit(imageHash, cachedData, progressEmitter);
       } else {
         // Requirements 2.1-2.10, 3.1-3.8, 4.1-4.12, 6.1-6.4: Handle cache miss
-        result = await this.handleCacheMiss(request, imageHash, progressEmitter);
+        result = await this.handleCacheMiss(request, imageHash, perceptualHash, progressEmitter);
       }
 
       const duration = Date.now() - startTime;
@@ -312,9 +332,10 @@ export class NutritionOrchestrator {
 
     // Step 1: Update last_accessed_at and increment access count in MongoDB
     // Requirement 6.2: Update last_accessed_at timestamp on cache hit
+    // (a near-duplicate hit updates the entry that matched, stored under its own hash)
     if (this.cacheRepo) {
       try {
-        await this.cacheRepo.updateAccessTimestamp(imageHash);
+        await this.cacheRepo.updateAccessTimestamp(cachedData.imageHash || imageHash);
       } catch (error) {
         // Log error but continue - cache update failure shouldn't fail the scan
         console.error('[NutritionOrchestrator] Failed to update access timestamp (continuing):', {
@@ -331,7 +352,15 @@ export class NutritionOrchestrator {
       fromCache: true,
       nutritionalFacts: cachedData.nutritionalFacts,
       ingredients: cachedData.ingredients,
-      healthScore: cachedData.healthScore,
+      // Rescored when cached under another scoring profile
+      healthScore: (cachedData.healthScore.profile ?? 'default') === this.healthScorer.profile.id
+        ? cachedData.healthScore
+        : this.healthScorer.calculateScore(cachedData.nutritionalFacts, cachedData.ingredients),
+      // Computed locally, so entries cached before these were added get them too
+      nova: this.novaClassifier.classify(cachedData.ingredients.ingredients) ?? undefined,
+      nutriScore: this.nutriScoreCalculator.calculate(cachedData.nutritionalFacts, cachedData.ingredients, {
+        productName: cachedData.productName,
+      }) ?? undefined,
       productName: cachedData.productName,
       timestamp: new Date(),
     };
@@ -355,12 +384,14 @@ export class NutritionOrchestrator {
    * 
    * @param request - Original scan request
    * @param imageHash - Hash of the image for caching
+   * @param perceptualHash - Perceptual hash stored for near-duplicate lookups
    * @param progressEmitter - Optional progress emitter
    * @returns Promise resolving to nutrition scan result with new analysis
    */
   private async handleCacheMiss(
     request: NutritionScanRequest,
     imageHash: string,
+    perceptualHash: string | null,
     progressEmitter?: IProgressEmitter
   ): Promise<NutritionScanResult> {
     console.log('[NutritionOrchestrator] Handling cache miss:', {
@@ -488,6 +519,25 @@ export class NutritionOrchestrator {
       );
     }
 
+    const nova = this.novaClassifier.classify(ingredients.ingredients) ?? undefined;
+    if (nova) {
+      console.log('[NutritionOrchestrator] ✅ NOVA group classified:', {
+        group: nova.group,
+        markerCount: nova.markers.length,
+      });
+    }
+
+    const nutriScore = this.nutriScoreCalculator.calculate(nutritionalFacts, ingredients, {
+      productName: this.extractProductName(ingredients),
+    }) ?? undefined;
+    if (nutriScore) {
+      console.log('[NutritionOrchestrator] ✅ Nutri-Score calculated:', {
+        grade: nutriScore.grade,
+        score: nutriScore.score,
+        category: nutriScore.category,
+      });
+    }
+
     // Step 3: Validate data consistency
     // Requirement 8.3: Handle validation errors with prompts to verify data
     if (nutritionalFacts.validationStatus === 'invalid') {
@@ -505,6 +555,7 @@ export class NutritionOrchestrator {
       try {
         const cachedData: CachedNutritionData = {
           imageHash,
+          ...(perceptualHash && { perceptualHash }),
           productName: this.extractProductName(ingredients),
           nutritionalFacts,
           ingredients,
@@ -545,6 +596,8 @@ export class NutritionOrchestrator {
       nutritionalFacts,
       ingredients,
       healthScore,
+      nova,
+      nutriScore,
       productName: this.extractProductName(ingredients),
       timestamp: new Date(),
     };
@@ -640,9 +693,10 @@ export class NutritionOrchestrator {
  */
 export interface NutritionCacheRepository {
   /**
-   * Get cached nutrition data by image hash
+   * Get cached nutrition data by image hash, falling back to the closest
+   * entry by perceptual hash
    */
-  getNutritionData(imageHash: string): Promise<CachedNutritionData | null>;
+  getNutritionData(imageHash: string, perceptualHash?: string): Promise<CachedNutritionData | null>;
   
   /**
    * Set nutrition data in cache with TTL
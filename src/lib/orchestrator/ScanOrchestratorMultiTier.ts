@@ -16,6 +16,7 @@ import { VisualExtractorService } from '@/lib/services/visual-extractor';
 import { ImageAnalyzerService } from '@/lib/services/image-analyzer';
 import { DiscoveryService } from '@/lib/services/discovery-service';
 import { hashImage } from '@/lib/imageHash';
+import { parseGtin } from '@/lib/barcode/gtin';
 import { getSupabaseServerClient } from '@/lib/supabase/server-client';
 import type { ScanLogInsert } from '@/lib/supabase/types';
 import {
@@ -82,6 +83,37 @@ export class ScanOrchestratorMultiTier {
     });
 
     try {
+      // Normalize the barcode to GTIN-14 before Tier 1; barcodes with a bad
+      // check digit (usually OCR misreads) are dropped instead of looked up
+      if (request.barcode) {
+        const gtin = parseGtin(request.barcode);
+        if (gtin.valid) {
+          request = { ...request, barcode: gtin.gtin };
+        } else {
+          console.warn(`[Scan Orchestrator] ⚠️  Rejected barcode ${request.barcode}: ${gtin.error}`);
+          const processingTimeMs = Date.now() - startTime;
+          await this.logTierUsage(request, 1, false, processingTimeMs, false, undefined, undefined, 'INVALID_BARCODE');
+
+          if (!request.image) {
+            return {
+              success: false,
+              tier: 1,
+              confidenceScore: 0,
+              processingTimeMs,
+              cached: false,
+              error: {
+                code: 'INVALID_BARCODE',
+                message: `Invalid barcode: ${gtin.error}`,
+                tier: 1,
+                retryable: true,
+              },
+            };
+          }
+
+          request = { ...request, barcode: undefined };
+        }
+      }
+
       // Tier 1: Direct barcode scanning
       // Requirement 6.1: Attempt Tier 1 first
       if (request.barcode) {
@@ -565,7 +597,7 @@ export class ScanOrchestratorMultiTier {
   }
 
   /**
-   * Attempt Tier 3: Discovery search via Barcode Lookup API
+   * Attempt Tier 3: Discovery search via the configured discovery provider
    * Requirement 3.1, 3.4, 3.5: Discover barcode and persist
    * 
    * @param metadata - Product metadata from Tier 2
@@ -576,7 +608,7 @@ export class ScanOrchestratorMultiTier {
     metadata: any,
     imageHash?: string
   ): Promise<{ product: ProductData; confidence: ConfidenceScore } | null> {
-    console.log('[Scan Orchestrator] 🔍 Tier 3: Discovering barcode via API...');
+    console.log('[Scan Orchestrator] 🔍 Tier 3: Discovering barcode...');
     
     try {
       // Use Discovery Service to find barcode
@@ -891,71 +923,33 @@ export class ScanOrchestratorMultiTier {
 
       try {
         // Step 1: Update Product Repository
-        if (productId) {
-          // Update existing product
-          // Skip automatic cache invalidation since we manage cache updates in this transaction
-          const updated = await this.productRepository.update(productId, {
-            barcode: productData.barcode || null,
-            name: productData.name,
-            brand: productData.brand,
-            size: productData.size || null,
-            category: productData.category || null,
-            image_url: productData.imageUrl || null,
-            metadata: productData.metadata || null,
-          }, false); // Skip cache invalidation - we handle it below
-          savedProduct = {
-            id: updated.id,
-            barcode: updated.barcode || undefined,
-            name: updated.name,
-            brand: updated.brand,
-            size: updated.size || undefined,
-            category: updated.category || 'Unknown',
-            imageUrl: updated.image_url || undefined,
-            metadata: updated.metadata || {},
-          };
-        } else if (productData.barcode) {
-          // Upsert by barcode
-          const upserted = await this.productRepository.upsertByBarcode({
-            barcode: productData.barcode,
-            name: productData.name,
-            brand: productData.brand,
-            size: productData.size || null,
-            category: productData.category || null,
-            image_url: productData.imageUrl || null,
-            metadata: productData.metadata || null,
-          });
-          savedProduct = {
-            id: upserted.id,
-            barcode: upserted.barcode || undefined,
-            name: upserted.name,
-            brand: upserted.brand,
-            size: upserted.size || undefined,
-            category: upserted.category || 'Unknown',
-            imageUrl: upserted.image_url || undefined,
-            metadata: upserted.metadata || {},
-          };
-        } else {
-          // Create new product
-          const created = await this.productRepository.create({
-            barcode: null,
-            name: productData.name,
-            brand: productData.brand,
-            size: productData.size || null,
-            category: productData.category || null,
-            image_url: productData.imageUrl || null,
-            metadata: productData.metadata || null,
-          });
-          savedProduct = {
-            id: created.id,
-            barcode: created.barcode || undefined,
-            name: created.name,
-            brand: created.brand,
-            size: created.size || undefined,
-            category: created.category || 'Unknown',
-            imageUrl: created.image_url || undefined,
-            metadata: created.metadata || {},
-          };
-        }
+        // Values go through field provenance, tagged with the tier, so a
+        // rescan keeps corrections and higher-priority sources
+        const stored = await this.productRepository.saveScannedProduct({
+          barcode: productData.barcode || null,
+          name: productData.name,
+          brand: productData.brand,
+          size: productData.size || null,
+          category: productData.category || null,
+          image_url: productData.imageUrl || null,
+          metadata: productData.metadata || null,
+        }, {
+          source: `tier_${tier}` as const,
+          tier,
+          imageHash: cacheKeyType === 'imageHash' ? cacheKey : undefined,
+          confidence,
+          timestamp: new Date().toISOString(),
+        }, productId, false); // Skip cache invalidation - we handle it below
+        savedProduct = {
+          id: stored.id,
+          barcode: stored.barcode || undefined,
+          name: stored.name,
+          brand: stored.brand,
+          size: stored.size || undefined,
+          category: stored.category || 'Unknown',
+          imageUrl: stored.image_url || undefined,
+          metadata: stored.metadata || {},
+        };
 
         // Step 2: Update Cache Service
         await this.cacheService.store(cacheKey, cacheKeyType, savedProduct, tier, confidence);
@@ -0,0 +1,182 @@
+/**
+ * Perceptual Image Hashing Utility
+ *
+ * hashImage is a SHA-256 of the upload, so two photos of the same box taken
+ * a second apart never share a cache key. This module computes a 64-bit
+ * difference hash (dHash) over a normalized grayscale thumbnail: photos that
+ * look alike produce hashes a small Hamming distance apart, which the MongoDB
+ * caches use to reuse a prior extraction for a near-identical photo.
+ *
+ * Server-only: decoding uses sharp, which is loaded on first use.
+ */
+
+import { hashImage } from './imageHash';
+
+/**
+ * Thumbnail size: 9 columns give 8 left/right comparisons per row
+ */
+const THUMBNAIL_WIDTH = 9;
+const THUMBNAIL_HEIGHT = 8;
+
+/**
+ * Number of bands a hash is split into for indexing (one per thumbnail row)
+ */
+export const PERCEPTUAL_HASH_BANDS = 8;
+
+/**
+ * Default maximum Hamming distance for a near-duplicate match.
+ * Nutrition labels share a layout, so this stays well below the distance
+ * at which different products start to collide.
+ */
+export const DEFAULT_PERCEPTUAL_MAX_DISTANCE = 4;
+
+/**
+ * Largest distance the band index can answer exactly: two hashes within
+ * 7 bits differ in at most 7 of the 8 bands, so they share at least one.
+ */
+export const MAX_INDEXED_DISTANCE = PERCEPTUAL_HASH_BANDS - 1;
+
+/**
+ * Cryptographic and perceptual hashes of one image
+ */
+export interface ImageFingerprint {
+  hash: string; // SHA-256, exact-match cache key
+  perceptualHash: string | null; // dHash, null when the image can't be decoded
+}
+
+/**
+ * Compute a dHash from grayscale thumbnail pixels
+ *
+ * Each bit records whether a pixel is brighter than its right-hand
+ * neighbour, so the hash follows the image's gradients rather than its
+ * absolute brightness.
+ *
+ * @param pixels - Row-major 8-bit grayscale pixels
+ * @param width - Thumbnail width (one more than the bits per row)
+ * @param height - Thumbnail height (one byte of hash per row)
+ * @returns Hash as hex, two characters per row
+ */
+export function dHashFromPixels(
+  pixels: ArrayLike<number>,
+  width: number = THUMBNAIL_WIDTH,
+  height: number = THUMBNAIL_HEIGHT
+): string {
+  if (pixels.length < width * height) {
+    throw new Error(`Expected ${width * height} pixels, got ${pixels.length}`);
+  }
+
+  let hex = '';
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      row = (row << 1) | (pixels[i] > pixels[i + 1] ? 1 : 0);
+    }
+    hex += row.toString(16).padStart(Math.ceil((width - 1) / 4), '0');
+  }
+  return hex;
+}
+
+/**
+ * Generate a perceptual hash from base64 image data
+ *
+ * The image is rotated by its EXIF orientation, flattened onto white,
+ * converted to grayscale, contrast-stretched and resized to a 9×8
+ * thumbnail, which removes differences in resolution, compression and
+ * exposure between two photos of the same label.
+ *
+ * @param imageData - Base64 encoded image data with or without data URI prefix
+ * @returns 16-character hex hash, or null in the browser or when the image can't be decoded
+ *
+ * @example
+ * ```typescript
+ * const perceptualHash = await computePerceptualHash('data:image/jpeg;base64,/9j/4AAQ...');
+ * ```
+ */
+export async function computePerceptualHash(imageData: string): Promise<string | null> {
+  if (typeof window !== 'undefined') {
+    return null;
+  }
+
+  try {
+    const base64Data = imageData.replace(/^data:image\/[\w+.-]+;base64,/, '');
+    const { default: sharp } = await import('sharp');
+
+    const pixels = await sharp(Buffer.from(base64Data, 'base64'))
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .grayscale()
+      .normalise()
+      .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    return dHashFromPixels(pixels);
+  } catch (error) {
+    console.warn('[PerceptualHash] ⚠️  Could not hash image:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Compute the SHA-256 and perceptual hash of an image in parallel
+ *
+ * @param imageData - Base64 encoded image data
+ * @returns Both hashes; perceptualHash is null if it couldn't be computed
+ */
+export async function hashImageFingerprint(imageData: string): Promise<ImageFingerprint> {
+  const [hash, perceptualHash] = await Promise.all([
+    hashImage(imageData),
+    computePerceptualHash(imageData),
+  ]);
+  return { hash, perceptualHash };
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare hashes of different lengths (${a.length} and ${b.length})`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Split a hash into position-tagged bands for the MongoDB band index
+ *
+ * A candidate shares at least one band with the query whenever their
+ * distance is at most MAX_INDEXED_DISTANCE.
+ *
+ * @example
+ * ```typescript
+ * perceptualHashBands('8f3c000000000000'); // ['0:8f', '1:3c', '2:00', ...]
+ * ```
+ */
+export function perceptualHashBands(hash: string): string[] {
+  const size = hash.length / PERCEPTUAL_HASH_BANDS;
+  return Array.from({ length: PERCEPTUAL_HASH_BANDS }, (_, i) => `${i}:${hash.slice(i * size, (i + 1) * size)}`);
+}
+
+/**
+ * Maximum Hamming distance for a near-duplicate cache hit
+ *
+ * Tunable with PERCEPTUAL_HASH_MAX_DISTANCE (0 only reuses identical thumbnails);
+ * clamped to MAX_INDEXED_DISTANCE.
+ */
+export function getPerceptualMaxDistance(): number {
+  const configured = parseInt(process.env.PERCEPTUAL_HASH_MAX_DISTANCE ?? '', 10);
+  if (!Number.isFinite(configured)) {
+    return DEFAULT_PERCEPTUAL_MAX_DISTANCE;
+  }
+  return Math.min(Math.max(configured, 0), MAX_INDEXED_DISTANCE);
+}
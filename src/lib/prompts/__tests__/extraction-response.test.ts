@@ -0,0 +1,119 @@
+/**
+ * Unit tests for combined extraction response parsing
+ */
+
+import { LLMResponseValidationError } from '@/lib/llm/structured-output';
+import { combineExtractionPrompts } from '../extraction-prompts';
+import {
+  detectCombinedPromptTypes,
+  diffCombinedExtractions,
+  parseCombinedExtractionResponse,
+} from '../extraction-response';
+
+const RESPONSE = {
+  barcode: 'UPC 012345678905',
+  packaging: {
+    productName: 'Honey Oat Granola',
+    brand: 'Acme',
+    size: '12 oz',
+    category: 'Cereal',
+    packagingType: 'bag',
+    confidence: 0.92,
+  },
+  ingredients: {
+    ingredients: ['INGREDIENTS: Whole Grain Oats', 'Honey', 'Almonds'],
+    confidence: 0.88,
+  },
+  nutrition_facts: {
+    serving_size: '1/2 cup (45g)',
+    calories_per_serving: 190,
+    macros: { total_fat: { value: 6, unit: 'g', dv_percent: 8 } },
+    confidence: 0.9,
+  },
+  overall_confidence: 0.9,
+};
+
+describe('extraction-response', () => {
+  describe('parseCombinedExtractionResponse', () => {
+    it('should parse a fenced combined response', () => {
+      const result = parseCombinedExtractionResponse(
+        '```json\n' + JSON.stringify(RESPONSE) + '\n```'
+      );
+
+      expect(result.fields.barcode).toBe('00012345678905');
+      expect(result.fields.name).toBe('Honey Oat Granola');
+      expect(result.fields.packagingType).toBe('bag');
+      expect(result.fields.ingredients).toEqual(['Whole Grain Oats', 'Honey', 'Almonds']);
+      expect(result.sections.nutrition.status).toBe('success');
+      expect(result.overallConfidence).toBe(0.9);
+    });
+
+    it('should reject a barcode with a bad check digit', () => {
+      const result = parseCombinedExtractionResponse(JSON.stringify({ ...RESPONSE, barcode: 'UPC 012345678901' }));
+
+      expect(result.fields.barcode).toBeNull();
+      expect(result.sections.barcode).toEqual({
+        status: 'failed',
+        error: 'Invalid barcode 012345678901: Invalid check digit',
+      });
+    });
+
+    it('should fall back to defaults for missing sections', () => {
+      const result = parseCombinedExtractionResponse(
+        JSON.stringify({ barcode: 'NONE', nutrition_facts: { serving_size: '1 cup' } })
+      );
+
+      expect(result.sections.barcode).toEqual({ status: 'failed', error: 'No valid barcode detected' });
+      expect(result.sections.packaging.status).toBe('failed');
+      expect(result.fields.name).toBe('Unknown Product');
+      expect(result.fields.category).toBe('Uncategorized');
+      expect(result.fields.ingredients).toBeNull();
+      expect(result.sections.nutrition.error).toBe('Incomplete nutrition facts');
+    });
+
+    it('should accept the bare ingredient array of COMBINED_EXTRACTION_PROMPT', () => {
+      const result = parseCombinedExtractionResponse(
+        JSON.stringify({ ingredients: ['Oats', 'Honey'], confidence: { ingredients: 0.8 } })
+      );
+
+      expect(result.fields.ingredients).toEqual(['Oats', 'Honey']);
+      expect(result.sections.ingredients.confidence).toBe(0.8);
+    });
+
+    it('should throw on a non-JSON response', () => {
+      expect(() => parseCombinedExtractionResponse('I could not read this label'))
+        .toThrow(LLMResponseValidationError);
+    });
+
+    it('should reject responses that do not match the schema', () => {
+      expect(() => parseCombinedExtractionResponse(
+        JSON.stringify({ ...RESPONSE, packaging: { ...RESPONSE.packaging, confidence: 92 } })
+      )).toThrow('packaging.confidence');
+    });
+  });
+
+  describe('detectCombinedPromptTypes', () => {
+    it('should recover the section types of a combined prompt', () => {
+      const prompt = combineExtractionPrompts(['barcode', 'packaging', 'ingredients', 'nutrition']);
+      expect(detectCombinedPromptTypes(prompt)).toEqual(['barcode', 'packaging', 'ingredients', 'nutrition']);
+    });
+
+    it('should return null for single-section prompts', () => {
+      expect(detectCombinedPromptTypes(combineExtractionPrompts(['barcode']))).toBeNull();
+    });
+  });
+
+  describe('diffCombinedExtractions', () => {
+    it('should report changed fields and section statuses', () => {
+      const before = parseCombinedExtractionResponse(JSON.stringify(RESPONSE));
+      const after = parseCombinedExtractionResponse(
+        JSON.stringify({ ...RESPONSE, barcode: null, packaging: { ...RESPONSE.packaging, brand: 'ACME' } })
+      );
+
+      const fields = diffCombinedExtractions(before, after).map(diff => diff.field);
+
+      expect(fields).toEqual(['barcode.status', 'barcode', 'brand']);
+      expect(diffCombinedExtractions(before, before)).toEqual([]);
+    });
+  });
+});
@@ -12,6 +12,8 @@
  * - Environmental: Sustainability and environmental impact
  */
 
+import { ADDITIVE_CLASS_LABELS, type AdditiveMatch } from '@/lib/additives/additive-database';
+
 /**
  * Health Dimension Analysis Prompt
  * 
@@ -178,9 +180,17 @@ ADDITIONAL COMMON ALLERGENS:
 - Mustard
 - Celery
 - Lupin
+- Molluscs (clams, oysters, mussels, squid)
+- Cereals containing gluten (barley, rye, oats)
 - Sulfites (>10ppm)
 - Corn (increasingly common)
 
+ALLERGEN TIERS (report each tier separately, never mix them):
+- CONTAINS: allergens in the ingredients or a "Contains:" statement -> major_allergens / other_allergens
+- MAY CONTAIN: allergens named only in precautionary statements ("may contain traces of", "made in a facility that also processes", "made on shared equipment with") -> may_contain_allergens, with the statements in cross_contamination_warnings
+- FREE FROM: claims like "gluten-free", "dairy-free", "free from nuts" -> allergen_free_claims
+An allergen that is only in a "may contain" statement is NOT a contained allergen.
+
 SCORING GUIDELINES:
 - 90-100: No major allergens, no cross-contamination warnings
 - 80-89: 1 common allergen (e.g., wheat in bread)
@@ -211,6 +221,7 @@ Return this exact JSON structure:
   "allergens_detected": {
     "major_allergens": ["list of 8 major allergens found"],
     "other_allergens": ["list of other allergens found"],
+    "may_contain_allergens": ["list of allergens named only in precautionary statements"],
     "cross_contamination_warnings": ["list of warnings"],
     "allergen_free_claims": ["list of claims like 'gluten-free', 'dairy-free'"]
   },
@@ -503,6 +514,35 @@ export function getDimensionPrompt(dimension: DimensionName): string {
   return DimensionPrompts[dimension];
 }
 
+/**
+ * Append the additives resolved by the additive database to a dimension
+ * prompt, so the model scores known additives instead of re-identifying them
+ * 
+ * @param prompt - Dimension prompt (usually processing)
+ * @param additives - Additives classified from the extracted ingredients
+ * @returns Prompt with a CLASSIFIED ADDITIVES section, or unchanged when none
+ * 
+ * @example
+ * const prompt = withClassifiedAdditives(getDimensionPrompt('processing'), classifyAdditives(ingredients));
+ */
+export function withClassifiedAdditives(prompt: string, additives: AdditiveMatch[]): string {
+  if (additives.length === 0) {
+    return prompt;
+  }
+
+  const lines = additives.map(additive => {
+    const classes = additive.classes.map(additiveClass => ADDITIVE_CLASS_LABELS[additiveClass].toLowerCase()).join(', ');
+    const status = `EU ${additive.status.EU}, US ${additive.status.US}`;
+    const code = additive.eNumber ? `${additive.eNumber} ` : '';
+    return `- ${code}${additive.name}: ${classes}; concern ${additive.concern}; ${status}${additive.natural ? '; natural origin' : ''}`;
+  });
+
+  return `${prompt}
+
+CLASSIFIED ADDITIVES (resolved from the ingredient list by the additive database; use these classifications and list them in additives_detected):
+${lines.join('\n')}`;
+}
+
 /**
  * Get all dimension prompts combined
  * 
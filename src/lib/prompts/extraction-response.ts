@@ -0,0 +1,252 @@
+/**
+ * Combined Extraction Response Parsing
+ *
+ * Turns the model response for a combineExtractionPrompts() call into
+ * per-section step results and normalized product fields. Shared by
+ * /api/test-all-extraction and the fixture corpus replay script so both
+ * interpret recorded responses identically. Responses are validated against
+ * CombinedExtractionResponseSchema first.
+ */
+
+import { parseLLMResponse } from '@/lib/llm/structured-output';
+import { parseGtin, type GtinParseResult } from '@/lib/barcode/gtin';
+import type { ExtractionPrompts } from './extraction-prompts';
+import {
+  CombinedExtractionResponseSchema,
+  type CombinedExtractionResponse,
+  type IngredientsSection,
+  type NutritionSection,
+  type PackagingSection,
+} from './response-schemas';
+
+/**
+ * Extraction sections produced by a combined prompt
+ */
+export type ExtractionSectionType = 'barcode' | 'packaging' | 'ingredients' | 'nutrition';
+
+/**
+ * Result of one section of a combined extraction
+ */
+export interface ExtractionSectionResult {
+  status: 'success' | 'failed';
+  data?: { barcode: string } | PackagingSection | IngredientsSection | NutritionSection;
+  error?: string;
+  confidence?: number;
+}
+
+/**
+ * Product fields derived from a combined extraction
+ */
+export interface ExtractedProductFields {
+  barcode: string | null;
+  name: string;
+  brand: string;
+  size: string | null;
+  category: string;
+  packagingType: string | null;
+  ingredients: string[] | null;
+  nutrition_facts: NutritionSection | null;
+}
+
+/**
+ * Parsed combined extraction response
+ */
+export interface CombinedExtractionResult {
+  sections: Record<ExtractionSectionType, ExtractionSectionResult>;
+  fields: ExtractedProductFields;
+  overallConfidence?: number;
+}
+
+/**
+ * Section titles used by combineExtractionPrompts(), in prompt order
+ */
+const SECTION_TITLES: Record<string, keyof typeof ExtractionPrompts> = {
+  'BARCODE DETECTION': 'barcode',
+  'PACKAGING INFORMATION': 'packaging',
+  'INGREDIENTS LIST': 'ingredients',
+  'NUTRITION FACTS': 'nutrition',
+};
+
+/**
+ * Recover the section types a combined prompt was built from
+ *
+ * @param prompt - Prompt text produced by combineExtractionPrompts()
+ * @returns Section types in prompt order, or null if not a combined prompt
+ */
+export function detectCombinedPromptTypes(
+  prompt: string
+): Array<keyof typeof ExtractionPrompts> | null {
+  if (!prompt.startsWith('Extract ALL of the following information from this product image')) {
+    return null;
+  }
+
+  const types: Array<keyof typeof ExtractionPrompts> = [];
+  const sectionPattern = /^SECTION \d+: (.+)$/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = sectionPattern.exec(prompt)) !== null) {
+    const type = SECTION_TITLES[match[1].trim()];
+    if (type) {
+      types.push(type);
+    }
+  }
+
+  return types.length > 0 ? types : null;
+}
+
+/**
+ * Parse and validate a combined extraction response
+ *
+ * @param responseText - Raw model response for a combined extraction prompt
+ * @returns Section results and normalized product fields
+ * @throws LLMResponseValidationError if the response is not valid JSON or fails the schema
+ */
+export function parseCombinedExtractionResponse(responseText: string): CombinedExtractionResult {
+  return interpretCombinedExtraction(parseLLMResponse(responseText, CombinedExtractionResponseSchema));
+}
+
+/**
+ * Derive section results and product fields from a validated response
+ *
+ * @param extractedData - Response validated against CombinedExtractionResponseSchema
+ * @returns Section results and normalized product fields
+ */
+export function interpretCombinedExtraction(
+  extractedData: CombinedExtractionResponse
+): CombinedExtractionResult {
+  const sections = {} as Record<ExtractionSectionType, ExtractionSectionResult>;
+  const fields: ExtractedProductFields = {
+    barcode: null,
+    name: 'Unknown Product',
+    brand: 'Unknown Brand',
+    size: null,
+    category: 'Uncategorized',
+    packagingType: null,
+    ingredients: null,
+    nutrition_facts: null,
+  };
+
+  // Barcode: the first digit run that is a valid GTIN, stored as its
+  // GTIN-14 key; runs with a bad check digit are OCR misreads
+  if (extractedData.barcode) {
+    const candidates: GtinParseResult[] = (extractedData.barcode.match(/\d[\d -]{6,}\d/g) ?? [])
+      .map(candidate => parseGtin(candidate));
+    const gtin = candidates.find(candidate => candidate.valid)?.gtin;
+    if (gtin) {
+      fields.barcode = gtin;
+      sections.barcode = {
+        status: 'success',
+        data: { barcode: gtin },
+        confidence: 0.9,
+      };
+    } else if (candidates.length > 0) {
+      sections.barcode = { status: 'failed', error: `Invalid barcode ${candidates[0].digits}: ${candidates[0].error}` };
+    } else {
+      sections.barcode = { status: 'failed', error: 'No valid barcode detected' };
+    }
+  } else {
+    sections.barcode = { status: 'failed', error: 'No barcode in response' };
+  }
+
+  // Packaging
+  if (extractedData.packaging) {
+    fields.name = extractedData.packaging.productName || 'Unknown Product';
+    fields.brand = extractedData.packaging.brand || 'Unknown Brand';
+    fields.size = extractedData.packaging.size || null;
+    fields.category = extractedData.packaging.category || 'Uncategorized';
+    fields.packagingType = extractedData.packaging.packagingType || null;
+    sections.packaging = {
+      status: 'success',
+      data: extractedData.packaging,
+      confidence: extractedData.packaging.confidence || 0.5,
+    };
+  } else {
+    sections.packaging = { status: 'failed', error: 'No packaging data in response' };
+  }
+
+  // Ingredients (COMBINED_EXTRACTION_PROMPT returns a bare array instead of a section object)
+  const ingredientsSection: IngredientsSection | null | undefined = Array.isArray(extractedData.ingredients)
+    ? { ingredients: extractedData.ingredients, confidence: extractedData.confidence?.ingredients ?? undefined }
+    : extractedData.ingredients;
+
+  if (ingredientsSection?.ingredients && ingredientsSection.ingredients.length > 0) {
+    // Remove "INGREDIENTS:" prefix from first ingredient if present
+    const ingredients: string[] = [...ingredientsSection.ingredients];
+    if (ingredients[0]) {
+      ingredients[0] = ingredients[0]
+        .replace(/^INGREDIENTS:\s*/i, '')
+        .trim();
+    }
+
+    fields.ingredients = ingredients;
+    sections.ingredients = {
+      status: 'success',
+      data: ingredientsSection,
+      confidence: ingredientsSection.confidence || 0.5,
+    };
+  } else {
+    sections.ingredients = { status: 'failed', error: 'No ingredients found' };
+  }
+
+  // Nutrition facts
+  if (extractedData.nutrition_facts?.serving_size && extractedData.nutrition_facts.macros) {
+    fields.nutrition_facts = extractedData.nutrition_facts;
+    sections.nutrition = {
+      status: 'success',
+      data: extractedData.nutrition_facts,
+      confidence: extractedData.nutrition_facts.confidence || 0.5,
+    };
+  } else {
+    sections.nutrition = { status: 'failed', error: 'Incomplete nutrition facts' };
+  }
+
+  return {
+    sections,
+    fields,
+    overallConfidence: extractedData.overall_confidence || undefined,
+  };
+}
+
+/**
+ * Single field difference between two parsed extractions
+ */
+export interface ExtractionFieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Compare two parsed extractions field by field
+ *
+ * Section statuses are compared alongside the product fields so a section
+ * that starts failing shows up even when its fields fall back to defaults.
+ *
+ * @param before - Extraction parsed from the recorded response
+ * @param after - Extraction parsed from the new response
+ * @returns Differences, empty if both extractions are equivalent
+ */
+export function diffCombinedExtractions(
+  before: CombinedExtractionResult,
+  after: CombinedExtractionResult
+): ExtractionFieldDiff[] {
+  const diffs: ExtractionFieldDiff[] = [];
+
+  const compare = (field: string, a: unknown, b: unknown) => {
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      diffs.push({ field, before: a, after: b });
+    }
+  };
+
+  for (const section of Object.keys(before.sections) as ExtractionSectionType[]) {
+    compare(`${section}.status`, before.sections[section].status, after.sections[section].status);
+  }
+
+  for (const field of Object.keys(before.fields) as Array<keyof ExtractedProductFields>) {
+    compare(field, before.fields[field], after.fields[field]);
+  }
+
+  compare('overallConfidence', before.overallConfidence, after.overallConfidence);
+
+  return diffs;
+}
@@ -0,0 +1,302 @@
+/**
+ * Gemini Response Schemas
+ *
+ * zod schemas for the JSON returned by the extraction prompts
+ * (extraction-prompts.ts), the dimension prompts (dimension-prompts.ts) and
+ * the prompts of the label parsers, image classifier and GeminiClient.
+ * Responses are validated against these before they reach product data;
+ * validation errors drive a single repair re-prompt (see lib/llm/structured-output).
+ *
+ * Fields the prompts allow to be null are nullable, and optional where models
+ * commonly omit them. Unknown keys are dropped.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Confidence score reported by the model (0.0 to 1.0)
+ */
+export const ConfidenceSchema = z.number().min(0).max(1);
+
+const NullableText = z.string().nullable().optional();
+
+/**
+ * Text the model may return as null or omit, read as undefined
+ */
+const OptionalText = z.string().nullish().transform(value => value ?? undefined);
+
+/**
+ * Ingredient names in label order
+ */
+export const IngredientNamesSchema = z.array(z.string());
+
+// ============================================================================
+// EXTRACTION SECTIONS
+// ============================================================================
+
+/**
+ * Barcode digits (models occasionally return a number instead of a string)
+ */
+export const BarcodeSectionSchema = z
+  .union([z.string(), z.number()])
+  .nullable()
+  .transform(value => (value === null ? null : String(value)));
+
+/**
+ * PACKAGING_EXTRACTION_PROMPT response
+ */
+export const PackagingSectionSchema = z.object({
+  productName: NullableText,
+  brand: NullableText,
+  size: NullableText,
+  category: NullableText,
+  packagingType: NullableText,
+  confidence: ConfidenceSchema.optional(),
+});
+
+/**
+ * INGREDIENTS_EXTRACTION_PROMPT response
+ */
+export const IngredientsSectionSchema = z.object({
+  ingredients: IngredientNamesSchema.nullable(),
+  confidence: ConfidenceSchema.optional(),
+  notes: NullableText,
+});
+
+/**
+ * Single nutrient row of the Nutrition Facts table
+ */
+export const NutrientValueSchema = z.object({
+  value: z.number().nullable(),
+  unit: NullableText,
+  dv_percent: z.number().nullable().optional(),
+});
+
+/**
+ * NUTRITION_EXTRACTION_PROMPT response
+ */
+export const NutritionSectionSchema = z.object({
+  serving_size: z.string().nullable(),
+  servings_per_container: z.number().nullable().optional(),
+  calories_per_serving: z.number().nullable().optional(),
+  macros: z.record(z.string(), NutrientValueSchema.nullable()).nullable().optional(),
+  vitamins_minerals: z.record(z.string(), NutrientValueSchema.nullable()).nullable().optional(),
+  confidence: ConfidenceSchema.optional(),
+  notes: NullableText,
+});
+
+/**
+ * combineExtractionPrompts() / COMBINED_EXTRACTION_PROMPT response
+ *
+ * COMBINED_EXTRACTION_PROMPT returns ingredients as a bare array and
+ * per-section confidence in a `confidence` object.
+ */
+export const CombinedExtractionResponseSchema = z.object({
+  barcode: BarcodeSectionSchema.optional(),
+  packaging: PackagingSectionSchema.nullable().optional(),
+  ingredients: z.union([IngredientsSectionSchema, IngredientNamesSchema]).nullable().optional(),
+  nutrition_facts: NutritionSectionSchema.nullable().optional(),
+  overall_confidence: ConfidenceSchema.nullable().optional(),
+  confidence: z.record(z.string(), ConfidenceSchema.nullable()).optional(),
+});
+
+export type PackagingSection = z.infer<typeof PackagingSectionSchema>;
+export type IngredientsSection = z.infer<typeof IngredientsSectionSchema>;
+export type NutrientValue = z.infer<typeof NutrientValueSchema>;
+export type NutritionSection = z.infer<typeof NutritionSectionSchema>;
+export type CombinedExtractionResponse = z.infer<typeof CombinedExtractionResponseSchema>;
+
+// ============================================================================
+// DIMENSIONS
+// ============================================================================
+
+const DimensionBaseSchema = z.object({
+  score: z.number().min(0).max(100),
+  explanation: z.string().min(1),
+  key_factors: z.array(z.string()),
+  confidence: ConfidenceSchema,
+});
+
+/**
+ * Health dimension response
+ */
+export const HealthDimensionSchema = DimensionBaseSchema;
+
+/**
+ * Processing dimension response
+ */
+export const ProcessingDimensionSchema = DimensionBaseSchema.extend({
+  additives_detected: z
+    .object({
+      preservatives: z.array(z.string()).default([]),
+      artificial_sweeteners: z.array(z.string()).default([]),
+      artificial_colors: z.array(z.string()).default([]),
+      other_additives: z.array(z.string()).default([]),
+    })
+    .nullable()
+    .optional()
+    .transform(value => value ?? {
+      preservatives: [],
+      artificial_sweeteners: [],
+      artificial_colors: [],
+      other_additives: [],
+    }),
+});
+
+/**
+ * Allergens dimension response
+ */
+export const AllergensDimensionSchema = DimensionBaseSchema.extend({
+  allergens_detected: z
+    .object({
+      major_allergens: z.array(z.string()).default([]),
+      other_allergens: z.array(z.string()).default([]),
+      may_contain_allergens: z.array(z.string()).default([]),
+      cross_contamination_warnings: z.array(z.string()).default([]),
+      allergen_free_claims: z.array(z.string()).default([]),
+    })
+    .nullable()
+    .optional()
+    .transform(value => value ?? {
+      major_allergens: [],
+      other_allergens: [],
+      may_contain_allergens: [],
+      cross_contamination_warnings: [],
+      allergen_free_claims: [],
+    }),
+});
+
+export type HealthDimensionResult = z.infer<typeof HealthDimensionSchema>;
+export type ProcessingDimensionResult = z.infer<typeof ProcessingDimensionSchema>;
+export type AllergensDimensionResult = z.infer<typeof AllergensDimensionSchema>;
+
+// ============================================================================
+// LABEL PARSERS
+// ============================================================================
+
+/**
+ * IngredientParser OCR response
+ * (rawText is empty when no ingredient list is visible)
+ */
+export const IngredientTextResponseSchema = z.object({
+  rawText: z.string(),
+  confidence: ConfidenceSchema,
+});
+
+/**
+ * Single NutritionParser reading
+ */
+export const NutritionReadingSchema = z.object({
+  value: z.number(),
+  confidence: ConfidenceSchema,
+  dailyValue: z.number().nullish().transform(value => value ?? undefined),
+});
+
+/**
+ * NutritionParser OCR response
+ */
+export const NutritionLabelResponseSchema = z.object({
+  servingSize: z.object({
+    amount: z.number(),
+    unit: z.string().min(1),
+    confidence: ConfidenceSchema,
+  }),
+  servingsPerContainer: z.number().nullish().transform(value => value ?? undefined),
+  calories: NutritionReadingSchema,
+  containerCalories: NutritionReadingSchema.optional(),
+  totalFat: NutritionReadingSchema,
+  saturatedFat: NutritionReadingSchema,
+  transFat: NutritionReadingSchema,
+  cholesterol: NutritionReadingSchema,
+  sodium: NutritionReadingSchema,
+  totalCarbohydrates: NutritionReadingSchema,
+  dietaryFiber: NutritionReadingSchema,
+  totalSugars: NutritionReadingSchema,
+  addedSugars: NutritionReadingSchema.optional(),
+  protein: NutritionReadingSchema,
+  vitamins: z.record(z.string(), NutritionReadingSchema).optional(),
+  minerals: z.record(z.string(), NutritionReadingSchema).optional(),
+});
+
+/**
+ * NutritionParser re-extraction response (only the re-read fields)
+ */
+export const NutritionReextractionResponseSchema = NutritionLabelResponseSchema.partial();
+
+export type IngredientTextResponse = z.infer<typeof IngredientTextResponseSchema>;
+export type NutritionLabelResponse = z.infer<typeof NutritionLabelResponseSchema>;
+
+// ============================================================================
+// IMAGE CLASSIFICATION
+// ============================================================================
+
+/**
+ * ImageClassifier response
+ */
+export const ImageClassificationResponseSchema = z.object({
+  type: z.enum(['barcode', 'product_image', 'nutrition_label', 'unknown']),
+  confidence: ConfidenceSchema,
+  reasoning: NullableText,
+  metadata: z
+    .object({
+      hasNutritionalFacts: z.boolean().optional(),
+      hasIngredientList: z.boolean().optional(),
+      hasBarcodeVisible: z.boolean().optional(),
+    })
+    .nullable()
+    .optional()
+    .transform(value => value ?? {}),
+});
+
+export type ImageClassificationResponse = z.infer<typeof ImageClassificationResponseSchema>;
+
+// ============================================================================
+// PRODUCT ANALYSIS (GeminiClient)
+// ============================================================================
+
+/**
+ * GeminiClient.analyzeProduct response
+ */
+export const ProductAnalysisResponseSchema = z.object({
+  productName: OptionalText,
+  brandName: OptionalText,
+  size: OptionalText,
+  category: OptionalText,
+  keywords: z.array(z.string()).nullish().transform(value => value ?? []),
+  visualCharacteristics: z
+    .object({
+      colors: z.array(z.string()).default([]),
+      packaging: z.string().default(''),
+      shape: z.string().default(''),
+    })
+    .nullable()
+    .optional()
+    .transform(value => value ?? { colors: [], packaging: '', shape: '' }),
+  confidence: ConfidenceSchema,
+});
+
+/**
+ * Score, explanation and key factors of one dimension
+ */
+const DimensionScoreSchema = z.object({
+  score: z.number().min(0).max(100),
+  explanation: z.string().min(1),
+  keyFactors: z.array(z.string()).min(1),
+});
+
+/**
+ * GeminiClient.analyzeDimensions response (all five dimensions)
+ */
+export const DimensionAnalysisResponseSchema = z.object({
+  dimensions: z.object({
+    health: DimensionScoreSchema,
+    processing: DimensionScoreSchema,
+    allergens: DimensionScoreSchema,
+    responsiblyProduced: DimensionScoreSchema,
+    environmentalImpact: DimensionScoreSchema,
+  }),
+  overallConfidence: ConfidenceSchema,
+});
+
+export type ProductAnalysisResponse = z.infer<typeof ProductAnalysisResponseSchema>;
+export type DimensionAnalysisResponse = z.infer<typeof DimensionAnalysisResponseSchema>;
@@ -0,0 +1,53 @@
+/**
+ * In-Process Rate Limit Store
+ *
+ * Map-backed RateLimitStore for tests, and the fallback of the rate limiter
+ * while MongoDB is unavailable. Counters are per process, so limits are
+ * only approximate when the app runs on several instances.
+ */
+
+import { applyRule } from './algorithms';
+import type { RateLimitDecision, RateLimitRule, RateLimitState, RateLimitStore } from './types';
+
+/**
+ * Number of counters above which expired ones are swept
+ */
+const SWEEP_THRESHOLD = 10_000;
+
+export class InProcessRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  async consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    if (this.counters.size > SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+
+    const counter = this.counters.get(key);
+    const current = counter && counter.expiresAt > now ? counter.state : {};
+    const { state, decision } = applyRule(current, rule, now);
+
+    if (decision.allowed) {
+      this.counters.set(key, { state, expiresAt: now + decision.resetMs });
+    }
+
+    return decision;
+  }
+
+  /**
+   * Remove expired counters
+   */
+  private sweep(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove every counter
+   */
+  clear(): void {
+    this.counters.clear();
+  }
+}
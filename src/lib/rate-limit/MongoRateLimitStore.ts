@@ -0,0 +1,104 @@
+/**
+ * MongoDB Rate Limit Store
+ *
+ * Shares counters between every instance of the app through the
+ * 'rate_limits' collection, one document per counter with a TTL index on
+ * expiresAt. Writes use optimistic concurrency: a counter is read, the rule
+ * applied in process, and the new state written only if the document's
+ * version is unchanged, retrying when a concurrent request got there first.
+ */
+
+import { MongoServerError, type Collection } from 'mongodb';
+import { getMongoClient } from '@/lib/mongodb/client';
+import type { RateLimitDocument } from '@/lib/mongodb/types';
+import { applyRule } from './algorithms';
+import type { RateLimitDecision, RateLimitRule, RateLimitStore } from './types';
+
+/**
+ * Attempts before giving up on a contended counter
+ */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * MongoDB duplicate key error code
+ */
+const DUPLICATE_KEY = 11000;
+
+export class MongoRateLimitStore implements RateLimitStore {
+  private collectionName = 'rate_limits';
+  private indexesEnsured: Promise<void> | null = null;
+
+  /**
+   * Get the rate limit collection
+   * Ensures indexes are created once per process
+   */
+  private async getCollection(): Promise<Collection<RateLimitDocument>> {
+    const db = await getMongoClient();
+    const collection = db.collection<RateLimitDocument>(this.collectionName);
+
+    if (!this.indexesEnsured) {
+      this.indexesEnsured = this.ensureIndexes(collection);
+    }
+    await this.indexesEnsured;
+
+    return collection;
+  }
+
+  /**
+   * Ensure the TTL index on expiresAt exists
+   * This method is idempotent and safe to call multiple times.
+   */
+  async ensureIndexes(collection?: Collection<RateLimitDocument>): Promise<void> {
+    try {
+      collection ??= (await getMongoClient()).collection<RateLimitDocument>(this.collectionName);
+
+      await collection.createIndex(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0, name: 'expiresAt_ttl' }
+      );
+    } catch (error) {
+      // Ignore errors if indexes already exist
+      if (error instanceof Error && !error.message.includes('already exists')) {
+        console.error('[Rate Limit Store] Error creating indexes:', error);
+      }
+    }
+  }
+
+  async consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    const collection = await this.getCollection();
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const document = await collection.findOne({ _id: key });
+      // The TTL monitor runs once a minute, so expired counters may linger
+      const current = document && document.expiresAt.getTime() > now ? document.state : {};
+      const { state, decision } = applyRule(current, rule, now);
+
+      if (!decision.allowed) {
+        return decision;
+      }
+
+      const expiresAt = new Date(now + decision.resetMs);
+
+      if (document) {
+        const result = await collection.updateOne(
+          { _id: key, version: document.version },
+          { $set: { state, expiresAt }, $inc: { version: 1 } }
+        );
+        if (result.matchedCount === 1) {
+          return decision;
+        }
+      } else {
+        try {
+          await collection.insertOne({ _id: key, state, version: 0, expiresAt });
+          return decision;
+        } catch (error) {
+          if (!(error instanceof MongoServerError && error.code === DUPLICATE_KEY)) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    throw new Error(`Rate limit counter ${key} is too contended to update`);
+  }
+}
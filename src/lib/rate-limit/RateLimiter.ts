@@ -0,0 +1,81 @@
+/**
+ * Rate Limiter
+ *
+ * Applies a route's rules for a tier to the counters of one identity.
+ * Rules run in policy order (route burst limit, then the daily quota) and
+ * stop at the first denial, so requests refused by the burst limit do not
+ * use up the quota. While the shared store is unavailable, counters fall
+ * back to this process so routes stay protected.
+ */
+
+import type { TierType } from '@/lib/types';
+import { InProcessRateLimitStore } from './InProcessRateLimitStore';
+import { RATE_LIMIT_POLICIES } from './policies';
+import type {
+  RateLimitDecision,
+  RateLimitedRoute,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from './types';
+
+export class RateLimiter {
+  /**
+   * @param store - Shared counter store
+   * @param fallback - Store used while the shared store fails
+   * @param policies - Rules per route and tier
+   */
+  constructor(
+    private store: RateLimitStore,
+    private fallback: RateLimitStore = new InProcessRateLimitStore(),
+    private policies: Record<RateLimitedRoute, RateLimitPolicy> = RATE_LIMIT_POLICIES
+  ) {}
+
+  /**
+   * Count a request against a route's limits
+   *
+   * @param route - Route being requested
+   * @param identity - `user:<id>` or `ip:<address>`
+   * @param tier - Tier of the requester
+   * @param now - Current time in milliseconds
+   */
+  async check(
+    route: RateLimitedRoute,
+    identity: string,
+    tier: TierType,
+    now: number = Date.now()
+  ): Promise<RateLimitResult> {
+    const decisions: RateLimitDecision[] = [];
+
+    for (const rule of this.policies[route][tier]) {
+      const decision = await this.consume(`${rule.id}:${identity}`, rule, now);
+      decisions.push(decision);
+
+      if (!decision.allowed) {
+        console.warn('[Rate Limiter] ⚠️  Rate limit exceeded:', {
+          route,
+          identity,
+          tier,
+          rule: rule.id,
+          retryAfterMs: decision.retryAfterMs,
+        });
+        return { allowed: false, identity, tier, decisions };
+      }
+    }
+
+    return { allowed: true, identity, tier, decisions };
+  }
+
+  private async consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    try {
+      return await this.store.consume(key, rule, now);
+    } catch (error) {
+      console.warn(
+        '[Rate Limiter] ⚠️  Shared store unavailable, counting in process:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return this.fallback.consume(key, rule, now);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Tests for the Rate Limiter
+ * Validates the sliding-window and token-bucket algorithms, per-tier
+ * policies, the shared daily quota, store fallback, and the middleware's
+ * identity, tier and RateLimit-* headers, on the in-process store
+ *
+ * @jest-environment node
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import { slidingWindow, tokenBucket } from '../algorithms';
+import {
+  InProcessRateLimitStore,
+  RateLimiter,
+  withRateLimit,
+  type RateLimitedRoute,
+  type RateLimitPolicy,
+  type RateLimitRule,
+  type RateLimitStore,
+} from '../index';
+
+jest.mock('@/lib/supabase/server-client', () => ({
+  getSupabaseServerClient: jest.fn(),
+}));
+
+const mockGetSupabaseServerClient = getSupabaseServerClient as jest.MockedFunction<typeof getSupabaseServerClient>;
+
+const MINUTE = 60 * 1000;
+const quota: RateLimitRule = { id: 'daily-quota', algorithm: 'token-bucket', limit: 3, windowMs: 24 * 60 * MINUTE };
+
+function routePolicy(id: string, free: number, premium: number): RateLimitPolicy {
+  return {
+    free: [{ id, algorithm: 'sliding-window', limit: free, windowMs: MINUTE }, quota],
+    premium: [{ id, algorithm: 'sliding-window', limit: premium, windowMs: MINUTE }, { ...quota, limit: 10 }],
+  };
+}
+
+const policies: Record<RateLimitedRoute, RateLimitPolicy> = {
+  scan: routePolicy('scan', 2, 5),
+  'scan-multi-tier': routePolicy('scan-multi-tier', 2, 5),
+  'analyze-nutrition': routePolicy('analyze-nutrition', 2, 5),
+  'test-all-extraction': routePolicy('test-all-extraction', 2, 5),
+};
+
+describe('Rate Limiter', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('algorithms', () => {
+    const rule: RateLimitRule = { id: 'test', algorithm: 'sliding-window', limit: 2, windowMs: MINUTE };
+
+    it('allows a sliding window of requests and frees slots as they age out', () => {
+      let step = slidingWindow({}, rule, 0);
+      step = slidingWindow(step.state, rule, 10_000);
+      const denied = slidingWindow(step.state, rule, 20_000);
+
+      expect(step.decision).toMatchObject({ allowed: true, remaining: 0, resetMs: MINUTE });
+      expect(denied.decision).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 40_000 });
+      expect(slidingWindow(step.state, rule, MINUTE + 1).decision).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('refills a token bucket continuously', () => {
+      const bucket: RateLimitRule = { ...rule, algorithm: 'token-bucket' };
+      let step = tokenBucket({}, bucket, 0);
+      step = tokenBucket(step.state, bucket, 0);
+      const denied = tokenBucket(step.state, bucket, 0);
+
+      expect(step.decision).toMatchObject({ allowed: true, remaining: 0, resetMs: MINUTE });
+      expect(denied.decision).toMatchObject({ allowed: false, retryAfterMs: 30_000 });
+      expect(tokenBucket(step.state, bucket, 30_000).decision).toMatchObject({ allowed: true, remaining: 0 });
+    });
+  });
+
+  describe('RateLimiter', () => {
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+      limiter = new RateLimiter(new InProcessRateLimitStore(), new InProcessRateLimitStore(), policies);
+    });
+
+    it('applies the limits of the tier', async () => {
+      for (let i = 0; i < 2; i++) {
+        expect((await limiter.check('scan', 'user:a', 'free', 0)).allowed).toBe(true);
+        expect((await limiter.check('scan', 'user:b', 'premium', 0)).allowed).toBe(true);
+      }
+
+      expect((await limiter.check('scan', 'user:a', 'free', 0)).allowed).toBe(false);
+      expect((await limiter.check('scan', 'user:b', 'premium', 0)).allowed).toBe(true);
+    });
+
+    it('shares the daily quota across routes', async () => {
+      await limiter.check('scan', 'user:a', 'free', 0);
+      await limiter.check('scan', 'user:a', 'free', 0);
+      await limiter.check('analyze-nutrition', 'user:a', 'free', 0);
+
+      const result = await limiter.check('scan-multi-tier', 'user:a', 'free', 0);
+
+      expect(result.allowed).toBe(false);
+      expect(result.decisions.map(decision => [decision.rule.id, decision.allowed])).toEqual([
+        ['scan-multi-tier', true],
+        ['daily-quota', false],
+      ]);
+    });
+
+    it('does not draw from the quota when the route limit refuses', async () => {
+      for (let i = 0; i < 3; i++) {
+        await limiter.check('scan', 'user:a', 'free', 0);
+      }
+
+      const result = await limiter.check('analyze-nutrition', 'user:a', 'free', 0);
+
+      expect(result.decisions[1]).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('counts in process while the shared store fails', async () => {
+      const failing: RateLimitStore = { consume: jest.fn().mockRejectedValue(new Error('Connection failed')) };
+      limiter = new RateLimiter(failing, new InProcessRateLimitStore(), policies);
+
+      await limiter.check('scan', 'ip:10.0.0.1', 'free', 0);
+      await limiter.check('scan', 'ip:10.0.0.1', 'free', 0);
+
+      expect((await limiter.check('scan', 'ip:10.0.0.1', 'free', 0)).allowed).toBe(false);
+      expect(console.warn).toHaveBeenCalledWith(
+        '[Rate Limiter] ⚠️  Shared store unavailable, counting in process:',
+        'Connection failed'
+      );
+    });
+  });
+
+  describe('withRateLimit', () => {
+    const getUser = jest.fn();
+    const handler = jest.fn(async () => NextResponse.json({ success: true }));
+    let POST: (request: NextRequest) => Promise<Response>;
+
+    function createRequest(body: Record<string, unknown>, headers: Record<string, string> = {}): NextRequest {
+      return new NextRequest('http://localhost:3000/api/scan', {
+        method: 'POST',
+        headers: new Headers({ 'content-type': 'application/json', 'x-forwarded-for': '10.0.0.1', ...headers }),
+        body: JSON.stringify(body),
+      });
+    }
+
+    beforeEach(() => {
+      getUser.mockReset();
+      handler.mockClear();
+      mockGetSupabaseServerClient.mockReturnValue({ auth: { getUser } } as never);
+      const limiter = new RateLimiter(new InProcessRateLimitStore(), new InProcessRateLimitStore(), policies);
+      POST = withRateLimit(limiter, 'scan', handler);
+    });
+
+    it('sets RateLimit headers on allowed responses', async () => {
+      const response = await POST(createRequest({ tier: 'free' }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('RateLimit-Limit')).toBe('2');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('1');
+      expect(response.headers.get('RateLimit-Reset')).toBe('60');
+      expect(response.headers.get('RateLimit-Policy')).toBe('2;w=60, 3;w=86400');
+      expect(response.headers.get('Retry-After')).toBeNull();
+    });
+
+    it('refuses with 429 and Retry-After without running the handler', async () => {
+      await POST(createRequest({ tier: 'free' }));
+      await POST(createRequest({ tier: 'free' }));
+
+      const response = await POST(createRequest({ tier: 'free' }));
+
+      expect(response.status).toBe(429);
+      expect(await response.json()).toEqual({ success: false, error: 'Too many requests. Please try again later.' });
+      expect(response.headers.get('Retry-After')).toBe('60');
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('uses the premium limits for verified premium users', async () => {
+      getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: { tier: 'premium' } } }, error: null });
+
+      const response = await POST(createRequest({}, { authorization: 'Bearer token' }));
+
+      expect(response.headers.get('RateLimit-Limit')).toBe('5');
+    });
+
+    it('ignores a premium tier claimed in the body', async () => {
+      getUser.mockResolvedValue({ data: { user: { id: 'user-1', app_metadata: {} } }, error: null });
+
+      const anonymous = await POST(createRequest({ tier: 'premium', devUserTier: 'premium' }));
+      const signedIn = await POST(createRequest({ tier: 'premium' }, { authorization: 'Bearer token' }));
+
+      expect(anonymous.headers.get('RateLimit-Limit')).toBe('2');
+      expect(signedIn.headers.get('RateLimit-Limit')).toBe('2');
+    });
+
+    it('keys requests by the verified user rather than the IP', async () => {
+      getUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+      const authorized = { authorization: 'Bearer token' };
+
+      await POST(createRequest({}, { ...authorized, 'x-forwarded-for': '10.0.0.1' }));
+      await POST(createRequest({}, { ...authorized, 'x-forwarded-for': '10.0.0.2' }));
+
+      expect((await POST(createRequest({}, { ...authorized, 'x-forwarded-for': '10.0.0.3' }))).status).toBe(429);
+      expect((await POST(createRequest({}))).status).toBe(200);
+      expect(getUser).toHaveBeenCalledWith('token');
+    });
+
+    it('falls back to the IP when the token does not verify', async () => {
+      getUser.mockResolvedValue({ data: { user: null }, error: { message: 'invalid JWT' } });
+
+      await POST(createRequest({}, { authorization: 'Bearer bad' }));
+      await POST(createRequest({}, { authorization: 'Bearer bad' }));
+
+      expect((await POST(createRequest({}))).status).toBe(429);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure functions from (state, rule, now) to the next state and a decision,
+ * so every store counts the same way. A denied request leaves the state
+ * unchanged and does not need to be written back.
+ */
+
+import type { RateLimitDecision, RateLimitRule, RateLimitState } from './types';
+
+/**
+ * Result of applying a rule to a counter
+ */
+export interface RateLimitStep {
+  state: RateLimitState;
+  decision: RateLimitDecision;
+}
+
+/**
+ * Sliding window log: keep the request times of the last window
+ */
+export function slidingWindow(state: RateLimitState, rule: RateLimitRule, now: number): RateLimitStep {
+  const hits = (state.hits ?? []).filter(time => time > now - rule.windowMs);
+  const allowed = hits.length < rule.limit;
+
+  if (allowed) {
+    hits.push(now);
+  }
+
+  const oldest = hits[0];
+  const newest = hits[hits.length - 1];
+
+  return {
+    state: { hits },
+    decision: {
+      rule,
+      allowed,
+      remaining: Math.max(0, rule.limit - hits.length),
+      resetMs: newest === undefined ? 0 : newest + rule.windowMs - now,
+      retryAfterMs: allowed || oldest === undefined ? 0 : oldest + rule.windowMs - now,
+    },
+  };
+}
+
+/**
+ * Token bucket: `limit` tokens, refilled continuously over `windowMs`
+ */
+export function tokenBucket(state: RateLimitState, rule: RateLimitRule, now: number): RateLimitStep {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const elapsed = Math.max(0, now - (state.updatedAt ?? now));
+  let tokens = Math.min(rule.limit, (state.tokens ?? rule.limit) + elapsed * refillPerMs);
+  const allowed = tokens >= 1;
+
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      rule,
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Apply a rule with its algorithm
+ *
+ * @param state - Stored state of the counter (empty for a new counter)
+ * @param rule - Rule to apply
+ * @param now - Current time in milliseconds
+ */
+export function applyRule(state: RateLimitState, rule: RateLimitRule, now: number): RateLimitStep {
+  return rule.algorithm === 'token-bucket'
+    ? tokenBucket(state, rule, now)
+    : slidingWindow(state, rule, now);
+}
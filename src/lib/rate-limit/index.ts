@@ -0,0 +1,46 @@
+/**
+ * Rate Limiting
+ *
+ * Entry point of the rate limiting subsystem. Routes wrap their handlers
+ * with rateLimited(); counters are shared through MongoDB.
+ */
+
+import type { RateLimitedRoute } from './types';
+import { RateLimiter } from './RateLimiter';
+import { MongoRateLimitStore } from './MongoRateLimitStore';
+import { withRateLimit, type RateLimitOptions, type RouteHandler } from './middleware';
+
+export * from './types';
+export { RateLimiter } from './RateLimiter';
+export { RATE_LIMIT_POLICIES, DAILY_QUOTAS } from './policies';
+export { InProcessRateLimitStore } from './InProcessRateLimitStore';
+export { MongoRateLimitStore } from './MongoRateLimitStore';
+export {
+  getClientIP,
+  rateLimitHeaders,
+  resolveIdentity,
+  resolveTier,
+  withRateLimit,
+  type RateLimitOptions,
+  type RouteHandler,
+} from './middleware';
+
+// Export singleton instance
+export const mongoRateLimitStore = new MongoRateLimitStore();
+export const rateLimiter = new RateLimiter(mongoRateLimitStore);
+
+/**
+ * Rate limit a route handler with the shared rate limiter
+ *
+ * @example
+ * ```typescript
+ * export const POST = rateLimited('scan', handleScan);
+ * ```
+ */
+export function rateLimited(
+  route: RateLimitedRoute,
+  handler: RouteHandler,
+  options?: RateLimitOptions
+): RouteHandler {
+  return withRateLimit(rateLimiter, route, handler, options);
+}
@@ -0,0 +1,165 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Wraps a route handler so every request is counted before it runs.
+ * Requests are keyed by the Supabase user of the access token
+ * (`Authorization: Bearer <token>`) when it verifies, otherwise by client
+ * IP. Premium limits apply only to verified users whose app_metadata tier
+ * is "premium" (set with the service role, users cannot change it); a tier
+ * claimed in the request body is ignored, so anonymous callers are free.
+ *
+ * Responses carry the RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset
+ * and RateLimit-Policy headers of the IETF RateLimit header fields draft,
+ * and refused requests get a 429 with Retry-After. Allowed requests run in
+ * a request context carrying the route, user and tier, which the LLM cost
+ * ledger uses to attribute model calls.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import type { TierType } from '@/lib/types';
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import { runWithRequestContext } from '@/lib/request-context';
+import type { RateLimiter } from './RateLimiter';
+import type { RateLimitDecision, RateLimitedRoute, RateLimitResult } from './types';
+
+/**
+ * Route handler without dynamic params
+ */
+export type RouteHandler = (request: NextRequest) => Promise<Response>;
+
+/**
+ * Options of withRateLimit
+ */
+export interface RateLimitOptions {
+  /** Body of the 429 response, in the route's error format */
+  limitedBody?: unknown;
+}
+
+const DEFAULT_LIMITED_BODY = {
+  success: false,
+  error: 'Too many requests. Please try again later.',
+};
+
+/**
+ * Extract client IP address from request
+ */
+export function getClientIP(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  const realIP = request.headers.get('x-real-ip');
+  if (realIP) {
+    return realIP;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Supabase user of the request's access token, null when absent or invalid
+ */
+async function verifyUser(request: NextRequest): Promise<User | null> {
+  const authHeader = request.headers.get('authorization');
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const supabase = getSupabaseServerClient();
+      const { data: { user } } = await supabase.auth.getUser(authHeader.substring(7));
+      return user ?? null;
+    } catch (error) {
+      console.warn(
+        '[Rate Limiter] ⚠️  Could not verify access token, limiting by IP:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Identity a request is counted against
+ *
+ * @returns `user:<id>` for a verified user, otherwise `ip:<address>`
+ */
+export function resolveIdentity(request: NextRequest, user: Pick<User, 'id'> | null): string {
+  return user ? `user:${user.id}` : `ip:${getClientIP(request)}`;
+}
+
+/**
+ * Tier of a verified user, from their app_metadata (free for anyone else)
+ */
+export function resolveTier(user: Pick<User, 'app_metadata'> | null): TierType {
+  return user?.app_metadata?.tier === 'premium' ? 'premium' : 'free';
+}
+
+/**
+ * Decision reported in the headers: the refusal, or the rule closest to
+ * refusing
+ */
+function bindingDecision(result: RateLimitResult): RateLimitDecision {
+  return result.decisions.reduce((binding, decision) =>
+    !decision.allowed || decision.remaining < binding.remaining ? decision : binding
+  );
+}
+
+/**
+ * RateLimit-* (and, when refused, Retry-After) headers of a result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const decision = bindingDecision(result);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.rule.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+    'RateLimit-Policy': result.decisions
+      .map(({ rule }) => `${rule.limit};w=${Math.round(rule.windowMs / 1000)}`)
+      .join(', '),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+
+  return headers;
+}
+
+/**
+ * Rate limit a route handler
+ *
+ * @param limiter - Rate limiter to count with
+ * @param route - Route whose policy applies
+ * @param handler - Route handler to run for allowed requests
+ * @param options - Body of the 429 response
+ */
+export function withRateLimit(
+  limiter: RateLimiter,
+  route: RateLimitedRoute,
+  handler: RouteHandler,
+  options: RateLimitOptions = {}
+): RouteHandler {
+  return async (request: NextRequest) => {
+    const user = await verifyUser(request);
+    const identity = resolveIdentity(request, user);
+    const tier = resolveTier(user);
+    const result = await limiter.check(route, identity, tier);
+    const headers = rateLimitHeaders(result);
+
+    if (!result.allowed) {
+      return NextResponse.json(options.limitedBody ?? DEFAULT_LIMITED_BODY, { status: 429, headers });
+    }
+
+    const response = await runWithRequestContext({ route, userId: user?.id ?? null, tier }, () => handler(request));
+    try {
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+    } catch {
+      // Responses with immutable headers (e.g. proxied fetches) go out as they are
+    }
+    return response;
+  };
+}
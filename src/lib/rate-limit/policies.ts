@@ -0,0 +1,45 @@
+/**
+ * Rate Limit Policies
+ *
+ * Per-route, per-tier limits. Every route also draws from a daily quota
+ * shared by all expensive routes, so a user cannot multiply their
+ * allowance by spreading requests across endpoints.
+ */
+
+import type { TierType } from '@/lib/types';
+import type { RateLimitedRoute, RateLimitPolicy, RateLimitRule } from './types';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Daily quota per tier, shared by every rate-limited route
+ */
+export const DAILY_QUOTAS: Record<TierType, RateLimitRule> = {
+  free: { id: 'daily-quota', algorithm: 'token-bucket', limit: 100, windowMs: DAY },
+  premium: { id: 'daily-quota', algorithm: 'token-bucket', limit: 1000, windowMs: DAY },
+};
+
+/**
+ * Policy of a route: its own burst limit, then the daily quota
+ */
+function policy(
+  id: RateLimitedRoute,
+  algorithm: RateLimitRule['algorithm'],
+  perMinute: Record<TierType, number>
+): RateLimitPolicy {
+  return {
+    free: [{ id, algorithm, limit: perMinute.free, windowMs: MINUTE }, DAILY_QUOTAS.free],
+    premium: [{ id, algorithm, limit: perMinute.premium, windowMs: MINUTE }, DAILY_QUOTAS.premium],
+  };
+}
+
+export const RATE_LIMIT_POLICIES: Record<RateLimitedRoute, RateLimitPolicy> = {
+  // Requirement 10.3: 10 scans per minute
+  scan: policy('scan', 'sliding-window', { free: 10, premium: 30 }),
+  'scan-multi-tier': policy('scan-multi-tier', 'token-bucket', { free: 10, premium: 30 }),
+  // Requirements 9.6, 9.7: 5 analyses per minute (free), 20 (premium)
+  'analyze-nutrition': policy('analyze-nutrition', 'sliding-window', { free: 5, premium: 20 }),
+  // Runs every extraction tier per request
+  'test-all-extraction': policy('test-all-extraction', 'token-bucket', { free: 3, premium: 10 }),
+};
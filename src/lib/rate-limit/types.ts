@@ -0,0 +1,93 @@
+/**
+ * Rate Limit Types
+ *
+ * Rules, per-key state and decisions shared by the rate limiter and its
+ * stores.
+ */
+
+import type { TierType } from '@/lib/types';
+
+/**
+ * Routes guarded by the rate limiter
+ */
+export type RateLimitedRoute =
+  | 'scan'
+  | 'scan-multi-tier'
+  | 'analyze-nutrition'
+  | 'test-all-extraction';
+
+/**
+ * Counting algorithm of a rule
+ * - sliding-window: at most `limit` requests in any `windowMs` period
+ * - token-bucket: bursts of up to `limit` requests, refilled at
+ *   `limit` tokens per `windowMs`
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * A single limit
+ */
+export interface RateLimitRule {
+  /** Counter name; rules with the same id share a counter across routes */
+  id: string;
+  algorithm: RateLimitAlgorithm;
+  /** Requests per window (sliding window) or bucket capacity (token bucket) */
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Rules applied to a route, per user tier
+ * Rules are applied in order and the first one that denies stops the rest
+ */
+export type RateLimitPolicy = Record<TierType, RateLimitRule[]>;
+
+/**
+ * Stored state of one counter
+ */
+export interface RateLimitState {
+  /** Request times in the current window (sliding window) */
+  hits?: number[];
+  /** Tokens left at updatedAt (token bucket) */
+  tokens?: number;
+  updatedAt?: number;
+}
+
+/**
+ * Outcome of applying one rule
+ */
+export interface RateLimitDecision {
+  rule: RateLimitRule;
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the counter is fully reset */
+  resetMs: number;
+  /** Milliseconds until a denied request could succeed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+/**
+ * Outcome of checking every rule of a route
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** `user:<id>` for authenticated users, otherwise `ip:<address>` */
+  identity: string;
+  tier: TierType;
+  /** Decisions of the rules applied, in policy order */
+  decisions: RateLimitDecision[];
+}
+
+/**
+ * Persistence of counters
+ */
+export interface RateLimitStore {
+  /**
+   * Apply a rule to a counter, recording the request if it is allowed
+   *
+   * @param key - Counter key (`<rule id>:<identity>`)
+   * @param rule - Rule to apply
+   * @param now - Current time in milliseconds
+   */
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,85 @@
+/**
+ * Request Context
+ *
+ * Who a request is served for (route, user, tier), available anywhere in
+ * its call stack without threading it through every service. The rate
+ * limit middleware opens a context for each request to a rate-limited
+ * route; the LLM cost ledger reads it to attribute model calls.
+ *
+ * Cost scopes let a caller total the model cost of one step of a request
+ * (see measureLLMCost).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { TierType } from '@/lib/types';
+
+/**
+ * Accumulator of model cost
+ */
+export interface LLMCostScope {
+  costUsd: number;
+  calls: number;
+}
+
+/**
+ * Context of one request
+ */
+export interface RequestContext {
+  requestId: string;
+  route: string | null;
+  userId: string | null; // Verified Supabase user, null for anonymous requests
+  tier: TierType | null;
+  costScopes: LLMCostScope[]; // Innermost last
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Context of the current request, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run a function in a new request context
+ *
+ * @param context - Route, user and tier of the request
+ * @param fn - Function to run
+ */
+export function runWithRequestContext<T>(
+  context: Pick<RequestContext, 'route' | 'userId' | 'tier'>,
+  fn: () => T
+): T {
+  return storage.run({ ...context, requestId: randomUUID(), costScopes: [] }, fn);
+}
+
+/**
+ * Add a model call's cost to every open cost scope
+ */
+export function addLLMCost(costUsd: number): void {
+  for (const scope of storage.getStore()?.costScopes ?? []) {
+    scope.costUsd += costUsd;
+    scope.calls++;
+  }
+}
+
+/**
+ * Run a function and total the cost of the model calls it makes
+ *
+ * @example
+ * ```typescript
+ * const { result, costUsd } = await measureLLMCost(() => dimensionAnalyzer.analyze(request));
+ * ```
+ */
+export async function measureLLMCost<T>(fn: () => Promise<T>): Promise<{ result: T; costUsd: number; calls: number }> {
+  const scope: LLMCostScope = { costUsd: 0, calls: 0 };
+  const parent = storage.getStore();
+  const context: RequestContext = parent
+    ? { ...parent, costScopes: [...parent.costScopes, scope] }
+    : { requestId: randomUUID(), route: null, userId: null, tier: null, costScopes: [scope] };
+
+  const result = await storage.run(context, fn);
+  return { result, costUsd: scope.costUsd, calls: scope.calls };
+}
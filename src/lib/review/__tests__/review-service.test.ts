@@ -0,0 +1,229 @@
+/**
+ * Review Service Tests
+ * 
+ * Tests review action parsing, the audit trail, cache invalidation and
+ * reviewer authorization.
+ */
+
+import type { Product } from '@/lib/supabase/types';
+import type { ProductRepositoryMultiTier } from '@/lib/supabase/repositories/ProductRepositoryMultiTier';
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import { cacheLayer } from '@/lib/cache';
+import { parseReviewAction, ReviewError, ReviewService } from '../review-service';
+import { isReviewer } from '../reviewer-auth';
+
+jest.mock('@/lib/supabase/server-client');
+jest.mock('@/lib/supabase/repositories/ProductRepositoryMultiTier', () => ({
+  productRepositoryMultiTier: {},
+}));
+jest.mock('@/lib/cache', () => ({
+  cacheLayer: { invalidateProduct: jest.fn().mockResolvedValue(0) },
+}));
+
+interface QueryCall {
+  table: string;
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Supabase client whose queries record their calls and resolve to `result`
+ */
+function mockSupabase(calls: QueryCall[], result: (table: string) => { data: unknown; error: null }) {
+  return {
+    from: (table: string) => {
+      const query: Record<string, unknown> = {};
+      for (const method of ['select', 'insert', 'update', 'eq', 'in', 'order', 'single']) {
+        query[method] = (...args: unknown[]) => {
+          calls.push({ table, method, args });
+          return query;
+        };
+      }
+      query.then = (resolve: (value: unknown) => void) => resolve(result(table));
+      return query;
+    },
+  };
+}
+
+function product(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'product-1',
+    barcode: '00012345678905',
+    name: 'Granola',
+    brand: 'Acme',
+    size: null,
+    category: null,
+    image_url: null,
+    metadata: {},
+    flagged_for_review: true,
+    nutrition_data: null,
+    health_score: null,
+    has_allergens: false,
+    allergen_types: [],
+    last_scanned_at: null,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const reviewer = { id: 'reviewer-1', email: 'reviewer@example.com' };
+
+describe('parseReviewAction', () => {
+  it('should parse each action', () => {
+    expect(parseReviewAction({ action: 'edit', fields: { name: ' Granola Crunch ' } }, 'product-1'))
+      .toEqual({ action: 'edit', fields: { name: 'Granola Crunch' }, note: undefined });
+    expect(parseReviewAction({ action: 'merge', duplicateId: 'product-2', note: 'same item' }, 'product-1'))
+      .toEqual({ action: 'merge', duplicateId: 'product-2', note: 'same item' });
+    expect(parseReviewAction({ action: 'approve' }, 'product-1')).toEqual({ action: 'approve', note: undefined });
+    expect(parseReviewAction({ action: 'note', note: 'checked packaging' }, 'product-1'))
+      .toEqual({ action: 'note', note: 'checked packaging' });
+  });
+
+  it('should reject invalid requests', () => {
+    expect(() => parseReviewAction({ action: 'delete' }, 'product-1')).toThrow(ReviewError);
+    expect(() => parseReviewAction({ action: 'edit', fields: { health_score: 90 } }, 'product-1')).toThrow('Field cannot be edited: health_score');
+    expect(() => parseReviewAction({ action: 'edit', fields: { name: '' } }, 'product-1')).toThrow('name must be a non-empty string');
+    expect(() => parseReviewAction({ action: 'edit', fields: { allergen_types: 'milk' } }, 'product-1')).toThrow(ReviewError);
+    expect(() => parseReviewAction({ action: 'merge' }, 'product-1')).toThrow('duplicateId is required');
+    expect(() => parseReviewAction({ action: 'merge', duplicateId: 'product-1' }, 'product-1'))
+      .toThrow('A product cannot be merged into itself');
+    expect(() => parseReviewAction({ action: 'note', note: '  ' }, 'product-1')).toThrow('note is required');
+  });
+});
+
+describe('ReviewService', () => {
+  let calls: QueryCall[];
+  let repository: Record<string, jest.Mock>;
+  let service: ReviewService;
+  let stored: Product;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    calls = [];
+    stored = product();
+
+    (getSupabaseServerClient as jest.Mock).mockReturnValue(
+      mockSupabase(calls, table => ({
+        data: table === 'product_review_actions' ? { id: 'audit-1' } : [],
+        error: null,
+      }))
+    );
+
+    repository = {
+      findById: jest.fn(async (id: string) => (id === stored.id ? stored : null)),
+      update: jest.fn(async (_id: string, data: Partial<Product>) => (stored = { ...stored, ...data })),
+      mergeDuplicate: jest.fn(),
+      getFlaggedProducts: jest.fn(),
+    };
+    service = new ReviewService(repository as unknown as ProductRepositoryMultiTier);
+  });
+
+  const auditInsert = () => calls.find(call => call.table === 'product_review_actions' && call.method === 'insert')?.args[0];
+
+  it('should record edits as user corrections and audit the changes', async () => {
+    const { product: updated } = await service.applyAction('product-1', reviewer, {
+      action: 'edit',
+      fields: { name: 'Granola Crunch', brand: 'Acme' },
+      note: 'name from packaging photo',
+    });
+
+    expect(repository.update).toHaveBeenCalledWith('product-1', expect.objectContaining({ name: 'Granola Crunch' }), false);
+    expect(updated.field_provenance?.name?.current).toMatchObject({ value: 'Granola Crunch', source: 'user_correction', confidence: 1 });
+    expect(updated.field_provenance?.brand).toBeUndefined();
+
+    expect(auditInsert()).toEqual({
+      product_id: 'product-1',
+      reviewer_id: 'reviewer-1',
+      reviewer_email: 'reviewer@example.com',
+      action: 'edit',
+      changes: { name: { from: 'Granola', to: 'Granola Crunch' } },
+      merged_product_id: null,
+      note: 'name from packaging photo',
+    });
+    expect(cacheLayer.invalidateProduct).toHaveBeenCalledWith('product-1', '00012345678905');
+  });
+
+  it('should reject edits that change nothing', async () => {
+    await expect(service.applyAction('product-1', reviewer, { action: 'edit', fields: { name: 'Granola' } }))
+      .rejects.toThrow('No field values changed');
+    expect(auditInsert()).toBeUndefined();
+  });
+
+  it('should approve a product and resolve its pending error reports', async () => {
+    const { product: updated } = await service.applyAction('product-1', reviewer, { action: 'approve' });
+
+    expect(updated.flagged_for_review).toBe(false);
+    expect(updated.metadata).toMatchObject({ review_status: 'approved', reviewed_by: 'reviewer-1' });
+
+    const reportUpdate = calls.find(call => call.table === 'error_reports' && call.method === 'update');
+    expect(reportUpdate?.args[0]).toMatchObject({ status: 'resolved' });
+    expect(calls).toContainEqual({ table: 'error_reports', method: 'eq', args: ['status', 'pending'] });
+    expect(auditInsert()).toMatchObject({ action: 'approve', changes: { flagged_for_review: { from: true, to: false } } });
+  });
+
+  it('should merge a duplicate and invalidate both products', async () => {
+    const duplicate = product({ id: 'product-2', barcode: null, name: 'Granola (OCR)', size: '500 g' });
+    repository.findById.mockImplementation(async (id: string) => (id === 'product-2' ? duplicate : stored));
+    repository.mergeDuplicate.mockResolvedValue({ ...stored, size: '500 g' });
+
+    await service.applyAction('product-1', reviewer, { action: 'merge', duplicateId: 'product-2' });
+
+    expect(repository.mergeDuplicate).toHaveBeenCalledWith('product-1', 'product-2', false);
+    expect(auditInsert()).toMatchObject({
+      action: 'merge',
+      merged_product_id: 'product-2',
+      changes: { size: { from: null, to: '500 g' } },
+    });
+    expect(cacheLayer.invalidateProduct).toHaveBeenCalledWith('product-2', null);
+  });
+
+  it('should record notes without touching the product or caches', async () => {
+    await service.applyAction('product-1', reviewer, { action: 'note', note: 'waiting for a clearer photo' });
+
+    expect(repository.update).not.toHaveBeenCalled();
+    expect(auditInsert()).toMatchObject({ action: 'note', note: 'waiting for a clearer photo', changes: {} });
+    expect(cacheLayer.invalidateProduct).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown products', async () => {
+    await expect(service.applyAction('missing', reviewer, { action: 'approve' }))
+      .rejects.toMatchObject({ name: 'ReviewError', status: 404 });
+  });
+
+  it('should count pending error reports in the queue', async () => {
+    repository.getFlaggedProducts.mockResolvedValue([stored, product({ id: 'product-2' })]);
+    (getSupabaseServerClient as jest.Mock).mockReturnValue(
+      mockSupabase(calls, () => ({
+        data: [{ incorrect_product_id: 'product-1' }, { incorrect_product_id: 'product-1' }],
+        error: null,
+      }))
+    );
+
+    const queue = await service.getQueue();
+
+    expect(queue.map(item => [item.product.id, item.pendingReports])).toEqual([['product-1', 2], ['product-2', 0]]);
+  });
+});
+
+describe('isReviewer', () => {
+  const originalEmails = process.env.REVIEWER_EMAILS;
+
+  afterEach(() => {
+    process.env.REVIEWER_EMAILS = originalEmails;
+  });
+
+  it('should accept reviewer and admin roles', () => {
+    expect(isReviewer({ email: 'a@example.com', app_metadata: { role: 'reviewer' } })).toBe(true);
+    expect(isReviewer({ email: 'a@example.com', app_metadata: { role: 'admin' } })).toBe(true);
+    expect(isReviewer({ email: 'a@example.com', app_metadata: {} })).toBe(false);
+  });
+
+  it('should accept confirmed emails listed in REVIEWER_EMAILS', () => {
+    process.env.REVIEWER_EMAILS = 'qa@example.com, Lead@Example.com';
+    const confirmed = '2026-03-01T00:00:00Z';
+    expect(isReviewer({ email: 'lead@example.com', email_confirmed_at: confirmed, app_metadata: {} })).toBe(true);
+    expect(isReviewer({ email: 'other@example.com', email_confirmed_at: confirmed, app_metadata: {} })).toBe(false);
+    expect(isReviewer({ email: 'lead@example.com', app_metadata: {} })).toBe(false);
+  });
+});
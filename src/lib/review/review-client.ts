@@ -0,0 +1,33 @@
+/**
+ * Review API client for the /review pages
+ */
+
+/**
+ * Call the review API with the reviewer's access token
+ *
+ * @param path - API path (e.g. /api/review)
+ * @param accessToken - Supabase session access token
+ * @param init - Fetch options (JSON body is serialized)
+ * @returns Parsed response body
+ * @throws Error with the API error message if the request fails
+ */
+export async function reviewRequest<T>(
+  path: string,
+  accessToken: string,
+  init: { method?: 'GET' | 'POST'; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(path, {
+    method: init.method || 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
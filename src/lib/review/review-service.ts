@@ -0,0 +1,509 @@
+/**
+ * Review Service
+ *
+ * Backs the human review queue for products flagged by the Error Reporter
+ * and DataMerger (flagged_for_review). Reviewers can edit fields, merge a
+ * duplicate into the product, approve or reject it, and leave notes.
+ *
+ * Every action is written to the product_review_actions audit trail and
+ * invalidates the product's scan cache (CacheService) and dimension cache
+ * (DimensionCacheService) entries. Field edits are recorded in the field
+ * provenance as user corrections, so later scans cannot overwrite them.
+ */
+
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+import {
+  productRepositoryMultiTier,
+  type ProductRepositoryMultiTier,
+} from '@/lib/supabase/repositories/ProductRepositoryMultiTier';
+import { cacheLayer } from '@/lib/cache';
+import {
+  currentObservation,
+  fieldValuesEqual,
+  getFieldHistory,
+  recordObservation,
+} from '@/lib/multi-image/FieldProvenance';
+import type {
+  ErrorReport,
+  Product,
+  ProductFieldProvenance,
+  ProductReviewAction,
+  ProductReviewActionInsert,
+  ProductUpdate,
+  ReviewActionType,
+  ReviewFieldChange,
+} from '@/lib/supabase/types';
+import type { Reviewer } from './reviewer-auth';
+
+/**
+ * Fields reviewers can edit
+ */
+export const REVIEW_EDITABLE_FIELDS = [
+  'name',
+  'brand',
+  'size',
+  'category',
+  'barcode',
+  'image_url',
+  'has_allergens',
+  'allergen_types',
+] as const;
+
+export type ReviewEditableField = typeof REVIEW_EDITABLE_FIELDS[number];
+
+export type ReviewFieldEdits = Partial<Pick<ProductUpdate, ReviewEditableField>>;
+
+/**
+ * Review action requested by a reviewer
+ */
+export type ReviewActionRequest =
+  | { action: 'edit'; fields: ReviewFieldEdits; note?: string }
+  | { action: 'merge'; duplicateId: string; note?: string }
+  | { action: 'approve' | 'reject'; note?: string }
+  | { action: 'note'; note: string };
+
+/**
+ * Outcome of a review action
+ */
+export interface ReviewActionResult {
+  product: Product;
+  auditEntry: ProductReviewAction;
+}
+
+/**
+ * Flagged product in the review queue
+ */
+export interface ReviewQueueItem {
+  product: Product;
+  pendingReports: number;
+  conflictCount: number;
+}
+
+/**
+ * Image related to a flagged product
+ */
+export interface ReviewImage {
+  source: 'product' | 'error_report' | 'capture';
+  url?: string;
+  imageHash?: string;
+  imageType?: string;
+  timestamp?: string;
+}
+
+/**
+ * Conflict stored in product metadata by DataMerger (ConflictInfo as JSON)
+ */
+export interface StoredConflict {
+  field: string;
+  values: Array<{ value: unknown; source: string; timestamp: string }>;
+}
+
+/**
+ * Everything a reviewer needs to decide on a flagged product
+ */
+export interface ReviewDetail {
+  product: Product;
+  errorReports: ErrorReport[];
+  images: ReviewImage[];
+  conflicts: StoredConflict[];
+  extractionSteps: Record<string, unknown>;
+  fieldHistory: ReturnType<typeof getFieldHistory>;
+  auditTrail: ProductReviewAction[];
+}
+
+/**
+ * Error with the HTTP status the review API should respond with
+ */
+export class ReviewError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+const REVIEW_ACTIONS: ReviewActionType[] = ['edit', 'merge', 'approve', 'reject', 'note'];
+
+/**
+ * Check an edited field value
+ *
+ * @returns Error message, or null if the value is valid
+ */
+function validateFieldValue(field: ReviewEditableField, value: unknown): string | null {
+  switch (field) {
+    case 'name':
+    case 'brand':
+      return typeof value === 'string' && value.trim().length > 0 ? null : `${field} must be a non-empty string`;
+    case 'has_allergens':
+      return typeof value === 'boolean' ? null : 'has_allergens must be a boolean';
+    case 'allergen_types':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : 'allergen_types must be an array of strings';
+    default:
+      return value === null || typeof value === 'string' ? null : `${field} must be a string or null`;
+  }
+}
+
+/**
+ * Parse and validate a review action request body
+ *
+ * @param body - JSON request body
+ * @param productId - Reviewed product
+ * @returns Review action
+ * @throws ReviewError if the body is invalid
+ */
+export function parseReviewAction(body: unknown, productId: string): ReviewActionRequest {
+  if (!body || typeof body !== 'object') {
+    throw new ReviewError('Request body must be a JSON object');
+  }
+
+  const { action, note, fields, duplicateId } = body as Record<string, unknown>;
+
+  if (!REVIEW_ACTIONS.includes(action as ReviewActionType)) {
+    throw new ReviewError(`action must be one of: ${REVIEW_ACTIONS.join(', ')}`);
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    throw new ReviewError('note must be a string');
+  }
+  const trimmedNote = typeof note === 'string' && note.trim() ? note.trim() : undefined;
+
+  switch (action) {
+    case 'edit': {
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        throw new ReviewError('fields must be an object of field values');
+      }
+      const edits: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(fields)) {
+        if (!REVIEW_EDITABLE_FIELDS.includes(field as ReviewEditableField)) {
+          throw new ReviewError(`Field cannot be edited: ${field}`);
+        }
+        const error = validateFieldValue(field as ReviewEditableField, value);
+        if (error) {
+          throw new ReviewError(error);
+        }
+        edits[field] = typeof value === 'string' ? value.trim() : value;
+      }
+      if (Object.keys(edits).length === 0) {
+        throw new ReviewError('fields must contain at least one field');
+      }
+      return { action, fields: edits as ReviewFieldEdits, note: trimmedNote };
+    }
+    case 'merge':
+      if (typeof duplicateId !== 'string' || !duplicateId) {
+        throw new ReviewError('duplicateId is required');
+      }
+      if (duplicateId === productId) {
+        throw new ReviewError('A product cannot be merged into itself');
+      }
+      return { action, duplicateId, note: trimmedNote };
+    case 'note':
+      if (!trimmedNote) {
+        throw new ReviewError('note is required');
+      }
+      return { action, note: trimmedNote };
+    default:
+      return { action: action as 'approve' | 'reject', note: trimmedNote };
+  }
+}
+
+/**
+ * Changes between two versions of a product, limited to the given fields
+ */
+function diffProducts(before: Product, after: Product, fields: readonly (keyof Product)[]): Record<string, ReviewFieldChange> {
+  const changes: Record<string, ReviewFieldChange> = {};
+  for (const field of fields) {
+    if (!fieldValuesEqual(before[field], after[field])) {
+      changes[field] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Review Service
+ */
+export class ReviewService {
+  constructor(private readonly repository: ProductRepositoryMultiTier = productRepositoryMultiTier) {}
+
+  /**
+   * List flagged products, most recently updated first
+   *
+   * @param limit - Maximum number of products
+   */
+  async getQueue(limit: number = 50): Promise<ReviewQueueItem[]> {
+    const products = await this.repository.getFlaggedProducts(limit);
+    if (products.length === 0) {
+      return [];
+    }
+
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('error_reports')
+      .select('incorrect_product_id')
+      .in('incorrect_product_id', products.map(product => product.id))
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to count error reports: ${error.message}`);
+    }
+
+    const pending = new Map<string, number>();
+    for (const report of (data || []) as Array<{ incorrect_product_id: string }>) {
+      pending.set(report.incorrect_product_id, (pending.get(report.incorrect_product_id) || 0) + 1);
+    }
+
+    return products.map(product => ({
+      product,
+      pendingReports: pending.get(product.id) || 0,
+      conflictCount: (product.metadata?.conflicts || []).length,
+    }));
+  }
+
+  /**
+   * Load a product with its error reports, images, conflicts, extraction
+   * steps, field history and review audit trail
+   *
+   * @param productId - Product ID
+   * @throws ReviewError (404) if the product does not exist
+   */
+  async getDetail(productId: string): Promise<ReviewDetail> {
+    const product = await this.requireProduct(productId);
+    const supabase = getSupabaseServerClient();
+
+    const [reports, audit] = await Promise.all([
+      supabase
+        .from('error_reports')
+        .select('*')
+        .eq('incorrect_product_id', productId)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('product_review_actions')
+        .select('*')
+        .eq('product_id', productId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (reports.error) {
+      throw new Error(`Failed to load error reports: ${reports.error.message}`);
+    }
+    if (audit.error) {
+      throw new Error(`Failed to load review history: ${audit.error.message}`);
+    }
+
+    const errorReports = (reports.data || []) as ErrorReport[];
+
+    return {
+      product,
+      errorReports,
+      images: this.collectImages(product, errorReports),
+      conflicts: product.metadata?.conflicts || [],
+      extractionSteps: product.metadata?.extraction_steps || {},
+      fieldHistory: getFieldHistory(product),
+      auditTrail: (audit.data || []) as ProductReviewAction[],
+    };
+  }
+
+  /**
+   * Apply a review action to a product
+   *
+   * @param productId - Reviewed product
+   * @param reviewer - Reviewer taking the action
+   * @param request - Action to apply
+   * @returns Product after the action and the audit trail entry
+   * @throws ReviewError if the product or duplicate does not exist or nothing changes
+   */
+  async applyAction(productId: string, reviewer: Reviewer, request: ReviewActionRequest): Promise<ReviewActionResult> {
+    const product = await this.requireProduct(productId);
+    console.log(`[Review Service] 📝 ${request.action} on product ${productId} by ${reviewer.email || reviewer.id}`);
+
+    let updated = product;
+    let changes: Record<string, ReviewFieldChange> = {};
+    let mergedProductId: string | null = null;
+    const invalidate = [product];
+
+    switch (request.action) {
+      case 'edit':
+        updated = await this.editFields(product, request.fields);
+        changes = diffProducts(product, updated, REVIEW_EDITABLE_FIELDS);
+        break;
+
+      case 'merge': {
+        const duplicate = await this.requireProduct(request.duplicateId);
+        updated = await this.repository.mergeDuplicate(productId, duplicate.id, false);
+        changes = diffProducts(product, updated, [...REVIEW_EDITABLE_FIELDS, 'nutrition_data', 'health_score']);
+        mergedProductId = duplicate.id;
+        invalidate.push(duplicate);
+        break;
+      }
+
+      case 'approve':
+      case 'reject':
+        updated = await this.resolve(product, reviewer, request.action);
+        changes = diffProducts(product, updated, ['flagged_for_review']);
+        break;
+
+      case 'note':
+        // Notes change nothing, so cached data stays valid
+        invalidate.length = 0;
+        break;
+    }
+
+    const auditEntry = await this.writeAuditEntry({
+      product_id: productId,
+      reviewer_id: reviewer.id,
+      reviewer_email: reviewer.email,
+      action: request.action,
+      changes,
+      merged_product_id: mergedProductId,
+      note: request.note ?? null,
+    });
+
+    // Previous barcode keys must go too when the barcode was edited
+    await this.invalidateCaches(updated.barcode !== product.barcode ? [...invalidate, updated] : invalidate);
+
+    console.log(`[Review Service] ✅ ${request.action} recorded:`, auditEntry.id);
+    return { product: updated, auditEntry };
+  }
+
+  /**
+   * Apply field edits as user corrections
+   */
+  private async editFields(product: Product, fields: ReviewFieldEdits): Promise<Product> {
+    const provenance: ProductFieldProvenance = { ...(product.field_provenance || {}) };
+    const update: ProductUpdate = {};
+    const timestamp = new Date().toISOString();
+
+    for (const field of REVIEW_EDITABLE_FIELDS) {
+      if (!(field in fields)) continue;
+      const value = fields[field];
+      if (fieldValuesEqual(value, product[field])) continue;
+
+      (update as Record<string, unknown>)[field] = value;
+      recordObservation(
+        provenance,
+        field,
+        { value, source: 'user_correction', confidence: 1, timestamp, accepted: true },
+        currentObservation(product, field, provenance)
+      );
+    }
+
+    if (Object.keys(update).length === 0) {
+      throw new ReviewError('No field values changed');
+    }
+
+    update.field_provenance = provenance;
+    try {
+      return await this.repository.update(product.id, update, false);
+    } catch (error) {
+      // Unique barcode violation
+      if (update.barcode && error instanceof Error && /duplicate key|unique/i.test(error.message)) {
+        throw new ReviewError('Another product already has this barcode; merge it instead', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a product: remove it from the queue, record the
+   * outcome in metadata and resolve its pending error reports
+   */
+  private async resolve(product: Product, reviewer: Reviewer, outcome: 'approve' | 'reject'): Promise<Product> {
+    const reviewedAt = new Date().toISOString();
+
+    const updated = await this.repository.update(product.id, {
+      flagged_for_review: false,
+      metadata: {
+        ...(product.metadata || {}),
+        review_status: outcome === 'approve' ? 'approved' : 'rejected',
+        reviewed_by: reviewer.id,
+        reviewed_at: reviewedAt,
+      },
+    }, false);
+
+    const supabase = getSupabaseServerClient();
+    const { error } = await supabase
+      .from('error_reports')
+      .update({ status: 'resolved', resolved_at: reviewedAt })
+      .eq('incorrect_product_id', product.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to resolve error reports: ${error.message}`);
+    }
+
+    return updated;
+  }
+
+  private async requireProduct(productId: string): Promise<Product> {
+    const product = await this.repository.findById(productId);
+    if (!product) {
+      throw new ReviewError(`Product not found: ${productId}`, 404);
+    }
+    return product;
+  }
+
+  /**
+   * Product image, images attached to error reports and captured image hashes
+   */
+  private collectImages(product: Product, errorReports: ErrorReport[]): ReviewImage[] {
+    const images: ReviewImage[] = [];
+
+    if (product.image_url) {
+      images.push({ source: 'product', url: product.image_url, timestamp: product.updated_at });
+    }
+
+    for (const report of errorReports) {
+      if (report.image_url) {
+        images.push({ source: 'error_report', url: report.image_url, timestamp: report.created_at });
+      }
+    }
+
+    for (const capture of product.metadata?.captured_images || []) {
+      images.push({
+        source: 'capture',
+        imageHash: capture.imageHash,
+        imageType: capture.imageType,
+        timestamp: capture.timestamp,
+      });
+    }
+
+    return images;
+  }
+
+  /**
+   * Write an audit trail entry
+   * The action has already been applied, so a failure here is surfaced.
+   */
+  private async writeAuditEntry(entry: ProductReviewActionInsert): Promise<ProductReviewAction> {
+    const supabase = getSupabaseServerClient();
+    const { data, error } = await supabase
+      .from('product_review_actions')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[Review Service] ❌ Failed to write audit entry:', error);
+      throw new Error(`Failed to write review audit entry: ${error?.message || 'no data returned'}`);
+    }
+
+    return data as ProductReviewAction;
+  }
+
+  /**
+   * Invalidate every cache entry tagged with the given products or their barcodes
+   */
+  private async invalidateCaches(products: Product[]): Promise<void> {
+    const results = await Promise.allSettled(
+      products.map(product => cacheLayer.invalidateProduct(product.id, product.barcode))
+    );
+    const failures = results.filter(result => result.status === 'rejected');
+    if (failures.length > 0) {
+      // Don't throw - the review action is already saved
+      console.error('[Review Service] ⚠️  DATA CONSISTENCY WARNING: Cache may be stale:', failures);
+    }
+  }
+}
+
+// Singleton instance
+export const reviewService = new ReviewService();
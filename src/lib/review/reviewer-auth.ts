@@ -0,0 +1,85 @@
+/**
+ * Reviewer Authentication
+ *
+ * Verifies that a request to the review API comes from a reviewer. Requests
+ * carry the user's Supabase access token (`Authorization: Bearer <token>`).
+ * A user is a reviewer if their app_metadata role is "reviewer" or "admin"
+ * (set with the service role, users cannot change it) or their confirmed
+ * email is listed in REVIEWER_EMAILS (comma separated). An unconfirmed
+ * email is not proof of ownership, so it never grants access.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabase/server-client';
+
+const REVIEWER_ROLES = ['reviewer', 'admin'];
+
+/**
+ * Authenticated reviewer
+ */
+export interface Reviewer {
+  id: string;
+  email: string | null;
+}
+
+/**
+ * Authentication outcome (status is the HTTP status to respond with on failure)
+ */
+export type ReviewerAuthResult =
+  | { ok: true; reviewer: Reviewer }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Emails allowed to review, from REVIEWER_EMAILS
+ */
+function reviewerEmails(): string[] {
+  return (process.env.REVIEWER_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(email => email.length > 0);
+}
+
+/**
+ * Whether a user may use the review queue
+ */
+export function isReviewer(user: Pick<User, 'email' | 'email_confirmed_at' | 'app_metadata'>): boolean {
+  const role = user.app_metadata?.role;
+  if (typeof role === 'string' && REVIEWER_ROLES.includes(role)) {
+    return true;
+  }
+  return !!user.email && !!user.email_confirmed_at && reviewerEmails().includes(user.email.toLowerCase());
+}
+
+/**
+ * Authenticate the reviewer making a request
+ *
+ * @param request - Next.js request object
+ * @returns Reviewer, or the status and message to respond with
+ */
+export async function authenticateReviewer(request: NextRequest): Promise<ReviewerAuthResult> {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+
+  try {
+    const supabase = getSupabaseServerClient();
+    const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7));
+
+    if (error || !user) {
+      console.error('[Review Auth] Authentication verification failed:', error?.message);
+      return { ok: false, status: 401, error: 'Invalid or expired session' };
+    }
+
+    if (!isReviewer(user)) {
+      console.warn('[Review Auth] ⚠️  User is not a reviewer:', user.id);
+      return { ok: false, status: 403, error: 'Reviewer access required' };
+    }
+
+    return { ok: true, reviewer: { id: user.id, email: user.email ?? null } };
+  } catch (error) {
+    console.error('[Review Auth] Authentication error:', error);
+    return { ok: false, status: 401, error: 'Authentication failed' };
+  }
+}
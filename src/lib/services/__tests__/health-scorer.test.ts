@@ -1,11 +1,14 @@
 /**
  * Unit tests for HealthScorer Service
  * 
- * Tests all scoring rules, penalties, bonuses, and classification logic.
+ * Tests all scoring rules, penalties, bonuses, and classification logic,
+ * and the rule references of scoring profiles.
  * Requirements: 4.1-4.12
  */
 
+import fc from 'fast-check';
 import { HealthScorer } from '../health-scorer';
+import { HEALTH_PROFILES, HEALTH_PROFILE_IDS } from '../health-profiles';
 import { NutritionalFacts } from '../nutrition-parser';
 import { IngredientList } from '../ingredient-parser';
 
@@ -382,6 +385,38 @@ describe('HealthScorer', () => {
         })
       );
     });
+    
+    it('should penalize classified additives of concern by concern level', () => {
+      const facts = createBaseFacts();
+      const ingredients = createBaseIngredients({
+        additives: [
+          {
+            name: 'carrageenan', position: 5, isAllergen: false, isPreservative: false, isSweetener: false, isArtificialColor: false,
+            additive: { eNumber: 'E407', name: 'Carrageenan', classes: ['thickener'], status: { EU: 'approved', US: 'approved' }, concern: 'moderate', natural: false, evidence: 'carrageenan' }
+          },
+          {
+            name: 'potassium bromate', position: 6, isAllergen: false, isPreservative: false, isSweetener: false, isArtificialColor: false,
+            additive: { eNumber: 'E924', name: 'Potassium bromate', classes: ['flour_treatment'], status: { EU: 'banned', US: 'approved' }, concern: 'high', natural: false, evidence: 'potassium bromate' }
+          },
+          {
+            name: 'citric acid', position: 7, isAllergen: false, isPreservative: false, isSweetener: false, isArtificialColor: false,
+            additive: { eNumber: 'E330', name: 'Citric acid', classes: ['acidity_regulator'], status: { EU: 'approved', US: 'approved' }, concern: 'none', natural: false, evidence: 'citric acid' }
+          }
+        ]
+      });
+      
+      const result = scorer.calculateScore(facts, ingredients);
+      
+      expect(result.overall).toBe(96);
+      expect(result.factors).toContainEqual(
+        expect.objectContaining({
+          category: 'Additives of Concern',
+          impact: 'negative',
+          points: -4,
+          description: expect.stringContaining('Potassium bromate (E924), banned in the EU')
+        })
+      );
+    });
   });
   
   describe('Score Category Classification (Requirement 4.11)', () => {
@@ -592,4 +627,97 @@ describe('HealthScorer', () => {
       expect(result.overall).toBeGreaterThanOrEqual(0);
     });
   });
+  
+  describe('Scoring Profiles', () => {
+    it('should reference the rule that produced each factor', () => {
+      const facts = createBaseFacts({
+        sodium: { value: 900, confidence: 0.95 },
+        dietaryFiber: { value: 4, confidence: 0.95 }
+      });
+      
+      const result = scorer.calculateScore(facts, createBaseIngredients());
+      
+      expect(result.profile).toBe('default');
+      expect(result.factors.map(f => [f.rule, f.points])).toEqual([
+        ['sodium.very_high', -20],
+        ['fiber.high', 5]
+      ]);
+    });
+    
+    it('should apply stricter sodium thresholds for heart health', () => {
+      const facts = createBaseFacts({ sodium: { value: 450, confidence: 0.95 } });
+      
+      const result = new HealthScorer('heart_health').calculateScore(facts, createBaseIngredients());
+      
+      expect(result.profile).toBe('heart_health');
+      expect(result.overall).toBe(75);
+      expect(result.factors).toContainEqual(expect.objectContaining({ rule: 'sodium.very_high', points: -25 }));
+    });
+    
+    it('should penalize carbohydrates and go easier on sweeteners for diabetics', () => {
+      const facts = createBaseFacts({ totalCarbohydrates: { value: 35, confidence: 0.95 } });
+      const ingredients = createBaseIngredients({
+        sweeteners: [
+          { name: 'sucralose', position: 3, isAllergen: false, isPreservative: false, isSweetener: true, isArtificialColor: false, sweetenerType: 'sucralose' }
+        ]
+      });
+      
+      const diabetic = new HealthScorer('diabetic').calculateScore(facts, ingredients);
+      const standard = scorer.calculateScore(facts, ingredients);
+      
+      expect(diabetic.factors.map(f => [f.rule, f.points])).toEqual([
+        ['carbohydrates.high', -10],
+        ['ingredients.sweeteners', -2]
+      ]);
+      expect(standard.factors.map(f => f.rule)).toEqual(['ingredients.sweeteners']);
+    });
+    
+    it('should reward protein in more tiers for athletes', () => {
+      const facts = createBaseFacts({ protein: { value: 32, confidence: 0.95 } });
+      
+      const result = new HealthScorer('athlete').calculateScore(facts, createBaseIngredients());
+      
+      expect(result.factors).toEqual([expect.objectContaining({ rule: 'protein.exceptional', points: 15 })]);
+    });
+    
+    it('should fall back to the default profile for unknown IDs', () => {
+      expect(new HealthScorer('unknown' as never).profile.id).toBe('default');
+    });
+    
+    it('should derive every factor from a rule of the profile (property)', () => {
+      const nutrient = fc.record({ value: fc.integer({ min: 0, max: 2000 }), confidence: fc.constant(0.95) });
+      const grams = fc.record({ value: fc.integer({ min: 0, max: 60 }), confidence: fc.constant(0.95) });
+      
+      fc.assert(
+        fc.property(
+          fc.constantFrom(...HEALTH_PROFILE_IDS),
+          nutrient,
+          grams,
+          grams,
+          grams,
+          grams,
+          grams,
+          grams,
+          (profileId, sodium, totalSugars, saturatedFat, transFat, totalCarbohydrates, dietaryFiber, protein) => {
+            const profile = HEALTH_PROFILES[profileId];
+            const ruleIds = new Set([
+              ...profile.nutrientRules.flatMap(rule => rule.tiers.map(tier => tier.id)),
+              ...profile.ingredientRules.map(rule => rule.id),
+              profile.additiveRule.id
+            ]);
+            const facts = createBaseFacts({ sodium, totalSugars, saturatedFat, transFat, totalCarbohydrates, dietaryFiber, protein });
+            
+            const result = new HealthScorer(profileId).calculateScore(facts, createBaseIngredients());
+            const total = result.factors.reduce((sum, factor) => sum + factor.points, 100);
+            
+            expect(result.factors.every(factor => ruleIds.has(factor.rule))).toBe(true);
+            expect(result.overall).toBe(Math.max(0, Math.min(100, total)));
+            expect(result.overall).toBeGreaterThanOrEqual(0);
+            expect(result.overall).toBeLessThanOrEqual(100);
+          }
+        ),
+        { numRuns: 200 }
+      );
+    });
+  });
 });
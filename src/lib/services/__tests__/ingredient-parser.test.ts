@@ -343,6 +343,82 @@ describe('IngredientParser', () => {
     });
   });
 
+  describe('nested ingredients', () => {
+    const parseText = async (rawText: string) => {
+      mockGenerateText.mockResolvedValueOnce({ text: JSON.stringify({ rawText, confidence: 0.95 }) } as any);
+      return parser.parse('data:image/jpeg;base64,test-image');
+    };
+
+    it('should parse bracketed sub-ingredients as children', async () => {
+      const result = await parseText('Chocolate (sugar, cocoa butter, milk), Enriched flour [wheat flour, niacin, iron], salt');
+
+      expect(result.ingredients.map(i => [i.position, i.name])).toEqual([
+        [1, 'Chocolate'],
+        [2, 'Enriched flour'],
+        [3, 'salt'],
+      ]);
+      expect(result.ingredients[0].children?.map(i => [i.position, i.name])).toEqual([
+        [1, 'sugar'],
+        [2, 'cocoa butter'],
+        [3, 'milk'],
+      ]);
+      expect(result.ingredients[0].isAllergen).toBe(false);
+      expect(result.ingredients[1].children).toHaveLength(3);
+    });
+
+    it('should keep sub-ingredients in the flagged lists', async () => {
+      const result = await parseText('Biscuit (flour, butter (milk), BHT), sugar');
+
+      expect(result.allergens.map(i => i.name)).toEqual(['flour', 'butter', 'milk']);
+      expect(result.preservatives.map(i => i.name)).toEqual(['BHT']);
+      expect(result.ingredients[0].children?.[1].children?.[0].name).toBe('milk');
+    });
+
+    it('should capture declared percentages', async () => {
+      const result = await parseText('Tomatoes 45%, onion (12,5%), Cheese 10% (milk, salt)');
+
+      expect(result.ingredients.map(i => [i.name, i.percentage])).toEqual([
+        ['Tomatoes', 45],
+        ['onion', 12.5],
+        ['Cheese', 10],
+      ]);
+      expect(result.ingredients[2].children).toHaveLength(2);
+    });
+
+    it('should not split on a decimal comma outside brackets', async () => {
+      const result = await parseText('tomatoes 12,5%, basil 0,5%, salt');
+
+      expect(result.ingredients.map(i => [i.name, i.percentage])).toEqual([
+        ['tomatoes', 12.5],
+        ['basil', 0.5],
+        ['salt', undefined],
+      ]);
+    });
+
+    it('should drop the "2% or less of" lead-in and survive unclosed brackets', async () => {
+      const result = await parseText('Water, sugar, contains 2% or less of: salt, spice (paprika, garlic');
+
+      expect(result.ingredients.map(i => i.name)).toEqual(['Water', 'sugar', 'salt', 'spice']);
+      expect(result.ingredients[3].percentage).toBeUndefined();
+      expect(result.ingredients[3].children?.map(i => i.name)).toEqual(['paprika', 'garlic']);
+    });
+  });
+
+  describe('additives', () => {
+    it('should classify additives and flag them by functional class', async () => {
+      mockGenerateText.mockResolvedValueOnce({
+        text: JSON.stringify({ rawText: 'Pork, salt, sodium nitrite, thickener (E407), paprika extract (E160c)', confidence: 0.95 }),
+      } as any);
+
+      const result = await parser.parse('data:image/jpeg;base64,test-image');
+
+      expect(result.additives?.map(i => i.additive?.eNumber)).toEqual(['E250', 'E407', 'E160c']);
+      expect(result.preservatives.map(i => i.name)).toEqual(['sodium nitrite']);
+      expect(result.ingredients[3].children?.[0].additive).toMatchObject({ name: 'Carrageenan', concern: 'moderate' });
+      expect(result.artificialColors).toHaveLength(0);
+    });
+  });
+
   describe('identifyAllergens', () => {
     it('should identify allergens from ingredient list', () => {
       const ingredients = ['wheat flour', 'milk', 'eggs', 'sugar'];
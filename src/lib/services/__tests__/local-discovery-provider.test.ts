@@ -0,0 +1,92 @@
+/**
+ * Tests for LocalDiscoveryProvider
+ */
+
+import type { Product } from '@/lib/supabase/types';
+import type { ProductRepositoryMultiTier } from '@/lib/supabase/repositories/ProductRepositoryMultiTier';
+import { LocalDiscoveryProvider, scoreMatch } from '../local-discovery-provider';
+
+jest.mock('@/lib/supabase/repositories/ProductRepositoryMultiTier', () => ({
+  productRepositoryMultiTier: {},
+}));
+
+function product(overrides: Partial<Product>): Product {
+  return {
+    id: 'id',
+    barcode: '03017620422003',
+    name: 'Nutella Hazelnut Spread',
+    brand: 'Ferrero',
+    size: '400 g',
+    category: 'Hazelnut spreads',
+    image_url: null,
+    metadata: { source: 'open_food_facts' },
+    flagged_for_review: false,
+    nutrition_data: null,
+    health_score: null,
+    has_allergens: false,
+    allergen_types: [],
+    last_scanned_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('LocalDiscoveryProvider', () => {
+  let repository: { searchByTerms: jest.Mock; findByBarcode: jest.Mock };
+  let provider: LocalDiscoveryProvider;
+
+  beforeEach(() => {
+    repository = { searchByTerms: jest.fn(), findByBarcode: jest.fn() };
+    provider = new LocalDiscoveryProvider(repository as unknown as ProductRepositoryMultiTier);
+  });
+
+  it('should rank candidates by similarity to the metadata', async () => {
+    repository.searchByTerms.mockResolvedValue([
+      product({ id: 'other', barcode: '00000096385074', name: 'Hazelnut Wafers', brand: 'Loacker' }),
+      product({ id: 'nutella' }),
+      product({ id: 'no-barcode', barcode: null }),
+    ]);
+
+    const candidates = await provider.searchProducts({
+      productName: 'Nutella hazelnut spread',
+      brandName: 'Ferrero',
+      size: '400g',
+      keywords: [],
+    });
+
+    expect(repository.searchByTerms).toHaveBeenCalledWith(['nutella', 'hazelnut', 'spread', 'ferrero']);
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({
+      barcode: '3017620422003',
+      format: 'EAN-13',
+      product_name: 'Nutella Hazelnut Spread',
+      brand: 'Ferrero',
+      confidence: 1,
+    });
+    expect(candidates[0].product?.id).toBe('nutella');
+  });
+
+  it('should not search without a name or brand', async () => {
+    expect(await provider.searchProducts({ size: '400 g', keywords: [] })).toEqual([]);
+    expect(repository.searchByTerms).not.toHaveBeenCalled();
+  });
+
+  it('should resolve barcodes to stored products', async () => {
+    repository.findByBarcode.mockResolvedValue(product({ barcode: '00012345678905' }));
+
+    expect(await provider.lookupBarcode('012345678905')).toMatchObject({
+      barcode: '012345678905',
+      format: 'UPC-A',
+      confidence: 1,
+    });
+
+    repository.findByBarcode.mockResolvedValue(null);
+    expect(await provider.lookupBarcode('012345678905')).toBeNull();
+  });
+
+  it('should rescale weights for missing metadata fields', () => {
+    expect(scoreMatch({ productName: 'Nutella Hazelnut Spread', keywords: [] }, product({}))).toBe(1);
+    expect(scoreMatch({ brandName: 'Lindt', keywords: [] }, product({}))).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for NovaClassifier Service
+ *
+ * Tests NOVA group assignment from ingredient lists, additive-driven
+ * markers and the explanation of each classification.
+ */
+
+import { NovaClassifier, type NovaIngredient } from '../nova-classifier';
+import { findAdditive } from '@/lib/additives/additive-database';
+
+const ingredients = (...names: string[]): NovaIngredient[] =>
+  names.map(name => ({ name, additive: findAdditive(name) }));
+
+describe('NovaClassifier', () => {
+  const classifier = new NovaClassifier();
+
+  it('returns null without ingredients', () => {
+    expect(classifier.classify([])).toBeNull();
+  });
+
+  it('classifies whole foods as group 1', () => {
+    const result = classifier.classify(ingredients('rolled oats', 'almonds', 'raisins'));
+
+    expect(result).toMatchObject({ group: 1, label: 'Unprocessed or minimally processed', markers: [] });
+  });
+
+  it('classifies culinary ingredients on their own as group 2', () => {
+    const result = classifier.classify(ingredients('extra virgin olive oil'));
+
+    expect(result?.group).toBe(2);
+    expect(result?.markers).toEqual([
+      { group: 2, ingredient: 'extra virgin olive oil', marker: 'oil', reason: 'added fat' },
+    ]);
+  });
+
+  it('classifies foods with added salt, sugar or preservatives as group 3', () => {
+    expect(classifier.classify(ingredients('chickpeas', 'water', 'salt'))?.group).toBe(3);
+    expect(classifier.classify(ingredients('tomatoes', 'tomato juice', 'citric acid'))).toMatchObject({
+      group: 3,
+      markers: [{ group: 3, ingredient: 'citric acid', marker: 'Citric acid (E330)', reason: 'acidity regulator' }],
+    });
+  });
+
+  it('classifies cosmetic additives and industrial ingredients as group 4', () => {
+    const result = classifier.classify(
+      ingredients('wheat flour', 'sugar', 'glucose syrup', 'soy lecithin', 'natural flavor', 'salt')
+    );
+
+    expect(result?.group).toBe(4);
+    expect(result?.markers.map(marker => [marker.ingredient, marker.reason])).toEqual([
+      ['glucose syrup', 'industrial sugar'],
+      ['soy lecithin', 'emulsifier'],
+      ['natural flavor', 'flavoring'],
+    ]);
+    expect(result?.explanation).toContain('NOVA 4 (ultra-processed food)');
+  });
+
+  it('finds markers in sub-ingredients', () => {
+    const result = classifier.classify([
+      { name: 'chicken', additive: undefined },
+      { name: 'sauce', additive: undefined, children: ingredients('tomatoes', 'modified corn starch') },
+    ]);
+
+    expect(result?.group).toBe(4);
+    expect(result?.markers[0]).toMatchObject({ ingredient: 'modified corn starch', reason: 'thickener' });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for NutriScore Service
+ *
+ * Tests per-100g normalization, the general, cheese, fats and beverage
+ * rules, and the fruit/vegetable/legume estimate from the ingredient tree.
+ */
+
+import { NutriScoreCalculator, estimateFruitVegLegumePercent } from '../nutri-score';
+import { NutritionalFacts } from '../nutrition-parser';
+import { IngredientList, ParsedIngredient } from '../ingredient-parser';
+
+describe('NutriScoreCalculator', () => {
+  const calculator = new NutriScoreCalculator();
+
+  const createFacts = (overrides: Partial<Record<keyof NutritionalFacts, unknown>> = {}): NutritionalFacts => ({
+    servingSize: { amount: 30, unit: 'g', confidence: 0.95 },
+    calories: { value: 120, confidence: 0.95 },
+    totalFat: { value: 5, confidence: 0.95 },
+    saturatedFat: { value: 1.5, confidence: 0.95 },
+    transFat: { value: 0, confidence: 0.95 },
+    cholesterol: { value: 0, confidence: 0.95 },
+    sodium: { value: 120, confidence: 0.95 },
+    totalCarbohydrates: { value: 20, confidence: 0.95 },
+    dietaryFiber: { value: 1, confidence: 0.95 },
+    totalSugars: { value: 6, confidence: 0.95 },
+    protein: { value: 2, confidence: 0.95 },
+    validationStatus: 'valid',
+    ...overrides,
+  } as NutritionalFacts);
+
+  const ingredient = (name: string, percentage?: number, children?: ParsedIngredient[]): ParsedIngredient => ({
+    name,
+    position: 1,
+    percentage,
+    children,
+    isAllergen: false,
+    isPreservative: false,
+    isSweetener: false,
+    isArtificialColor: false,
+  });
+
+  const createIngredients = (ingredients: ParsedIngredient[], overrides: Partial<IngredientList> = {}): IngredientList => ({
+    rawText: '',
+    ingredients,
+    allergens: [],
+    preservatives: [],
+    sweeteners: [],
+    artificialColors: [],
+    isComplete: true,
+    confidence: 0.95,
+    ...overrides,
+  });
+
+  it('scores per 100g regardless of serving size', () => {
+    const small = calculator.calculate(createFacts());
+    const large = calculator.calculate(createFacts({
+      servingSize: { amount: 60, unit: 'g', confidence: 0.95 },
+      calories: { value: 240, confidence: 0.95 },
+      saturatedFat: { value: 3, confidence: 0.95 },
+      sodium: { value: 240, confidence: 0.95 },
+      dietaryFiber: { value: 2, confidence: 0.95 },
+      totalSugars: { value: 12, confidence: 0.95 },
+      protein: { value: 4, confidence: 0.95 },
+    }));
+
+    expect(small).toMatchObject({ grade: 'D', score: 16, negativePoints: 17, positivePoints: 1, proteinCounted: false });
+    expect(large).toEqual(small);
+    expect(small?.negative.map(item => [item.nutrient, item.points])).toEqual([
+      ['Energy', 4],
+      ['Sugars', 5],
+      ['Saturated fat', 4],
+      ['Salt', 4],
+    ]);
+  });
+
+  it('returns null when the serving size has no weight or volume', () => {
+    expect(calculator.calculate(createFacts({ servingSize: { amount: 1, unit: 'bar', confidence: 0.9 } }))).toBeNull();
+  });
+
+  it('always counts protein for cheese', () => {
+    const facts = createFacts({
+      servingSize: { amount: 28, unit: 'g', confidence: 0.95 },
+      calories: { value: 110, confidence: 0.95 },
+      saturatedFat: { value: 5, confidence: 0.95 },
+      sodium: { value: 180, confidence: 0.95 },
+      dietaryFiber: { value: 0, confidence: 0.95 },
+      totalSugars: { value: 0, confidence: 0.95 },
+      protein: { value: 7, confidence: 0.95 },
+    });
+
+    expect(calculator.calculate(facts, undefined, { productName: 'Mature Cheddar Cheese' })).toMatchObject({
+      category: 'cheese',
+      score: 15,
+      grade: 'D',
+      proteinCounted: true,
+    });
+    expect(calculator.calculate(facts, undefined, { category: 'general' })).toMatchObject({ score: 22, grade: 'E' });
+  });
+
+  it('uses the saturated fat ratio for fats and oils', () => {
+    const result = calculator.calculate(
+      createFacts({
+        servingSize: { amount: 15, unit: 'ml', confidence: 0.95 },
+        calories: { value: 120, confidence: 0.95 },
+        totalFat: { value: 14, confidence: 0.95 },
+        saturatedFat: { value: 1.5, confidence: 0.95 },
+        sodium: { value: 0, confidence: 0.95 },
+        dietaryFiber: { value: 0, confidence: 0.95 },
+        totalSugars: { value: 0, confidence: 0.95 },
+        protein: { value: 0, confidence: 0.95 },
+      }),
+      createIngredients([ingredient('sunflower oil')])
+    );
+
+    expect(result).toMatchObject({ category: 'fats', basis: '100ml', negativePoints: 4, grade: 'C' });
+    expect(result?.negative.map(item => item.nutrient)).toEqual([
+      'Energy from saturates',
+      'Sugars',
+      'Saturated fat / total fat',
+      'Salt',
+    ]);
+  });
+
+  describe('beverages', () => {
+    const soda = createFacts({
+      servingSize: { amount: 250, unit: 'ml', confidence: 0.95 },
+      calories: { value: 105, confidence: 0.95 },
+      totalFat: { value: 0, confidence: 0.95 },
+      saturatedFat: { value: 0, confidence: 0.95 },
+      sodium: { value: 10, confidence: 0.95 },
+      dietaryFiber: { value: 0, confidence: 0.95 },
+      totalSugars: { value: 26.5, confidence: 0.95 },
+      protein: { value: 0, confidence: 0.95 },
+    });
+
+    it('uses the beverage tables', () => {
+      const result = calculator.calculate(soda, createIngredients([ingredient('carbonated water'), ingredient('sugar')]));
+
+      expect(result).toMatchObject({ category: 'beverage', basis: '100ml', score: 12, grade: 'E' });
+    });
+
+    it('penalizes non-nutritive sweeteners', () => {
+      const aspartame = { ...ingredient('aspartame'), isSweetener: true };
+      const result = calculator.calculate(
+        createFacts({ ...soda, calories: { value: 1, confidence: 0.95 }, totalSugars: { value: 0, confidence: 0.95 } }),
+        createIngredients([ingredient('carbonated water'), aspartame], { sweeteners: [aspartame] })
+      );
+
+      expect(result).toMatchObject({ score: 4, grade: 'C' });
+    });
+
+    it('grades plain water A', () => {
+      const result = calculator.calculate(
+        createFacts({ ...soda, calories: { value: 0, confidence: 0.95 }, totalSugars: { value: 0, confidence: 0.95 } }),
+        createIngredients([ingredient('Natural mineral water')])
+      );
+
+      expect(result).toMatchObject({ category: 'water', grade: 'A' });
+    });
+  });
+});
+
+describe('estimateFruitVegLegumePercent', () => {
+  const ingredient = (name: string, percentage?: number, children?: ParsedIngredient[]): ParsedIngredient => ({
+    name,
+    position: 1,
+    percentage,
+    children,
+    isAllergen: false,
+    isPreservative: false,
+    isSweetener: false,
+    isArtificialColor: false,
+  });
+
+  it('uses declared percentages', () => {
+    expect(estimateFruitVegLegumePercent([
+      ingredient('Vegetables', 40, [ingredient('carrot'), ingredient('peas')]),
+      ingredient('rice', 60),
+    ])).toEqual({ percent: 40, estimated: false });
+  });
+
+  it('estimates undeclared shares from label order', () => {
+    expect(estimateFruitVegLegumePercent([
+      ingredient('Tomatoes', 45),
+      ingredient('onion'),
+      ingredient('water'),
+      ingredient('salt'),
+    ])).toEqual({ percent: 63.33, estimated: true });
+  });
+
+  it('counts fruit and vegetables in compound ingredients', () => {
+    expect(estimateFruitVegLegumePercent([
+      ingredient('Sauce', 50, [ingredient('tomatoes'), ingredient('water')]),
+      ingredient('pasta', 50),
+    ])).toEqual({ percent: 25, estimated: true });
+  });
+
+  it('ignores processed fractions such as flours and oils', () => {
+    expect(estimateFruitVegLegumePercent([
+      ingredient('chickpea flour', 70),
+      ingredient('olive oil', 30),
+    ]).percent).toBe(0);
+  });
+});
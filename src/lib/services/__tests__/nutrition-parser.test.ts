@@ -247,7 +247,10 @@ describe('NutritionParser', () => {
         text: 'This is not valid JSON',
       };
 
-      mockGenerateText.mockResolvedValueOnce(mockResponse as any);
+      // Invalid again after the repair re-prompt
+      mockGenerateText
+        .mockResolvedValueOnce(mockResponse as any)
+        .mockResolvedValueOnce(mockResponse as any);
 
       await expect(parser.parse('data:image/jpeg;base64,test-image'))
         .rejects.toThrow('Failed to parse OCR response');
@@ -262,12 +265,41 @@ describe('NutritionParser', () => {
         }),
       };
 
-      mockGenerateText.mockResolvedValueOnce(mockResponse as any);
+      // Invalid again after the repair re-prompt
+      mockGenerateText
+        .mockResolvedValueOnce(mockResponse as any)
+        .mockResolvedValueOnce(mockResponse as any);
 
       await expect(parser.parse('data:image/jpeg;base64,test-image'))
         .rejects.toThrow('Failed to parse OCR response');
     });
 
+    it('should re-prompt once with the validation errors and use the repaired response', async () => {
+      const label = {
+        servingSize: { amount: 28, unit: 'g', confidence: 0.95 },
+        calories: { value: 150, confidence: 0.98 },
+        totalFat: { value: 8, confidence: 0.96 },
+        saturatedFat: { value: 1, confidence: 0.94 },
+        transFat: { value: 0, confidence: 0.92 },
+        cholesterol: { value: 0, confidence: 0.90 },
+        sodium: { value: 170, confidence: 0.97 },
+        totalCarbohydrates: { value: 15, confidence: 0.96 },
+        dietaryFiber: { value: 3, confidence: 0.93 },
+        totalSugars: { value: 1, confidence: 0.95 },
+        protein: { value: 6, confidence: 0.97 },
+      };
+
+      mockGenerateText
+        .mockResolvedValueOnce({ text: JSON.stringify({ ...label, sodium: { value: '170mg', confidence: 0.97 } }) } as any)
+        .mockResolvedValueOnce({ text: JSON.stringify(label) } as any);
+
+      const result = await parser.parse('data:image/jpeg;base64,test-image');
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(2);
+      expect(JSON.stringify(mockGenerateText.mock.calls[1][0])).toContain('sodium.value');
+      expect(result.sodium.value).toBe(170);
+    });
+
     it('should use low temperature for consistent extraction', async () => {
       const mockResponse = {
         text: JSON.stringify({
@@ -297,6 +329,60 @@ describe('NutritionParser', () => {
     });
   });
 
+  describe('consistency re-extraction', () => {
+    const firstReading = {
+      servingSize: { amount: 28, unit: 'g', confidence: 0.95 },
+      calories: { value: 150, confidence: 0.98 },
+      totalFat: { value: 8, confidence: 0.96 },
+      saturatedFat: { value: 18, confidence: 0.94 }, // misread 1.8
+      transFat: { value: 0, confidence: 0.92 },
+      cholesterol: { value: 0, confidence: 0.90 },
+      sodium: { value: 170, confidence: 0.97 },
+      totalCarbohydrates: { value: 15, confidence: 0.96 },
+      dietaryFiber: { value: 3, confidence: 0.93 },
+      totalSugars: { value: 1, confidence: 0.95 },
+      protein: { value: 6, confidence: 0.97 },
+    };
+
+    it('should re-extract only the suspect fields and keep the corrected values', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: JSON.stringify(firstReading) } as any)
+        .mockResolvedValueOnce({
+          text: JSON.stringify({
+            saturatedFat: { value: 1.8, confidence: 0.9 },
+            totalFat: { value: 8, confidence: 0.95 },
+            sodium: { value: 999, confidence: 0.9 }, // not requested, ignored
+          }),
+        } as any);
+
+      const result = await parser.parse('data:image/jpeg;base64,test-image');
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(2);
+      const retryPrompt = JSON.stringify(mockGenerateText.mock.calls[1][0]);
+      expect(retryPrompt).toContain('Saturated fat (18g) exceeds total fat (8g)');
+      expect(retryPrompt).toContain('Fields to return: saturatedFat, totalFat');
+      expect(result.saturatedFat).toEqual({ value: 1.8, confidence: 0.9 });
+      expect(result.sodium.value).toBe(170);
+      expect(result.suspicionFlags).toBeUndefined();
+      expect(result.validationStatus).toBe('valid');
+    });
+
+    it('should lower confidence and fail validation when the re-read is still inconsistent', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: JSON.stringify(firstReading) } as any)
+        .mockRejectedValueOnce(new Error('Rate limited'));
+
+      const result = await parser.parse('data:image/jpeg;base64,test-image');
+
+      expect(result.suspicionFlags).toEqual([
+        expect.objectContaining({ check: 'subtotal', fields: ['saturatedFat', 'totalFat'] }),
+      ]);
+      expect(result.saturatedFat.confidence).toBeCloseTo(0.56, 2);
+      expect(result.validationStatus).toBe('invalid');
+      expect(result.validationErrors).toContain('Saturated fat (18g) exceeds total fat (8g)');
+    });
+  });
+
   describe('validate', () => {
     it('should validate calorie calculation within tolerance', () => {
       // Requirement 10.1: Validate calorie calculation (4×carbs + 4×protein + 9×fat ≈ stated calories ±20%)
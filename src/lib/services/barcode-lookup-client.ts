@@ -6,6 +6,7 @@
  */
 
 import type { ProductMetadata } from '../types/multi-tier';
+import type { DiscoveryProvider } from './discovery-provider';
 
 export interface BarcodeLookupResult {
   barcode: string;
@@ -112,7 +113,8 @@ class CircuitBreaker {
 /**
  * Barcode Lookup API Client
  */
-export class BarcodeLookupClient {
+export class BarcodeLookupClient implements DiscoveryProvider {
+  readonly name = 'barcode-lookup' as const;
   private readonly apiKey: string;
   private readonly baseUrl: string = 'https://api.barcodelookup.com/v3';
   private rateLimiter: RateLimiter;
@@ -133,6 +135,34 @@ export class BarcodeLookupClient {
    * Search for products by metadata (name, brand, category)
    */
   async searchProducts(metadata: ProductMetadata): Promise<BarcodeLookupResult[]> {
+    // Build search query from metadata
+    const searchTerms: string[] = [];
+    if (metadata.productName) searchTerms.push(metadata.productName);
+    if (metadata.brandName) searchTerms.push(metadata.brandName);
+    if (metadata.size) searchTerms.push(metadata.size);
+
+    const query = searchTerms.join(' ').trim();
+    if (!query) {
+      throw new Error('No search terms available in metadata');
+    }
+
+    console.log(`[Barcode Lookup] Searching for: "${query}"`);
+    return this.request(`search=${encodeURIComponent(query)}`);
+  }
+
+  /**
+   * Look up a product by barcode
+   */
+  async lookupBarcode(barcode: string): Promise<BarcodeLookupResult | null> {
+    console.log(`[Barcode Lookup] Looking up barcode: ${barcode}`);
+    const results = await this.request(`barcode=${encodeURIComponent(barcode)}`);
+    return results[0] || null;
+  }
+
+  /**
+   * Make a rate limited request guarded by the circuit breaker
+   */
+  private async request(params: string): Promise<BarcodeLookupResult[]> {
     if (!this.apiKey) {
       throw new Error('Barcode Lookup API key is not configured');
     }
@@ -148,21 +178,8 @@ export class BarcodeLookupClient {
       throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)}s`);
     }
 
-    // Build search query from metadata
-    const searchTerms: string[] = [];
-    if (metadata.productName) searchTerms.push(metadata.productName);
-    if (metadata.brandName) searchTerms.push(metadata.brandName);
-    if (metadata.size) searchTerms.push(metadata.size);
-
-    const query = searchTerms.join(' ').trim();
-    if (!query) {
-      throw new Error('No search terms available in metadata');
-    }
-
-    console.log(`[Barcode Lookup] Searching for: "${query}"`);
-
     try {
-      const response = await this.makeRequestWithRetry(query);
+      const response = await this.makeRequestWithRetry(params);
       this.circuitBreaker.recordSuccess();
       this.rateLimiter.recordRequest();
       return response;
@@ -176,12 +193,12 @@ export class BarcodeLookupClient {
    * Make API request with exponential backoff retry
    */
   private async makeRequestWithRetry(
-    query: string,
+    params: string,
     attempt: number = 1,
     maxAttempts: number = 3
   ): Promise<BarcodeLookupResult[]> {
     try {
-      const url = `${this.baseUrl}/products?search=${encodeURIComponent(query)}`;
+      const url = `${this.baseUrl}/products?${params}`;
       
       const response = await fetch(url, {
         method: 'GET',
@@ -199,7 +216,7 @@ export class BarcodeLookupClient {
         if (attempt < maxAttempts) {
           console.log(`[Barcode Lookup] Rate limited, retrying in ${waitTime}ms (attempt ${attempt}/${maxAttempts})`);
           await this.sleep(waitTime);
-          return this.makeRequestWithRetry(query, attempt + 1, maxAttempts);
+          return this.makeRequestWithRetry(params, attempt + 1, maxAttempts);
         }
         
         throw new Error('Rate limit exceeded after retries');
@@ -224,7 +241,7 @@ export class BarcodeLookupClient {
         const waitTime = 1000 * Math.pow(2, attempt); // Exponential backoff
         console.log(`[Barcode Lookup] Error, retrying in ${waitTime}ms (attempt ${attempt}/${maxAttempts})`);
         await this.sleep(waitTime);
-        return this.makeRequestWithRetry(query, attempt + 1, maxAttempts);
+        return this.makeRequestWithRetry(params, attempt + 1, maxAttempts);
       }
       
       throw error;
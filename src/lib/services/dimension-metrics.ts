@@ -18,7 +18,7 @@ export interface DimensionMetricsLog {
   success: boolean;
   errorCode?: string;
   dimensionsViewed?: string[]; // Which dimensions were actually viewed by user
-  apiCost?: number; // Estimated API cost for this analysis
+  apiCost?: number; // Cost of the analysis' model calls in USD, from the LLM cost ledger's price table
 }
 
 /**
@@ -63,22 +63,6 @@ export async function logDimensionMetrics(metrics: DimensionMetricsLog): Promise
   }
 }
 
-/**
- * Calculate estimated API cost for dimension analysis
- * Requirement 14.4: Log API costs per dimension analysis
- * 
- * Gemini API pricing (approximate):
- * - Flash model: ~$0.001 per request for dimension analysis
- */
-export function calculateDimensionAnalysisCost(cached: boolean): number {
-  if (cached) {
-    return 0; // No API cost for cached results
-  }
-  
-  // Estimated cost for one Gemini API call for dimension analysis
-  return 0.001;
-}
-
 /**
  * Get aggregated dimension metrics
  * Requirement 14.7: Extend /api/metrics endpoint
@@ -0,0 +1,86 @@
+/**
+ * Discovery Providers
+ *
+ * Backends used by the Discovery Service (Tier 3) to find barcodes for
+ * products identified from packaging text:
+ * - barcode-lookup: Barcode Lookup API (paid, live)
+ * - open-food-facts: products imported from an Open Food Facts dump
+ *   (scripts/import-open-food-facts.ts), searched in the local database
+ *
+ * The DISCOVERY_PROVIDER environment variable selects the backend
+ * (default: barcode-lookup).
+ */
+
+import type { ProductMetadata } from '../types/multi-tier';
+import type { Product } from '../supabase/types';
+import { barcodeLookupClient, type BarcodeLookupResult } from './barcode-lookup-client';
+import { LocalDiscoveryProvider } from './local-discovery-provider';
+
+export type DiscoveryProviderName = 'barcode-lookup' | 'open-food-facts';
+
+const PROVIDER_NAMES: DiscoveryProviderName[] = ['barcode-lookup', 'open-food-facts'];
+
+/**
+ * Candidate barcode returned by a provider
+ */
+export interface DiscoveryCandidate extends BarcodeLookupResult {
+  product?: Product; // Set when the product already exists in the database
+}
+
+/**
+ * Discovery backend
+ */
+export interface DiscoveryProvider {
+  readonly name: DiscoveryProviderName;
+
+  /**
+   * Find candidate barcodes for a product described by its metadata
+   */
+  searchProducts(metadata: ProductMetadata): Promise<DiscoveryCandidate[]>;
+
+  /**
+   * Resolve a barcode to a product
+   */
+  lookupBarcode(barcode: string): Promise<DiscoveryCandidate | null>;
+}
+
+/**
+ * Type guard for provider names
+ */
+export function isDiscoveryProviderName(value: unknown): value is DiscoveryProviderName {
+  return typeof value === 'string' && PROVIDER_NAMES.includes(value as DiscoveryProviderName);
+}
+
+/**
+ * Create a provider by name
+ *
+ * @param name - Provider backend
+ * @returns Provider instance
+ */
+export function createDiscoveryProvider(name: DiscoveryProviderName): DiscoveryProvider {
+  switch (name) {
+    case 'barcode-lookup':
+      return barcodeLookupClient;
+    case 'open-food-facts':
+      return new LocalDiscoveryProvider();
+  }
+}
+
+/**
+ * Create the provider selected by DISCOVERY_PROVIDER
+ *
+ * @returns Provider instance (Barcode Lookup API when unset or unknown)
+ */
+export function getDiscoveryProvider(): DiscoveryProvider {
+  const configured = process.env.DISCOVERY_PROVIDER;
+  let name: DiscoveryProviderName = 'barcode-lookup';
+
+  if (isDiscoveryProviderName(configured)) {
+    name = configured;
+  } else if (configured) {
+    console.warn(`[Discovery Provider] ⚠️  Unknown DISCOVERY_PROVIDER "${configured}", using ${name}`);
+  }
+
+  console.log(`[Discovery Provider] 🔌 Using ${name} provider`);
+  return createDiscoveryProvider(name);
+}
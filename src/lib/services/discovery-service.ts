@@ -1,12 +1,14 @@
 /**
  * Discovery Service
  * 
- * Tier 3: Uses Barcode Lookup API to discover barcodes for products
- * identified through visual text extraction.
+ * Tier 3: Discovers barcodes for products identified through visual text
+ * extraction, using the provider selected by DISCOVERY_PROVIDER (Barcode
+ * Lookup API or local Open Food Facts data, see discovery-provider.ts).
  */
 
 import type { ProductMetadata, ProductData } from '../types/multi-tier';
-import { barcodeLookupClient, type BarcodeLookupResult } from './barcode-lookup-client';
+import type { Product } from '../supabase/types';
+import { getDiscoveryProvider, type DiscoveryCandidate, type DiscoveryProvider } from './discovery-provider';
 import { productRepositoryMultiTier } from '../supabase/repositories/ProductRepositoryMultiTier';
 import { cacheService } from '../mongodb/cache-service';
 
@@ -40,6 +42,12 @@ export interface DiscoveryResult {
  * Discovery Service for Tier 3 barcode discovery
  */
 export class DiscoveryService {
+  private provider: DiscoveryProvider;
+
+  constructor(provider?: DiscoveryProvider) {
+    this.provider = provider || getDiscoveryProvider();
+  }
+
   /**
    * Discover barcode for a product using metadata
    */
@@ -52,8 +60,8 @@ export class DiscoveryService {
     try {
       console.log('[Discovery Service] 🔍 Starting barcode discovery');
 
-      // Search Barcode Lookup API
-      const results = await barcodeLookupClient.searchProducts(metadata);
+      // Search the discovery provider
+      const results = await this.provider.searchProducts(metadata);
 
       if (results.length === 0) {
         console.log('[Discovery Service] ❌ No barcodes found');
@@ -75,8 +83,8 @@ export class DiscoveryService {
 
       console.log(`[Discovery Service] ✅ Found barcode: ${bestResult.barcode} (confidence: ${bestResult.confidence})`);
 
-      // Create product data
-      const productData: ProductData = {
+      // Create product data (products found locally keep their stored data)
+      const productData: ProductData = bestResult.product ? this.toProductData(bestResult.product, bestResult.format) : {
         id: '', // Will be set by repository
         barcode: bestResult.barcode,
         name: bestResult.product_name || metadata.productName || 'Unknown Product',
@@ -110,6 +118,66 @@ export class DiscoveryService {
     }
   }
 
+  /**
+   * Resolve a barcode to a product through the discovery provider
+   *
+   * @param barcode - Scanned or typed barcode
+   * @returns Discovered product, or null if the provider does not know the barcode
+   */
+  async resolveBarcode(barcode: string): Promise<DiscoveryResult | null> {
+    const startTime = Date.now();
+
+    console.log(`[Discovery Service] 🔍 Resolving barcode ${barcode} via ${this.provider.name}`);
+    const result = await this.provider.lookupBarcode(barcode);
+
+    if (!result || !this.isValidBarcode(result.barcode, result.format)) {
+      console.log('[Discovery Service] ❌ Barcode not resolved');
+      return null;
+    }
+
+    const productData: ProductData = result.product ? this.toProductData(result.product, result.format) : {
+      id: '',
+      barcode: result.barcode,
+      name: result.product_name || 'Unknown Product',
+      brand: result.brand || 'Unknown Brand',
+      category: result.category || 'Unknown',
+      metadata: {
+        discoveredBarcode: true,
+        barcodeFormat: result.format,
+      },
+    };
+
+    await this.persistDiscoveredBarcode(productData);
+
+    return {
+      barcode: result.barcode,
+      format: result.format,
+      confidence: result.confidence,
+      product: productData,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Product data for a candidate that already exists in the database
+   */
+  private toProductData(product: Product, format: string): ProductData {
+    return {
+      id: product.id,
+      barcode: product.barcode || undefined,
+      name: product.name,
+      brand: product.brand,
+      size: product.size || undefined,
+      category: product.category || 'Unknown',
+      imageUrl: product.image_url || undefined,
+      metadata: {
+        ...(product.metadata || {}),
+        discoveredBarcode: true,
+        barcodeFormat: format,
+      },
+    };
+  }
+
   /**
    * Validate barcode format
    */
@@ -149,9 +217,9 @@ export class DiscoveryService {
    * Select best result from multiple candidates
    */
   private selectBestResult(
-    results: BarcodeLookupResult[],
+    results: DiscoveryCandidate[],
     metadata: ProductMetadata
-  ): BarcodeLookupResult {
+  ): DiscoveryCandidate {
     // Calculate match scores for each result
     const scoredResults = results.map(result => {
       let score = result.confidence || 0.5;
@@ -238,11 +306,29 @@ export class DiscoveryService {
           }
         }
 
-        // Step 1: Save to database (upsert by barcode)
-        savedProduct = await productRepositoryMultiTier.upsertByBarcode(productData);
-        productData.id = savedProduct.id;
+        // Step 1: Save to database (through field provenance, so a
+        // discovery keeps corrections), unless the provider found the
+        // product in the database already
+        if (!productData.id) {
+          savedProduct = await productRepositoryMultiTier.saveScannedProduct({
+            barcode: productData.barcode || null,
+            name: productData.name,
+            brand: productData.brand,
+            size: productData.size || null,
+            category: productData.category || null,
+            image_url: productData.imageUrl || null,
+            metadata: productData.metadata || null,
+          }, {
+            source: 'tier_3',
+            tier: 3,
+            imageHash,
+            confidence: productData.metadata?.confidence || 0.7,
+            timestamp: new Date().toISOString(),
+          });
+          productData.id = savedProduct.id;
 
-        console.log(`[Discovery Service] 💾 Saved product: ${savedProduct.id}`);
+          console.log(`[Discovery Service] 💾 Saved product: ${savedProduct.id}`);
+        }
 
         // Step 2: Update cache with barcode (barcode should exist since we just discovered it)
         if (productData.barcode) {
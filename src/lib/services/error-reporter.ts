@@ -9,6 +9,7 @@
 
 import { productRepositoryMultiTier } from '../supabase/repositories/ProductRepositoryMultiTier';
 import { cacheService } from '../mongodb/cache-service';
+import { cacheLayer } from '../cache';
 import { imageAnalyzerService } from './image-analyzer';
 import type { ProductData, ImageData } from '../types/multi-tier';
 
@@ -164,34 +165,20 @@ export class ErrorReporterService {
    */
   private async invalidateCacheEntries(report: ErrorReport): Promise<void> {
     try {
-      const invalidations: Promise<void>[] = [];
+      const invalidations: Promise<unknown>[] = [];
 
-      // Invalidate by barcode if available
-      if (report.barcode) {
-        console.log('[Error Reporter] 🗑️  Invalidating cache by barcode:', report.barcode);
-        invalidations.push(cacheService.invalidate(report.barcode, 'barcode'));
-      }
-
-      // Invalidate by image hash if available
+      // Invalidate by image hash if available (the entry may not be tagged
+      // with the product yet)
       if (report.imageHash) {
         console.log('[Error Reporter] 🗑️  Invalidating cache by image hash');
         invalidations.push(cacheService.invalidate(report.imageHash, 'imageHash'));
       }
 
-      // Invalidate all cache entries for the incorrect product
-      // This ensures consistency across all cache keys (barcode and imageHash)
+      // Invalidate all cache entries tagged with the incorrect product or the
+      // barcode, across all keys (barcode and imageHash) and namespaces
+      // Requirement 13.2: Includes the dimension cache
       console.log('[Error Reporter] 🗑️  Invalidating all cache entries for product:', report.incorrectProduct.id);
-      invalidations.push(cacheService.invalidateByProductId(report.incorrectProduct.id));
-
-      // Requirement 13.2: Invalidate dimension cache on error reports
-      try {
-        const { dimensionCacheService } = await import('@/lib/cache/DimensionCacheService');
-        console.log('[Error Reporter] 🗑️  Invalidating dimension cache for product:', report.incorrectProduct.id);
-        invalidations.push(dimensionCacheService.invalidate(report.incorrectProduct.id));
-      } catch (dimError) {
-        console.error('[Error Reporter] ⚠️  Failed to invalidate dimension cache:', dimError);
-        // Best-effort invalidation - don't throw
-      }
+      invalidations.push(cacheLayer.invalidateProduct(report.incorrectProduct.id, report.barcode));
 
       await Promise.all(invalidations);
       console.log('[Error Reporter] ✅ Cache invalidated');
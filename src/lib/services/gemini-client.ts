@@ -7,8 +7,11 @@
  * Requirements: 2.2, 4.2, 8.3
  */
 
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getLLMProvider } from '@/lib/llm/provider-factory';
+import { generateStructured } from '@/lib/llm/structured-output';
+import type { LLMProvider } from '@/lib/llm/types';
+import { DimensionAnalysisResponseSchema, ProductAnalysisResponseSchema } from '@/lib/prompts/response-schemas';
+import type { RawAIResponse } from '@/lib/types/dimension-analysis';
 import { ImageData, ProductMetadata, VisualCharacteristics } from '@/lib/types/multi-tier';
 
 /**
@@ -76,22 +79,17 @@ class DimensionAnalysisCircuitBreaker {
  * Gemini API Client class
  * 
  * Provides methods for OCR text extraction and comprehensive image analysis
- * using Google's Gemini 2.0 Flash model via Vercel AI SDK.
+ * using Google's Gemini 2.0 Flash model via the configured LLM provider
+ * (Google AI Studio by default).
  */
 export class GeminiClient {
-  private apiKey: string;
   private model: string = 'gemini-2.0-flash'; // Same model as working /api/analyze endpoint
+  private provider: LLMProvider;
   private dimensionCircuitBreaker: DimensionAnalysisCircuitBreaker;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
-    
-    if (!this.apiKey) {
-      throw new Error('Gemini API key is required');
-    }
-    
-    // Set API key for @ai-sdk/google
-    process.env.GOOGLE_GENERATIVE_AI_API_KEY = this.apiKey;
+  constructor(apiKey?: string, provider?: LLMProvider) {
+    // Google AI Studio by default; LLM_PROVIDER can swap in another backend
+    this.provider = provider || getLLMProvider('google-ai-studio', { apiKey, model: this.model, consumer: 'GeminiClient' });
     
     // Initialize circuit breaker for dimension analysis
     this.dimensionCircuitBreaker = new DimensionAnalysisCircuitBreaker();
@@ -118,16 +116,8 @@ export class GeminiClient {
 
       const imageDataUrl = `data:${image.mimeType};base64,${base64Data}`;
 
-      const result = await generateText({
-        model: google(this.model),
-        temperature: 0.1, // Low temperature for factual extraction
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Extract all visible text from this product packaging image. List the text you see, focusing on:
+      const result = await this.provider.generate({
+        prompt: `Extract all visible text from this product packaging image. List the text you see, focusing on:
 - Product name
 - Brand name  
 - Size/quantity (e.g., "12 oz", "500g")
@@ -139,15 +129,10 @@ Brand: [brand]
 Size: [size]
 Other text: [any other visible text]
 
-Be concise and accurate.`
-              },
-              {
-                type: 'image',
-                image: imageDataUrl,
-              },
-            ],
-          },
-        ],
+Be concise and accurate.`,
+        imageData: imageDataUrl,
+        temperature: 0.1,
+        model: this.model,
       });
 
       const extractedText = result.text;
@@ -190,16 +175,7 @@ Be concise and accurate.`
 
       const imageDataUrl = `data:${image.mimeType};base64,${base64Data}`;
 
-      const result = await generateText({
-        model: google(this.model),
-        temperature: 0.2,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Analyze this product image and provide detailed information in JSON format:
+      const prompt = `Analyze this product image and provide detailed information in JSON format:
 
 {
   "productName": "Full product name",
@@ -216,29 +192,19 @@ Be concise and accurate.`
 }
 
 Be as accurate as possible. Set confidence between 0.0 and 1.0 based on image clarity and your certainty.
-Return ONLY the JSON object, no additional text.`
-              },
-              {
-                type: 'image',
-                image: imageDataUrl,
-              },
-            ],
-          },
-        ],
-      });
-
-      const responseText = result.text;
-      
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/) || 
-                       responseText.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) {
-        throw new Error('Failed to parse JSON from Gemini response');
-      }
+Return ONLY the JSON object, no additional text.`;
 
-      const jsonText = jsonMatch[1] || jsonMatch[0];
-      const parsedResult = JSON.parse(jsonText);
+      const { data: parsedResult } = await generateStructured(
+        async (text) => (await this.provider.generate({
+          prompt: text,
+          imageData: imageDataUrl,
+          temperature: 0.2,
+          model: this.model,
+        })).text,
+        prompt,
+        ProductAnalysisResponseSchema,
+        'Product analysis'
+      );
 
       const duration = Date.now() - startTime;
       console.log(`[Gemini Client] ✅ Product analyzed (${duration}ms)`);
@@ -250,7 +216,7 @@ Return ONLY the JSON object, no additional text.`
           brandName: parsedResult.brandName,
           size: parsedResult.size,
           category: parsedResult.category,
-          keywords: parsedResult.keywords || [],
+          keywords: parsedResult.keywords,
         },
         visualCharacteristics: parsedResult.visualCharacteristics,
         confidence: parsedResult.confidence,
@@ -269,12 +235,12 @@ Return ONLY the JSON object, no additional text.`
    * 
    * @param image - Product image data
    * @param productData - Product context (name, brand, category)
-   * @returns Promise resolving to dimension analysis in JSON format
+   * @returns Promise resolving to the validated dimension analysis
    */
   async analyzeDimensions(
     image: ImageData,
     productData: { name: string; brand: string; category: string }
-  ): Promise<string> {
+  ): Promise<RawAIResponse> {
     const startTime = Date.now();
 
     try {
@@ -296,25 +262,18 @@ Return ONLY the JSON object, no additional text.`
       // Build analysis prompt (Requirement 12.1-12.6)
       const prompt = this.buildDimensionAnalysisPrompt(productData);
 
-      const result = await generateText({
-        model: google(this.model),
-        temperature: 0.2, // Lower temperature for consistent scoring
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image',
-                image: imageDataUrl,
-              },
-            ],
-          },
-        ],
-      });
+      // Validate the response (Requirement 3.4: scores 0-100), re-prompting once if invalid
+      const { data } = await generateStructured(
+        async (text) => (await this.provider.generate({
+          prompt: text,
+          imageData: imageDataUrl,
+          temperature: 0.2,
+          model: this.model,
+        })).text,
+        prompt,
+        DimensionAnalysisResponseSchema,
+        'Dimension analysis'
+      );
 
       const duration = Date.now() - startTime;
       console.log(`[Gemini Client] ✅ Dimensions analyzed (${duration}ms)`);
@@ -322,7 +281,7 @@ Return ONLY the JSON object, no additional text.`
       // Record success for circuit breaker
       this.dimensionCircuitBreaker.recordSuccess();
 
-      return result.text;
+      return data;
     } catch (error) {
       const duration = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,277 @@
+/**
+ * Health Scoring Profiles
+ *
+ * Declarative thresholds, point values and bonuses used by HealthScorer.
+ * Each profile is a list of rules; every HealthFactor in a score carries the
+ * ID of the rule that produced it, so score changes can be traced to data.
+ *
+ * Profiles:
+ * - default: general population (Requirements 4.2-4.10)
+ * - heart_health: stricter sodium, saturated fat and trans fat limits
+ * - diabetic: stricter sugar limits, carbohydrate penalties, fiber rewarded
+ * - kids: lower sugar and sodium limits, artificial colors and sweeteners weigh more
+ * - athlete: protein rewarded in more tiers, relaxed sodium
+ *
+ * Kept free of runtime imports so client pages can list the profiles.
+ */
+
+/**
+ * Scoring profile identifier (stored on user_dietary_profiles.health_profile)
+ */
+export type HealthProfileId = 'default' | 'heart_health' | 'diabetic' | 'kids' | 'athlete';
+
+/**
+ * Per-serving nutrient a threshold rule applies to
+ * (sugar is added sugars when declared, total sugars otherwise)
+ */
+export type ScoredNutrient = 'sodium' | 'sugar' | 'saturatedFat' | 'transFat' | 'carbohydrates' | 'fiber' | 'protein';
+
+/**
+ * Ingredient list a per-ingredient rule counts
+ */
+export type ScoredIngredientClass = 'preservatives' | 'sweeteners' | 'artificialColors';
+
+/**
+ * One threshold of a nutrient rule
+ */
+export interface NutrientTier {
+  id: string; // Rule ID referenced by HealthFactor.rule, e.g. "sodium.high"
+  above: number; // Applies when the value is strictly greater
+  points: number; // Negative for penalties, positive for bonuses
+  category: string; // e.g. "High Sodium"
+  level?: string; // e.g. "high", appended to the description
+}
+
+/**
+ * Threshold rule for a nutrient; the first matching tier wins
+ */
+export interface NutrientRule {
+  nutrient: ScoredNutrient;
+  label: string; // e.g. "sodium", used in descriptions
+  unit: 'g' | 'mg';
+  tiers: NutrientTier[]; // Highest threshold first
+}
+
+/**
+ * Per-ingredient penalty for an ingredient class
+ */
+export interface IngredientRule {
+  id: string;
+  ingredients: ScoredIngredientClass;
+  category: string;
+  noun: string; // e.g. "artificial preservative"
+  pointsEach: number;
+}
+
+/**
+ * Penalty for additives of concern not counted by an ingredient rule
+ */
+export interface AdditiveConcernRule {
+  id: string;
+  category: string;
+  points: { high: number; moderate: number };
+}
+
+/**
+ * Complete scoring profile
+ */
+export interface HealthProfile {
+  id: HealthProfileId;
+  name: string;
+  description: string;
+  nutrientRules: NutrientRule[];
+  ingredientRules: IngredientRule[];
+  additiveRule: AdditiveConcernRule;
+}
+
+const sodium = (high: number, highPoints: number, veryHigh: number, veryHighPoints: number): NutrientRule => ({
+  nutrient: 'sodium',
+  label: 'sodium',
+  unit: 'mg',
+  tiers: [
+    { id: 'sodium.very_high', above: veryHigh, points: veryHighPoints, category: 'Very High Sodium', level: 'very high' },
+    { id: 'sodium.high', above: high, points: highPoints, category: 'High Sodium', level: 'high' },
+  ],
+});
+
+const sugar = (high: number, highPoints: number, veryHigh: number, veryHighPoints: number): NutrientRule => ({
+  nutrient: 'sugar',
+  label: 'sugar',
+  unit: 'g',
+  tiers: [
+    { id: 'sugar.very_high', above: veryHigh, points: veryHighPoints, category: 'Very High Sugar', level: 'very high' },
+    { id: 'sugar.high', above: high, points: highPoints, category: 'High Sugar', level: 'high' },
+  ],
+});
+
+const saturatedFat = (high: number, highPoints: number, veryHigh: number, veryHighPoints: number): NutrientRule => ({
+  nutrient: 'saturatedFat',
+  label: 'saturated fat',
+  unit: 'g',
+  tiers: [
+    { id: 'saturated_fat.very_high', above: veryHigh, points: veryHighPoints, category: 'Very High Saturated Fat', level: 'very high' },
+    { id: 'saturated_fat.high', above: high, points: highPoints, category: 'High Saturated Fat', level: 'high' },
+  ],
+});
+
+const transFat = (points: number): NutrientRule => ({
+  nutrient: 'transFat',
+  label: 'trans fat',
+  unit: 'g',
+  tiers: [{ id: 'trans_fat.present', above: 0, points, category: 'Trans Fat Present' }],
+});
+
+const fiber = (high: number, highPoints: number, veryHigh: number, veryHighPoints: number): NutrientRule => ({
+  nutrient: 'fiber',
+  label: 'dietary fiber',
+  unit: 'g',
+  tiers: [
+    { id: 'fiber.very_high', above: veryHigh, points: veryHighPoints, category: 'Very High Fiber', level: 'excellent' },
+    { id: 'fiber.high', above: high, points: highPoints, category: 'High Fiber', level: 'good' },
+  ],
+});
+
+const protein = (high: number, highPoints: number, veryHigh: number, veryHighPoints: number): NutrientRule => ({
+  nutrient: 'protein',
+  label: 'protein',
+  unit: 'g',
+  tiers: [
+    { id: 'protein.very_high', above: veryHigh, points: veryHighPoints, category: 'Very High Protein', level: 'excellent' },
+    { id: 'protein.high', above: high, points: highPoints, category: 'High Protein', level: 'good' },
+  ],
+});
+
+const ingredientRules = (preservative: number, sweetener: number, color: number): IngredientRule[] => [
+  { id: 'ingredients.preservatives', ingredients: 'preservatives', category: 'Artificial Preservatives', noun: 'artificial preservative', pointsEach: preservative },
+  { id: 'ingredients.sweeteners', ingredients: 'sweeteners', category: 'Artificial Sweeteners', noun: 'artificial sweetener', pointsEach: sweetener },
+  { id: 'ingredients.artificial_colors', ingredients: 'artificialColors', category: 'Artificial Colors', noun: 'artificial color', pointsEach: color },
+];
+
+const additiveRule = (high: number, moderate: number): AdditiveConcernRule => ({
+  id: 'ingredients.additives_of_concern',
+  category: 'Additives of Concern',
+  points: { high, moderate },
+});
+
+/**
+ * Scoring profiles by ID
+ */
+export const HEALTH_PROFILES: Record<HealthProfileId, HealthProfile> = {
+  default: {
+    id: 'default',
+    name: 'Standard',
+    description: 'General dietary guidelines',
+    nutrientRules: [
+      sodium(400, -10, 800, -20),
+      sugar(10, -15, 20, -25),
+      saturatedFat(5, -10, 10, -20),
+      transFat(-15),
+      fiber(3, 5, 5, 10),
+      protein(10, 5, 20, 10),
+    ],
+    ingredientRules: ingredientRules(-5, -5, -3),
+    additiveRule: additiveRule(-3, -1),
+  },
+
+  heart_health: {
+    id: 'heart_health',
+    name: 'Heart Health',
+    description: 'Stricter sodium, saturated fat and trans fat limits',
+    nutrientRules: [
+      sodium(140, -10, 400, -25),
+      sugar(10, -15, 20, -25),
+      saturatedFat(2, -10, 5, -25),
+      transFat(-25),
+      fiber(3, 5, 5, 10),
+      protein(10, 5, 20, 10),
+    ],
+    ingredientRules: ingredientRules(-5, -5, -3),
+    additiveRule: additiveRule(-3, -1),
+  },
+
+  diabetic: {
+    id: 'diabetic',
+    name: 'Diabetic',
+    description: 'Stricter sugar limits, penalizes high carbohydrates and rewards fiber',
+    nutrientRules: [
+      sodium(400, -10, 800, -20),
+      sugar(5, -15, 10, -30),
+      {
+        nutrient: 'carbohydrates',
+        label: 'carbohydrates',
+        unit: 'g',
+        tiers: [
+          { id: 'carbohydrates.very_high', above: 45, points: -20, category: 'Very High Carbohydrates', level: 'very high' },
+          { id: 'carbohydrates.high', above: 30, points: -10, category: 'High Carbohydrates', level: 'high' },
+        ],
+      },
+      saturatedFat(5, -10, 10, -20),
+      transFat(-15),
+      fiber(3, 10, 5, 15),
+      protein(10, 5, 20, 10),
+    ],
+    // Non-nutritive sweeteners do not raise blood glucose
+    ingredientRules: ingredientRules(-5, -2, -3),
+    additiveRule: additiveRule(-3, -1),
+  },
+
+  kids: {
+    id: 'kids',
+    name: 'Kids',
+    description: 'Lower sugar and sodium limits; artificial colors and sweeteners weigh more',
+    nutrientRules: [
+      sodium(300, -10, 600, -20),
+      sugar(6, -15, 12, -25),
+      saturatedFat(3, -10, 6, -20),
+      transFat(-15),
+      fiber(3, 5, 5, 10),
+      protein(10, 5, 20, 10),
+    ],
+    ingredientRules: ingredientRules(-5, -8, -6),
+    additiveRule: additiveRule(-4, -2),
+  },
+
+  athlete: {
+    id: 'athlete',
+    name: 'Athlete',
+    description: 'Rewards protein and tolerates more sodium',
+    nutrientRules: [
+      sodium(600, -10, 1200, -20),
+      sugar(15, -10, 30, -20),
+      saturatedFat(5, -10, 10, -20),
+      transFat(-15),
+      fiber(3, 5, 5, 10),
+      {
+        nutrient: 'protein',
+        label: 'protein',
+        unit: 'g',
+        tiers: [
+          { id: 'protein.exceptional', above: 30, points: 15, category: 'Exceptional Protein', level: 'exceptional' },
+          { id: 'protein.very_high', above: 20, points: 10, category: 'Very High Protein', level: 'excellent' },
+          { id: 'protein.high', above: 10, points: 5, category: 'High Protein', level: 'good' },
+        ],
+      },
+    ],
+    ingredientRules: ingredientRules(-5, -5, -3),
+    additiveRule: additiveRule(-3, -1),
+  },
+};
+
+/**
+ * Profile IDs, in display order
+ */
+export const HEALTH_PROFILE_IDS = Object.keys(HEALTH_PROFILES) as HealthProfileId[];
+
+/**
+ * Whether a value is a known profile ID
+ */
+export function isHealthProfileId(value: unknown): value is HealthProfileId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HEALTH_PROFILES, value);
+}
+
+/**
+ * Resolve a profile, falling back to the default for unknown or missing IDs
+ */
+export function getHealthProfile(id?: string | null): HealthProfile {
+  return isHealthProfileId(id) ? HEALTH_PROFILES[id] : HEALTH_PROFILES.default;
+}
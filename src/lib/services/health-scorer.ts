@@ -5,15 +5,18 @@
  * 
  * Scoring Algorithm:
  * - Base score: 100 points
- * - Nutritional penalties (max -70 points)
- * - Nutritional bonuses (max +20 points)
- * - Ingredient penalties (max -30 points)
+ * - Nutritional penalties and bonuses
+ * - Ingredient penalties (max -30 points in the breakdown)
+ * 
+ * Thresholds and points come from a scoring profile (see health-profiles.ts);
+ * the default profile penalizes up to -70 points and rewards up to +20.
  * 
  * Requirements: 4.1-4.12
  */
 
 import { NutritionalFacts } from './nutrition-parser';
 import { IngredientList } from './ingredient-parser';
+import { getHealthProfile, type HealthProfile, type HealthProfileId, type NutrientRule, type ScoredNutrient } from './health-profiles';
 
 /**
  * Health score category classification
@@ -35,6 +38,7 @@ export interface HealthFactor {
   impact: FactorImpact;
   points: number; // Points added or subtracted
   description: string;
+  rule: string; // ID of the profile rule that produced it, e.g. "sodium.high"
 }
 
 /**
@@ -50,6 +54,29 @@ export interface HealthScore {
   };
   factors: HealthFactor[];
   explanation: string;
+  profile?: HealthProfileId; // Scoring profile used (absent on scores cached before profiles)
+}
+
+/**
+ * Per-serving value of a scored nutrient
+ */
+function nutrientValue(facts: NutritionalFacts, nutrient: ScoredNutrient): number {
+  switch (nutrient) {
+    case 'sodium':
+      return facts.sodium.value;
+    case 'sugar':
+      return facts.addedSugars?.value || facts.totalSugars.value;
+    case 'saturatedFat':
+      return facts.saturatedFat.value;
+    case 'transFat':
+      return facts.transFat.value;
+    case 'carbohydrates':
+      return facts.totalCarbohydrates.value;
+    case 'fiber':
+      return facts.dietaryFiber.value;
+    case 'protein':
+      return facts.protein.value;
+  }
 }
 
 /**
@@ -59,6 +86,15 @@ export interface HealthScore {
  * Requirements: 4.1-4.12
  */
 export class HealthScorer {
+  readonly profile: HealthProfile;
+  
+  /**
+   * @param profile - Scoring profile or profile ID (unknown IDs use the default profile)
+   */
+  constructor(profile: HealthProfile | HealthProfileId = 'default') {
+    this.profile = typeof profile === 'string' ? getHealthProfile(profile) : profile;
+  }
+  
   /**
    * Calculates health score from nutritional data and ingredients
    * 
@@ -77,15 +113,10 @@ export class HealthScorer {
     // Start with base score of 100
     let nutritionalScore = 100;
     
-    // Apply nutritional penalties (Requirements 4.2-4.5)
-    nutritionalScore += this.applySodiumPenalty(facts.sodium.value, factors);
-    nutritionalScore += this.applySugarPenalty(facts.addedSugars?.value || facts.totalSugars.value, factors);
-    nutritionalScore += this.applySaturatedFatPenalty(facts.saturatedFat.value, factors);
-    nutritionalScore += this.applyTransFatPenalty(facts.transFat.value, factors);
-    
-    // Apply nutritional bonuses (Requirements 4.6-4.7)
-    nutritionalScore += this.applyFiberBonus(facts.dietaryFiber.value, factors);
-    nutritionalScore += this.applyProteinBonus(facts.protein.value, factors);
+    // Apply the profile's nutritional penalties and bonuses (Requirements 4.2-4.7)
+    for (const rule of this.profile.nutrientRules) {
+      nutritionalScore += this.applyNutrientRule(rule, nutrientValue(facts, rule.nutrient), factors);
+    }
     
     // Calculate ingredient score (Requirements 4.8-4.10)
     const ingredientScore = this.calculateIngredientScore(ingredients, factors);
@@ -102,6 +133,7 @@ export class HealthScorer {
     return {
       overall,
       category,
+      profile: this.profile.id,
       breakdown: {
         nutritionalScore: Math.max(0, Math.min(100, nutritionalScore)),
         ingredientScore: Math.max(-30, Math.min(0, ingredientScore))
@@ -112,208 +144,93 @@ export class HealthScorer {
   }
   
   /**
-   * Apply sodium penalty
-   * Requirement 4.2: Penalize high sodium
-   * - >400mg: -10 points
-   * - >800mg: -20 points
-   */
-  private applySodiumPenalty(sodium: number, factors: HealthFactor[]): number {
-    if (sodium > 800) {
-      factors.push({
-        category: 'Very High Sodium',
-        impact: 'negative',
-        points: -20,
-        description: `Contains ${sodium}mg of sodium per serving (very high)`
-      });
-      return -20;
-    } else if (sodium > 400) {
-      factors.push({
-        category: 'High Sodium',
-        impact: 'negative',
-        points: -10,
-        description: `Contains ${sodium}mg of sodium per serving (high)`
-      });
-      return -10;
-    }
-    return 0;
-  }
-  
-  /**
-   * Apply added sugar penalty
-   * Requirement 4.3: Penalize high added sugars
-   * - >10g: -15 points
-   * - >20g: -25 points
-   */
-  private applySugarPenalty(sugar: number, factors: HealthFactor[]): number {
-    if (sugar > 20) {
-      factors.push({
-        category: 'Very High Sugar',
-        impact: 'negative',
-        points: -25,
-        description: `Contains ${sugar}g of sugar per serving (very high)`
-      });
-      return -25;
-    } else if (sugar > 10) {
-      factors.push({
-        category: 'High Sugar',
-        impact: 'negative',
-        points: -15,
-        description: `Contains ${sugar}g of sugar per serving (high)`
-      });
-      return -15;
-    }
-    return 0;
-  }
-  
-  /**
-   * Apply saturated fat penalty
-   * Requirement 4.4: Penalize high saturated fat
-   * - >5g: -10 points
-   * - >10g: -20 points
+   * Apply a nutrient threshold rule
+   * Requirements 4.2-4.7: Penalize high sodium, sugar and fats, reward fiber and protein
+   * (thresholds and points come from the profile)
    */
-  private applySaturatedFatPenalty(saturatedFat: number, factors: HealthFactor[]): number {
-    if (saturatedFat > 10) {
-      factors.push({
-        category: 'Very High Saturated Fat',
-        impact: 'negative',
-        points: -20,
-        description: `Contains ${saturatedFat}g of saturated fat per serving (very high)`
-      });
-      return -20;
-    } else if (saturatedFat > 5) {
-      factors.push({
-        category: 'High Saturated Fat',
-        impact: 'negative',
-        points: -10,
-        description: `Contains ${saturatedFat}g of saturated fat per serving (high)`
-      });
-      return -10;
+  private applyNutrientRule(rule: NutrientRule, value: number, factors: HealthFactor[]): number {
+    const tier = rule.tiers.find(candidate => value > candidate.above);
+    if (!tier) {
+      return 0;
     }
-    return 0;
-  }
-  
-  /**
-   * Apply trans fat penalty
-   * Requirement 4.5: Penalize any trans fat
-   * - >0g: -15 points
-   */
-  private applyTransFatPenalty(transFat: number, factors: HealthFactor[]): number {
-    if (transFat > 0) {
-      factors.push({
-        category: 'Trans Fat Present',
-        impact: 'negative',
-        points: -15,
-        description: `Contains ${transFat}g of trans fat per serving`
-      });
-      return -15;
-    }
-    return 0;
-  }
-  
-  /**
-   * Apply fiber bonus
-   * Requirement 4.6: Reward high fiber
-   * - >3g: +5 points
-   * - >5g: +10 points
-   */
-  private applyFiberBonus(fiber: number, factors: HealthFactor[]): number {
-    if (fiber > 5) {
-      factors.push({
-        category: 'Very High Fiber',
-        impact: 'positive',
-        points: 10,
-        description: `Contains ${fiber}g of dietary fiber per serving (excellent)`
-      });
-      return 10;
-    } else if (fiber > 3) {
-      factors.push({
-        category: 'High Fiber',
-        impact: 'positive',
-        points: 5,
-        description: `Contains ${fiber}g of dietary fiber per serving (good)`
-      });
-      return 5;
-    }
-    return 0;
-  }
-  
-  /**
-   * Apply protein bonus
-   * Requirement 4.7: Reward high protein
-   * - >10g: +5 points
-   * - >20g: +10 points
-   */
-  private applyProteinBonus(protein: number, factors: HealthFactor[]): number {
-    if (protein > 20) {
-      factors.push({
-        category: 'Very High Protein',
-        impact: 'positive',
-        points: 10,
-        description: `Contains ${protein}g of protein per serving (excellent)`
-      });
-      return 10;
-    } else if (protein > 10) {
-      factors.push({
-        category: 'High Protein',
-        impact: 'positive',
-        points: 5,
-        description: `Contains ${protein}g of protein per serving (good)`
-      });
-      return 5;
-    }
-    return 0;
+    
+    factors.push({
+      category: tier.category,
+      impact: tier.points < 0 ? 'negative' : 'positive',
+      points: tier.points,
+      description: `Contains ${value}${rule.unit} of ${rule.label} per serving${tier.level ? ` (${tier.level})` : ''}`,
+      rule: tier.id
+    });
+    return tier.points;
   }
   
   /**
    * Calculate ingredient-based score
    * Requirements 4.8-4.10: Penalize artificial additives
-   * - Each preservative: -5 points
-   * - Each sweetener: -5 points
-   * - Each artificial color: -3 points
+   * - Each preservative, sweetener and artificial color (points per profile)
+   * - Each other classified additive of high or moderate concern
    */
   private calculateIngredientScore(ingredients: IngredientList, factors: HealthFactor[]): number {
     let score = 0;
     
-    // Penalize preservatives (Requirement 4.8)
-    const preservativeCount = ingredients.preservatives.length;
-    if (preservativeCount > 0) {
-      const penalty = preservativeCount * -5;
+    for (const rule of this.profile.ingredientRules) {
+      const count = ingredients[rule.ingredients].length;
+      if (count === 0) {
+        continue;
+      }
+      
+      const penalty = count * rule.pointsEach;
       factors.push({
-        category: 'Artificial Preservatives',
+        category: rule.category,
         impact: 'negative',
         points: penalty,
-        description: `Contains ${preservativeCount} artificial preservative${preservativeCount > 1 ? 's' : ''}`
+        description: `Contains ${count} ${rule.noun}${count > 1 ? 's' : ''}`,
+        rule: rule.id
       });
       score += penalty;
     }
     
-    // Penalize sweeteners (Requirement 4.9)
-    const sweetenerCount = ingredients.sweeteners.length;
-    if (sweetenerCount > 0) {
-      const penalty = sweetenerCount * -5;
-      factors.push({
-        category: 'Artificial Sweeteners',
-        impact: 'negative',
-        points: penalty,
-        description: `Contains ${sweetenerCount} artificial sweetener${sweetenerCount > 1 ? 's' : ''}`
-      });
-      score += penalty;
-    }
+    // Penalize other additives by concern level (emulsifiers, thickeners,
+    // flavor enhancers, ...) not already counted above
+    score += this.applyAdditivePenalty(ingredients, factors);
     
-    // Penalize artificial colors (Requirement 4.10)
-    const colorCount = ingredients.artificialColors.length;
-    if (colorCount > 0) {
-      const penalty = colorCount * -3;
-      factors.push({
-        category: 'Artificial Colors',
-        impact: 'negative',
-        points: penalty,
-        description: `Contains ${colorCount} artificial color${colorCount > 1 ? 's' : ''}`
-      });
-      score += penalty;
+    return score;
+  }
+  
+  /**
+   * Apply penalty for classified additives of concern
+   * (points per high and moderate concern additive come from the profile)
+   */
+  private applyAdditivePenalty(ingredients: IngredientList, factors: HealthFactor[]): number {
+    const rule = this.profile.additiveRule;
+    const additives = (ingredients.additives || [])
+      .filter(ingredient => !ingredient.isPreservative && !ingredient.isSweetener && !ingredient.isArtificialColor)
+      .map(ingredient => ingredient.additive!)
+      .filter(additive => additive.concern === 'high' || additive.concern === 'moderate');
+    
+    if (additives.length === 0) {
+      return 0;
     }
     
-    return score;
+    const penalty = additives.reduce(
+      (total, additive) => total + (additive.concern === 'high' ? rule.points.high : rule.points.moderate),
+      0
+    );
+    const names = additives.map(additive => {
+      const banned = (Object.keys(additive.status) as Array<keyof typeof additive.status>)
+        .filter(region => additive.status[region] === 'banned');
+      const label = additive.eNumber ? `${additive.name} (${additive.eNumber})` : additive.name;
+      return banned.length > 0 ? `${label}, banned in the ${banned.join('/')}` : label;
+    });
+    
+    factors.push({
+      category: rule.category,
+      impact: 'negative',
+      points: penalty,
+      description: `Contains ${additives.length} additive${additives.length > 1 ? 's' : ''} of concern: ${names.join('; ')}`,
+      rule: rule.id
+    });
+    return penalty;
   }
   
   /**
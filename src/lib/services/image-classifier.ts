@@ -7,9 +7,12 @@
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7
  */
 
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getLLMProvider } from '@/lib/llm/provider-factory';
+import { generateStructured, LLMResponseValidationError } from '@/lib/llm/structured-output';
+import type { LLMProvider } from '@/lib/llm/types';
+import { ImageClassificationResponseSchema } from '@/lib/prompts/response-schemas';
 import { hashImage } from '../imageHash';
+import { cacheLayer, type NamespaceCache } from '@/lib/cache';
 
 /**
  * Image classification result interface
@@ -33,25 +36,27 @@ export interface ImageClassification {
  * barcodes, product images, or nutritional labels.
  * 
  * Implements caching by image hash to avoid redundant API calls for duplicate images.
+ * Results live in the 'classification' namespace of the unified cache layer,
+ * so they are shared across instances (the API routes create one per request).
  */
 export class ImageClassifier {
-  private apiKey: string;
   private model: string = 'gemini-2.0-flash'; // Same model as GeminiClient
+  private provider: LLMProvider;
   private readonly CONFIDENCE_THRESHOLD = 0.6; // Requirement 1.7
   
-  // In-memory cache for classification results
+  // Cache for classification results
   // Key: SHA-256 hash of image, Value: classification result
-  private classificationCache: Map<string, ImageClassification> = new Map();
+  private classificationCache: NamespaceCache<ImageClassification>;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
-    
-    if (!this.apiKey) {
-      throw new Error('Gemini API key is required for ImageClassifier');
-    }
-    
-    // Set API key for @ai-sdk/google
-    process.env.GOOGLE_GENERATIVE_AI_API_KEY = this.apiKey;
+  constructor(apiKey?: string, provider?: LLMProvider, cache?: NamespaceCache<ImageClassification>) {
+    this.classificationCache = cache || cacheLayer.namespace<ImageClassification>('classification');
+
+    // Google AI Studio by default; LLM_PROVIDER can swap in another backend
+    this.provider = provider || getLLMProvider('google-ai-studio', {
+      apiKey,
+      model: this.model,
+      consumer: 'ImageClassifier',
+    });
   }
 
   /**
@@ -87,7 +92,7 @@ export class ImageClassifier {
       }
       
       // Check cache first
-      const cachedResult = this.classificationCache.get(imageHash);
+      const cachedResult = await this.getCached(imageHash);
       if (cachedResult) {
         const duration = Date.now() - startTime;
         console.log(`[ImageClassifier] ✅ Cache hit (${duration}ms)`);
@@ -101,8 +106,7 @@ export class ImageClassifier {
       const classification = await this.classifyWithoutCache(imageData);
       
       // Store in cache
-      this.classificationCache.set(imageHash, classification);
-      console.log('[ImageClassifier] 💾 Cached classification result');
+      await this.setCached(imageHash, classification);
       
       const duration = Date.now() - startTime;
       console.log(`[ImageClassifier] ✅ Classification complete (${duration}ms)`);
@@ -116,6 +120,31 @@ export class ImageClassifier {
     }
   }
   
+  /**
+   * Looks up a cached classification; cache failures count as a miss
+   */
+  private async getCached(imageHash: string): Promise<ImageClassification | null> {
+    try {
+      const hit = await this.classificationCache.get(imageHash);
+      return hit ? hit.entry.value : null;
+    } catch (error) {
+      console.error('[ImageClassifier] ⚠️  Cache lookup failed, classifying:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Caches a classification; failures are logged and ignored
+   */
+  private async setCached(imageHash: string, classification: ImageClassification): Promise<void> {
+    try {
+      await this.classificationCache.set(imageHash, classification);
+      console.log('[ImageClassifier] 💾 Cached classification result');
+    } catch (error) {
+      console.error('[ImageClassifier] ⚠️  Failed to cache classification:', error);
+    }
+  }
+
   /**
    * Performs classification without cache lookup
    * 
@@ -138,47 +167,8 @@ export class ImageClassifier {
       console.log('[ImageClassifier] Model:', this.model);
       console.log('[ImageClassifier] Image data length:', imageDataUrl.length);
 
-      // Call Gemini Vision API with error handling
-      let result;
-      try {
-        result = await generateText({
-          model: google(this.model),
-          temperature: 0.1, // Low temperature for consistent classification
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: prompt,
-                },
-                {
-                  type: 'image',
-                  image: imageDataUrl,
-                },
-              ],
-            },
-          ],
-        });
-      } catch (apiError) {
-        const errorMessage = apiError instanceof Error ? apiError.message : String(apiError);
-        console.error('[ImageClassifier] ❌ Gemini API call failed:', errorMessage);
-        if (apiError instanceof Error) {
-          console.error('[ImageClassifier] Error name:', apiError.name);
-          console.error('[ImageClassifier] Error message:', apiError.message);
-          if ('cause' in apiError) {
-            console.error('[ImageClassifier] Error cause:', apiError.cause);
-          }
-        }
-        throw new Error(`Gemini API call failed: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
-      }
-
-      console.log('[ImageClassifier] ✅ Received response from Gemini');
-      const responseText = result.text;
-      console.log('[ImageClassifier] Response length:', responseText.length);
-      
-      // Parse JSON response
-      const classification = this.parseClassificationResponse(responseText);
+      // Call Gemini Vision API with error handling, validating the JSON response
+      const classification = await this.requestClassification(imageDataUrl, prompt);
 
       console.log(`[ImageClassifier] Type: ${classification.type}, Confidence: ${classification.confidence}`);
 
@@ -239,42 +229,59 @@ Return ONLY valid JSON in this exact format (no markdown, no explanations):
   }
 
   /**
-   * Parses and validates the classification response from Gemini
+   * Calls Gemini Vision and validates the classification response
+   * (re-prompting once with the validation errors, see lib/llm/structured-output)
    * 
-   * @param responseText - Raw response from Gemini API
+   * @param imageDataUrl - Image as a data URI
+   * @param prompt - Classification prompt
    * @returns Validated ImageClassification object
-   * @throws Error if response is invalid
+   * @throws Error if the API call fails or the response is still invalid after the repair re-prompt
    */
-  private parseClassificationResponse(responseText: string): ImageClassification {
+  private async requestClassification(imageDataUrl: string, prompt: string): Promise<ImageClassification> {
     try {
-      // Strip markdown code blocks if present
-      let cleanedResponse = responseText.trim();
-      const codeBlockMatch = cleanedResponse.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch) {
-        cleanedResponse = codeBlockMatch[1].trim();
-      }
-
-      // Parse JSON
-      const parsed = JSON.parse(cleanedResponse);
-
-      // Validate required fields
-      if (!parsed.type || !['barcode', 'product_image', 'nutrition_label', 'unknown'].includes(parsed.type)) {
-        throw new Error(`Invalid type: ${parsed.type}`);
-      }
+      const { data } = await generateStructured(
+        async (text) => {
+          let result;
+          try {
+            result = await this.provider.generate({
+              prompt: text,
+              imageData: imageDataUrl,
+              temperature: 0.1,
+              model: this.model,
+            });
+          } catch (apiError) {
+            const errorMessage = apiError instanceof Error ? apiError.message : String(apiError);
+            console.error('[ImageClassifier] ❌ Gemini API call failed:', errorMessage);
+            if (apiError instanceof Error) {
+              console.error('[ImageClassifier] Error name:', apiError.name);
+              console.error('[ImageClassifier] Error message:', apiError.message);
+              if ('cause' in apiError) {
+                console.error('[ImageClassifier] Error cause:', apiError.cause);
+              }
+            }
+            throw new Error(`Gemini API call failed: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+          }
 
-      if (typeof parsed.confidence !== 'number' || parsed.confidence < 0 || parsed.confidence > 1) {
-        throw new Error(`Invalid confidence: ${parsed.confidence}`);
-      }
+          console.log('[ImageClassifier] ✅ Received response from Gemini');
+          console.log('[ImageClassifier] Response length:', result.text.length);
+          return result.text;
+        },
+        prompt,
+        ImageClassificationResponseSchema,
+        'Image classification'
+      );
 
-      // Return validated classification
       return {
-        type: parsed.type,
-        confidence: parsed.confidence,
-        metadata: parsed.metadata || {},
+        type: data.type,
+        confidence: data.confidence,
+        metadata: data.metadata,
       };
     } catch (error) {
-      console.error('[ImageClassifier] Failed to parse response:', responseText);
-      throw new Error(`Failed to parse classification response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof LLMResponseValidationError) {
+        console.error('[ImageClassifier] Failed to parse response:', error.responseText);
+        throw new Error(`Failed to parse classification response: ${error.message}`);
+      }
+      throw error;
     }
   }
 
@@ -326,9 +333,8 @@ Return ONLY valid JSON in this exact format (no markdown, no explanations):
    * 
    * Useful for testing or when cache needs to be invalidated.
    */
-  clearCache(): void {
-    const size = this.classificationCache.size;
-    this.classificationCache.clear();
+  async clearCache(): Promise<void> {
+    const size = await this.classificationCache.clear();
     console.log(`[ImageClassifier] 🗑️  Cleared cache (${size} entries removed)`);
   }
   
@@ -337,10 +343,11 @@ Return ONLY valid JSON in this exact format (no markdown, no explanations):
    * 
    * @returns Object with cache size and other statistics
    */
-  getCacheStats(): { size: number; entries: number } {
+  async getCacheStats(): Promise<{ size: number; entries: number }> {
+    const stats = await this.classificationCache.stats();
     return {
-      size: this.classificationCache.size,
-      entries: this.classificationCache.size,
+      size: stats.entries,
+      entries: stats.entries,
     };
   }
 }
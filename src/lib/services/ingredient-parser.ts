@@ -7,16 +7,27 @@
  * Requirements: 3.1-3.8
  */
 
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
-
-/**
- * Allergen types (8 major allergens)
- * Requirement 3.4: Flag common allergens
- */
-export type AllergenType = 
-  | 'milk' | 'eggs' | 'fish' | 'shellfish' 
-  | 'tree_nuts' | 'peanuts' | 'wheat' | 'soybeans';
+import { getLLMProvider } from '@/lib/llm/provider-factory';
+import { generateStructured, LLMResponseValidationError } from '@/lib/llm/structured-output';
+import type { LLMProvider } from '@/lib/llm/types';
+import { IngredientTextResponseSchema, type IngredientTextResponse } from '@/lib/prompts/response-schemas';
+import {
+  findAllergens,
+  type AllergenJurisdiction,
+  type AllergenMatch,
+  type AllergenType,
+} from '@/lib/allergens/allergen-knowledge-base';
+import { findAdditive, type AdditiveMatch } from '@/lib/additives/additive-database';
+import {
+  extractAllergenStatements,
+  type FreeFromClaim,
+  type PrecautionaryStatement,
+} from '@/lib/allergens/precautionary-labelling';
+
+export type { AllergenType, AllergenJurisdiction, AllergenMatch } from '@/lib/allergens/allergen-knowledge-base';
+export { ALLERGEN_TYPES } from '@/lib/allergens/allergen-knowledge-base';
+export type { FreeFromClaim, PrecautionaryStatement } from '@/lib/allergens/precautionary-labelling';
+export type { AdditiveMatch } from '@/lib/additives/additive-database';
 
 /**
  * Preservative types
@@ -38,24 +49,33 @@ export type SweetenerType =
  * Parsed ingredient data structure
  * 
  * Each ingredient includes flags for allergens, preservatives, sweeteners, and colors.
+ * Compound ingredients ("Chocolate (sugar, cocoa butter, milk)") carry their
+ * sub-ingredients as children; flags apply to the ingredient's own name.
  */
 export interface ParsedIngredient {
   name: string;
-  position: number; // Order in ingredient list (1-indexed)
+  position: number; // Order in its list (1-indexed; children count from 1 within the parent)
+  percentage?: number; // Declared share, e.g. 45 for "tomatoes 45%"
+  children?: ParsedIngredient[]; // Sub-ingredients in label order
   isAllergen: boolean;
-  allergenType?: AllergenType;
+  allergenType?: AllergenType; // First allergen found
+  allergenEvidence?: string; // Text that matched allergenType, e.g. "sodium caseinate"
+  allergenMatches?: AllergenMatch[]; // Every allergen found, with its evidence
   isPreservative: boolean;
   preservativeType?: PreservativeType;
   isSweetener: boolean;
   sweetenerType?: SweetenerType;
   isArtificialColor: boolean;
   colorType?: string; // e.g., "Red 40", "Yellow 5"
+  additive?: AdditiveMatch; // Additive database entry the ingredient resolves to
 }
 
 /**
  * Complete ingredient list data structure
  * 
  * Requirement 3.1-3.8: Extract and parse ingredient lists with all flags
+ * `ingredients` is the top level of the ingredient tree; the flagged lists
+ * include sub-ingredients.
  */
 export interface IngredientList {
   rawText: string;
@@ -64,24 +84,48 @@ export interface IngredientList {
   preservatives: ParsedIngredient[];
   sweeteners: ParsedIngredient[];
   artificialColors: ParsedIngredient[];
+  additives?: ParsedIngredient[]; // Ingredients resolved to an additive database entry
+  precautionary?: PrecautionaryStatement[]; // "May contain" / cross-contamination statements
+  freeFrom?: FreeFromClaim[]; // "Gluten-free", "free from dairy" claims
   isComplete: boolean; // false if partially obscured
   confidence: number;
 }
 
 /**
- * Allergen detection patterns (case-insensitive)
+ * Detects the allergen in an ingredient name
+ * 
  * Requirement 3.4: Identify and flag common allergens
+ * Uses the allergen knowledge base (US and EU allergens).
+ * 
+ * @param name - Ingredient name
+ * @returns First matching allergen type, or undefined
  */
-const ALLERGEN_PATTERNS: Record<AllergenType, RegExp> = {
-  milk: /\b(milk|dairy|cream|butter|cheese|whey|casein|lactose|yogurt|ghee)\b/i,
-  eggs: /\b(eggs?|albumin|mayonnaise|meringue)\b/i,
-  fish: /\b(fish|anchovy|bass|cod|salmon|tuna|tilapia|halibut|trout)\b/i,
-  shellfish: /\b(shellfish|crab|lobster|shrimp|prawn|crayfish|clam|oyster|mussel|scallop)\b/i,
-  tree_nuts: /\b(almonds?|cashews?|walnuts?|pecans?|pistachios?|hazelnuts?|macadamias?|brazil nuts?|pine nuts?)\b/i,
-  peanuts: /\b(peanuts?|groundnuts?)\b/i,
-  wheat: /\b(wheat|flour|gluten|semolina|durum|spelt|farina|graham)\b/i,
-  soybeans: /\b(soy|soybeans?|tofu|edamame|tempeh|miso|soya)\b/i,
-};
+export function detectAllergen(name: string): AllergenType | undefined {
+  return findAllergens(name)[0]?.type;
+}
+
+/**
+ * Flattens an ingredient tree, parents before their sub-ingredients
+ * 
+ * @param ingredients - Top-level ingredients
+ * @returns Every ingredient in label order
+ */
+export function flattenIngredients(ingredients: ParsedIngredient[]): ParsedIngredient[] {
+  return ingredients.flatMap(ingredient => [ingredient, ...flattenIngredients(ingredient.children || [])]);
+}
+
+/**
+ * Declared percentage, e.g. "45%" or "12.5 %"
+ */
+const PERCENTAGE_PATTERN = /(\d+(?:[.,]\d+)?)\s*%/;
+
+/**
+ * US "contains 2% or less of:" lead-in before the minor ingredients
+ */
+const MINOR_INGREDIENTS_PREFIX = /^(?:and\s+)?(?:contains\s+)?(?:less than\s+)?\d+(?:[.,]\d+)?\s*%\s+or\s+less\s+of(?:\s+each\s+of)?(?:\s+the\s+following)?\s*:?\s*/i;
+
+const OPENING_BRACKETS = '([{';
+const CLOSING_BRACKETS = ')]}';
 
 /**
  * Preservative detection patterns (case-insensitive)
@@ -126,24 +170,25 @@ const COLOR_PATTERNS: RegExp[] = [
  * allergens, preservatives, sweeteners, and artificial colors using pattern matching.
  */
 export class IngredientParser {
-  private apiKey: string;
   private model: string = 'gemini-2.0-flash'; // Same model as GeminiClient
+  private provider: LLMProvider;
   private readonly CONFIDENCE_THRESHOLD = 0.7; // Threshold for incomplete list flagging
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
-    
-    if (!this.apiKey) {
-      throw new Error('Gemini API key is required for IngredientParser');
-    }
-    
-    // Set API key for @ai-sdk/google
-    process.env.GOOGLE_GENERATIVE_AI_API_KEY = this.apiKey;
+  constructor(apiKey?: string, provider?: LLMProvider) {
+    // Google AI Studio by default; LLM_PROVIDER can swap in another backend
+    this.provider = provider || getLLMProvider('google-ai-studio', {
+      apiKey,
+      model: this.model,
+      consumer: 'IngredientParser',
+    });
   }
 
   /**
    * Extracts and parses ingredient list from image
    * 
+   * Precautionary allergen statements and free-from claims are returned
+   * separately from the ingredients.
+   * 
    * Requirements:
    * - 3.1: Extract complete ingredient text
    * - 3.2: Tokenize ingredients by commas and semicolons
@@ -171,45 +216,31 @@ export class IngredientParser {
       // Construct OCR prompt
       const prompt = this.buildOCRPrompt();
 
-      // Call Gemini Vision API
-      const result = await generateText({
-        model: google(this.model),
-        temperature: 0.1, // Low temperature for consistent extraction
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image',
-                image: imageDataUrl,
-              },
-            ],
-          },
-        ],
-      });
-
-      const responseText = result.text;
-      
-      // Parse JSON response
-      const ocrResult = this.parseOCRResponse(responseText);
+      // Call Gemini Vision API and validate the JSON response
+      const ocrResult = await this.extractText(imageDataUrl, prompt);
+
+      // Take out "may contain" statements and free-from claims so they are
+      // not flagged as ingredients
+      const statements = extractAllergenStatements(ocrResult.rawText);
 
       // Tokenize ingredients (Requirement 3.2)
-      const ingredientNames = this.tokenizeIngredients(ocrResult.rawText);
+      const ingredientNames = this.tokenizeIngredients(statements.ingredientText);
 
-      // Parse each ingredient with detection (Requirements 3.4-3.7)
+      // Parse each ingredient and its sub-ingredients with detection (Requirements 3.4-3.7)
       const parsedIngredients = ingredientNames.map((name, index) => 
-        this.parseIngredient(name, index + 1)
+        this.parseIngredientTree(name, index + 1)
       );
 
-      // Separate flagged items
-      const allergens = parsedIngredients.filter(ing => ing.isAllergen);
-      const preservatives = parsedIngredients.filter(ing => ing.isPreservative);
-      const sweeteners = parsedIngredients.filter(ing => ing.isSweetener);
-      const artificialColors = parsedIngredients.filter(ing => ing.isArtificialColor);
+      // Separate flagged items, including sub-ingredients
+      const allIngredients = flattenIngredients(parsedIngredients);
+      const allergens = allIngredients.filter(ing => ing.isAllergen);
+      const preservatives = allIngredients.filter(ing => ing.isPreservative);
+      const sweeteners = allIngredients.filter(ing => ing.isSweetener);
+      const artificialColors = allIngredients.filter(ing => ing.isArtificialColor);
+      // One entry per additive: "colour (E150d)" names it twice
+      const additives = allIngredients.filter((ing, index) =>
+        ing.additive && allIngredients.findIndex(other => other.additive?.name === ing.additive!.name) === index
+      );
 
       // Determine if list is complete (Requirement 3.8)
       const isComplete = ocrResult.confidence >= this.CONFIDENCE_THRESHOLD;
@@ -221,14 +252,17 @@ export class IngredientParser {
         preservatives,
         sweeteners,
         artificialColors,
+        additives,
+        precautionary: statements.precautionary,
+        freeFrom: statements.freeFrom,
         isComplete,
         confidence: ocrResult.confidence,
       };
 
       const duration = Date.now() - startTime;
       console.log(`[IngredientParser] ✅ Parsing complete (${duration}ms)`);
-      console.log(`[IngredientParser] Found ${parsedIngredients.length} ingredients`);
-      console.log(`[IngredientParser] Allergens: ${allergens.length}, Preservatives: ${preservatives.length}, Sweeteners: ${sweeteners.length}, Colors: ${artificialColors.length}`);
+      console.log(`[IngredientParser] Found ${parsedIngredients.length} ingredients (${allIngredients.length} including sub-ingredients)`);
+      console.log(`[IngredientParser] Allergens: ${allergens.length}, May contain: ${statements.precautionary.length}, Free from: ${statements.freeFrom.length}, Preservatives: ${preservatives.length}, Sweeteners: ${sweeteners.length}, Colors: ${artificialColors.length}, Additives: ${additives.length}`);
       console.log(`[IngredientParser] Complete: ${isComplete}, Confidence: ${ocrResult.confidence}`);
 
       return ingredientList;
@@ -243,13 +277,15 @@ export class IngredientParser {
    * Identifies allergens in ingredient list
    * 
    * Requirement 3.4: Identify and flag common allergens
+   * Precautionary statements and free-from claims in the list are skipped.
    * 
    * @param ingredients - List of ingredient names
-   * @returns Allergens found with types
+   * @param jurisdiction - Only allergens declared under this law (default: US and EU)
+   * @returns Allergens found with types and matched evidence
    */
-  identifyAllergens(ingredients: string[]): ParsedIngredient[] {
-    return ingredients
-      .map((name, index) => this.parseIngredient(name, index + 1))
+  identifyAllergens(ingredients: string[], jurisdiction?: AllergenJurisdiction): ParsedIngredient[] {
+    const { ingredientText } = extractAllergenStatements(ingredients.join(', '));
+    return this.parseIngredientNames(this.tokenizeIngredients(ingredientText), jurisdiction)
       .filter(ing => ing.isAllergen);
   }
 
@@ -262,8 +298,7 @@ export class IngredientParser {
    * @returns Preservatives found with types
    */
   identifyPreservatives(ingredients: string[]): ParsedIngredient[] {
-    return ingredients
-      .map((name, index) => this.parseIngredient(name, index + 1))
+    return this.parseIngredientNames(ingredients)
       .filter(ing => ing.isPreservative);
   }
 
@@ -276,8 +311,7 @@ export class IngredientParser {
    * @returns Sweeteners found with types
    */
   identifySweeteners(ingredients: string[]): ParsedIngredient[] {
-    return ingredients
-      .map((name, index) => this.parseIngredient(name, index + 1))
+    return this.parseIngredientNames(ingredients)
       .filter(ing => ing.isSweetener);
   }
 
@@ -290,8 +324,7 @@ export class IngredientParser {
    * @returns Colors found with identifiers
    */
   identifyArtificialColors(ingredients: string[]): ParsedIngredient[] {
-    return ingredients
-      .map((name, index) => this.parseIngredient(name, index + 1))
+    return this.parseIngredientNames(ingredients)
       .filter(ing => ing.isArtificialColor);
   }
 
@@ -308,7 +341,8 @@ EXTRACTION RULES:
 2. Preserve the original order of ingredients (first ingredient = highest quantity)
 3. Include all visible ingredients, even if partially obscured
 4. If the ingredient list is partially cut off or unclear, extract only the readable portion
-5. Set confidence based on text clarity and completeness (1.0 = perfectly clear and complete, 0.0 = not visible)
+5. Include "may contain", "made in a facility with" and free-from statements (e.g. "gluten-free") printed with the list
+6. Set confidence based on text clarity and completeness (1.0 = perfectly clear and complete, 0.0 = not visible)
 
 Return ONLY valid JSON in this exact format (no markdown, no explanations):
 {
@@ -324,51 +358,46 @@ Example:
   }
 
   /**
-   * Parses and validates the OCR response from Gemini
+   * Extracts the ingredient list text and validates the JSON response
+   * (re-prompting once with the validation errors, see lib/llm/structured-output)
    * 
-   * @param responseText - Raw response from Gemini API
+   * @param imageDataUrl - Label image as a data URI
+   * @param prompt - OCR prompt
    * @returns OCR result with raw text and confidence
-   * @throws Error if response is invalid
+   * @throws Error if the response is still invalid after the repair re-prompt
    */
-  private parseOCRResponse(responseText: string): { rawText: string; confidence: number } {
+  private async extractText(imageDataUrl: string, prompt: string): Promise<IngredientTextResponse> {
     try {
-      // Check if Gemini returned a plain text message (e.g., "There is no ingredient list visible")
-      // This happens when Gemini can't find an ingredient list in the image
-      if (!responseText.includes('{') && !responseText.includes('}')) {
-        console.warn('[IngredientParser] ⚠️  Gemini returned plain text (no JSON):', responseText);
-        // Return empty result with zero confidence
-        return {
-          rawText: '',
-          confidence: 0.0,
-        };
-      }
-      
-      // Strip markdown code blocks if present
-      let cleanedResponse = responseText.trim();
-      const codeBlockMatch = cleanedResponse.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch) {
-        cleanedResponse = codeBlockMatch[1].trim();
-      }
-
-      // Parse JSON
-      const parsed = JSON.parse(cleanedResponse);
-
-      // Validate required fields
-      if (!parsed.rawText || typeof parsed.rawText !== 'string') {
-        throw new Error('Missing or invalid rawText field');
-      }
-
-      if (typeof parsed.confidence !== 'number' || parsed.confidence < 0 || parsed.confidence > 1) {
-        throw new Error(`Invalid confidence: ${parsed.confidence}`);
-      }
+      const { data } = await generateStructured(
+        async (text) => {
+          const result = await this.provider.generate({
+            prompt: text,
+            imageData: imageDataUrl,
+            temperature: 0.1,
+            model: this.model,
+          });
+
+          // Gemini answers in plain text (e.g., "There is no ingredient list visible")
+          // when it can't find an ingredient list; read that as an empty list
+          if (!result.text.includes('{') && !result.text.includes('}')) {
+            console.warn('[IngredientParser] ⚠️  Gemini returned plain text (no JSON):', result.text);
+            return JSON.stringify({ rawText: '', confidence: 0.0 });
+          }
+
+          return result.text;
+        },
+        prompt,
+        IngredientTextResponseSchema,
+        'Ingredient list'
+      );
 
-      return {
-        rawText: parsed.rawText,
-        confidence: parsed.confidence,
-      };
+      return data;
     } catch (error) {
-      console.error('[IngredientParser] Failed to parse response:', responseText);
-      throw new Error(`Failed to parse OCR response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof LLMResponseValidationError) {
+        console.error('[IngredientParser] Failed to parse response:', error.responseText);
+        throw new Error(`Failed to parse OCR response: ${error.message}`);
+      }
+      throw error;
     }
   }
 
@@ -378,34 +407,130 @@ Example:
    * Requirement 3.2: Tokenize ingredients by commas and semicolons
    * Requirement 3.3: Preserve ingredient order
    * 
+   * Separators inside brackets belong to sub-ingredient lists and do not
+   * split the top level, and a comma between two digits is a decimal
+   * comma ("tomatoes 12,5%").
+   * 
    * @param rawText - Raw ingredient list text
    * @returns Array of ingredient names in order
    */
   private tokenizeIngredients(rawText: string): string[] {
     // Strip "INGREDIENTS:" prefix if present (case-insensitive)
-    let cleanedText = rawText.replace(/^INGREDIENTS:\s*/i, '');
+    const cleanedText = rawText.replace(/^INGREDIENTS:\s*/i, '');
     
-    // Split by commas and semicolons
-    const tokens = cleanedText.split(/[,;]+/);
+    // Split by commas and semicolons outside brackets
+    const tokens: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (let i = 0; i < cleanedText.length; i++) {
+      const char = cleanedText[i];
+      const decimalComma = char === ',' && /\d/.test(cleanedText[i - 1] ?? '') && /\d/.test(cleanedText[i + 1] ?? '');
+      if (OPENING_BRACKETS.includes(char)) {
+        depth++;
+      } else if (CLOSING_BRACKETS.includes(char)) {
+        depth = Math.max(0, depth - 1);
+      } else if ((char === ',' || char === ';') && depth === 0 && !decimalComma) {
+        tokens.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    tokens.push(current);
 
-    // Clean up each token (trim whitespace, remove empty strings)
+    // Clean up each token (trim whitespace, drop the "2% or less of" lead-in, remove empty strings)
     const cleanedTokens = tokens
-      .map(token => token.trim())
+      .map(token => token.trim().replace(MINOR_INGREDIENTS_PREFIX, '').trim())
       .filter(token => token.length > 0);
 
     return cleanedTokens;
   }
 
   /**
-   * Parses a single ingredient and detects allergens, preservatives, sweeteners, and colors
+   * Parses ingredient names (which may contain sub-ingredient lists) into a
+   * flat list, parents before their sub-ingredients
+   */
+  private parseIngredientNames(names: string[], jurisdiction?: AllergenJurisdiction): ParsedIngredient[] {
+    return flattenIngredients(names.map((name, index) => this.parseIngredientTree(name, index + 1, jurisdiction)));
+  }
+
+  /**
+   * Parses one ingredient token into a tree
+   * 
+   * "Chocolate 20% (sugar, cocoa butter, milk)" becomes "Chocolate" with
+   * percentage 20 and three children. A bracket holding only a percentage
+   * ("Tomatoes (45%)") is the ingredient's percentage. An unclosed bracket
+   * (list cut off in the photo) runs to the end of the token.
+   * 
+   * @param token - Ingredient text from tokenizeIngredients
+   * @param position - Position in its list (1-indexed)
+   * @param jurisdiction - Only allergens declared under this law (default: US and EU)
+   * @returns Parsed ingredient with children
+   */
+  private parseIngredientTree(token: string, position: number, jurisdiction?: AllergenJurisdiction): ParsedIngredient {
+    let name = '';
+    let percentage: number | undefined;
+    const children: ParsedIngredient[] = [];
+
+    let index = 0;
+    while (index < token.length) {
+      const char = token[index];
+      if (!OPENING_BRACKETS.includes(char)) {
+        name += char;
+        index++;
+        continue;
+      }
+
+      // Find the matching closing bracket
+      let depth = 0;
+      let end = index;
+      for (; end < token.length; end++) {
+        if (OPENING_BRACKETS.includes(token[end])) depth++;
+        if (CLOSING_BRACKETS.includes(token[end]) && --depth === 0) break;
+      }
+      const content = token.slice(index + 1, end).trim();
+      index = end + 1;
+
+      const contentPercentage = content.match(PERCENTAGE_PATTERN);
+      if (contentPercentage && contentPercentage[0].length === content.length) {
+        percentage = parseFloat(contentPercentage[1].replace(',', '.'));
+      } else if (content) {
+        this.tokenizeIngredients(content).forEach(child => {
+          children.push(this.parseIngredientTree(child, children.length + 1, jurisdiction));
+        });
+      }
+      name += ' ';
+    }
+
+    const namePercentage = name.match(PERCENTAGE_PATTERN);
+    if (namePercentage) {
+      percentage ??= parseFloat(namePercentage[1].replace(',', '.'));
+      name = name.replace(PERCENTAGE_PATTERN, ' ');
+    }
+    name = name.replace(/\s+/g, ' ').replace(/^[\s:.-]+|[\s:.-]+$/g, '');
+
+    const ingredient = this.parseIngredient(name || token.trim(), position, jurisdiction);
+    if (percentage !== undefined) {
+      ingredient.percentage = percentage;
+    }
+    if (children.length > 0) {
+      ingredient.children = children;
+    }
+    return ingredient;
+  }
+
+  /**
+   * Parses a single ingredient and detects allergens, preservatives, sweeteners, colors
+   * and other additives
    * 
    * Requirements 3.4-3.7: Pattern matching for detection
    * 
    * @param name - Ingredient name
    * @param position - Position in ingredient list (1-indexed)
+   * @param jurisdiction - Only allergens declared under this law (default: US and EU)
    * @returns Parsed ingredient with all flags
    */
-  private parseIngredient(name: string, position: number): ParsedIngredient {
+  private parseIngredient(name: string, position: number, jurisdiction?: AllergenJurisdiction): ParsedIngredient {
     const ingredient: ParsedIngredient = {
       name,
       position,
@@ -416,12 +541,12 @@ Example:
     };
 
     // Check for allergens (Requirement 3.4)
-    for (const [allergenType, pattern] of Object.entries(ALLERGEN_PATTERNS)) {
-      if (pattern.test(name)) {
-        ingredient.isAllergen = true;
-        ingredient.allergenType = allergenType as AllergenType;
-        break; // Only flag first match
-      }
+    const allergenMatches = findAllergens(name, jurisdiction);
+    if (allergenMatches.length > 0) {
+      ingredient.isAllergen = true;
+      ingredient.allergenType = allergenMatches[0].type;
+      ingredient.allergenEvidence = allergenMatches[0].evidence;
+      ingredient.allergenMatches = allergenMatches;
     }
 
     // Check for preservatives (Requirement 3.5)
@@ -452,6 +577,26 @@ Example:
       }
     }
 
+    // Resolve against the additive database; synthetic additives of some
+    // concern count as preservatives, sweeteners and colors too
+    const additive = findAdditive(name);
+    if (additive) {
+      ingredient.additive = additive;
+
+      if (!additive.natural && additive.concern !== 'none') {
+        if (additive.classes.includes('preservative')) {
+          ingredient.isPreservative = true;
+        }
+        if (additive.classes.includes('sweetener')) {
+          ingredient.isSweetener = true;
+        }
+        if (additive.classes.includes('color') && !ingredient.isArtificialColor) {
+          ingredient.isArtificialColor = true;
+          ingredient.colorType = additive.name;
+        }
+      }
+    }
+
     return ingredient;
   }
 }
@@ -0,0 +1,155 @@
+/**
+ * Local Discovery Provider
+ *
+ * Tier 3 discovery against products already in the database, typically
+ * loaded from an Open Food Facts dump (scripts/import-open-food-facts.ts).
+ * No API key or network access is needed beyond Supabase.
+ *
+ * Candidates are found by name/brand terms and ranked by word overlap with
+ * the extracted metadata, so products Tier 2's stricter metadata search
+ * missed can still be matched.
+ */
+
+import type { ProductMetadata } from '../types/multi-tier';
+import type { Product } from '../supabase/types';
+import {
+  productRepositoryMultiTier,
+  type ProductRepositoryMultiTier,
+} from '../supabase/repositories/ProductRepositoryMultiTier';
+import { compactGtin } from '../barcode/gtin';
+import type { DiscoveryCandidate, DiscoveryProvider } from './discovery-provider';
+
+/**
+ * Candidates scoring below this are dropped
+ */
+const MIN_MATCH_SCORE = 0.4;
+
+/**
+ * Maximum number of search terms sent to the database
+ */
+const MAX_TERMS = 6;
+
+const NAME_WEIGHT = 0.6;
+const BRAND_WEIGHT = 0.3;
+const SIZE_WEIGHT = 0.1;
+
+/**
+ * Lowercase words of at least 3 letters or digits
+ */
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= 3);
+}
+
+/**
+ * Share of words in common (Jaccard similarity)
+ */
+function overlap(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = new Set([...setA, ...setB]);
+  if (union.size === 0) return 0;
+  return [...setA].filter(word => setB.has(word)).length / union.size;
+}
+
+function normalizeSize(size: string | null | undefined): string {
+  return (size || '').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Score how well a stored product matches extracted metadata (0.0 to 1.0)
+ *
+ * Name, brand and size are weighted 0.6 / 0.3 / 0.1; fields missing from the
+ * metadata are left out and the remaining weights rescaled.
+ */
+export function scoreMatch(metadata: ProductMetadata, product: Product): number {
+  let score = 0;
+  let weight = 0;
+
+  if (metadata.productName) {
+    score += overlap(tokenize(metadata.productName), tokenize(product.name)) * NAME_WEIGHT;
+    weight += NAME_WEIGHT;
+  }
+  if (metadata.brandName) {
+    score += overlap(tokenize(metadata.brandName), tokenize(product.brand)) * BRAND_WEIGHT;
+    weight += BRAND_WEIGHT;
+  }
+  if (metadata.size && product.size) {
+    score += (normalizeSize(metadata.size) === normalizeSize(product.size) ? 1 : 0) * SIZE_WEIGHT;
+    weight += SIZE_WEIGHT;
+  }
+
+  return weight === 0 ? 0 : score / weight;
+}
+
+/**
+ * Printed barcode and its format, as the Discovery Service validates them
+ */
+function describeBarcode(barcode: string): { barcode: string; format: string } {
+  if (!/^\d{14}$/.test(barcode)) {
+    return { barcode, format: 'Code-128' };
+  }
+
+  const printed = compactGtin(barcode);
+  switch (printed.length) {
+    case 8:
+      return { barcode: printed, format: 'EAN-8' };
+    case 12:
+      return { barcode: printed, format: 'UPC-A' };
+    case 13:
+      return { barcode: printed, format: 'EAN-13' };
+    default:
+      return { barcode: printed, format: 'ITF' }; // GTIN-14 is printed as ITF-14
+  }
+}
+
+function toCandidate(product: Product, confidence: number): DiscoveryCandidate {
+  return {
+    ...describeBarcode(product.barcode!),
+    product_name: product.name,
+    brand: product.brand,
+    category: product.category || undefined,
+    confidence,
+    product,
+  };
+}
+
+/**
+ * Discovery provider backed by the local products table
+ */
+export class LocalDiscoveryProvider implements DiscoveryProvider {
+  readonly name = 'open-food-facts' as const;
+
+  constructor(private readonly repository: ProductRepositoryMultiTier = productRepositoryMultiTier) {}
+
+  /**
+   * Find stored products matching the metadata, best match first
+   */
+  async searchProducts(metadata: ProductMetadata): Promise<DiscoveryCandidate[]> {
+    const terms = [...new Set([...tokenize(metadata.productName), ...tokenize(metadata.brandName)])].slice(0, MAX_TERMS);
+    if (terms.length === 0) {
+      console.log('[Local Discovery] No search terms available in metadata');
+      return [];
+    }
+
+    console.log(`[Local Discovery] Searching for: ${terms.join(', ')}`);
+    const products = await this.repository.searchByTerms(terms);
+
+    const candidates = products
+      .filter(product => product.barcode)
+      .map(product => toCandidate(product, scoreMatch(metadata, product)))
+      .filter(candidate => candidate.confidence >= MIN_MATCH_SCORE)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    console.log(`[Local Discovery] Found ${candidates.length} candidates`);
+    return candidates;
+  }
+
+  /**
+   * Resolve a barcode to a stored product
+   */
+  async lookupBarcode(barcode: string): Promise<DiscoveryCandidate | null> {
+    const product = await this.repository.findByBarcode(barcode);
+    return product?.barcode ? toCandidate(product, 1.0) : null;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * NovaClassifier Service
+ *
+ * Classifies a product into a NOVA group (1-4) from its parsed ingredient
+ * list, without an LLM call:
+ * - Group 4 (ultra-processed): cosmetic additives (colors, flavor enhancers,
+ *   sweeteners, emulsifiers, thickeners, ...) or industrial ingredients
+ *   (glucose syrup, maltodextrin, hydrogenated oils, protein isolates, flavorings)
+ * - Group 3 (processed): foods with added salt, sugar, oil or vinegar, or
+ *   other additives (preservatives, acidity regulators, ...)
+ * - Group 2 (processed culinary ingredient): only culinary ingredients
+ *   (oils, butter, sugar, salt, vinegar, starch)
+ * - Group 1 (unprocessed or minimally processed): none of the above
+ *
+ * Additives are taken from the additive database resolution done by the
+ * ingredient parser. Every marker that drove the group is reported.
+ */
+
+import { ADDITIVE_CLASS_LABELS, type AdditiveClass, type AdditiveMatch } from '@/lib/additives/additive-database';
+import { termPattern } from '@/lib/utils/term-patterns';
+import type { ParsedIngredient } from './ingredient-parser';
+
+export type NovaGroup = 1 | 2 | 3 | 4;
+
+/**
+ * Ingredient that moved the product into a NOVA group
+ */
+export interface NovaMarker {
+  group: NovaGroup;
+  ingredient: string; // Ingredient as printed
+  marker: string; // What was recognised, e.g. "Lecithins (E322)", "glucose syrup"
+  reason: string; // e.g. "emulsifier", "industrial sugar"
+}
+
+/**
+ * NOVA classification of a product
+ */
+export interface NovaClassification {
+  group: NovaGroup;
+  label: string;
+  markers: NovaMarker[];
+  explanation: string;
+}
+
+/**
+ * Ingredient fields the classifier reads
+ */
+export type NovaIngredient = Pick<ParsedIngredient, 'name' | 'additive'> & {
+  children?: NovaIngredient[];
+};
+
+export const NOVA_GROUP_LABELS: Record<NovaGroup, string> = {
+  1: 'Unprocessed or minimally processed',
+  2: 'Processed culinary ingredient',
+  3: 'Processed food',
+  4: 'Ultra-processed food',
+};
+
+/**
+ * Additive classes with a cosmetic function, which mark ultra-processing;
+ * other additives mark processing
+ */
+const ULTRA_PROCESSED_ADDITIVE_CLASSES: AdditiveClass[] = [
+  'color', 'sweetener', 'emulsifier', 'thickener', 'stabilizer', 'gelling_agent',
+  'flavor_enhancer', 'flavoring', 'humectant', 'glazing_agent', 'flour_treatment',
+];
+
+/**
+ * Industrial ingredients rarely used in home cooking
+ */
+const ULTRA_PROCESSED_INGREDIENTS: Array<{ reason: string; terms: string[] }> = [
+  {
+    reason: 'industrial sugar',
+    terms: [
+      'high fructose corn syrup', 'glucose-fructose syrup', 'fructose-glucose syrup', 'glucose syrup',
+      'corn syrup', 'fructose syrup', 'invert sugar', 'invert syrup', 'maltodextrin', 'dextrose',
+    ],
+  },
+  {
+    reason: 'modified oil',
+    terms: ['hydrogenated', 'partially hydrogenated', 'interesterified'],
+  },
+  {
+    reason: 'protein isolate',
+    terms: [
+      'protein isolate', 'protein concentrate', 'hydrolyzed protein', 'hydrolysed protein',
+      'hydrolyzed vegetable protein', 'hydrolysed vegetable protein', 'caseinate', 'whey protein',
+      'textured vegetable protein', 'soy protein', 'pea protein', 'vital wheat gluten', 'mechanically separated',
+    ],
+  },
+  {
+    reason: 'modified starch',
+    terms: ['modified starch', 'modified food starch', 'modified corn starch'],
+  },
+  {
+    reason: 'flavoring',
+    terms: ['flavor', 'flavour', 'flavoring', 'flavouring', 'yeast extract'],
+  },
+];
+
+/**
+ * Culinary ingredients: a product of only these is group 2; added to other
+ * foods they make group 3
+ */
+const CULINARY_INGREDIENTS: Array<{ reason: string; terms: string[] }> = [
+  { reason: 'added salt', terms: ['salt', 'sea salt'] },
+  {
+    reason: 'added sugar',
+    terms: ['sugar', 'cane sugar', 'brown sugar', 'honey', 'maple syrup', 'molasses', 'syrup'],
+  },
+  { reason: 'added fat', terms: ['oil', 'butter', 'lard', 'ghee', 'shortening', 'margarine'] },
+  { reason: 'added vinegar', terms: ['vinegar'] },
+  { reason: 'added starch', terms: ['starch', 'cornstarch', 'corn starch'] },
+];
+
+function compile(groups: Array<{ reason: string; terms: string[] }>): Array<{ reason: string; pattern: RegExp }> {
+  return groups.map(({ reason, terms }) => ({
+    reason,
+    pattern: new RegExp(`\\b(?:${terms.map(termPattern).join('|')})\\b`, 'i'),
+  }));
+}
+
+const ULTRA_PROCESSED_PATTERNS = compile(ULTRA_PROCESSED_INGREDIENTS);
+const CULINARY_PATTERNS = compile(CULINARY_INGREDIENTS);
+
+function additiveLabel(additive: AdditiveMatch): string {
+  return additive.eNumber ? `${additive.name} (${additive.eNumber})` : additive.name;
+}
+
+function flatten(ingredients: NovaIngredient[]): NovaIngredient[] {
+  return ingredients.flatMap(ingredient => [ingredient, ...flatten(ingredient.children || [])]);
+}
+
+function matchPatterns(
+  name: string,
+  patterns: Array<{ reason: string; pattern: RegExp }>
+): { reason: string; evidence: string } | undefined {
+  for (const { reason, pattern } of patterns) {
+    const match = name.match(pattern);
+    if (match) {
+      return { reason, evidence: match[0].toLowerCase() };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * NovaClassifier class
+ *
+ * Assigns the NOVA group from the ingredient list and explains which
+ * ingredients drove it.
+ */
+export class NovaClassifier {
+  /**
+   * Classify a product from its ingredients
+   *
+   * @param ingredients - Parsed ingredients (sub-ingredients are included)
+   * @returns NOVA classification, or null when there are no ingredients
+   */
+  classify(ingredients: NovaIngredient[]): NovaClassification | null {
+    const all = flatten(ingredients);
+    if (all.length === 0) {
+      return null;
+    }
+
+    const ultraProcessed: NovaMarker[] = [];
+    const processed: NovaMarker[] = [];
+    const culinary: NovaMarker[] = [];
+    let wholeFoods = 0;
+
+    for (const ingredient of all) {
+      const additive = ingredient.additive;
+      const primaryClass = additive?.classes[0];
+
+      if (additive && primaryClass && ULTRA_PROCESSED_ADDITIVE_CLASSES.includes(primaryClass)) {
+        ultraProcessed.push(this.additiveMarker(4, ingredient.name, additive));
+        continue;
+      }
+
+      const industrial = matchPatterns(ingredient.name, ULTRA_PROCESSED_PATTERNS);
+      if (industrial) {
+        ultraProcessed.push({ group: 4, ingredient: ingredient.name, marker: industrial.evidence, reason: industrial.reason });
+        continue;
+      }
+
+      if (additive) {
+        processed.push(this.additiveMarker(3, ingredient.name, additive));
+        continue;
+      }
+
+      const culinaryMatch = matchPatterns(ingredient.name, CULINARY_PATTERNS);
+      if (culinaryMatch) {
+        culinary.push({ group: 2, ingredient: ingredient.name, marker: culinaryMatch.evidence, reason: culinaryMatch.reason });
+      } else if (!ingredient.children?.length) {
+        wholeFoods++;
+      }
+    }
+
+    if (ultraProcessed.length > 0) {
+      return this.result(4, ultraProcessed);
+    }
+    if (culinary.length > 0 && (wholeFoods > 0 || processed.length > 0)) {
+      // Culinary ingredients added to foods are processing markers
+      return this.result(3, [...culinary.map(marker => ({ ...marker, group: 3 as const })), ...processed]);
+    }
+    if (culinary.length > 0) {
+      return this.result(2, culinary);
+    }
+    if (processed.length > 0) {
+      return this.result(3, processed);
+    }
+    return this.result(1, []);
+  }
+
+  private additiveMarker(group: NovaGroup, ingredient: string, additive: AdditiveMatch): NovaMarker {
+    return {
+      group,
+      ingredient,
+      marker: additiveLabel(additive),
+      reason: ADDITIVE_CLASS_LABELS[additive.classes[0]].toLowerCase(),
+    };
+  }
+
+  /**
+   * Build the classification, one marker per recognised term
+   */
+  private result(group: NovaGroup, markers: NovaMarker[]): NovaClassification {
+    const unique = markers.filter((marker, index) =>
+      markers.findIndex(other => other.marker === marker.marker) === index
+    );
+    const label = NOVA_GROUP_LABELS[group];
+
+    const explanation = unique.length > 0
+      ? `NOVA ${group} (${label.toLowerCase()}): ${unique.map(marker => `${marker.reason} (${marker.marker})`).join(', ')}`
+      : `NOVA ${group} (${label.toLowerCase()}): no processing markers in the ingredients`;
+
+    return { group, label, markers: unique, explanation };
+  }
+}
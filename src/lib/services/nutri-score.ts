@@ -0,0 +1,342 @@
+/**
+ * NutriScore Service
+ *
+ * Calculates the Nutri-Score (2023 algorithm) from extracted nutrition facts
+ * normalized per 100g / 100ml, so products with different serving sizes are
+ * comparable.
+ *
+ * - Negative points: energy, sugars, saturated fat, salt (and non-nutritive
+ *   sweeteners for beverages)
+ * - Positive points: protein, fiber, fruit/vegetable/legume share
+ * - Separate tables and grade thresholds for general foods, cheese,
+ *   fats/oils/nuts/seeds, and beverages (plain water is always A)
+ *
+ * The fruit/vegetable/legume share is taken from declared percentages in
+ * the ingredient tree and estimated from label order where none is given.
+ */
+
+import { toMetricServing } from '@/lib/nutrition/nutrition-units';
+import { termPattern } from '@/lib/utils/term-patterns';
+import type { NutritionalFacts } from './nutrition-parser';
+import type { IngredientList, ParsedIngredient } from './ingredient-parser';
+
+export type NutriScoreGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export type NutriScoreCategory = 'general' | 'cheese' | 'fats' | 'beverage' | 'water';
+
+/**
+ * Points awarded for one nutrient
+ */
+export interface NutriScoreComponent {
+  nutrient: string;
+  value: number; // Per 100g / 100ml
+  unit: string;
+  points: number;
+  maxPoints: number;
+}
+
+/**
+ * Nutri-Score result
+ */
+export interface NutriScore {
+  grade: NutriScoreGrade;
+  score: number; // Negative minus counted positive points
+  category: NutriScoreCategory;
+  basis: '100g' | '100ml';
+  negativePoints: number;
+  positivePoints: number; // Counted positive points
+  negative: NutriScoreComponent[];
+  positive: NutriScoreComponent[];
+  proteinCounted: boolean;
+  fruitVegLegumePercent: number;
+  fruitVegLegumeEstimated: boolean; // true when not every share was declared
+}
+
+/**
+ * Options for the calculation
+ */
+export interface NutriScoreOptions {
+  category?: NutriScoreCategory; // Inferred from the serving unit and ingredients when absent
+  productName?: string;
+}
+
+const KJ_PER_KCAL = 4.184;
+const SALT_PER_SODIUM = 2.5;
+const KJ_PER_G_SATURATED_FAT = 37;
+
+/**
+ * Point thresholds: one point for each threshold the value exceeds
+ */
+const GENERAL = {
+  energy: [335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350],
+  sugars: [3.4, 6.8, 10, 14, 17, 20, 24, 27, 31, 34, 37, 41, 44, 48, 51],
+  saturatedFat: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  salt: [0.2, 0.4, 0.6, 0.8, 1, 1.2, 1.4, 1.6, 1.8, 2, 2.2, 2.4, 2.6, 2.8, 3, 3.2, 3.4, 3.6, 3.8, 4],
+  protein: [2.4, 4.8, 7.2, 9.6, 12, 14, 17],
+  fiber: [3.0, 4.1, 5.2, 6.3, 7.4],
+};
+
+const FATS = {
+  energyFromSaturates: [120, 240, 360, 480, 600, 720, 840, 960, 1080, 1200],
+  saturatedFatRatio: [10, 16, 22, 28, 34, 40, 46, 52, 58, 64],
+};
+
+const BEVERAGES = {
+  energy: [30, 90, 150, 210, 240, 270, 300, 330, 360, 390],
+  sugars: [0.5, 2, 3.5, 5, 6, 7, 8, 9, 10, 11],
+  protein: [1.2, 1.5, 1.8, 2.1, 2.4, 2.7, 3.0],
+};
+
+const SWEETENER_POINTS = 4;
+
+/**
+ * Negative points above which protein is not counted (cheese excepted)
+ */
+const PROTEIN_CAP = { general: 11, fats: 7 };
+
+/**
+ * Upper score bound of grades A-D (anything above is E)
+ */
+const GRADE_THRESHOLDS: Record<'general' | 'fats' | 'beverage', number[]> = {
+  general: [0, 2, 10, 18],
+  fats: [-6, 2, 10, 18],
+  beverage: [-Infinity, 2, 6, 9], // A is reserved for water
+};
+
+const FRUIT_VEG_LEGUME_TERMS = [
+  // Fruits
+  'fruit', 'apple', 'apricot', 'banana', 'berry', 'berries', 'blackberry', 'blackberries', 'blueberry',
+  'blueberries', 'cherry', 'cherries', 'cranberry', 'cranberries', 'date', 'fig', 'grape', 'grapefruit',
+  'kiwi', 'lemon', 'lime', 'mango', 'melon', 'orange', 'peach', 'pear', 'pineapple', 'plum', 'prune',
+  'raisin', 'raspberry', 'raspberries', 'strawberry', 'strawberries',
+  // Vegetables
+  'vegetable', 'artichoke', 'asparagus', 'aubergine', 'eggplant', 'beetroot', 'beet', 'broccoli', 'cabbage',
+  'carrot', 'cauliflower', 'celery', 'courgette', 'zucchini', 'cucumber', 'garlic', 'kale', 'leek', 'lettuce',
+  'mushroom', 'onion', 'bell pepper', 'sweet pepper', 'red pepper', 'green pepper', 'pumpkin', 'spinach',
+  'squash', 'sweet corn', 'tomato',
+  // Legumes
+  'legume', 'bean', 'chickpea', 'lentil', 'pea', 'soybean',
+];
+
+/**
+ * Fractions of fruit, vegetables or legumes that do not count
+ */
+const FRUIT_VEG_LEGUME_EXCLUSIONS = [
+  'flour', 'starch', 'protein', 'oil', 'fiber', 'fibre', 'extract', 'flavor', 'flavour', 'flavoring',
+  'flavouring', 'powder', 'pectin',
+];
+
+const FRUIT_VEG_LEGUME_PATTERN = new RegExp(`\\b(?:${FRUIT_VEG_LEGUME_TERMS.map(termPattern).join('|')})\\b`, 'i');
+const FRUIT_VEG_LEGUME_EXCLUSION_PATTERN = new RegExp(`\\b(?:${FRUIT_VEG_LEGUME_EXCLUSIONS.map(termPattern).join('|')})\\b`, 'i');
+
+const FAT_PATTERN = /\b(?:oils?|butter|margarine|lard|ghee|shortening|almonds?|cashews?|hazelnuts?|walnuts?|pecans?|pistachios?|peanuts?|seeds?)\b/i;
+const CHEESE_PATTERN = /\b(?:cheese|cheddar|mozzarella|parmesan|parmigiano|gouda|brie|camembert|feta|emmental)\b/i;
+const DRINK_PATTERN = /\b(?:milk|drink|beverage|juice)\b/i;
+const WATER_PATTERN = /^(?:(?:natural |still |sparkling |carbonated |spring |mineral |filtered )*water)$/i;
+
+function points(value: number, thresholds: number[]): number {
+  return thresholds.filter(threshold => value > threshold).length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function component(nutrient: string, value: number, unit: string, thresholds: number[]): NutriScoreComponent {
+  return { nutrient, value: round(value), unit, points: points(value, thresholds), maxPoints: thresholds.length };
+}
+
+/**
+ * Shares (% of the parent) of each ingredient: declared where given,
+ * otherwise the undeclared remainder split evenly, never more than the
+ * ingredient listed before (labels list ingredients by decreasing weight)
+ */
+function ingredientShares(ingredients: ParsedIngredient[]): number[] {
+  const declared = ingredients.reduce((total, ingredient) => total + (ingredient.percentage ?? 0), 0);
+  const undeclaredCount = ingredients.filter(ingredient => ingredient.percentage === undefined).length;
+  const evenShare = undeclaredCount > 0 ? Math.max(0, 100 - declared) / undeclaredCount : 0;
+
+  let previous = 100;
+  return ingredients.map(ingredient => {
+    const share = ingredient.percentage ?? Math.min(evenShare, previous);
+    previous = share;
+    return share;
+  });
+}
+
+function isFruitVegLegume(name: string): boolean {
+  return FRUIT_VEG_LEGUME_PATTERN.test(name) && !FRUIT_VEG_LEGUME_EXCLUSION_PATTERN.test(name);
+}
+
+/**
+ * Fruit, vegetable and legume share of an ingredient tree
+ *
+ * @param ingredients - Ingredients at one level of the tree
+ * @param parentShare - Share of the product the list makes up (100 at the top level)
+ * @returns Percentage of the product, and whether any share was estimated
+ */
+export function estimateFruitVegLegumePercent(
+  ingredients: ParsedIngredient[],
+  parentShare: number = 100
+): { percent: number; estimated: boolean } {
+  const shares = ingredientShares(ingredients);
+  let percent = 0;
+  let estimated = false;
+
+  ingredients.forEach((ingredient, index) => {
+    const share = (parentShare * shares[index]) / 100;
+    if (isFruitVegLegume(ingredient.name)) {
+      percent += share;
+      estimated = estimated || ingredient.percentage === undefined;
+    } else if (ingredient.children?.length) {
+      const nested = estimateFruitVegLegumePercent(ingredient.children, share);
+      percent += nested.percent;
+      estimated = estimated || nested.estimated || (nested.percent > 0 && ingredient.percentage === undefined);
+    }
+  });
+
+  return { percent: Math.min(100, round(percent)), estimated };
+}
+
+/**
+ * Infer the Nutri-Score category from the serving unit and ingredients
+ */
+export function inferNutriScoreCategory(
+  facts: NutritionalFacts,
+  ingredients?: IngredientList,
+  productName?: string
+): NutriScoreCategory {
+  const names = ingredients?.ingredients.map(ingredient => ingredient.name.trim()) || [];
+
+  // Oils are often labelled by volume, so fats are recognised before beverages
+  if (names[0] && FAT_PATTERN.test(names[0]) && !DRINK_PATTERN.test(names[0])) {
+    return 'fats';
+  }
+  if (toMetricServing(facts.servingSize, productName)?.unit === 'ml') {
+    return names.length > 0 && names.every(name => WATER_PATTERN.test(name)) ? 'water' : 'beverage';
+  }
+  if ((productName && CHEESE_PATTERN.test(productName)) || (names[0] && CHEESE_PATTERN.test(names[0]))) {
+    return 'cheese';
+  }
+  return 'general';
+}
+
+function fruitVegLegumePoints(percent: number, beverage: boolean): number {
+  if (percent > 80) return beverage ? 6 : 5;
+  if (percent > 60) return beverage ? 4 : 2;
+  if (percent > 40) return beverage ? 2 : 1;
+  return 0;
+}
+
+function gradeFor(score: number, thresholds: number[]): NutriScoreGrade {
+  const grades: NutriScoreGrade[] = ['A', 'B', 'C', 'D'];
+  const index = thresholds.findIndex(threshold => score <= threshold);
+  return index === -1 ? 'E' : grades[index];
+}
+
+/**
+ * NutriScoreCalculator class
+ */
+export class NutriScoreCalculator {
+  /**
+   * Calculate the Nutri-Score of a product
+   *
+   * @param facts - Extracted nutrition facts (per serving)
+   * @param ingredients - Parsed ingredient list, for the fruit/vegetable/legume share and sweeteners
+   * @param options - Category override and product name
+   * @returns Nutri-Score, or null when the serving size cannot be converted to grams or milliliters
+   */
+  calculate(facts: NutritionalFacts, ingredients?: IngredientList, options: NutriScoreOptions = {}): NutriScore | null {
+    const serving = toMetricServing(facts.servingSize, options.productName);
+    if (!serving) {
+      return null;
+    }
+
+    const per100 = (value: number | undefined) => ((value ?? 0) * 100) / serving.amount;
+    const energyKj = per100(facts.calories.value) * KJ_PER_KCAL;
+    const sugars = per100(facts.totalSugars.value);
+    const saturatedFat = per100(facts.saturatedFat.value);
+    const totalFat = per100(facts.totalFat.value);
+    const salt = (per100(facts.sodium.value) * SALT_PER_SODIUM) / 1000;
+    const protein = per100(facts.protein.value);
+    const fiber = per100(facts.dietaryFiber.value);
+
+    const category = options.category || inferNutriScoreCategory(facts, ingredients, options.productName);
+    const beverage = category === 'beverage' || category === 'water';
+    const fvl = estimateFruitVegLegumePercent(ingredients?.ingredients || []);
+
+    // Negative points
+    const negative: NutriScoreComponent[] = [];
+    if (category === 'fats') {
+      negative.push(component('Energy from saturates', saturatedFat * KJ_PER_G_SATURATED_FAT, 'kJ', FATS.energyFromSaturates));
+    } else {
+      negative.push(component('Energy', energyKj, 'kJ', beverage ? BEVERAGES.energy : GENERAL.energy));
+    }
+    negative.push(component('Sugars', sugars, 'g', beverage ? BEVERAGES.sugars : GENERAL.sugars));
+    if (category === 'fats') {
+      const ratio = totalFat > 0 ? (saturatedFat / totalFat) * 100 : 0;
+      negative.push(component('Saturated fat / total fat', ratio, '%', FATS.saturatedFatRatio));
+    } else {
+      negative.push(component('Saturated fat', saturatedFat, 'g', GENERAL.saturatedFat));
+    }
+    negative.push(component('Salt', salt, 'g', GENERAL.salt));
+    if (beverage) {
+      const sweetened = (ingredients?.sweeteners.length ?? 0) > 0 ||
+        (ingredients?.additives || []).some(ingredient => ingredient.additive?.classes.includes('sweetener'));
+      negative.push({
+        nutrient: 'Non-nutritive sweeteners',
+        value: sweetened ? 1 : 0,
+        unit: '',
+        points: sweetened ? SWEETENER_POINTS : 0,
+        maxPoints: SWEETENER_POINTS,
+      });
+    }
+
+    // Positive points
+    const proteinComponent = component('Protein', protein, 'g', beverage ? BEVERAGES.protein : GENERAL.protein);
+    const positive: NutriScoreComponent[] = [
+      proteinComponent,
+      component('Fiber', fiber, 'g', GENERAL.fiber),
+      {
+        nutrient: 'Fruit, vegetables and legumes',
+        value: fvl.percent,
+        unit: '%',
+        points: fruitVegLegumePoints(fvl.percent, beverage),
+        maxPoints: beverage ? 6 : 5,
+      },
+    ];
+
+    const negativePoints = negative.reduce((total, item) => total + item.points, 0);
+    const proteinCounted =
+      beverage ||
+      category === 'cheese' ||
+      negativePoints < (category === 'fats' ? PROTEIN_CAP.fats : PROTEIN_CAP.general);
+    const positivePoints = positive
+      .filter(item => proteinCounted || item !== proteinComponent)
+      .reduce((total, item) => total + item.points, 0);
+    const score = negativePoints - positivePoints;
+
+    let grade: NutriScoreGrade;
+    if (category === 'water') {
+      grade = 'A';
+    } else if (beverage) {
+      grade = gradeFor(score, GRADE_THRESHOLDS.beverage);
+    } else {
+      grade = gradeFor(score, category === 'fats' ? GRADE_THRESHOLDS.fats : GRADE_THRESHOLDS.general);
+    }
+
+    return {
+      grade,
+      score,
+      category,
+      basis: serving.unit === 'ml' ? '100ml' : '100g',
+      negativePoints,
+      positivePoints,
+      negative,
+      positive,
+      proteinCounted,
+      fruitVegLegumePercent: fvl.percent,
+      fruitVegLegumeEstimated: fvl.estimated,
+    };
+  }
+}
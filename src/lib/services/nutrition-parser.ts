@@ -7,8 +7,20 @@
  * Requirements: 2.1-2.10, 10.1-10.4
  */
 
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import type { z } from 'zod';
+import { getLLMProvider } from '@/lib/llm/provider-factory';
+import { generateStructured, LLMResponseValidationError } from '@/lib/llm/structured-output';
+import type { LLMProvider } from '@/lib/llm/types';
+import {
+  NutritionLabelResponseSchema,
+  NutritionReextractionResponseSchema,
+} from '@/lib/prompts/response-schemas';
+import {
+  checkNutritionConsistency,
+  lowerSuspectConfidence,
+  suspectFields,
+  type SuspicionFlag,
+} from '@/lib/nutrition/nutrition-consistency';
 
 /**
  * Nutritional facts data structure
@@ -27,13 +39,19 @@ export interface NutritionalFacts {
     value: number;
     confidence: number;
   };
+  containerCalories?: {
+    value: number; // calories per container, on dual-column labels
+    confidence: number;
+  };
   totalFat: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   saturatedFat: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   transFat: {
     value: number; // grams
@@ -42,18 +60,22 @@ export interface NutritionalFacts {
   cholesterol: {
     value: number; // milligrams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   sodium: {
     value: number; // milligrams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   totalCarbohydrates: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   dietaryFiber: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   totalSugars: {
     value: number; // grams
@@ -62,10 +84,12 @@ export interface NutritionalFacts {
   addedSugars?: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   protein: {
     value: number; // grams
     confidence: number;
+    dailyValue?: number; // % daily value, when printed
   };
   vitamins?: Record<string, {
     value: number; // % daily value
@@ -77,6 +101,7 @@ export interface NutritionalFacts {
   }>;
   validationStatus: 'valid' | 'uncertain' | 'invalid';
   validationErrors?: string[];
+  suspicionFlags?: SuspicionFlag[]; // Failed consistency checks left after re-extraction
 }
 
 /**
@@ -94,20 +119,17 @@ export interface ValidationResult {
  * and validates the extracted data for consistency.
  */
 export class NutritionParser {
-  private apiKey: string;
   private model: string = 'gemini-2.0-flash'; // Same model as GeminiClient
+  private provider: LLMProvider;
   private readonly CONFIDENCE_THRESHOLD = 0.8; // Requirement 2.9
-  private readonly CALORIE_TOLERANCE = 0.2; // ±20% for calorie validation (Requirement 10.1)
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY || '';
-    
-    if (!this.apiKey) {
-      throw new Error('Gemini API key is required for NutritionParser');
-    }
-    
-    // Set API key for @ai-sdk/google
-    process.env.GOOGLE_GENERATIVE_AI_API_KEY = this.apiKey;
+  constructor(apiKey?: string, provider?: LLMProvider) {
+    // Google AI Studio by default; LLM_PROVIDER can swap in another backend
+    this.provider = provider || getLLMProvider('google-ai-studio', {
+      apiKey,
+      model: this.model,
+      consumer: 'NutritionParser',
+    });
   }
 
   /**
@@ -142,31 +164,19 @@ export class NutritionParser {
       // Construct OCR prompt
       const prompt = this.buildOCRPrompt();
 
-      // Call Gemini Vision API
-      const result = await generateText({
-        model: google(this.model),
-        temperature: 0.1, // Low temperature for consistent extraction
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image',
-                image: imageDataUrl,
-              },
-            ],
-          },
-        ],
-      });
-
-      const responseText = result.text;
-      
-      // Parse JSON response
-      const nutritionalFacts = this.parseOCRResponse(responseText);
+      // Call Gemini Vision API and validate the JSON response
+      let nutritionalFacts = await this.extractFacts(imageDataUrl, prompt);
+
+      // Cross-check the label arithmetic; re-read just the suspect fields once
+      let flags = checkNutritionConsistency(nutritionalFacts);
+      if (flags.length > 0) {
+        nutritionalFacts = await this.reextractSuspectFields(imageDataUrl, nutritionalFacts, flags);
+        flags = checkNutritionConsistency(nutritionalFacts);
+      }
+      if (flags.length > 0) {
+        nutritionalFacts = lowerSuspectConfidence(nutritionalFacts, flags);
+        nutritionalFacts.suspicionFlags = flags;
+      }
 
       // Validate extracted data
       const validationResult = this.validate(nutritionalFacts);
@@ -203,6 +213,11 @@ export class NutritionParser {
    * - 10.3: Validate percentage daily values are within 0-200% range
    * - 10.4: Validate serving size is positive with valid units
    * 
+   * Also fails when subtotals exceed their totals (saturated fat > total fat,
+   * sugars + fiber > carbohydrates, added > total sugars), when a printed %DV
+   * does not match the amount, or when per-container calories do not match
+   * servings per container.
+   * 
    * @param facts - Extracted nutritional facts
    * @returns Validation result with errors if any
    */
@@ -219,44 +234,98 @@ export class NutritionParser {
       errors.push(`Invalid serving size unit: ${facts.servingSize.unit}`);
     }
 
-    // Requirement 10.1 & 10.2: Validate calorie calculation
-    const calculatedCalories = 
-      (facts.totalCarbohydrates.value * 4) +
-      (facts.protein.value * 4) +
-      (facts.totalFat.value * 9);
+    // Requirements 10.1-10.3: Energy from macros, subtotals, %DV and
+    // per-container arithmetic (see nutrition-consistency.ts)
+    for (const flag of checkNutritionConsistency(facts)) {
+      errors.push(flag.message);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
 
-    const statedCalories = facts.calories.value;
-    const calorieDifference = Math.abs(calculatedCalories - statedCalories);
-    const caloriePercentDiff = statedCalories > 0 ? calorieDifference / statedCalories : 0;
+  /**
+   * Re-extracts fields flagged by the consistency checks
+   * 
+   * Asks the model to re-read only the suspect fields, with the reason each
+   * was flagged, and merges the values it returns. Failures keep the original
+   * values (the flags then lower their confidence).
+   * 
+   * @param imageDataUrl - Label image as a data URI
+   * @param facts - Facts from the first extraction
+   * @param flags - Failed consistency checks
+   * @returns Facts with the re-read fields replaced
+   */
+  async reextractSuspectFields(
+    imageDataUrl: string,
+    facts: NutritionalFacts,
+    flags: SuspicionFlag[]
+  ): Promise<NutritionalFacts> {
+    const fields = suspectFields(flags);
+    console.log(`[NutritionParser] 🔁 Re-extracting suspect fields: ${fields.join(', ')}`);
 
-    if (caloriePercentDiff > this.CALORIE_TOLERANCE) {
-      errors.push(
-        `Calorie calculation mismatch: calculated ${Math.round(calculatedCalories)} cal ` +
-        `vs stated ${statedCalories} cal (${Math.round(caloriePercentDiff * 100)}% difference)`
+    try {
+      const { data } = await this.generateJSON(
+        imageDataUrl,
+        this.buildReextractionPrompt(fields, flags),
+        NutritionReextractionResponseSchema,
+        'Nutrition re-extraction'
       );
-    }
-
-    // Requirement 10.3: Validate percentage daily values are within 0-200% range
-    if (facts.vitamins) {
-      for (const [vitamin, data] of Object.entries(facts.vitamins)) {
-        if (data.value < 0 || data.value > 200) {
-          errors.push(`${vitamin} percentage daily value out of range: ${data.value}%`);
+      const parsed = data as Record<string, unknown>;
+      const merged: NutritionalFacts = {
+        ...facts,
+        vitamins: facts.vitamins && { ...facts.vitamins },
+        minerals: facts.minerals && { ...facts.minerals },
+      };
+      const isReading = (value: unknown): value is { value: number; confidence: number } =>
+        !!value && typeof value === 'object' &&
+        typeof (value as { value?: unknown }).value === 'number' &&
+        typeof (value as { confidence?: unknown }).confidence === 'number';
+
+      for (const field of fields) {
+        const dot = field.indexOf('.');
+        if (dot > 0) {
+          const kind = field.slice(0, dot) as 'vitamins' | 'minerals';
+          const name = field.slice(dot + 1);
+          const reading = (parsed[kind] as Record<string, unknown> | undefined)?.[name];
+          if (isReading(reading)) {
+            merged[kind] = { ...merged[kind], [name]: reading };
+          }
+        } else if (field === 'servingsPerContainer') {
+          if (typeof parsed.servingsPerContainer === 'number') {
+            merged.servingsPerContainer = parsed.servingsPerContainer;
+          }
+        } else if (isReading(parsed[field])) {
+          (merged as unknown as Record<string, unknown>)[field] = parsed[field];
         }
       }
-    }
 
-    if (facts.minerals) {
-      for (const [mineral, data] of Object.entries(facts.minerals)) {
-        if (data.value < 0 || data.value > 200) {
-          errors.push(`${mineral} percentage daily value out of range: ${data.value}%`);
-        }
-      }
+      return merged;
+    } catch (error) {
+      console.error(
+        '[NutritionParser] ⚠️  Re-extraction failed (keeping original values):',
+        error instanceof Error ? error.message : String(error)
+      );
+      return facts;
     }
+  }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-    };
+  /**
+   * Builds the prompt for re-reading suspect fields
+   */
+  private buildReextractionPrompt(fields: string[], flags: SuspicionFlag[]): string {
+    return `Re-read these values from this nutrition label image. A previous reading was inconsistent:
+${flags.map(flag => `- ${flag.message}`).join('\n')}
+
+Read each value again carefully, checking decimal points and digits that are easy to confuse (1/7, 3/8, 5/6, 0/8).
+Fields to return: ${fields.join(', ')}
+Use { "value": number, "confidence": number } for each field (include "dailyValue" when a % Daily Value is printed),
+a plain number for servingsPerContainer, and nest vitamins and minerals by name (e.g. "vitamins.Vitamin D" →
+{ "vitamins": { "Vitamin D": { "value": 10, "confidence": 0.9 } } }).
+
+Return ONLY valid JSON with just these fields (no markdown, no explanations).`;
   }
 
   /**
@@ -286,6 +355,9 @@ REQUIRED FIELDS (always include these):
 
 OPTIONAL FIELDS (include only if visible):
 - addedSugars: { value: number (grams), confidence: number }
+- containerCalories: { value: number, confidence: number } (per-container column of dual-column labels)
+- dailyValue: number (% Daily Value printed next to totalFat, saturatedFat, cholesterol, sodium,
+  totalCarbohydrates, dietaryFiber, addedSugars or protein; add it inside that field's object)
 - vitamins: { [name]: { value: number (% daily value), confidence: number } }
 - minerals: { [name]: { value: number (% daily value), confidence: number } }
 
@@ -315,50 +387,41 @@ Return ONLY valid JSON in this exact format (no markdown, no explanations):
   }
 
   /**
-   * Parses and validates the OCR response from Gemini
+   * Sends a prompt with the label image and validates the JSON response
+   * (re-prompting once with the validation errors, see lib/llm/structured-output)
+   */
+  private generateJSON<S extends z.ZodType>(imageDataUrl: string, prompt: string, schema: S, label: string) {
+    return generateStructured(
+      async (text) => (await this.provider.generate({
+        prompt: text,
+        imageData: imageDataUrl,
+        temperature: 0.1,
+        model: this.model,
+      })).text,
+      prompt,
+      schema,
+      label
+    );
+  }
+
+  /**
+   * Extracts and validates the nutritional facts of a label
    * 
-   * @param responseText - Raw response from Gemini API
-   * @returns Validated NutritionalFacts object
-   * @throws Error if response is invalid
+   * @param imageDataUrl - Label image as a data URI
+   * @param prompt - OCR prompt
+   * @returns NutritionalFacts with a default validation status (set by validate())
+   * @throws Error if the response is still invalid after the repair re-prompt
    */
-  private parseOCRResponse(responseText: string): NutritionalFacts {
+  private async extractFacts(imageDataUrl: string, prompt: string): Promise<NutritionalFacts> {
     try {
-      // Strip markdown code blocks if present
-      let cleanedResponse = responseText.trim();
-      const codeBlockMatch = cleanedResponse.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch) {
-        cleanedResponse = codeBlockMatch[1].trim();
-      }
-
-      // Parse JSON
-      const parsed = JSON.parse(cleanedResponse);
-
-      // Validate required fields exist
-      const requiredFields = [
-        'servingSize', 'calories', 'totalFat', 'saturatedFat', 'transFat',
-        'cholesterol', 'sodium', 'totalCarbohydrates', 'dietaryFiber',
-        'totalSugars', 'protein'
-      ];
-
-      for (const field of requiredFields) {
-        if (!parsed[field]) {
-          throw new Error(`Missing required field: ${field}`);
-        }
-      }
-
-      // Validate serving size structure
-      if (!parsed.servingSize.amount || !parsed.servingSize.unit || parsed.servingSize.confidence === undefined) {
-        throw new Error('Invalid servingSize structure');
-      }
-
-      // Return with default validation status (will be updated by validate())
-      return {
-        ...parsed,
-        validationStatus: 'valid',
-      } as NutritionalFacts;
+      const { data } = await this.generateJSON(imageDataUrl, prompt, NutritionLabelResponseSchema, 'Nutrition label');
+      return { ...data, validationStatus: 'valid' };
     } catch (error) {
-      console.error('[NutritionParser] Failed to parse response:', responseText);
-      throw new Error(`Failed to parse OCR response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof LLMResponseValidationError) {
+        console.error('[NutritionParser] Failed to parse response:', error.responseText);
+        throw new Error(`Failed to parse OCR response: ${error.message}`);
+      }
+      throw error;
     }
   }
 
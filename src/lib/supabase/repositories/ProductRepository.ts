@@ -9,6 +9,7 @@
  */
 
 import { getSupabaseClient } from '../client';
+import { cleanBarcode, parseGtin } from '@/lib/barcode/gtin';
 import type { Product, ProductInsert } from '../types';
 
 /**
@@ -55,7 +56,7 @@ export class ProductRepository {
    * 
    * Requirements:
    * - 2.1: Query products table
-   * - 2.2: Use barcode as lookup key (unique index)
+   * - 2.2: Use barcode as lookup key (unique index), normalized to GTIN-14
    * 
    * @param barcode - Product barcode to search for
    * @returns Promise resolving to Product or null if not found
@@ -70,13 +71,15 @@ export class ProductRepository {
    * ```
    */
   async findByBarcode(barcode: string): Promise<Product | null> {
+    const key = this.toBarcodeKey(barcode);
+
     try {
       const supabase = getSupabaseClient();
       
       const { data, error } = await supabase
         .from('products')
         .select('*')
-        .eq('barcode', barcode)
+        .eq('barcode', key)
         .maybeSingle();
 
       if (error) {
@@ -114,7 +117,7 @@ export class ProductRepository {
    * 
    * Inserts a new product or updates an existing one based on barcode uniqueness.
    * On conflict (duplicate barcode), updates the existing product and refreshes
-   * the last_scanned_at timestamp.
+   * the last_scanned_at timestamp. The barcode is stored as its GTIN-14 key.
    * 
    * Requirements:
    * - 2.2: Enforce unique index on barcode column
@@ -139,9 +142,10 @@ export class ProductRepository {
     try {
       const supabase = getSupabaseClient();
       
-      // Prepare the data with current timestamp for last_scanned_at
+      // Prepare the data with the barcode key and current timestamp for last_scanned_at
       const insertData = {
         ...data,
+        barcode: data.barcode ? this.toBarcodeKey(data.barcode) : data.barcode,
         last_scanned_at: new Date().toISOString(),
       };
 
@@ -214,6 +218,8 @@ export class ProductRepository {
    * ```
    */
   async updateLastScanned(barcode: string): Promise<void> {
+    const key = this.toBarcodeKey(barcode);
+
     try {
       const supabase = getSupabaseClient();
       
@@ -222,7 +228,7 @@ export class ProductRepository {
         .update({
           last_scanned_at: new Date().toISOString(),
         })
-        .eq('barcode', barcode);
+        .eq('barcode', key);
 
       if (error) {
         console.error('Error updating last scanned timestamp:', {
@@ -315,9 +321,38 @@ export class ProductRepository {
     }
   }
 
+  /**
+   * Key a barcode is stored and looked up by
+   *
+   * Valid GTINs become GTIN-14; other barcodes (e.g. Code 128 text) are kept
+   * without separators. All-digit barcodes that are not valid GTINs (bad
+   * check digit or length, usually misreads) are rejected.
+   *
+   * @param barcode - Barcode as scanned, typed or extracted
+   * @returns Normalized barcode key
+   * @throws RepositoryError with code INVALID_BARCODE
+   */
+  private toBarcodeKey(barcode: string): string {
+    const gtin = parseGtin(barcode);
+    if (gtin.valid) {
+      return gtin.gtin!;
+    }
+
+    if (/^\d+$/.test(gtin.digits)) {
+      throw this.createError(
+        'INVALID_BARCODE',
+        `Invalid barcode: ${gtin.error}`,
+        false,
+        { barcode }
+      );
+    }
+
+    return cleanBarcode(barcode);
+  }
+
   /**
    * Create a consistent error object
-   * 
+   *
    * Helper method to create RepositoryError objects with consistent structure.
    * 
    * Requirement 7.5: Handle errors consistently across all repository methods
@@ -11,7 +11,10 @@
 import { getSupabaseServerClient } from '../server-client';
 import type { Product, ProductInsert, ProductUpdate } from '../types';
 import { ProductMetadata } from '@/lib/types/multi-tier';
-import { cacheService } from '@/lib/mongodb/cache-service';
+import { cacheLayer } from '@/lib/cache';
+import { toBarcodeKey } from '@/lib/barcode/gtin';
+import { mergeDuplicateProducts } from '@/lib/duplicates/product-merge';
+import { mergeFieldValues, type ObservationContext } from '@/lib/multi-image/FieldProvenance';
 
 /**
  * Product search result with similarity score
@@ -24,7 +27,7 @@ export interface ProductSearchResult extends Product {
  * Product Repository class for multi-tier system
  * 
  * Implements data access operations for products with support for:
- * - Barcode-based lookups
+ * - Barcode-based lookups (barcodes are stored and matched as GTIN-14)
  * - Metadata-based fuzzy searches
  * - Transaction support for consistency
  * - Barcode association updates
@@ -44,7 +47,7 @@ export class ProductRepositoryMultiTier {
       const { data, error } = await (supabase
         .from('products')
         .select('*')
-        .eq('barcode', barcode)
+        .eq('barcode', toBarcodeKey(barcode))
         .maybeSingle() as any);
 
       if (error) {
@@ -133,6 +136,46 @@ export class ProductRepositoryMultiTier {
     }
   }
 
+  /**
+   * Find products with a barcode whose name or brand contains any of the terms
+   *
+   * Looser than searchByMetadata: used for barcode discovery against
+   * imported catalog data. Uses the search_products_by_terms function
+   * (trigram index), which ranks products by the number of terms matched.
+   *
+   * @param terms - Words to match (lowercased, punctuation removed)
+   * @param limit - Maximum number of products
+   * @returns Promise resolving to matching products, most terms matched first
+   */
+  async searchByTerms(terms: string[], limit: number = 25): Promise<Product[]> {
+    const searchTerms = terms
+      .map(term => term.toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''))
+      .filter(term => term.length > 0);
+
+    if (searchTerms.length === 0) {
+      return [];
+    }
+
+    try {
+      const supabase = getSupabaseServerClient();
+
+      const { data, error } = await supabase.rpc('search_products_by_terms', {
+        p_terms: searchTerms,
+        p_limit: limit,
+      });
+
+      if (error) {
+        console.error('[Product Repository] Error searching by terms:', error);
+        throw new Error(`Failed to search products by terms: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('[Product Repository] Unexpected error in searchByTerms:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new product
    * Requirement 12.1: Save products to Supabase
@@ -148,7 +191,7 @@ export class ProductRepositoryMultiTier {
 
       const { data: product, error } = await (supabase
         .from('products')
-        .insert(data as any)
+        .insert(this.withBarcodeKey(data) as any)
         .select()
         .single() as any);
 
@@ -188,7 +231,7 @@ export class ProductRepositoryMultiTier {
 
       const { data: product, error } = await ((supabase
         .from('products') as any)
-        .update(data)
+        .update(this.withBarcodeKey(data))
         .eq('id', id)
         .select()
         .single());
@@ -232,7 +275,7 @@ export class ProductRepositoryMultiTier {
 
       // Use the upsert_product function for atomic upsert
       const { data: result, error } = await (supabase.rpc as any)('upsert_product', {
-        p_barcode: data.barcode || null,
+        p_barcode: data.barcode ? toBarcodeKey(data.barcode) : null,
         p_name: data.name,
         p_brand: data.brand,
         p_size: data.size || null,
@@ -260,6 +303,47 @@ export class ProductRepositoryMultiTier {
     }
   }
 
+  /**
+   * Save product data found by a scan tier
+   * Existing products (by ID, else by barcode) only take the values that win
+   * on field provenance, so a rescan cannot overwrite a reviewer's correction
+   * or a higher-priority source; new products are created with provenance.
+   * 
+   * @param data - Product data from the scan
+   * @param context - Source (tier_<n>), tier, confidence and timestamp of the data
+   * @param productId - Optional existing product ID
+   * @param invalidateCache - Whether to invalidate cache on update (default: true)
+   * @returns Promise resolving to the saved Product
+   */
+  async saveScannedProduct(
+    data: ProductInsert,
+    context: ObservationContext,
+    productId?: string,
+    invalidateCache: boolean = true
+  ): Promise<Product> {
+    const existing = productId
+      ? await this.findById(productId)
+      : data.barcode ? await this.findByBarcode(data.barcode) : null;
+
+    if (productId && !existing) {
+      throw new Error(`Product not found: ${productId}`);
+    }
+
+    if (!existing) {
+      return this.create({
+        ...data,
+        field_provenance: mergeFieldValues(null, data, context).field_provenance,
+      });
+    }
+
+    const update = mergeFieldValues(existing, data, context);
+    if (data.metadata) {
+      update.metadata = { ...(existing.metadata || {}), ...data.metadata };
+    }
+
+    return this.update(existing.id, update, invalidateCache);
+  }
+
   /**
    * Associate a barcode with an existing product
    * Used by Discovery Service (Tier 3) to save discovered barcodes
@@ -279,7 +363,7 @@ export class ProductRepositoryMultiTier {
 
       const { data: product, error } = await ((supabase
         .from('products') as any)
-        .update({ barcode })
+        .update({ barcode: toBarcodeKey(barcode) })
         .eq('id', productId)
         .select()
         .single());
@@ -367,14 +451,86 @@ export class ProductRepositoryMultiTier {
     }
   }
 
+  /**
+   * Merge a duplicate product into another
+   *
+   * Fields and field provenance are combined (see mergeDuplicateProducts);
+   * the merge_duplicate_product function then moves references to the
+   * survivor, deletes the duplicate and applies the combined fields in one
+   * transaction. The survivor takes the duplicate's barcode if it has none.
+   *
+   * @param survivorId - Product that is kept
+   * @param duplicateId - Product merged into it and deleted
+   * @param invalidateCache - Whether to invalidate cache (default: true)
+   * @returns Promise resolving to the updated survivor
+   */
+  async mergeDuplicate(survivorId: string, duplicateId: string, invalidateCache: boolean = true): Promise<Product> {
+    try {
+      if (survivorId === duplicateId) {
+        throw new Error('Cannot merge a product into itself');
+      }
+
+      const [survivor, duplicate] = await Promise.all([this.findById(survivorId), this.findById(duplicateId)]);
+      if (!survivor || !duplicate) {
+        throw new Error(`Product not found: ${!survivor ? survivorId : duplicateId}`);
+      }
+
+      console.log(`[Product Repository] 🔀 Merging product ${duplicateId} into ${survivorId}`);
+
+      const update = mergeDuplicateProducts(
+        survivor,
+        [duplicate],
+        survivor.barcode ? undefined : duplicate.barcode || undefined
+      );
+
+      const supabase = getSupabaseServerClient();
+      const { data, error } = await supabase.rpc('merge_duplicate_product', {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+        p_update: this.withBarcodeKey(update),
+      });
+
+      if (error) {
+        console.error('[Product Repository] Error merging products:', error);
+        throw new Error(`Failed to merge products: ${error.message}`);
+      }
+
+      const merged = data?.[0];
+      if (!merged) {
+        throw new Error('Products merged but no data returned');
+      }
+
+      console.log(`[Product Repository] ✅ Merged product ${duplicateId} into ${survivorId}`);
+
+      if (invalidateCache) {
+        await this.invalidateCacheForProduct(survivorId);
+        await this.invalidateCacheForProduct(duplicateId);
+      }
+
+      return merged;
+    } catch (error) {
+      console.error('[Product Repository] Unexpected error in mergeDuplicate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Normalize the barcode of product data for storage
+   * (GTIN-14 for valid GTINs, see lib/barcode/gtin)
+   */
+  private withBarcodeKey<T extends { barcode?: string | null }>(data: T): T {
+    return data.barcode ? { ...data, barcode: toBarcodeKey(data.barcode) } : data;
+  }
+
   /**
    * Invalidate cache entries for a product
    * Requirement 7.6: Invalidate cache on product updates
    * Requirement 12.3: Ensure consistency between Supabase and MongoDB
    * 
-   * This method invalidates all cache entries associated with a product,
+   * This method invalidates all cache entries tagged with the product
+   * (identifications by barcode and imageHash, dimension analyses),
    * ensuring consistency between the Product Repository (Supabase) and
-   * Cache Service (MongoDB).
+   * the cache layer (MongoDB).
    * 
    * @param productId - Product ID to invalidate cache for
    */
@@ -382,19 +538,9 @@ export class ProductRepositoryMultiTier {
     try {
       console.log(`[Product Repository] 🗑️  Invalidating cache for product: ${productId}`);
       
-      // Use the cache service's invalidateByProductId method
-      // This will remove all cache entries (by barcode and imageHash) for this product
-      await cacheService.invalidateByProductId(productId);
-      
-      // Requirement 13.1: Invalidate dimension cache on product updates
-      try {
-        const { dimensionCacheService } = await import('@/lib/cache/DimensionCacheService');
-        await dimensionCacheService.invalidate(productId);
-        console.log(`[Product Repository] ✅ Dimension cache invalidated for product: ${productId}`);
-      } catch (dimError) {
-        console.error('[Product Repository] ⚠️  Failed to invalidate dimension cache:', dimError);
-        // Best-effort invalidation - don't throw
-      }
+      // Remove every cache entry tagged with this product, in all namespaces
+      // Requirement 13.1: Includes the dimension cache
+      await cacheLayer.invalidateProduct(productId);
       
       console.log(`[Product Repository] ✅ Cache invalidated for product: ${productId}`);
     } catch (error) {
@@ -45,7 +45,7 @@ describe('ProductRepository', () => {
   describe('findByBarcode', () => {
     const mockProduct: Product = {
       id: 'product-123',
-      barcode: '012345678901',
+      barcode: '012345678905',
       name: 'Organic Milk',
       brand: 'Happy Farms',
       size: null,
@@ -67,12 +67,12 @@ describe('ProductRepository', () => {
         error: null,
       });
 
-      const result = await repository.findByBarcode('012345678901');
+      const result = await repository.findByBarcode('012345678905');
 
       expect(result).toEqual(mockProduct);
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('products');
       expect(mockSupabaseClient.select).toHaveBeenCalledWith('*');
-      expect(mockSupabaseClient.eq).toHaveBeenCalledWith('barcode', '012345678901');
+      expect(mockSupabaseClient.eq).toHaveBeenCalledWith('barcode', '00012345678905');
       expect(mockSupabaseClient.maybeSingle).toHaveBeenCalled();
     });
 
@@ -82,11 +82,20 @@ describe('ProductRepository', () => {
         error: null,
       });
 
-      const result = await repository.findByBarcode('999999999999');
+      const result = await repository.findByBarcode('999999999993');
 
       expect(result).toBeNull();
     });
 
+    it('should reject a barcode with an invalid check digit', async () => {
+      await expect(repository.findByBarcode('012345678901')).rejects.toMatchObject({
+        code: 'INVALID_BARCODE',
+        message: expect.stringContaining('Invalid check digit'),
+        recoverable: false,
+      });
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
     it('should throw RepositoryError on database error', async () => {
       const dbError = {
         message: 'Database connection failed',
@@ -98,13 +107,13 @@ describe('ProductRepository', () => {
         error: dbError,
       });
 
-      await expect(repository.findByBarcode('012345678901')).rejects.toMatchObject({
+      await expect(repository.findByBarcode('012345678905')).rejects.toMatchObject({
         code: 'FIND_BY_BARCODE_FAILED',
         message: expect.stringContaining('Database connection failed'),
         source: 'supabase',
         recoverable: true,
         context: {
-          barcode: '012345678901',
+          barcode: '012345678905',
           errorCode: 'PGRST301',
         },
       });
@@ -113,7 +122,7 @@ describe('ProductRepository', () => {
     it('should handle unexpected errors', async () => {
       mockSupabaseClient.maybeSingle.mockRejectedValue(new Error('Unexpected error'));
 
-      await expect(repository.findByBarcode('012345678901')).rejects.toMatchObject({
+      await expect(repository.findByBarcode('012345678905')).rejects.toMatchObject({
         code: 'FIND_BY_BARCODE_UNEXPECTED',
         message: expect.stringContaining('unexpected error'),
         source: 'supabase',
@@ -124,14 +133,14 @@ describe('ProductRepository', () => {
 
   describe('upsert', () => {
     const mockProductInsert: ProductInsert = {
-      barcode: '012345678901',
+      barcode: '012345678905',
       name: 'Organic Milk',
       brand: 'Happy Farms',
     };
 
     const mockProduct: Product = {
       id: 'product-123',
-      barcode: '012345678901',
+      barcode: '012345678905',
       name: 'Organic Milk',
       brand: 'Happy Farms',
       size: null,
@@ -169,6 +178,7 @@ describe('ProductRepository', () => {
       expect(mockSupabaseClient.upsert).toHaveBeenCalledWith(
         expect.objectContaining({
           ...mockProductInsert,
+          barcode: '00012345678905', // GTIN-14 key
           last_scanned_at: '2024-01-01T00:00:00Z',
         }),
         {
@@ -233,6 +243,13 @@ describe('ProductRepository', () => {
       expect(result.barcode).toBeNull();
     });
 
+    it('should not store a barcode with an invalid check digit', async () => {
+      await expect(
+        repository.upsert({ ...mockProductInsert, barcode: '012345678901' })
+      ).rejects.toMatchObject({ code: 'INVALID_BARCODE' });
+      expect(mockSupabaseClient.upsert).not.toHaveBeenCalled();
+    });
+
     it('should throw RepositoryError on database error', async () => {
       const dbError = {
         message: 'Unique constraint violation',
@@ -294,13 +311,13 @@ describe('ProductRepository', () => {
         error: null,
       });
 
-      await repository.updateLastScanned('012345678901');
+      await repository.updateLastScanned('012345678905');
 
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('products');
       expect(mockSupabaseClient.update).toHaveBeenCalledWith({
         last_scanned_at: '2024-01-01T12:00:00Z',
       });
-      expect(mockSupabaseClient.eq).toHaveBeenCalledWith('barcode', '012345678901');
+      expect(mockSupabaseClient.eq).toHaveBeenCalledWith('barcode', '00012345678905');
     });
 
     it('should throw RepositoryError on database error', async () => {
@@ -314,13 +331,13 @@ describe('ProductRepository', () => {
         error: dbError,
       });
 
-      await expect(repository.updateLastScanned('012345678901')).rejects.toMatchObject({
+      await expect(repository.updateLastScanned('012345678905')).rejects.toMatchObject({
         code: 'UPDATE_LAST_SCANNED_FAILED',
         message: expect.stringContaining('Update failed'),
         source: 'supabase',
         recoverable: true,
         context: {
-          barcode: '012345678901',
+          barcode: '012345678905',
           errorCode: 'PGRST301',
         },
       });
@@ -329,7 +346,7 @@ describe('ProductRepository', () => {
     it('should handle unexpected errors', async () => {
       mockSupabaseClient.eq.mockRejectedValue(new Error('Unexpected error'));
 
-      await expect(repository.updateLastScanned('012345678901')).rejects.toMatchObject({
+      await expect(repository.updateLastScanned('012345678905')).rejects.toMatchObject({
         code: 'UPDATE_LAST_SCANNED_UNEXPECTED',
         message: expect.stringContaining('unexpected error'),
         source: 'supabase',
@@ -8,6 +8,9 @@
  * Requirements: 1.5, 2.5, 5.2, 6.6, 14.1
  */
 
+import type { NovaMarker } from '@/lib/services/nova-classifier';
+import type { HealthProfileId } from '@/lib/services/health-profiles';
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -24,6 +27,29 @@ export interface Coordinates {
 // DATABASE SCHEMA TYPE
 // ============================================================================
 
+/**
+ * Table entry of the schema type
+ * Row types are interfaces; mapping them gives the index-signature-compatible
+ * object types supabase-js expects
+ */
+type TableDefinition<Row, Insert, Update, Relationships extends TableRelationship[] = []> = {
+  Row: { [K in keyof Row]: Row[K] };
+  Insert: { [K in keyof Insert]: Insert[K] };
+  Update: { [K in keyof Update]: Update[K] };
+  Relationships: Relationships;
+};
+
+/**
+ * Foreign key of a table, used to type embedded selects
+ */
+type TableRelationship = {
+  foreignKeyName: string;
+  columns: string[];
+  isOneToOne: boolean;
+  referencedRelation: string;
+  referencedColumns: string[];
+};
+
 /**
  * Main database schema type that maps to Supabase tables
  * This follows the Supabase convention for type-safe database access
@@ -31,20 +57,43 @@ export interface Coordinates {
 export interface Database {
   public: {
     Tables: {
-      products: {
-        Row: Product;
-        Insert: ProductInsert;
-        Update: ProductUpdate;
+      products: TableDefinition<Product, ProductInsert, ProductUpdate>;
+      error_reports: TableDefinition<ErrorReport, ErrorReportInsert, ErrorReportUpdate>;
+      scan_logs: TableDefinition<ScanLog, ScanLogInsert, ScanLogUpdate>;
+      stores: TableDefinition<Store, StoreInsert, Partial<StoreInsert>>;
+      store_inventory: TableDefinition<StoreInventory, StoreInventoryInsert, Partial<StoreInventoryInsert>, [
+        {
+          foreignKeyName: 'store_inventory_product_id_fkey';
+          columns: ['product_id'];
+          isOneToOne: false;
+          referencedRelation: 'products';
+          referencedColumns: ['id'];
+        },
+        {
+          foreignKeyName: 'store_inventory_store_id_fkey';
+          columns: ['store_id'];
+          isOneToOne: false;
+          referencedRelation: 'stores';
+          referencedColumns: ['id'];
+        },
+      ]>;
+      product_review_actions: TableDefinition<ProductReviewAction, ProductReviewActionInsert, Record<string, never>>;
+      product_merge_proposals: TableDefinition<ProductMergeProposal, ProductMergeProposalInsert, ProductMergeProposalUpdate>;
+      user_dietary_profiles: TableDefinition<UserDietaryProfile, UserDietaryProfileInsert, Partial<UserDietaryProfileInsert>>;
+    };
+    Views: { [_ in never]: never };
+    Functions: {
+      search_products_by_terms: {
+        Args: { p_terms: string[]; p_limit?: number };
+        Returns: Database['public']['Tables']['products']['Row'][];
       };
-      error_reports: {
-        Row: ErrorReport;
-        Insert: ErrorReportInsert;
-        Update: ErrorReportUpdate;
+      merge_duplicate_product: {
+        Args: { p_survivor_id: string; p_duplicate_id: string; p_update?: ProductUpdate };
+        Returns: Database['public']['Tables']['products']['Row'][];
       };
-      scan_logs: {
-        Row: ScanLog;
-        Insert: ScanLogInsert;
-        Update: ScanLogUpdate;
+      save_merge_proposals: {
+        Args: { p_proposals: ProductMergeProposalInsert[] };
+        Returns: number;
       };
     };
   };
@@ -76,6 +125,65 @@ export interface ProductNutritionData {
   lastUpdated: string; // ISO timestamp
 }
 
+/**
+ * Where a product field value came from: the multi-image capture type,
+ * a scan tier, a user correction, or "legacy" for values saved before
+ * provenance was tracked
+ */
+export type ProvenanceSource =
+  | 'barcode'
+  | 'packaging'
+  | 'nutrition_label'
+  | 'tier_1'
+  | 'tier_2'
+  | 'tier_3'
+  | 'tier_4'
+  | 'user_correction'
+  | 'legacy';
+
+/**
+ * Product fields with tracked provenance
+ */
+export type ProvenanceField =
+  | 'barcode'
+  | 'name'
+  | 'brand'
+  | 'size'
+  | 'category'
+  | 'image_url'
+  | 'nutrition_data'
+  | 'health_score'
+  | 'has_allergens'
+  | 'allergen_types'
+  | 'nova_group';
+
+/**
+ * One observed value of a field
+ */
+export interface FieldObservation {
+  value: unknown;
+  source: ProvenanceSource;
+  tier?: number; // Scan tier that produced the value, when known
+  imageHash?: string;
+  confidence: number; // Extraction confidence (0.0 to 1.0)
+  timestamp: string; // ISO timestamp
+  accepted: boolean; // Whether the value was applied to the product
+}
+
+/**
+ * Provenance of one field: the observation behind the current value and
+ * every observation in order (oldest first)
+ */
+export interface FieldProvenance {
+  current: FieldObservation;
+  history: FieldObservation[];
+}
+
+/**
+ * Provenance stored in products.field_provenance JSONB column
+ */
+export type ProductFieldProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
 /**
  * Product table row type
  * Represents a product in the canonical product registry
@@ -110,6 +218,12 @@ export interface Product {
   has_allergens: boolean;
   /** Array of allergen types present in product */
   allergen_types: string[];
+  /** NOVA processing group (1-4) computed from the ingredients (absent before classification) */
+  nova_group?: number | null;
+  /** Ingredients that drove the NOVA group */
+  nova_markers?: NovaMarker[] | null;
+  /** Source, confidence and history of each field (absent before tracking) */
+  field_provenance?: ProductFieldProvenance | null;
   /** Timestamp of last scan */
   last_scanned_at: string | null;
   /** Timestamp of creation */
@@ -147,6 +261,12 @@ export interface ProductInsert {
   has_allergens?: boolean;
   /** Allergen types array (optional, defaults to empty array) */
   allergen_types?: string[];
+  /** NOVA group (optional) */
+  nova_group?: number | null;
+  /** NOVA markers (optional) */
+  nova_markers?: NovaMarker[] | null;
+  /** Field provenance (optional) */
+  field_provenance?: ProductFieldProvenance | null;
 }
 
 /**
@@ -178,6 +298,14 @@ export interface ProductUpdate {
   has_allergens?: boolean;
   /** Allergen types array (optional) */
   allergen_types?: string[];
+  /** NOVA group (optional) */
+  nova_group?: number | null;
+  /** NOVA markers (optional) */
+  nova_markers?: NovaMarker[] | null;
+  /** Field provenance (optional) */
+  field_provenance?: ProductFieldProvenance | null;
+  /** Timestamp of last scan (optional) */
+  last_scanned_at?: string | null;
   /** Timestamp of last update (optional, auto-updated by trigger) */
   updated_at?: string;
 }
@@ -259,6 +387,8 @@ export interface ErrorReportUpdate {
   status?: string;
   /** Timestamp when resolved (optional) */
   resolved_at?: string | null;
+  /** Reported product (optional, re-pointed when products are merged) */
+  incorrect_product_id?: string | null;
 }
 
 // ============================================================================
@@ -409,6 +539,187 @@ export interface StoreInventoryInsert {
   last_seen_at?: string;
 }
 
+// ============================================================================
+// PRODUCT REVIEW TYPES
+// ============================================================================
+
+/**
+ * Action taken on a flagged product in the review queue
+ */
+export type ReviewActionType = 'edit' | 'merge' | 'approve' | 'reject' | 'note';
+
+/**
+ * Field change recorded in the review audit trail
+ */
+export interface ReviewFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Product review action table row type
+ * Audit trail entry for a review action (immutable)
+ */
+export interface ProductReviewAction {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Reviewed product (may since have been deleted) */
+  product_id: string;
+  /** User ID of the reviewer */
+  reviewer_id: string;
+  /** Email of the reviewer */
+  reviewer_email: string | null;
+  /** Action taken */
+  action: ReviewActionType;
+  /** Changed fields */
+  changes: Record<string, ReviewFieldChange>;
+  /** Duplicate merged into the product (merge actions) */
+  merged_product_id: string | null;
+  /** Reviewer note */
+  note: string | null;
+  /** Timestamp of creation */
+  created_at: string;
+}
+
+/**
+ * Product review action insert type
+ */
+export interface ProductReviewActionInsert {
+  /** Reviewed product (required) */
+  product_id: string;
+  /** Reviewer user ID (required) */
+  reviewer_id: string;
+  /** Reviewer email (optional) */
+  reviewer_email?: string | null;
+  /** Action (required) */
+  action: ReviewActionType;
+  /** Changed fields (optional) */
+  changes?: Record<string, ReviewFieldChange>;
+  /** Merged duplicate (optional) */
+  merged_product_id?: string | null;
+  /** Reviewer note (optional) */
+  note?: string | null;
+}
+
+/**
+ * Status of a duplicate merge proposal (accepted proposals are deleted with
+ * the merged duplicate)
+ */
+export type MergeProposalStatus = 'pending' | 'dismissed';
+
+/**
+ * Product merge proposal table row type
+ * Likely duplicate pair found by the duplicate detector
+ */
+export interface ProductMergeProposal {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** Product that would be kept */
+  product_id: string;
+  /** Product that would be merged into product_id */
+  duplicate_id: string;
+  /** Duplicate score (0.0 to 1.0) */
+  score: number;
+  /** Why the pair matched */
+  reasons: string[];
+  /** Proposal status */
+  status: MergeProposalStatus;
+  /** User ID of the reviewer who dismissed the proposal */
+  resolved_by: string | null;
+  /** Timestamp of dismissal */
+  resolved_at: string | null;
+  /** Timestamp of creation */
+  created_at: string;
+}
+
+/**
+ * Product merge proposal insert type
+ */
+export interface ProductMergeProposalInsert {
+  /** Product to keep (required) */
+  product_id: string;
+  /** Duplicate product (required) */
+  duplicate_id: string;
+  /** Duplicate score (required) */
+  score: number;
+  /** Match reasons (optional) */
+  reasons?: string[];
+}
+
+/**
+ * Product merge proposal update type
+ */
+export interface ProductMergeProposalUpdate {
+  status?: MergeProposalStatus;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+}
+
+// ============================================================================
+// DIETARY PROFILE TYPES
+// ============================================================================
+
+/**
+ * Animal product restriction of a dietary profile
+ */
+export type DietType = 'omnivore' | 'vegetarian' | 'vegan';
+
+/**
+ * Religious dietary law of a dietary profile
+ */
+export type ReligiousDiet = 'halal' | 'kosher';
+
+/**
+ * User dietary profile table row type
+ * Restrictions used to compute personalized scan alerts
+ */
+export interface UserDietaryProfile {
+  /** Supabase auth user ID */
+  user_id: string;
+  /** Allergen types to avoid (AllergenType values) */
+  allergens: string[];
+  /** Free-text ingredients to avoid */
+  avoided_ingredients: string[];
+  /** Vegetarian/vegan restriction */
+  diet: DietType;
+  /** Halal or kosher */
+  religious_diet: ReligiousDiet | null;
+  /** Alert on sodium above max_sodium_mg */
+  low_sodium: boolean;
+  /** Sodium limit per serving in mg (null = default) */
+  max_sodium_mg: number | null;
+  /** Alert on sugar above max_sugar_g and carbohydrates above max_carbs_g */
+  diabetic: boolean;
+  /** Sugar limit per serving in g (null = default) */
+  max_sugar_g: number | null;
+  /** Carbohydrate limit per serving in g (null = no limit) */
+  max_carbs_g: number | null;
+  /** Scoring profile used for health scores */
+  health_profile: HealthProfileId;
+  /** Timestamp of creation */
+  created_at: string;
+  /** Timestamp of last update */
+  updated_at: string;
+}
+
+/**
+ * User dietary profile insert type
+ */
+export interface UserDietaryProfileInsert {
+  /** Supabase auth user ID (required) */
+  user_id: string;
+  allergens?: string[];
+  avoided_ingredients?: string[];
+  diet?: DietType;
+  religious_diet?: ReligiousDiet | null;
+  low_sodium?: boolean;
+  max_sodium_mg?: number | null;
+  diabetic?: boolean;
+  max_sugar_g?: number | null;
+  max_carbs_g?: number | null;
+  health_profile?: HealthProfileId;
+}
+
 // ============================================================================
 // TYPE GUARDS
 // ============================================================================
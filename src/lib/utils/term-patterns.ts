@@ -0,0 +1,26 @@
+/**
+ * Term Patterns
+ *
+ * Regex source builders shared by the ingredient knowledge bases (allergens,
+ * additives) to match label terms whole-word and tolerant of spelling
+ * variants.
+ */
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word pattern for a term, allowing plurals and space/hyphen variants
+ */
+export function termPattern(term: string): string {
+  const words = term.toLowerCase().split(/[\s-]+/).map(escapeRegExp).join('[\\s-]+');
+  return `${words}(?:s|es)?`;
+}
+
+/**
+ * E-number pattern ("E220", "E 220", "E-220", "e220a")
+ */
+export function eNumberPattern(eNumber: string): string {
+  return `e[\\s-]?${escapeRegExp(eNumber.slice(1).toLowerCase())}[a-z]?`;
+}
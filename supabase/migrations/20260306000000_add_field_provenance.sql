@@ -0,0 +1,54 @@
+-- Add field_provenance column to products
+-- Records where each product field came from (capture type or scan tier,
+-- image hash, extraction confidence, timestamp) and the history of values
+-- observed for it. Written by DataMerger.
+-- Date: 2026-03-06
+
+-- ============================================================================
+-- ADD FIELD_PROVENANCE COLUMN TO PRODUCTS TABLE
+-- ============================================================================
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS field_provenance JSONB DEFAULT '{}'::jsonb;
+
+-- Add comment
+COMMENT ON COLUMN products.field_provenance IS 'Per-field provenance: {"<field>": {"current": observation, "history": [observation, ...]}}';
+
+-- ============================================================================
+-- EXAMPLE STRUCTURE
+-- ============================================================================
+
+-- {
+--   "brand": {
+--     "current": {
+--       "value": "Kellogg''s",
+--       "source": "barcode",
+--       "tier": 1,
+--       "imageHash": "3f9a...",
+--       "confidence": 0.95,
+--       "timestamp": "2026-03-06T10:15:00.000Z",
+--       "accepted": true
+--     },
+--     "history": [
+--       {"value": "Kelloggs", "source": "packaging", "confidence": 0.8, "timestamp": "2026-03-06T10:14:00.000Z", "accepted": true},
+--       {"value": "Kellogg''s", "source": "barcode", "tier": 1, "confidence": 0.95, "timestamp": "2026-03-06T10:15:00.000Z", "accepted": true}
+--     ]
+--   }
+-- }
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Products whose brand came from a user correction
+-- SELECT name, brand FROM products
+-- WHERE field_provenance->'brand'->'current'->>'source' = 'user_correction';
+
+-- Products with a low confidence name
+-- SELECT name, field_provenance->'name'->'current'->>'confidence' AS confidence
+-- FROM products
+-- WHERE (field_provenance->'name'->'current'->>'confidence')::NUMERIC < 0.7;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
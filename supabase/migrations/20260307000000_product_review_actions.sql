@@ -0,0 +1,59 @@
+-- Product Review Audit Trail
+-- Records every action taken in the /review queue on flagged products:
+-- field edits, duplicate merges, approvals, rejections and notes.
+-- Written by ReviewService with the service role key.
+-- Date: 2026-03-07
+
+-- ============================================================================
+-- PRODUCT REVIEW ACTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_review_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: entries must survive the deletion of merged duplicates
+  product_id UUID NOT NULL,
+  reviewer_id VARCHAR(100) NOT NULL,
+  reviewer_email VARCHAR(255),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('edit', 'merge', 'approve', 'reject', 'note')),
+  -- Changed fields as {"<field>": {"from": ..., "to": ...}}
+  changes JSONB DEFAULT '{}'::jsonb,
+  -- Product merged into product_id (merge actions)
+  merged_product_id UUID,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create indexes for efficient queries
+CREATE INDEX IF NOT EXISTS idx_product_review_actions_product_id ON product_review_actions(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_review_actions_reviewer_id ON product_review_actions(reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_product_review_actions_created_at ON product_review_actions(created_at);
+
+-- Add comment
+COMMENT ON TABLE product_review_actions IS 'Audit trail of manual review actions on flagged products';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Only the service role (review API) reads and writes the audit trail
+ALTER TABLE product_review_actions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Review history of a product
+-- SELECT action, reviewer_email, changes, note, created_at
+-- FROM product_review_actions
+-- WHERE product_id = '<product-id>'
+-- ORDER BY created_at;
+
+-- Actions per reviewer over the last week
+-- SELECT reviewer_email, action, COUNT(*)
+-- FROM product_review_actions
+-- WHERE created_at > NOW() - INTERVAL '7 days'
+-- GROUP BY reviewer_email, action;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,58 @@
+-- Product Merge Proposals
+-- Likely duplicate product pairs found by the duplicate detector
+-- (scripts/find-duplicate-products.ts), shown to reviewers at
+-- /review/duplicates. Accepting a proposal merges the duplicate into the
+-- surviving product; merging deletes the duplicate, which removes its
+-- proposals through the cascade.
+-- Date: 2026-03-08
+
+-- ============================================================================
+-- PRODUCT MERGE PROPOSALS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_merge_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Product that would be kept
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Product that would be merged into product_id and deleted
+  duplicate_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  score DECIMAL(4,3) NOT NULL CHECK (score >= 0 AND score <= 1),
+  -- Why the pair matched, e.g. ["name 94% similar", "same size"]
+  reasons JSONB DEFAULT '[]'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  resolved_by VARCHAR(100),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT product_merge_proposals_distinct CHECK (product_id <> duplicate_id),
+  CONSTRAINT product_merge_proposals_pair UNIQUE (product_id, duplicate_id)
+);
+
+-- Create indexes for efficient queries
+CREATE INDEX IF NOT EXISTS idx_product_merge_proposals_status ON product_merge_proposals(status);
+CREATE INDEX IF NOT EXISTS idx_product_merge_proposals_duplicate_id ON product_merge_proposals(duplicate_id);
+
+-- Add comment
+COMMENT ON TABLE product_merge_proposals IS 'Likely duplicate products awaiting a reviewer decision';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Only the service role (detector script and review API) reads and writes proposals
+ALTER TABLE product_merge_proposals ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Pending proposals, most likely first
+-- SELECT p.name, d.name, m.score, m.reasons
+-- FROM product_merge_proposals m
+-- JOIN products p ON p.id = m.product_id
+-- JOIN products d ON d.id = m.duplicate_id
+-- WHERE m.status = 'pending'
+-- ORDER BY m.score DESC;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,71 @@
+-- User Dietary Profiles
+-- Per-user dietary restrictions used to personalize scan results with
+-- "contains X you avoid" alerts: allergens, avoided ingredients,
+-- vegetarian/vegan, halal/kosher, sodium limits and diabetic targets.
+-- Edited on the /settings page through /api/dietary-profile.
+-- Date: 2026-03-09
+
+-- ============================================================================
+-- USER DIETARY PROFILES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_dietary_profiles (
+  user_id VARCHAR(100) PRIMARY KEY,
+  -- Allergen types to alert on (milk, eggs, fish, shellfish, tree_nuts, peanuts, wheat, soybeans)
+  allergens TEXT[] DEFAULT '{}',
+  -- Free-text ingredients to alert on (e.g. "palm oil", "msg")
+  avoided_ingredients TEXT[] DEFAULT '{}',
+  diet VARCHAR(20) NOT NULL DEFAULT 'omnivore' CHECK (diet IN ('omnivore', 'vegetarian', 'vegan')),
+  religious_diet VARCHAR(20) CHECK (religious_diet IN ('halal', 'kosher')),
+  low_sodium BOOLEAN DEFAULT FALSE,
+  -- Sodium limit per serving in mg (NULL = default)
+  max_sodium_mg INTEGER CHECK (max_sodium_mg > 0),
+  diabetic BOOLEAN DEFAULT FALSE,
+  -- Sugar and carbohydrate limits per serving in g (NULL = default / no carbohydrate limit)
+  max_sugar_g DECIMAL(6,1) CHECK (max_sugar_g >= 0),
+  max_carbs_g DECIMAL(6,1) CHECK (max_carbs_g >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_user_dietary_profiles_updated_at
+  BEFORE UPDATE ON user_dietary_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comment
+COMMENT ON TABLE user_dietary_profiles IS 'Dietary restrictions per user for personalized scan alerts';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE user_dietary_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can only access their own profile
+CREATE POLICY "Users can read their own dietary profile"
+  ON user_dietary_profiles FOR SELECT
+  USING (auth.uid()::TEXT = user_id);
+
+CREATE POLICY "Users can insert their own dietary profile"
+  ON user_dietary_profiles FOR INSERT
+  WITH CHECK (auth.uid()::TEXT = user_id);
+
+CREATE POLICY "Users can update their own dietary profile"
+  ON user_dietary_profiles FOR UPDATE
+  USING (auth.uid()::TEXT = user_id);
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Most common allergen restrictions
+-- SELECT allergen, COUNT(*)
+-- FROM user_dietary_profiles, UNNEST(allergens) AS allergen
+-- GROUP BY allergen
+-- ORDER BY COUNT(*) DESC;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,44 @@
+-- Add NOVA classification columns to products
+-- The NOVA group (1-4) is computed from the parsed ingredient list by
+-- NovaClassifier; nova_markers lists the ingredients that drove it.
+-- Date: 2026-03-10
+
+-- ============================================================================
+-- ADD NOVA COLUMNS TO PRODUCTS TABLE
+-- ============================================================================
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS nova_group SMALLINT CHECK (nova_group BETWEEN 1 AND 4),
+ADD COLUMN IF NOT EXISTS nova_markers JSONB;
+
+-- Index for filtering by processing level
+CREATE INDEX IF NOT EXISTS idx_products_nova_group
+ON products (nova_group);
+
+-- Add comments
+COMMENT ON COLUMN products.nova_group IS 'NOVA processing group: 1 unprocessed, 2 culinary ingredient, 3 processed, 4 ultra-processed';
+COMMENT ON COLUMN products.nova_markers IS 'Ingredients that drove the NOVA group: [{"group", "ingredient", "marker", "reason"}]';
+
+-- ============================================================================
+-- EXAMPLE STRUCTURE
+-- ============================================================================
+
+-- [
+--   {"group": 4, "ingredient": "soy lecithin", "marker": "Lecithins (E322)", "reason": "emulsifier"},
+--   {"group": 4, "ingredient": "glucose syrup", "marker": "glucose syrup", "reason": "industrial sugar"}
+-- ]
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Ultra-processed products
+-- SELECT name, brand FROM products WHERE nova_group = 4;
+
+-- Products whose NOVA group comes from an emulsifier
+-- SELECT name FROM products
+-- WHERE nova_markers @> '[{"reason": "emulsifier"}]';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
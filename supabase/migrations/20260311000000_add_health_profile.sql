@@ -0,0 +1,19 @@
+-- Add scoring profile to user dietary profiles
+-- Selects the HealthScorer profile (thresholds, weights and bonuses) used
+-- for the user's health scores; see src/lib/services/health-profiles.ts.
+-- Date: 2026-03-11
+
+-- ============================================================================
+-- ADD HEALTH PROFILE COLUMN
+-- ============================================================================
+
+ALTER TABLE user_dietary_profiles
+ADD COLUMN IF NOT EXISTS health_profile VARCHAR(20) NOT NULL DEFAULT 'default'
+  CHECK (health_profile IN ('default', 'heart_health', 'diabetic', 'kids', 'athlete'));
+
+-- Add comment
+COMMENT ON COLUMN user_dietary_profiles.health_profile IS 'Health scoring profile: default, heart_health, diabetic, kids or athlete';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
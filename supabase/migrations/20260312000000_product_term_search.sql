@@ -0,0 +1,65 @@
+-- Ranked term search for barcode discovery
+-- LocalDiscoveryProvider looks up imported catalog products by the words
+-- of a product's name and brand. The search runs against a trigram index
+-- and returns the products matching the most terms first, so the best
+-- candidates are not cut off by the limit.
+-- Date: 2026-03-12
+
+-- ============================================================================
+-- TRIGRAM INDEX ON NAME AND BRAND
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lowercased name and brand, the text the search terms are matched against
+CREATE OR REPLACE FUNCTION product_search_text(p_name TEXT, p_brand TEXT)
+RETURNS TEXT AS $$
+  SELECT LOWER(COALESCE(p_name, '') || ' ' || COALESCE(p_brand, ''));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm
+ON products USING GIN (product_search_text(name, brand) gin_trgm_ops)
+WHERE barcode IS NOT NULL;
+
+-- ============================================================================
+-- SEARCH FUNCTION
+-- ============================================================================
+
+-- Products with a barcode whose name or brand contains any of the terms,
+-- ranked by the number of terms matched, then by trigram similarity to
+-- the terms as a phrase
+CREATE OR REPLACE FUNCTION search_products_by_terms(
+  p_terms TEXT[],
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS SETOF products AS $$
+  SELECT p.*
+  FROM products p
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS matched_terms
+    FROM unnest(p_terms) AS t(term)
+    WHERE product_search_text(p.name, p.brand) LIKE '%' || t.term || '%'
+  ) m
+  WHERE p.barcode IS NOT NULL
+    AND product_search_text(p.name, p.brand) LIKE ANY (
+      ARRAY(SELECT '%' || term || '%' FROM unnest(p_terms) AS term)
+    )
+  ORDER BY
+    m.matched_terms DESC,
+    word_similarity(array_to_string(p_terms, ' '), product_search_text(p.name, p.brand)) DESC,
+    p.last_scanned_at DESC NULLS LAST
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments
+COMMENT ON FUNCTION product_search_text IS
+  'Lowercased name and brand of a product, indexed with pg_trgm for term search.';
+COMMENT ON FUNCTION search_products_by_terms IS
+  'Searches products with a barcode by lowercase name/brand terms. Returns up to p_limit results, most terms matched first.';
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Catalog products for a Nutella photo
+-- SELECT barcode, name, brand FROM search_products_by_terms(ARRAY['nutella', 'hazelnut', 'ferrero']);
@@ -0,0 +1,89 @@
+-- Merge a duplicate product in one transaction
+-- Merging re-points the duplicate's references, deletes it and updates the
+-- surviving product with the merged fields (computed by
+-- mergeDuplicateProducts in lib/duplicates/product-merge). Run as separate
+-- requests, a failure halfway could lose the duplicate's data or leave the
+-- survivor without the barcode it was taking over; as one function call
+-- the steps commit or roll back together.
+-- Date: 2026-03-13
+
+-- ============================================================================
+-- MERGE FUNCTION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_duplicate_product(
+  p_survivor_id UUID,
+  p_duplicate_id UUID,
+  p_update JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF products AS $$
+DECLARE
+  v_assignments TEXT;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a product into itself';
+  END IF;
+
+  -- Lock both rows so a concurrent merge or edit waits for this one
+  PERFORM 1 FROM products WHERE id IN (p_survivor_id, p_duplicate_id) FOR UPDATE;
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Product not found: %', p_survivor_id;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_duplicate_id) THEN
+    RAISE EXCEPTION 'Product not found: %', p_duplicate_id;
+  END IF;
+
+  -- Re-point references
+  UPDATE scan_logs SET product_id = p_survivor_id WHERE product_id = p_duplicate_id;
+  UPDATE error_reports SET incorrect_product_id = p_survivor_id WHERE incorrect_product_id = p_duplicate_id;
+
+  -- Fold inventory rows for stores both products are seen at into the
+  -- survivor's row, keeping the latest sighting ((product_id, store_id) is unique)
+  UPDATE store_inventory target
+  SET last_seen_at = duplicate.last_seen_at
+  FROM store_inventory duplicate
+  WHERE target.product_id = p_survivor_id
+    AND duplicate.product_id = p_duplicate_id
+    AND duplicate.store_id = target.store_id
+    AND duplicate.last_seen_at > target.last_seen_at;
+
+  DELETE FROM store_inventory duplicate
+  USING store_inventory target
+  WHERE duplicate.product_id = p_duplicate_id
+    AND target.product_id = p_survivor_id
+    AND target.store_id = duplicate.store_id;
+
+  UPDATE store_inventory SET product_id = p_survivor_id WHERE product_id = p_duplicate_id;
+
+  -- Delete first so the survivor can take over the duplicate's unique barcode
+  DELETE FROM products WHERE id = p_duplicate_id;
+
+  -- Apply the merged fields; jsonb_populate_record casts each value to the
+  -- type of its column
+  SELECT string_agg(format('%I = merged.%I', key, key), ', ')
+  INTO v_assignments
+  FROM jsonb_object_keys(p_update) AS key;
+
+  IF v_assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE products SET %s FROM jsonb_populate_record(NULL::products, $1) AS merged WHERE products.id = $2',
+      v_assignments
+    ) USING p_update, p_survivor_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM products WHERE id = p_survivor_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comment
+COMMENT ON FUNCTION merge_duplicate_product IS
+  'Merges a duplicate product into a survivor in one transaction: re-points scan logs, error reports and store inventory, deletes the duplicate and applies p_update (column values) to the survivor.';
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Merge a duplicate, taking over its barcode
+-- SELECT * FROM merge_duplicate_product(
+--   '<survivor-id>', '<duplicate-id>', '{"barcode": "00012345678905"}'::jsonb
+-- );
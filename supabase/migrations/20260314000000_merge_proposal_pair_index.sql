@@ -0,0 +1,63 @@
+-- Unordered uniqueness for merge proposal pairs
+-- The duplicate detector picks which product of a pair survives by barcode,
+-- completeness and age, so the same two products can come back in the
+-- other order once one of them gains fields. UNIQUE (product_id,
+-- duplicate_id) let (B, A) through after (A, B) was dismissed; the pair is
+-- now unique in either order, and proposals are saved through a function
+-- whose ON CONFLICT targets that index.
+-- Date: 2026-03-14
+
+-- ============================================================================
+-- PAIR INDEX
+-- ============================================================================
+
+-- Keep one row per unordered pair: a dismissed row wins, then the oldest
+DELETE FROM product_merge_proposals m
+USING product_merge_proposals other
+WHERE LEAST(m.product_id, m.duplicate_id) = LEAST(other.product_id, other.duplicate_id)
+  AND GREATEST(m.product_id, m.duplicate_id) = GREATEST(other.product_id, other.duplicate_id)
+  AND m.id <> other.id
+  AND (
+    (m.status = 'pending' AND other.status = 'dismissed')
+    OR (m.status = other.status AND (m.created_at, m.id) > (other.created_at, other.id))
+  );
+
+ALTER TABLE product_merge_proposals DROP CONSTRAINT IF EXISTS product_merge_proposals_pair;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_merge_proposals_pair
+ON product_merge_proposals (LEAST(product_id, duplicate_id), GREATEST(product_id, duplicate_id));
+
+-- ============================================================================
+-- SAVE FUNCTION
+-- ============================================================================
+
+-- Insert proposals, skipping pairs already proposed in either order
+-- (pending or dismissed). Returns the number of proposals inserted.
+CREATE OR REPLACE FUNCTION save_merge_proposals(p_proposals JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inserted INTEGER;
+BEGIN
+  INSERT INTO product_merge_proposals (product_id, duplicate_id, score, reasons)
+  SELECT product_id, duplicate_id, score, COALESCE(reasons, '[]'::jsonb)
+  FROM jsonb_to_recordset(p_proposals)
+    AS p(product_id UUID, duplicate_id UUID, score DECIMAL(4,3), reasons JSONB)
+  ON CONFLICT ((LEAST(product_id, duplicate_id)), (GREATEST(product_id, duplicate_id))) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comment
+COMMENT ON FUNCTION save_merge_proposals IS
+  'Inserts merge proposals ({product_id, duplicate_id, score, reasons} objects), skipping pairs already proposed in either order. Returns the number inserted.';
+
+-- ============================================================================
+-- EXAMPLE QUERIES
+-- ============================================================================
+
+-- Propose a pair (a no-op if it was already proposed either way round)
+-- SELECT save_merge_proposals(
+--   '[{"product_id": "<survivor-id>", "duplicate_id": "<duplicate-id>", "score": 0.93, "reasons": ["same barcode"]}]'::jsonb
+-- );